@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "portfolios" ADD COLUMN "averageCost" REAL NOT NULL DEFAULT 0.0;
+ALTER TABLE "portfolios" ADD COLUMN "initialBalance" REAL NOT NULL DEFAULT 10000.0;
+ALTER TABLE "portfolios" ADD COLUMN "realizedPnl" REAL NOT NULL DEFAULT 0.0;
+ALTER TABLE "portfolios" ADD COLUMN "totalFees" REAL NOT NULL DEFAULT 0.0;
+ALTER TABLE "portfolios" ADD COLUMN "unrealizedPnl" REAL NOT NULL DEFAULT 0.0;
+
+-- AlterTable
+ALTER TABLE "trades" ADD COLUMN "fee" REAL NOT NULL DEFAULT 0.0;
+ALTER TABLE "trades" ADD COLUMN "realizedPnl" REAL;
+
+-- CreateIndex
+CREATE INDEX "trades_userId_idx" ON "trades"("userId");
+
+-- CreateIndex
+CREATE INDEX "trades_timestamp_idx" ON "trades"("timestamp");
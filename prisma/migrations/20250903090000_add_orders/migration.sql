@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "trades" ADD COLUMN "orderId" TEXT;
+
+-- CreateTable
+CREATE TABLE "orders" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL DEFAULT 'demo-user',
+    "symbol" TEXT NOT NULL DEFAULT 'BTC',
+    "side" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "quantity" REAL NOT NULL,
+    "filledQuantity" REAL NOT NULL DEFAULT 0.0,
+    "limitPrice" REAL,
+    "triggerPrice" REAL,
+    "triggered" BOOLEAN NOT NULL DEFAULT false,
+    "averageFillPrice" REAL,
+    "ocoGroupId" TEXT,
+    "expiresAt" DATETIME,
+    "filledAt" DATETIME,
+    "cancelledAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "trades_orderId_idx" ON "trades"("orderId");
+
+-- CreateIndex
+CREATE INDEX "orders_userId_idx" ON "orders"("userId");
+
+-- CreateIndex
+CREATE INDEX "orders_status_idx" ON "orders"("status");
+
+-- CreateIndex
+CREATE INDEX "orders_ocoGroupId_idx" ON "orders"("ocoGroupId");
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "candles" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "symbol" TEXT NOT NULL DEFAULT 'BTC',
+    "interval" TEXT NOT NULL,
+    "openTime" DATETIME NOT NULL,
+    "closeTime" DATETIME NOT NULL,
+    "open" REAL NOT NULL,
+    "high" REAL NOT NULL,
+    "low" REAL NOT NULL,
+    "close" REAL NOT NULL,
+    "volume" REAL NOT NULL DEFAULT 0.0,
+    "tickCount" INTEGER NOT NULL DEFAULT 0,
+    "source" TEXT NOT NULL DEFAULT 'ticks',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "candles_symbol_interval_openTime_key" ON "candles"("symbol", "interval", "openTime");
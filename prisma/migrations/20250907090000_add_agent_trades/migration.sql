@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "agent_trades" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "agentId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL DEFAULT 'BTC',
+    "action" TEXT NOT NULL,
+    "quantity" REAL NOT NULL,
+    "price" REAL NOT NULL,
+    "total" REAL NOT NULL,
+    "fee" REAL NOT NULL DEFAULT 0.0,
+    "confidence" REAL,
+    "reasoning" TEXT NOT NULL,
+    "strategyUsed" TEXT NOT NULL,
+    "tradeId" INTEGER,
+    "profitLoss" REAL,
+    "percentReturn" REAL,
+    "holdingPeriod" REAL,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "agent_trades_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "agents" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "agent_trades_agentId_timestamp_idx" ON "agent_trades"("agentId", "timestamp");
@@ -0,0 +1,31 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_agent_trades" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "agentId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL DEFAULT 'BTC',
+    "action" TEXT NOT NULL,
+    "quantity" REAL NOT NULL,
+    "price" REAL NOT NULL,
+    "total" REAL NOT NULL,
+    "fee" REAL NOT NULL DEFAULT 0.0,
+    "confidence" REAL,
+    "reasoning" TEXT NOT NULL,
+    "strategyUsed" TEXT NOT NULL,
+    "tradeId" INTEGER,
+    "patternId" TEXT,
+    "profitLoss" REAL,
+    "percentReturn" REAL,
+    "holdingPeriod" REAL,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "agent_trades_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "agents" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "agent_trades_patternId_fkey" FOREIGN KEY ("patternId") REFERENCES "patterns" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_agent_trades" ("action", "agentId", "confidence", "fee", "holdingPeriod", "id", "percentReturn", "price", "profitLoss", "quantity", "reasoning", "strategyUsed", "symbol", "timestamp", "total", "tradeId") SELECT "action", "agentId", "confidence", "fee", "holdingPeriod", "id", "percentReturn", "price", "profitLoss", "quantity", "reasoning", "strategyUsed", "symbol", "timestamp", "total", "tradeId" FROM "agent_trades";
+DROP TABLE "agent_trades";
+ALTER TABLE "new_agent_trades" RENAME TO "agent_trades";
+CREATE INDEX "agent_trades_agentId_timestamp_idx" ON "agent_trades"("agentId", "timestamp");
+CREATE INDEX "agent_trades_patternId_idx" ON "agent_trades"("patternId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "signals" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "agentId" TEXT NOT NULL,
+    "patternId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL DEFAULT 'BTC',
+    "interval" TEXT NOT NULL,
+    "direction" TEXT NOT NULL,
+    "strength" REAL NOT NULL,
+    "price" REAL NOT NULL,
+    "candleTime" DATETIME NOT NULL,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "signals_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "agents" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "signals_patternId_fkey" FOREIGN KEY ("patternId") REFERENCES "patterns" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "signals_agentId_timestamp_idx" ON "signals"("agentId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "signals_timestamp_idx" ON "signals"("timestamp");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "signals_patternId_symbol_interval_candleTime_key" ON "signals"("patternId", "symbol", "interval", "candleTime");
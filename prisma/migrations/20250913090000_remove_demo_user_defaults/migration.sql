@@ -0,0 +1,68 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_portfolios" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "userId" TEXT NOT NULL,
+    "balance" REAL NOT NULL DEFAULT 10000.0,
+    "bitcoinHoldings" REAL NOT NULL DEFAULT 0.0,
+    "totalValue" REAL NOT NULL DEFAULT 10000.0,
+    "profit" REAL NOT NULL DEFAULT 0.0,
+    "profitPercentage" REAL NOT NULL DEFAULT 0.0,
+    "initialBalance" REAL NOT NULL DEFAULT 10000.0,
+    "averageCost" REAL NOT NULL DEFAULT 0.0,
+    "realizedPnl" REAL NOT NULL DEFAULT 0.0,
+    "unrealizedPnl" REAL NOT NULL DEFAULT 0.0,
+    "totalFees" REAL NOT NULL DEFAULT 0.0,
+    "lastUpdated" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+INSERT INTO "new_portfolios" ("averageCost", "balance", "bitcoinHoldings", "id", "initialBalance", "lastUpdated", "profit", "profitPercentage", "realizedPnl", "totalFees", "totalValue", "unrealizedPnl", "userId") SELECT "averageCost", "balance", "bitcoinHoldings", "id", "initialBalance", "lastUpdated", "profit", "profitPercentage", "realizedPnl", "totalFees", "totalValue", "unrealizedPnl", "userId" FROM "portfolios";
+DROP TABLE "portfolios";
+ALTER TABLE "new_portfolios" RENAME TO "portfolios";
+CREATE UNIQUE INDEX "portfolios_userId_key" ON "portfolios"("userId");
+CREATE TABLE "new_trades" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "userId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "price" REAL NOT NULL,
+    "total" REAL NOT NULL,
+    "fee" REAL NOT NULL DEFAULT 0.0,
+    "realizedPnl" REAL,
+    "orderId" TEXT,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+INSERT INTO "new_trades" ("amount", "fee", "id", "orderId", "price", "realizedPnl", "timestamp", "total", "type", "userId") SELECT "amount", "fee", "id", "orderId", "price", "realizedPnl", "timestamp", "total", "type", "userId" FROM "trades";
+DROP TABLE "trades";
+ALTER TABLE "new_trades" RENAME TO "trades";
+CREATE INDEX "trades_userId_idx" ON "trades"("userId");
+CREATE INDEX "trades_timestamp_idx" ON "trades"("timestamp");
+CREATE INDEX "trades_orderId_idx" ON "trades"("orderId");
+CREATE TABLE "new_orders" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL DEFAULT 'BTC',
+    "side" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "quantity" REAL NOT NULL,
+    "filledQuantity" REAL NOT NULL DEFAULT 0.0,
+    "limitPrice" REAL,
+    "triggerPrice" REAL,
+    "triggered" BOOLEAN NOT NULL DEFAULT false,
+    "averageFillPrice" REAL,
+    "ocoGroupId" TEXT,
+    "expiresAt" DATETIME,
+    "filledAt" DATETIME,
+    "cancelledAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+INSERT INTO "new_orders" ("averageFillPrice", "cancelledAt", "createdAt", "expiresAt", "filledAt", "filledQuantity", "id", "limitPrice", "ocoGroupId", "quantity", "side", "status", "symbol", "triggerPrice", "triggered", "type", "updatedAt", "userId") SELECT "averageFillPrice", "cancelledAt", "createdAt", "expiresAt", "filledAt", "filledQuantity", "id", "limitPrice", "ocoGroupId", "quantity", "side", "status", "symbol", "triggerPrice", "triggered", "type", "updatedAt", "userId" FROM "orders";
+DROP TABLE "orders";
+ALTER TABLE "new_orders" RENAME TO "orders";
+CREATE INDEX "orders_userId_idx" ON "orders"("userId");
+CREATE INDEX "orders_status_idx" ON "orders"("status");
+CREATE INDEX "orders_ocoGroupId_idx" ON "orders"("ocoGroupId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,39 @@
+/*
+  Warnings:
+
+  - Added the required column `userId` to the `agent_trades` table without a default value. Existing rows take the user of the paper trade they filled on; rows whose paper trade no longer exists are dropped.
+
+*/
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_agent_trades" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "agentId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL DEFAULT 'BTC',
+    "action" TEXT NOT NULL,
+    "quantity" REAL NOT NULL,
+    "price" REAL NOT NULL,
+    "total" REAL NOT NULL,
+    "fee" REAL NOT NULL DEFAULT 0.0,
+    "confidence" REAL,
+    "reasoning" TEXT NOT NULL,
+    "strategyUsed" TEXT NOT NULL,
+    "tradeId" INTEGER,
+    "patternId" TEXT,
+    "profitLoss" REAL,
+    "percentReturn" REAL,
+    "holdingPeriod" REAL,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "agent_trades_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "agents" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "agent_trades_patternId_fkey" FOREIGN KEY ("patternId") REFERENCES "patterns" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_agent_trades" ("action", "agentId", "confidence", "fee", "holdingPeriod", "id", "patternId", "percentReturn", "price", "profitLoss", "quantity", "reasoning", "strategyUsed", "symbol", "timestamp", "total", "tradeId", "userId") SELECT "agent_trades"."action", "agent_trades"."agentId", "agent_trades"."confidence", "agent_trades"."fee", "agent_trades"."holdingPeriod", "agent_trades"."id", "agent_trades"."patternId", "agent_trades"."percentReturn", "agent_trades"."price", "agent_trades"."profitLoss", "agent_trades"."quantity", "agent_trades"."reasoning", "agent_trades"."strategyUsed", "agent_trades"."symbol", "agent_trades"."timestamp", "agent_trades"."total", "agent_trades"."tradeId", "trades"."userId" FROM "agent_trades" INNER JOIN "trades" ON "trades"."id" = "agent_trades"."tradeId";
+DROP TABLE "agent_trades";
+ALTER TABLE "new_agent_trades" RENAME TO "agent_trades";
+CREATE INDEX "agent_trades_agentId_timestamp_idx" ON "agent_trades"("agentId", "timestamp");
+CREATE INDEX "agent_trades_userId_agentId_timestamp_idx" ON "agent_trades"("userId", "agentId", "timestamp");
+CREATE INDEX "agent_trades_patternId_idx" ON "agent_trades"("patternId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,196 @@
+/*
+  Warnings:
+
+  - These tables were in the schema from the start but no earlier migration created them. They are created as the schema first had them; later migrations bring them up to date.
+  - A unique constraint covering the columns `[name]` on the table `agents` will be added. If there are existing duplicate values, this will fail.
+
+*/
+-- CreateTable
+CREATE TABLE "patterns" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "agentId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 1,
+    "confidenceRate" REAL NOT NULL DEFAULT 0.0,
+    "examples" TEXT NOT NULL DEFAULT '[]',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "patterns_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "agents" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "agent_watchlist_items" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "agentId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "agentView" TEXT NOT NULL,
+    "alertPrice" REAL,
+    "alertType" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "addedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastReviewedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "agent_watchlist_items_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "agents" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "users" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "email" TEXT NOT NULL,
+    "password" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "trading_notes" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "tags" TEXT NOT NULL DEFAULT '',
+    "bitcoinPrice" REAL,
+    "priceChange24h" REAL,
+    "sentiment" TEXT,
+    "isPublic" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "trading_notes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "watchlist_items" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "alertPrice" REAL,
+    "alertType" TEXT,
+    "notes" TEXT,
+    "tags" TEXT NOT NULL DEFAULT '',
+    "alertTriggered" BOOLEAN NOT NULL DEFAULT false,
+    "lastAlertAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "watchlist_items_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "chat_messages" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "agentId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL DEFAULT 'demo-user',
+    "content" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "metadata" TEXT NOT NULL DEFAULT '{}',
+    "isRead" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "chat_messages_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "agents" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "news_articles" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "url" TEXT,
+    "publishedAt" DATETIME NOT NULL,
+    "sentimentScore" REAL NOT NULL DEFAULT 0.0,
+    "importanceScore" INTEGER NOT NULL DEFAULT 5,
+    "category" TEXT NOT NULL,
+    "relatedSymbols" TEXT NOT NULL DEFAULT '[]',
+    "summary" TEXT,
+    "aiAnalysis" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "news_reports" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "type" TEXT NOT NULL,
+    "date" DATETIME NOT NULL,
+    "overallSentiment" REAL NOT NULL DEFAULT 0.0,
+    "marketTrend" TEXT NOT NULL,
+    "keyEvents" TEXT NOT NULL DEFAULT '[]',
+    "summary" TEXT NOT NULL,
+    "topStoriesIds" TEXT NOT NULL DEFAULT '[]',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "agents_name_key" ON "agents"("name");
+
+-- CreateIndex
+CREATE INDEX "patterns_agentId_idx" ON "patterns"("agentId");
+
+-- CreateIndex
+CREATE INDEX "patterns_priority_idx" ON "patterns"("priority");
+
+-- CreateIndex
+CREATE INDEX "agent_watchlist_items_agentId_idx" ON "agent_watchlist_items"("agentId");
+
+-- CreateIndex
+CREATE INDEX "agent_watchlist_items_symbol_idx" ON "agent_watchlist_items"("symbol");
+
+-- CreateIndex
+CREATE INDEX "agent_watchlist_items_category_idx" ON "agent_watchlist_items"("category");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_email_key" ON "users"("email");
+
+-- CreateIndex
+CREATE INDEX "trading_notes_userId_idx" ON "trading_notes"("userId");
+
+-- CreateIndex
+CREATE INDEX "trading_notes_createdAt_idx" ON "trading_notes"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "trading_notes_sentiment_idx" ON "trading_notes"("sentiment");
+
+-- CreateIndex
+CREATE INDEX "watchlist_items_userId_idx" ON "watchlist_items"("userId");
+
+-- CreateIndex
+CREATE INDEX "watchlist_items_symbol_idx" ON "watchlist_items"("symbol");
+
+-- CreateIndex
+CREATE INDEX "watchlist_items_alertPrice_idx" ON "watchlist_items"("alertPrice");
+
+-- CreateIndex
+CREATE INDEX "chat_messages_agentId_idx" ON "chat_messages"("agentId");
+
+-- CreateIndex
+CREATE INDEX "chat_messages_userId_idx" ON "chat_messages"("userId");
+
+-- CreateIndex
+CREATE INDEX "chat_messages_createdAt_idx" ON "chat_messages"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "chat_messages_type_idx" ON "chat_messages"("type");
+
+-- CreateIndex
+CREATE INDEX "news_articles_category_idx" ON "news_articles"("category");
+
+-- CreateIndex
+CREATE INDEX "news_articles_publishedAt_idx" ON "news_articles"("publishedAt");
+
+-- CreateIndex
+CREATE INDEX "news_articles_sentimentScore_idx" ON "news_articles"("sentimentScore");
+
+-- CreateIndex
+CREATE INDEX "news_articles_importanceScore_idx" ON "news_articles"("importanceScore");
+
+-- CreateIndex
+CREATE INDEX "news_reports_type_idx" ON "news_reports"("type");
+
+-- CreateIndex
+CREATE INDEX "news_reports_date_idx" ON "news_reports"("date");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "patterns" ADD COLUMN "priorConfidence" REAL NOT NULL DEFAULT 50.0;
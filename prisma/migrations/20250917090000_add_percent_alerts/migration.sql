@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "agent_watchlist_items" ADD COLUMN "alertBasePrice" REAL;
+ALTER TABLE "agent_watchlist_items" ADD COLUMN "alertPercent" REAL;
+ALTER TABLE "agent_watchlist_items" ADD COLUMN "alertTriggered" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "agent_watchlist_items" ADD COLUMN "lastAlertAt" DATETIME;
+
+-- AlterTable
+ALTER TABLE "watchlist_items" ADD COLUMN "alertBasePrice" REAL;
+ALTER TABLE "watchlist_items" ADD COLUMN "alertPercent" REAL;
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "news_articles_url_idx" ON "news_articles"("url");
@@ -0,0 +1,21 @@
+/*
+  Warnings:
+
+  - A unique constraint covering the columns `[type,date]` on the table `news_reports` will be added. If there are existing duplicate values, this will fail.
+
+*/
+-- AlterTable
+ALTER TABLE "news_reports" ADD COLUMN "periodStart" DATETIME;
+ALTER TABLE "news_reports" ADD COLUMN "periodEnd" DATETIME;
+ALTER TABLE "news_reports" ADD COLUMN "articleCount" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "news_reports" ADD COLUMN "previousSentiment" REAL;
+ALTER TABLE "news_reports" ADD COLUMN "sentimentChange" REAL;
+ALTER TABLE "news_reports" ADD COLUMN "sentimentTrend" TEXT;
+ALTER TABLE "news_reports" ADD COLUMN "priceOpen" REAL;
+ALTER TABLE "news_reports" ADD COLUMN "priceClose" REAL;
+ALTER TABLE "news_reports" ADD COLUMN "priceHigh" REAL;
+ALTER TABLE "news_reports" ADD COLUMN "priceLow" REAL;
+ALTER TABLE "news_reports" ADD COLUMN "priceChangePercent" REAL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "news_reports_type_date_key" ON "news_reports"("type", "date");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "patterns" ADD COLUMN "rule" TEXT;
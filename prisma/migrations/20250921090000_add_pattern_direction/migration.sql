@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "patterns" ADD COLUMN "direction" TEXT NOT NULL DEFAULT 'BUY';
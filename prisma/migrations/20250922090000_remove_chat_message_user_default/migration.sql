@@ -0,0 +1,24 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_chat_messages" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "agentId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "metadata" TEXT NOT NULL DEFAULT '{}',
+    "isRead" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "chat_messages_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "agents" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_chat_messages" ("agentId", "content", "createdAt", "id", "isRead", "metadata", "type", "updatedAt", "userId") SELECT "agentId", "content", "createdAt", "id", "isRead", "metadata", "type", "updatedAt", "userId" FROM "chat_messages";
+DROP TABLE "chat_messages";
+ALTER TABLE "new_chat_messages" RENAME TO "chat_messages";
+CREATE INDEX "chat_messages_agentId_idx" ON "chat_messages"("agentId");
+CREATE INDEX "chat_messages_userId_idx" ON "chat_messages"("userId");
+CREATE INDEX "chat_messages_createdAt_idx" ON "chat_messages"("createdAt");
+CREATE INDEX "chat_messages_type_idx" ON "chat_messages"("type");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,15 @@
+/*
+  Warnings:
+
+  - A unique constraint covering the columns `[username]` on the table `users` will be added. If there are existing duplicate values, this will fail.
+
+*/
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "username" TEXT;
+ALTER TABLE "users" ADD COLUMN "gameLevel" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "users" ADD COLUMN "experience" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "users" ADD COLUMN "totalTrades" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "users" ADD COLUMN "preferences" TEXT NOT NULL DEFAULT '{}';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_username_key" ON "users"("username");
@@ -0,0 +1,24 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_agents" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "personality" TEXT NOT NULL,
+    "strategy" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "ownerId" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "agents_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_agents" ("createdAt", "description", "id", "isActive", "name", "personality", "strategy", "type", "updatedAt") SELECT "createdAt", "description", "id", "isActive", "name", "personality", "strategy", "type", "updatedAt" FROM "agents";
+DROP TABLE "agents";
+ALTER TABLE "new_agents" RENAME TO "agents";
+CREATE UNIQUE INDEX "agents_name_key" ON "agents"("name");
+CREATE UNIQUE INDEX "agents_type_key" ON "agents"("type");
+CREATE INDEX "agents_ownerId_idx" ON "agents"("ownerId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -18,7 +18,8 @@ async function createDemoUser() {
     const demoUser = await prisma.user.create({
       data: {
         id: 'demo-user-123',
-        email: 'demo@example.com'
+        email: 'demo@example.com',
+        username: 'demo'
       }
     });
 
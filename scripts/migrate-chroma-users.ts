@@ -0,0 +1,192 @@
+#!/usr/bin/env tsx
+
+/**
+ * Import accounts from the Chroma `user_profiles` collection into the Prisma User table
+ *
+ * Accounts used to live in Chroma while trading notes and watchlist items referenced a
+ * bare Prisma user row. For each Chroma profile this creates the user, or fills in the
+ * bare row with the same id, carrying over the password hash, username, level,
+ * experience and preferences. Rows that already have a password are left alone, so the
+ * script can be re-run safely. Users still without a username get one from their email.
+ *
+ * Usage: npm run migrate-users [-- --dry-run]
+ */
+
+import { prisma } from '../src/lib/database/prisma-client';
+import { getChromaClient } from '../src/lib/database/chroma-client';
+import { parseUserPreferences } from '../src/lib/services/user-service';
+
+const USER_PROFILES_COLLECTION = 'user_profiles';
+const BATCH_SIZE = 100;
+
+interface ChromaUser {
+  id: string;
+  email: string;
+  username: string;
+  passwordHash: string | null;
+  createdAt: Date;
+  gameLevel: number;
+  totalTrades: number;
+  experience: number;
+  preferences: string;
+}
+
+type Metadata = Record<string, string | number | boolean | null | undefined>;
+
+const asInt = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.round(value)) : fallback;
+
+/**
+ * Combine a profile document (the User JSON) with its metadata, which holds the password hash
+ */
+function readChromaUser(id: string, document: string | null, metadata: Metadata | null): ChromaUser | null {
+  let profile: Record<string, unknown> = {};
+  try {
+    profile = document ? JSON.parse(document) : {};
+  } catch {
+    // Fall back to the metadata copy of the profile
+  }
+  const meta = metadata ?? {};
+
+  const email = String(profile.email ?? meta.email ?? '').trim().toLowerCase();
+  const username = String(profile.username ?? meta.username ?? '').trim();
+  if (!email || !username) {
+    return null;
+  }
+
+  const createdAt = new Date(String(profile.createdAt ?? meta.created_at ?? new Date().toISOString()));
+
+  return {
+    id,
+    email,
+    username,
+    passwordHash: typeof meta.password_hash === 'string' && meta.password_hash ? meta.password_hash : null,
+    createdAt: isNaN(createdAt.getTime()) ? new Date() : createdAt,
+    gameLevel: Math.max(1, asInt(profile.gameLevel ?? meta.game_level, 1)),
+    totalTrades: asInt(profile.totalTrades ?? meta.total_trades, 0),
+    experience: asInt(profile.experience ?? meta.experience, 0),
+    preferences: JSON.stringify(parseUserPreferences(JSON.stringify(profile.preferences ?? {})))
+  };
+}
+
+async function loadChromaUsers(): Promise<ChromaUser[] | null> {
+  const client = await getChromaClient();
+
+  let collection;
+  try {
+    collection = await client.getCollection({ name: USER_PROFILES_COLLECTION });
+  } catch {
+    return null;
+  }
+
+  const users: ChromaUser[] = [];
+  for (let offset = 0; ; offset += BATCH_SIZE) {
+    const batch = await collection.get({
+      limit: BATCH_SIZE,
+      offset,
+      include: ['documents', 'metadatas']
+    });
+
+    batch.ids.forEach((id, index) => {
+      const user = readChromaUser(id, batch.documents[index], batch.metadatas[index] as Metadata | null);
+      if (user) {
+        users.push(user);
+      } else {
+        console.warn(`⚠️  Skipping Chroma profile ${id}: no email or username`);
+      }
+    });
+
+    if (batch.ids.length < BATCH_SIZE) break;
+  }
+  return users;
+}
+
+/**
+ * Give users without a username one derived from their email, made unique with a suffix
+ */
+async function backfillUsernames(dryRun: boolean): Promise<number> {
+  const users = await prisma.user.findMany({
+    where: { username: null },
+    select: { id: true, email: true }
+  });
+
+  const assigned = new Set<string>();
+  for (const user of users) {
+    const base = (user.email.split('@')[0].replace(/[^a-zA-Z0-9_.-]/g, '') || 'user').padEnd(3, '0').slice(0, 40);
+    let username = base;
+    for (let suffix = 2; assigned.has(username) || await prisma.user.findUnique({ where: { username } }); suffix++) {
+      username = `${base}-${suffix}`;
+    }
+    assigned.add(username);
+
+    console.log(`🏷️  ${user.email} → ${username}`);
+    if (!dryRun) {
+      await prisma.user.update({ where: { id: user.id }, data: { username } });
+    }
+  }
+  return users.length;
+}
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  const counts = { created: 0, updated: 0, unchanged: 0, conflicts: 0 };
+
+  try {
+    const chromaUsers = await loadChromaUsers();
+    if (!chromaUsers) {
+      console.log(`ℹ️  No ${USER_PROFILES_COLLECTION} collection found, nothing to import`);
+    } else {
+      console.log(`📥 Found ${chromaUsers.length} Chroma user profiles${dryRun ? ' (dry run)' : ''}`);
+    }
+
+    for (const user of chromaUsers ?? []) {
+      const [byId, byEmail, byUsername] = await Promise.all([
+        prisma.user.findUnique({ where: { id: user.id } }),
+        prisma.user.findUnique({ where: { email: user.email } }),
+        prisma.user.findUnique({ where: { username: user.username } })
+      ]);
+
+      if (byId?.password) {
+        counts.unchanged++;
+        continue;
+      }
+      if ((byEmail && byEmail.id !== user.id) || (byUsername && byUsername.id !== user.id)) {
+        console.warn(`⚠️  Conflict for ${user.email} (${user.id}): email or username belongs to another user`);
+        counts.conflicts++;
+        continue;
+      }
+
+      const data = {
+        email: user.email,
+        username: user.username,
+        password: user.passwordHash,
+        gameLevel: user.gameLevel,
+        totalTrades: user.totalTrades,
+        experience: user.experience,
+        preferences: user.preferences,
+        createdAt: user.createdAt
+      };
+
+      if (byId) {
+        if (!dryRun) await prisma.user.update({ where: { id: user.id }, data });
+        counts.updated++;
+      } else {
+        if (!dryRun) await prisma.user.create({ data: { id: user.id, ...data } });
+        counts.created++;
+      }
+    }
+
+    const backfilled = await backfillUsernames(dryRun);
+
+    console.log(
+      `✅ ${counts.created} created, ${counts.updated} updated, ${counts.unchanged} already migrated, ` +
+      `${counts.conflicts} conflicts, ${backfilled} usernames backfilled`
+    );
+    process.exit(counts.conflicts > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('User migration failed:', error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,32 @@
+#!/usr/bin/env tsx
+
+/**
+ * Re-score stored news articles with the lexicon scorer
+ *
+ * Recomputes NewsArticle.sentimentScore and importanceScore, e.g. after the
+ * lexicon or source credibility table changes.
+ *
+ * Usage: npm run rescore-news [-- --since 2025-09-01]
+ */
+
+import { newsScoringService } from '../src/lib/services/news-scoring-service';
+
+async function main() {
+  const sinceIndex = process.argv.indexOf('--since');
+  const since = sinceIndex >= 0 ? new Date(process.argv[sinceIndex + 1]) : undefined;
+  if (since && isNaN(since.getTime())) {
+    console.error(`❌ Invalid --since date: ${process.argv[sinceIndex + 1]}`);
+    process.exit(1);
+  }
+
+  try {
+    const result = await newsScoringService.rescore({ since });
+    console.log(`✅ Re-scored ${result.scanned} articles (${result.updated} changed)`);
+    process.exit(0);
+  } catch (error) {
+    console.error('News re-scoring failed:', error);
+    process.exit(1);
+  }
+}
+
+main();
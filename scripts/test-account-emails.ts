@@ -0,0 +1,123 @@
+#!/usr/bin/env tsx
+// Test script for the account email flows
+// Checks that registering emails a verification link, that verify-email and reset-password
+// tokens are signed, single-use and expiring, and that a reset signs out every session.
+// Mail goes to a file transport in a temporary directory; the throwaway user is deleted afterwards.
+
+import jwt from 'jsonwebtoken';
+import os from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { rm } from 'fs/promises';
+import { prisma } from '../src/lib/database/prisma-client';
+import { FileMailTransport } from '../src/lib/mail/file-transport';
+import { getJwtSecret } from '../src/lib/auth/tokens';
+import { authService } from '../src/lib/services/auth-service';
+import { mailService } from '../src/lib/services/mail-service';
+import { sessionService } from '../src/lib/services/session-service';
+import { accountTokenService } from '../src/lib/services/account-token-service';
+
+const CLIENT = { userAgent: 'test-account-emails', ipAddress: '127.0.0.1' };
+
+async function testAccountEmails() {
+  console.log('🧪 Testing account emails...\n');
+
+  const results: Array<{ name: string; passed: boolean }> = [];
+  const check = (name: string, passed: boolean) => {
+    results.push({ name, passed });
+    console.log(`${passed ? '✅' : '❌'} ${name}`);
+  };
+
+  const outboxDir = path.join(os.tmpdir(), `mail-outbox-${randomUUID().slice(0, 8)}`);
+  const outbox = new FileMailTransport(outboxDir);
+  mailService.setTransport(outbox);
+
+  const tokenFrom = async (to: string, pathname: string) => {
+    const mail = (await outbox.list(to)).reverse().find((message) => message.text.includes(pathname));
+    const link = mail?.text.match(/https?:\/\/\S+/)?.[0];
+    return link ? new URL(link).searchParams.get('token') ?? '' : '';
+  };
+
+  const id = randomUUID().slice(0, 8);
+  const credentials = { email: `mail-test-${id}@example.com`, username: `mail-test-${id}`, password: `password-${id}` };
+  const registered = await authService.register(credentials, CLIENT);
+  const userId = registered.user?.id;
+
+  try {
+    check('registration succeeds with an unverified address', registered.success && registered.user?.emailVerified === false);
+
+    // Verification
+    const verifyToken = await tokenFrom(credentials.email, '/verify-email');
+    const [mail] = await outbox.list(credentials.email);
+    check('registering emails a verification link built from APP_URL',
+      !!verifyToken && mail.text.includes(`${mailService.getConfig().appUrl}/verify-email?token=`) && !!mail.from);
+
+    const wrongPurpose = await authService.resetPassword(verifyToken, 'new-password-123');
+    check('a verification token cannot reset the password', wrongPurpose.code === 'INVALID_TOKEN');
+
+    const verified = await authService.verifyEmail(verifyToken);
+    check('the link verifies the address', verified.success && verified.user?.emailVerified === true);
+    check('the link works only once', (await authService.verifyEmail(verifyToken)).code === 'TOKEN_USED');
+    check('verified users are not sent another link',
+      (await authService.resendVerificationEmail(userId!)).code === 'ALREADY_VERIFIED');
+
+    const tampered = await authService.verifyEmail(verifyToken.replace(/\.[^.]+$/, '.c2lnbmF0dXJl'));
+    check('a token with a forged signature is rejected', tampered.code === 'INVALID_TOKEN');
+
+    // Expiry and replacement
+    const { token: issued } = await accountTokenService.issue(userId!, credentials.email, 'verify_email');
+    const { jti } = jwt.decode(issued) as jwt.JwtPayload;
+    const expired = jwt.sign({}, getJwtSecret(), {
+      jwtid: jti, subject: userId!, audience: 'verify_email', expiresIn: -60
+    });
+    check('an expired token is rejected', (await authService.verifyEmail(expired)).code === 'TOKEN_EXPIRED');
+
+    await accountTokenService.issue(userId!, credentials.email, 'verify_email');
+    check('issuing a new token retires the previous one', (await authService.verifyEmail(issued)).code === 'TOKEN_USED');
+
+    // Password reset
+    const before = (await outbox.list()).length;
+    const unknown = await authService.requestPasswordReset(`nobody-${id}@example.com`);
+    const known = await authService.requestPasswordReset(credentials.email.toUpperCase());
+    check('reset requests answer the same for unknown addresses and send nothing for them',
+      unknown.message === known.message && (await outbox.list()).length === before + 1);
+
+    await authService.requestPasswordReset(credentials.email);
+    check('a second reset request within the cooldown sends nothing', (await outbox.list()).length === before + 1);
+
+    const resetToken = await tokenFrom(credentials.email, '/reset-password');
+    const session = await sessionService.createSession(
+      { id: userId!, email: credentials.email, username: credentials.username }, CLIENT
+    );
+
+    const weak = await authService.resetPassword(resetToken, 'short');
+    check('a too-short password is refused without using up the link', weak.code === 'WEAK_PASSWORD');
+
+    const reset = await authService.resetPassword(resetToken, 'reset-password-123');
+    check('the link sets a new password', reset.success &&
+      (await authService.login({ email: credentials.email, password: 'reset-password-123' }, CLIENT)).success &&
+      !(await authService.login(credentials, CLIENT)).success);
+    check('resetting signs out existing sessions', !(await sessionService.isActive(session.sessionId, userId!)));
+    check('the reset link works only once',
+      (await authService.resetPassword(resetToken, 'another-password-123')).code === 'TOKEN_USED');
+  } finally {
+    if (userId) {
+      await prisma.user.delete({ where: { id: userId } });
+    }
+    await rm(outboxDir, { recursive: true, force: true });
+  }
+
+  const failed = results.filter((result) => !result.passed);
+  console.log(`\n${failed.length === 0 ? '🎉' : '❌'} ${results.length - failed.length}/${results.length} checks passed`);
+  process.exit(failed.length === 0 ? 0 : 1);
+}
+
+// Run the test if this file is executed directly
+if (require.main === module) {
+  testAccountEmails().catch((error) => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
+
+export { testAccountEmails };
@@ -0,0 +1,136 @@
+#!/usr/bin/env tsx
+// Test script for API keys
+// Checks which scope each route needs, that keys are stored hashed, and that the middleware
+// and getCurrentUser accept `Authorization: Bearer` keys within their scopes and rate limits.
+// Creates a throwaway user in the database and deletes it afterwards.
+
+import { randomUUID } from 'crypto';
+import { NextRequest } from 'next/server';
+import { prisma } from '../src/lib/database/prisma-client';
+import { getCurrentUser } from '../src/lib/auth/current-user';
+import { requiredScope } from '../src/lib/auth/api-key-scopes';
+import { hashToken } from '../src/lib/auth/tokens';
+import { ApiKeyError, apiKeyService } from '../src/lib/services/api-key-service';
+import { middleware } from '../src/middleware';
+
+const BASE_URL = 'http://localhost:3000';
+
+const requestWith = (path: string, key: string, method: string = 'GET') =>
+  new NextRequest(`${BASE_URL}${path}`, {
+    method,
+    headers: { authorization: `Bearer ${key}`, 'x-forwarded-for': '203.0.113.7' }
+  });
+
+const authenticateError = async (key: string) => {
+  try {
+    await apiKeyService.authenticate(key, 'read:portfolio');
+    return null;
+  } catch (error) {
+    return error instanceof ApiKeyError ? error.code : 'UNEXPECTED';
+  }
+};
+
+async function testApiKeys() {
+  console.log('🧪 Testing API keys...\n');
+
+  const results: Array<{ name: string; passed: boolean }> = [];
+  const check = (name: string, passed: boolean) => {
+    results.push({ name, passed });
+    console.log(`${passed ? '✅' : '❌'} ${name}`);
+  };
+
+  // Scope table
+  check('reads and writes need different scopes',
+    requiredScope('/api/portfolio', 'GET') === 'read:portfolio' &&
+    requiredScope('/api/trade', 'POST') === 'trade' &&
+    requiredScope('/api/orders/abc', 'DELETE') === 'trade' &&
+    requiredScope('/api/trading-notes', 'POST') === 'notes:write' &&
+    requiredScope('/api/watchlist/abc', 'GET') === 'read:watchlist' &&
+    requiredScope('/api/agents/abc/performance', 'GET') === 'read:portfolio');
+  check('agent changes need manage:agents, but running an agent trade needs trade',
+    requiredScope('/api/agents', 'POST') === 'manage:agents' &&
+    requiredScope('/api/agents/abc/patterns/p1', 'DELETE') === 'manage:agents' &&
+    requiredScope('/api/agents/abc/trades', 'POST') === 'trade');
+  check('keys cannot act as a user on auth, chat or public read routes',
+    requiredScope('/api/auth/api-keys', 'POST') === null &&
+    requiredScope('/api/auth/sessions', 'GET') === null &&
+    requiredScope('/api/chat/agent-1', 'POST') === null &&
+    requiredScope('/api/agents/abc/patterns/evaluate', 'POST') === null &&
+    requiredScope('/api/agents', 'GET') === null);
+
+  const id = randomUUID().slice(0, 8);
+  const record = await prisma.user.create({
+    data: { email: `api-key-test-${id}@example.com`, username: `api-key-test-${id}` }
+  });
+
+  try {
+    const { key, apiKey } = await apiKeyService.createKey(record.id, {
+      name: 'test bot',
+      scopes: ['read:portfolio', 'read:portfolio'],
+      rateLimitPerMinute: 3
+    });
+    const stored = await prisma.apiKey.findUnique({ where: { id: apiKey.id } });
+    check('only the hash of a key is stored', stored?.keyHash === hashToken(key) && !JSON.stringify(stored).includes(key));
+    check('the prefix shown for a key is its start', key.startsWith(apiKey.prefix) && apiKey.scopes.length === 1);
+
+    // getCurrentUser
+    const current = await getCurrentUser(requestWith('/api/portfolio', key));
+    check('getCurrentUser reads the user from a bearer key', current?.id === record.id && current.apiKeyId === apiKey.id);
+    check('getCurrentUser ignores a key on a route outside its scopes',
+      await getCurrentUser(requestWith('/api/trade', key, 'POST')) === null);
+
+    // Middleware
+    const allowed = await middleware(requestWith('/api/portfolio', key));
+    check('the middleware lets a key through with rate limit headers',
+      allowed.status === 200 && allowed.headers.get('X-RateLimit-Remaining') === '2');
+
+    const used = await prisma.apiKey.findUnique({ where: { id: apiKey.id } });
+    check('use is recorded with time and address', !!used?.lastUsedAt && used.lastUsedIp === '203.0.113.7');
+
+    const forbidden = await middleware(requestWith('/api/trade', key, 'POST'));
+    check('a key without the scope is refused with 403', forbidden.status === 403);
+
+    const notAllowed = await middleware(requestWith('/api/auth/api-keys', key));
+    check('a key cannot reach key management', notAllowed.status === 403);
+
+    const publicRoute = await middleware(requestWith('/api/candles', key));
+    check('public routes ignore the key', publicRoute.status === 200 && !publicRoute.headers.has('X-RateLimit-Limit'));
+
+    const invalid = await middleware(requestWith('/api/portfolio', 'btg_not-a-real-key'));
+    check('an unknown key is refused with 401', invalid.status === 401);
+
+    // Rate limit: two uses left in this window
+    check('requests within the limit pass', await authenticateError(key) === null && await authenticateError(key) === null);
+    check('the request over the limit is refused', await authenticateError(key) === 'RATE_LIMITED');
+    const limited = await middleware(requestWith('/api/portfolio', key));
+    check('the middleware answers 429 with Retry-After', limited.status === 429 && Number(limited.headers.get('Retry-After')) > 0);
+
+    await prisma.apiKey.update({ where: { id: apiKey.id }, data: { rateWindowStart: new Date(Date.now() - 61 * 1000) } });
+    check('a new window starts after a minute', await authenticateError(key) === null);
+
+    // Expiry and revocation
+    await prisma.apiKey.update({ where: { id: apiKey.id }, data: { expiresAt: new Date(Date.now() - 1000) } });
+    check('an expired key is refused', await authenticateError(key) === 'API_KEY_EXPIRED');
+
+    const { key: second, apiKey: secondKey } = await apiKeyService.createKey(record.id, { name: 'second', scopes: ['read:portfolio'] });
+    check('revoking a key stops it working',
+      await apiKeyService.revokeKey(record.id, secondKey.id) && await authenticateError(second) === 'API_KEY_REVOKED');
+    check('revoked keys are not listed', (await apiKeyService.listKeys(record.id)).every((listed) => listed.id !== secondKey.id));
+  } finally {
+    await prisma.user.delete({ where: { id: record.id } });
+  }
+
+  const failed = results.filter((result) => !result.passed);
+  console.log(`\n${failed.length === 0 ? '🎉' : '❌'} ${results.length - failed.length}/${results.length} checks passed`);
+  process.exit(failed.length === 0 ? 0 : 1);
+}
+
+// Run the test if this file is executed directly
+if (require.main === module) {
+  testApiKeys().catch((error) => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
+
+export { testApiKeys };
@@ -0,0 +1,152 @@
+#!/usr/bin/env tsx
+// Test script for request authentication
+// Checks token verification, sessions with rotating refresh tokens, getCurrentUser and which
+// routes the middleware lets through, refreshes, redirects to /login or answers with 401.
+// Creates a throwaway user in the database and deletes it afterwards.
+
+import jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
+import { NextRequest } from 'next/server';
+import { prisma } from '../src/lib/database/prisma-client';
+import { getCurrentUser } from '../src/lib/auth/current-user';
+import { AUTH_COOKIE, REFRESH_COOKIE, getJwtSecret, verifyAuthToken } from '../src/lib/auth/tokens';
+import { SessionError, sessionService } from '../src/lib/services/session-service';
+import { middleware } from '../src/middleware';
+
+const BASE_URL = 'http://localhost:3000';
+const CLIENT = { userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) Chrome/126.0', ipAddress: '127.0.0.1' };
+
+const sign = (payload: object, secret: string = getJwtSecret(), options: jwt.SignOptions = { expiresIn: '1h' }) =>
+  jwt.sign(payload, secret, options);
+
+const requestWith = (path: string, cookies: Record<string, string> = {}) =>
+  new NextRequest(`${BASE_URL}${path}`, {
+    headers: {
+      cookie: Object.entries(cookies).map(([name, value]) => `${name}=${value}`).join('; '),
+      'user-agent': CLIENT.userAgent
+    }
+  });
+
+const refreshError = async (refreshToken: string) => {
+  try {
+    await sessionService.refresh(refreshToken, CLIENT);
+    return null;
+  } catch (error) {
+    return error instanceof SessionError ? error.code : 'UNEXPECTED';
+  }
+};
+
+async function testAuth() {
+  console.log('🧪 Testing request authentication...\n');
+
+  const results: Array<{ name: string; passed: boolean }> = [];
+  const check = (name: string, passed: boolean) => {
+    results.push({ name, passed });
+    console.log(`${passed ? '✅' : '❌'} ${name}`);
+  };
+
+  const id = randomUUID().slice(0, 8);
+  const record = await prisma.user.create({
+    data: { email: `auth-test-${id}@example.com`, username: `auth-test-${id}` }
+  });
+  const user = { id: record.id, email: record.email, username: record.username! };
+
+  try {
+    const session = await sessionService.createSession(user, CLIENT);
+    const payload = { userId: user.id, email: user.email, username: user.username, sid: session.sessionId };
+
+    // Token verification
+    check('an issued access token verifies', verifyAuthToken(session.accessToken)?.sid === session.sessionId);
+    check('a token signed with another secret is rejected', verifyAuthToken(sign(payload, 'not-the-secret')) === null);
+    check('an expired token is rejected',
+      verifyAuthToken(sign({ ...payload, exp: Math.floor(Date.now() / 1000) - 60 }, getJwtSecret(), {})) === null);
+    check('a token without a session is rejected', verifyAuthToken(sign({ ...payload, sid: undefined })) === null);
+    check('an unsigned token is rejected',
+      verifyAuthToken(jwt.sign(payload, '', { algorithm: 'none' } as jwt.SignOptions)) === null);
+
+    // Current user
+    const current = await getCurrentUser(requestWith('/api/portfolio', { [AUTH_COOKIE]: session.accessToken }));
+    check('getCurrentUser reads the user and session from the auth-token cookie',
+      current?.id === user.id && current.username === user.username && current.sessionId === session.sessionId);
+    check('getCurrentUser is null without a cookie', await getCurrentUser(requestWith('/api/portfolio')) === null);
+
+    // Refresh rotation
+    const rotated = await sessionService.refresh(session.refreshToken!, CLIENT);
+    check('refreshing rotates the refresh token',
+      !!rotated.refreshToken && rotated.refreshToken !== session.refreshToken && rotated.sessionId === session.sessionId);
+
+    const concurrent = await sessionService.refresh(session.refreshToken!, CLIENT);
+    check('the previous token still works right after rotation, without rotating again',
+      concurrent.refreshToken === null && !!verifyAuthToken(concurrent.accessToken));
+
+    const sessions = await sessionService.listSessions(user.id, session.sessionId);
+    check('sessions are listed with their device', sessions.length === 1 && sessions[0].current &&
+      sessions[0].device === 'Chrome on macOS');
+
+    // Middleware
+    const signedOutApi = await middleware(requestWith('/api/orders/123'));
+    check('protected API routes answer 401 when signed out', signedOutApi.status === 401);
+
+    const signedOutPage = await middleware(requestWith('/dashboard?tab=orders'));
+    check('protected pages redirect to login with the page to return to',
+      signedOutPage.status === 307 &&
+      signedOutPage.headers.get('location') === `${BASE_URL}/login?next=%2Fdashboard%3Ftab%3Dorders`);
+
+    const signedIn = await middleware(requestWith('/api/chat/agent-1', { [AUTH_COOKIE]: rotated.accessToken }));
+    check('protected routes pass with a valid token', signedIn.status === 200 && !signedIn.headers.has('location'));
+
+    const refreshed = await middleware(requestWith('/api/portfolio', { [REFRESH_COOKIE]: rotated.refreshToken! }));
+    const setCookies = refreshed.headers.getSetCookie().join('\n');
+    check('an expired access token is refreshed from the refresh-token cookie',
+      refreshed.status === 200 && setCookies.includes(`${AUTH_COOKIE}=`) && setCookies.includes(`${REFRESH_COOKIE}=`));
+
+    check('public routes pass when signed out',
+      (await Promise.all(['/api/agents', '/api/candles', '/agents', '/news', '/api/auth/login']
+        .map((path) => middleware(requestWith(path))))).every((response) => response.status === 200));
+    const elsewhere = await sessionService.createSession(user, CLIENT);
+    const publicApi = await middleware(requestWith('/api/agents/agent-1/trades', { [REFRESH_COOKIE]: elsewhere.refreshToken! }));
+    check('public API routes refresh an expired session for the routes that read the user',
+      publicApi.status === 200 && publicApi.headers.getSetCookie().join('\n').includes(`${AUTH_COOKIE}=`));
+    check('prefixes only match whole path segments',
+      (await middleware(requestWith('/api/trades'))).status === 401 && (await middleware(requestWith('/chatter'))).status === 200);
+
+    // A token the session never issued is rejected without ending the session
+    const forged = `${session.sessionId}.${randomUUID().replace(/-/g, '')}`;
+    check('a forged refresh token for a real session is rejected without revoking it',
+      await refreshError(forged) === 'INVALID_REFRESH_TOKEN' &&
+      !!await getCurrentUser(requestWith('/api/portfolio', { [AUTH_COOKIE]: rotated.accessToken })));
+
+    // Reuse detection: the first token is two rotations old by now
+    check('reusing a rotated refresh token revokes the session',
+      await refreshError(session.refreshToken!) === 'REFRESH_TOKEN_REUSED' &&
+      await getCurrentUser(requestWith('/api/portfolio', { [AUTH_COOKIE]: rotated.accessToken })) === null);
+
+    // Logout and password change
+    const second = await sessionService.createSession(user, CLIENT);
+    const third = await sessionService.createSession(user, CLIENT);
+    await sessionService.revokeSession(user.id, second.sessionId, 'logout');
+    check('a logged out session no longer authenticates',
+      await getCurrentUser(requestWith('/api/portfolio', { [AUTH_COOKIE]: second.accessToken })) === null &&
+      await refreshError(second.refreshToken!) === 'SESSION_REVOKED');
+
+    await sessionService.revokeAllSessions(user.id, 'password_change');
+    check('revoking all sessions signs out every device',
+      await getCurrentUser(requestWith('/api/portfolio', { [AUTH_COOKIE]: third.accessToken })) === null);
+  } finally {
+    await prisma.user.delete({ where: { id: user.id } });
+  }
+
+  const failed = results.filter((result) => !result.passed);
+  console.log(`\n${failed.length === 0 ? '🎉' : '❌'} ${results.length - failed.length}/${results.length} checks passed`);
+  process.exit(failed.length === 0 ? 0 : 1);
+}
+
+// Run the test if this file is executed directly
+if (require.main === module) {
+  testAuth().catch((error) => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
+
+export { testAuth };
@@ -0,0 +1,124 @@
+#!/usr/bin/env tsx
+// Test script for chat command planning
+// Checks which parsed chat commands become concrete pattern, watchlist and strategy changes.
+
+import { parseCommand, planCommand, validateCommand } from '../src/lib/chat/commandParser';
+import type { Agent } from '../src/types/game';
+
+const now = new Date();
+
+const agent: Agent = {
+  id: 'agent-1',
+  name: '신중한 거북이',
+  type: 'conservative',
+  personality: 'conservative',
+  strategy: ['분할 매수(DCA)로 평균 단가 관리', '손절 라인 -5% 준수'],
+  description: 'Conservative test agent',
+  isActive: true,
+  createdAt: now,
+  updatedAt: now,
+  patterns: [
+    {
+      id: 'pattern-rsi',
+      agentId: 'agent-1',
+      name: 'RSI 과매도 반등',
+      description: 'RSI 30 이하에서 분할 매수',
+      priority: 1,
+      confidenceRate: 60,
+      examples: [],
+      isActive: true,
+      createdAt: now,
+      updatedAt: now
+    }
+  ],
+  watchlistItems: [
+    {
+      id: 'item-eth',
+      agentId: 'agent-1',
+      symbol: 'ETH',
+      name: 'Ethereum',
+      category: '장기투자',
+      reason: '스마트 컨트랙트 플랫폼',
+      agentView: '장기 보유',
+      isActive: true,
+      addedAt: now,
+      lastReviewedAt: now,
+      updatedAt: now
+    }
+  ]
+};
+
+function plan(message: string) {
+  return planCommand(parseCommand(message, agent), agent);
+}
+
+async function testChatCommands() {
+  console.log('🧪 Testing chat command planning...\n');
+
+  const results: Array<{ name: string; passed: boolean }> = [];
+  const check = (name: string, passed: boolean) => {
+    results.push({ name, passed });
+    console.log(`${passed ? '✅' : '❌'} ${name}`);
+  };
+
+  const pattern = plan('MACD 패턴 추가해줘 신뢰도 70%')?.plan;
+  check('plans a pattern from indicators', pattern?.kind === 'pattern.create'
+    && pattern.pattern.name === 'MACD 패턴'
+    && pattern.pattern.confidenceRate === 70
+    && pattern.pattern.priority === 2);
+
+  const named = plan('"골든크로스 돌파" 패턴 추가해줘')?.plan;
+  check('uses a quoted pattern name', named?.kind === 'pattern.create' && named.pattern.name === '골든크로스 돌파');
+
+  check('asks for details when the pattern is vague', plan('패턴 추가해줘') === null);
+
+  const removal = plan('RSI 패턴 삭제해줘')?.plan;
+  check('targets an existing pattern for removal', removal?.kind === 'pattern.remove' && removal.patternId === 'pattern-rsi');
+
+  const update = plan('RSI 패턴 신뢰도 80%, 우선순위 3으로 수정해줘')?.plan;
+  check('updates confidence and priority of a pattern', update?.kind === 'pattern.update'
+    && update.changes.priorConfidence === 80
+    && update.changes.priority === 3);
+
+  const watch = plan('BTC 관심종목에 추가하고 $70,000 넘어서면 알림 줘')?.plan;
+  check('plans a watchlist item with an alert', watch?.kind === 'watchlist.add'
+    && watch.items.length === 1
+    && watch.items[0].symbol === 'BTC'
+    && !watch.items[0].itemId
+    && watch.items[0].alertPrice === 70000
+    && watch.items[0].alertType === 'above');
+
+  check('skips symbols already watched without a new alert', plan('ETH 관심종목에 추가해줘') === null);
+
+  const alert = plan('ETH 알림 가격 3500으로 변경해줘')?.plan;
+  check('updates the alert of a watched symbol', alert?.kind === 'watchlist.update'
+    && alert.items[0].itemId === 'item-eth'
+    && alert.items[0].alertPrice === 3500);
+
+  const unwatch = plan('ETH 관심종목에서 삭제해줘')?.plan;
+  check('removes a watched symbol', unwatch?.kind === 'watchlist.remove' && unwatch.items[0].itemId === 'item-eth');
+
+  const strategy = plan('모멘텀 추세 전략 추가해줘');
+  check('adds a named strategy', strategy?.plan.kind === 'strategy.add'
+    && strategy.plan.strategies[0] === '모멘텀/추세 추종 매매'
+    && strategy.summary.includes('모멘텀'));
+
+  check('does not add a strategy twice', plan('DCA 분할 매수 전략 추가해줘') === null);
+
+  const strategyCommand = parseCommand('DCA 전략 추가해줘', { ...agent, strategy: [] });
+  check('validates strategy limits on the parsed strategy list', validateCommand(strategyCommand, agent).valid);
+
+  const failed = results.filter((result) => !result.passed);
+  console.log(`\n${failed.length === 0 ? '🎉' : '❌'} ${results.length - failed.length}/${results.length} checks passed`);
+  process.exit(failed.length === 0 ? 0 : 1);
+}
+
+// Run the test if this file is executed directly
+if (require.main === module) {
+  testChatCommands().catch((error) => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
+
+export { testChatCommands };
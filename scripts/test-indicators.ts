@@ -0,0 +1,158 @@
+#!/usr/bin/env tsx
+// Test script for the indicator engine
+// Compares every indicator with the reference values in data/indicator-fixtures, checks
+// that streaming, preview and batch results agree, and that the legacy helpers in
+// utils/technical-indicators now give the same numbers as the engine.
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  ADX,
+  ATR,
+  BollingerBands,
+  DonchianChannels,
+  EMA,
+  Ichimoku,
+  KeltnerChannels,
+  MACD,
+  OBV,
+  RSI,
+  SMA,
+  Stochastic,
+  VWAP,
+  type StreamingIndicator
+} from '../src/lib/indicators/streaming-indicators';
+import {
+  IndicatorEngine,
+  averageMomentum,
+  candlesFromPrices,
+  computeIndicators,
+  indicatorSeries,
+  trailingMean
+} from '../src/lib/indicators/indicator-engine';
+import { calculateMACD, calculateRSI, calculateStochastic, calculateTechnicalIndicators } from '../src/lib/utils/technical-indicators';
+import type { IndicatorCandle } from '../src/types/indicators';
+
+type Reference = number | Record<string, number | null> | null;
+
+interface IndicatorFixture {
+  candles: Required<IndicatorCandle>[];
+  expected: Record<string, Reference[]>;
+}
+
+const FIXTURE_PATH = join(__dirname, '..', 'data', 'indicator-fixtures', 'btcusdt-1h.json');
+
+async function testIndicators() {
+  console.log('🧪 Testing indicator engine...\n');
+
+  const results: Array<{ name: string; passed: boolean }> = [];
+  const check = (name: string, passed: boolean) => {
+    results.push({ name, passed });
+    console.log(`${passed ? '✅' : '❌'} ${name}`);
+  };
+  const near = (a: number | null | undefined, b: number, tolerance = 1e-6) =>
+    a != null && Math.abs(a - b) <= tolerance * Math.max(1, Math.abs(b));
+
+  const fixture: IndicatorFixture = JSON.parse(readFileSync(FIXTURE_PATH, 'utf-8'));
+  const { candles, expected } = fixture;
+  const closes = candles.map((candle) => candle.close);
+
+  // Every reference value must be matched; fields missing from the reference are not compared
+  const matches = (actual: unknown[], reference: Reference[]) =>
+    reference.every((value, i) => {
+      if (value === null) return true;
+      if (typeof value === 'number') return near(actual[i] as number | null, value);
+      const row = actual[i] as Record<string, number | null> | null;
+      return row !== null && Object.entries(value).every(([key, field]) => field === null || near(row[key], field));
+    });
+  const compare = <I>(name: string, indicator: StreamingIndicator<I, unknown>, inputs: I[], reference: Reference[]) =>
+    check(`${name} matches the reference values`, matches(indicatorSeries(indicator, inputs), reference));
+
+  compare('SMA(20)', new SMA(20), closes, expected.sma20);
+  compare('EMA(12)', new EMA(12), closes, expected.ema12);
+  const roundedRsi = indicatorSeries(new RSI(14), closes).map((value) => (value === null ? null : Math.round(value * 100) / 100));
+  check('RSI(14) matches the reference values', matches(roundedRsi, expected.rsi14)); // Reference rounded to 2 decimals
+  compare('MACD(12, 26, 9)', new MACD(), closes, expected.macd);
+  compare('Bollinger(20, 2)', new BollingerBands(20, 2), closes, expected.bollinger20);
+  compare('Stochastic(14, 3)', new Stochastic(14, 3), candles, expected.stochastic14);
+  compare('ATR(14)', new ATR(14), candles, expected.atr14);
+  compare('ADX(14)', new ADX(14), candles, expected.adx14);
+  compare('OBV', new OBV(), candles, expected.obv);
+  compare('VWAP', new VWAP(), candles, expected.vwap);
+  compare('Ichimoku(9, 26, 52)', new Ichimoku(), candles, expected.ichimoku);
+  compare('Keltner(20, 10, 2)', new KeltnerChannels(20, 10, 2), candles, expected.keltner);
+
+  const warmUp = (values: unknown[]) => values.findIndex((value) => value !== null);
+  check('warm-up periods follow the TA-Lib conventions',
+    warmUp(indicatorSeries(new SMA(20), closes)) === 19 && warmUp(indicatorSeries(new RSI(14), closes)) === 14 &&
+    warmUp(indicatorSeries(new ATR(14), candles)) === 14 && warmUp(indicatorSeries(new MACD(), closes)) === 25);
+
+  const donchian = indicatorSeries(new DonchianChannels(20), candles);
+  const window = candles.slice(80, 100);
+  check('Donchian channels span the highest high and lowest low',
+    near(donchian[99]?.upper, Math.max(...window.map((c) => c.high))) &&
+    near(donchian[99]?.lower, Math.min(...window.map((c) => c.low))) && donchian[18] === null);
+
+  const ichimoku = indicatorSeries(new Ichimoku(), candles);
+  check('the Ichimoku cloud over a candle was projected 26 candles before',
+    ichimoku[76]?.cloudA === null && near(ichimoku[77]?.cloudA, ichimoku[51]!.spanA) && near(ichimoku[119]?.cloudB, ichimoku[93]!.spanB));
+
+  const start = candles[0].time;
+  const session = new VWAP(24 * 60 * 60 * 1000);
+  const daily = indicatorSeries(session, candles);
+  const firstOfDay = candles.findIndex((candle) => Math.floor(candle.time / 86400000) !== Math.floor(start / 86400000));
+  const typical = (c: IndicatorCandle) => (c.high + c.low + c.close) / 3;
+  check('session VWAP restarts at each session boundary', near(daily[firstOfDay], typical(candles[firstOfDay])));
+
+  // Streaming: the engine fed one candle at a time ends where the batch helper does
+  const engine = new IndicatorEngine();
+  candles.forEach((candle) => engine.update(candle));
+  const batch = computeIndicators(candles);
+  check('streaming and batch snapshots agree', JSON.stringify(engine.value) === JSON.stringify(batch));
+
+  const forming = { ...candles[119], time: candles[119].time + 3600000, close: candles[119].close * 1.01, high: candles[119].close * 1.012 };
+  const before = JSON.stringify(engine.value);
+  const preview = engine.preview(forming);
+  check('preview leaves the engine unchanged', JSON.stringify(engine.value) === before);
+  check('preview equals updating with the same candle', JSON.stringify(preview) === JSON.stringify(engine.update(forming)));
+
+  check('snapshots carry every indicator', batch !== null && batch.sma[50] !== null && batch.adx?.adx !== null &&
+    batch.keltner !== null && batch.ichimoku?.cloudA !== null && batch.vwap !== null);
+
+  // Legacy helpers are thin wrappers now; their old approximations are gone
+  const macd = calculateMACD(closes);
+  check('legacy MACD has a real signal line', near(macd.signal, batch!.macd!.signal!) && !near(macd.signal, macd.macd! * 0.9));
+  check('legacy RSI uses Wilder smoothing', near(calculateRSI(closes), batch!.rsi!));
+  const stochastic = calculateStochastic(candles.map((c) => c.high), candles.map((c) => c.low), closes);
+  check('legacy stochastic %D is the SMA of %K', near(stochastic.stochD, batch!.stochastic!.d!));
+
+  const data = calculateTechnicalIndicators(candles.map((c) => ({ timestamp: new Date(c.time), price: c.close, high: c.high, low: c.low, volume: c.volume })));
+  check('technical indicator data includes the new indicators',
+    near(data?.atr, batch!.atr!) && near(data?.adx, batch!.adx!.adx!) && near(data?.donchianUpper, batch!.donchian!.upper) && data?.obv === batch!.obv);
+
+  check('price-only series work as flat candles', computeIndicators(candlesFromPrices(closes))?.rsi === batch!.rsi);
+  check('agent helpers average what history there is', trailingMean([1, 2, 3], 5) === 2 && trailingMean([], 5) === 0 &&
+    near(averageMomentum([100, 100, 100, 110, 110, 110]), 10) && averageMomentum([1, 2, 3]) === 0);
+
+  let rejected = false;
+  try {
+    new SMA(0);
+  } catch {
+    rejected = true;
+  }
+  check('invalid periods are rejected', rejected);
+
+  const failed = results.filter((result) => !result.passed);
+  console.log(`\n${failed.length === 0 ? '🎉' : '❌'} ${results.length - failed.length}/${results.length} checks passed`);
+  process.exit(failed.length === 0 ? 0 : 1);
+}
+
+// Run the test if this file is executed directly
+if (require.main === module) {
+  testIndicators().catch((error) => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
+
+export { testIndicators };
@@ -0,0 +1,133 @@
+#!/usr/bin/env tsx
+// Test script for the LLM provider layer
+// Exercises the deterministic stub, streaming, timeouts, cancellation, token accounting
+// and the OpenAI-compatible provider against a local HTTP stand-in.
+
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { StubLLMProvider } from '../src/lib/llm/stub-provider';
+import { OpenAICompatibleProvider } from '../src/lib/llm/openai-compatible-provider';
+import { LLMError } from '../src/lib/llm/llm-utils';
+import { LLMService } from '../src/lib/services/llm-service';
+import type { LLMRequest } from '../src/types/llm';
+
+const request: LLMRequest = {
+  messages: [
+    { role: 'system', content: 'You are a conservative Bitcoin analyst.' },
+    { role: 'user', content: '지금 비트코인을 사야 할까요?' }
+  ]
+};
+
+async function errorCode(run: () => Promise<unknown>): Promise<string | null> {
+  try {
+    await run();
+    return null;
+  } catch (error) {
+    return error instanceof LLMError ? error.code : 'UNKNOWN';
+  }
+}
+
+async function testLLMProviders() {
+  console.log('🧪 Testing LLM providers...\n');
+
+  const results: Array<{ name: string; passed: boolean }> = [];
+  const check = (name: string, passed: boolean) => {
+    results.push({ name, passed });
+    console.log(`${passed ? '✅' : '❌'} ${name}`);
+  };
+
+  // Stub provider
+  const stub = new StubLLMProvider();
+  const first = await stub.complete(request);
+  const second = await stub.complete(request);
+  check('stub replies deterministically', first.content === second.content && first.content.length > 0);
+
+  let streamed = '';
+  let tokenChunks = 0;
+  for await (const chunk of stub.stream(request)) {
+    if (chunk.type === 'token') {
+      streamed += chunk.text;
+      tokenChunks++;
+    }
+  }
+  check('stub streams the same reply in chunks', streamed === first.content && tokenChunks > 1);
+
+  const json = await stub.complete({ ...request, responseFormat: { type: 'json', keys: ['market_analysis', 'next_steps'] } });
+  const parsed = JSON.parse(json.content);
+  check('stub honours JSON response format', typeof parsed.market_analysis === 'string' && typeof parsed.next_steps === 'string');
+
+  check('stub estimates token usage', first.usage.estimated && first.usage.totalTokens === first.usage.promptTokens + first.usage.completionTokens);
+
+  const truncated = await stub.complete({ ...request, maxTokens: 2 });
+  check('stub stops at maxTokens', truncated.finishReason === 'length');
+
+  const slow = new StubLLMProvider({ tokenDelayMs: 50 });
+  check('times out slow streams', (await errorCode(() => slow.complete({ ...request, timeoutMs: 60 }))) === 'TIMEOUT');
+
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 30);
+  check('cancels on caller signal', (await errorCode(() => slow.complete({ ...request, signal: controller.signal }))) === 'CANCELLED');
+
+  // Service accounting
+  const service = new LLMService();
+  service.setProvider(stub);
+  await service.complete('chat', request);
+  await service.complete('chat', request);
+  service.setProvider(slow);
+  await errorCode(() => service.complete('report', { ...request, timeoutMs: 20 }));
+  const usage = Object.fromEntries(service.getUsage().map((u) => [u.feature, u]));
+  check('accounts tokens per feature', usage.chat?.requests === 2 && usage.chat.totalTokens === first.usage.totalTokens * 2);
+  check('counts failed requests', usage.report?.failures === 1);
+
+  service.setProvider(null);
+  check('reports when no provider is configured', (await errorCode(() => service.complete('chat', request))) === 'NOT_CONFIGURED');
+
+  // OpenAI-compatible provider against a local SSE stand-in
+  let receivedBody: { stream?: boolean; model?: string } = {};
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      receivedBody = JSON.parse(body);
+      if (req.headers.authorization !== 'Bearer test-key') {
+        res.writeHead(401).end('unauthorized');
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      for (const text of ['비트코인은 ', '관망을 ', '권합니다.']) {
+        res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: text }, finish_reason: null }] })}\n\n`);
+      }
+      res.write(`data: ${JSON.stringify({ choices: [{ delta: {}, finish_reason: 'stop' }] })}\n\n`);
+      res.write(`data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 21, completion_tokens: 9, total_tokens: 30 } })}\n\n`);
+      res.end('data: [DONE]\n\n');
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+
+  try {
+    const openai = new OpenAICompatibleProvider({ model: 'test-model', baseUrl, apiKey: 'test-key' });
+    const reply = await openai.complete(request);
+    check('parses streamed chat completion', reply.content === '비트코인은 관망을 권합니다.' && receivedBody.stream === true && receivedBody.model === 'test-model');
+    check('uses provider-reported usage', !reply.usage.estimated && reply.usage.totalTokens === 30);
+
+    const unauthorized = new OpenAICompatibleProvider({ model: 'test-model', baseUrl, apiKey: 'wrong-key' });
+    check('maps HTTP errors to PROVIDER_ERROR', (await errorCode(() => unauthorized.complete(request))) === 'PROVIDER_ERROR');
+  } finally {
+    server.close();
+  }
+
+  const failed = results.filter((result) => !result.passed);
+  console.log(`\n${failed.length === 0 ? '🎉' : '❌'} ${results.length - failed.length}/${results.length} checks passed`);
+  process.exit(failed.length === 0 ? 0 : 1);
+}
+
+// Run the test if this file is executed directly
+if (require.main === module) {
+  testLLMProviders().catch((error) => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
+
+export { testLLMProviders };
@@ -0,0 +1,156 @@
+#!/usr/bin/env tsx
+// Test script for the market data layer
+// Exercises the fixture/replay provider, batching, TTL caching and stale fallbacks in the
+// service, and the CoinGecko and Binance providers against a local HTTP stand-in.
+
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { FixtureMarketDataProvider } from '../src/lib/market-data/fixture-provider';
+import { CoinGeckoMarketDataProvider } from '../src/lib/market-data/coingecko-provider';
+import { BinanceMarketDataProvider } from '../src/lib/market-data/binance-provider';
+import { MarketDataError } from '../src/lib/market-data/market-data-utils';
+import { MarketDataService } from '../src/lib/services/market-data-service';
+import type { MarketDataProvider, MarketQuote } from '../src/types/market-data';
+
+// Provider that counts upstream requests and can be switched to failing
+class CountingProvider implements MarketDataProvider {
+  requests: string[][] = [];
+  failing = false;
+
+  constructor(readonly name: string, private inner: MarketDataProvider) {}
+
+  async getQuotes(symbols: string[]): Promise<MarketQuote[]> {
+    this.requests.push(symbols);
+    if (this.failing) throw new MarketDataError('upstream down', 'PROVIDER_ERROR', 503);
+    return this.inner.getQuotes(symbols);
+  }
+}
+
+async function testMarketData() {
+  console.log('🧪 Testing market data providers...\n');
+
+  const results: Array<{ name: string; passed: boolean }> = [];
+  const check = (name: string, passed: boolean) => {
+    results.push({ name, passed });
+    console.log(`${passed ? '✅' : '❌'} ${name}`);
+  };
+
+  // Fixture provider
+  const fixture = new FixtureMarketDataProvider();
+  const [btc] = await fixture.getQuotes(['btc']);
+  check('fixture prices known symbols', btc?.symbol === 'BTC' && btc.price === 111944 && btc.changePercent24h === 2.11);
+  check('fixture skips unknown symbols', (await fixture.getQuotes(['NOPE'])).length === 0);
+
+  let now = 0;
+  const replay = new FixtureMarketDataProvider({
+    clock: () => now,
+    fixture: { intervalMs: 60 * 60 * 1000, quotes: { ETH: Array.from({ length: 30 }, (_, i) => ({ price: 3000 + i * 10 })) } }
+  });
+  const first = (await replay.getQuotes(['ETH']))[0];
+  now = 25 * 60 * 60 * 1000;
+  const later = (await replay.getQuotes(['ETH']))[0];
+  check('replays the series one step per interval', first.price === 3000 && later.price === 3250);
+  check('derives 24h change from the series', Math.abs(later.changePercent24h - (240 / 3010) * 100) < 1e-9);
+  now = 100 * 60 * 60 * 1000;
+  check('holds the last point after the series ends', (await replay.getQuotes(['ETH']))[0].price === 3290);
+
+  // Service: batching and caching
+  const primary = new CountingProvider('primary', new FixtureMarketDataProvider());
+  const service = new MarketDataService();
+  service.setProviders(primary);
+
+  const quotes = await Promise.all(['BTC', 'ETH', 'sol', 'BTC'].map((symbol) => service.getQuote(symbol)));
+  check('batches concurrent lookups into one request', primary.requests.length === 1 && primary.requests[0].length === 3);
+  check('returns a quote to every caller', quotes.every((quote) => quote !== null) && quotes[0] === quotes[3]);
+
+  await service.getQuotes(['BTC', 'ETH']);
+  check('serves repeated lookups from cache', primary.requests.length === 1);
+
+  check('returns null for symbols no provider knows', (await service.getQuote('NOPE')) === null);
+  await service.getQuote('NOPE');
+  check('caches unknown symbols too', primary.requests.length === 2);
+
+  const items = await service.withQuotes([{ symbol: 'ETH', name: 'Ethereum' }, { symbol: 'NOPE', name: 'Unknown' }]);
+  check('attaches prices to items', items[0].currentPrice === 3247 && items[0].priceChange24h === -1.24 && items[1].currentPrice === undefined);
+
+  // Service: failures fall back to the next provider, then to stale quotes
+  process.env.MARKET_DATA_TTL_MS = '1';
+  const fallback = new CountingProvider('fallback', new FixtureMarketDataProvider({
+    fixture: { quotes: { ETH: [{ price: 3300 }], DOGE: [{ price: 0.2 }] } }
+  }));
+  const failing = new CountingProvider('failing', new FixtureMarketDataProvider());
+  const resilient = new MarketDataService();
+  resilient.setProviders(failing, fallback);
+
+  const warm = await resilient.getQuote('BTC');
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  failing.failing = true;
+  const [stale, eth] = await Promise.all([resilient.getQuote('BTC'), resilient.getQuote('ETH')]);
+  check('asks the fallback provider when the primary fails', eth?.price === 3300 && eth.source === 'fixture');
+  check('serves a stale quote when no provider can price it', stale !== null && stale === warm);
+
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  const before = failing.requests.length;
+  await resilient.getQuote('DOGE');
+  check('backs off a failing provider', failing.requests.length === before);
+  delete process.env.MARKET_DATA_TTL_MS;
+
+  // CoinGecko and Binance against a local stand-in
+  let lastUrl = '';
+  const server = createServer((req, res) => {
+    lastUrl = decodeURIComponent(req.url || '');
+    if (lastUrl.startsWith('/api/v3/simple/price')) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        bitcoin: { usd: 100000, usd_24h_change: 5, usd_24h_vol: 1e9, usd_market_cap: 2e12, last_updated_at: 1700000000 },
+        ethereum: { usd: 3000, usd_24h_change: -2 }
+      }));
+    } else if (lastUrl.startsWith('/api/v3/ticker/24hr')) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify([
+        { symbol: 'BTCUSDT', lastPrice: '100000.5', priceChange: '500', priceChangePercent: '0.5', highPrice: '101000', lowPrice: '98000', quoteVolume: '123456', closeTime: 1700000000000 },
+        { symbol: 'SOLUSDT', lastPrice: '150', priceChange: '-3', priceChangePercent: '-1.96', highPrice: '155', lowPrice: '148', quoteVolume: '999', closeTime: 1700000000000 }
+      ]));
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v3`;
+
+  try {
+    const coingecko = new CoinGeckoMarketDataProvider({ baseUrl });
+    const cg = await coingecko.getQuotes(['BTC', 'ETH', 'NOPE']);
+    check('CoinGecko prices the batch in one request', lastUrl.includes('ids=bitcoin,ethereum') && cg.length === 2);
+    check('CoinGecko derives absolute change', Math.abs(cg[0].change24h - (100000 - 100000 / 1.05)) < 1e-6 && cg[0].timestamp.getTime() === 1700000000000);
+
+    const binance = new BinanceMarketDataProvider({ baseUrl });
+    const bn = await binance.getQuotes(['BTC', 'SOL']);
+    check('Binance parses 24h tickers', bn.length === 2 && bn[0].price === 100000.5 && bn[1].changePercent24h === -1.96 && bn[1].high24h === 155);
+
+    const broken = new BinanceMarketDataProvider({ baseUrl: `${baseUrl}/missing` });
+    let code = '';
+    try {
+      await broken.getQuotes(['BTC']);
+    } catch (error) {
+      code = error instanceof MarketDataError ? `${error.code}:${error.status}` : 'UNKNOWN';
+    }
+    check('maps HTTP errors to PROVIDER_ERROR', code === 'PROVIDER_ERROR:404');
+  } finally {
+    server.close();
+  }
+
+  const failed = results.filter((result) => !result.passed);
+  console.log(`\n${failed.length === 0 ? '🎉' : '❌'} ${results.length - failed.length}/${results.length} checks passed`);
+  process.exit(failed.length === 0 ? 0 : 1);
+}
+
+// Run the test if this file is executed directly
+if (require.main === module) {
+  testMarketData().catch((error) => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
+
+export { testMarketData };
@@ -0,0 +1,101 @@
+#!/usr/bin/env tsx
+// Test script for news features
+// Checks sentiment momentum, event counts by category and the regulatory-risk flag,
+// and how agent personalities weigh them in DynamicAgentService.analyzeMarket.
+
+import { computeNewsFeatures } from '../src/lib/news/news-features';
+import type { ReportArticle } from '../src/lib/news/news-report-builder';
+import { DynamicAgentService } from '../src/lib/services/dynamic-agent-service';
+import type { NewsFeatures } from '../src/types/news';
+
+async function testNewsFeatures() {
+  console.log('🧪 Testing news features...\n');
+
+  const results: Array<{ name: string; passed: boolean }> = [];
+  const check = (name: string, passed: boolean) => {
+    results.push({ name, passed });
+    console.log(`${passed ? '✅' : '❌'} ${name}`);
+  };
+
+  const now = new Date('2025-09-10T12:00:00Z');
+  const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+  let nextId = 0;
+  const article = (title: string, hours: number, sentimentScore: number, importanceScore = 6,
+    category = 'market', relatedSymbols = ['BTC']): ReportArticle =>
+    ({ id: `a${nextId++}`, title, publishedAt: hoursAgo(hours), sentimentScore, importanceScore, category, relatedSymbols, source: 'Reuters' });
+
+  // Features
+  const improving = computeNewsFeatures([
+    article('Bitcoin slumps as miners sell', 40, -0.6),
+    article('Bitcoin rallies past $112,000', 3, 0.7),
+    article('ETF inflows surge to a record', 5, 0.6, 8, 'market', ['BTC'])
+  ], now);
+  check('momentum compares the recent half of the window with the half before',
+    improving.sentiment > 0.5 && improving.sentimentMomentum > 1 && improving.newsCount === 3 && improving.windowHours === 48);
+  check('no momentum without news in both halves',
+    computeNewsFeatures([article('Bitcoin rallies', 2, 0.7)], now).sentimentMomentum === 0);
+
+  const mixed = computeNewsFeatures([
+    article('SEC sues exchange over unregistered securities', 2, -0.7, 9, 'regulatory', ['BTC']),
+    article('Exchange sued by SEC over unregistered securities', 3, -0.6, 8, 'regulatory', ['BTC']),
+    article('Ethereum developers schedule network upgrade', 6, 0.3, 4, 'technical', ['ETH']),
+    article('JPMorgan expands crypto trading desk', 10, 0.4, 6, 'corporate', ['BTC']),
+    article('Old story outside the window', 60, 0.9, 9, 'market')
+  ], now);
+  check('events are counted per category, one per story',
+    mixed.eventCounts.regulatory === 1 && mixed.eventCounts.technical === 1 && mixed.eventCounts.corporate === 1 &&
+    mixed.eventCounts.market === 0 && mixed.newsCount === 4);
+  check('high-impact events are counted once', mixed.highImpactEvents === 1);
+  check('recent negative regulatory news raises the regulatory-risk flag', mixed.regulatoryRisk && mixed.regulatoryRiskScore > 0.5);
+
+  const stale = computeNewsFeatures([article('SEC sues exchange', 46, -0.7, 9, 'regulatory')], now);
+  const positive = computeNewsFeatures([article('SEC approves spot ETF', 1, 0.8, 9, 'regulatory')], now);
+  check('old or positive regulatory news is no risk', !stale.regulatoryRisk && positive.regulatoryRiskScore === 0);
+
+  // Personalities
+  const service = new DynamicAgentService();
+  const flat = Array.from({ length: 24 }, (_, i) => 100000 + (i % 2) * 50);
+  const portfolio = { balance: 5000, profitPercentage: 0 };
+  const features = (overrides: Partial<NewsFeatures>): NewsFeatures => ({
+    sentiment: 0, sentimentMomentum: 0, regulatoryRiskScore: 0, regulatoryRisk: false, highImpactEvents: 0, newsCount: 10, windowHours: 48,
+    eventCounts: { technical: 0, regulatory: 0, market: 0, corporate: 0 }, ...overrides
+  });
+  const analyze = (personality: string, news: NewsFeatures | null, prices = flat) =>
+    service.analyzeMarket({ personality, strategy: '[]' }, { prices, portfolio, news });
+
+  const bullishNews = features({ sentiment: 0.7, sentimentMomentum: 0.5 });
+  check('without news the decision is price-only', analyze('aggressive', null).newsScore === undefined &&
+    analyze('aggressive', null).recommendation === 'hold');
+  check('bullish momentum turns an aggressive hold into a buy', analyze('aggressive', bullishNews).recommendation === 'buy');
+  check('contrarians lean against the same bullish news', analyze('contrarian', bullishNews).recommendation === 'sell');
+  check('conservative agents barely react to sentiment', analyze('conservative', bullishNews).recommendation === 'hold');
+
+  const regulatory = features({ sentiment: 0.1, regulatoryRiskScore: 0.8, regulatoryRisk: true });
+  const dip = [...flat.slice(0, 23), 91000];
+  check('conservative agents do not buy a dip into regulatory risk',
+    analyze('conservative', null, dip).recommendation === 'buy' && analyze('conservative', regulatory, dip).recommendation === 'hold');
+  check('personalities weigh the same features differently',
+    new Set(['conservative', 'aggressive', 'balanced', 'quantitative', 'contrarian']
+      .map((personality) => analyze(personality, regulatory).newsScore)).size === 5);
+
+  const rally = Array.from({ length: 24 }, (_, i) => 100000 * (1 + i * 0.002));
+  const agrees = analyze('aggressive', features({ sentiment: 0.5, sentimentMomentum: 0.2 }), rally);
+  const disagrees = analyze('aggressive', features({ sentiment: -0.5, sentimentMomentum: -0.2 }), rally);
+  check('news that agrees with the price call raises confidence, news against it lowers it',
+    agrees.recommendation === 'buy' && disagrees.recommendation === 'buy' && agrees.confidence > 85 && disagrees.confidence < 85);
+  check('the analysis text reports the news weighting', agrees.analysis.includes('뉴스 반영'));
+
+  const failed = results.filter((result) => !result.passed);
+  console.log(`\n${failed.length === 0 ? '🎉' : '❌'} ${results.length - failed.length}/${results.length} checks passed`);
+  process.exit(failed.length === 0 ? 0 : 1);
+}
+
+// Run the test if this file is executed directly
+if (require.main === module) {
+  testNewsFeatures().catch((error) => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
+
+export { testNewsFeatures };
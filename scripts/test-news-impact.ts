@@ -0,0 +1,92 @@
+#!/usr/bin/env tsx
+// Test script for the news impact event study
+// Builds a synthetic hourly BTC series with known jumps after articles and checks
+// price lookup, the baseline, abnormal returns and grouping by category, source and
+// sentiment bucket.
+
+import { baselineReturn, priceAt, runEventStudy, sentimentBucket, windowReturn } from '../src/lib/news/news-impact';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+async function testNewsImpact() {
+  console.log('🧪 Testing news impact...\n');
+
+  const results: Array<{ name: string; passed: boolean }> = [];
+  const check = (name: string, passed: boolean) => {
+    results.push({ name, passed });
+    console.log(`${passed ? '✅' : '❌'} ${name}`);
+  };
+  const near = (a: number | null | undefined, b: number, tolerance = 0.01) => a != null && Math.abs(a - b) <= tolerance;
+
+  // 10 days of hourly prices drifting up 0.01% per hour, with a +2% step 1h after a
+  // regulatory approval and a -3% step 1h after a hack
+  const start = new Date('2025-09-01T00:00:00Z').getTime();
+  const approvalAt = start + 48 * HOUR_MS;
+  const hackAt = start + 120 * HOUR_MS;
+  const prices = Array.from({ length: 240 }, (_, i) => {
+    const time = start + i * HOUR_MS;
+    let price = 100000 * Math.pow(1.0001, i);
+    if (time > approvalAt) price *= 1.02;
+    if (time > hackAt) price *= 0.97;
+    return { timestamp: new Date(time), price };
+  });
+  const tolerance = 30 * 60 * 1000;
+
+  check('sentiment buckets use the ±0.2 bands', sentimentBucket(0.5) === 'positive' &&
+    sentimentBucket(0.2) === 'neutral' && sentimentBucket(-0.3) === 'negative');
+  check('prices are looked up at or before a time within the tolerance',
+    priceAt(prices, start + 100 * 60 * 1000, tolerance) === null &&
+    near(priceAt(prices, start + 20 * 60 * 1000, tolerance), 100000) &&
+    priceAt(prices, start - 60 * 1000, tolerance) === null);
+  check('window returns need prices at both ends',
+    near(windowReturn(prices, start, 1, tolerance), 0.01) && windowReturn(prices, start + 239 * HOUR_MS, 1, tolerance) === null);
+  // 216 day-long windows: drift, plus the steps for the 24 windows that span each one
+  check('the baseline is the mean return of all windows', near(baselineReturn(prices, 24, tolerance), 0.24 + (24 * 2 - 24 * 3) / 216, 0.05));
+
+  const at = (time: number, minutes = 0) => new Date(time + minutes * 60 * 1000);
+  const articles = [
+    { publishedAt: at(approvalAt), sentimentScore: 0.7, category: 'regulatory', source: 'Reuters' },
+    { publishedAt: at(approvalAt, 10), sentimentScore: 0.6, category: 'regulatory', source: 'CoinDesk' },
+    { publishedAt: at(hackAt), sentimentScore: -0.8, category: 'technical', source: 'CoinDesk' },
+    { publishedAt: at(start, 24 * 60 * 3), sentimentScore: 0, category: 'market', source: 'Reuters' },
+    { publishedAt: at(start, 24 * 60 * 3 + 600), sentimentScore: 0.1, category: 'market', source: 'Decrypt' },
+    { publishedAt: at(start, 239 * 60), sentimentScore: 0.5, category: 'corporate', source: 'Decrypt' } // Horizons not reached yet
+  ];
+  const now = new Date(start + 239 * HOUR_MS + 10 * 60 * 1000);
+  const study = runEventStudy(articles, prices, new Date(start), now, { toleranceMs: tolerance, minGroupSize: 1, now });
+
+  const group = (dimension: 'category' | 'source' | 'sentiment', key: string) =>
+    study.groups[dimension].find((item) => item.key === key);
+  check('articles whose horizons have not passed are not measured', study.articleCount === 6 && study.measuredCount === 5 &&
+    !group('category', 'corporate'));
+  check('approval news shows a positive abnormal return at every horizon',
+    ['1h', '4h', '24h'].every((horizon) => (group('category', 'regulatory')?.horizons[horizon as '1h'].avgAbnormalReturn ?? 0) > 1.5));
+  check('hack news shows a negative abnormal return', near(group('category', 'technical')?.horizons['4h'].avgAbnormalReturn, -3.03, 0.1));
+  check('quiet market news has no abnormal return', Math.abs(group('category', 'market')?.horizons['24h'].avgAbnormalReturn ?? 1) < 0.2);
+  check('groups by sentiment bucket', group('sentiment', 'positive')?.count === 2 && group('sentiment', 'negative')?.count === 1 &&
+    group('sentiment', 'neutral')?.count === 2);
+  check('groups by source', group('source', 'CoinDesk')?.count === 2 && group('source', 'Reuters')?.count === 2);
+  check('groups are ordered by the size of the 24h abnormal move', study.groups.category[0].key === 'technical');
+  check('t-statistics need two articles', group('category', 'technical')?.horizons['1h'].tStat === null &&
+    group('category', 'market')?.horizons['1h'].count === 2);
+
+  const strict = runEventStudy(articles, prices, new Date(start), now, { toleranceMs: tolerance, minGroupSize: 2, now });
+  check('small groups can be left out', strict.groups.category.every((item) => item.count >= 2) &&
+    !strict.groups.category.some((item) => item.key === 'technical'));
+  check('no prices means nothing is measured',
+    runEventStudy(articles, [], new Date(start), now, { toleranceMs: tolerance, minGroupSize: 1, now }).measuredCount === 0);
+
+  const failed = results.filter((result) => !result.passed);
+  console.log(`\n${failed.length === 0 ? '🎉' : '❌'} ${results.length - failed.length}/${results.length} checks passed`);
+  process.exit(failed.length === 0 ? 0 : 1);
+}
+
+// Run the test if this file is executed directly
+if (require.main === module) {
+  testNewsImpact().catch((error) => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
+
+export { testNewsImpact };
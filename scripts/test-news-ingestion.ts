@@ -0,0 +1,159 @@
+#!/usr/bin/env tsx
+// Test script for news ingestion
+// Parses the offline sample feeds in data/news-feeds (RSS, Atom, JSON Feed), checks
+// normalisation, symbol and category tagging, duplicate detection and feed loading
+// from local files and a local HTTP stand-in.
+
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { detectFeedFormat, parseFeed, stripHtml } from '../src/lib/news/feed-parser';
+import {
+  classifyCategory,
+  extractSymbols,
+  findDuplicate,
+  normalizeUrl,
+  NewsIngestionError,
+  titleSimilarity
+} from '../src/lib/news/news-utils';
+import { NewsIngestionService } from '../src/lib/services/news-ingestion-service';
+import type { NewsArticleInput } from '../src/types/news';
+
+const FEED_DIR = join(__dirname, '..', 'data', 'news-feeds');
+const readSample = (file: string) => readFileSync(join(FEED_DIR, file), 'utf-8');
+
+async function testNewsIngestion() {
+  console.log('🧪 Testing news ingestion...\n');
+
+  const results: Array<{ name: string; passed: boolean }> = [];
+  const check = (name: string, passed: boolean) => {
+    results.push({ name, passed });
+    console.log(`${passed ? '✅' : '❌'} ${name}`);
+  };
+
+  // Parsing
+  const rss = parseFeed(readSample('sample-rss.xml'));
+  check('detects feed formats', detectFeedFormat(readSample('sample-rss.xml')) === 'rss' &&
+    detectFeedFormat(readSample('sample-atom.xml')) === 'atom' && detectFeedFormat(readSample('sample-feed.json')) === 'json');
+  check('RSS items are parsed with CDATA titles and dates', rss.length === 4 &&
+    rss[0].title === 'Bitcoin Rallies Past $112,000 as ETF Inflows Surge' &&
+    rss[0].publishedAt?.toISOString() === '2025-09-08T09:00:00.000Z' && rss[0].categories[0] === 'Markets');
+  check('RSS prefers content:encoded and reads dc:date', !!rss[0].content?.includes('highest level in a month') &&
+    rss[3].publishedAt?.toISOString() === '2025-09-08T08:00:00.000Z');
+
+  const atom = parseFeed(readSample('sample-atom.xml'));
+  check('Atom entries use the alternate link and category labels', atom.length === 2 &&
+    atom[1].url === 'https://journal.example.org/2025/09/jpmorgan-coinbase/' && atom[1].categories[0] === 'Business');
+  check('Atom escaped HTML summaries become text', stripHtml(atom[0].summary ?? '') === 'The rally extended as BTC ETF inflows surged.');
+
+  const json = parseFeed(readSample('sample-feed.json'));
+  check('JSON Feed items are parsed', json.length === 3 && json[0].url === 'https://daily.example.kr/articles/ripple-lawsuit' &&
+    json[0].categories[0] === '규제');
+
+  let invalidCode = '';
+  try {
+    parseFeed('<html><body>not a feed</body></html>');
+  } catch (error) {
+    invalidCode = error instanceof NewsIngestionError ? error.code : 'UNKNOWN';
+  }
+  check('rejects documents that are not feeds', invalidCode === 'INVALID_FEED');
+
+  // Normalisation
+  check('URLs drop tracking parameters, fragments and trailing slashes',
+    normalizeUrl('https://WWW.News.example.com/a/b/?utm_source=rss&id=7#top') === 'https://news.example.com/a/b?id=7' &&
+    normalizeUrl('javascript:alert(1)') === undefined);
+
+  check('symbols come from names and upper-case tickers in both languages',
+    extractSymbols('Bitcoin and ETH rally').join() === 'BTC,ETH' &&
+    extractSymbols('리플 소송 마무리… XRP 기대').join() === 'XRP' &&
+    extractSymbols('a link to the dot com era').length === 0);
+
+  check('categories follow keyword hits', classifyCategory({ title: 'SEC Delays Decision on Solana ETF Applications' }) === 'regulatory' &&
+    classifyCategory({ title: 'Ethereum Developers Schedule Next Network Upgrade for Mainnet' }) === 'technical' &&
+    classifyCategory({ title: 'JPMorgan Expands Crypto Trading Desk Through Coinbase Partnership' }) === 'corporate' &&
+    classifyCategory({ title: '비트코인, 기관 매수세에 사상 최고가 경신' }) === 'market' &&
+    classifyCategory({ title: 'Weekly roundup' }, 'technical') === 'technical');
+
+  // Duplicates
+  check('near-identical titles are similar, different stories are not',
+    titleSimilarity('Bitcoin Rallies Past $112,000 as ETF Inflows Surge', 'Bitcoin rallies past $112,000 as ETF inflows surge!') === 1 &&
+    titleSimilarity('Bitcoin Rallies Past $112,000 as ETF Inflows Surge', 'SEC Delays Decision on Solana ETF Applications') < 0.5);
+
+  const known = [{ title: 'Bitcoin Rallies Past $112,000 as ETF Inflows Surge', url: 'https://news.example.com/markets/bitcoin-rallies-112k' }];
+  check('duplicates are found by canonical URL and by title', findDuplicate(
+    { title: 'Different headline', url: 'https://news.example.com/markets/bitcoin-rallies-112k?utm_medium=feed' }, known, 0.85) === 'url' &&
+    findDuplicate({ title: 'Bitcoin rallies past $112,000 as ETF inflows surge!', url: 'https://journal.example.org/x' }, known, 0.85) === 'title' &&
+    findDuplicate({ title: 'Ethereum upgrade scheduled' }, known, 0.85) === null);
+
+  // Feed loading through the service
+  process.env.NEWS_FEEDS = join(FEED_DIR, 'feeds.local.json');
+  const service = new NewsIngestionService();
+  const feeds = service.getFeeds();
+  check('loads the feed list and resolves files next to it', feeds.length === 3 && feeds[0].location === join(FEED_DIR, 'sample-rss.xml'));
+
+  const now = new Date('2025-09-08T12:00:00Z');
+  const batches = await Promise.all(feeds.map((feed) => service.fetchFeed(feed, now)));
+  const articles = batches.flat();
+  const first = batches[0][0];
+  check('normalises entries into articles', first.title === 'Bitcoin Rallies Past $112,000 as ETF Inflows Surge' &&
+    first.url === 'https://news.example.com/markets/bitcoin-rallies-112k' && first.source === 'Sample Crypto Wire' &&
+    first.category === 'market' && first.relatedSymbols.join() === 'BTC' && !first.content.includes('<p>'));
+
+  // Same dedupe the service applies while storing
+  const accepted: NewsArticleInput[] = [];
+  for (const article of articles) {
+    if (!findDuplicate(article, accepted, 0.85)) accepted.push(article);
+  }
+  check('the sample feeds hold two cross-posted stories', articles.length === 9 && accepted.length === 7);
+
+  let missingCode = '';
+  try {
+    await service.fetchFeed({ id: 'missing', name: 'Missing', location: join(FEED_DIR, 'nope.xml') });
+  } catch (error) {
+    missingCode = error instanceof NewsIngestionError ? `${error.code}:${error.status}` : 'UNKNOWN';
+  }
+  check('missing feed files raise FEED_NOT_FOUND', missingCode === 'FEED_NOT_FOUND:404');
+
+  // Remote feeds against a local HTTP stand-in
+  const server = createServer((request, response) => {
+    if (request.url === '/feed.xml') {
+      response.writeHead(200, { 'Content-Type': 'application/rss+xml' });
+      response.end(readSample('sample-rss.xml'));
+    } else {
+      response.writeHead(500);
+      response.end('boom');
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  try {
+    const remote = await service.fetchFeed({ id: 'remote', name: 'Remote', location: `${baseUrl}/feed.xml` }, now);
+    check('fetches remote feeds over HTTP', remote.length === 4);
+
+    let fetchCode = '';
+    try {
+      await service.fetchFeed({ id: 'broken', name: 'Broken', location: `${baseUrl}/broken` });
+    } catch (error) {
+      fetchCode = error instanceof NewsIngestionError ? error.code : 'UNKNOWN';
+    }
+    check('HTTP errors raise FETCH_FAILED', fetchCode === 'FETCH_FAILED');
+  } finally {
+    server.close();
+  }
+
+  const failed = results.filter((result) => !result.passed);
+  console.log(`\n${failed.length === 0 ? '🎉' : '❌'} ${results.length - failed.length}/${results.length} checks passed`);
+  process.exit(failed.length === 0 ? 0 : 1);
+}
+
+// Run the test if this file is executed directly
+if (require.main === module) {
+  testNewsIngestion().catch((error) => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
+
+export { testNewsIngestion };
@@ -0,0 +1,138 @@
+#!/usr/bin/env tsx
+// Test script for news report generation
+// Checks report periods, event clustering, top story selection, the sentiment trend
+// against the previous period, the BTC price move over a report window and the hourly
+// limit on reports users ask for.
+
+import {
+  clusterArticles,
+  describeEvents,
+  eventSimilarity,
+  periodSentiment,
+  pickTopStories,
+  previousPeriod,
+  priceMove,
+  reportHalfLifeHours,
+  reportPeriod,
+  sentimentTrend,
+  type ReportArticle
+} from '../src/lib/news/news-report-builder';
+import { NewsReportError, NewsReportService } from '../src/lib/services/news-report-service';
+
+async function testNewsReports() {
+  console.log('🧪 Testing news reports...\n');
+
+  const results: Array<{ name: string; passed: boolean }> = [];
+  const check = (name: string, passed: boolean) => {
+    results.push({ name, passed });
+    console.log(`${passed ? '✅' : '❌'} ${name}`);
+  };
+
+  // Periods (local time)
+  const wednesday = new Date(2025, 8, 10, 15, 30);
+  const day = reportPeriod('daily', wednesday);
+  check('daily periods cover the local calendar day',
+    day.start.getTime() === new Date(2025, 8, 10).getTime() && day.end.getTime() === new Date(2025, 8, 11).getTime());
+
+  const week = reportPeriod('weekly', wednesday);
+  check('weekly periods run Monday to Monday',
+    week.start.getTime() === new Date(2025, 8, 8).getTime() && week.end.getTime() === new Date(2025, 8, 15).getTime() &&
+    reportPeriod('weekly', new Date(2025, 8, 14, 23)).start.getTime() === week.start.getTime());
+
+  const lastWeek = previousPeriod('weekly', week);
+  check('the previous period ends where the period starts',
+    lastWeek.end.getTime() === week.start.getTime() && previousPeriod('daily', day).start.getTime() === new Date(2025, 8, 9).getTime());
+  check('the recency half-life is half the period', reportHalfLifeHours(day) === 12 && reportHalfLifeHours(week) === 84);
+
+  // Clustering
+  const at = (hour: number) => new Date(2025, 8, 10, hour);
+  const article = (id: string, title: string, hour: number, importanceScore: number, sentimentScore: number,
+    category = 'market', relatedSymbols = ['BTC']): ReportArticle =>
+    ({ id, title, publishedAt: at(hour), importanceScore, sentimentScore, category, relatedSymbols, source: 'Reuters' });
+
+  const articles = [
+    article('etf-1', 'SEC approves spot Ethereum ETF applications', 20, 9, 0.7, 'regulatory', ['ETH']),
+    article('etf-2', 'Ethereum ETF applications approved by SEC', 21, 8, 0.6, 'regulatory', ['ETH']),
+    article('etf-3', 'Spot Ethereum ETF approval lifts ETH', 22, 7, 0.8, 'market', ['ETH']),
+    article('hack-1', 'Exchange hack drains $40M in bitcoin', 9, 8, -0.8, 'technical', ['BTC']),
+    article('rally-1', 'Bitcoin rallies past $112,000', 23, 6, 0.8, 'market', ['BTC']),
+    article('misc-1', 'Wallet app adds dark mode', 12, 2, 0, 'technical', [])
+  ];
+
+  check('reworded headlines about one story are similar',
+    eventSimilarity('SEC approves spot Ethereum ETF applications', 'Ethereum ETF applications approved by SEC') >= 0.5 &&
+    eventSimilarity('SEC approves spot Ethereum ETF applications', 'Exchange hack drains $40M in bitcoin') < 0.5);
+
+  const events = clusterArticles(articles, day.end, reportHalfLifeHours(day), 0.5);
+  const etf = events.find((event) => event.articleIds.includes('etf-1'));
+  check('articles about the same event are grouped', events.length === 4 && etf?.articleIds.length === 3 &&
+    etf.articleIds[0] === 'etf-1' && etf.symbols.join() === 'ETH');
+  check('events are ordered by importance × recency', events[0] === etf &&
+    events.findIndex((event) => event.articleIds.includes('misc-1')) === events.length - 1);
+  check('unrelated articles with similar wording stay apart', clusterArticles([
+    article('a', 'Bitcoin price rally continues', 10, 5, 0.5, 'market', ['BTC']),
+    article('b', 'Solana price rally continues', 10, 5, 0.5, 'technical', ['SOL'])
+  ], day.end, 12, 0.5).length === 2);
+
+  const top = pickTopStories(events, articles, 3);
+  check('top stories take one article per event first', top.length === 3 && top[0] === 'etf-1' && !top.includes('etf-2'));
+  check('key events name the category and the article count',
+    describeEvents(events, 5)[0] === '[REGULATORY] SEC approves spot Ethereum ETF applications (3건)' &&
+    describeEvents(events, 2).length === 2);
+
+  // Sentiment trend
+  const current = periodSentiment(articles, day);
+  const previous = periodSentiment([article('old', 'Bitcoin slumps', -10, 7, -0.6)], previousPeriod('daily', day));
+  check('period sentiment is an importance and recency weighted index', current !== null && current > 0.3 &&
+    previous === -0.6 && periodSentiment([], day) === null);
+  check('the trend compares against the previous period',
+    sentimentTrend(0.25, 0.1) === 'improving' && sentimentTrend(-0.2, 0.1) === 'deteriorating' &&
+    sentimentTrend(0.05, 0.1) === 'stable' && sentimentTrend(null, 0.1) === 'stable');
+
+  // Price move
+  const prices = [
+    { timestamp: at(12), price: 110000 },
+    { timestamp: at(1), price: 108000 },
+    { timestamp: at(23), price: 111100 }
+  ];
+  const move = priceMove(prices, { timestamp: at(-1), price: 101000 });
+  check('the price move opens at the last price before the window', move?.open === 101000 && move.close === 111100 &&
+    move.high === 111100 && move.low === 108000 && move.changePercent === 10);
+  check('without an earlier price the move opens inside the window', priceMove(prices, null)?.open === 108000);
+  check('no prices in the window means no price move', priceMove([], { timestamp: at(-1), price: 101000 }) === null);
+
+  // Requested reports
+  const reports = new NewsReportService();
+  const { manualRunsPerHour } = reports.getConfig();
+  const start = new Date(2025, 8, 10, 12, 0);
+  for (let i = 0; i < manualRunsPerHour; i++) {
+    reports.reserveManualRun('user-1', new Date(start.getTime() + i * 1000));
+  }
+  const refusal = (userId: string, now: Date) => {
+    try {
+      reports.reserveManualRun(userId, now);
+      return null;
+    } catch (error) {
+      return error instanceof NewsReportError ? error : null;
+    }
+  };
+  const limited = refusal('user-1', new Date(start.getTime() + 60 * 1000));
+  check('requests over the hourly limit are refused with the wait until the oldest expires',
+    limited?.code === 'RATE_LIMITED' && limited.retryAfterSeconds === 59 * 60);
+  check('the limit is counted per user', refusal('user-2', start) === null);
+  check('requests count again once an hour has passed', refusal('user-1', new Date(start.getTime() + 60 * 60 * 1000 + 1)) === null);
+
+  const failed = results.filter((result) => !result.passed);
+  console.log(`\n${failed.length === 0 ? '🎉' : '❌'} ${results.length - failed.length}/${results.length} checks passed`);
+  process.exit(failed.length === 0 ? 0 : 1);
+}
+
+// Run the test if this file is executed directly
+if (require.main === module) {
+  testNewsReports().catch((error) => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
+
+export { testNewsReports };
@@ -0,0 +1,100 @@
+#!/usr/bin/env tsx
+// Test script for the news scorer
+// Checks lexicon sentiment in English and Korean, negation and boosters, source
+// credibility, importance, the recency-weighted sentiment index and scoring of the
+// offline sample feeds in data/news-feeds.
+
+import { join } from 'path';
+import {
+  aggregateSentiment,
+  DEFAULT_CREDIBILITY,
+  findLexiconHits,
+  scoreArticle,
+  sourceCredibility
+} from '../src/lib/news/news-scorer';
+import { NewsIngestionService } from '../src/lib/services/news-ingestion-service';
+
+const FEED_DIR = join(__dirname, '..', 'data', 'news-feeds');
+
+async function testNewsScoring() {
+  console.log('🧪 Testing news scoring...\n');
+
+  const results: Array<{ name: string; passed: boolean }> = [];
+  const check = (name: string, passed: boolean) => {
+    results.push({ name, passed });
+    console.log(`${passed ? '✅' : '❌'} ${name}`);
+  };
+
+  const score = (title: string, content = '', source = 'CoinDesk', category = 'market') =>
+    scoreArticle({ title, content, source, category, relatedSymbols: [] });
+
+  // Sentiment
+  check('bullish and bearish English headlines get opposite signs',
+    score('Bitcoin Rallies Past $112,000 as ETF Inflows Surge').sentimentScore > 0.5 &&
+    score('Bitcoin crashes as exchange hack sparks sell-off').sentimentScore < -0.5);
+  check('Korean headlines are scored', score('비트코인, 기관 매수세에 사상 최고가 경신').sentimentScore > 0.5 &&
+    score('거래소 해킹에 비트코인 급락').sentimentScore < -0.5);
+  check('text without lexicon terms is neutral', score('Weekly roundup of the blockchain conference').sentimentScore === 0);
+  check('inflected forms match their lexicon term',
+    findLexiconHits('prices rallied, then tumbled').map((hit) => hit.term).join() === 'rally,tumble');
+  check('a preceding English negator flips and dampens a term',
+    findLexiconHits('the exchange did not crash')[0]?.weight === 0.45 && findLexiconHits('no ban')[0]?.negated === true);
+  check('Korean negation after a term flips it', score('비트코인 상승하지 않았다').sentimentScore < 0);
+  check('shifters like 해소 turn a negative term positive', findLexiconHits('불확실성 해소')[0]?.weight > 0);
+  check('boosters strengthen a term', Math.abs(findLexiconHits('a sharply lower drop')[0]?.weight ?? 0) > 0.5);
+  check('longer terms win over the terms inside them', findLexiconHits('a new all-time high').length === 1);
+  check('scores stay within -1 and 1',
+    Math.abs(score('surge surge surge soar rally record high', 'surge soar rally jump gain boost').sentimentScore) < 1);
+
+  // Credibility and importance
+  check('source credibility comes from the table, overrides and the default',
+    sourceCredibility('Reuters') === 0.95 && sourceCredibility('FinancialTimes') === 0.9 &&
+    sourceCredibility('Unknown Blog') === DEFAULT_CREDIBILITY && sourceCredibility('Unknown Blog', { 'unknown blog': 0.3 }) === 0.3);
+
+  const etf = score('SEC approves spot Bitcoin ETF', 'BlackRock expects billions in inflows', 'Reuters', 'regulatory');
+  const minor = score('Wallet app adds dark mode', '', 'Unknown Blog', 'technical');
+  check('market-moving stories from credible sources rank high', etf.importanceScore >= 8 && minor.importanceScore <= 3);
+  check('importance stays within 1 and 10', etf.importanceScore <= 10 && minor.importanceScore >= 1);
+  check('scoring is deterministic', JSON.stringify(score('Bitcoin jumps 5%')) === JSON.stringify(score('Bitcoin jumps 5%')));
+
+  // Sentiment index
+  const now = new Date('2025-09-08T12:00:00Z');
+  const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+  const index = aggregateSentiment([
+    { sentimentScore: 0.8, importanceScore: 8, source: 'Reuters', publishedAt: hoursAgo(1) },
+    { sentimentScore: -0.8, importanceScore: 8, source: 'Reuters', publishedAt: hoursAgo(36) }
+  ], now, 12);
+  check('recent news outweighs older news', index.sentiment > 0.6);
+
+  const credible = aggregateSentiment([
+    { sentimentScore: 0.5, importanceScore: 5, source: 'Reuters', publishedAt: now },
+    { sentimentScore: -0.5, importanceScore: 5, source: 'Unknown Blog', publishedAt: now }
+  ], now, 12);
+  check('credible sources outweigh unknown ones', credible.sentiment > 0);
+  check('no news is a neutral index', aggregateSentiment([], now).sentiment === 0 && aggregateSentiment([], now).weight === 0);
+
+  // Sample feeds as the ingestion service stores them
+  process.env.NEWS_FEEDS = join(FEED_DIR, 'feeds.local.json');
+  const service = new NewsIngestionService();
+  const articles = (await Promise.all(service.getFeeds().map((feed) => service.fetchFeed(feed, now)))).flat();
+  const scored = articles.map((article) => ({ article, ...scoreArticle(article) }));
+  const byTitle = (text: string) => scored.find(({ article }) => article.title.includes(text));
+  check('sample articles are scored in range', scored.length === 9 && scored.every(({ sentimentScore, importanceScore }) =>
+    Math.abs(sentimentScore) <= 1 && importanceScore >= 1 && importanceScore <= 10));
+  check('sample rally and delay stories get opposite signs',
+    (byTitle('Bitcoin Rallies')?.sentimentScore ?? 0) > 0 && (byTitle('SEC Delays')?.sentimentScore ?? 0) < 0);
+
+  const failed = results.filter((result) => !result.passed);
+  console.log(`\n${failed.length === 0 ? '🎉' : '❌'} ${results.length - failed.length}/${results.length} checks passed`);
+  process.exit(failed.length === 0 ? 0 : 1);
+}
+
+// Run the test if this file is executed directly
+if (require.main === module) {
+  testNewsScoring().catch((error) => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
+
+export { testNewsScoring };
@@ -0,0 +1,137 @@
+#!/usr/bin/env tsx
+// Test script for the pattern rule language
+// Parses valid and invalid rules, checks evaluation against indicators computed directly
+// on the fixture candles, and runs rules through the zod schemas and chat planning.
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  PatternRuleError,
+  evaluatePatternRule,
+  parsePatternRule,
+  patternRuleVocabulary
+} from '../src/lib/patterns/pattern-rules';
+import { indicatorSeries } from '../src/lib/indicators/indicator-engine';
+import { MACD, RSI, SMA } from '../src/lib/indicators/streaming-indicators';
+import { PatternRuleEvaluationSchema, PatternRuleSchema } from '../src/lib/validation/pattern-schemas';
+import { parseCommand, planCommand } from '../src/lib/chat/commandParser';
+import type { Agent } from '../src/types/game';
+import type { IndicatorCandle } from '../src/types/indicators';
+
+const FIXTURE_PATH = join(__dirname, '..', 'data', 'indicator-fixtures', 'btcusdt-1h.json');
+
+async function testPatternRules() {
+  console.log('🧪 Testing pattern rules...\n');
+
+  const results: Array<{ name: string; passed: boolean }> = [];
+  const check = (name: string, passed: boolean) => {
+    results.push({ name, passed });
+    console.log(`${passed ? '✅' : '❌'} ${name}`);
+  };
+  const rejects = (rule: string, message: RegExp) => {
+    try {
+      parsePatternRule(rule);
+      return false;
+    } catch (error) {
+      return error instanceof PatternRuleError && message.test(error.message);
+    }
+  };
+
+  const { candles }: { candles: Required<IndicatorCandle>[] } = JSON.parse(readFileSync(FIXTURE_PATH, 'utf-8'));
+  const closes = candles.map((candle) => candle.close);
+  const same = (a: boolean[], b: boolean[]) => a.length === b.length && a.every((value, i) => value === b[i]);
+
+  // Parsing
+  const example = parsePatternRule('rsi(14) < 30 and close > sma(50) and crossover(macd, macd_signal)');
+  check('the example rule parses', example.ast.kind === 'binary' && example.ast.op === 'and');
+  check('lookback covers the slowest input', example.lookback === 49);
+  check('symbols, keywords and case are interchangeable',
+    JSON.stringify(parsePatternRule('RSI < 30 && !(Close > SMA(50))').ast) ===
+    JSON.stringify(parsePatternRule('rsi(14) < 30 and not (close > sma(50))').ast));
+  check('and binds tighter than or', (() => {
+    const ast = parsePatternRule('close > 1 or close > 2 and close > 3').ast;
+    return ast.kind === 'binary' && ast.op === 'or';
+  })());
+  check('arithmetic follows precedence', (() => {
+    const ast = parsePatternRule('close > 1 + 2 * 3').ast;
+    return ast.kind === 'binary' && ast.right.kind === 'binary' && ast.right.op === '+';
+  })());
+
+  // Rejections
+  check('unknown names are rejected', rejects('foo > 1', /Unknown name 'foo'/));
+  check('unknown functions are rejected', rejects('eval(1) > 1', /Unknown function 'eval'/));
+  check('a rule must be a condition', rejects('close + 1', /must be a condition/));
+  check('numbers and conditions do not mix', rejects('close and rsi < 30', /needs a condition/) && rejects('(rsi < 30) + 1 > 0', /needs a number/));
+  check('indicator parameters must be constant', rejects('sma(close) > 1', /must be a number/));
+  check('periods are bounded whole numbers', rejects('sma(0) > 1', /between 1 and 500/) && rejects('rsi(2.5) < 1', /whole number/) && rejects('sma(501) > 1', /between/));
+  check('periods without defaults are required', rejects('close > sma', /needs a period/));
+  check('function arity is checked', rejects('crossover(close) ', /needs 2 arguments/) && rejects('rsi(14, 3) < 1', /at most 1 parameter/));
+  check('comparisons cannot be chained', rejects('20 < rsi < 30', /cannot be chained/));
+  check('syntax errors report their position', rejects('close > (sma(20)', /Expected '\)'.*\(at 17\)/) && rejects('close > ', /ends too early/));
+  check('stray characters are rejected', rejects('close > 1; drop', /Unexpected character ';'/));
+  check('long rules are rejected', rejects(`close > ${'1 + '.repeat(200)}1`, /longer than|too long/));
+  check('deep nesting is rejected', rejects(`${'('.repeat(30)}close > 1${')'.repeat(30)}`, /nested too deeply/));
+
+  // Evaluation against direct indicator math
+  const rsi = indicatorSeries(new RSI(14), closes);
+  const sma = indicatorSeries(new SMA(50), closes);
+  const macd = indicatorSeries(new MACD(), closes);
+  const evaluation = evaluatePatternRule('rsi(14) < 45 and close > sma(50)', candles);
+  check('conditions match the indicators they read',
+    same(evaluation.values, candles.map((c, i) => rsi[i] !== null && rsi[i]! < 45 && sma[i] !== null && c.close > sma[i]!)));
+
+  const crossovers = evaluatePatternRule('crossover(macd, macd_signal)', candles);
+  const expectedCrossovers = macd.map((value, i) => {
+    const before = macd[i - 1];
+    return i > 0 && value?.signal != null && before?.signal != null && before.macd <= before.signal && value.macd > value.signal;
+  });
+  check('crossover fires only on the candle that crosses', same(crossovers.values, expectedCrossovers) && crossovers.triggers.length > 0);
+  check('crossunder is the mirror of crossover',
+    evaluatePatternRule('crossunder(macd_signal, macd)', candles).triggers.join() === crossovers.triggers.join());
+
+  const rising = evaluatePatternRule('close > prev(close)', candles);
+  check('triggers are the candles where a rule turns true',
+    rising.triggers.every((i) => rising.values[i] && !rising.values[i - 1]) &&
+    rising.triggers.length === rising.values.filter((value, i) => value && !rising.values[i - 1]).length);
+  check('nothing holds during warm-up', !evaluatePatternRule('not (close > sma(20))', candles).values.slice(0, 19).some(Boolean));
+  check('breakouts over prior highs can be expressed',
+    same(evaluatePatternRule('close > highest(prev(high), 20)', candles).values,
+      candles.map((c, i) => i >= 20 && c.close > Math.max(...candles.slice(i - 20, i).map((p) => p.high)))));
+  check('division by zero never holds', !evaluatePatternRule('close / (close - close) > 0', candles).values.some(Boolean));
+  check('bare indicators use their default parameters',
+    same(evaluatePatternRule('rsi < 50', candles).values, evaluatePatternRule('rsi(14) < 50', candles).values));
+  check('every listed indicator evaluates', patternRuleVocabulary().indicators.every((name) => {
+    const params = name === 'sma' || name === 'ema' ? '(10)' : '';
+    return evaluatePatternRule(`${name}${params} > -1000000000`, candles).values.some(Boolean);
+  }));
+
+  // Validation and chat
+  check('the rule schema accepts valid rules', PatternRuleSchema.safeParse(' rsi < 30 ').data === 'rsi < 30');
+  const invalid = PatternRuleSchema.safeParse('rsi < ');
+  check('the rule schema reports parse errors', !invalid.success && /ends too early/.test(invalid.error.issues[0].message));
+  check('evaluation requests need exactly one of rule and patternId',
+    PatternRuleEvaluationSchema.safeParse({ rule: 'rsi < 30' }).success &&
+    !PatternRuleEvaluationSchema.safeParse({}).success &&
+    !PatternRuleEvaluationSchema.safeParse({ rule: 'rsi < 30', patternId: 'p1' }).success);
+
+  const agent = { id: 'agent-1', patterns: [], watchlistItems: [], strategy: '[]' } as unknown as Agent;
+  const planned = planCommand(parseCommand('"과매도 반등" 패턴 추가해줘 규칙: rsi(14) < 30 and close > sma(50)', agent), agent);
+  check('chat pattern commands carry a written rule',
+    planned?.plan.kind === 'pattern.create' && planned.plan.pattern.rule === 'rsi(14) < 30 and close > sma(50)' && /실행 규칙/.test(planned.summary));
+  const unparsed = planCommand(parseCommand('"과매도 반등" 패턴 추가해줘 조건: RSI가 30 아래', agent), agent);
+  check('chat rules that do not parse are left out', unparsed?.plan.kind === 'pattern.create' && unparsed.plan.pattern.rule === undefined);
+
+  const failed = results.filter((result) => !result.passed);
+  console.log(`\n${failed.length === 0 ? '🎉' : '❌'} ${results.length - failed.length}/${results.length} checks passed`);
+  process.exit(failed.length === 0 ? 0 : 1);
+}
+
+// Run the test if this file is executed directly
+if (require.main === module) {
+  testPatternRules().catch((error) => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
+
+export { testPatternRules };
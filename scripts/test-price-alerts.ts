@@ -0,0 +1,97 @@
+#!/usr/bin/env tsx
+// Test script for price alert rules
+// Walks price sequences through the evaluator: above/below/both levels, percent-change
+// rules, re-arming after the price crosses back, and cooldowns.
+
+import { evaluatePriceAlert, hasActiveRule } from '../src/lib/alerts/price-alert-rules';
+import type { PriceAlertConfig, PriceAlertHit, PriceAlertRule, PriceAlertState } from '../src/types/alerts';
+
+const CONFIG: PriceAlertConfig = { cooldownMs: 60 * 1000, rearmPercent: 1, sweepIntervalMs: 60 * 1000 };
+
+const initialState = (): PriceAlertState => ({ triggered: false, lastAlertAt: null, basePrice: null, lastPrice: null });
+
+/**
+ * Feed prices one minute apart (or the given gaps, in seconds) and collect the hits
+ */
+function run(rule: PriceAlertRule, prices: number[], gapsSeconds: number[] = []): { hits: Array<PriceAlertHit | null>; state: PriceAlertState } {
+  let state = initialState();
+  let time = Date.UTC(2025, 0, 1);
+  const hits: Array<PriceAlertHit | null> = [];
+
+  prices.forEach((price, index) => {
+    time += (gapsSeconds[index] ?? 60) * 1000;
+    const result = evaluatePriceAlert(rule, state, price, new Date(time), CONFIG);
+    hits.push(result.hit);
+    state = result.state;
+  });
+  return { hits, state };
+}
+
+const firedAt = (hits: Array<PriceAlertHit | null>) => hits.map((hit, index) => (hit ? index : -1)).filter((index) => index >= 0);
+
+async function testPriceAlerts() {
+  console.log('🧪 Testing price alert rules...\n');
+
+  const results: Array<{ name: string; passed: boolean }> = [];
+  const check = (name: string, passed: boolean) => {
+    results.push({ name, passed });
+    console.log(`${passed ? '✅' : '❌'} ${name}`);
+  };
+
+  // Level rules
+  const above = run({ alertPrice: 100, alertType: 'above' }, [95, 101, 103, 99.5, 98, 102]);
+  check('above fires once when the price reaches the level', firedAt(above.hits).join() === '1,5');
+  check('above reports direction and threshold', above.hits[1]?.reason === 'above' && above.hits[1]?.direction === 'up' && above.hits[1]?.threshold === 100);
+  check('above stays latched until the price falls back past the re-arm band', above.hits[3] === null && above.state.triggered);
+
+  const below = run({ alertPrice: 100, alertType: 'below' }, [105, 99, 97, 100.5, 101, 99]);
+  check('below fires, re-arms above the band and fires again', firedAt(below.hits).join() === '1,5' && below.hits[5]?.direction === 'down');
+
+  const both = run({ alertPrice: 100, alertType: 'both' }, [95, 101, 99.5, 102, 98.5, 97]);
+  check('both fires on crossings in either direction', firedAt(both.hits).join() === '1,4');
+  check('both does not fire on jitter inside the band', both.hits[2] === null);
+  check('both reports cross direction', both.hits[1]?.reason === 'cross' && both.hits[1]?.direction === 'up' && both.hits[4]?.direction === 'down');
+
+  const firstTick = run({ alertPrice: 100, alertType: 'both' }, [105]);
+  check('both needs a previous price before it can fire', firedAt(firstTick.hits).length === 0 && firstTick.state.lastPrice === 105);
+
+  // Cooldown
+  const cooldown = run({ alertPrice: 100, alertType: 'above' }, [101, 98, 101, 101, 101], [60, 10, 10, 10, 60]);
+  check('cooldown holds a re-armed alert back', cooldown.hits[2] === null && cooldown.hits[3] === null);
+  check('alert fires once the cooldown ends if the price is still past the level', firedAt(cooldown.hits).join() === '0,4');
+
+  // Percent-change rule
+  const change = run({ alertPercent: 5 }, [100, 103, 105.5, 108, 100]);
+  check('percent rule starts from the first price seen', change.hits[0] === null && change.hits[1] === null);
+  check('percent rule fires on a move of alertPercent', change.hits[2]?.reason === 'change' && change.hits[2]?.threshold === 100 && Math.abs((change.hits[2]?.changePercent ?? 0) - 5.5) < 1e-9);
+  check('percent rule measures from the price it last fired at', change.hits[3] === null && change.hits[4]?.direction === 'down' && change.state.basePrice === 100);
+
+  const changeCooldown = run({ alertPercent: 2 }, [100, 103, 106], [60, 60, 10]);
+  check('percent rule keeps its base during the cooldown', changeCooldown.hits[2] === null && changeCooldown.state.basePrice === 103);
+
+  // Combined rules and bookkeeping
+  const combined = run({ alertPrice: 100, alertType: 'above', alertPercent: 3 }, [95, 101]);
+  check('a level hit takes precedence over a percent move on the same price', combined.hits[1]?.reason === 'above' && combined.state.basePrice === 101);
+
+  const evaluation = evaluatePriceAlert({ alertPrice: 100, alertType: 'above' }, initialState(), 90, new Date(), CONFIG);
+  check('unchanged state is not reported as changed', !evaluation.changed && evaluation.hit === null);
+
+  const cleared = evaluatePriceAlert({}, { triggered: true, lastAlertAt: null, basePrice: 50, lastPrice: null }, 90, new Date(), CONFIG);
+  check('removing the rules clears the trigger state', cleared.changed && !cleared.state.triggered && cleared.state.basePrice === null);
+
+  check('hasActiveRule needs a level with a type, or a percent', hasActiveRule({ alertPrice: 1, alertType: 'above' }) && hasActiveRule({ alertPercent: 2 }) && !hasActiveRule({ alertPrice: 1 }));
+
+  const failed = results.filter((result) => !result.passed);
+  console.log(`\n${failed.length === 0 ? '🎉' : '❌'} ${results.length - failed.length}/${results.length} checks passed`);
+  process.exit(failed.length === 0 ? 0 : 1);
+}
+
+// Run the test if this file is executed directly
+if (require.main === module) {
+  testPriceAlerts().catch((error) => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
+
+export { testPriceAlerts };
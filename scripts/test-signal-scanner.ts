@@ -0,0 +1,135 @@
+#!/usr/bin/env tsx
+// Test script for the signal scanner
+// Stores candles for a throwaway symbol, scans patterns of an active and an inactive
+// agent, and checks signal records, dedupe per candle, the cooldown and the live feed.
+
+import { prisma } from '../src/lib/database/prisma-client';
+import { SignalScannerService, signalStrength, withLivePrice } from '../src/lib/services/signal-scanner-service';
+import type { PatternSignalEvent } from '../src/types/signals';
+import type { Candle } from '@prisma/client';
+
+const SYMBOL = 'SIGTEST';
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.UTC(2025, 0, 1);
+
+const candleAt = (index: number, close: number) => ({
+  symbol: SYMBOL,
+  interval: '1h',
+  openTime: new Date(START + index * HOUR_MS),
+  closeTime: new Date(START + (index + 1) * HOUR_MS - 1),
+  open: close,
+  high: close + 1,
+  low: close - 1,
+  close,
+  source: 'binance'
+});
+
+async function testSignalScanner() {
+  console.log('🧪 Testing signal scanner...\n');
+
+  const results: Array<{ name: string; passed: boolean }> = [];
+  const check = (name: string, passed: boolean) => {
+    results.push({ name, passed });
+    console.log(`${passed ? '✅' : '❌'} ${name}`);
+  };
+
+  // Pure helpers
+  check('strength is the confidence discounted by priority',
+    signalStrength({ confidenceRate: 80, priority: 1 }) === 80 && signalStrength({ confidenceRate: 80, priority: 3 }) === 72 &&
+    signalStrength({ confidenceRate: 150, priority: 20 }) === 55);
+
+  const stored = [candleAt(0, 100), candleAt(1, 101)] as Candle[];
+  const inBucket = withLivePrice(stored, 105, '1h', new Date(START + HOUR_MS + 30 * 60 * 1000));
+  check('a live price closes the forming candle',
+    inBucket.candles.length === 2 && inBucket.candles[1].close === 105 && inBucket.candles[1].high === 105 && inBucket.candles[1].low === 100);
+  const nextBucket = withLivePrice(stored, 99, '1h', new Date(START + 2 * HOUR_MS + 60 * 1000));
+  check('a live price past the stored candles starts a new candle from the last close',
+    nextBucket.candles.length === 3 && nextBucket.candles[2].open === 101 && nextBucket.candles[2].close === 99 &&
+    nextBucket.openTime.getTime() === START + 2 * HOUR_MS);
+
+  // Scanning against the database
+  const suffix = Date.now().toString(36);
+  const scanner = new SignalScannerService();
+  const events: PatternSignalEvent[] = [];
+  const unsubscribe = scanner.subscribe((event) => events.push(event));
+  let agentIds: string[] = [];
+
+  try {
+    const [active, inactive] = await Promise.all([
+      prisma.agent.create({
+        data: { name: `Signal Test ${suffix}`, type: `signal-test-${suffix}`, personality: 'balanced', strategy: '[]', description: 'Signal scanner test' }
+      }),
+      prisma.agent.create({
+        data: { name: `Signal Test Off ${suffix}`, type: `signal-test-off-${suffix}`, personality: 'balanced', strategy: '[]', description: 'Signal scanner test', isActive: false }
+      })
+    ]);
+    agentIds = [active.id, inactive.id];
+
+    const pattern = (agentId: string, name: string, rule: string | null, direction: string = 'BUY', isActive: boolean = true) =>
+      prisma.pattern.create({
+        data: { agentId, name, description: name, rule, direction, isActive, confidenceRate: 60, priority: 2 }
+      });
+    const breakout = await pattern(active.id, 'Breakout', 'close > 100');
+    const breakdown = await pattern(active.id, 'Breakdown', 'crossunder(close, 95)', 'SELL');
+    await pattern(active.id, 'No rule', null);
+    await pattern(active.id, 'Paused', 'close > 100', 'BUY', false);
+    await pattern(inactive.id, 'Inactive agent', 'close > 100');
+    await prisma.pattern.create({
+      data: { agentId: active.id, name: 'Broken', description: 'Broken', rule: 'close >' }
+    });
+
+    await prisma.candle.createMany({ data: [...Array.from({ length: 30 }, (_, i) => candleAt(i, 98)), candleAt(30, 102)] });
+    const firstScanAt = new Date(START + 31 * HOUR_MS);
+    const first = await scanner.scan(SYMBOL, null, firstScanAt);
+    check('a rule that turns true on the last candle emits one signal',
+      first.length === 1 && first[0].signal.patternId === breakout.id);
+    check('inactive patterns, inactive agents and broken rules are skipped',
+      (await prisma.signal.count({ where: { agentId: { in: agentIds } } })) === 1);
+
+    const [record] = await prisma.signal.findMany({ where: { patternId: breakout.id } });
+    check('the signal records agent, pattern, direction, strength, price and candle',
+      record.agentId === active.id && record.direction === 'BUY' && record.strength === 57 && record.price === 102 &&
+      record.interval === '1h' && record.candleTime.getTime() === START + 30 * HOUR_MS);
+
+    check('scanning the same candle again is deduped', (await scanner.scan(SYMBOL, null, new Date(firstScanAt.getTime() + HOUR_MS * 2))).length === 0);
+
+    await prisma.candle.createMany({ data: [candleAt(31, 94), candleAt(32, 103)] });
+    const cooling = await scanner.scan(SYMBOL, null, new Date(firstScanAt.getTime() + 10 * 60 * 1000));
+    check('a new trigger inside the cooldown is held back', cooling.length === 0);
+    const cooled = await scanner.scan(SYMBOL, null, new Date(firstScanAt.getTime() + 2 * HOUR_MS));
+    check('a new trigger after the cooldown is recorded', cooled.length === 1 && cooled[0].signal.patternId === breakout.id);
+
+    const live = await scanner.scan(SYMBOL, 90, new Date(START + 33 * HOUR_MS + 60 * 1000));
+    check('a live price can trigger a rule on the forming candle',
+      live.length === 1 && live[0].signal.patternId === breakdown.id && live[0].signal.direction === 'SELL' && live[0].signal.price === 90);
+
+    check('subscribers receive every recorded signal in order',
+      events.length === 3 && events.every((event, i) => i === 0 || event.id > events[i - 1].id));
+    const replayed: PatternSignalEvent[] = [];
+    scanner.subscribe((event) => replayed.push(event), events[0].id)();
+    check('late subscribers get buffered signals after their last event id', replayed.length === 2);
+
+    const listed = await scanner.getSignals({ agentId: active.id });
+    check('recorded signals are listed newest first with names',
+      listed.length === 3 && listed[0].patternName === 'Breakdown' && listed[0].agentName === active.name);
+  } finally {
+    unsubscribe();
+    await prisma.candle.deleteMany({ where: { symbol: SYMBOL } }).catch(() => undefined);
+    if (agentIds.length > 0) await prisma.agent.deleteMany({ where: { id: { in: agentIds } } }).catch(() => undefined);
+    await prisma.$disconnect().catch(() => undefined);
+  }
+
+  const failed = results.filter((result) => !result.passed);
+  console.log(`\n${failed.length === 0 ? '🎉' : '❌'} ${results.length - failed.length}/${results.length} checks passed`);
+  process.exit(failed.length === 0 ? 0 : 1);
+}
+
+// Run the test if this file is executed directly
+if (require.main === module) {
+  testSignalScanner().catch((error) => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
+
+export { testSignalScanner };
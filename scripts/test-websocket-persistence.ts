@@ -0,0 +1,159 @@
+#!/usr/bin/env tsx
+// Test script for Binance WebSocket ingestion against a local ws stand-in server
+// Exercises streaming, reconnect with backoff, heartbeat health checks and batched persistence.
+
+import { WebSocketServer, WebSocket } from 'ws';
+import { AddressInfo } from 'net';
+import { BinanceWebSocketService } from '../src/lib/services/binance-websocket-service';
+import { WebSocketServiceManager } from '../src/lib/services/websocket-service-manager';
+import { prisma } from '../src/lib/database/prisma-client';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function tickerMessage(price: number, volume: number) {
+  return JSON.stringify({
+    stream: 'btcusdt@ticker',
+    data: {
+      e: '24hrTicker',
+      E: Date.now(),
+      s: 'BTCUSDT',
+      p: '120.50',
+      P: '0.12',
+      c: price.toFixed(2),
+      h: (price + 500).toFixed(2),
+      l: (price - 500).toFixed(2),
+      v: volume.toFixed(3),
+      q: (volume * price).toFixed(2)
+    }
+  });
+}
+
+function klineMessage(openTime: number, close: number, isClosed: boolean) {
+  return JSON.stringify({
+    stream: 'btcusdt@kline_1m',
+    data: {
+      e: 'kline',
+      E: Date.now(),
+      s: 'BTCUSDT',
+      k: {
+        t: openTime,
+        T: openTime + 59999,
+        o: (close - 10).toFixed(2),
+        c: close.toFixed(2),
+        h: (close + 20).toFixed(2),
+        l: (close - 20).toFixed(2),
+        v: '12.5',
+        x: isClosed
+      }
+    }
+  });
+}
+
+async function testWebSocketPersistence() {
+  console.log('🧪 Testing WebSocket ingestion against a local stand-in server...\n');
+
+  // autoPong is disabled so the server can go silent for the health check
+  let answerPings = true;
+  const server = new WebSocketServer({ port: 0, autoPong: false });
+  await new Promise((resolve) => server.once('listening', resolve));
+  const port = (server.address() as AddressInfo).port;
+
+  const clients: WebSocket[] = [];
+  const activeClient = () => clients[clients.length - 1];
+  server.on('connection', (client, request) => {
+    clients.push(client);
+    client.on('ping', (data) => {
+      if (answerPings) client.pong(data);
+    });
+    console.log(`🖥️ Stand-in server: client connected (${clients.length}) ${request.url}`);
+  });
+
+  const service = new BinanceWebSocketService({
+    endpoints: [`ws://127.0.0.1:${port}`],
+    restEndpoint: null,
+    initialReconnectDelay: 200,
+    maxReconnectDelay: 1000,
+    healthCheckInterval: 500,
+    staleTimeout: 1500,
+    enableDemoFallback: false
+  });
+  const manager = new WebSocketServiceManager(service);
+
+  const events: Record<string, number> = {};
+  for (const name of ['connected', 'disconnected', 'ticker', 'kline', 'data', 'health_check_failed', 'error']) {
+    service.on(name, () => {
+      events[name] = (events[name] || 0) + 1;
+    });
+  }
+
+  const results: Array<{ name: string; passed: boolean }> = [];
+  const check = (name: string, passed: boolean) => {
+    results.push({ name, passed });
+    console.log(`${passed ? '✅' : '❌'} ${name}`);
+  };
+
+  let priceRowsBefore: number | null = null;
+  try {
+    priceRowsBefore = await prisma.bitcoinPrice.count({ where: { source: 'binance' } });
+  } catch {
+    console.log('⚠️ Database unavailable, persistence will only be checked via stats\n');
+  }
+
+  try {
+    await manager.start({ batchSize: 3, batchTimeout: 500, minPersistInterval: 0, maxRetries: 1 });
+    check('connects to stand-in server', service.getStatus().connected && clients.length === 1);
+
+    // Stream some data, including a duplicate tick
+    const minute = Date.now() - (Date.now() % 60000);
+    for (let i = 0; i < 25; i++) {
+      activeClient().send(klineMessage(minute - (25 - i) * 60000, 100000 + i * 10, true));
+    }
+    activeClient().send(tickerMessage(100250, 1000));
+    activeClient().send(tickerMessage(100250, 1000));
+    activeClient().send(tickerMessage(100300, 1001));
+    activeClient().send(tickerMessage(100350, 1002));
+    await sleep(300);
+
+    check('emits ticker, kline and data events', events.ticker === 4 && events.kline === 25 && events.data === 4);
+    check('computes indicators from kline buffer', service.getLatestIndicators()?.sma20 !== undefined);
+    check('skips duplicate ticks', manager.getStatus().persistence.skippedDuplicates === 1);
+
+    // Drop the connection from the server side and expect a reconnect
+    activeClient().terminate();
+    await sleep(1500);
+    check('reconnects after server drops connection', clients.length === 2 && events.disconnected === 1 && events.connected === 2);
+
+    // Go silent and expect the health check to recycle the connection
+    answerPings = false;
+    await sleep(2500);
+    answerPings = true;
+    check('health check detects stale connection', (events.health_check_failed || 0) >= 1 && clients.length >= 3);
+
+    await manager.flush();
+    const { persistence } = manager.getStatus();
+    if (priceRowsBefore !== null) {
+      const priceRowsAfter = await prisma.bitcoinPrice.count({ where: { source: 'binance' } });
+      check('persists batched ticks into BitcoinPrice', priceRowsAfter - priceRowsBefore === 3 && persistence.persisted === 3);
+    } else {
+      check('attempts batched persistence', persistence.persisted + persistence.failedWrites > 0);
+    }
+  } finally {
+    await manager.stop();
+    server.close();
+    await prisma.$disconnect().catch(() => undefined);
+  }
+
+  const failed = results.filter((result) => !result.passed);
+  console.log(`\n${failed.length === 0 ? '🎉' : '❌'} ${results.length - failed.length}/${results.length} checks passed`);
+  process.exit(failed.length === 0 ? 0 : 1);
+}
+
+// Run the test if this file is executed directly
+if (require.main === module) {
+  testWebSocketPersistence().catch((error) => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
+
+export { testWebSocketPersistence };
@@ -0,0 +1,390 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { KeyRound, Laptop, Lock, LogOut, Mail, ShieldCheck, User } from 'lucide-react';
+import Navbar from '@/components/Navbar';
+import { apiClient } from '@/lib/hooks/use-api';
+import type { ApiKeyScope, ApiKeySummary, AuthUser, SessionSummary } from '@/types/auth';
+
+const formatDate = (value: Date | string) => new Date(value).toLocaleString('ko-KR');
+
+const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  'read:portfolio': '포트폴리오·주문 조회',
+  trade: '매매·주문',
+  'read:notes': '트레이딩 노트 조회',
+  'notes:write': '트레이딩 노트 작성',
+  'read:watchlist': '관심종목 조회',
+  'watchlist:write': '관심종목 편집',
+  'manage:agents': '에이전트 관리'
+};
+
+export default function AccountPage() {
+  const router = useRouter();
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [apiKeys, setApiKeys] = useState<ApiKeySummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [changingPassword, setChangingPassword] = useState(false);
+
+  const [keyName, setKeyName] = useState('');
+  const [keyScopes, setKeyScopes] = useState<ApiKeyScope[]>(['read:portfolio']);
+  const [keyRateLimit, setKeyRateLimit] = useState(60);
+  const [createdKey, setCreatedKey] = useState('');
+
+  const loadAccount = useCallback(async () => {
+    try {
+      const [me, sessionList, keyList] = await Promise.all([
+        apiClient.getCurrentUser(),
+        apiClient.getSessions(),
+        apiClient.getApiKeys()
+      ]);
+      setUser(me.user);
+      setSessions(sessionList.data);
+      setApiKeys(keyList.data);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '계정 정보를 불러오지 못했습니다.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAccount();
+  }, [loadAccount]);
+
+  const revokeSession = async (session: SessionSummary) => {
+    try {
+      await apiClient.revokeSession(session.id);
+      if (session.current) {
+        router.push('/login');
+        return;
+      }
+      setNotice(`${session.device} 세션을 종료했습니다.`);
+      await loadAccount();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '세션을 종료하지 못했습니다.');
+    }
+  };
+
+  const revokeOtherSessions = async () => {
+    try {
+      const result = await apiClient.revokeOtherSessions();
+      setNotice(`다른 기기 ${result.revoked}곳에서 로그아웃했습니다.`);
+      await loadAccount();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '세션을 종료하지 못했습니다.');
+    }
+  };
+
+  const changePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setChangingPassword(true);
+    setError('');
+    setNotice('');
+
+    try {
+      await apiClient.changePassword(currentPassword, newPassword);
+      setCurrentPassword('');
+      setNewPassword('');
+      setNotice('비밀번호를 변경했습니다. 다른 기기에서는 모두 로그아웃되었습니다.');
+      await loadAccount();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '비밀번호를 변경하지 못했습니다.');
+    } finally {
+      setChangingPassword(false);
+    }
+  };
+
+  const toggleKeyScope = (scope: ApiKeyScope) => {
+    setKeyScopes((scopes) => scopes.includes(scope) ? scopes.filter((s) => s !== scope) : [...scopes, scope]);
+  };
+
+  const createApiKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setNotice('');
+    try {
+      const result = await apiClient.createApiKey({ name: keyName, scopes: keyScopes, rateLimitPerMinute: keyRateLimit });
+      setCreatedKey(result.key);
+      setKeyName('');
+      await loadAccount();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'API 키를 만들지 못했습니다.');
+    }
+  };
+
+  const revokeApiKey = async (apiKey: ApiKeySummary) => {
+    try {
+      await apiClient.revokeApiKey(apiKey.id);
+      setNotice(`API 키 "${apiKey.name}"을(를) 폐기했습니다.`);
+      await loadAccount();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'API 키를 폐기하지 못했습니다.');
+    }
+  };
+
+  const resendVerification = async () => {
+    setError('');
+    setNotice('');
+    try {
+      await apiClient.resendVerificationEmail();
+      setNotice(`${user?.email} 주소로 인증 메일을 다시 보냈습니다.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '인증 메일을 보내지 못했습니다.');
+    }
+  };
+
+  const logout = async () => {
+    await apiClient.logout().catch(() => undefined);
+    router.push('/login');
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">계정</h1>
+            {user && (
+              <p className="text-gray-700 mt-1">
+                {user.username} · {user.email} · 레벨 {user.gameLevel}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={logout}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 text-gray-800 hover:bg-gray-100"
+          >
+            <LogOut className="h-4 w-4" />
+            로그아웃
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-700 text-sm">{error}</div>
+        )}
+        {notice && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-green-700 text-sm">{notice}</div>
+        )}
+
+        {user && !user.emailVerified && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-center justify-between">
+            <p className="text-yellow-800 text-sm flex items-center gap-2">
+              <Mail className="h-4 w-4" />
+              이메일 주소가 아직 인증되지 않았습니다. 메일함에서 인증 링크를 열어주세요.
+            </p>
+            <button
+              onClick={resendVerification}
+              className="text-sm px-3 py-1.5 rounded-lg border border-yellow-300 text-yellow-800 hover:bg-yellow-100"
+            >
+              인증 메일 다시 보내기
+            </button>
+          </div>
+        )}
+
+        {/* Sessions */}
+        <section className="bg-white rounded-xl shadow-sm border p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5 text-purple-600" />
+              로그인된 기기
+            </h2>
+            {sessions.length > 1 && (
+              <button
+                onClick={revokeOtherSessions}
+                className="text-sm text-red-600 hover:text-red-700 font-medium"
+              >
+                다른 기기 모두 로그아웃
+              </button>
+            )}
+          </div>
+
+          {loading ? (
+            <p className="text-gray-700">불러오는 중...</p>
+          ) : (
+            <ul className="divide-y">
+              {sessions.map((session) => (
+                <li key={session.id} className="py-3 flex items-center justify-between">
+                  <div className="flex items-start gap-3">
+                    <Laptop className="h-5 w-5 text-gray-700 mt-0.5" />
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {session.device}
+                        {session.current && (
+                          <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-purple-100 text-purple-700">
+                            현재 세션
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-sm text-gray-700">
+                        {session.ipAddress ?? 'IP 알 수 없음'} · 최근 사용 {formatDate(session.lastUsedAt)} · 로그인 {formatDate(session.createdAt)}
+                      </p>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => revokeSession(session)}
+                    className="text-sm px-3 py-1.5 rounded-lg border border-gray-300 text-gray-800 hover:bg-gray-100"
+                  >
+                    {session.current ? '로그아웃' : '세션 종료'}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {/* API keys */}
+        <section className="bg-white rounded-xl shadow-sm border p-6">
+          <h2 className="text-xl font-semibold text-gray-900 flex items-center gap-2 mb-1">
+            <KeyRound className="h-5 w-5 text-purple-600" />
+            API 키
+          </h2>
+          <p className="text-sm text-gray-700 mb-4">
+            스크립트나 봇에서 <code className="px-1 bg-gray-100 rounded">Authorization: Bearer &lt;키&gt;</code> 헤더로 사용합니다.
+          </p>
+
+          {createdKey && (
+            <div className="mb-4 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+              <p className="text-sm text-yellow-800 mb-1">새 API 키입니다. 지금 복사해두세요. 다시 표시되지 않습니다.</p>
+              <code className="block break-all text-sm text-gray-900">{createdKey}</code>
+            </div>
+          )}
+
+          {apiKeys.length > 0 && (
+            <ul className="divide-y mb-4">
+              {apiKeys.map((apiKey) => (
+                <li key={apiKey.id} className="py-3 flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {apiKey.name} <span className="text-sm text-gray-700 font-mono">{apiKey.prefix}…</span>
+                    </p>
+                    <p className="text-sm text-gray-700">
+                      {apiKey.scopes.map((scope) => SCOPE_LABELS[scope]).join(', ')} · 분당 {apiKey.rateLimitPerMinute}회 ·{' '}
+                      {apiKey.lastUsedAt ? `최근 사용 ${formatDate(apiKey.lastUsedAt)}` : '사용 기록 없음'}
+                      {apiKey.expiresAt && ` · 만료 ${formatDate(apiKey.expiresAt)}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => revokeApiKey(apiKey)}
+                    className="text-sm px-3 py-1.5 rounded-lg border border-gray-300 text-gray-800 hover:bg-gray-100"
+                  >
+                    폐기
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={createApiKey} className="space-y-3 max-w-md">
+            <div>
+              <label htmlFor="keyName" className="block text-sm font-medium text-gray-800 mb-1">
+                이름
+              </label>
+              <input
+                id="keyName"
+                name="keyName"
+                value={keyName}
+                onChange={(e) => setKeyName(e.target.value)}
+                placeholder="예: 그리드 매매 봇"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            </div>
+            <fieldset>
+              <legend className="block text-sm font-medium text-gray-800 mb-1">권한</legend>
+              <div className="grid grid-cols-2 gap-1">
+                {(Object.keys(SCOPE_LABELS) as ApiKeyScope[]).map((scope) => (
+                  <label key={scope} className="flex items-center gap-2 text-sm text-gray-800">
+                    <input
+                      type="checkbox"
+                      checked={keyScopes.includes(scope)}
+                      onChange={() => toggleKeyScope(scope)}
+                    />
+                    {SCOPE_LABELS[scope]}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+            <div>
+              <label htmlFor="keyRateLimit" className="block text-sm font-medium text-gray-800 mb-1">
+                분당 요청 한도
+              </label>
+              <input
+                id="keyRateLimit"
+                name="keyRateLimit"
+                type="number"
+                min={1}
+                max={600}
+                value={keyRateLimit}
+                onChange={(e) => setKeyRateLimit(Number(e.target.value))}
+                className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={!keyName.trim() || keyScopes.length === 0}
+              className="px-4 py-2 rounded-lg bg-purple-600 text-white font-medium hover:bg-purple-700 disabled:opacity-50"
+            >
+              API 키 만들기
+            </button>
+          </form>
+        </section>
+
+        {/* Password */}
+        <section className="bg-white rounded-xl shadow-sm border p-6">
+          <h2 className="text-xl font-semibold text-gray-900 flex items-center gap-2 mb-4">
+            <Lock className="h-5 w-5 text-purple-600" />
+            비밀번호 변경
+          </h2>
+          <form onSubmit={changePassword} className="space-y-4 max-w-md">
+            <div>
+              <label htmlFor="currentPassword" className="block text-sm font-medium text-gray-800 mb-1">
+                현재 비밀번호
+              </label>
+              <input
+                id="currentPassword"
+                name="currentPassword"
+                type="password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="newPassword" className="block text-sm font-medium text-gray-800 mb-1">
+                새 비밀번호 (8자 이상)
+              </label>
+              <input
+                id="newPassword"
+                name="newPassword"
+                type="password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            </div>
+            <p className="text-xs text-gray-700 flex items-center gap-1">
+              <User className="h-3 w-3" />
+              변경하면 이 기기를 제외한 모든 기기에서 로그아웃됩니다.
+            </p>
+            <button
+              type="submit"
+              disabled={changingPassword || !currentPassword || !newPassword}
+              className="px-4 py-2 rounded-lg bg-purple-600 text-white font-medium hover:bg-purple-700 disabled:opacity-50"
+            >
+              {changingPassword ? '변경 중...' : '비밀번호 변경'}
+            </button>
+          </form>
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -30,8 +30,9 @@ import {
 import TradingHistory from '@/components/trading/TradingHistory';
 import PerformanceMetricsComponent from '@/components/trading/PerformanceMetrics';
 import EnhancedPromptsViewer from '@/components/trading/EnhancedPromptsViewer';
-import { generateMockTradingHistory, generateMockPerformanceMetrics, generateMockAgentPrompts } from '@/lib/utils/mock-trading-data';
-import { TradingHistoryItem, PerformanceMetrics, AgentPrompt } from '@/types/trading';
+import { generateMockAgentPrompts } from '@/lib/utils/mock-trading-data';
+import { TradingHistoryItem, PerformanceMetrics, HeatmapData } from '@/types/trading';
+import { PatternPerformance } from '@/types/game';
 
 interface Pattern {
   id: string;
@@ -42,6 +43,7 @@ interface Pattern {
   examples: string[];
   isActive: boolean;
   createdAt: string;
+  performance?: PatternPerformance;
 }
 
 interface WatchlistItem {
@@ -53,6 +55,8 @@ interface WatchlistItem {
   agentView: string;
   alertPrice?: number;
   alertType?: string;
+  currentPrice?: number;
+  priceChange24h?: number;
   addedAt: string;
   lastReviewedAt: string;
 }
@@ -152,9 +156,10 @@ export default function AgentProfilePage() {
   const [activeTab, setActiveTab] = useState<'overview' | 'trading' | 'performance' | 'patterns' | 'watchlist' | 'prompt' | 'enhanced-prompts'>('overview');
   const [copiedPrompt, setCopiedPrompt] = useState(false);
   
-  // Generate mock data for new features
-  const tradingHistory = useMemo(() => generateMockTradingHistory(100), []);
-  const performanceMetrics = useMemo(() => generateMockPerformanceMetrics(tradingHistory), [tradingHistory]);
+  const [tradingHistory, setTradingHistory] = useState<TradingHistoryItem[]>([]);
+  const [performance, setPerformance] = useState<{ metrics: PerformanceMetrics; heatmap: HeatmapData[] } | null>(null);
+  const [tradingError, setTradingError] = useState('');
+  const [needsSignIn, setNeedsSignIn] = useState(false);
   const agentPrompts = useMemo(() => generateMockAgentPrompts(agentId), [agentId]);
 
   const fetchAgent = useCallback(async () => {
@@ -176,10 +181,42 @@ export default function AgentProfilePage() {
     }
   }, [agentId]);
 
+  const fetchTradingData = useCallback(async () => {
+    try {
+      const [tradesResponse, performanceResponse] = await Promise.all([
+        fetch(`/api/agents/${agentId}/trades`),
+        fetch(`/api/agents/${agentId}/performance`)
+      ]);
+      const [tradesData, performanceData] = await Promise.all([
+        tradesResponse.json(),
+        performanceResponse.json()
+      ]);
+
+      // Trades and performance are those of the signed-in user
+      setNeedsSignIn(tradesResponse.status === 401 || performanceResponse.status === 401);
+      if (tradesData.success) {
+        setTradingHistory(tradesData.data);
+      }
+      if (performanceData.success) {
+        setPerformance(performanceData.data);
+        setTradingError('');
+      } else {
+        setTradingError(performanceData.message || performanceData.error || '성과 데이터를 불러오지 못했습니다.');
+      }
+    } catch (err) {
+      setTradingError('네트워크 오류가 발생했습니다.');
+      console.error('Fetch agent trading data error:', err);
+    }
+  }, [agentId]);
+
   useEffect(() => {
     fetchAgent();
   }, [agentId, fetchAgent]);
 
+  useEffect(() => {
+    fetchTradingData();
+  }, [agentId, fetchTradingData]);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
@@ -423,6 +460,14 @@ export default function AgentProfilePage() {
                           <Target className="w-4 h-4 text-blue-500" />
                           <span>우선순위: {pattern.priority}</span>
                         </div>
+                        {pattern.performance && pattern.performance.totalTrades > 0 && (
+                          <div className="flex items-center space-x-2">
+                            <History className="w-4 h-4 text-purple-500" />
+                            <span>
+                              거래 {pattern.performance.totalTrades}회 · 승률 {pattern.performance.winRate}% · 평균 {pattern.performance.averageReturn >= 0 ? '+' : ''}{pattern.performance.averageReturn}%
+                            </span>
+                          </div>
+                        )}
                       </div>
                     </div>
                     <button className="p-2 text-gray-700 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors">
@@ -485,6 +530,16 @@ export default function AgentProfilePage() {
                         }`}>
                           {item.category}
                         </span>
+                        {item.currentPrice !== undefined && (
+                          <span className="text-lg font-bold text-gray-900">
+                            ${item.currentPrice.toLocaleString()}
+                            {item.priceChange24h !== undefined && (
+                              <span className={`ml-2 text-sm ${item.priceChange24h >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                {item.priceChange24h >= 0 ? '+' : ''}{item.priceChange24h.toFixed(2)}%
+                              </span>
+                            )}
+                          </span>
+                        )}
                         {item.alertPrice && (
                           <span className="px-3 py-1 text-sm bg-yellow-100 text-yellow-800 rounded-full flex items-center space-x-1">
                             <Zap className="w-3 h-3" />
@@ -717,13 +772,35 @@ export default function AgentProfilePage() {
               <h2 className="text-3xl font-bold text-gray-900">성과 분석</h2>
             </div>
             
-            <PerformanceMetricsComponent 
-              metrics={performanceMetrics}
-              onBenchmarkCompare={() => {
-                // Benchmark comparison functionality
-                console.log('Benchmark comparison requested');
-              }}
-            />
+            {performance ? (
+              <PerformanceMetricsComponent 
+                metrics={performance.metrics}
+                heatmap={performance.heatmap}
+                onBenchmarkCompare={() => {
+                  // Benchmark comparison functionality
+                  console.log('Benchmark comparison requested');
+                }}
+              />
+            ) : needsSignIn ? (
+              <div className="bg-white rounded-3xl p-12 shadow-lg text-center text-gray-800">
+                <p className="mb-6">로그인하면 이 에이전트가 내 계정으로 한 거래의 성과를 볼 수 있습니다.</p>
+                <Link
+                  href={`/login?next=${encodeURIComponent(`/agents/${agentId}`)}`}
+                  className="inline-flex items-center px-6 py-3 bg-gradient-to-r from-blue-500 to-indigo-500 text-white rounded-xl font-bold hover:from-blue-600 hover:to-indigo-600 transition-all shadow-lg hover:shadow-xl"
+                >
+                  로그인
+                </Link>
+              </div>
+            ) : tradingError ? (
+              <div className="bg-white rounded-3xl p-12 shadow-lg text-center text-gray-800">
+                <AlertTriangle className="h-10 w-10 text-red-500 mx-auto mb-4" />
+                {tradingError}
+              </div>
+            ) : (
+              <div className="bg-white rounded-3xl p-12 shadow-lg text-center text-gray-800">
+                성과 데이터를 불러오는 중...
+              </div>
+            )}
           </div>
         )}
 
@@ -0,0 +1,46 @@
+// API route for backtesting an agent over stored candles
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { backtestService } from '@/lib/services/backtest-service';
+import { TradingError } from '@/lib/services/paper-trading-service';
+import { BacktestInputSchema } from '@/lib/validation/backtest-schemas';
+
+// POST /api/agents/[id]/backtest - Replay a candle range through the agent
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const input = BacktestInputSchema.parse(await request.json());
+
+    const result = await backtestService.runBacktest(id, input);
+
+    return NextResponse.json({
+      success: true,
+      message: `Backtest completed with ${result.trades.length} trades`,
+      data: result
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid backtest request', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof TradingError) {
+      return NextResponse.json(
+        { success: false, code: error.code, message: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Backtest API error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to run backtest' },
+      { status: 500 }
+    );
+  }
+}
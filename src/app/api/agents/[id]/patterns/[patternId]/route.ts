@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/database/prisma-client';
+import { patternPerformanceService } from '@/lib/services/pattern-performance-service';
+import { PatternRuleSchema } from '@/lib/validation/pattern-schemas';
+import { getCurrentUser, unauthorizedResponse } from '@/lib/auth/current-user';
+import { checkAgentWrite } from '@/lib/auth/agent-access';
 
 // Validation schema for pattern updates
 const patternUpdateSchema = z.object({
@@ -9,6 +13,8 @@ const patternUpdateSchema = z.object({
   priority: z.number().int().min(1).max(10).optional(),
   confidenceRate: z.number().min(0).max(100).optional(),
   examples: z.array(z.string()).optional(),
+  rule: PatternRuleSchema.nullable().optional(),
+  direction: z.enum(['BUY', 'SELL']).optional(),
   isActive: z.boolean().optional(),
 });
 
@@ -44,9 +50,10 @@ export async function GET(
       );
     }
 
-    // Parse examples JSON string back to array
+    // Parse examples JSON string back to array and attach trade outcomes
+    const [patternWithPerformance] = await patternPerformanceService.withPerformance([pattern]);
     const patternWithParsedExamples = {
-      ...pattern,
+      ...patternWithPerformance,
       examples: JSON.parse(pattern.examples)
     };
 
@@ -70,7 +77,16 @@ export async function PUT(
   { params }: { params: Promise<{ id: string; patternId: string }> }
 ) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const { id: agentId, patternId } = await params;
+    const denied = await checkAgentWrite(user, agentId);
+    if (denied) {
+      return denied;
+    }
     const body = await request.json();
 
     // Validate request body
@@ -107,12 +123,18 @@ export async function PUT(
     if (data.examples) {
       updateData.examples = JSON.stringify(data.examples);
     }
+    if (data.confidenceRate !== undefined) {
+      updateData.priorConfidence = data.confidenceRate;
+    }
 
-    // Update the pattern
-    const updatedPattern = await prisma.pattern.update({
+    // Update the pattern, then re-apply trade outcomes to a changed prior
+    let updatedPattern = await prisma.pattern.update({
       where: { id: patternId },
       data: updateData
     });
+    if (data.confidenceRate !== undefined) {
+      updatedPattern = (await patternPerformanceService.recalculate(patternId)) ?? updatedPattern;
+    }
 
     // Return pattern with parsed examples
     const patternWithParsedExamples = {
@@ -140,7 +162,16 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string; patternId: string }> }
 ) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const { id: agentId, patternId } = await params;
+    const denied = await checkAgentWrite(user, agentId);
+    if (denied) {
+      return denied;
+    }
 
     // Check if pattern exists and belongs to the agent
     const existingPattern = await prisma.pattern.findFirst({
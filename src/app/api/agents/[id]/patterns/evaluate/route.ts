@@ -0,0 +1,55 @@
+// API route for trying pattern rules against stored candles
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { PatternRuleError } from '@/lib/patterns/pattern-rules';
+import { patternRuleService } from '@/lib/services/pattern-rule-service';
+import { TradingError } from '@/lib/services/paper-trading-service';
+import { PatternRuleEvaluationSchema } from '@/lib/validation/pattern-schemas';
+
+// POST /api/agents/[id]/patterns/evaluate - Find where a rule (or a stored pattern's rule) triggered
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const input = PatternRuleEvaluationSchema.parse(await request.json());
+
+    const result = await patternRuleService.evaluate(id, input);
+
+    return NextResponse.json({
+      success: true,
+      message: `Rule triggered ${result.triggers.length} times over ${result.candleCount} candles`,
+      data: result
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid rule evaluation request', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    // A stored rule that no longer parses
+    if (error instanceof PatternRuleError) {
+      return NextResponse.json(
+        { success: false, code: 'INVALID_PATTERN_RULE', message: error.message },
+        { status: 422 }
+      );
+    }
+
+    if (error instanceof TradingError) {
+      return NextResponse.json(
+        { success: false, code: error.code, message: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Pattern rule API error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to evaluate pattern rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/database/prisma-client';
+import { patternPerformanceService } from '@/lib/services/pattern-performance-service';
+import { PatternRuleSchema } from '@/lib/validation/pattern-schemas';
+import { getCurrentUser, unauthorizedResponse } from '@/lib/auth/current-user';
+import { checkAgentWrite } from '@/lib/auth/agent-access';
 
 // Validation schema for pattern creation/update
 const patternSchema = z.object({
@@ -9,6 +13,8 @@ const patternSchema = z.object({
   priority: z.number().int().min(1).max(10).default(5),
   confidenceRate: z.number().min(0).max(100).default(0),
   examples: z.array(z.string()).default([]),
+  rule: PatternRuleSchema.nullable().optional(),
+  direction: z.enum(['BUY', 'SELL']).default('BUY'),
   isActive: z.boolean().default(true),
 });
 
@@ -41,8 +47,8 @@ export async function GET(
       ]
     });
 
-    // Parse examples JSON strings back to arrays
-    const patternsWithParsedExamples = patterns.map(pattern => ({
+    // Parse examples JSON strings back to arrays and attach trade outcomes
+    const patternsWithParsedExamples = (await patternPerformanceService.withPerformance(patterns)).map(pattern => ({
       ...pattern,
       examples: JSON.parse(pattern.examples)
     }));
@@ -67,7 +73,16 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const { id: agentId } = await params;
+    const denied = await checkAgentWrite(user, agentId);
+    if (denied) {
+      return denied;
+    }
     const body = await request.json();
 
     // Validate request body
@@ -96,10 +111,11 @@ export async function POST(
       );
     }
 
-    // Create the pattern
+    // Create the pattern; the stated confidence is the prior until trades come in
     const pattern = await prisma.pattern.create({
       data: {
         ...data,
+        priorConfidence: data.confidenceRate,
         agentId,
         examples: JSON.stringify(data.examples)
       }
@@ -0,0 +1,41 @@
+// API route for an agent's performance metrics
+
+import { NextRequest, NextResponse } from 'next/server';
+import { agentMetricsService } from '@/lib/services/agent-metrics-service';
+import { TradingError } from '@/lib/services/paper-trading-service';
+import { getCurrentUser, unauthorizedResponse } from '@/lib/auth/current-user';
+
+// GET /api/agents/[id]/performance - Metrics and monthly heatmap from the agent's trades
+// for the signed-in user
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id } = await params;
+    const performance = await agentMetricsService.getPerformance(id, user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: performance
+    });
+  } catch (error) {
+    if (error instanceof TradingError) {
+      return NextResponse.json(
+        { success: false, code: error.code, message: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Agent performance API error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to calculate agent performance' },
+      { status: 500 }
+    );
+  }
+}
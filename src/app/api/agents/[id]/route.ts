@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { patternPerformanceService } from '@/lib/services/pattern-performance-service';
+import { marketDataService } from '@/lib/services/market-data-service';
+import { getCurrentUser, unauthorizedResponse } from '@/lib/auth/current-user';
+import { checkAgentWrite } from '@/lib/auth/agent-access';
 
 const prisma = new PrismaClient();
 
@@ -30,11 +34,17 @@ export async function GET(
       );
     }
 
-    // Parse strategy field and pattern examples
+    // Parse strategy field and pattern examples, with each pattern's trade outcomes
+    // and current prices for the watchlist
+    const [patterns, watchlistItems] = await Promise.all([
+      patternPerformanceService.withPerformance(agent.patterns),
+      marketDataService.withQuotes(agent.watchlistItems)
+    ]);
     const processedAgent = {
       ...agent,
+      watchlistItems,
       strategy: typeof agent.strategy === 'string' ? JSON.parse(agent.strategy) : agent.strategy,
-      patterns: agent.patterns.map(pattern => ({
+      patterns: patterns.map(pattern => ({
         ...pattern,
         examples: JSON.parse(pattern.examples)
       }))
@@ -59,7 +69,16 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const { id } = await params;
+    const denied = await checkAgentWrite(user, id);
+    if (denied) {
+      return denied;
+    }
     const body = await request.json();
     const { name, personality, strategy, description } = body;
 
@@ -101,7 +120,16 @@ export async function PATCH(
   { params }: { params: { id: string } }
 ) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const { id } = await params;
+    const denied = await checkAgentWrite(user, id);
+    if (denied) {
+      return denied;
+    }
     const body = await request.json();
     const { isActive } = body;
 
@@ -140,7 +168,16 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const { id } = await params;
+    const denied = await checkAgentWrite(user, id);
+    if (denied) {
+      return denied;
+    }
 
     await prisma.agent.delete({
       where: { id }
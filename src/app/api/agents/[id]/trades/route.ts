@@ -0,0 +1,98 @@
+// API routes for an agent's executed trades
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/database/prisma-client';
+import { agentTradeService } from '@/lib/services/agent-trade-service';
+import { AgentNotFoundError } from '@/lib/services/backtest-service';
+import { TradingError } from '@/lib/services/paper-trading-service';
+import { AgentDecisionSchema } from '@/lib/validation/agent-trade-schemas';
+import { getCurrentUser, unauthorizedResponse } from '@/lib/auth/current-user';
+
+function errorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { success: false, message: 'Invalid input', details: error.issues },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof SyntaxError) {
+    return NextResponse.json(
+      { success: false, message: 'Request body is not valid JSON' },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof TradingError) {
+    return NextResponse.json(
+      { success: false, code: error.code, message: error.message },
+      { status: error.status }
+    );
+  }
+
+  console.error('Agent trades API error:', error);
+  return NextResponse.json(
+    { success: false, message: fallbackMessage },
+    { status: 500 }
+  );
+}
+
+// GET /api/agents/[id]/trades - The signed-in user's trade history with the agent, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '500') || 500, 1000);
+
+    const agent = await prisma.agent.findUnique({ where: { id }, select: { id: true } });
+    if (!agent) {
+      throw new AgentNotFoundError(id);
+    }
+
+    const trades = await agentTradeService.getTradeHistory(id, user.id, limit);
+
+    return NextResponse.json({
+      success: true,
+      data: trades
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch agent trades');
+  }
+}
+
+// POST /api/agents/[id]/trades - Execute the agent's current decision on the signed-in user's
+// paper portfolio, optionally attributed to one of its patterns
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id } = await params;
+    const body = await request.text();
+    const { patternId } = AgentDecisionSchema.parse(body ? JSON.parse(body) : {});
+
+    const result = await agentTradeService.executeDecision(id, { userId: user.id, patternId });
+
+    return NextResponse.json({
+      success: true,
+      message: result.message,
+      data: result
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to execute agent decision');
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/database/prisma-client';
+import { getCurrentUser, unauthorizedResponse } from '@/lib/auth/current-user';
+import { checkAgentWrite } from '@/lib/auth/agent-access';
 
 // Validation schema for watchlist item updates
 const watchlistItemUpdateSchema = z.object({
@@ -66,7 +68,16 @@ export async function PUT(
   { params }: { params: Promise<{ id: string; itemId: string }> }
 ) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const { id: agentId, itemId } = await params;
+    const denied = await checkAgentWrite(user, agentId);
+    if (denied) {
+      return denied;
+    }
     const body = await request.json();
 
     // Validate request body
@@ -145,7 +156,16 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string; itemId: string }> }
 ) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const { id: agentId, itemId } = await params;
+    const denied = await checkAgentWrite(user, agentId);
+    if (denied) {
+      return denied;
+    }
 
     // Check if watchlist item exists and belongs to the agent
     const existingItem = await prisma.agentWatchlistItem.findFirst({
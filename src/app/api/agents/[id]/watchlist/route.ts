@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/database/prisma-client';
+import { marketDataService } from '@/lib/services/market-data-service';
+import { getCurrentUser, unauthorizedResponse } from '@/lib/auth/current-user';
+import { checkAgentWrite } from '@/lib/auth/agent-access';
 
 // Validation schema for watchlist item creation/update
 const watchlistItemSchema = z.object({
@@ -56,7 +59,7 @@ export async function GET(
 
     return NextResponse.json({
       success: true,
-      watchlistItems
+      watchlistItems: await marketDataService.withQuotes(watchlistItems)
     });
 
   } catch (error) {
@@ -74,7 +77,16 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const { id: agentId } = await params;
+    const denied = await checkAgentWrite(user, agentId);
+    if (denied) {
+      return denied;
+    }
     const body = await request.json();
 
     // Validate request body
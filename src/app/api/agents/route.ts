@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { getCurrentUser, unauthorizedResponse } from '@/lib/auth/current-user';
 
 const prisma = new PrismaClient();
 
@@ -48,6 +49,11 @@ export async function GET(request: NextRequest) {
 // POST - 새 에이전트 생성
 export async function POST(request: NextRequest) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const body = await request.json();
     const { name, type, personality, strategy, description } = body;
 
@@ -76,7 +82,8 @@ export async function POST(request: NextRequest) {
         type,
         personality,
         strategy: JSON.stringify(strategy),
-        description
+        description,
+        ownerId: user.id
       }
     });
 
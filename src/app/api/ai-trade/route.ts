@@ -1,15 +1,21 @@
 // API route for AI trading decisions
 
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { aiTradingAgent } from '@/lib/services/ai-trading-agent';
+import { getCurrentUser, unauthorizedResponse } from '@/lib/auth/current-user';
 
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     // AI 분석 및 결정
-    const decision = await aiTradingAgent.analyzeAndDecide();
+    const decision = await aiTradingAgent.analyzeAndDecide(user.id);
     
     // 거래 실행
-    const result = await aiTradingAgent.executeTradingDecision(decision);
+    const result = await aiTradingAgent.executeTradingDecision(user.id, decision);
 
     return NextResponse.json({
       success: true,
@@ -31,9 +37,14 @@ export async function POST() {
 }
 
 // GET endpoint for analysis only (no trading)
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const decision = await aiTradingAgent.analyzeAndDecide();
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const decision = await aiTradingAgent.analyzeAndDecide(user.id);
 
     return NextResponse.json({
       success: true,
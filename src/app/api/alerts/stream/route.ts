@@ -0,0 +1,75 @@
+// Price alerts over Server-Sent Events
+// Frames carry the alert id, so a reconnecting EventSource resumes via Last-Event-ID.
+
+import { NextRequest } from 'next/server';
+import { priceAlertService } from '@/lib/services/price-alert-service';
+import { getCurrentUser } from '@/lib/auth/current-user';
+import type { PriceAlertEvent } from '@/types/alerts';
+
+const KEEP_ALIVE_MS = 15000;
+
+// GET /api/alerts/stream?agentId=... - Stream fired price alerts
+// User watchlist alerts only reach the signed-in owner; agentId limits agent alerts to that agent
+export async function GET(request: NextRequest) {
+  const searchParams = new URL(request.url).searchParams;
+  const userId = (await getCurrentUser(request))?.id;
+  const agentId = searchParams.get('agentId');
+  const lastEventId = parseInt(
+    request.headers.get('last-event-id') || searchParams.get('lastEventId') || '0'
+  ) || 0;
+
+  const matches = (event: PriceAlertEvent) =>
+    event.target === 'watchlist'
+      ? !!userId && event.ownerId === userId
+      : !agentId || event.ownerId === agentId;
+
+  priceAlertService.start();
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const body = new ReadableStream({
+    start(controller) {
+      const send = (frame: string) => {
+        try {
+          controller.enqueue(encoder.encode(frame));
+        } catch {
+          cleanup();
+        }
+      };
+
+      send(`data: ${JSON.stringify({ type: 'connected', timestamp: Date.now() })}\n\n`);
+
+      const unsubscribe = priceAlertService.subscribe((event) => {
+        if (matches(event)) {
+          send(`id: ${event.id}\ndata: ${JSON.stringify({ type: 'alert', alert: event })}\n\n`);
+        }
+      }, lastEventId);
+      const keepAlive = setInterval(() => send(': keep-alive\n\n'), KEEP_ALIVE_MS);
+
+      cleanup = () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+      };
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
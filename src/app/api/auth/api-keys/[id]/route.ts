@@ -0,0 +1,35 @@
+// API route to revoke one of the signed-in user's API keys
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, unauthorizedResponse } from '@/lib/auth/current-user';
+import { apiKeyService } from '@/lib/services/api-key-service';
+
+// DELETE /api/auth/api-keys/[id] - Requests with the key fail from now on
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id } = await params;
+    const revoked = await apiKeyService.revokeKey(user.id, id);
+    if (!revoked) {
+      return NextResponse.json(
+        { success: false, code: 'API_KEY_NOT_FOUND', message: 'API key not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'API key revoked' });
+  } catch (error) {
+    console.error('Revoke API key API error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+// API routes for the signed-in user's API keys
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentUser, unauthorizedResponse } from '@/lib/auth/current-user';
+import { API_KEY_SCOPES } from '@/lib/auth/api-key-scopes';
+import { ApiKeyError, apiKeyService } from '@/lib/services/api-key-service';
+
+const CreateApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  rateLimitPerMinute: z.number().int().min(1).max(600).optional(),
+  expiresInDays: z.number().int().min(1).max(365).optional()
+});
+
+// GET /api/auth/api-keys - Active keys, without the keys themselves
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const apiKeys = await apiKeyService.listKeys(user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: apiKeys,
+      count: apiKeys.length
+    });
+  } catch (error) {
+    console.error('List API keys API error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/auth/api-keys - Create a key; the response is the only place the key appears
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const parsed = CreateApiKeySchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid API key data', details: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { key, apiKey } = await apiKeyService.createKey(user.id, parsed.data);
+
+    return NextResponse.json({
+      success: true,
+      message: 'API key created. Copy it now; it will not be shown again.',
+      data: apiKey,
+      key
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json(
+        { success: false, code: error.code, message: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Create API key API error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+// API route to request a password reset email
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authService } from '@/lib/services/auth-service';
+
+const ForgotPasswordSchema = z.object({
+  email: z.string().trim().min(1)
+});
+
+// POST /api/auth/forgot-password - Email a reset link; answers the same for unknown addresses
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = ForgotPasswordSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, message: 'email is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await authService.requestPasswordReset(parsed.data.email);
+
+    return NextResponse.json({
+      success: true,
+      message: result.message
+    });
+  } catch (error) {
+    console.error('Forgot password API error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,25 +1,25 @@
 // API route for user logout
 
 import { NextRequest, NextResponse } from 'next/server';
+import { authService } from '@/lib/services/auth-service';
+import { AUTH_COOKIE, REFRESH_COOKIE, clearAuthCookies, verifyAuthToken } from '@/lib/auth/tokens';
 
 export async function POST(request: NextRequest) {
   try {
-    // Create response
-    const response = NextResponse.json({
-      success: true,
-      message: 'Logged out successfully'
-    });
+    // The access token may already have expired; the refresh token still names the session
+    const accessToken = request.cookies.get(AUTH_COOKIE)?.value;
+    const payload = accessToken ? verifyAuthToken(accessToken) : null;
 
-    // Remove auth token cookie
-    response.cookies.set('auth-token', '', {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 0, // Expire immediately
-      path: '/'
+    const result = await authService.logout({
+      sessionId: payload?.sid,
+      userId: payload?.userId,
+      refreshToken: request.cookies.get(REFRESH_COOKIE)?.value
     });
 
-    return response;
+    return clearAuthCookies(NextResponse.json({
+      success: true,
+      message: result.message
+    }));
   } catch (error) {
     console.error('Logout API error:', error);
     return NextResponse.json(
@@ -27,4 +27,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
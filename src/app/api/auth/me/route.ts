@@ -1,23 +1,20 @@
-// API route to get current user from token
+// API route to get the signed-in user
 
 import { NextRequest, NextResponse } from 'next/server';
 import { authService } from '@/lib/services/auth-service';
+import { getCurrentUser } from '@/lib/auth/current-user';
 
 export async function GET(request: NextRequest) {
   try {
-    // Get token from cookie
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
+    const current = await getCurrentUser(request);
+    if (!current) {
       return NextResponse.json(
         { success: false, message: 'Not authenticated' },
         { status: 401 }
       );
     }
 
-    // Get user from token
-    const user = await authService.getUserFromToken(token);
-    
+    const user = await authService.getAuthUser(current.id);
     if (!user) {
       return NextResponse.json(
         { success: false, message: 'Invalid or expired token' },
@@ -36,4 +33,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
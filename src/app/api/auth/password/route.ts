@@ -0,0 +1,58 @@
+// API route to change the signed-in user's password
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authService } from '@/lib/services/auth-service';
+import { getCurrentUser, getSessionClientInfo, unauthorizedResponse } from '@/lib/auth/current-user';
+import { setAuthCookies } from '@/lib/auth/tokens';
+
+const ChangePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: z.string().min(1)
+});
+
+// POST /api/auth/password - Change the password; every session ends and this device gets a new one
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const parsed = ChangePasswordSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, message: 'currentPassword and newPassword are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await authService.changePassword(
+      user.id,
+      parsed.data.currentPassword,
+      parsed.data.newPassword,
+      getSessionClientInfo(request)
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: result.message },
+        { status: 400 }
+      );
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      message: result.message,
+      user: result.user
+    });
+
+    return setAuthCookies(response, { accessToken: result.token!, refreshToken: result.refreshToken });
+  } catch (error) {
+    console.error('Change password API error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
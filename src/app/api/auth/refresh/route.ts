@@ -0,0 +1,35 @@
+// API route to rotate the refresh token and issue a new access token
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionClientInfo } from '@/lib/auth/current-user';
+import { REFRESH_COOKIE, clearAuthCookies, setAuthCookies } from '@/lib/auth/tokens';
+import { SessionError, sessionService } from '@/lib/services/session-service';
+
+export async function POST(request: NextRequest) {
+  const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+  if (!refreshToken) {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_REFRESH_TOKEN', message: 'Not authenticated' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const tokens = await sessionService.refresh(refreshToken, getSessionClientInfo(request));
+
+    return setAuthCookies(NextResponse.json({ success: true, message: 'Session refreshed' }), tokens);
+  } catch (error) {
+    if (error instanceof SessionError) {
+      return clearAuthCookies(NextResponse.json(
+        { success: false, code: error.code, message: error.message },
+        { status: error.status }
+      ));
+    }
+
+    console.error('Refresh API error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,14 +2,15 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { authService } from '@/lib/services/auth-service';
-import { setCookie } from 'cookies-next';
+import { getSessionClientInfo } from '@/lib/auth/current-user';
+import { setAuthCookies } from '@/lib/auth/tokens';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     
     // Register user
-    const result = await authService.register(body);
+    const result = await authService.register(body, getSessionClientInfo(request));
     
     if (!result.success) {
       return NextResponse.json(
@@ -18,23 +19,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create response with token in cookie
+    // Access and refresh tokens go in httpOnly cookies
     const response = NextResponse.json({
       success: true,
       message: result.message,
       user: result.user
     });
 
-    // Set JWT token as httpOnly cookie
-    response.cookies.set('auth-token', result.token!, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 60 * 60 * 24 * 7, // 7 days
-      path: '/'
-    });
-
-    return response;
+    return setAuthCookies(response, { accessToken: result.token!, refreshToken: result.refreshToken });
   } catch (error) {
     console.error('Registration API error:', error);
     return NextResponse.json(
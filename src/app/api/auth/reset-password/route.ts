@@ -0,0 +1,45 @@
+// API route to set a new password from a password reset link
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authService } from '@/lib/services/auth-service';
+import { clearAuthCookies } from '@/lib/auth/tokens';
+
+const ResetPasswordSchema = z.object({
+  token: z.string().min(1),
+  newPassword: z.string().min(1)
+});
+
+// POST /api/auth/reset-password - Redeem the link's token; every session ends
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = ResetPasswordSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, message: 'token and newPassword are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await authService.resetPassword(parsed.data.token, parsed.data.newPassword);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, code: result.code, message: result.message },
+        { status: 400 }
+      );
+    }
+
+    // Sessions on this browser were revoked along with the rest
+    return clearAuthCookies(NextResponse.json({
+      success: true,
+      message: result.message
+    }));
+  } catch (error) {
+    console.error('Reset password API error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+// API route to revoke one of the signed-in user's sessions
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, unauthorizedResponse } from '@/lib/auth/current-user';
+import { clearAuthCookies } from '@/lib/auth/tokens';
+import { sessionService } from '@/lib/services/session-service';
+
+// DELETE /api/auth/sessions/[id]
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id } = await params;
+    const revoked = await sessionService.revokeSession(user.id, id);
+    if (!revoked) {
+      return NextResponse.json(
+        { success: false, code: 'SESSION_NOT_FOUND', message: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const response = NextResponse.json({ success: true, message: 'Session revoked' });
+
+    // Revoking the current session signs this device out
+    return id === user.sessionId ? clearAuthCookies(response) : response;
+  } catch (error) {
+    console.error('Revoke session API error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
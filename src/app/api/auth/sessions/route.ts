@@ -0,0 +1,53 @@
+// API routes for the signed-in user's sessions
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, unauthorizedResponse } from '@/lib/auth/current-user';
+import { sessionService } from '@/lib/services/session-service';
+
+// GET /api/auth/sessions - Active sessions, the current one flagged
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const sessions = await sessionService.listSessions(user.id, user.sessionId);
+
+    return NextResponse.json({
+      success: true,
+      data: sessions,
+      count: sessions.length
+    });
+  } catch (error) {
+    console.error('List sessions API error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/auth/sessions - Sign out every other device
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const revoked = await sessionService.revokeAllSessions(user.id, 'revoked', user.sessionId);
+
+    return NextResponse.json({
+      success: true,
+      message: `Signed out ${revoked} other session(s)`,
+      revoked
+    });
+  } catch (error) {
+    console.error('Revoke sessions API error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
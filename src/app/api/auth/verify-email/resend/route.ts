@@ -0,0 +1,41 @@
+// API route to send the signed-in user another verification email
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authService } from '@/lib/services/auth-service';
+import { getCurrentUser, unauthorizedResponse } from '@/lib/auth/current-user';
+
+const STATUS_BY_CODE: Record<string, number> = {
+  USER_NOT_FOUND: 404,
+  ALREADY_VERIFIED: 409,
+  TOO_MANY_REQUESTS: 429
+};
+
+// POST /api/auth/verify-email/resend - Send a new link; earlier links stop working
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const result = await authService.resendVerificationEmail(user.id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, code: result.code, message: result.message },
+        { status: (result.code && STATUS_BY_CODE[result.code]) || 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: result.message
+    });
+  } catch (error) {
+    console.error('Resend verification API error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+// API route to confirm an email address from a verification link
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authService } from '@/lib/services/auth-service';
+
+const VerifyEmailSchema = z.object({
+  token: z.string().min(1)
+});
+
+// POST /api/auth/verify-email - Redeem the link's token; works without being signed in
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = VerifyEmailSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, message: 'token is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await authService.verifyEmail(parsed.data.token);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, code: result.code, message: result.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: result.message,
+      user: result.user
+    });
+  } catch (error) {
+    console.error('Verify email API error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
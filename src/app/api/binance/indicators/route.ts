@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { candlesFromPrices, computeIndicators } from '@/lib/indicators/indicator-engine';
+import type { IndicatorCandle } from '@/types/indicators';
 
 interface BinanceTickerData {
   symbol: string;
@@ -39,91 +41,27 @@ interface BinanceKlineData {
   ignore: string;
 }
 
-// Technical Indicators Calculation Functions
-function calculateSMA(prices: number[], period: number): number | null {
-  if (prices.length < period) return null;
-  const sum = prices.slice(-period).reduce((a, b) => a + b, 0);
-  return sum / period;
-}
-
-function calculateRSI(prices: number[], period: number = 14): number | null {
-  if (prices.length < period + 1) return null;
-  
-  let gains = 0;
-  let losses = 0;
-  
-  for (let i = 1; i <= period; i++) {
-    const change = prices[prices.length - i] - prices[prices.length - i - 1];
-    if (change > 0) {
-      gains += change;
-    } else {
-      losses += Math.abs(change);
-    }
-  }
-  
-  const avgGain = gains / period;
-  const avgLoss = losses / period;
-  
-  if (avgLoss === 0) return 100;
-  
-  const rs = avgGain / avgLoss;
-  return 100 - (100 / (1 + rs));
-}
-
-function calculateMACD(prices: number[]): { macd: number | null; signal: number | null; histogram: number | null } {
-  if (prices.length < 26) {
-    return { macd: null, signal: null, histogram: null };
-  }
-  
-  // Calculate EMA 12 and EMA 26
-  const ema12 = calculateEMA(prices, 12);
-  const ema26 = calculateEMA(prices, 26);
-  
-  if (ema12 === null || ema26 === null) {
-    return { macd: null, signal: null, histogram: null };
-  }
-  
-  const macd = ema12 - ema26;
-  
-  // For simplicity, using SMA instead of EMA for signal line
-  const macdValues = [macd]; // In real implementation, you'd need more MACD values
-  const signal = macd; // Simplified
-  const histogram = macd - signal;
-  
-  return { macd, signal, histogram };
-}
-
-function calculateEMA(prices: number[], period: number): number | null {
-  if (prices.length < period) return null;
-  
-  const multiplier = 2 / (period + 1);
-  let ema = prices[prices.length - period];
-  
-  for (let i = prices.length - period + 1; i < prices.length; i++) {
-    ema = (prices[i] - ema) * multiplier + ema;
-  }
-  
-  return ema;
-}
-
-function calculateBollingerBands(prices: number[], period: number = 20, stdDev: number = 2): { upper: number | null; middle: number | null; lower: number | null } {
-  if (prices.length < period) {
-    return { upper: null, middle: null, lower: null };
-  }
-  
-  const middle = calculateSMA(prices, period);
-  if (middle === null) {
-    return { upper: null, middle: null, lower: null };
-  }
-  
-  const recentPrices = prices.slice(-period);
-  const variance = recentPrices.reduce((sum, price) => sum + Math.pow(price - middle, 2), 0) / period;
-  const standardDeviation = Math.sqrt(variance);
+// Technical indicators from the shared engine, in the shape this route returns
+function summarizeIndicators(candles: IndicatorCandle[]) {
+  const snapshot = computeIndicators(candles);
   
   return {
-    upper: middle + (standardDeviation * stdDev),
-    middle,
-    lower: middle - (standardDeviation * stdDev)
+    sma20: snapshot?.sma[20] ?? null,
+    rsi14: snapshot?.rsi ?? null,
+    macd: snapshot?.macd?.macd ?? null,
+    macdSignal: snapshot?.macd?.signal ?? null,
+    macdHistogram: snapshot?.macd?.histogram ?? null,
+    bollingerUpper: snapshot?.bollinger?.upper ?? null,
+    bollingerMiddle: snapshot?.bollinger?.middle ?? null,
+    bollingerLower: snapshot?.bollinger?.lower ?? null,
+    atr14: snapshot?.atr ?? null,
+    adx14: snapshot?.adx?.adx ?? null,
+    obv: snapshot?.obv ?? null,
+    vwap: snapshot?.vwap ?? null,
+    keltnerUpper: snapshot?.keltner?.upper ?? null,
+    keltnerLower: snapshot?.keltner?.lower ?? null,
+    donchianUpper: snapshot?.donchian?.upper ?? null,
+    donchianLower: snapshot?.donchian?.lower ?? null
   };
 }
 
@@ -181,13 +119,10 @@ function generateDemoData() {
   historicalPrices[historicalPrices.length - 1] = basePrice;
 
   // Calculate technical indicators
-  const sma20 = calculateSMA(historicalPrices, 20);
-  const rsi14 = calculateRSI(historicalPrices, 14);
-  const macdData = calculateMACD(historicalPrices);
-  const bollingerBands = calculateBollingerBands(historicalPrices, 20, 2);
+  const technicalIndicators = summarizeIndicators(candlesFromPrices(historicalPrices));
   
   // Generate trading signal
-  const signal = generateTradingSignal(basePrice, sma20, rsi14, macdData.macd);
+  const signal = generateTradingSignal(basePrice, technicalIndicators.sma20, technicalIndicators.rsi14, technicalIndicators.macd);
 
   return {
     symbol: 'BTC/USDT',
@@ -197,16 +132,7 @@ function generateDemoData() {
     volume24h,
     high24h,
     low24h,
-    technicalIndicators: {
-      sma20,
-      rsi14,
-      macd: macdData.macd,
-      macdSignal: macdData.signal,
-      macdHistogram: macdData.histogram,
-      bollingerUpper: bollingerBands.upper,
-      bollingerMiddle: bollingerBands.middle,
-      bollingerLower: bollingerBands.lower
-    },
+    technicalIndicators,
     tradingSignal: signal,
     lastUpdate: new Date().toISOString()
   };
@@ -238,18 +164,22 @@ export async function GET(request: NextRequest) {
     
     const klineData: BinanceKlineData[] = await klineResponse.json();
     
-    // Extract closing prices for technical analysis
-    const closingPrices = klineData.map(candle => parseFloat(candle.close));
+    // Daily candles for technical analysis
+    const candles: IndicatorCandle[] = klineData.map(candle => ({
+      time: candle.closeTime,
+      open: parseFloat(candle.open),
+      high: parseFloat(candle.high),
+      low: parseFloat(candle.low),
+      close: parseFloat(candle.close),
+      volume: parseFloat(candle.volume)
+    }));
     const currentPrice = parseFloat(tickerData.lastPrice);
     
     // Calculate technical indicators
-    const sma20 = calculateSMA(closingPrices, 20);
-    const rsi14 = calculateRSI(closingPrices, 14);
-    const macdData = calculateMACD(closingPrices);
-    const bollingerBands = calculateBollingerBands(closingPrices, 20, 2);
+    const technicalIndicators = summarizeIndicators(candles);
     
     // Generate trading signal
-    const signal = generateTradingSignal(currentPrice, sma20, rsi14, macdData.macd);
+    const signal = generateTradingSignal(currentPrice, technicalIndicators.sma20, technicalIndicators.rsi14, technicalIndicators.macd);
     
     // Calculate price change in dollars
     const priceChange = parseFloat(tickerData.priceChange);
@@ -263,16 +193,7 @@ export async function GET(request: NextRequest) {
       volume24h: parseFloat(tickerData.volume),
       high24h: parseFloat(tickerData.highPrice),
       low24h: parseFloat(tickerData.lowPrice),
-      technicalIndicators: {
-        sma20,
-        rsi14,
-        macd: macdData.macd,
-        macdSignal: macdData.signal,
-        macdHistogram: macdData.histogram,
-        bollingerUpper: bollingerBands.upper,
-        bollingerMiddle: bollingerBands.middle,
-        bollingerLower: bollingerBands.lower
-      },
+      technicalIndicators,
       tradingSignal: signal,
       lastUpdate: new Date().toISOString()
     };
@@ -7,6 +7,8 @@ import {
   analyzeTrend,
   PriceData 
 } from '@/lib/utils/technical-indicators';
+import { indicatorSeries } from '@/lib/indicators/indicator-engine';
+import { SMA } from '@/lib/indicators/streaming-indicators';
 
 export async function GET(request: NextRequest) {
   try {
@@ -75,16 +77,17 @@ export async function GET(request: NextRequest) {
     const priceChange = latestPrice.price - previousPrice.price;
     const priceChangePercentage = ((priceChange / previousPrice.price) * 100);
 
-    // Prepare chart data (last 50 points for performance)
+    // Prepare chart data (last 50 points for performance) with moving averages over the full history
+    const closes = rawHistory.map(record => record.price);
+    const sma20Series = indicatorSeries(new SMA(20), closes);
+    const sma50Series = indicatorSeries(new SMA(50), closes);
+    const offset = Math.max(rawHistory.length - 50, 0);
     const chartData = rawHistory.slice(-50).map((record, index) => ({
       timestamp: record.timestamp,
       price: record.price,
       volume: record.volume,
-      // Calculate moving averages for chart overlay
-      sma20: index >= 19 ? rawHistory.slice(-50 + index - 19, -50 + index + 1)
-        .reduce((sum, r) => sum + r.price, 0) / 20 : null,
-      sma50: index >= 49 ? rawHistory.slice(-50 + index - 49, -50 + index + 1)
-        .reduce((sum, r) => sum + r.price, 0) / 50 : null,
+      sma20: sma20Series[offset + index],
+      sma50: sma50Series[offset + index],
     }));
 
     // Generate trading signals
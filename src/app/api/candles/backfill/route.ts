@@ -0,0 +1,49 @@
+// API route for rebuilding candles over a time range
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { CandleBackfillError, candleService } from '@/lib/services/candle-service';
+import { CandleBackfillSchema } from '@/lib/validation/candle-schemas';
+import { getCurrentUser, unauthorizedResponse } from '@/lib/auth/current-user';
+
+// POST /api/candles/backfill - Build 1m candles from ticks/exchange, fill gaps and roll up (signed-in users)
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const input = CandleBackfillSchema.parse(await request.json());
+
+    const result = await candleService.backfill(input.symbol, input.from, input.to, {
+      fetchExchange: input.fetchExchange,
+      fillGaps: input.fillGaps
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Candle backfill completed',
+      data: result
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid backfill request', details: error.issues },
+        { status: 400 }
+      );
+    }
+    if (error instanceof CandleBackfillError) {
+      return NextResponse.json(
+        { success: false, code: error.code, message: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Candle backfill API error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to backfill candles' },
+      { status: 500 }
+    );
+  }
+}
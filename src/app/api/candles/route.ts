@@ -0,0 +1,43 @@
+// API route for OHLCV candles
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { candleService } from '@/lib/services/candle-service';
+import { CandleQuerySchema } from '@/lib/validation/candle-schemas';
+
+// GET /api/candles?symbol=BTC&interval=1h&from=2025-09-01T00:00:00Z&to=2025-09-02T00:00:00Z&limit=500
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = CandleQuerySchema.parse({
+      symbol: searchParams.get('symbol') ?? undefined,
+      interval: searchParams.get('interval') ?? undefined,
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined
+    });
+
+    const candles = await candleService.getCandles(query);
+
+    return NextResponse.json({
+      success: true,
+      data: candles,
+      count: candles.length,
+      symbol: query.symbol,
+      interval: query.interval
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid candle query', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Get candles API error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to retrieve candles' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+// Confirm, cancel or undo the command an agent proposed in chat
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { chatCommandService } from '@/lib/services/chat-command-service';
+import { ChatError } from '@/lib/services/agent-chat-service';
+import { getCurrentUser, unauthorizedResponse } from '@/lib/auth/current-user';
+import { checkAgentWrite } from '@/lib/auth/agent-access';
+
+const commandActionSchema = z.object({
+  action: z.enum(['confirm', 'cancel', 'undo']),
+});
+
+const ACTION_MESSAGES = {
+  confirm: 'Command applied',
+  cancel: 'Command cancelled',
+  undo: 'Command undone',
+};
+
+// POST /api/chat/[agentId]/commands/[messageId] - Apply or revert a proposed command
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ agentId: string; messageId: string }> }
+) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { agentId, messageId } = await params;
+    const { action } = commandActionSchema.parse(await request.json());
+
+    // Confirming and undoing change the agent's patterns, watchlist or strategies
+    if (action !== 'cancel') {
+      const denied = await checkAgentWrite(user, agentId);
+      if (denied) {
+        return denied;
+      }
+    }
+
+    const result = await chatCommandService.perform(agentId, user.id, messageId, action);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: ACTION_MESSAGES[action]
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof ChatError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error('Failed to run chat command:', error);
+    return NextResponse.json(
+      { error: 'Failed to run chat command' },
+      { status: 500 }
+    );
+  }
+}
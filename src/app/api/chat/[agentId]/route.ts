@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
 import { z } from 'zod';
-import { parseCommand, generateCommandResponse, validateCommand } from '@/lib/chat/commandParser';
+import { agentChatService, ChatError } from '@/lib/services/agent-chat-service';
+import { getCurrentUser, unauthorizedResponse } from '@/lib/auth/current-user';
+import type { SerializedChatMessage } from '@/types/chat';
 
 const prisma = new PrismaClient();
 
@@ -12,12 +14,17 @@ const createMessageSchema = z.object({
   metadata: z.string().optional().default('{}'),
 });
 
-// GET /api/chat/[agentId] - Get conversation history
+// GET /api/chat/[agentId] - Get the user's conversation history with the agent
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ agentId: string }> }
 ) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const { agentId } = await params;
 
     // Verify agent exists
@@ -32,9 +39,9 @@ export async function GET(
       );
     }
 
-    // Get messages for this agent
+    // Get the user's messages with this agent
     const messages = await prisma.chatMessage.findMany({
-      where: { agentId },
+      where: { agentId, userId: user.id },
       orderBy: { createdAt: 'asc' },
     });
 
@@ -62,89 +69,48 @@ export async function POST(
   { params }: { params: Promise<{ agentId: string }> }
 ) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const { agentId } = await params;
     const body = await request.json();
     
     // Validate request body
     const validatedData = createMessageSchema.parse(body);
 
-    // Verify agent exists
-    const agent = await prisma.agent.findUnique({
-      where: { id: agentId },
-      include: {
-        patterns: true,
-        watchlistItems: true,
-      }
-    });
-
-    if (!agent) {
-      return NextResponse.json(
-        { error: 'Agent not found' },
-        { status: 404 }
-      );
-    }
-
-    // Create user message
-    const userMessage = await prisma.chatMessage.create({
-      data: {
-        agentId,
-        content: validatedData.content,
-        type: 'user',
-        metadata: validatedData.metadata,
-        userId: 'demo-user',
-      },
-    });
+    // Store the user message and collect the streamed reply in one response
+    const turn = await agentChatService.createUserMessage(agentId, user.id, validatedData.content, validatedData.metadata);
 
-    // Parse user command and generate intelligent response
-    const parsedCommand = parseCommand(validatedData.content, agent);
-    const validationResult = validateCommand(parsedCommand, agent);
-    
-    let agentResponse;
-    if (!validationResult.valid) {
-      agentResponse = {
-        content: `${agent.name}: ${validationResult.reason} ${validationResult.suggestions?.join(' ') || ''}`,
-        metadata: {
-          type: 'validation_error',
-          reason: validationResult.reason,
-          suggestions: validationResult.suggestions
-        }
-      };
-    } else {
-      agentResponse = generateCommandResponse(parsedCommand, agent);
+    let agentResponse: SerializedChatMessage | null = null;
+    for await (const event of agentChatService.generateReply(turn, request.signal)) {
+      if (event.type === 'done' || event.type === 'cancelled') {
+        agentResponse = event.message;
+      }
     }
-    
-    const agentMessage = await prisma.chatMessage.create({
-      data: {
-        agentId,
-        content: agentResponse.content,
-        type: 'agent',
-        metadata: JSON.stringify(agentResponse.metadata),
-        userId: 'demo-user',
-      },
-    });
 
     return NextResponse.json({
       success: true,
-      userMessage: {
-        ...userMessage,
-        createdAt: userMessage.createdAt.toISOString(),
-        updatedAt: userMessage.updatedAt.toISOString(),
-      },
-      agentResponse: {
-        ...agentMessage,
-        createdAt: agentMessage.createdAt.toISOString(),
-        updatedAt: agentMessage.updatedAt.toISOString(),
-      },
+      userMessage: turn.userMessage,
+      agentResponse,
     });
 
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
-        { error: 'Invalid request data', details: error.errors },
+        { error: 'Invalid request data', details: error.issues },
         { status: 400 }
       );
     }
 
+    if (error instanceof ChatError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
     console.error('Failed to send message:', error);
     return NextResponse.json(
       { error: 'Failed to send message' },
@@ -0,0 +1,169 @@
+// Streaming agent chat over Server-Sent Events
+// POST starts a reply, GET resumes it after a reconnect, DELETE cancels it.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { chatStreamService } from '@/lib/services/chat-stream-service';
+import { ChatError } from '@/lib/services/agent-chat-service';
+import { getCurrentUser, unauthorizedResponse } from '@/lib/auth/current-user';
+import type { ChatStreamEvent } from '@/types/chat';
+
+const KEEP_ALIVE_MS = 15000;
+
+const streamMessageSchema = z.object({
+  content: z.string().min(1, 'Message content is required'),
+  metadata: z.string().optional().default('{}'),
+});
+
+function errorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: error.issues },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof ChatError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.status }
+    );
+  }
+
+  console.error('Chat stream API error:', error);
+  return NextResponse.json(
+    { error: fallbackMessage },
+    { status: 500 }
+  );
+}
+
+// Pipe stream events to the client as SSE frames with ids for Last-Event-ID
+function sseResponse(events: AsyncGenerator<ChatStreamEvent>, streamId: string) {
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream({
+    async start(controller) {
+      const keepAlive = setInterval(() => {
+        try {
+          controller.enqueue(encoder.encode(': keep-alive\n\n'));
+        } catch {
+          clearInterval(keepAlive);
+        }
+      }, KEEP_ALIVE_MS);
+
+      try {
+        for await (const event of events) {
+          controller.enqueue(encoder.encode(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`));
+        }
+      } catch (error) {
+        // The client went away; the reply keeps running and can be resumed
+        console.log('Chat stream client disconnected:', error instanceof Error ? error.message : error);
+      } finally {
+        clearInterval(keepAlive);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a disconnect
+        }
+      }
+    },
+    cancel() {
+      void events.return(undefined);
+    }
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Chat-Stream-Id': streamId,
+    },
+  });
+}
+
+function getStreamId(request: NextRequest) {
+  const streamId = new URL(request.url).searchParams.get('streamId');
+  if (!streamId) {
+    throw new ChatError('streamId is required', 'STREAM_ID_REQUIRED', 400);
+  }
+  return streamId;
+}
+
+// POST /api/chat/[agentId]/stream - Send a message and stream the agent's reply
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ agentId: string }> }
+) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { agentId } = await params;
+    const { content, metadata } = streamMessageSchema.parse(await request.json());
+
+    const { streamId } = await chatStreamService.start(agentId, user.id, content, metadata);
+
+    return sseResponse(chatStreamService.subscribe(streamId, agentId, user.id, 0, request.signal), streamId);
+  } catch (error) {
+    return errorResponse(error, 'Failed to start chat stream');
+  }
+}
+
+// GET /api/chat/[agentId]/stream?streamId=... - Resume after the Last-Event-ID header (or lastEventId param)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ agentId: string }> }
+) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { agentId } = await params;
+    const streamId = getStreamId(request);
+    const lastEventId = parseInt(
+      request.headers.get('last-event-id') || new URL(request.url).searchParams.get('lastEventId') || '0'
+    ) || 0;
+
+    const events = chatStreamService.subscribe(streamId, agentId, user.id, lastEventId, request.signal);
+    // Surface an unknown stream as 404 before switching to SSE
+    const first = await events.next();
+
+    async function* replay(): AsyncGenerator<ChatStreamEvent> {
+      if (!first.done) yield first.value;
+      yield* events;
+    }
+
+    return sseResponse(replay(), streamId);
+  } catch (error) {
+    return errorResponse(error, 'Failed to resume chat stream');
+  }
+}
+
+// DELETE /api/chat/[agentId]/stream?streamId=... - Cancel a reply in progress
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ agentId: string }> }
+) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { agentId } = await params;
+    const cancelled = chatStreamService.cancel(getStreamId(request), agentId, user.id);
+
+    return NextResponse.json({
+      success: true,
+      cancelled,
+      message: cancelled ? 'Reply cancelled' : 'Reply already finished'
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to cancel chat stream');
+  }
+}
@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { newsScoringService } from '@/lib/services/news-scoring-service';
+import { newsReportService } from '@/lib/services/news-report-service';
 
 const prisma = new PrismaClient();
 
-// Mock news data for development
+// Mock news data for development; scores come from the news scorer
 const MOCK_NEWS_DATA = [
   {
     title: "비트코인, 새로운 사상 최고가 경신 전망",
@@ -11,8 +13,6 @@ const MOCK_NEWS_DATA = [
     source: "CryptoNews",
     url: "https://example.com/bitcoin-ath-forecast",
     category: "market",
-    sentimentScore: 0.7,
-    importanceScore: 9,
     relatedSymbols: ["BTC", "ETH"],
     summary: "기관 투자자 유입으로 비트코인 새 고점 전망",
     aiAnalysis: "긍정적인 기관 투자 심리와 시장 모멘텀이 지속되고 있어 단기적으로 상승 여력이 있는 것으로 판단됩니다."
@@ -23,8 +23,6 @@ const MOCK_NEWS_DATA = [
     source: "RegulatoryUpdate",
     url: "https://example.com/sec-crypto-framework",
     category: "regulatory",
-    sentimentScore: -0.2,
-    importanceScore: 8,
     relatedSymbols: ["BTC", "ETH", "ADA"],
     summary: "SEC 암호화폐 규제 가이드라인 발표 임박",
     aiAnalysis: "규제 불확실성 해소 가능성과 동시에 단기적인 변동성 증가가 예상됩니다."
@@ -35,8 +33,6 @@ const MOCK_NEWS_DATA = [
     source: "EthereumFoundation",
     url: "https://example.com/eth2-upgrade-95",
     category: "technical",
-    sentimentScore: 0.8,
-    importanceScore: 7,
     relatedSymbols: ["ETH"],
     summary: "이더리움 2.0 업그레이드 95% 완료",
     aiAnalysis: "네트워크 성능 향상과 에너지 효율성 개선으로 장기적 가치 상승 요인으로 작용할 것으로 예상됩니다."
@@ -47,8 +43,6 @@ const MOCK_NEWS_DATA = [
     source: "FinancialTimes",
     url: "https://example.com/jpmorgan-crypto-expansion",
     category: "corporate",
-    sentimentScore: 0.6,
-    importanceScore: 8,
     relatedSymbols: ["BTC", "ETH"],
     summary: "JP모건, 암호화폐 거래 서비스 확대",
     aiAnalysis: "전통 금융기관의 암호화폐 진입 가속화로 시장 신뢰도와 유동성 증가가 기대됩니다."
@@ -59,8 +53,6 @@ const MOCK_NEWS_DATA = [
     source: "CentralBankDigest",
     url: "https://example.com/cbdc-pilot-expansion",
     category: "regulatory",
-    sentimentScore: 0.1,
-    importanceScore: 6,
     relatedSymbols: ["BTC", "ETH", "USDC"],
     summary: "CBDC 시범 운영 확대로 디지털 금융 혁신 가속",
     aiAnalysis: "CBDC 도입은 암호화폐 시장에 중립적-긍정적 영향을 미칠 것으로 예상되며, 디지털 자산 인프라 발전에 기여할 것입니다."
@@ -81,6 +73,7 @@ export async function POST(request: NextRequest) {
       for (let i = 0; i < MOCK_NEWS_DATA.length; i++) {
         const newsData = MOCK_NEWS_DATA[i];
         const publishedAt = new Date(baseTime - (i * 2 * 60 * 60 * 1000)); // 2시간 간격
+        const { sentimentScore, importanceScore } = newsScoringService.score(newsData);
 
         const article = await prisma.newsArticle.create({
           data: {
@@ -89,8 +82,8 @@ export async function POST(request: NextRequest) {
             source: newsData.source,
             url: newsData.url,
             publishedAt,
-            sentimentScore: newsData.sentimentScore,
-            importanceScore: newsData.importanceScore,
+            sentimentScore,
+            importanceScore,
             category: newsData.category,
             relatedSymbols: JSON.stringify(newsData.relatedSymbols),
             summary: newsData.summary,
@@ -104,25 +97,8 @@ export async function POST(request: NextRequest) {
         });
       }
 
-      // 일일 리포트도 생성
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-
-      const report = await prisma.newsReport.create({
-        data: {
-          type: 'daily',
-          date: today,
-          overallSentiment: 0.42,
-          marketTrend: 'bullish',
-          keyEvents: JSON.stringify([
-            "비트코인 신고점 전망 부각",
-            "SEC 규제 프레임워크 발표 예정",
-            "JP모건 암호화폐 서비스 확대"
-          ]),
-          summary: "오늘 암호화폐 시장은 기관 투자자들의 관심 증가와 규제 환경 개선 기대감으로 전반적으로 긍정적인 분위기를 보였습니다. 비트코인의 새로운 고점 전망과 대형 금융기관의 서비스 확대가 주요 호재로 작용했습니다.",
-          topStoriesIds: JSON.stringify(createdNews.slice(0, 3).map(n => n.id)),
-        }
-      });
+      // 오늘 일일 리포트도 생성 (이미 있으면 갱신)
+      const report = await newsReportService.generate('daily', new Date(baseTime));
 
       return NextResponse.json({
         success: true,
@@ -131,10 +107,7 @@ export async function POST(request: NextRequest) {
           newsGenerated: createdNews.length,
           reportGenerated: 1,
           articles: createdNews,
-          report: {
-            ...report,
-            keyEvents: JSON.parse(report.keyEvents),
-          }
+          report,
         }
       });
     }
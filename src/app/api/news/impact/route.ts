@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { newsImpactService } from '@/lib/services/news-impact-service';
+
+const impactQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).optional(),
+  minCount: z.coerce.number().int().min(1).max(100).optional(), // Smallest group shown
+});
+
+// GET /api/news/impact - 뉴스 발행 후 1h/4h/24h BTC 가격 반응 (카테고리·출처·감정 구간별 평균 초과수익률)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { days, minCount } = impactQuerySchema.parse({
+      days: searchParams.get('days') ?? undefined,
+      minCount: searchParams.get('minCount') ?? undefined,
+    });
+
+    const study = await newsImpactService.getImpact({ days, minGroupSize: minCount });
+    return NextResponse.json({ success: true, data: study });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid query parameters', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error measuring news impact:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to measure news impact' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { NewsIngestionError, newsIngestionService } from '@/lib/services/news-ingestion-service';
+import { newsScheduler } from '@/lib/scheduler/news-scheduler';
+import { forbiddenResponse, getCurrentUser, isOperator, unauthorizedResponse } from '@/lib/auth/current-user';
+
+const ingestSchema = z.object({
+  action: z.enum(['run', 'start', 'stop']).optional().default('run'),
+  feeds: z.array(z.string()).optional(), // Feed ids; all configured feeds when omitted
+});
+
+// GET /api/news/ingest - 설정된 피드와 수집 스케줄러 상태
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    data: {
+      feeds: newsIngestionService.getFeeds(),
+      scheduler: newsScheduler.getStatus(),
+    }
+  });
+}
+
+// POST /api/news/ingest - 뉴스 피드 수집 실행 (run) 또는 스케줄러 시작/중지 (start/stop, 운영자만), 로그인 필요
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { action, feeds } = ingestSchema.parse(body);
+
+    // The scheduler is shared by every user, so only operators may start or stop it
+    if ((action === 'start' || action === 'stop') && !isOperator(user)) {
+      return forbiddenResponse();
+    }
+
+    if (action === 'start') {
+      newsScheduler.start();
+      return NextResponse.json({ success: true, data: { scheduler: newsScheduler.getStatus() } });
+    }
+    if (action === 'stop') {
+      newsScheduler.stop();
+      return NextResponse.json({ success: true, data: { scheduler: newsScheduler.getStatus() } });
+    }
+
+    const unknown = feeds?.filter((id) => !newsIngestionService.getFeeds().some((feed) => feed.id === id));
+    if (unknown && unknown.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Unknown feeds: ${unknown.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const run = await newsScheduler.triggerUpdate(feeds);
+    return NextResponse.json({ success: true, data: run });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+    if (error instanceof NewsIngestionError) {
+      return NextResponse.json(
+        { success: false, code: error.code, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error ingesting news:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to ingest news' },
+      { status: 500 }
+    );
+  }
+}
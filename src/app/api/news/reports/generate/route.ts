@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { newsReportScheduler } from '@/lib/scheduler/news-report-scheduler';
+import { NewsReportError } from '@/lib/services/news-report-service';
+import { forbiddenResponse, getCurrentUser, isOperator, unauthorizedResponse } from '@/lib/auth/current-user';
+
+const generateSchema = z.object({
+  action: z.enum(['run', 'start', 'stop']).optional().default('run'),
+  type: z.enum(['daily', 'weekly']).optional().default('daily'),
+  date: z.coerce.date().optional(), // Any time inside the period; the last complete period when omitted
+});
+
+// GET /api/news/reports/generate - 리포트 스케줄러 상태
+export async function GET() {
+  return NextResponse.json({ success: true, data: { scheduler: newsReportScheduler.getStatus() } });
+}
+
+// POST /api/news/reports/generate - 일일/주간 리포트 생성 (run) 또는 스케줄러 시작/중지 (start/stop, 운영자만), 로그인 필요
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { action, type, date } = generateSchema.parse(body);
+
+    // The scheduler is shared by every user, so only operators may start or stop it
+    if ((action === 'start' || action === 'stop') && !isOperator(user)) {
+      return forbiddenResponse();
+    }
+
+    if (action === 'start') {
+      newsReportScheduler.start();
+      return NextResponse.json({ success: true, data: { scheduler: newsReportScheduler.getStatus() } });
+    }
+    if (action === 'stop') {
+      newsReportScheduler.stop();
+      return NextResponse.json({ success: true, data: { scheduler: newsReportScheduler.getStatus() } });
+    }
+
+    const report = await newsReportScheduler.triggerUpdate(type, user.id, date);
+    return NextResponse.json({ success: true, data: report });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+    if (error instanceof NewsReportError) {
+      const response = NextResponse.json(
+        { success: false, code: error.code, error: error.message },
+        { status: error.status }
+      );
+      if (error.retryAfterSeconds) {
+        response.headers.set('Retry-After', String(error.retryAfterSeconds));
+      }
+      return response;
+    }
+
+    console.error('Error generating news report:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to generate news report' },
+      { status: 500 }
+    );
+  }
+}
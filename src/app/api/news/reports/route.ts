@@ -54,21 +54,24 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST /api/news/reports - 새 리포트 생성
+// POST /api/news/reports - 새 리포트 생성 (자동 생성은 /api/news/reports/generate)
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     
-    const report = await prisma.newsReport.create({
-      data: {
-        type: body.type,
-        date: new Date(body.date),
-        overallSentiment: body.overallSentiment,
-        marketTrend: body.marketTrend,
-        keyEvents: JSON.stringify(body.keyEvents || []),
-        summary: body.summary,
-        topStoriesIds: JSON.stringify(body.topStoryIds || []),
-      }
+    const data = {
+      overallSentiment: body.overallSentiment,
+      marketTrend: body.marketTrend,
+      keyEvents: JSON.stringify(body.keyEvents || []),
+      summary: body.summary,
+      topStoriesIds: JSON.stringify(body.topStoryIds || []),
+    };
+
+    // 같은 종류·날짜의 리포트는 하나만 유지
+    const report = await prisma.newsReport.upsert({
+      where: { type_date: { type: body.type, date: new Date(body.date) } },
+      create: { type: body.type, date: new Date(body.date), ...data },
+      update: data,
     });
 
     return NextResponse.json({
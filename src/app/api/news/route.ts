@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
 import { NewsFilters } from '@/types/news';
+import { newsScoringService } from '@/lib/services/news-scoring-service';
 
 const prisma = new PrismaClient();
 
@@ -89,7 +90,15 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    
+    // 점수를 주지 않으면 사전 기반 스코어러로 계산
+    const score = newsScoringService.score({
+      title: body.title,
+      content: body.content,
+      source: body.source,
+      category: body.category,
+      relatedSymbols: body.relatedSymbols,
+    });
+
     const article = await prisma.newsArticle.create({
       data: {
         title: body.title,
@@ -97,8 +106,8 @@ export async function POST(request: NextRequest) {
         source: body.source,
         url: body.url,
         publishedAt: new Date(body.publishedAt),
-        sentimentScore: body.sentimentScore || 0,
-        importanceScore: body.importanceScore || 5,
+        sentimentScore: body.sentimentScore ?? score.sentimentScore,
+        importanceScore: body.importanceScore ?? score.importanceScore,
         category: body.category,
         relatedSymbols: JSON.stringify(body.relatedSymbols || []),
         summary: body.summary,
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { newsScoringService } from '@/lib/services/news-scoring-service';
+
+const rescoreSchema = z.object({
+  since: z.coerce.date().optional(), // Only articles published since; all history when omitted
+  batchSize: z.number().int().min(1).max(1000).optional(),
+});
+
+// POST /api/news/score - 저장된 뉴스의 감정/중요도 점수 재계산
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { since, batchSize } = rescoreSchema.parse(body);
+
+    const result = await newsScoringService.rescore({ since, batchSize });
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error re-scoring news:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to re-score news' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { aggregateSentiment } from '@/lib/news/news-scorer';
+import { newsScoringService } from '@/lib/services/news-scoring-service';
 
 const prisma = new PrismaClient();
 
@@ -7,7 +9,8 @@ const prisma = new PrismaClient();
 export async function GET(request: NextRequest) {
   try {
     // 최근 24시간 뉴스 기준으로 감정 지수 계산
-    const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const now = new Date();
+    const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
     
     const recentNews = await prisma.newsArticle.findMany({
       where: {
@@ -19,6 +22,8 @@ export async function GET(request: NextRequest) {
         sentimentScore: true,
         importanceScore: true,
         category: true,
+        source: true,
+        publishedAt: true,
       }
     });
 
@@ -36,16 +41,16 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    // 가중 평균으로 전체 감정 점수 계산 (중요도가 높을수록 더 큰 가중치)
-    let totalWeightedSentiment = 0;
-    let totalWeight = 0;
+    // 중요도, 출처 신뢰도, 최신성(반감기 감쇠)으로 가중한 전체 감정 점수
+    const { sentiment: overallSentiment } = aggregateSentiment(
+      recentNews,
+      now,
+      newsScoringService.getConfig().halfLifeHours,
+      newsScoringService.credibilityOverrides()
+    );
     const categoryStats: any = {};
 
     recentNews.forEach(news => {
-      const weight = news.importanceScore;
-      totalWeightedSentiment += news.sentimentScore * weight;
-      totalWeight += weight;
-      
       if (!categoryStats[news.category]) {
         categoryStats[news.category] = {
           count: 0,
@@ -64,8 +69,6 @@ export async function GET(request: NextRequest) {
         categoryStats[category].totalSentiment / categoryStats[category].count;
     });
 
-    const overallSentiment = totalWeight > 0 ? totalWeightedSentiment / totalWeight : 0;
-    
     // 시장 트렌드 결정
     let marketTrend: 'bullish' | 'bearish' | 'neutral';
     if (overallSentiment > 0.2) marketTrend = 'bullish';
@@ -83,7 +86,7 @@ export async function GET(request: NextRequest) {
         confidence: Number(confidence.toFixed(1)),
         newsCount: recentNews.length,
         categoryBreakdown: categoryStats,
-        lastUpdated: new Date(),
+        lastUpdated: now,
       }
     });
   } catch (error) {
@@ -0,0 +1,91 @@
+// API routes for a single order: view, amend, cancel
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { orderService } from '@/lib/services/order-service';
+import { TradingError } from '@/lib/services/paper-trading-service';
+import { getCurrentUser, unauthorizedResponse } from '@/lib/auth/current-user';
+import { OrderAmendSchema } from '@/lib/validation/order-schemas';
+
+function errorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { success: false, message: 'Invalid input', details: error.issues },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof TradingError) {
+    return NextResponse.json(
+      { success: false, code: error.code, message: error.message },
+      { status: error.status }
+    );
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return NextResponse.json(
+    { success: false, message: fallbackMessage },
+    { status: 500 }
+  );
+}
+
+// GET /api/orders/[id]
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id } = await params;
+    const order = await orderService.getOrder(user.id, id);
+
+    return NextResponse.json({ success: true, data: order });
+  } catch (error) {
+    return errorResponse(error, 'Failed to retrieve order');
+  }
+}
+
+// PATCH /api/orders/[id] - Amend quantity, prices or expiry
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id } = await params;
+    const input = OrderAmendSchema.parse(await request.json());
+    const order = await orderService.amendOrder(user.id, id, input);
+
+    return NextResponse.json({ success: true, message: 'Order amended', data: order });
+  } catch (error) {
+    return errorResponse(error, 'Failed to amend order');
+  }
+}
+
+// DELETE /api/orders/[id] - Cancel (cancels the whole group for OCO legs)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id } = await params;
+    const orders = await orderService.cancelOrder(user.id, id);
+
+    return NextResponse.json({ success: true, message: 'Order cancelled', data: orders });
+  } catch (error) {
+    return errorResponse(error, 'Failed to cancel order');
+  }
+}
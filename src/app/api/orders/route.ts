@@ -0,0 +1,101 @@
+// API routes for limit, stop, take-profit and OCO orders
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { orderService } from '@/lib/services/order-service';
+import { TradingError } from '@/lib/services/paper-trading-service';
+import { getCurrentUser, unauthorizedResponse } from '@/lib/auth/current-user';
+import {
+  OrderInputSchema,
+  OcoOrderInputSchema,
+  OrderStatusFilterSchema
+} from '@/lib/validation/order-schemas';
+
+// GET /api/orders?status=open,partially_filled&limit=50
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const statusParam = searchParams.get('status');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200);
+
+    const status = statusParam
+      ? OrderStatusFilterSchema.parse(statusParam.split(','))
+      : undefined;
+
+    const orders = await orderService.getOrders(user.id, { status, limit });
+
+    return NextResponse.json({
+      success: true,
+      data: orders,
+      count: orders.length
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid status filter', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Get orders API error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to retrieve orders' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/orders - Place an order, or an OCO pair when type is "oco"
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json();
+
+    if (body?.type === 'oco') {
+      const input = OcoOrderInputSchema.parse(body);
+      const orders = await orderService.placeOcoOrder(user.id, input);
+
+      return NextResponse.json(
+        { success: true, message: 'OCO order placed', data: orders },
+        { status: 201 }
+      );
+    }
+
+    const input = OrderInputSchema.parse(body);
+    const order = await orderService.placeOrder(user.id, input);
+
+    return NextResponse.json(
+      { success: true, message: 'Order placed', data: order },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid order', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof TradingError) {
+      return NextResponse.json(
+        { success: false, code: error.code, message: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Place order API error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to place order' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,3 @@
+// API route for resetting the user's portfolio
+
+export { POST } from '../route';
@@ -1,21 +1,19 @@
-// API route for demo portfolio management
+// API route for the signed-in user's paper portfolio
 
-import { NextResponse } from 'next/server';
-import { bitcoinPriceService } from '@/lib/services/bitcoin-price-service';
+import { NextRequest, NextResponse } from 'next/server';
+import { paperTradingService } from '@/lib/services/paper-trading-service';
+import { getCurrentUser, unauthorizedResponse } from '@/lib/auth/current-user';
 
-// GET /api/portfolio - Get demo portfolio
-export async function GET() {
+// GET /api/portfolio - Get the user's portfolio valued at the latest price
+export async function GET(request: NextRequest) {
   try {
-    // Get demo portfolio
-    const portfolio = await bitcoinPriceService.getDemoPortfolio();
-    
-    if (!portfolio) {
-      return NextResponse.json(
-        { success: false, message: 'Failed to get portfolio' },
-        { status: 500 }
-      );
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
     }
 
+    const portfolio = await paperTradingService.markToMarket(user.id);
+
     return NextResponse.json({
       success: true,
       data: portfolio
@@ -29,15 +27,20 @@ export async function GET() {
   }
 }
 
-// POST /api/portfolio/reset - Reset demo portfolio
-export async function POST() {
+// POST /api/portfolio - Reset the user's portfolio
+export async function POST(request: NextRequest) {
   try {
-    // Reset demo portfolio to initial state
-    const portfolio = await bitcoinPriceService.initializeDemoPortfolio();
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    // Reset the portfolio to its initial state
+    const portfolio = await paperTradingService.resetPortfolio(user.id);
 
     return NextResponse.json({
       success: true,
-      message: 'Demo portfolio reset successfully',
+      message: 'Portfolio reset successfully',
       data: portfolio
     });
   } catch (error) {
@@ -47,4 +50,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,13 +1,19 @@
-// API route for current trading signals
+// API route for current trading signals: pattern signals from the scanner plus the
+// summary of the latest technical report
 
 import { NextRequest, NextResponse } from 'next/server';
 import { technicalIndicatorsService } from '@/lib/services/technical-indicators-service';
+import { signalScannerService } from '@/lib/services/signal-scanner-service';
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const symbol = searchParams.get('symbol') || 'BTC';
     const timeframe = searchParams.get('timeframe') || '1d';
+    const agentId = searchParams.get('agentId') || undefined;
+    const patternId = searchParams.get('patternId') || undefined;
+    const limit = parseInt(searchParams.get('limit') || '50') || 50;
+    const since = searchParams.get('since') ? new Date(searchParams.get('since')!) : undefined;
 
     // Validate parameters
     if (!['1h', '4h', '1d', '1w'].includes(timeframe)) {
@@ -20,21 +26,33 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Get latest report with signals
-    const report = await technicalIndicatorsService.getLatestReport(symbol, timeframe);
+    if (since && isNaN(since.getTime())) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid since date'
+        },
+        { status: 400 }
+      );
+    }
+
+    const [report, patternSignals] = await Promise.all([
+      technicalIndicatorsService.getLatestReport(symbol, timeframe),
+      signalScannerService.getSignals({ symbol, agentId, patternId, since, limit })
+    ]);
 
-    if (!report) {
+    if (!report && patternSignals.length === 0) {
       return NextResponse.json(
         {
           success: false,
-          message: 'No technical analysis report available'
+          message: 'No technical analysis report or pattern signals available'
         },
         { status: 404 }
       );
     }
 
-    // Extract signal information
-    const signals = {
+    // Extract signal information from the report
+    const signals = report && {
       recommendation: report.recommendation,
       overallTrend: report.overallTrend,
       trendStrength: report.trendStrength,
@@ -55,6 +73,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       success: true,
       data: signals,
+      patternSignals,
       symbol,
       timeframe,
       message: `Current trading signals for ${symbol} (${timeframe})`
@@ -0,0 +1,69 @@
+// Pattern signals over Server-Sent Events
+// Frames carry the event id, so a reconnecting EventSource resumes via Last-Event-ID.
+
+import { NextRequest } from 'next/server';
+import { signalScannerService } from '@/lib/services/signal-scanner-service';
+import type { PatternSignalEvent } from '@/types/signals';
+
+const KEEP_ALIVE_MS = 15000;
+
+// GET /api/technical-indicators/signals/stream?agentId=...&symbol=... - Stream new pattern signals
+export async function GET(request: NextRequest) {
+  const searchParams = new URL(request.url).searchParams;
+  const agentId = searchParams.get('agentId');
+  const symbol = searchParams.get('symbol')?.toUpperCase();
+  const lastEventId = parseInt(
+    request.headers.get('last-event-id') || searchParams.get('lastEventId') || '0'
+  ) || 0;
+
+  const matches = ({ signal }: PatternSignalEvent) =>
+    (!agentId || signal.agentId === agentId) && (!symbol || signal.symbol === symbol);
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const body = new ReadableStream({
+    start(controller) {
+      const send = (frame: string) => {
+        try {
+          controller.enqueue(encoder.encode(frame));
+        } catch {
+          cleanup();
+        }
+      };
+
+      send(`data: ${JSON.stringify({ type: 'connected', timestamp: Date.now() })}\n\n`);
+
+      const unsubscribe = signalScannerService.subscribe((event) => {
+        if (matches(event)) {
+          send(`id: ${event.id}\ndata: ${JSON.stringify({ type: 'signal', signal: event.signal })}\n\n`);
+        }
+      }, lastEventId);
+      const keepAlive = setInterval(() => send(': keep-alive\n\n'), KEEP_ALIVE_MS);
+
+      cleanup = () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+      };
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
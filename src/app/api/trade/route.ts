@@ -1,10 +1,16 @@
 // API route for trading (buy/sell Bitcoin)
 
 import { NextRequest, NextResponse } from 'next/server';
-import { bitcoinPriceService } from '@/lib/services/bitcoin-price-service';
+import { paperTradingService, TradingError } from '@/lib/services/paper-trading-service';
+import { getCurrentUser, unauthorizedResponse } from '@/lib/auth/current-user';
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const body = await request.json();
     const { type, amount } = body;
 
@@ -29,32 +35,31 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Execute trade
-    const result = await bitcoinPriceService.executeTrade(type, amount);
+    // Execute trade at the latest market price
+    const { trade, portfolio } = await paperTradingService.executeTrade({
+      userId: user.id,
+      type,
+      amount
+    });
 
-    if (!result.success) {
+    return NextResponse.json({
+      success: true,
+      message: `${type === 'buy' ? 'Bought' : 'Sold'} ${amount} BTC at $${trade.price.toLocaleString()}`,
+      trade,
+      portfolio
+    });
+  } catch (error) {
+    if (error instanceof TradingError) {
       return NextResponse.json(
         {
           success: false,
-          message: result.message
+          code: error.code,
+          message: error.message
         },
-        { status: 400 }
+        { status: error.status }
       );
     }
 
-    // Update portfolio value after trade
-    await bitcoinPriceService.updatePortfolioValue();
-
-    return NextResponse.json({
-      success: true,
-      message: result.message,
-      trade: {
-        type,
-        amount,
-        timestamp: new Date().toISOString()
-      }
-    });
-  } catch (error) {
     console.error('Error executing trade:', error);
     
     return NextResponse.json(
@@ -66,4 +71,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,11 +1,17 @@
 // API route for trade history
 
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { bitcoinPriceService } from '@/lib/services/bitcoin-price-service';
+import { getCurrentUser, unauthorizedResponse } from '@/lib/auth/current-user';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const trades = await bitcoinPriceService.getTradeHistory(20);
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const trades = await bitcoinPriceService.getTradeHistory(user.id, 20);
     
     return NextResponse.json({
       success: true,
@@ -1,25 +1,12 @@
 // Trading Notes analytics API route
 
 import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/current-user';
 import { tradingNotesService } from '@/lib/services/trading-notes-service';
 
-// Simple authentication mock for testing
-function validateAuth(request: NextRequest) {
-  const authHeader = request.headers.get('authorization');
-  
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return null;
-  }
-  
-  return {
-    id: 'demo-user-123',
-    email: 'demo@example.com'
-  };
-}
-
 export async function GET(request: NextRequest) {
   try {
-    const user = validateAuth(request);
+    const user = await getCurrentUser(request);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
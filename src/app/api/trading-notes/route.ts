@@ -1,27 +1,11 @@
 // Trading Notes API routes
 
 import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/current-user';
 import { tradingNotesService } from '@/lib/services/trading-notes-service';
 import { TradingNoteInputSchema } from '@/lib/validation/schemas';
 import { z } from 'zod';
 
-// Simple authentication mock for testing
-function validateAuth(request: NextRequest) {
-  // For demo purposes, we'll use a mock user
-  // In production, you would validate JWT token from headers
-  const authHeader = request.headers.get('authorization');
-  
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return null;
-  }
-  
-  // Mock user for testing
-  return {
-    id: 'demo-user-123',
-    email: 'demo@example.com'
-  };
-}
-
 const SearchSchema = z.object({
   query: z.string().min(1),
   includePublic: z.boolean().optional().default(false),
@@ -31,7 +15,7 @@ const SearchSchema = z.object({
 export async function POST(request: NextRequest) {
   try {
     // Authentication check
-    const user = validateAuth(request);
+    const user = await getCurrentUser(request);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -64,7 +48,7 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
-    const user = validateAuth(request);
+    const user = await getCurrentUser(request);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
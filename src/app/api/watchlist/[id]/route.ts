@@ -1,27 +1,15 @@
 // Watchlist item specific API routes
 
 import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/current-user';
 import { watchlistService } from '@/lib/services/watchlist-service';
 import { z } from 'zod';
 
-// Simple authentication mock for testing
-function validateAuth(request: NextRequest) {
-  const authHeader = request.headers.get('authorization');
-  
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return null;
-  }
-  
-  return {
-    id: 'demo-user-123',
-    email: 'demo@example.com'
-  };
-}
-
 const UpdateWatchlistItemSchema = z.object({
   name: z.string().min(1).max(100).optional(),
   alertPrice: z.number().positive().optional(),
   alertType: z.enum(['above', 'below', 'both']).optional(),
+  alertPercent: z.number().positive().max(100).optional(),
   notes: z.string().max(1000).optional(),
   tags: z.array(z.string()).optional(),
   alertTriggered: z.boolean().optional()
@@ -32,7 +20,7 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = validateAuth(request);
+    const user = await getCurrentUser(request);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -62,7 +50,7 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = validateAuth(request);
+    const user = await getCurrentUser(request);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -107,7 +95,7 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = validateAuth(request);
+    const user = await getCurrentUser(request);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
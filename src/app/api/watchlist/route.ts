@@ -1,28 +1,16 @@
 // Watchlist API routes
 
 import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/current-user';
 import { watchlistService } from '@/lib/services/watchlist-service';
 import { z } from 'zod';
 
-// Simple authentication mock for testing
-function validateAuth(request: NextRequest) {
-  const authHeader = request.headers.get('authorization');
-  
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return null;
-  }
-  
-  return {
-    id: 'demo-user-123',
-    email: 'demo@example.com'
-  };
-}
-
 const CreateWatchlistItemSchema = z.object({
   symbol: z.string().min(1).max(10).toUpperCase(),
   name: z.string().min(1).max(100),
   alertPrice: z.number().positive().optional(),
   alertType: z.enum(['above', 'below', 'both']).optional(),
+  alertPercent: z.number().positive().max(100).optional(),
   notes: z.string().max(1000).optional(),
   tags: z.array(z.string()).optional().default([])
 });
@@ -35,7 +23,7 @@ const SearchSchema = z.object({
 export async function POST(request: NextRequest) {
   try {
     // Authentication check
-    const user = validateAuth(request);
+    const user = await getCurrentUser(request);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -68,7 +56,7 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
-    const user = validateAuth(request);
+    const user = await getCurrentUser(request);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -5,6 +5,8 @@ import { MessageCircle, Search, Users, Settings } from 'lucide-react';
 import Navbar from '@/components/Navbar';
 import AgentList from '@/components/chat/AgentList';
 import ChatInterface from '@/components/chat/ChatInterface';
+import { streamChatReply, cancelChatReply } from '@/lib/chat/chatStream';
+import type { ChatCommandAction, ChatCommandResult, ChatStreamEvent } from '@/types/chat';
 
 interface Agent {
   id: string;
@@ -35,6 +37,7 @@ export default function ChatPage() {
   const [messages, setMessages] = useState<Record<string, ChatMessage[]>>({});
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [streaming, setStreaming] = useState<{ agentId: string; streamId: string; messageId: string } | null>(null);
 
   useEffect(() => {
     fetchAgents();
@@ -81,28 +84,130 @@ export default function ChatPage() {
     }
   };
 
+  const updateMessages = (agentId: string, update: (messages: ChatMessage[]) => ChatMessage[]) => {
+    setMessages(prev => ({
+      ...prev,
+      [agentId]: update(prev[agentId] || [])
+    }));
+  };
+
+  const systemMessage = (agentId: string, content: string): ChatMessage => {
+    const now = new Date().toISOString();
+    return {
+      id: `system-${Date.now()}`,
+      agentId,
+      userId: '',
+      content,
+      type: 'system',
+      metadata: '{}',
+      isRead: true,
+      createdAt: now,
+      updatedAt: now
+    };
+  };
+
+  // Apply one event of a streamed reply to the conversation
+  const applyStreamEvent = (agentId: string, event: ChatStreamEvent, messageId: string) => {
+    switch (event.type) {
+      case 'start':
+        setStreaming({ agentId, streamId: event.streamId, messageId });
+        updateMessages(agentId, list => [
+          ...list,
+          event.userMessage,
+          {
+            id: messageId,
+            agentId,
+            userId: event.userMessage.userId,
+            content: '',
+            type: 'agent',
+            metadata: '{}',
+            isRead: false,
+            createdAt: event.userMessage.createdAt,
+            updatedAt: event.userMessage.createdAt
+          }
+        ]);
+        break;
+      case 'token':
+        updateMessages(agentId, list => list.map(message =>
+          message.id === messageId ? { ...message, content: message.content + event.text } : message
+        ));
+        break;
+      case 'command':
+        updateMessages(agentId, list => list.map(message =>
+          message.id === messageId
+            ? { ...message, metadata: JSON.stringify({ ...JSON.parse(message.metadata), ...event.command.metadata }) }
+            : message
+        ));
+        break;
+      case 'done':
+        updateMessages(agentId, list => list.map(message => message.id === messageId ? event.message : message));
+        break;
+      case 'cancelled':
+        updateMessages(agentId, list => event.message
+          ? list.map(message => message.id === messageId ? event.message! : message)
+          : list.filter(message => message.id !== messageId)
+        );
+        break;
+      case 'error':
+        updateMessages(agentId, list => [
+          ...list.filter(message => message.id !== messageId),
+          systemMessage(agentId, event.message)
+        ]);
+        break;
+    }
+  };
+
   const handleSendMessage = async (agentId: string, content: string) => {
+    const messageId = `streaming-${Date.now()}`;
+
     try {
-      const response = await fetch(`/api/chat/${agentId}`, {
+      await streamChatReply(agentId, content, {
+        onEvent: event => applyStreamEvent(agentId, event, messageId)
+      });
+    } catch (error) {
+      console.error('Failed to send message:', error);
+      updateMessages(agentId, list => [
+        ...list.filter(message => message.id !== messageId),
+        systemMessage(agentId, '메시지를 전송하지 못했습니다. 다시 시도해주세요.')
+      ]);
+    } finally {
+      setStreaming(null);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!streaming) return;
+
+    try {
+      await cancelChatReply(streaming.agentId, streaming.streamId);
+    } catch (error) {
+      console.error('Failed to cancel reply:', error);
+    }
+  };
+
+  // Confirm, cancel or undo a command the agent proposed
+  const handleCommandAction = async (agentId: string, messageId: string, action: ChatCommandAction) => {
+    try {
+      const response = await fetch(`/api/chat/${agentId}/commands/${messageId}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          content,
-          type: 'user'
-        }),
+        body: JSON.stringify({ action }),
       });
+      const data = await response.json();
 
       if (response.ok) {
-        const data = await response.json();
-        setMessages(prev => ({
-          ...prev,
-          [agentId]: [...(prev[agentId] || []), data.userMessage, data.agentResponse]
-        }));
+        const { command, message } = data.data as ChatCommandResult;
+        updateMessages(agentId, list => [
+          ...list.map(existing => existing.id === command.id ? command : existing),
+          message
+        ]);
+      } else {
+        updateMessages(agentId, list => [...list, systemMessage(agentId, data.error || '명령을 처리하지 못했습니다.')]);
       }
     } catch (error) {
-      console.error('Failed to send message:', error);
+      console.error('Failed to run chat command:', error);
     }
   };
 
@@ -181,6 +286,9 @@ export default function ChatPage() {
               agent={selectedAgent}
               messages={messages[selectedAgentId!] || []}
               onSendMessage={(content) => handleSendMessage(selectedAgentId!, content)}
+              streamingMessageId={streaming?.agentId === selectedAgentId ? streaming.messageId : null}
+              onCancel={handleCancel}
+              onCommandAction={(messageId, action) => handleCommandAction(selectedAgentId!, messageId, action)}
             />
           ) : (
             <div className="flex-1 flex items-center justify-center bg-gray-50">
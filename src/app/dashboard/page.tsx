@@ -6,6 +6,7 @@ import { TrendingUp, TrendingDown, Bitcoin, DollarSign, BarChart3, Trophy, Brain
 import Navbar from '@/components/Navbar';
 import BitcoinChart from '@/components/charts/BitcoinChart';
 import PortfolioTable from '@/components/portfolio/PortfolioTable';
+import { PatternSignals } from '@/components/trading/pattern-signals';
 
 interface BitcoinPrice {
   id: number;
@@ -409,6 +410,9 @@ export default function DashboardPage() {
           </div>
         </div>
 
+        {/* Pattern Signals */}
+        <PatternSignals className="mb-8" />
+
         {/* Trade History */}
         <div className="bg-white rounded-lg shadow p-6 mb-8">
           <h3 className="text-lg font-bold mb-4 flex items-center">
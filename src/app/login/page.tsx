@@ -4,6 +4,7 @@ import { useState } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { TrendingUp, Mail, Lock } from 'lucide-react';
+import { apiClient } from '@/lib/hooks/use-api';
 
 export default function LoginPage() {
   const [email, setEmail] = useState('');
@@ -18,22 +19,19 @@ export default function LoginPage() {
     setError('');
 
     try {
-      // For demo purposes, accept any email/password
-      if (email && password) {
-        // In a real app, this would make an API call
-        // For now, just simulate success and redirect
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        // Set a demo auth token
-        document.cookie = 'auth-token=demo-token; path=/; max-age=3600';
-        
-        // Redirect to dashboard
-        router.push('/dashboard');
-      } else {
+      if (!email || !password) {
         setError('이메일과 비밀번호를 입력해주세요.');
+        return;
       }
+
+      // The auth-token cookie is set by the response
+      await apiClient.login(email, password);
+
+      // Return to the page the middleware redirected from
+      const next = new URLSearchParams(window.location.search).get('next');
+      router.push(next?.startsWith('/') && !next.startsWith('//') ? next : '/dashboard');
     } catch (err) {
-      setError('로그인 중 오류가 발생했습니다.');
+      setError(err instanceof Error ? err.message : '로그인 중 오류가 발생했습니다.');
     } finally {
       setIsLoading(false);
     }
@@ -104,6 +102,11 @@ export default function LoginPage() {
                   placeholder="password"
                 />
               </div>
+              <div className="mt-2 text-right">
+                <Link href="/forgot-password" className="text-sm text-orange-400 hover:text-orange-300">
+                  비밀번호를 잊으셨나요?
+                </Link>
+              </div>
             </div>
 
             <button
@@ -130,14 +133,6 @@ export default function LoginPage() {
               </Link>
             </p>
           </div>
-
-          {/* Demo Info */}
-          <div className="mt-6 p-4 bg-blue-500/20 border border-blue-500/50 rounded-lg">
-            <h4 className="text-blue-200 font-medium mb-2">데모 계정</h4>
-            <p className="text-blue-300 text-sm">
-              아무 이메일과 비밀번호나 입력하시면 데모로 로그인됩니다.
-            </p>
-          </div>
         </div>
 
         {/* Back to Home */}
@@ -1,9 +1,9 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Newspaper, TrendingUp, TrendingDown, BarChart3, Search, Filter, RefreshCw, Calendar } from 'lucide-react';
+import { Newspaper, TrendingUp, TrendingDown, BarChart3, Search, Filter, RefreshCw, Calendar, Download } from 'lucide-react';
 import Navbar from '@/components/Navbar';
-import { NewsArticle, NewsReport, NewsFilters } from '@/types/news';
+import { NewsArticle, NewsReport, NewsFilters, NewsImpactDimension, NewsImpactHorizon, NewsImpactStudy } from '@/types/news';
 
 interface SentimentData {
   overallSentiment: number;
@@ -18,11 +18,14 @@ export default function NewsPage() {
   const [articles, setArticles] = useState<NewsArticle[]>([]);
   const [reports, setReports] = useState<NewsReport[]>([]);
   const [sentiment, setSentiment] = useState<SentimentData | null>(null);
+  const [impact, setImpact] = useState<NewsImpactStudy | null>(null);
+  const [impactDimension, setImpactDimension] = useState<NewsImpactDimension>('category');
   const [loading, setLoading] = useState(true);
   const [filters, setFilters] = useState<NewsFilters>({});
   const [searchQuery, setSearchQuery] = useState('');
   const [showFilters, setShowFilters] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [isIngesting, setIsIngesting] = useState(false);
 
   useEffect(() => {
     fetchData();
@@ -34,10 +37,11 @@ export default function NewsPage() {
 
   const fetchData = async () => {
     try {
-      const [articlesRes, reportsRes, sentimentRes] = await Promise.all([
+      const [articlesRes, reportsRes, sentimentRes, impactRes] = await Promise.all([
         fetch('/api/news'),
         fetch('/api/news/reports?limit=3'),
-        fetch('/api/news/sentiment')
+        fetch('/api/news/sentiment'),
+        fetch('/api/news/impact?days=30')
       ]);
 
       if (articlesRes.ok) {
@@ -54,6 +58,11 @@ export default function NewsPage() {
         const sentimentData = await sentimentRes.json();
         setSentiment(sentimentData.data);
       }
+
+      if (impactRes.ok) {
+        const impactData = await impactRes.json();
+        setImpact(impactData.data);
+      }
     } catch (error) {
       console.error('Error fetching data:', error);
     } finally {
@@ -101,6 +110,31 @@ export default function NewsPage() {
     }
   };
 
+  const ingestFeeds = async () => {
+    setIsIngesting(true);
+    try {
+      const response = await fetch('/api/news/ingest', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'run' }),
+      });
+
+      if (response.ok) {
+        const { data } = await response.json();
+        await fetchData();
+        const failedFeeds = data.feeds.filter((feed: { error?: string }) => feed.error).length;
+        alert(`✅ 새 뉴스 ${data.created}건을 수집했습니다 (중복 ${data.duplicates}건 제외${failedFeeds ? `, 실패한 피드 ${failedFeeds}개` : ''}).`);
+      } else {
+        alert('❌ 뉴스 수집에 실패했습니다.');
+      }
+    } catch (error) {
+      console.error('Error ingesting news:', error);
+      alert('❌ 뉴스 수집 중 오류가 발생했습니다.');
+    } finally {
+      setIsIngesting(false);
+    }
+  };
+
   const handleSearch = () => {
     setFilters(prev => ({ ...prev, search: searchQuery }));
     fetchArticles();
@@ -120,6 +154,18 @@ export default function NewsPage() {
     }
   };
 
+  const getImpactColor = (value: number) => {
+    if (value > 0.05) return 'text-green-600';
+    if (value < -0.05) return 'text-red-600';
+    return 'text-gray-700';
+  };
+
+  const getImpactLabel = (dimension: NewsImpactDimension, key: string) => {
+    if (dimension === 'category') return getCategoryLabel(key);
+    if (dimension === 'sentiment') return { positive: '긍정', neutral: '중립', negative: '부정' }[key] || key;
+    return key;
+  };
+
   const getCategoryLabel = (category: string) => {
     const labels: Record<string, string> = {
       'technical': '기술',
@@ -166,6 +212,15 @@ export default function NewsPage() {
               <RefreshCw className="h-4 w-4" />
               새로고침
             </button>
+
+            <button
+              onClick={ingestFeeds}
+              disabled={isIngesting}
+              className="bg-white border border-gray-300 hover:bg-gray-50 text-gray-800 px-4 py-2 rounded-xl flex items-center gap-2 disabled:opacity-50 transition-all"
+            >
+              <Download className="h-4 w-4" />
+              {isIngesting ? '수집 중...' : '뉴스 수집'}
+            </button>
             
             <button
               onClick={generateMockData}
@@ -315,7 +370,24 @@ export default function NewsPage() {
                     <p className="text-gray-800 text-sm mb-4 line-clamp-3">
                       {report.summary}
                     </p>
-                    
+
+                    {(report.priceChangePercent != null || report.sentimentChange != null) && (
+                      <div className="flex items-center gap-4 mb-4 text-xs">
+                        {report.priceChangePercent != null && (
+                          <span className={`flex items-center gap-1 font-medium ${report.priceChangePercent >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {report.priceChangePercent >= 0 ? <TrendingUp className="h-4 w-4" /> : <TrendingDown className="h-4 w-4" />}
+                            BTC {report.priceChangePercent >= 0 ? '+' : ''}{report.priceChangePercent.toFixed(2)}%
+                          </span>
+                        )}
+                        {report.sentimentChange != null && (
+                          <span className="text-gray-700">
+                            감정 {report.sentimentChange >= 0 ? '+' : ''}{report.sentimentChange.toFixed(2)}
+                            {report.sentimentTrend === 'improving' ? ' 개선' : report.sentimentTrend === 'deteriorating' ? ' 악화' : ' 유지'}
+                          </span>
+                        )}
+                      </div>
+                    )}
+
                     <div className="flex items-center justify-between">
                       <div className={`px-3 py-1 rounded-full text-xs font-medium ${getSentimentColor(report.overallSentiment)}`}>
                         {report.marketTrend}
@@ -331,6 +403,67 @@ export default function NewsPage() {
           </div>
         )}
 
+        {/* News Impact */}
+        {impact && impact.measuredCount > 0 && (
+          <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+              <div>
+                <h2 className="text-2xl font-bold text-gray-900">뉴스 영향 분석</h2>
+                <p className="text-gray-700 text-sm">
+                  최근 30일 뉴스 {impact.measuredCount}건 발행 후 BTC 평균 초과수익률 (같은 길이 구간 평균 수익률 대비)
+                </p>
+              </div>
+              <div className="flex gap-2">
+                {(['category', 'source', 'sentiment'] as NewsImpactDimension[]).map(dimension => (
+                  <button
+                    key={dimension}
+                    onClick={() => setImpactDimension(dimension)}
+                    className={`px-4 py-2 rounded-xl text-sm transition-all ${impactDimension === dimension ? 'bg-purple-500 text-white' : 'bg-gray-100 hover:bg-gray-200 text-gray-800'}`}
+                  >
+                    {{ category: '카테고리', source: '출처', sentiment: '감정' }[dimension]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-700 border-b border-gray-200">
+                    <th className="py-2 pr-4">구분</th>
+                    <th className="py-2 pr-4 text-right">뉴스 수</th>
+                    {(['1h', '4h', '24h'] as NewsImpactHorizon[]).map(horizon => (
+                      <th key={horizon} className="py-2 pr-4 text-right">{horizon} 초과수익률</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {impact.groups[impactDimension].map(group => (
+                    <tr key={group.key} className="border-b border-gray-100">
+                      <td className="py-2 pr-4 font-medium text-gray-900">{getImpactLabel(impactDimension, group.key)}</td>
+                      <td className="py-2 pr-4 text-right text-gray-800">{group.count}</td>
+                      {(['1h', '4h', '24h'] as NewsImpactHorizon[]).map(horizon => {
+                        const stats = group.horizons[horizon];
+                        return (
+                          <td key={horizon} className="py-2 pr-4 text-right">
+                            {stats.count === 0 ? (
+                              <span className="text-gray-400">-</span>
+                            ) : (
+                              <span className={getImpactColor(stats.avgAbnormalReturn)} title={`평균 수익률 ${stats.avgReturn.toFixed(2)}%, t=${stats.tStat ?? '-'}, n=${stats.count}`}>
+                                {stats.avgAbnormalReturn >= 0 ? '+' : ''}{stats.avgAbnormalReturn.toFixed(2)}%
+                              </span>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
         {/* News Articles */}
         <div>
           <div className="flex items-center justify-between mb-6">
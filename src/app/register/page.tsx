@@ -4,6 +4,7 @@ import { useState } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { TrendingUp, Mail, Lock, User } from 'lucide-react';
+import { apiClient } from '@/lib/hooks/use-api';
 
 export default function RegisterPage() {
   const [name, setName] = useState('');
@@ -30,16 +31,14 @@ export default function RegisterPage() {
         return;
       }
 
-      // For demo purposes, accept any valid input
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      // The auth-token cookie is set by the response
+      await apiClient.register(email, name, password);
       
-      // Set a demo auth token
-      document.cookie = 'auth-token=demo-token; path=/; max-age=3600';
-      
-      // Redirect to dashboard
-      router.push('/dashboard');
+      // Return to the page the middleware redirected from
+      const next = new URLSearchParams(window.location.search).get('next');
+      router.push(next?.startsWith('/') && !next.startsWith('//') ? next : '/dashboard');
     } catch (err) {
-      setError('회원가입 중 오류가 발생했습니다.');
+      setError(err instanceof Error ? err.message : '회원가입 중 오류가 발생했습니다.');
     } finally {
       setIsLoading(false);
     }
@@ -110,6 +109,7 @@ export default function RegisterPage() {
                   placeholder="demo@example.com"
                 />
               </div>
+              <p className="mt-1 text-xs text-gray-100">가입 후 이 주소로 인증 메일을 보내드립니다.</p>
             </div>
 
             <div>
@@ -0,0 +1,157 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { KeyRound, Lock } from 'lucide-react';
+import { apiClient } from '@/lib/hooks/use-api';
+
+export default function ResetPasswordPage() {
+  const [token, setToken] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [done, setDone] = useState(false);
+
+  // The token arrives in the link from the reset email
+  useEffect(() => {
+    setToken(new URLSearchParams(window.location.search).get('token') ?? '');
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+
+    try {
+      if (!password || !confirmPassword) {
+        setError('새 비밀번호를 입력해주세요.');
+        return;
+      }
+
+      if (password !== confirmPassword) {
+        setError('비밀번호가 일치하지 않습니다.');
+        return;
+      }
+
+      await apiClient.resetPassword(token!, password);
+      setDone(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '비밀번호를 재설정하지 못했습니다.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-indigo-900 flex items-center justify-center p-4">
+      <div className="max-w-md w-full space-y-8">
+        {/* Logo */}
+        <div className="text-center">
+          <div className="flex justify-center mb-6">
+            <div className="w-16 h-16 bg-orange-500 rounded-full flex items-center justify-center">
+              <span className="text-2xl font-bold text-white">₿</span>
+            </div>
+          </div>
+          <h2 className="text-3xl font-bold text-white mb-2">
+            새 비밀번호 설정
+          </h2>
+          <p className="text-gray-100">
+            재설정하면 모든 기기에서 로그아웃됩니다
+          </p>
+        </div>
+
+        <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-8">
+          {done ? (
+            <div className="space-y-6 text-center">
+              <div className="bg-green-500/20 border border-green-500/50 rounded-lg p-4 text-green-200 text-sm">
+                비밀번호를 재설정했습니다. 새 비밀번호로 로그인해주세요.
+              </div>
+              <Link
+                href="/login"
+                className="inline-block w-full bg-orange-500 hover:bg-orange-600 text-white font-bold py-3 px-4 rounded-lg transition-colors"
+              >
+                로그인
+              </Link>
+            </div>
+          ) : token === '' ? (
+            <div className="space-y-4 text-center">
+              <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-4 text-red-200 text-sm">
+                재설정 링크가 올바르지 않습니다. 메일의 링크를 다시 열거나 새 링크를 요청해주세요.
+              </div>
+              <Link href="/forgot-password" className="text-orange-400 hover:text-orange-300 font-medium">
+                새 링크 요청하기
+              </Link>
+            </div>
+          ) : (
+            <form className="space-y-6" onSubmit={handleSubmit}>
+              {error && (
+                <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-3 text-red-200 text-sm">
+                  {error}{' '}
+                  <Link href="/forgot-password" className="underline">
+                    새 링크 요청하기
+                  </Link>
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-100 mb-2">
+                  새 비밀번호 (8자 이상)
+                </label>
+                <div className="relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Lock className="h-5 w-5 text-gray-700" />
+                  </div>
+                  <input
+                    id="password"
+                    name="password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="w-full pl-10 pr-3 py-3 border border-gray-600 bg-white/5 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                    placeholder="password"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-100 mb-2">
+                  새 비밀번호 확인
+                </label>
+                <div className="relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Lock className="h-5 w-5 text-gray-700" />
+                  </div>
+                  <input
+                    id="confirmPassword"
+                    name="confirmPassword"
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className="w-full pl-10 pr-3 py-3 border border-gray-600 bg-white/5 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                    placeholder="password"
+                  />
+                </div>
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading || token === null}
+                className="w-full bg-orange-500 hover:bg-orange-600 disabled:opacity-50 text-white font-bold py-3 px-4 rounded-lg transition-colors flex items-center justify-center gap-2"
+              >
+                {isLoading ? (
+                  <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                ) : (
+                  <>
+                    <KeyRound className="h-5 w-5" />
+                    비밀번호 재설정
+                  </>
+                )}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { apiClient } from '@/lib/hooks/use-api';
+
+type VerifyState = { status: 'verifying' } | { status: 'verified' } | { status: 'failed'; message: string };
+
+export default function VerifyEmailPage() {
+  const [state, setState] = useState<VerifyState>({ status: 'verifying' });
+  // Links are single-use, so make sure a re-run effect does not redeem it twice
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (submitted.current) return;
+    submitted.current = true;
+
+    const token = new URLSearchParams(window.location.search).get('token');
+    if (!token) {
+      setState({ status: 'failed', message: '인증 링크가 올바르지 않습니다.' });
+      return;
+    }
+
+    apiClient.verifyEmail(token)
+      .then(() => setState({ status: 'verified' }))
+      .catch((err) => setState({
+        status: 'failed',
+        message: err instanceof Error ? err.message : '이메일을 인증하지 못했습니다.'
+      }));
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-indigo-900 flex items-center justify-center p-4">
+      <div className="max-w-md w-full space-y-8">
+        {/* Logo */}
+        <div className="text-center">
+          <div className="flex justify-center mb-6">
+            <div className="w-16 h-16 bg-orange-500 rounded-full flex items-center justify-center">
+              <span className="text-2xl font-bold text-white">₿</span>
+            </div>
+          </div>
+          <h2 className="text-3xl font-bold text-white mb-2">
+            이메일 인증
+          </h2>
+        </div>
+
+        <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-8 text-center space-y-6">
+          {state.status === 'verifying' && (
+            <div className="flex flex-col items-center gap-3 text-gray-100">
+              <div className="w-8 h-8 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+              인증하는 중...
+            </div>
+          )}
+
+          {state.status === 'verified' && (
+            <div className="flex flex-col items-center gap-3 text-green-200">
+              <CheckCircle className="h-10 w-10" />
+              이메일 주소를 인증했습니다.
+            </div>
+          )}
+
+          {state.status === 'failed' && (
+            <div className="flex flex-col items-center gap-3 text-red-200">
+              <XCircle className="h-10 w-10" />
+              <p>{state.message}</p>
+              <p className="text-sm text-gray-100">
+                계정 페이지에서 인증 메일을 다시 받을 수 있습니다.
+              </p>
+            </div>
+          )}
+
+          {state.status !== 'verifying' && (
+            <Link href="/account" className="text-orange-400 hover:text-orange-300 font-medium">
+              계정 페이지로 이동
+            </Link>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
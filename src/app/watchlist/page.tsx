@@ -255,7 +255,7 @@ export default function WatchlistPage() {
 
   const displayItems = searchResults.length > 0 ? searchResults.map(result => ({
     ...result,
-    userId: 'demo-user-123',
+    userId: items.find(item => item.id === result.id)?.userId ?? '',
     notes: result.alertType || '',
     tags: [],
     alertTriggered: false,
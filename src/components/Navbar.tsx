@@ -2,7 +2,7 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { Home, BarChart3, FileText, Settings, Heart, MessageCircle, Newspaper, TrendingUp } from 'lucide-react';
+import { Home, BarChart3, FileText, Settings, Heart, MessageCircle, Newspaper, TrendingUp, UserCircle } from 'lucide-react';
 
 export default function Navbar() {
   const pathname = usePathname();
@@ -15,6 +15,7 @@ export default function Navbar() {
     { href: '/reports', label: '리포트', icon: FileText },
     { href: '/agents', label: '에이전트', icon: Settings },
     { href: '/chat', label: '채팅', icon: MessageCircle },
+    { href: '/account', label: '계정', icon: UserCircle },
   ];
 
   return (
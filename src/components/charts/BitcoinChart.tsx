@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Line } from 'react-chartjs-2';
 import {
   Chart as ChartJS,
@@ -26,16 +26,16 @@ ChartJS.register(
   Legend
 );
 
-interface BitcoinPrice {
-  id: number;
-  timestamp: string;
-  price: number;
-  volume?: number;
-  marketCap?: number;
-  change24h?: number;
-  changePercentage24h?: number;
-  high24h?: number;
-  low24h?: number;
+interface Candle {
+  id: string;
+  interval: string;
+  openTime: string;
+  closeTime: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
   source: string;
 }
 
@@ -45,46 +45,58 @@ interface BitcoinChartProps {
   className?: string;
 }
 
+// Pick a candle interval that keeps the chart around 100-300 points
+function getChartInterval(hours: number): string {
+  if (hours <= 4) return '1m';
+  if (hours <= 24) return '5m';
+  if (hours <= 72) return '15m';
+  if (hours <= 24 * 14) return '1h';
+  if (hours <= 24 * 60) return '4h';
+  return '1d';
+}
+
 export default function BitcoinChart({ 
   height = 300, 
   timeRange = 24,
   className = "" 
 }: BitcoinChartProps) {
-  const [priceHistory, setPriceHistory] = useState<BitcoinPrice[]>([]);
+  const [candles, setCandles] = useState<Candle[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const interval = getChartInterval(timeRange);
 
-  const fetchPriceHistory = async () => {
+  const fetchCandles = useCallback(async () => {
     try {
       setError(null);
-      const response = await fetch(`/api/bitcoin/history?hours=${timeRange}`);
+      const from = new Date(Date.now() - timeRange * 60 * 60 * 1000).toISOString();
+      const response = await fetch(`/api/candles?symbol=BTC&interval=${interval}&from=${from}&limit=1000`);
       const result = await response.json();
 
       if (result.success) {
-        setPriceHistory(result.data);
+        setCandles(result.data);
       } else {
-        setError(result.message || 'Failed to fetch price history');
+        setError(result.message || 'Failed to fetch candles');
       }
     } catch (err) {
-      console.error('Error fetching price history:', err);
+      console.error('Error fetching candles:', err);
       setError('Network error occurred');
     } finally {
       setLoading(false);
     }
-  };
+  }, [timeRange, interval]);
 
   useEffect(() => {
-    fetchPriceHistory();
+    fetchCandles();
     
-    // Refresh chart every 10 minutes to match price updates
-    const interval = setInterval(fetchPriceHistory, 10 * 60 * 1000);
-    return () => clearInterval(interval);
-  }, [timeRange]);
+    // Refresh chart every minute as 1m candles close
+    const refresh = setInterval(fetchCandles, 60 * 1000);
+    return () => clearInterval(refresh);
+  }, [fetchCandles]);
 
   // Prepare chart data
   const chartData = {
-    labels: priceHistory.map(item => {
-      const date = new Date(item.timestamp);
+    labels: candles.map(item => {
+      const date = new Date(item.openTime);
       return date.toLocaleTimeString('ko-KR', {
         hour: '2-digit',
         minute: '2-digit',
@@ -95,7 +107,7 @@ export default function BitcoinChart({
     datasets: [
       {
         label: 'Bitcoin Price (USD)',
-        data: priceHistory.map(item => item.price),
+        data: candles.map(item => item.close),
         borderColor: '#f97316', // orange-500
         backgroundColor: 'rgba(249, 115, 22, 0.1)',
         borderWidth: 2,
@@ -131,16 +143,13 @@ export default function BitcoinChart({
         borderWidth: 1,
         callbacks: {
           label: function(context) {
-            const value = context.parsed.y;
-            const change = context.dataIndex > 0 
-              ? context.parsed.y - priceHistory[context.dataIndex - 1]?.price 
-              : 0;
-            const changePercent = context.dataIndex > 0 
-              ? ((change / priceHistory[context.dataIndex - 1]?.price) * 100)
-              : 0;
+            const candle = candles[context.dataIndex];
+            const change = candle.close - candle.open;
+            const changePercent = candle.open > 0 ? (change / candle.open) * 100 : 0;
               
             return [
-              `Price: $${value.toLocaleString()}`,
+              `O: $${candle.open.toLocaleString()}  H: $${candle.high.toLocaleString()}`,
+              `L: $${candle.low.toLocaleString()}  C: $${candle.close.toLocaleString()}`,
               change !== 0 ? `Change: ${change >= 0 ? '+' : ''}$${change.toFixed(2)} (${changePercent >= 0 ? '+' : ''}${changePercent.toFixed(2)}%)` : ''
             ].filter(Boolean);
           },
@@ -184,12 +193,12 @@ export default function BitcoinChart({
   };
 
   // Calculate price statistics
-  const currentPrice = priceHistory.length > 0 ? priceHistory[priceHistory.length - 1]?.price : 0;
-  const firstPrice = priceHistory.length > 0 ? priceHistory[0]?.price : 0;
+  const currentPrice = candles.length > 0 ? candles[candles.length - 1].close : 0;
+  const firstPrice = candles.length > 0 ? candles[0].open : 0;
   const priceChange = currentPrice - firstPrice;
   const priceChangePercent = firstPrice > 0 ? (priceChange / firstPrice) * 100 : 0;
-  const high = Math.max(...priceHistory.map(p => p.price));
-  const low = Math.min(...priceHistory.map(p => p.price));
+  const high = Math.max(...candles.map(c => c.high));
+  const low = Math.min(...candles.map(c => c.low));
 
   if (loading) {
     return (
@@ -219,7 +228,7 @@ export default function BitcoinChart({
           <div className="text-center text-red-500">
             <p>⚠️ {error}</p>
             <button 
-              onClick={fetchPriceHistory}
+              onClick={fetchCandles}
               className="mt-2 px-4 py-2 bg-orange-500 text-white rounded hover:bg-orange-600 text-sm"
             >
               Retry
@@ -230,7 +239,7 @@ export default function BitcoinChart({
     );
   }
 
-  if (priceHistory.length === 0) {
+  if (candles.length === 0) {
     return (
       <div className={`bg-white rounded-lg shadow p-6 ${className}`}>
         <div className="flex items-center mb-4">
@@ -241,7 +250,7 @@ export default function BitcoinChart({
           <div className="text-center text-gray-800">
             <BarChart3 className="h-12 w-12 mx-auto mb-2 opacity-50" />
             <p>No price data available</p>
-            <p className="text-sm mt-1">Price updates every 10 minutes</p>
+            <p className="text-sm mt-1">Candles are built from live price ticks</p>
           </div>
         </div>
       </div>
@@ -286,7 +295,7 @@ export default function BitcoinChart({
 
       {/* Chart Info */}
       <div className="mt-3 text-xs text-gray-800 text-center">
-        Updates every 10 minutes • {priceHistory.length} data points • Source: {priceHistory[priceHistory.length - 1]?.source || 'Simulation'}
+        Updates every minute • {candles.length} × {interval} candles • Source: {candles[candles.length - 1]?.source || 'Simulation'}
       </div>
     </div>
   );
@@ -1,8 +1,9 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Info, Settings2, Zap } from 'lucide-react';
+import { Send, Bot, User, Info, Settings2, Zap, Square } from 'lucide-react';
 import MessageBubble from './MessageBubble';
+import type { ChatCommandAction } from '@/types/chat';
 
 interface Agent {
   id: string;
@@ -31,6 +32,9 @@ interface ChatInterfaceProps {
   agent: Agent;
   messages: ChatMessage[];
   onSendMessage: (content: string) => void;
+  streamingMessageId?: string | null; // Agent reply currently being streamed
+  onCancel?: () => void;
+  onCommandAction?: (messageId: string, action: ChatCommandAction) => void;
 }
 
 const getPersonalityLabel = (personality: string) => {
@@ -67,13 +71,17 @@ const getPersonalityColor = (personality: string) => {
   }
 };
 
-export default function ChatInterface({ agent, messages, onSendMessage }: ChatInterfaceProps) {
+export default function ChatInterface({ agent, messages, onSendMessage, streamingMessageId, onCancel, onCommandAction }: ChatInterfaceProps) {
   const [inputMessage, setInputMessage] = useState('');
   const [isTyping, setIsTyping] = useState(false);
   const [showInfo, setShowInfo] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
 
+  // Typing dots until the first token of a streamed reply arrives
+  const streamingMessage = messages.find((message) => message.id === streamingMessageId);
+  const showTypingIndicator = isTyping && !streamingMessage?.content;
+
   useEffect(() => {
     scrollToBottom();
   }, [messages]);
@@ -193,16 +201,20 @@ export default function ChatInterface({ agent, messages, onSendMessage }: ChatIn
           </div>
         ) : (
           <>
-            {messages.map((message) => (
-              <MessageBubble
-                key={message.id}
-                message={message}
-                agent={agent}
-              />
-            ))}
+            {messages
+              .filter((message) => message.id !== streamingMessageId || message.content)
+              .map((message) => (
+                <MessageBubble
+                  key={message.id}
+                  message={message}
+                  agent={agent}
+                  isStreaming={message.id === streamingMessageId}
+                  onCommandAction={onCommandAction}
+                />
+              ))}
             
             {/* Typing Indicator */}
-            {isTyping && (
+            {showTypingIndicator && (
               <div className="flex items-start gap-3 animate-fade-in">
                 <div className={`w-8 h-8 rounded-full flex items-center justify-center ${getPersonalityColor(agent.personality)} shadow-md`}>
                   <Bot className="h-4 w-4 text-white" />
@@ -252,13 +264,24 @@ export default function ChatInterface({ agent, messages, onSendMessage }: ChatIn
             )}
           </div>
           
-          <button
-            onClick={handleSendMessage}
-            disabled={!inputMessage.trim() || isTyping || !agent.isActive}
-            className="p-3 bg-gradient-to-r from-yellow-400 to-orange-400 hover:from-yellow-500 hover:to-orange-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-full transition-all duration-200 shrink-0 shadow-lg hover:shadow-xl transform hover:scale-105 active:scale-95"
-          >
-            <Send className="h-4 w-4" />
-          </button>
+          {isTyping && onCancel ? (
+            <button
+              onClick={onCancel}
+              disabled={!streamingMessageId}
+              className="p-3 bg-gray-700 hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-full transition-all duration-200 shrink-0 shadow-lg"
+              title="응답 중단"
+            >
+              <Square className="h-4 w-4" />
+            </button>
+          ) : (
+            <button
+              onClick={handleSendMessage}
+              disabled={!inputMessage.trim() || isTyping || !agent.isActive}
+              className="p-3 bg-gradient-to-r from-yellow-400 to-orange-400 hover:from-yellow-500 hover:to-orange-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-full transition-all duration-200 shrink-0 shadow-lg hover:shadow-xl transform hover:scale-105 active:scale-95"
+            >
+              <Send className="h-4 w-4" />
+            </button>
+          )}
         </div>
 
         {!agent.isActive && (
@@ -1,6 +1,7 @@
 'use client';
 
-import { User, Bot, AlertCircle, CheckCircle, TrendingUp, Settings } from 'lucide-react';
+import { User, Bot, AlertCircle, CheckCircle, TrendingUp, Settings, Undo2, X } from 'lucide-react';
+import type { ChatCommandAction, ChatCommandExecution } from '@/types/chat';
 
 interface Agent {
   id: string;
@@ -28,6 +29,8 @@ interface ChatMessage {
 interface MessageBubbleProps {
   message: ChatMessage;
   agent: Agent;
+  isStreaming?: boolean; // Reply still arriving; content is partial
+  onCommandAction?: (messageId: string, action: ChatCommandAction) => void;
 }
 
 const getPersonalityColor = (personality: string) => {
@@ -64,10 +67,18 @@ const parseMetadata = (metadata: string) => {
   }
 };
 
-export default function MessageBubble({ message, agent }: MessageBubbleProps) {
+const COMMAND_STATUS_LABELS: Record<ChatCommandExecution['status'], string> = {
+  pending: '확인 대기 중',
+  executed: '적용됨',
+  cancelled: '취소됨',
+  undone: '되돌림'
+};
+
+export default function MessageBubble({ message, agent, isStreaming = false, onCommandAction }: MessageBubbleProps) {
   const metadata = parseMetadata(message.metadata);
   const isUser = message.type === 'user';
   const isSystem = message.type === 'system';
+  const execution = metadata.execution as ChatCommandExecution | undefined;
 
   // System messages (notifications, confirmations, etc.)
   if (isSystem) {
@@ -129,7 +140,16 @@ export default function MessageBubble({ message, agent }: MessageBubbleProps) {
         
         <div className="relative">
           <div className="bg-white rounded-2xl px-4 py-3 shadow-md border border-gray-100 message-bubble">
-            <p className="text-sm leading-relaxed text-gray-800">{message.content}</p>
+            <p className="text-sm leading-relaxed text-gray-800 whitespace-pre-wrap">
+              {message.content}
+              {isStreaming && (
+                <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-gray-500 animate-pulse"></span>
+              )}
+            </p>
+
+            {metadata.cancelled && (
+              <div className="mt-2 text-xs text-gray-600">⏹ 응답이 중단되었습니다</div>
+            )}
             
             {/* Special content based on metadata */}
             {metadata.type === 'strategy_update' && (
@@ -166,6 +186,18 @@ export default function MessageBubble({ message, agent }: MessageBubbleProps) {
               </div>
             )}
             
+            {metadata.type === 'pattern_update' && (
+              <div className="mt-3 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+                <div className="flex items-center gap-2 text-sm text-blue-800">
+                  <TrendingUp className="h-4 w-4 text-blue-500" />
+                  <span className="font-medium">패턴이 {metadata.action}되었습니다</span>
+                </div>
+                <div className="mt-2 text-xs text-blue-700">
+                  <p><strong>{metadata.patternName}</strong></p>
+                </div>
+              </div>
+            )}
+
             {metadata.type === 'watchlist_update' && (
               <div className="mt-3 p-3 bg-purple-50 border border-purple-200 rounded-lg">
                 <div className="flex items-center gap-2 text-sm text-purple-800">
@@ -180,8 +212,45 @@ export default function MessageBubble({ message, agent }: MessageBubbleProps) {
               </div>
             )}
             
+            {/* Proposed command: confirm or cancel, then undo once applied */}
+            {execution && !isStreaming && (
+              <div className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                <div className="flex items-center justify-between gap-2 text-xs text-yellow-800">
+                  <span className="font-medium">{execution.summary}</span>
+                  <span className="shrink-0 text-yellow-700">{COMMAND_STATUS_LABELS[execution.status]}</span>
+                </div>
+                {onCommandAction && execution.status === 'pending' && (
+                  <div className="mt-2 flex gap-2">
+                    <button
+                      onClick={() => onCommandAction(message.id, 'confirm')}
+                      className="flex items-center gap-1 px-3 py-1 text-xs font-medium text-white bg-yellow-500 hover:bg-yellow-600 rounded-lg transition-colors"
+                    >
+                      <CheckCircle className="h-3 w-3" />
+                      확인
+                    </button>
+                    <button
+                      onClick={() => onCommandAction(message.id, 'cancel')}
+                      className="flex items-center gap-1 px-3 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-200 hover:bg-gray-50 rounded-lg transition-colors"
+                    >
+                      <X className="h-3 w-3" />
+                      취소
+                    </button>
+                  </div>
+                )}
+                {onCommandAction && execution.status === 'executed' && (
+                  <button
+                    onClick={() => onCommandAction(message.id, 'undo')}
+                    className="mt-2 flex items-center gap-1 px-3 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-200 hover:bg-gray-50 rounded-lg transition-colors"
+                  >
+                    <Undo2 className="h-3 w-3" />
+                    되돌리기
+                  </button>
+                )}
+              </div>
+            )}
+
             {/* Suggested actions */}
-            {metadata.suggestions && (
+            {!isStreaming && metadata.suggestions && (
               <div className="mt-3 space-y-1">
                 {metadata.suggestions.map((suggestion: string, index: number) => (
                   <button
@@ -5,6 +5,7 @@
 import { useEffect, useState } from 'react';
 import { X, Trophy, TrendingUp, AlertTriangle, Info, CheckCircle } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import type { PriceAlertEvent } from '@/types/alerts';
 
 export interface Notification {
   id: string;
@@ -26,11 +27,13 @@ export interface NotificationAction {
 interface NotificationSystemProps {
   maxNotifications?: number;
   position?: 'top-right' | 'top-left' | 'bottom-right' | 'bottom-left';
+  alertStreamUrl?: string | null; // Server-sent price alerts; null to disable
 }
 
 export function NotificationSystem({ 
   maxNotifications = 5, 
-  position = 'top-right' 
+  position = 'top-right',
+  alertStreamUrl = '/api/alerts/stream'
 }: NotificationSystemProps) {
   const [notifications, setNotifications] = useState<Notification[]>([]);
 
@@ -46,6 +49,25 @@ export function NotificationSystem({
     };
   }, []);
 
+  // Price alerts fired on the server; EventSource reconnects with Last-Event-ID itself
+  useEffect(() => {
+    if (!alertStreamUrl || typeof EventSource === 'undefined') return;
+
+    const source = new EventSource(alertStreamUrl);
+    source.onmessage = (event) => {
+      try {
+        const data = JSON.parse(event.data);
+        if (data.type === 'alert') {
+          showPriceAlertEventNotification(data.alert);
+        }
+      } catch (error) {
+        console.error('Failed to parse price alert:', error);
+      }
+    };
+
+    return () => source.close();
+  }, [alertStreamUrl]);
+
   const addNotification = (notification: Notification) => {
     setNotifications(prev => {
       const updated = [notification, ...prev];
@@ -271,6 +293,31 @@ export const showPriceAlertNotification = (price: number, targetPrice: number) =
   });
 };
 
+export const showPriceAlertEventNotification = (alert: PriceAlertEvent) => {
+  const price = `$${alert.price.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+  const threshold = `$${alert.threshold.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+  const message =
+    alert.reason === 'change'
+      ? `${alert.name} moved ${alert.changePercent! > 0 ? '+' : ''}${alert.changePercent!.toFixed(2)}% from ${threshold} to ${price}`
+      : alert.reason === 'cross'
+        ? `${alert.name} crossed ${alert.direction === 'up' ? 'above' : 'below'} ${threshold} (now ${price})`
+        : `${alert.name} is ${alert.reason} ${threshold} (now ${price})`;
+
+  showNotification({
+    type: 'price_alert',
+    title: `Price Alert: ${alert.symbol}`,
+    message,
+    duration: 8000,
+    actions: [
+      {
+        label: alert.target === 'agent_watchlist' ? 'View Agent' : 'Trade Now',
+        action: () => window.location.href = alert.target === 'agent_watchlist' ? `/agents/${alert.ownerId}` : '/trade',
+        variant: 'primary'
+      }
+    ]
+  });
+};
+
 export const showErrorNotification = (title: string, message: string) => {
   showNotification({
     type: 'error',
@@ -295,6 +342,7 @@ export function useNotifications() {
     showAchievementNotification,
     showTradeNotification,
     showPriceAlertNotification,
+    showPriceAlertEventNotification,
     showErrorNotification,
     showSuccessNotification,
   };
@@ -34,11 +34,13 @@ import {
 
 interface PerformanceMetricsProps {
   metrics: PerformanceMetrics;
+  heatmap?: HeatmapData[]; // Monthly returns with trade counts; derived from metrics when omitted
   onBenchmarkCompare?: () => void;
 }
 
 export default function PerformanceMetricsComponent({ 
   metrics, 
+  heatmap,
   onBenchmarkCompare 
 }: PerformanceMetricsProps) {
   const [selectedChart, setSelectedChart] = useState<'equity' | 'returns' | 'drawdown'>('equity');
@@ -92,16 +94,18 @@ export default function PerformanceMetricsComponent({
 
   // Prepare monthly returns heatmap data
   const heatmapData: HeatmapData[] = useMemo(() => {
+    if (heatmap) return heatmap;
+
     return Object.entries(metrics.monthlyReturns).map(([yearMonth, returnValue]) => {
       const [year, month] = yearMonth.split('-');
       return {
         month: month,
         year: parseInt(year),
         return: returnValue,
-        trades: 0, // This would need to be calculated from trade data
+        trades: 0,
       };
     });
-  }, [metrics.monthlyReturns]);
+  }, [heatmap, metrics.monthlyReturns]);
 
   // Get heatmap color based on return value
   const getHeatmapColor = (value: number) => {
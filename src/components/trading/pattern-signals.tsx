@@ -0,0 +1,105 @@
+// Live feed of pattern signals from the signal scanner
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Radar, TrendingUp, TrendingDown } from 'lucide-react';
+import { formatCurrency, formatRelativeTime, cn } from '@/lib/utils';
+import type { PatternSignal } from '@/types/signals';
+
+interface PatternSignalsProps {
+  className?: string;
+  agentId?: string;
+  limit?: number;
+}
+
+export function PatternSignals({ className, agentId, limit = 10 }: PatternSignalsProps) {
+  const [signals, setSignals] = useState<PatternSignal[]>([]);
+  const [connected, setConnected] = useState(false);
+
+  // Recorded signals first, then new ones as the scanner publishes them
+  useEffect(() => {
+    const query = new URLSearchParams({ limit: String(limit) });
+    if (agentId) query.set('agentId', agentId);
+
+    fetch(`/api/technical-indicators/signals?${query}`)
+      .then((response) => response.json())
+      .then((result) => {
+        if (result.success) setSignals(result.patternSignals || []);
+      })
+      .catch((error) => console.error('Failed to load pattern signals:', error));
+
+    if (typeof EventSource === 'undefined') return;
+
+    // EventSource reconnects with Last-Event-ID itself
+    const source = new EventSource(`/api/technical-indicators/signals/stream${agentId ? `?agentId=${agentId}` : ''}`);
+    source.onopen = () => setConnected(true);
+    source.onerror = () => setConnected(false);
+    source.onmessage = (event) => {
+      try {
+        const data = JSON.parse(event.data);
+        if (data.type === 'signal') {
+          setSignals((previous) =>
+            [data.signal, ...previous.filter((signal) => signal.id !== data.signal.id)].slice(0, limit)
+          );
+        }
+      } catch (error) {
+        console.error('Failed to parse pattern signal:', error);
+      }
+    };
+
+    return () => source.close();
+  }, [agentId, limit]);
+
+  return (
+    <div className={cn('bg-white rounded-lg shadow p-6', className)}>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold flex items-center">
+          <Radar className="h-5 w-5 mr-2 text-indigo-600" />
+          패턴 시그널
+        </h3>
+        <span className={cn('text-xs', connected ? 'text-green-600' : 'text-gray-500')}>
+          {connected ? '● 실시간' : '○ 연결 대기'}
+        </span>
+      </div>
+
+      {signals.length === 0 ? (
+        <p className="py-6 text-center text-sm text-gray-800">
+          아직 발생한 시그널이 없습니다. 패턴에 실행 규칙을 추가하면 새 캔들마다 검사합니다.
+        </p>
+      ) : (
+        <ul className="divide-y">
+          {signals.map((signal) => (
+            <li key={signal.id} className="py-3 flex items-center justify-between">
+              <div className="flex items-center">
+                {signal.direction === 'BUY' ? (
+                  <TrendingUp className="h-5 w-5 mr-3 text-green-600" />
+                ) : (
+                  <TrendingDown className="h-5 w-5 mr-3 text-red-600" />
+                )}
+                <div>
+                  <p className="font-bold text-gray-900">
+                    {signal.patternName}
+                    <span className={cn(
+                      'ml-2 px-2 py-0.5 text-xs font-medium rounded-full',
+                      signal.direction === 'BUY' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                    )}>
+                      {signal.direction === 'BUY' ? '매수' : '매도'}
+                    </span>
+                  </p>
+                  <p className="text-sm text-gray-700">
+                    {signal.agentName} · {signal.symbol} {signal.interval} · 강도 {signal.strength.toFixed(0)}
+                  </p>
+                </div>
+              </div>
+              <div className="text-right">
+                <p className="font-bold text-gray-800">{formatCurrency(signal.price)}</p>
+                <p className="text-xs text-gray-600">{formatRelativeTime(signal.timestamp)}</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -51,7 +51,7 @@ export function TradingDashboard({ className }: TradingDashboardProps) {
   const { showTradeNotification, showErrorNotification, showSuccessNotification } = useNotifications();
 
   const currentPrice = chartData?.metadata?.latestPrice || 0;
-  const portfolio = portfolioData?.portfolio;
+  const portfolio = portfolioData?.data;
 
   // Chart configuration
   const chartOptions = useMemo(() => ({
@@ -0,0 +1,120 @@
+// Price alert rules: decides whether a new price fires an item's alert and how its
+// trigger state moves on. Pure, so the service and the test script share it.
+
+import type {
+  PriceAlertConfig,
+  PriceAlertEvaluation,
+  PriceAlertHit,
+  PriceAlertRule,
+  PriceAlertState
+} from '@/types/alerts';
+
+export const DEFAULT_PRICE_ALERT_CONFIG: PriceAlertConfig = {
+  cooldownMs: 15 * 60 * 1000,
+  rearmPercent: 0.5,
+  sweepIntervalMs: 60 * 1000
+};
+
+export function hasActiveRule(rule: PriceAlertRule): boolean {
+  return (!!rule.alertPrice && !!rule.alertType) || !!rule.alertPercent;
+}
+
+/**
+ * Level rule. 'above' and 'below' fire while the price is past alertPrice; 'both'
+ * fires when the price crosses it in either direction. Once fired the rule stays
+ * latched until the price moves back by rearmPercent, so it cannot fire again on
+ * the tick that re-arms it or while the price jitters around the level.
+ */
+function evaluateLevel(
+  rule: PriceAlertRule,
+  state: PriceAlertState,
+  price: number,
+  config: PriceAlertConfig
+): { hit: PriceAlertHit | null; triggered: boolean } {
+  const level = rule.alertPrice!;
+  const band = (level * config.rearmPercent) / 100;
+
+  if (state.triggered) {
+    const rearmed =
+      rule.alertType === 'above' ? price <= level - band :
+      rule.alertType === 'below' ? price >= level + band :
+      Math.abs(price - level) >= band;
+    return { hit: null, triggered: !rearmed };
+  }
+
+  if (rule.alertType === 'above' && price >= level) {
+    return { hit: { reason: 'above', direction: 'up', threshold: level }, triggered: true };
+  }
+  if (rule.alertType === 'below' && price <= level) {
+    return { hit: { reason: 'below', direction: 'down', threshold: level }, triggered: true };
+  }
+  if (rule.alertType === 'both' && state.lastPrice !== null) {
+    if (state.lastPrice < level && price >= level) {
+      return { hit: { reason: 'cross', direction: 'up', threshold: level }, triggered: true };
+    }
+    if (state.lastPrice > level && price <= level) {
+      return { hit: { reason: 'cross', direction: 'down', threshold: level }, triggered: true };
+    }
+  }
+  return { hit: null, triggered: false };
+}
+
+/**
+ * Evaluate one item's rules against a new price. The percent rule measures from
+ * basePrice (the first price seen, then the price at each alert). Within the
+ * cooldown nothing fires: level alerts stay armed and fire once it ends if the
+ * price is still past the level, and the percent rule keeps its base.
+ */
+export function evaluatePriceAlert(
+  rule: PriceAlertRule,
+  state: PriceAlertState,
+  price: number,
+  now: Date = new Date(),
+  config: PriceAlertConfig = DEFAULT_PRICE_ALERT_CONFIG
+): PriceAlertEvaluation {
+  const next: PriceAlertState = { ...state, lastPrice: price };
+  const coolingDown = !!state.lastAlertAt && now.getTime() - state.lastAlertAt.getTime() < config.cooldownMs;
+  let hit: PriceAlertHit | null = null;
+
+  if (rule.alertPrice && rule.alertType) {
+    const level = evaluateLevel(rule, state, price, config);
+    if (!(level.hit && coolingDown)) {
+      hit = level.hit;
+      next.triggered = level.triggered;
+    }
+  } else {
+    next.triggered = false;
+  }
+
+  if (rule.alertPercent) {
+    if (!state.basePrice) {
+      next.basePrice = price;
+    } else {
+      const changePercent = ((price - state.basePrice) / state.basePrice) * 100;
+      if (Math.abs(changePercent) >= rule.alertPercent && !coolingDown) {
+        hit ??= {
+          reason: 'change',
+          direction: changePercent > 0 ? 'up' : 'down',
+          threshold: state.basePrice,
+          changePercent
+        };
+        next.basePrice = price;
+      }
+    }
+  } else {
+    next.basePrice = null;
+  }
+
+  if (hit) {
+    next.lastAlertAt = now;
+  }
+
+  return {
+    hit,
+    state: next,
+    changed:
+      next.triggered !== state.triggered ||
+      next.lastAlertAt !== state.lastAlertAt ||
+      next.basePrice !== state.basePrice
+  };
+}
@@ -0,0 +1,33 @@
+// Who may change an agent, its patterns and its watchlist: the user who created it, and
+// operators. Agents without an owner, such as the seeded ones, are left to operators.
+
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/prisma-client';
+import { forbiddenResponse, isOperator } from './current-user';
+import type { CurrentUser } from '@/types/auth';
+
+/**
+ * Whether the user may change an agent with this owner
+ */
+export function canManageAgent(user: CurrentUser, agent: { ownerId: string | null }): boolean {
+  return (!!agent.ownerId && agent.ownerId === user.id) || isOperator(user);
+}
+
+/**
+ * Response that turns the write away (404 for an unknown agent, 403 for someone else's),
+ * or null when the user may change the agent
+ */
+export async function checkAgentWrite(user: CurrentUser, agentId: string): Promise<NextResponse | null> {
+  const agent = await prisma.agent.findUnique({
+    where: { id: agentId },
+    select: { ownerId: true }
+  });
+
+  if (!agent) {
+    return NextResponse.json(
+      { success: false, message: 'Agent not found' },
+      { status: 404 }
+    );
+  }
+  return canManageAgent(user, agent) ? null : forbiddenResponse('Only the owner of this agent can change it');
+}
@@ -0,0 +1,43 @@
+// What an API key may call. Each rule names the scope a key needs for some methods on some
+// paths; a key can only act as its user on routes listed here. Routes that are public for
+// browsers and not listed stay public for keys too.
+
+import type { ApiKeyScope } from '@/types/auth';
+
+export const API_KEY_SCOPES = [
+  'read:portfolio',
+  'trade',
+  'read:notes',
+  'notes:write',
+  'read:watchlist',
+  'watchlist:write',
+  'manage:agents'
+] as const satisfies readonly ApiKeyScope[];
+
+const READ = ['GET', 'HEAD'];
+const WRITE = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+// First match wins
+const SCOPE_RULES: Array<{ path: RegExp; methods: string[]; scope: ApiKeyScope }> = [
+  { path: /^\/api\/(portfolio|trades|orders|ai-trade)(\/|$)/, methods: READ, scope: 'read:portfolio' },
+  { path: /^\/api\/(portfolio|trade|orders|ai-trade)(\/|$)/, methods: WRITE, scope: 'trade' },
+  { path: /^\/api\/agents\/[^/]+\/(trades|performance)\/?$/, methods: READ, scope: 'read:portfolio' },
+  { path: /^\/api\/agents\/[^/]+\/trades\/?$/, methods: ['POST'], scope: 'trade' },
+  // Backtests and pattern evaluation only read candles and stay public
+  { path: /^\/api\/agents\/?$/, methods: ['POST'], scope: 'manage:agents' },
+  { path: /^\/api\/agents\/[^/]+\/?$/, methods: ['PUT', 'PATCH', 'DELETE'], scope: 'manage:agents' },
+  { path: /^\/api\/agents\/[^/]+\/(patterns|watchlist)\/?$/, methods: ['POST'], scope: 'manage:agents' },
+  { path: /^\/api\/agents\/[^/]+\/(patterns|watchlist)\/[^/]+\/?$/, methods: ['PUT', 'DELETE'], scope: 'manage:agents' },
+  { path: /^\/api\/trading-notes(\/|$)/, methods: READ, scope: 'read:notes' },
+  { path: /^\/api\/trading-notes(\/|$)/, methods: WRITE, scope: 'notes:write' },
+  { path: /^\/api\/watchlist(\/|$)/, methods: READ, scope: 'read:watchlist' },
+  { path: /^\/api\/watchlist(\/|$)/, methods: WRITE, scope: 'watchlist:write' }
+];
+
+/**
+ * Scope a key needs for a request, or null when keys cannot act as a user there
+ */
+export function requiredScope(pathname: string, method: string): ApiKeyScope | null {
+  const upperMethod = method.toUpperCase();
+  return SCOPE_RULES.find((rule) => rule.path.test(pathname) && rule.methods.includes(upperMethod))?.scope ?? null;
+}
@@ -0,0 +1,85 @@
+// Current user of a request, read from the access token in the auth-token cookie, or from an
+// API key in the Authorization header. The middleware turns away requests without a valid
+// token (refreshing expired ones) or key before they reach protected routes; routes still
+// resolve the user themselves and scope every query by its id.
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { sessionService } from '@/lib/services/session-service';
+import { apiKeyService } from '@/lib/services/api-key-service';
+import { AUTH_COOKIE, verifyAuthToken } from './tokens';
+import { requiredScope } from './api-key-scopes';
+import type { CurrentUser, SessionClientInfo } from '@/types/auth';
+
+/**
+ * User signed in on this request, or null when the cookie is missing or invalid, or its
+ * session was logged out or revoked. A request with an API key is that key's user only
+ * when the key holds the scope the route needs.
+ */
+export async function getCurrentUser(
+  request: Pick<NextRequest, 'cookies' | 'headers' | 'method' | 'nextUrl'>
+): Promise<CurrentUser | null> {
+  const apiKey = getBearerToken(request);
+  if (apiKey) {
+    const scope = requiredScope(request.nextUrl.pathname, request.method);
+    return scope ? apiKeyService.verify(apiKey, scope) : null;
+  }
+
+  const token = request.cookies.get(AUTH_COOKIE)?.value;
+  const payload = token ? verifyAuthToken(token) : null;
+  if (!payload || !(await sessionService.isActive(payload.sid, payload.userId))) {
+    return null;
+  }
+
+  return { id: payload.userId, email: payload.email, username: payload.username, sessionId: payload.sid };
+}
+
+/**
+ * Key from an `Authorization: Bearer <key>` header, or null when there is none
+ */
+export function getBearerToken(request: Pick<NextRequest, 'headers'>): string | null {
+  const match = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)\s*$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * User agent and address a session is recorded with
+ */
+export function getSessionClientInfo(request: Pick<NextRequest, 'headers'>): SessionClientInfo {
+  const forwardedFor = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return {
+    userAgent: request.headers.get('user-agent'),
+    ipAddress: forwardedFor || request.headers.get('x-real-ip')
+  };
+}
+
+/**
+ * 401 response for requests without a signed-in user
+ */
+export function unauthorizedResponse(): NextResponse {
+  return NextResponse.json(
+    { success: false, code: 'UNAUTHORIZED', message: 'Authentication required' },
+    { status: 401 }
+  );
+}
+
+/**
+ * Whether the user may run operator actions, such as starting or stopping the schedulers.
+ * Operators are the users whose email is listed in OPERATOR_EMAILS (comma separated).
+ */
+export function isOperator(user: Pick<CurrentUser, 'email'>): boolean {
+  const operators = (process.env.OPERATOR_EMAILS || '')
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+  return operators.includes(user.email.toLowerCase());
+}
+
+/**
+ * 403 response for signed-in users who may not perform the action
+ */
+export function forbiddenResponse(message = 'Operator access required'): NextResponse {
+  return NextResponse.json(
+    { success: false, code: 'FORBIDDEN', message },
+    { status: 403 }
+  );
+}
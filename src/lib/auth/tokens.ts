@@ -0,0 +1,95 @@
+// Access and refresh tokens and the cookies that carry them.
+// Access tokens are short-lived JWTs naming the user and their session. Refresh tokens are
+// opaque `<sessionId>.<secret>` strings; only their hash is stored, on the Session row.
+
+import jwt from 'jsonwebtoken';
+import { createHash, randomBytes } from 'crypto';
+import type { NextResponse } from 'next/server';
+import type { JWTPayload } from '@/types/auth';
+
+export const AUTH_COOKIE = 'auth-token';
+export const REFRESH_COOKIE = 'refresh-token';
+
+export const ACCESS_TOKEN_TTL_SECONDS = parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS || '900'); // 15 minutes
+export const REFRESH_TOKEN_TTL_SECONDS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30') * 24 * 60 * 60;
+
+const DEFAULT_JWT_SECRET = 'your-super-secure-jwt-secret-key-change-this-in-production';
+
+/**
+ * Secret tokens are signed and verified with, from JWT_SECRET
+ */
+export function getJwtSecret(): string {
+  return process.env.JWT_SECRET || DEFAULT_JWT_SECRET;
+}
+
+export function isDefaultJwtSecret(): boolean {
+  return getJwtSecret() === DEFAULT_JWT_SECRET;
+}
+
+export function signAccessToken(payload: Pick<JWTPayload, 'userId' | 'email' | 'username' | 'sid'>): string {
+  return jwt.sign(payload, getJwtSecret(), { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+}
+
+/**
+ * Payload of a token with a valid signature that has not expired, otherwise null.
+ * Whether its session is still active is checked by getCurrentUser.
+ */
+export function verifyAuthToken(token: string): JWTPayload | null {
+  try {
+    const payload = jwt.verify(token, getJwtSecret(), { algorithms: ['HS256'] });
+    if (
+      typeof payload !== 'object' ||
+      typeof payload.userId !== 'string' || !payload.userId ||
+      typeof payload.sid !== 'string' || !payload.sid
+    ) {
+      return null;
+    }
+    return payload as JWTPayload;
+  } catch {
+    return null;
+  }
+}
+
+export function createRefreshToken(sessionId: string): string {
+  return `${sessionId}.${randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * Session a refresh token was issued for, or null when it is not one of ours
+ */
+export function parseRefreshToken(token: string): string | null {
+  const [sessionId, secret, ...rest] = token.split('.');
+  return sessionId && secret && rest.length === 0 ? sessionId : null;
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+const cookieOptions = (maxAge: number) => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  maxAge,
+  path: '/'
+});
+
+/**
+ * Set the access token cookie, and the refresh token cookie when it rotated
+ */
+export function setAuthCookies(
+  response: NextResponse,
+  tokens: { accessToken: string; refreshToken?: string | null }
+): NextResponse {
+  response.cookies.set(AUTH_COOKIE, tokens.accessToken, cookieOptions(ACCESS_TOKEN_TTL_SECONDS));
+  if (tokens.refreshToken) {
+    response.cookies.set(REFRESH_COOKIE, tokens.refreshToken, cookieOptions(REFRESH_TOKEN_TTL_SECONDS));
+  }
+  return response;
+}
+
+export function clearAuthCookies(response: NextResponse): NextResponse {
+  response.cookies.set(AUTH_COOKIE, '', cookieOptions(0));
+  response.cookies.set(REFRESH_COOKIE, '', cookieOptions(0));
+  return response;
+}
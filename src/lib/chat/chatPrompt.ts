@@ -0,0 +1,52 @@
+// Builds LLM chat messages for an agent conversation
+import { generatePrompt } from '@/lib/prompts/prompt-templates';
+import type { LLMMessage } from '@/types/llm';
+
+const HISTORY_LIMIT = 10; // Earlier messages sent along as conversation context
+
+interface ChatAgent {
+  name: string;
+  personality: string;
+  strategy: string; // JSON array as stored on the agent
+  description: string;
+  patterns?: Array<{ name: string; description: string; confidenceRate: number; isActive: boolean }>;
+}
+
+interface ChatHistoryMessage {
+  type: string; // 'user' | 'agent' | 'system'
+  content: string;
+}
+
+function parseStrategy(strategy: string): string[] {
+  try {
+    const parsed = JSON.parse(strategy);
+    return Array.isArray(parsed) ? parsed : [strategy];
+  } catch {
+    return [strategy];
+  }
+}
+
+/**
+ * System prompt from the agent's prompt template, recent history, then the new user message
+ */
+export function buildChatMessages(agent: ChatAgent, history: ChatHistoryMessage[], message: string): LLMMessage[] {
+  const systemPrompt = generatePrompt({
+    ...agent,
+    strategy: parseStrategy(agent.strategy),
+    patterns: agent.patterns?.filter(p => p.isActive)
+  });
+
+  const context: LLMMessage[] = history
+    .filter(m => m.type === 'user' || m.type === 'agent')
+    .slice(-HISTORY_LIMIT)
+    .map(m => ({ role: m.type === 'user' ? 'user' : 'assistant', content: m.content }));
+
+  return [
+    {
+      role: 'system',
+      content: `${systemPrompt}\n\n## 대화 규칙\n사용자와 한국어로 대화하며, ${agent.name}의 성향과 전략에 맞게 간결하게 답변하세요.`
+    },
+    ...context,
+    { role: 'user', content: message }
+  ];
+}
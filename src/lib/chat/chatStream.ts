@@ -0,0 +1,121 @@
+// Client for the streaming chat endpoint: reads SSE frames from fetch, resumes
+// with Last-Event-ID when the connection drops and cancels replies on request.
+
+import { TERMINAL_CHAT_EVENTS, type ChatStreamEvent } from '@/types/chat';
+
+const MAX_RESUME_ATTEMPTS = 3;
+const RESUME_DELAY_MS = 1000;
+
+export interface ChatStreamOptions {
+  onEvent: (event: ChatStreamEvent) => void;
+  signal?: AbortSignal;
+  metadata?: string;
+}
+
+/**
+ * Parse "data:" frames from an SSE response body; comments (keep-alives) are skipped
+ */
+export async function* readChatEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+
+        const data = frame
+          .split('\n')
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trimStart())
+          .join('\n');
+        if (data) {
+          yield JSON.parse(data) as ChatStreamEvent;
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+async function readError(response: Response): Promise<Error> {
+  try {
+    const data = await response.json();
+    return new Error(data.error || data.message || `Chat stream failed (${response.status})`);
+  } catch {
+    return new Error(`Chat stream failed (${response.status})`);
+  }
+}
+
+/**
+ * Send a message and deliver the reply's events until it finishes.
+ * A dropped connection is resumed from the last received event.
+ */
+export async function streamChatReply(agentId: string, content: string, options: ChatStreamOptions): Promise<void> {
+  const { onEvent, signal, metadata } = options;
+  let streamId: string | null = null;
+  let lastEventId = 0;
+  let attempts = 0;
+
+  let response = await fetch(`/api/chat/${agentId}/stream`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ content, metadata }),
+    signal
+  });
+
+  while (true) {
+    if (!response.ok || !response.body) {
+      throw await readError(response);
+    }
+    streamId = response.headers.get('X-Chat-Stream-Id') || streamId;
+
+    try {
+      for await (const event of readChatEvents(response.body)) {
+        if (event.id <= lastEventId) continue;
+        lastEventId = event.id;
+        if (event.type === 'start') streamId = event.streamId;
+
+        onEvent(event);
+        if (TERMINAL_CHAT_EVENTS.includes(event.type)) return;
+        attempts = 0;
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn('Chat stream interrupted:', error);
+    }
+
+    // Connection closed before the reply finished
+    if (!streamId || attempts >= MAX_RESUME_ATTEMPTS) {
+      throw new Error('Chat stream connection lost');
+    }
+    attempts++;
+    await new Promise((resolve) => setTimeout(resolve, RESUME_DELAY_MS * attempts));
+
+    response = await fetch(`/api/chat/${agentId}/stream?streamId=${encodeURIComponent(streamId)}`, {
+      headers: { 'Last-Event-ID': String(lastEventId) },
+      signal
+    });
+  }
+}
+
+/**
+ * Stop a reply in progress; the stream then ends with a 'cancelled' event
+ */
+export async function cancelChatReply(agentId: string, streamId: string): Promise<void> {
+  const response = await fetch(`/api/chat/${agentId}/stream?streamId=${encodeURIComponent(streamId)}`, {
+    method: 'DELETE'
+  });
+  if (!response.ok) {
+    throw await readError(response);
+  }
+}
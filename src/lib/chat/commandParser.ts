@@ -1,5 +1,7 @@
 // Natural language command parser for agent chat interactions
-import { Agent, Pattern, AgentWatchlistItem } from '@/types/game';
+import { Agent, Pattern, AgentWatchlistItem, WatchlistCategory } from '@/types/game';
+import type { ChatCommandPlan, PlannedWatchlistItem } from '@/types/chat';
+import { parsePatternRule } from '@/lib/patterns/pattern-rules';
 
 export interface ParsedCommand {
   type: 'strategy' | 'pattern' | 'watchlist' | 'info' | 'general';
@@ -12,13 +14,14 @@ export interface ParsedCommand {
 // Korean language patterns for different commands
 const COMMAND_PATTERNS = {
   strategy: [
-    /전략.*?(추가|수정|변경|바꿔|업데이트)/i,
+    /전략.*?(추가|수정|변경|바꿔|업데이트|삭제|제거|빼)/i,
     /매매.*?전략/i,
     /투자.*?방법/i,
     /(포트폴리오|자산).*?(조정|리밸런싱)/i
   ],
   pattern: [
     /패턴.*?(추가|생성|만들어|새로)/i,
+    /패턴.*?(삭제|제거|빼|없애|수정|변경|바꿔|조정)/i,
     /매매.*?패턴/i,
     /거래.*?(규칙|패턴)/i,
     /기술.*?분석.*?패턴/i,
@@ -307,7 +310,7 @@ export function validateCommand(command: ParsedCommand, agent: Agent): {
   // Validate strategy commands
   if (command.type === 'strategy' && command.action === 'add') {
     const maxStrategies = 10; // Arbitrary limit
-    const currentStrategies = JSON.parse(agent.strategy || '[]').length;
+    const currentStrategies = agent.strategy.length;
     
     if (currentStrategies >= maxStrategies) {
       return {
@@ -347,4 +350,229 @@ export function validateCommand(command: ParsedCommand, agent: Agent): {
   }
 
   return { valid: true };
-}
\ No newline at end of file
+}
+
+const SYMBOL_NAMES: Record<string, string> = {
+  BTC: 'Bitcoin',
+  ETH: 'Ethereum',
+  ADA: 'Cardano',
+  SOL: 'Solana',
+  DOGE: 'Dogecoin',
+  LINK: 'Chainlink',
+  BNB: 'BNB',
+  XRP: 'XRP'
+};
+
+const STRATEGY_LABELS: Record<string, string> = {
+  DCA: '분할 매수(DCA)로 평균 단가 관리',
+  momentum: '모멘텀/추세 추종 매매',
+  value: '가치 투자 관점의 장기 보유'
+};
+
+// How an agent's existing strategy text mentions each strategy type
+const STRATEGY_KEYWORDS: Record<string, RegExp> = {
+  DCA: /DCA|분할.*?매수|평균.*?단가/i,
+  momentum: /모멘텀|추세|momentum/i,
+  value: /가치|value/i
+};
+
+const PERSONALITY_CATEGORIES: Record<string, WatchlistCategory> = {
+  conservative: '안전자산',
+  aggressive: '모멘텀',
+  balanced: '장기투자',
+  quantitative: '단기트레이딩',
+  contrarian: '가치투자'
+};
+
+const PERSONALITY_VIEWS: Record<string, string> = {
+  conservative: '리스크를 관리하며 장기적인 흐름을 지켜보겠습니다.',
+  aggressive: '강한 추세가 나오면 빠르게 대응하겠습니다.',
+  balanced: '수익과 위험의 균형을 보며 진입 시점을 판단하겠습니다.',
+  quantitative: '지표와 통계가 신호를 줄 때 판단하겠습니다.',
+  contrarian: '시장 심리가 한쪽으로 쏠릴 때 반대 기회를 찾겠습니다.'
+};
+
+// Text in quotes, e.g. 패턴 "골든크로스 돌파" 추가해줘
+function quotedText(message: string): string | undefined {
+  return message.match(/["“'‘「]([^"”'’」]+)["”'’」]/)?.[1]?.trim();
+}
+
+// An executable rule written after "규칙:" / "조건:" / "rule:", if it parses
+function ruleText(message: string): string | undefined {
+  const rule = message.match(/(?:규칙|조건|rule)\s*[:：]\s*`?([^`\n]+)`?/i)?.[1]?.trim();
+  if (!rule) return undefined;
+  try {
+    return parsePatternRule(rule).source;
+  } catch {
+    return undefined;
+  }
+}
+
+// The one active pattern the message refers to, by quoted name or indicator
+function findTargetPattern(command: ParsedCommand, agent: Agent): Pattern | null {
+  const quoted = quotedText(command.originalMessage)?.toLowerCase();
+  const indicators: string[] = (command.parameters.technicalIndicators || []).map((i: string) => i.toLowerCase());
+
+  const matches = (agent.patterns || []).filter(pattern => {
+    if (!pattern.isActive) return false;
+    const text = `${pattern.name} ${pattern.description}`.toLowerCase();
+    if (quoted) return pattern.name.toLowerCase().includes(quoted);
+    return indicators.length > 0 && indicators.some(indicator => text.includes(indicator));
+  });
+
+  return matches.length === 1 ? matches[0] : null;
+}
+
+// Prices that are not just the numbers of percentages in the message
+function alertPriceFrom(parameters: ParsedCommand['parameters']): number | undefined {
+  const percentages: number[] = parameters.percentages || [];
+  return (parameters.prices as number[] | undefined)?.find(price => price > 0 && !percentages.includes(price));
+}
+
+function describePlan(plan: ChatCommandPlan): string {
+  const alert = (item: { alertPrice?: number; alertType?: string }) =>
+    item.alertPrice ? ` ($${item.alertPrice.toLocaleString()} ${item.alertType || 'both'} 알림)` : '';
+
+  switch (plan.kind) {
+    case 'pattern.create':
+      return `새 패턴 '${plan.pattern.name}'을(를) 신뢰도 ${plan.pattern.confidenceRate}%, 우선순위 ${plan.pattern.priority}로 추가합니다.` +
+        (plan.pattern.rule ? ` 실행 규칙: ${plan.pattern.rule} (${plan.pattern.direction === 'SELL' ? '매도' : '매수'} 신호)` : '');
+    case 'pattern.update': {
+      const changes = [
+        plan.changes.priorConfidence !== undefined ? `신뢰도 ${plan.changes.priorConfidence}%` : null,
+        plan.changes.priority !== undefined ? `우선순위 ${plan.changes.priority}` : null
+      ].filter(Boolean);
+      return `패턴 '${plan.patternName}'을(를) ${changes.join(', ')}(으)로 변경합니다.`;
+    }
+    case 'pattern.remove':
+      return `패턴 '${plan.patternName}'을(를) 비활성화합니다.`;
+    case 'watchlist.add':
+      return `관심종목에 ${plan.items.map(item => `${item.symbol}${alert(item)}`).join(', ')}을(를) 추가합니다.`;
+    case 'watchlist.update':
+      return `관심종목 알림을 ${plan.items.map(item => `${item.symbol}${alert(item)}`).join(', ')}(으)로 변경합니다.`;
+    case 'watchlist.remove':
+      return `관심종목에서 ${plan.items.map(item => item.symbol).join(', ')}을(를) 제외합니다.`;
+    case 'strategy.add':
+      return `전략 '${plan.strategies.join("', '")}'을(를) 추가합니다.`;
+    case 'strategy.remove':
+      return `전략 '${plan.strategies.join("', '")}'을(를) 제거합니다.`;
+  }
+}
+
+// Turn a parsed command into a concrete change; null when the message is not specific enough
+export function planCommand(command: ParsedCommand, agent: Agent): { plan: ChatCommandPlan; summary: string } | null {
+  const { type, action, parameters, originalMessage } = command;
+  const quoted = quotedText(originalMessage);
+  let plan: ChatCommandPlan | null = null;
+
+  if (type === 'pattern') {
+    if (action === 'add') {
+      const indicators: string[] = Array.from(new Set(parameters.technicalIndicators || []));
+      const name = quoted || (indicators.length > 0 ? `${indicators.join(' + ')} 패턴` : null);
+      if (name) {
+        plan = {
+          kind: 'pattern.create',
+          pattern: {
+            name,
+            description: originalMessage.trim(),
+            priority: Math.min((parameters.agentContext?.currentPatterns || 0) + 1, 10),
+            confidenceRate: Math.min(Math.max(parameters.percentages?.[0] ?? 50, 0), 100),
+            examples: [originalMessage.trim()],
+            rule: ruleText(originalMessage),
+            direction: /매도|숏|sell|short/i.test(originalMessage) ? 'SELL' : 'BUY'
+          }
+        };
+      }
+    } else if (action === 'update' || action === 'remove') {
+      const target = findTargetPattern(command, agent);
+      if (target && action === 'remove') {
+        plan = { kind: 'pattern.remove', patternId: target.id, patternName: target.name };
+      } else if (target) {
+        const changes: { priorConfidence?: number; priority?: number } = {};
+        if (parameters.percentages?.length) {
+          changes.priorConfidence = Math.min(Math.max(parameters.percentages[0], 0), 100);
+        }
+        const priority = originalMessage.match(/우선\s*순위\s*(\d+)/);
+        if (priority) {
+          changes.priority = Math.min(Math.max(parseInt(priority[1]), 1), 10);
+        }
+        if (Object.keys(changes).length > 0) {
+          plan = { kind: 'pattern.update', patternId: target.id, patternName: target.name, changes };
+        }
+      }
+    }
+  }
+
+  if (type === 'watchlist' && parameters.symbols) {
+    const symbols: string[] = Array.from(new Set(parameters.symbols));
+    const alertPrice = alertPriceFrom(parameters);
+    const alertType = alertPrice ? parameters.alertType || 'both' : undefined;
+    const existing = (symbol: string) => (agent.watchlistItems || []).find(item => item.symbol === symbol);
+
+    if (action === 'add') {
+      const timeframe: string | undefined = parameters.timeframes?.[0];
+      const category: WatchlistCategory = timeframe === '단기'
+        ? '단기트레이딩'
+        : timeframe === '장기'
+          ? '장기투자'
+          : PERSONALITY_CATEGORIES[agent.personality] || '장기투자';
+
+      const items = symbols
+        .map((symbol): PlannedWatchlistItem | null => {
+          const item = existing(symbol);
+          // Already watched and nothing new to set
+          if (item?.isActive && !alertPrice) return null;
+          return {
+            itemId: item?.id,
+            symbol,
+            name: item?.name || SYMBOL_NAMES[symbol] || symbol,
+            category: item?.category || category,
+            reason: item?.reason || originalMessage.trim(),
+            agentView: item?.agentView || PERSONALITY_VIEWS[agent.personality] || PERSONALITY_VIEWS.balanced,
+            alertPrice: alertPrice ?? item?.alertPrice,
+            alertType: alertType ?? item?.alertType
+          };
+        })
+        .filter((item): item is PlannedWatchlistItem => item !== null);
+
+      if (items.length > 0) {
+        plan = { kind: 'watchlist.add', items };
+      }
+    } else if (action === 'update' && alertPrice) {
+      const items = symbols
+        .map(symbol => existing(symbol))
+        .filter((item): item is AgentWatchlistItem => !!item?.isActive)
+        .map(item => ({ itemId: item.id, symbol: item.symbol, alertPrice, alertType }));
+
+      if (items.length > 0) {
+        plan = { kind: 'watchlist.update', items };
+      }
+    } else if (action === 'remove') {
+      const items = symbols
+        .map(symbol => existing(symbol))
+        .filter((item): item is AgentWatchlistItem => !!item?.isActive)
+        .map(item => ({ itemId: item.id, symbol: item.symbol }));
+
+      if (items.length > 0) {
+        plan = { kind: 'watchlist.remove', items };
+      }
+    }
+  }
+
+  if (type === 'strategy') {
+    const strategy = quoted || STRATEGY_LABELS[parameters.strategyType];
+    if (strategy && action === 'add' && !agent.strategy.includes(strategy)) {
+      plan = { kind: 'strategy.add', strategies: [strategy] };
+    } else if (strategy && action === 'remove') {
+      const strategies = agent.strategy.filter(s => quoted
+        ? s.toLowerCase().includes(quoted.toLowerCase())
+        : STRATEGY_KEYWORDS[parameters.strategyType].test(s)
+      );
+      if (strategies.length > 0) {
+        plan = { kind: 'strategy.remove', strategies };
+      }
+    }
+  }
+
+  return plan ? { plan, summary: describePlan(plan) } : null;
+}
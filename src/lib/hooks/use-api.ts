@@ -1,8 +1,10 @@
 // API hooks with React Query for efficient ChromaDB data loading
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { AuthUser } from '@/types/auth';
-import { Portfolio, Trade, EducationalContent, Achievement } from '@/types/game';
+import { ApiKeySummary, AuthUser, CreateApiKeyRequest, SessionSummary } from '@/types/auth';
+import { Trade, EducationalContent, Achievement } from '@/types/game';
+import type { Order, Portfolio as PaperPortfolio, Trade as PaperTrade } from '@prisma/client';
+import type { OrderAmendInput, OrderInput, OcoOrderInput, OrderStatus } from '@/types/orders';
 
 // API client with error handling
 class ApiClient {
@@ -49,20 +51,89 @@ class ApiClient {
     return this.request<{ success: boolean; user: AuthUser }>('/api/auth/me');
   }
 
+  async changePassword(currentPassword: string, newPassword: string) {
+    return this.request<{ success: boolean; user: AuthUser; message: string }>('/api/auth/password', {
+      method: 'POST',
+      body: JSON.stringify({ currentPassword, newPassword }),
+    });
+  }
+
+  async requestPasswordReset(email: string) {
+    return this.request<{ success: boolean; message: string }>('/api/auth/forgot-password', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    });
+  }
+
+  async resetPassword(token: string, newPassword: string) {
+    return this.request<{ success: boolean; message: string }>('/api/auth/reset-password', {
+      method: 'POST',
+      body: JSON.stringify({ token, newPassword }),
+    });
+  }
+
+  async verifyEmail(token: string) {
+    return this.request<{ success: boolean; message: string; user?: AuthUser }>('/api/auth/verify-email', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    });
+  }
+
+  async resendVerificationEmail() {
+    return this.request<{ success: boolean; message: string }>('/api/auth/verify-email/resend', {
+      method: 'POST',
+    });
+  }
+
+  // Session endpoints
+  async getSessions() {
+    return this.request<{ success: boolean; data: SessionSummary[]; count: number }>('/api/auth/sessions');
+  }
+
+  async revokeSession(sessionId: string) {
+    return this.request<{ success: boolean; message: string }>(`/api/auth/sessions/${sessionId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async revokeOtherSessions() {
+    return this.request<{ success: boolean; message: string; revoked: number }>('/api/auth/sessions', {
+      method: 'DELETE',
+    });
+  }
+
+  // API key endpoints
+  async getApiKeys() {
+    return this.request<{ success: boolean; data: ApiKeySummary[]; count: number }>('/api/auth/api-keys');
+  }
+
+  async createApiKey(request: CreateApiKeyRequest) {
+    return this.request<{ success: boolean; message: string; data: ApiKeySummary; key: string }>('/api/auth/api-keys', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async revokeApiKey(keyId: string) {
+    return this.request<{ success: boolean; message: string }>(`/api/auth/api-keys/${keyId}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Portfolio endpoints
   async getPortfolio() {
-    return this.request<{ success: boolean; portfolio: Portfolio; stats: any }>('/api/portfolio');
+    return this.request<{ success: boolean; data: PaperPortfolio }>('/api/portfolio');
   }
 
   async resetPortfolio() {
-    return this.request<{ success: boolean; portfolio: Portfolio }>('/api/portfolio/reset', {
+    return this.request<{ success: boolean; data: PaperPortfolio }>('/api/portfolio/reset', {
       method: 'POST',
     });
   }
 
   // Trading endpoints
   async executeTrade(type: 'buy' | 'sell', amount: number, price?: number) {
-    return this.request<{ success: boolean; trade: Trade; portfolio: Portfolio }>('/api/trade', {
+    return this.request<{ success: boolean; message: string; trade: PaperTrade; portfolio: PaperPortfolio }>('/api/trade', {
       method: 'POST',
       body: JSON.stringify({ type, amount, price }),
     });
@@ -72,6 +143,34 @@ class ApiClient {
     return this.request<{ success: boolean; trades: Trade[]; total: number }>(`/api/trade/history?limit=${limit}`);
   }
 
+  // Order endpoints
+  async getOrders(status?: OrderStatus[]) {
+    const params = new URLSearchParams();
+    if (status?.length) params.set('status', status.join(','));
+
+    return this.request<{ success: boolean; data: Order[]; count: number }>(`/api/orders?${params}`);
+  }
+
+  async placeOrder(order: OrderInput | (OcoOrderInput & { type: 'oco' })) {
+    return this.request<{ success: boolean; message: string; data: Order | Order[] }>('/api/orders', {
+      method: 'POST',
+      body: JSON.stringify(order),
+    });
+  }
+
+  async amendOrder(orderId: string, changes: OrderAmendInput) {
+    return this.request<{ success: boolean; data: Order }>(`/api/orders/${orderId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes),
+    });
+  }
+
+  async cancelOrder(orderId: string) {
+    return this.request<{ success: boolean; data: Order[] }>(`/api/orders/${orderId}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Chart endpoints
   async getChartData(timeRange: string = '1d', indicators?: string) {
     const params = new URLSearchParams({ timeRange });
@@ -128,7 +227,6 @@ export function useApi() {
         credentials: 'include',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': 'Bearer demo-token', // Mock auth for demo
           ...options?.headers,
         },
         ...options,
@@ -244,7 +342,7 @@ export function useExecuteTrade() {
       // Update portfolio data immediately
       queryClient.setQueryData(['portfolio'], (old: any) => ({
         ...old,
-        portfolio: data.portfolio,
+        data: data.portfolio,
       }));
       
       // Invalidate related queries
@@ -262,6 +360,50 @@ export function useTradeHistory(limit: number = 100) {
   });
 }
 
+// Order hooks
+export function useOrders(status?: OrderStatus[]) {
+  return useQuery({
+    queryKey: ['orders', status],
+    queryFn: () => apiClient.getOrders(status),
+    staleTime: 10 * 1000, // 10 seconds
+    refetchInterval: 30 * 1000, // Orders fill on price ticks
+  });
+}
+
+export function usePlaceOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (order: OrderInput | (OcoOrderInput & { type: 'oco' })) => apiClient.placeOrder(order),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+    },
+  });
+}
+
+export function useAmendOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ orderId, changes }: { orderId: string; changes: OrderAmendInput }) =>
+      apiClient.amendOrder(orderId, changes),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+    },
+  });
+}
+
+export function useCancelOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (orderId: string) => apiClient.cancelOrder(orderId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+    },
+  });
+}
+
 // Chart hooks
 export function useChartData(timeRange: string = '1d', indicators?: string) {
   return useQuery({
@@ -0,0 +1,156 @@
+// Indicator engine: runs the full indicator set over a candle stream, plus batch helpers
+// for code that has a series in hand. All indicator math lives in streaming-indicators.
+
+import type { IndicatorCandle, IndicatorEngineConfig, IndicatorSnapshot } from '@/types/indicators';
+import {
+  ADX,
+  ATR,
+  BollingerBands,
+  DonchianChannels,
+  EMA,
+  Ichimoku,
+  Indicator,
+  KeltnerChannels,
+  MACD,
+  OBV,
+  RSI,
+  SMA,
+  Stochastic,
+  VWAP,
+  type StreamingIndicator
+} from './streaming-indicators';
+
+export const DEFAULT_INDICATOR_CONFIG: IndicatorEngineConfig = {
+  smaPeriods: [5, 10, 20, 50],
+  emaPeriods: [12, 26],
+  rsiPeriod: 14,
+  macd: { fast: 12, slow: 26, signal: 9 },
+  bollinger: { period: 20, multiplier: 2 },
+  stochastic: { kPeriod: 14, dPeriod: 3 },
+  atrPeriod: 14,
+  adxPeriod: 14,
+  ichimoku: { conversion: 9, base: 26, span: 52, displacement: 26 },
+  keltner: { emaPeriod: 20, atrPeriod: 10, multiplier: 2 },
+  donchianPeriod: 20
+};
+
+/**
+ * Every configured indicator over one candle stream. update() consumes closed candles;
+ * preview() shows the values a forming candle would give without consuming it.
+ */
+export class IndicatorEngine extends Indicator<IndicatorCandle, IndicatorSnapshot> {
+  readonly config: IndicatorEngineConfig;
+  private sma: Array<[number, SMA]>;
+  private ema: Array<[number, EMA]>;
+  private rsi: RSI;
+  private macd: MACD;
+  private bollinger: BollingerBands;
+  private stochastic: Stochastic;
+  private atr: ATR;
+  private adx: ADX;
+  private obv = new OBV();
+  private vwap: VWAP;
+  private ichimoku: Ichimoku;
+  private keltner: KeltnerChannels;
+  private donchian: DonchianChannels;
+
+  constructor(config: Partial<IndicatorEngineConfig> = {}) {
+    super();
+    const settings = { ...DEFAULT_INDICATOR_CONFIG, ...config };
+    this.config = settings;
+    this.sma = settings.smaPeriods.map((period) => [period, new SMA(period)]);
+    this.ema = settings.emaPeriods.map((period) => [period, new EMA(period)]);
+    this.rsi = new RSI(settings.rsiPeriod);
+    this.macd = new MACD(settings.macd.fast, settings.macd.slow, settings.macd.signal);
+    this.bollinger = new BollingerBands(settings.bollinger.period, settings.bollinger.multiplier);
+    this.stochastic = new Stochastic(settings.stochastic.kPeriod, settings.stochastic.dPeriod);
+    this.atr = new ATR(settings.atrPeriod);
+    this.adx = new ADX(settings.adxPeriod);
+    this.vwap = new VWAP(settings.vwapSessionMs);
+    this.ichimoku = new Ichimoku(
+      settings.ichimoku.conversion,
+      settings.ichimoku.base,
+      settings.ichimoku.span,
+      settings.ichimoku.displacement
+    );
+    this.keltner = new KeltnerChannels(settings.keltner.emaPeriod, settings.keltner.atrPeriod, settings.keltner.multiplier);
+    this.donchian = new DonchianChannels(settings.donchianPeriod);
+  }
+
+  protected next(candle: IndicatorCandle): IndicatorSnapshot {
+    const sma: Record<number, number | null> = {};
+    for (const [period, indicator] of this.sma) sma[period] = indicator.update(candle.close);
+    const ema: Record<number, number | null> = {};
+    for (const [period, indicator] of this.ema) ema[period] = indicator.update(candle.close);
+
+    return {
+      time: candle.time,
+      close: candle.close,
+      sma,
+      ema,
+      rsi: this.rsi.update(candle.close),
+      macd: this.macd.update(candle.close),
+      bollinger: this.bollinger.update(candle.close),
+      stochastic: this.stochastic.update(candle),
+      atr: this.atr.update(candle),
+      adx: this.adx.update(candle),
+      obv: this.obv.update(candle) ?? 0,
+      vwap: this.vwap.update(candle),
+      ichimoku: this.ichimoku.update(candle),
+      keltner: this.keltner.update(candle),
+      donchian: this.donchian.update(candle)
+    };
+  }
+}
+
+/**
+ * Output of an indicator for every input, null while it warms up
+ */
+export function indicatorSeries<I, O>(indicator: StreamingIndicator<I, O>, inputs: readonly I[]): Array<O | null> {
+  return inputs.map((input) => indicator.update(input));
+}
+
+/**
+ * Output of an indicator after the whole series, or null if it never warmed up
+ */
+export function latestValue<I, O>(indicator: StreamingIndicator<I, O>, inputs: readonly I[]): O | null {
+  for (const input of inputs) indicator.update(input);
+  return indicator.value;
+}
+
+/**
+ * Candles for a price-only series (high = low = close, no volume)
+ */
+export function candlesFromPrices(prices: readonly number[]): IndicatorCandle[] {
+  return prices.map((price) => ({ high: price, low: price, close: price }));
+}
+
+/**
+ * Snapshot of all indicators after the last candle
+ */
+export function computeIndicators(
+  candles: readonly IndicatorCandle[],
+  config: Partial<IndicatorEngineConfig> = {}
+): IndicatorSnapshot | null {
+  return latestValue(new IndicatorEngine(config), candles);
+}
+
+/**
+ * Mean of the latest values, using all of them when the series is shorter than the
+ * period; 0 for an empty series
+ */
+export function trailingMean(values: readonly number[], period: number): number {
+  if (values.length === 0) return 0;
+  return latestValue(new SMA(Math.min(period, values.length)), values) ?? 0;
+}
+
+/**
+ * Percent change of the mean of the last `window` values over the mean of the `window`
+ * values before them; 0 without enough history
+ */
+export function averageMomentum(values: readonly number[], window: number = 3): number {
+  if (values.length < window * 2) return 0;
+  const recent = trailingMean(values, window);
+  const previous = trailingMean(values.slice(0, -window), window);
+  return previous === 0 ? 0 : ((recent - previous) / previous) * 100;
+}
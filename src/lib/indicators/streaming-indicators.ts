@@ -0,0 +1,471 @@
+// Streaming technical indicators: each one is fed a value or candle at a time and keeps
+// only the state it needs, so live feeds update in O(period) or better per candle.
+// Conventions follow TA-Lib: EMAs are seeded with the SMA of their first period values,
+// RSI, ATR and ADX use Wilder smoothing, and true range starts at the second candle.
+
+import type {
+  ADXValue,
+  BandValue,
+  BollingerValue,
+  IchimokuValue,
+  IndicatorCandle,
+  MACDValue,
+  StochasticValue
+} from '@/types/indicators';
+
+export interface StreamingIndicator<I, O> {
+  readonly value: O | null;
+  update(input: I): O | null; // Consume a closed value or candle
+  preview(input: I): O | null; // Value if this input closed now, e.g. for a forming candle; state is unchanged
+}
+
+/**
+ * Deep copy of an indicator's state that keeps prototypes, so nested indicators and
+ * windows stay usable
+ */
+function cloneState<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(cloneState) as T;
+  if (value !== null && typeof value === 'object') {
+    const copy = Object.create(Object.getPrototypeOf(value));
+    for (const [key, field] of Object.entries(value)) copy[key] = cloneState(field);
+    return copy;
+  }
+  return value;
+}
+
+export abstract class Indicator<I, O> implements StreamingIndicator<I, O> {
+  private current: O | null = null;
+
+  get value(): O | null {
+    return this.current;
+  }
+
+  update(input: I): O | null {
+    this.current = this.next(input);
+    return this.current;
+  }
+
+  preview(input: I): O | null {
+    return cloneState(this).update(input);
+  }
+
+  protected abstract next(input: I): O | null;
+}
+
+function assertPeriod(name: string, period: number): void {
+  if (!Number.isInteger(period) || period < 1) {
+    throw new Error(`${name} period must be a positive integer, got ${period}`);
+  }
+}
+
+/**
+ * Fixed-size window over the latest values with a running sum
+ */
+export class RollingWindow {
+  private values: number[] = [];
+  private total = 0;
+
+  constructor(readonly size: number) {
+    assertPeriod('Window', size);
+  }
+
+  push(value: number): void {
+    this.values.push(value);
+    this.total += value;
+    if (this.values.length > this.size) this.total -= this.values.shift()!;
+  }
+
+  get full(): boolean {
+    return this.values.length === this.size;
+  }
+
+  get sum(): number {
+    return this.total;
+  }
+
+  get items(): readonly number[] {
+    return this.values;
+  }
+
+  max(count: number = this.values.length): number {
+    return Math.max(...this.values.slice(-count));
+  }
+
+  min(count: number = this.values.length): number {
+    return Math.min(...this.values.slice(-count));
+  }
+}
+
+export class SMA extends Indicator<number, number> {
+  private window: RollingWindow;
+
+  constructor(readonly period: number) {
+    super();
+    this.window = new RollingWindow(period);
+  }
+
+  protected next(value: number): number | null {
+    this.window.push(value);
+    return this.window.full ? this.window.sum / this.period : null;
+  }
+}
+
+/**
+ * Exponential average with the given smoothing factor, seeded with the SMA of the first
+ * period values
+ */
+class SeededAverage extends Indicator<number, number> {
+  private count = 0;
+  private seed = 0;
+
+  constructor(readonly period: number, private readonly alpha: number) {
+    super();
+    assertPeriod('Average', period);
+  }
+
+  protected next(value: number): number | null {
+    const previous = this.value;
+    if (previous !== null) return previous + (value - previous) * this.alpha;
+
+    this.count++;
+    this.seed += value;
+    return this.count === this.period ? this.seed / this.period : null;
+  }
+}
+
+export class EMA extends SeededAverage {
+  constructor(period: number) {
+    super(period, 2 / (period + 1));
+  }
+}
+
+/**
+ * Wilder's moving average (RMA), an EMA with alpha 1/period
+ */
+export class WilderAverage extends SeededAverage {
+  constructor(period: number) {
+    super(period, 1 / period);
+  }
+}
+
+export class RSI extends Indicator<number, number> {
+  private previous: number | null = null;
+  private gains: WilderAverage;
+  private losses: WilderAverage;
+
+  constructor(readonly period: number = 14) {
+    super();
+    this.gains = new WilderAverage(period);
+    this.losses = new WilderAverage(period);
+  }
+
+  protected next(value: number): number | null {
+    const previous = this.previous;
+    this.previous = value;
+    if (previous === null) return null;
+
+    const change = value - previous;
+    const gain = this.gains.update(Math.max(change, 0));
+    const loss = this.losses.update(Math.max(-change, 0));
+    if (gain === null || loss === null) return null;
+
+    if (loss === 0) return gain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + gain / loss);
+  }
+}
+
+export class MACD extends Indicator<number, MACDValue> {
+  private fast: EMA;
+  private slow: EMA;
+  private signal: EMA;
+
+  constructor(fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9) {
+    super();
+    this.fast = new EMA(fastPeriod);
+    this.slow = new EMA(slowPeriod);
+    this.signal = new EMA(signalPeriod);
+  }
+
+  protected next(value: number): MACDValue | null {
+    const fast = this.fast.update(value);
+    const slow = this.slow.update(value);
+    if (fast === null || slow === null) return null;
+
+    const macd = fast - slow;
+    const signal = this.signal.update(macd);
+    return { macd, signal, histogram: signal === null ? null : macd - signal };
+  }
+}
+
+/**
+ * Bollinger Bands with the population standard deviation
+ */
+export class BollingerBands extends Indicator<number, BollingerValue> {
+  private window: RollingWindow;
+
+  constructor(readonly period: number = 20, readonly multiplier: number = 2) {
+    super();
+    this.window = new RollingWindow(period);
+  }
+
+  protected next(value: number): BollingerValue | null {
+    this.window.push(value);
+    if (!this.window.full) return null;
+
+    const middle = this.window.sum / this.period;
+    const variance = this.window.items.reduce((sum, item) => sum + (item - middle) ** 2, 0) / this.period;
+    const offset = Math.sqrt(variance) * this.multiplier;
+    return { upper: middle + offset, middle, lower: middle - offset, width: offset * 2 };
+  }
+}
+
+/**
+ * Highest high and lowest low of the last period candles
+ */
+class RangeWindow {
+  private highs: RollingWindow;
+  private lows: RollingWindow;
+
+  constructor(readonly period: number) {
+    this.highs = new RollingWindow(period);
+    this.lows = new RollingWindow(period);
+  }
+
+  push(candle: IndicatorCandle): void {
+    this.highs.push(candle.high);
+    this.lows.push(candle.low);
+  }
+
+  full(count: number = this.period): boolean {
+    return this.highs.items.length >= count;
+  }
+
+  high(count?: number): number {
+    return this.highs.max(count);
+  }
+
+  low(count?: number): number {
+    return this.lows.min(count);
+  }
+}
+
+/**
+ * Slow stochastic: %D is the SMA of %K. A flat range reads 50.
+ */
+export class Stochastic extends Indicator<IndicatorCandle, StochasticValue> {
+  private range: RangeWindow;
+  private d: SMA;
+
+  constructor(kPeriod: number = 14, dPeriod: number = 3) {
+    super();
+    this.range = new RangeWindow(kPeriod);
+    this.d = new SMA(dPeriod);
+  }
+
+  protected next(candle: IndicatorCandle): StochasticValue | null {
+    this.range.push(candle);
+    if (!this.range.full()) return null;
+
+    const high = this.range.high();
+    const low = this.range.low();
+    const k = high === low ? 50 : ((candle.close - low) / (high - low)) * 100;
+    return { k, d: this.d.update(k) };
+  }
+}
+
+export class TrueRange extends Indicator<IndicatorCandle, number> {
+  private previousClose: number | null = null;
+
+  protected next(candle: IndicatorCandle): number | null {
+    const previousClose = this.previousClose;
+    this.previousClose = candle.close;
+    if (previousClose === null) return null;
+
+    return Math.max(candle.high - candle.low, Math.abs(candle.high - previousClose), Math.abs(candle.low - previousClose));
+  }
+}
+
+export class ATR extends Indicator<IndicatorCandle, number> {
+  private trueRange = new TrueRange();
+  private average: WilderAverage;
+
+  constructor(readonly period: number = 14) {
+    super();
+    this.average = new WilderAverage(period);
+  }
+
+  protected next(candle: IndicatorCandle): number | null {
+    const range = this.trueRange.update(candle);
+    return range === null ? null : this.average.update(range);
+  }
+}
+
+/**
+ * Average Directional Index with +DI and -DI
+ */
+export class ADX extends Indicator<IndicatorCandle, ADXValue> {
+  private previous: IndicatorCandle | null = null;
+  private trueRange = new TrueRange();
+  private range: WilderAverage;
+  private plus: WilderAverage;
+  private minus: WilderAverage;
+  private adx: WilderAverage;
+
+  constructor(readonly period: number = 14) {
+    super();
+    this.range = new WilderAverage(period);
+    this.plus = new WilderAverage(period);
+    this.minus = new WilderAverage(period);
+    this.adx = new WilderAverage(period);
+  }
+
+  protected next(candle: IndicatorCandle): ADXValue | null {
+    const previous = this.previous;
+    this.previous = candle;
+    const range = this.trueRange.update(candle);
+    if (previous === null || range === null) return null;
+
+    const up = candle.high - previous.high;
+    const down = previous.low - candle.low;
+    const averageRange = this.range.update(range);
+    const plus = this.plus.update(up > down && up > 0 ? up : 0);
+    const minus = this.minus.update(down > up && down > 0 ? down : 0);
+    if (averageRange === null || plus === null || minus === null) return null;
+
+    const plusDI = averageRange === 0 ? 0 : (plus / averageRange) * 100;
+    const minusDI = averageRange === 0 ? 0 : (minus / averageRange) * 100;
+    const sum = plusDI + minusDI;
+    const dx = sum === 0 ? 0 : (Math.abs(plusDI - minusDI) / sum) * 100;
+    return { adx: this.adx.update(dx), plusDI, minusDI };
+  }
+}
+
+/**
+ * On-balance volume, starting at 0 on the first candle
+ */
+export class OBV extends Indicator<IndicatorCandle, number> {
+  private previousClose: number | null = null;
+
+  protected next(candle: IndicatorCandle): number {
+    const previousClose = this.previousClose;
+    this.previousClose = candle.close;
+    const total = this.value ?? 0;
+    if (previousClose === null || candle.close === previousClose) return total;
+
+    const volume = candle.volume ?? 0;
+    return candle.close > previousClose ? total + volume : total - volume;
+  }
+}
+
+/**
+ * Volume-weighted average of the typical price, cumulative or reset every sessionMs of
+ * candle time
+ */
+export class VWAP extends Indicator<IndicatorCandle, number> {
+  private session: number | null = null;
+  private priceVolume = 0;
+  private volume = 0;
+
+  constructor(readonly sessionMs?: number) {
+    super();
+  }
+
+  protected next(candle: IndicatorCandle): number | null {
+    if (this.sessionMs && candle.time !== undefined) {
+      const session = Math.floor(candle.time / this.sessionMs);
+      if (session !== this.session) {
+        this.session = session;
+        this.priceVolume = 0;
+        this.volume = 0;
+      }
+    }
+
+    const volume = candle.volume ?? 0;
+    this.priceVolume += ((candle.high + candle.low + candle.close) / 3) * volume;
+    this.volume += volume;
+    return this.volume > 0 ? this.priceVolume / this.volume : null;
+  }
+}
+
+export class Ichimoku extends Indicator<IndicatorCandle, IchimokuValue> {
+  private range: RangeWindow;
+  private spans: Array<{ spanA: number; spanB: number }> = [];
+
+  constructor(
+    readonly conversionPeriod: number = 9,
+    readonly basePeriod: number = 26,
+    readonly spanPeriod: number = 52,
+    readonly displacement: number = 26
+  ) {
+    super();
+    assertPeriod('Ichimoku displacement', displacement);
+    this.range = new RangeWindow(Math.max(conversionPeriod, basePeriod, spanPeriod));
+  }
+
+  protected next(candle: IndicatorCandle): IchimokuValue | null {
+    this.range.push(candle);
+    if (!this.range.full(this.spanPeriod)) return null;
+
+    const midpoint = (count: number) => (this.range.high(count) + this.range.low(count)) / 2;
+    const conversion = midpoint(this.conversionPeriod);
+    const base = midpoint(this.basePeriod);
+    const spanA = (conversion + base) / 2;
+    const spanB = midpoint(this.spanPeriod);
+
+    // The cloud over this candle was projected displacement candles ago
+    const projected = this.spans.length === this.displacement ? this.spans.shift()! : null;
+    this.spans.push({ spanA, spanB });
+
+    return {
+      conversion,
+      base,
+      spanA,
+      spanB,
+      cloudA: projected?.spanA ?? null,
+      cloudB: projected?.spanB ?? null
+    };
+  }
+}
+
+/**
+ * Keltner Channels: EMA of the close plus and minus a multiple of the ATR
+ */
+export class KeltnerChannels extends Indicator<IndicatorCandle, BandValue> {
+  private ema: EMA;
+  private atr: ATR;
+
+  constructor(emaPeriod: number = 20, atrPeriod: number = 10, readonly multiplier: number = 2) {
+    super();
+    this.ema = new EMA(emaPeriod);
+    this.atr = new ATR(atrPeriod);
+  }
+
+  protected next(candle: IndicatorCandle): BandValue | null {
+    const middle = this.ema.update(candle.close);
+    const atr = this.atr.update(candle);
+    if (middle === null || atr === null) return null;
+
+    return { upper: middle + atr * this.multiplier, middle, lower: middle - atr * this.multiplier };
+  }
+}
+
+/**
+ * Donchian Channels: highest high and lowest low of the last period candles
+ */
+export class DonchianChannels extends Indicator<IndicatorCandle, BandValue> {
+  private range: RangeWindow;
+
+  constructor(readonly period: number = 20) {
+    super();
+    this.range = new RangeWindow(period);
+  }
+
+  protected next(candle: IndicatorCandle): BandValue | null {
+    this.range.push(candle);
+    if (!this.range.full()) return null;
+
+    const upper = this.range.high();
+    const lower = this.range.low();
+    return { upper, middle: (upper + lower) / 2, lower };
+  }
+}
@@ -0,0 +1,66 @@
+// Shared helpers for LLM providers: errors, deadlines and local token estimates
+
+import type { LLMMessage, LLMUsage } from '@/types/llm';
+
+export type LLMErrorCode = 'NOT_CONFIGURED' | 'TIMEOUT' | 'CANCELLED' | 'PROVIDER_ERROR' | 'INVALID_RESPONSE';
+
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public readonly code: LLMErrorCode,
+    public readonly status?: number // Upstream HTTP status, when there was one
+  ) {
+    super(message);
+    this.name = 'LLMError';
+  }
+}
+
+/**
+ * Rough token count: about one token per Hangul/CJK character and four characters
+ * otherwise. Only used when a provider does not report usage.
+ */
+export function estimateTokens(text: string): number {
+  const wide = (text.match(/[ᄀ-ᇿ぀-ヿ㄰-㆏一-鿿가-힯]/g) || []).length;
+  return wide + Math.ceil((text.length - wide) / 4);
+}
+
+export function estimateUsage(messages: LLMMessage[], completion: string): LLMUsage {
+  // Chat formats add a few tokens of framing per message
+  const promptTokens = messages.reduce((sum, m) => sum + estimateTokens(m.content) + 4, 0);
+  const completionTokens = estimateTokens(completion);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, estimated: true };
+}
+
+/**
+ * Abort signal that fires on the caller's signal or after timeoutMs.
+ * Call dispose() when the request settles to clear the timer.
+ */
+export function createDeadline(timeoutMs: number, signal?: AbortSignal) {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    /** Translate an abort into TIMEOUT or CANCELLED; other errors pass through */
+    toError(error: unknown): unknown {
+      if (!controller.signal.aborted) return error;
+      return timedOut
+        ? new LLMError(`LLM request timed out after ${timeoutMs}ms`, 'TIMEOUT')
+        : new LLMError('LLM request was cancelled', 'CANCELLED');
+    },
+    dispose() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+}
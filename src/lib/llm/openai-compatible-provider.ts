@@ -0,0 +1,149 @@
+// LLM provider for OpenAI-compatible chat completion APIs
+// (OpenAI, Azure-style gateways, Ollama, vLLM, LM Studio).
+
+import { LLMError, createDeadline, estimateUsage } from './llm-utils';
+import type { LLMProvider, LLMRequest, LLMResponse, LLMStreamChunk, LLMUsage } from '@/types/llm';
+
+export interface OpenAICompatibleOptions {
+  model: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+interface CompletionChunk {
+  choices?: Array<{
+    delta?: { content?: string | null };
+    message?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number } | null;
+}
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.model = options.model;
+    this.baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    let response: LLMResponse | null = null;
+    for await (const chunk of this.stream(request)) {
+      if (chunk.type === 'done') response = chunk.response;
+    }
+    return response!;
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    const startedAt = Date.now();
+    const deadline = createDeadline(request.timeoutMs ?? 30000, request.signal);
+
+    try {
+      const res = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: this.model,
+          messages: request.messages,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          stream: true,
+          stream_options: { include_usage: true },
+          ...(request.responseFormat?.type === 'json' ? { response_format: { type: 'json_object' } } : {})
+        }),
+        signal: deadline.signal
+      });
+
+      if (!res.ok || !res.body) {
+        const detail = await res.text().catch(() => '');
+        throw new LLMError(`LLM provider returned ${res.status}: ${detail.slice(0, 200)}`, 'PROVIDER_ERROR', res.status);
+      }
+
+      let content = '';
+      let finishReason: LLMResponse['finishReason'] = 'stop';
+      let usage: LLMUsage | null = null;
+
+      for await (const chunk of this.readEvents(res.body)) {
+        const choice = chunk.choices?.[0];
+        const text = choice?.delta?.content ?? choice?.message?.content;
+        if (text) {
+          content += text;
+          yield { type: 'token', text };
+        }
+        if (choice?.finish_reason === 'length') finishReason = 'length';
+        if (chunk.usage) {
+          usage = {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens,
+            estimated: false
+          };
+        }
+      }
+
+      yield {
+        type: 'done',
+        response: {
+          provider: this.name,
+          model: this.model,
+          content,
+          finishReason,
+          usage: usage ?? estimateUsage(request.messages, content),
+          latencyMs: Date.now() - startedAt
+        }
+      };
+    } catch (error) {
+      const mapped = deadline.toError(error);
+      if (mapped instanceof LLMError) throw mapped;
+      throw new LLMError(`LLM request failed: ${mapped instanceof Error ? mapped.message : String(mapped)}`, 'PROVIDER_ERROR');
+    } finally {
+      deadline.dispose();
+    }
+  }
+
+  /**
+   * Parse the server-sent event stream into JSON chunks until [DONE]
+   */
+  private async *readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<CompletionChunk> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        let newline: number;
+        while ((newline = buffer.indexOf('\n')) >= 0) {
+          const line = buffer.slice(0, newline).trim();
+          buffer = buffer.slice(newline + 1);
+
+          if (!line.startsWith('data:')) continue;
+          const data = line.slice(5).trim();
+          if (data === '[DONE]') return;
+
+          try {
+            yield JSON.parse(data) as CompletionChunk;
+          } catch {
+            throw new LLMError('LLM provider sent an invalid stream chunk', 'INVALID_RESPONSE');
+          }
+        }
+      }
+    } finally {
+      // Close the connection if we stopped early
+      await reader.cancel().catch(() => {});
+    }
+  }
+}
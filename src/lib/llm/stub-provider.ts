@@ -0,0 +1,106 @@
+// Deterministic offline LLM provider for tests and local development.
+// The same request always produces the same reply, streamed word by word.
+
+import { createHash } from 'crypto';
+import { createDeadline, estimateUsage } from './llm-utils';
+import type { LLMProvider, LLMRequest, LLMResponse, LLMStreamChunk } from '@/types/llm';
+
+export interface StubProviderOptions {
+  model?: string;
+  tokenDelayMs?: number; // Pause between streamed words, to exercise streaming UIs and timeouts
+  responder?: (request: LLMRequest) => string; // Override the canned reply
+}
+
+const DEFAULT_MAX_TOKENS = 512;
+
+function requestDigest(request: LLMRequest): string {
+  const hash = createHash('sha256');
+  for (const message of request.messages) {
+    hash.update(`${message.role}:${message.content}\n`);
+  }
+  return hash.digest('hex').slice(0, 8);
+}
+
+/**
+ * Canned reply: JSON with every requested key when a JSON format is asked for,
+ * otherwise a short acknowledgement quoting the last user message
+ */
+function defaultReply(request: LLMRequest): string {
+  const digest = requestDigest(request);
+  const lastUser = [...request.messages].reverse().find((m) => m.role === 'user')?.content ?? '';
+  const quoted = lastUser.length > 80 ? `${lastUser.slice(0, 80)}…` : lastUser;
+
+  if (request.responseFormat?.type === 'json') {
+    const fields = Object.fromEntries(
+      request.responseFormat.keys.map((key) => [key, `Stub ${key.replace(/_/g, ' ')} (${digest}).`])
+    );
+    return JSON.stringify(fields);
+  }
+
+  return `Stub reply (${digest}): "${quoted}"에 대한 분석은 실제 LLM 공급자가 설정되면 제공됩니다.`;
+}
+
+export class StubLLMProvider implements LLMProvider {
+  readonly name = 'stub';
+  readonly model: string;
+  private readonly tokenDelayMs: number;
+  private readonly responder: (request: LLMRequest) => string;
+
+  constructor(options: StubProviderOptions = {}) {
+    this.model = options.model || 'stub-1';
+    this.tokenDelayMs = options.tokenDelayMs ?? 0;
+    this.responder = options.responder || defaultReply;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    let response: LLMResponse | null = null;
+    for await (const chunk of this.stream(request)) {
+      if (chunk.type === 'done') response = chunk.response;
+    }
+    return response!;
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    const startedAt = Date.now();
+    const deadline = createDeadline(request.timeoutMs ?? 30000, request.signal);
+    const maxTokens = request.maxTokens ?? DEFAULT_MAX_TOKENS;
+
+    try {
+      const words = this.responder(request).split(/(?<=\s)/);
+      let content = '';
+      let finishReason: LLMResponse['finishReason'] = 'stop';
+
+      for (const [index, word] of words.entries()) {
+        if (index >= maxTokens) {
+          finishReason = 'length';
+          break;
+        }
+        if (this.tokenDelayMs > 0) {
+          await new Promise((resolve) => setTimeout(resolve, this.tokenDelayMs));
+        }
+        if (deadline.signal.aborted) {
+          throw new DOMException('Aborted', 'AbortError');
+        }
+
+        content += word;
+        yield { type: 'token', text: word };
+      }
+
+      yield {
+        type: 'done',
+        response: {
+          provider: this.name,
+          model: this.model,
+          content,
+          finishReason,
+          usage: estimateUsage(request.messages, content),
+          latencyMs: Date.now() - startedAt
+        }
+      };
+    } catch (error) {
+      throw deadline.toError(error);
+    } finally {
+      deadline.dispose();
+    }
+  }
+}
@@ -0,0 +1,13 @@
+// Mail transport that prints messages to the server log instead of sending them
+
+import type { MailTransport, OutgoingMail } from '@/types/mail';
+
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(mail: OutgoingMail): Promise<void> {
+    console.log(
+      [`📧 Mail to ${mail.to} from ${mail.from}`, `   Subject: ${mail.subject}`, '', mail.text, ''].join('\n')
+    );
+  }
+}
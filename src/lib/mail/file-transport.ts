@@ -0,0 +1,41 @@
+// Mail transport that writes each message as a JSON file in an outbox directory.
+// Used in development and by the tests, which read the links out of the outbox.
+
+import { randomUUID } from 'crypto';
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import type { MailTransport, OutgoingMail, StoredMail } from '@/types/mail';
+
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly outboxDir: string) {}
+
+  async send(mail: OutgoingMail): Promise<void> {
+    const sentAt = new Date().toISOString();
+    const id = randomUUID();
+    const stored: StoredMail = { id, sentAt, ...mail };
+
+    await mkdir(this.outboxDir, { recursive: true });
+    // Timestamped names keep the directory listing in send order
+    const fileName = `${sentAt.replace(/[:.]/g, '-')}-${id.slice(0, 8)}.json`;
+    await writeFile(path.join(this.outboxDir, fileName), JSON.stringify(stored, null, 2));
+  }
+
+  /**
+   * Messages in the outbox, oldest first, optionally only those sent to one address
+   */
+  async list(to?: string): Promise<StoredMail[]> {
+    let fileNames: string[];
+    try {
+      fileNames = (await readdir(this.outboxDir)).filter((name) => name.endsWith('.json')).sort();
+    } catch {
+      return [];
+    }
+
+    const messages = await Promise.all(
+      fileNames.map(async (name) => JSON.parse(await readFile(path.join(this.outboxDir, name), 'utf8')) as StoredMail)
+    );
+    return to ? messages.filter((message) => message.to.toLowerCase() === to.toLowerCase()) : messages;
+  }
+}
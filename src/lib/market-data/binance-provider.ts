@@ -0,0 +1,78 @@
+// Binance REST market data provider: USDT pairs from one /ticker/24hr request
+
+import axios, { AxiosInstance } from 'axios';
+import { MARKET_ASSETS, MarketDataError, describeError, normalizeSymbol } from './market-data-utils';
+import type { MarketDataProvider, MarketQuote } from '@/types/market-data';
+
+interface BinanceTicker24h {
+  symbol: string;
+  lastPrice: string;
+  priceChange: string;
+  priceChangePercent: string;
+  highPrice: string;
+  lowPrice: string;
+  quoteVolume: string; // USDT volume
+  closeTime: number;
+}
+
+export interface BinanceProviderOptions {
+  baseUrl?: string;
+  timeoutMs?: number;
+}
+
+export class BinanceMarketDataProvider implements MarketDataProvider {
+  readonly name = 'binance';
+  private axiosInstance: AxiosInstance;
+
+  constructor(options: BinanceProviderOptions = {}) {
+    this.axiosInstance = axios.create({
+      baseURL: options.baseUrl || 'https://api.binance.com/api/v3',
+      timeout: options.timeoutMs ?? 10000,
+      headers: { 'Accept': 'application/json' }
+    });
+  }
+
+  async getQuotes(symbols: string[]): Promise<MarketQuote[]> {
+    const assets = symbols.map((symbol) => MARKET_ASSETS[normalizeSymbol(symbol)]).filter(Boolean);
+    if (assets.length === 0) return [];
+
+    let tickers: BinanceTicker24h[];
+    try {
+      const response = await this.axiosInstance.get<BinanceTicker24h[]>('/ticker/24hr', {
+        params: { symbols: JSON.stringify(assets.map((asset) => asset.binancePair)) }
+      });
+      tickers = response.data;
+    } catch (error) {
+      throw new MarketDataError(
+        `Binance request failed: ${describeError(error)}`,
+        'PROVIDER_ERROR',
+        axios.isAxiosError(error) ? error.response?.status : undefined
+      );
+    }
+
+    if (!Array.isArray(tickers)) {
+      throw new MarketDataError('Binance returned an unexpected ticker payload', 'INVALID_RESPONSE');
+    }
+
+    const bySymbol = new Map(tickers.map((ticker) => [ticker.symbol, ticker]));
+    const quotes: MarketQuote[] = [];
+    for (const asset of assets) {
+      const ticker = bySymbol.get(asset.binancePair);
+      const price = ticker ? parseFloat(ticker.lastPrice) : NaN;
+      if (!ticker || !Number.isFinite(price)) continue;
+
+      quotes.push({
+        symbol: asset.symbol,
+        price,
+        change24h: parseFloat(ticker.priceChange),
+        changePercent24h: parseFloat(ticker.priceChangePercent),
+        volume24h: parseFloat(ticker.quoteVolume),
+        high24h: parseFloat(ticker.highPrice),
+        low24h: parseFloat(ticker.lowPrice),
+        source: this.name,
+        timestamp: new Date(ticker.closeTime)
+      });
+    }
+    return quotes;
+  }
+}
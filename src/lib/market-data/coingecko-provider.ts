@@ -0,0 +1,82 @@
+// CoinGecko market data provider: all symbols priced with one /simple/price request
+
+import axios, { AxiosInstance } from 'axios';
+import { MARKET_ASSETS, MarketDataError, describeError, normalizeSymbol } from './market-data-utils';
+import type { MarketDataProvider, MarketQuote } from '@/types/market-data';
+
+interface CoinGeckoSimplePriceEntry {
+  usd?: number;
+  usd_market_cap?: number;
+  usd_24h_vol?: number;
+  usd_24h_change?: number;
+  last_updated_at?: number; // Unix seconds
+}
+
+export interface CoinGeckoProviderOptions {
+  baseUrl?: string;
+  apiKey?: string; // Demo API key, sent as x-cg-demo-api-key
+  timeoutMs?: number;
+}
+
+export class CoinGeckoMarketDataProvider implements MarketDataProvider {
+  readonly name = 'coingecko';
+  private axiosInstance: AxiosInstance;
+
+  constructor(options: CoinGeckoProviderOptions = {}) {
+    this.axiosInstance = axios.create({
+      baseURL: options.baseUrl || 'https://api.coingecko.com/api/v3',
+      timeout: options.timeoutMs ?? 10000,
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'BitcoinGame/1.0.0',
+        ...(options.apiKey ? { 'x-cg-demo-api-key': options.apiKey } : {})
+      }
+    });
+  }
+
+  async getQuotes(symbols: string[]): Promise<MarketQuote[]> {
+    const assets = symbols.map((symbol) => MARKET_ASSETS[normalizeSymbol(symbol)]).filter(Boolean);
+    if (assets.length === 0) return [];
+
+    let data: Record<string, CoinGeckoSimplePriceEntry>;
+    try {
+      const response = await this.axiosInstance.get<Record<string, CoinGeckoSimplePriceEntry>>('/simple/price', {
+        params: {
+          ids: assets.map((asset) => asset.coingeckoId).join(','),
+          vs_currencies: 'usd',
+          include_market_cap: true,
+          include_24hr_vol: true,
+          include_24hr_change: true,
+          include_last_updated_at: true
+        }
+      });
+      data = response.data;
+    } catch (error) {
+      throw new MarketDataError(
+        `CoinGecko request failed: ${describeError(error)}`,
+        'PROVIDER_ERROR',
+        axios.isAxiosError(error) ? error.response?.status : undefined
+      );
+    }
+
+    const quotes: MarketQuote[] = [];
+    for (const asset of assets) {
+      const entry = data?.[asset.coingeckoId];
+      if (!entry || typeof entry.usd !== 'number') continue;
+
+      const changePercent24h = entry.usd_24h_change ?? 0;
+      quotes.push({
+        symbol: asset.symbol,
+        price: entry.usd,
+        // Absolute change from the percentage: price = previous * (1 + pct/100)
+        change24h: entry.usd - entry.usd / (1 + changePercent24h / 100),
+        changePercent24h,
+        volume24h: entry.usd_24h_vol,
+        marketCap: entry.usd_market_cap,
+        source: this.name,
+        timestamp: entry.last_updated_at ? new Date(entry.last_updated_at * 1000) : new Date()
+      });
+    }
+    return quotes;
+  }
+}
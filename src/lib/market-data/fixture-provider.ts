@@ -0,0 +1,95 @@
+// Offline market data provider backed by a fixture: static quotes for local development
+// and tests, or a recorded price series replayed one step per interval.
+
+import { readFileSync } from 'fs';
+import { MarketDataError, normalizeSymbol } from './market-data-utils';
+import type { MarketDataProvider, MarketFixture, MarketQuote } from '@/types/market-data';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+// Prices the watchlist used before live market data
+export const DEFAULT_MARKET_FIXTURE: MarketFixture = {
+  quotes: {
+    BTC: [{ price: 111944, changePercent24h: 2.11 }],
+    ETH: [{ price: 3247, changePercent24h: -1.24 }],
+    ADA: [{ price: 0.456, changePercent24h: 3.45 }],
+    SOL: [{ price: 234.56, changePercent24h: 5.67 }],
+    DOT: [{ price: 12.34, changePercent24h: -2.11 }],
+    DOGE: [{ price: 0.218, changePercent24h: 1.32 }],
+    LINK: [{ price: 23.41, changePercent24h: -0.87 }],
+    BNB: [{ price: 862.5, changePercent24h: 0.64 }],
+    XRP: [{ price: 2.94, changePercent24h: -1.58 }]
+  }
+};
+
+export interface FixtureProviderOptions {
+  fixture?: MarketFixture;
+  path?: string; // JSON file in the MarketFixture format
+  clock?: () => number; // Replay position is measured on this clock
+}
+
+export function loadMarketFixture(path: string): MarketFixture {
+  let fixture: MarketFixture;
+  try {
+    fixture = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new MarketDataError(`Cannot read market fixture ${path}: ${error instanceof Error ? error.message : error}`, 'NOT_CONFIGURED');
+  }
+
+  if (!fixture?.quotes || typeof fixture.quotes !== 'object') {
+    throw new MarketDataError(`Market fixture ${path} has no quotes`, 'INVALID_RESPONSE');
+  }
+  return fixture;
+}
+
+export class FixtureMarketDataProvider implements MarketDataProvider {
+  readonly name = 'fixture';
+  private fixture: MarketFixture;
+  private clock: () => number;
+  private startedAt: number;
+
+  constructor(options: FixtureProviderOptions = {}) {
+    this.fixture = options.fixture ?? (options.path ? loadMarketFixture(options.path) : DEFAULT_MARKET_FIXTURE);
+    this.clock = options.clock ?? Date.now;
+    this.startedAt = this.clock();
+  }
+
+  /**
+   * Current replay step; series longer than the elapsed steps hold their last value
+   */
+  getStep(): number {
+    const intervalMs = this.fixture.intervalMs ?? DEFAULT_INTERVAL_MS;
+    return Math.max(0, Math.floor((this.clock() - this.startedAt) / intervalMs));
+  }
+
+  async getQuotes(symbols: string[]): Promise<MarketQuote[]> {
+    const intervalMs = this.fixture.intervalMs ?? DEFAULT_INTERVAL_MS;
+    const step = this.getStep();
+    const quotes: MarketQuote[] = [];
+
+    for (const symbol of symbols.map(normalizeSymbol)) {
+      const series = this.fixture.quotes[symbol];
+      if (!series?.length) continue;
+
+      const index = Math.min(step, series.length - 1);
+      const point = series[index];
+      // Without a recorded change, compare with the point a day earlier in the series
+      const dayAgo = series[Math.max(0, index - Math.round(DAY_MS / intervalMs))];
+      const changePercent24h = point.changePercent24h
+        ?? (dayAgo.price > 0 ? ((point.price - dayAgo.price) / dayAgo.price) * 100 : 0);
+
+      quotes.push({
+        symbol,
+        price: point.price,
+        change24h: point.price - point.price / (1 + changePercent24h / 100),
+        changePercent24h,
+        volume24h: point.volume24h,
+        marketCap: point.marketCap,
+        source: this.name,
+        timestamp: new Date(this.startedAt + index * intervalMs)
+      });
+    }
+    return quotes;
+  }
+}
@@ -0,0 +1,42 @@
+// Shared helpers for market data providers: errors and the supported symbol table
+
+export type MarketDataErrorCode = 'NOT_CONFIGURED' | 'PROVIDER_ERROR' | 'INVALID_RESPONSE';
+
+export class MarketDataError extends Error {
+  constructor(
+    message: string,
+    public readonly code: MarketDataErrorCode,
+    public readonly status?: number // Upstream HTTP status, when there was one
+  ) {
+    super(message);
+    this.name = 'MarketDataError';
+  }
+}
+
+export interface MarketAsset {
+  symbol: string;
+  name: string;
+  coingeckoId: string;
+  binancePair: string; // USDT pair
+}
+
+// Assets the chat command parser recognises, plus DOT for existing watchlists
+export const MARKET_ASSETS: Record<string, MarketAsset> = {
+  BTC: { symbol: 'BTC', name: 'Bitcoin', coingeckoId: 'bitcoin', binancePair: 'BTCUSDT' },
+  ETH: { symbol: 'ETH', name: 'Ethereum', coingeckoId: 'ethereum', binancePair: 'ETHUSDT' },
+  ADA: { symbol: 'ADA', name: 'Cardano', coingeckoId: 'cardano', binancePair: 'ADAUSDT' },
+  SOL: { symbol: 'SOL', name: 'Solana', coingeckoId: 'solana', binancePair: 'SOLUSDT' },
+  DOGE: { symbol: 'DOGE', name: 'Dogecoin', coingeckoId: 'dogecoin', binancePair: 'DOGEUSDT' },
+  LINK: { symbol: 'LINK', name: 'Chainlink', coingeckoId: 'chainlink', binancePair: 'LINKUSDT' },
+  BNB: { symbol: 'BNB', name: 'BNB', coingeckoId: 'binancecoin', binancePair: 'BNBUSDT' },
+  XRP: { symbol: 'XRP', name: 'XRP', coingeckoId: 'ripple', binancePair: 'XRPUSDT' },
+  DOT: { symbol: 'DOT', name: 'Polkadot', coingeckoId: 'polkadot', binancePair: 'DOTUSDT' }
+};
+
+export function normalizeSymbol(symbol: string): string {
+  return symbol.trim().toUpperCase();
+}
+
+export function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
@@ -0,0 +1,179 @@
+// Feed parser: reads RSS 2.0 / RDF, Atom and JSON Feed documents into FeedItems.
+// Feeds are small and loosely formed, so this tolerant tag scanner stands in for a full XML parser.
+
+import { NewsIngestionError } from './news-utils';
+import type { FeedItem, NewsFeedFormat } from '@/types/news';
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Plain text from an HTML fragment: tags dropped, entities decoded, whitespace collapsed
+ */
+export function stripHtml(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<br\s*\/?>|<\/p>/gi, '\n')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .replace(/[ \t\r\f\v]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+}
+
+function escapeTag(name: string): string {
+  return name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Inner XML of every <name>…</name> element (namespace prefixes must be part of the name)
+function elements(xml: string, name: string): string[] {
+  const pattern = new RegExp(`<${escapeTag(name)}(?:\\s[^>]*)?>([\\s\\S]*?)</${escapeTag(name)}>`, 'gi');
+  return Array.from(xml.matchAll(pattern), (match) => match[1]);
+}
+
+// Opening tags of <name …> elements, for attribute-only elements such as Atom links
+function openingTags(xml: string, name: string): string[] {
+  const pattern = new RegExp(`<${escapeTag(name)}(?:\\s[^>]*)?/?>`, 'gi');
+  return Array.from(xml.matchAll(pattern), (match) => match[0]);
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${escapeTag(name)}\\s*=\\s*("([^"]*)"|'([^']*)')`, 'i'));
+  return match ? decodeEntities(match[2] ?? match[3]) : undefined;
+}
+
+// Text of an element: CDATA unwrapped, entities decoded (markup inside is kept)
+function textOf(inner: string): string {
+  const unwrapped = inner.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1');
+  return (unwrapped === inner ? decodeEntities(inner) : unwrapped).trim();
+}
+
+function firstText(xml: string, ...names: string[]): string | undefined {
+  for (const name of names) {
+    const [inner] = elements(xml, name);
+    if (inner !== undefined) {
+      const text = textOf(inner);
+      if (text) return text;
+    }
+  }
+  return undefined;
+}
+
+function parseDate(value: unknown): Date | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+export function detectFeedFormat(text: string): NewsFeedFormat {
+  const head = text.trimStart().slice(0, 2000);
+  if (head.startsWith('{') || head.startsWith('[')) return 'json';
+  if (/<feed[\s>]/i.test(head)) return 'atom';
+  if (/<(rss|rdf:RDF|channel)[\s>]/i.test(head)) return 'rss';
+  throw new NewsIngestionError('Unrecognised feed format', 'INVALID_FEED');
+}
+
+function parseRss(xml: string): FeedItem[] {
+  return elements(xml, 'item').map((item) => {
+    const guid = firstText(item, 'guid');
+    const link = firstText(item, 'link') ?? (guid && /^https?:/i.test(guid) ? guid : undefined);
+
+    return {
+      title: stripHtml(firstText(item, 'title') ?? ''),
+      url: link,
+      content: firstText(item, 'content:encoded', 'description'),
+      summary: firstText(item, 'description'),
+      publishedAt: parseDate(firstText(item, 'pubDate', 'dc:date', 'published')),
+      categories: elements(item, 'category').map(textOf).filter(Boolean)
+    };
+  });
+}
+
+function parseAtom(xml: string): FeedItem[] {
+  return elements(xml, 'entry').map((entry) => {
+    const links = openingTags(entry, 'link');
+    const alternate = links.find((tag) => (attribute(tag, 'rel') ?? 'alternate') === 'alternate') ?? links[0];
+
+    return {
+      title: stripHtml(firstText(entry, 'title') ?? ''),
+      url: alternate ? attribute(alternate, 'href') : undefined,
+      content: firstText(entry, 'content', 'summary'),
+      summary: firstText(entry, 'summary'),
+      publishedAt: parseDate(firstText(entry, 'published', 'updated')),
+      categories: openingTags(entry, 'category')
+        .map((tag) => attribute(tag, 'label') ?? attribute(tag, 'term') ?? '')
+        .filter(Boolean)
+    };
+  });
+}
+
+/**
+ * JSON Feed (https://jsonfeed.org), or a plain array / { items | articles } of
+ * objects with title, url|link, content|description, summary and a date
+ */
+function parseJson(text: string): FeedItem[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new NewsIngestionError('Feed is not valid JSON', 'INVALID_FEED');
+  }
+
+  const record = data as Record<string, unknown>;
+  const items = Array.isArray(data) ? data : Array.isArray(record?.items) ? record.items : Array.isArray(record?.articles) ? record.articles : null;
+  if (!items) {
+    throw new NewsIngestionError('JSON feed has no items', 'INVALID_FEED');
+  }
+
+  return items
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+    .map((item) => {
+      const string = (...keys: string[]) => {
+        for (const key of keys) {
+          if (typeof item[key] === 'string' && item[key]) return item[key] as string;
+        }
+        return undefined;
+      };
+      const tags = item.tags ?? item.categories;
+
+      return {
+        title: stripHtml(string('title') ?? ''),
+        url: string('url', 'external_url', 'link'),
+        content: string('content_html', 'content_text', 'content', 'description'),
+        summary: string('summary', 'description'),
+        publishedAt: parseDate(item.date_published ?? item.publishedAt ?? item.date_modified ?? item.date),
+        categories: Array.isArray(tags) ? tags.filter((tag): tag is string => typeof tag === 'string') : []
+      };
+    });
+}
+
+/**
+ * Parse a feed document; the format is detected when not given
+ */
+export function parseFeed(text: string, format: NewsFeedFormat = detectFeedFormat(text)): FeedItem[] {
+  switch (format) {
+    case 'rss':
+      return parseRss(text);
+    case 'atom':
+      return parseAtom(text);
+    case 'json':
+      return parseJson(text);
+  }
+}
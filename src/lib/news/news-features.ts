@@ -0,0 +1,75 @@
+// News features: the numeric signals agents weigh from recent news — sentiment and its
+// momentum, event counts by category and a regulatory-risk flag.
+
+import type { NewsCategory, NewsFeatures } from '@/types/news';
+import { clusterArticles, type ReportArticle } from './news-report-builder';
+import { aggregateSentiment } from './news-scorer';
+
+const HOUR_MS = 60 * 60 * 1000;
+const HIGH_IMPACT_IMPORTANCE = 8;
+const REGULATORY_RISK_THRESHOLD = 0.4; // About one fresh, important, clearly negative regulatory story
+const EVENT_SIMILARITY = 0.5;
+
+export interface NewsFeatureOptions {
+  windowHours: number; // Articles older than this are ignored; momentum compares its two halves
+  halfLifeHours: number;
+  credibilityOverrides?: Record<string, number>;
+}
+
+export const DEFAULT_NEWS_FEATURE_OPTIONS: NewsFeatureOptions = { windowHours: 48, halfLifeHours: 12 };
+
+const emptyCounts = (): Record<NewsCategory, number> => ({ technical: 0, regulatory: 0, market: 0, corporate: 0 });
+
+/**
+ * Features from the articles of the last window. Momentum is the sentiment index of the
+ * recent half minus that of the half before; 0 when either half has no news.
+ */
+export function computeNewsFeatures(
+  articles: ReportArticle[],
+  now: Date = new Date(),
+  options: NewsFeatureOptions = DEFAULT_NEWS_FEATURE_OPTIONS
+): NewsFeatures {
+  const { windowHours, halfLifeHours, credibilityOverrides = {} } = options;
+  const windowStart = now.getTime() - windowHours * HOUR_MS;
+  const midpoint = new Date(now.getTime() - (windowHours / 2) * HOUR_MS);
+
+  const inWindow = articles.filter(
+    (article) => article.publishedAt.getTime() >= windowStart && article.publishedAt.getTime() <= now.getTime()
+  );
+  const recent = inWindow.filter((article) => article.publishedAt >= midpoint);
+  const earlier = inWindow.filter((article) => article.publishedAt < midpoint);
+
+  const sentiment = aggregateSentiment(recent, now, halfLifeHours, credibilityOverrides).sentiment;
+  const previous = aggregateSentiment(earlier, midpoint, halfLifeHours, credibilityOverrides).sentiment;
+  const sentimentMomentum = recent.length > 0 && earlier.length > 0 ? sentiment - previous : 0;
+
+  const events = clusterArticles(inWindow, now, halfLifeHours, EVENT_SIMILARITY);
+  const eventCounts = emptyCounts();
+  for (const event of events) {
+    if (event.category in eventCounts) eventCounts[event.category]++;
+  }
+  const importance = new Map(inWindow.map((article) => [article.id, article.importanceScore]));
+  const highImpactEvents = events.filter(
+    (event) => (importance.get(event.articleIds[0]) ?? 0) >= HIGH_IMPACT_IMPORTANCE
+  ).length;
+
+  // Negative regulatory news adds risk by importance, fading with age; 1 - e^-x keeps it in 0-1
+  const exposure = inWindow
+    .filter((article) => article.category === 'regulatory' && article.sentimentScore < 0)
+    .reduce((sum, article) => {
+      const ageHours = (now.getTime() - article.publishedAt.getTime()) / HOUR_MS;
+      return sum + -article.sentimentScore * (article.importanceScore / 10) * Math.pow(0.5, ageHours / halfLifeHours);
+    }, 0);
+  const regulatoryRiskScore = Math.round((1 - Math.exp(-exposure)) * 1000) / 1000;
+
+  return {
+    sentiment: Math.round(sentiment * 1000) / 1000,
+    sentimentMomentum: Math.round(sentimentMomentum * 1000) / 1000,
+    eventCounts,
+    highImpactEvents,
+    regulatoryRiskScore,
+    regulatoryRisk: regulatoryRiskScore >= REGULATORY_RISK_THRESHOLD,
+    newsCount: inWindow.length,
+    windowHours
+  };
+}
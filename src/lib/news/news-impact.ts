@@ -0,0 +1,189 @@
+// News impact event study: BTC returns 1h, 4h and 24h after each article against a
+// constant-mean baseline, grouped by category, source and sentiment bucket.
+
+import type {
+  NewsImpactDimension,
+  NewsImpactGroup,
+  NewsImpactHorizon,
+  NewsImpactStats,
+  NewsImpactStudy,
+  SentimentBucket
+} from '@/types/news';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const NEWS_IMPACT_HORIZONS: Record<NewsImpactHorizon, number> = { '1h': 1, '4h': 4, '24h': 24 };
+const HORIZONS = Object.keys(NEWS_IMPACT_HORIZONS) as NewsImpactHorizon[];
+
+export interface ImpactArticle {
+  publishedAt: Date;
+  sentimentScore: number;
+  category: string;
+  source: string;
+}
+
+export interface ImpactPricePoint {
+  timestamp: Date;
+  price: number;
+}
+
+export interface EventStudyOptions {
+  toleranceMs: number; // How stale a price may be and still stand for a moment in time
+  minGroupSize: number; // Groups with fewer measured articles are left out
+  now?: Date; // Horizons ending after this are not measured yet
+}
+
+/**
+ * Same ±0.2 bands the sentiment index uses for bullish and bearish
+ */
+export function sentimentBucket(score: number): SentimentBucket {
+  if (score > 0.2) return 'positive';
+  if (score < -0.2) return 'negative';
+  return 'neutral';
+}
+
+/**
+ * The last price at or before a time, if it is at most toleranceMs old. Prices must be
+ * sorted by time.
+ */
+export function priceAt(prices: ImpactPricePoint[], time: number, toleranceMs: number): number | null {
+  let low = 0;
+  let high = prices.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (prices[mid].timestamp.getTime() <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  if (found < 0 || time - prices[found].timestamp.getTime() > toleranceMs) return null;
+  return prices[found].price;
+}
+
+/**
+ * Percent return over a window starting at a time, or null without prices at both ends
+ */
+export function windowReturn(prices: ImpactPricePoint[], start: number, hours: number, toleranceMs: number): number | null {
+  const open = priceAt(prices, start, toleranceMs);
+  const close = priceAt(prices, start + hours * HOUR_MS, toleranceMs);
+  if (open === null || close === null || open <= 0) return null;
+  return ((close - open) / open) * 100;
+}
+
+/**
+ * Expected return of a window: the mean return of windows starting at every price
+ * point in the series (constant-mean-return model)
+ */
+export function baselineReturn(prices: ImpactPricePoint[], hours: number, toleranceMs: number, now?: Date): number | null {
+  const limit = (now?.getTime() ?? Infinity) - hours * HOUR_MS;
+  let sum = 0;
+  let count = 0;
+  for (const point of prices) {
+    const start = point.timestamp.getTime();
+    if (start > limit) break;
+    const value = windowReturn(prices, start, hours, toleranceMs);
+    if (value !== null) {
+      sum += value;
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : null;
+}
+
+const round = (value: number, digits = 4) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+function summarize(returns: number[], baseline: number): NewsImpactStats {
+  const count = returns.length;
+  if (count === 0) {
+    return { count: 0, avgReturn: 0, avgAbnormalReturn: 0, avgAbsAbnormalReturn: 0, tStat: null };
+  }
+
+  const abnormal = returns.map((value) => value - baseline);
+  const mean = abnormal.reduce((sum, value) => sum + value, 0) / count;
+  const variance = count > 1 ? abnormal.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (count - 1) : 0;
+  const tStat = count > 1 && variance > 0 ? mean / Math.sqrt(variance / count) : null;
+
+  return {
+    count,
+    avgReturn: round(returns.reduce((sum, value) => sum + value, 0) / count),
+    avgAbnormalReturn: round(mean),
+    avgAbsAbnormalReturn: round(abnormal.reduce((sum, value) => sum + Math.abs(value), 0) / count),
+    tStat: tStat === null ? null : round(tStat, 2)
+  };
+}
+
+/**
+ * Measure the reaction after each article and average it per category, source and
+ * sentiment bucket. Groups are ordered by the size of their 24h abnormal move.
+ */
+export function runEventStudy(
+  articles: ImpactArticle[],
+  prices: ImpactPricePoint[],
+  from: Date,
+  to: Date,
+  options: EventStudyOptions
+): NewsImpactStudy {
+  const sorted = [...prices].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const now = options.now ?? new Date();
+
+  const baseline = {} as Record<NewsImpactHorizon, number | null>;
+  for (const horizon of HORIZONS) {
+    const value = baselineReturn(sorted, NEWS_IMPACT_HORIZONS[horizon], options.toleranceMs, now);
+    baseline[horizon] = value === null ? null : round(value);
+  }
+
+  // Per article and horizon: the raw return, when both prices exist and the horizon has passed
+  const reactions = articles.map((article) => {
+    const start = article.publishedAt.getTime();
+    const returns = {} as Record<NewsImpactHorizon, number | null>;
+    for (const horizon of HORIZONS) {
+      const hours = NEWS_IMPACT_HORIZONS[horizon];
+      returns[horizon] = start + hours * HOUR_MS <= now.getTime()
+        ? windowReturn(sorted, start, hours, options.toleranceMs)
+        : null;
+    }
+    return { article, returns };
+  });
+  const measured = reactions.filter(({ returns }) => HORIZONS.some((horizon) => returns[horizon] !== null));
+
+  const keyOf: Record<NewsImpactDimension, (article: ImpactArticle) => string> = {
+    category: (article) => article.category,
+    source: (article) => article.source,
+    sentiment: (article) => sentimentBucket(article.sentimentScore)
+  };
+
+  const groups = {} as Record<NewsImpactDimension, NewsImpactGroup[]>;
+  for (const dimension of Object.keys(keyOf) as NewsImpactDimension[]) {
+    const byKey = new Map<string, typeof measured>();
+    for (const reaction of measured) {
+      const key = keyOf[dimension](reaction.article);
+      byKey.set(key, [...(byKey.get(key) ?? []), reaction]);
+    }
+
+    groups[dimension] = [...byKey.entries()]
+      .filter(([, members]) => members.length >= options.minGroupSize)
+      .map(([key, members]) => {
+        const horizons = {} as Record<NewsImpactHorizon, NewsImpactStats>;
+        for (const horizon of HORIZONS) {
+          const returns = members.map(({ returns }) => returns[horizon]).filter((value): value is number => value !== null);
+          horizons[horizon] = summarize(returns, baseline[horizon] ?? 0);
+        }
+        return { key, count: members.length, horizons };
+      })
+      .sort((a, b) => Math.abs(b.horizons['24h'].avgAbnormalReturn) - Math.abs(a.horizons['24h'].avgAbnormalReturn) || b.count - a.count);
+  }
+
+  return {
+    from,
+    to,
+    articleCount: articles.length,
+    measuredCount: measured.length,
+    baseline,
+    groups,
+    generatedAt: now
+  };
+}
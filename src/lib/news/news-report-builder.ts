@@ -0,0 +1,215 @@
+// News report builder: report periods, event clustering, top stories, sentiment trend
+// and price move for daily and weekly NewsReports. Pure functions; the report service
+// loads the rows and stores the result.
+
+import type {
+  NewsCategory,
+  NewsEventCluster,
+  NewsReportPriceMove,
+  NewsReportType,
+  SentimentTrend
+} from '@/types/news';
+import { aggregateSentiment, type WeightedSentimentArticle } from './news-scorer';
+import { normalizeTitle, titleSimilarity } from './news-utils';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Words that say nothing about which story an article covers
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'into', 'over', 'after', 'before', 'amid', 'as', 'its', 'his', 'her',
+  'new', 'says', 'said', 'report', 'reports', 'will', 'could', 'may', 'than', 'this', 'that', 'what', 'why',
+  'how', 'are', 'was', 'were', 'has', 'have', 'had', 'not', 'but', 'all', 'out', 'via', 'per', 'about',
+  'crypto', 'cryptocurrency', 'market', 'markets', 'price', 'prices', '암호화폐', '가상자산', '시장'
+]);
+
+export interface ReportPeriod {
+  start: Date;
+  end: Date; // Exclusive
+}
+
+export interface ReportArticle extends WeightedSentimentArticle {
+  id: string;
+  title: string;
+  category: string;
+  relatedSymbols: string[];
+}
+
+export interface PricePoint {
+  timestamp: Date;
+  price: number;
+}
+
+/**
+ * The daily (local calendar day) or weekly (Monday to Monday) period containing a date
+ */
+export function reportPeriod(type: NewsReportType, date: Date): ReportPeriod {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  if (type === 'weekly') {
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  }
+
+  const end = new Date(start);
+  end.setDate(end.getDate() + (type === 'weekly' ? 7 : 1));
+  return { start, end };
+}
+
+/**
+ * The period before a report period
+ */
+export function previousPeriod(type: NewsReportType, period: ReportPeriod): ReportPeriod {
+  const before = new Date(period.start.getTime() - 1);
+  return reportPeriod(type, before);
+}
+
+/**
+ * Recency half-life used inside a report: half the period, so the last hours of a
+ * day or the last days of a week count most without silencing the rest
+ */
+export function reportHalfLifeHours(period: ReportPeriod): number {
+  return (period.end.getTime() - period.start.getTime()) / HOUR_MS / 2;
+}
+
+/**
+ * Importance × recency of an article, relative to the end of the period
+ */
+export function storyWeight(article: ReportArticle, periodEnd: Date, halfLifeHours: number): number {
+  const ageHours = Math.max(0, (periodEnd.getTime() - article.publishedAt.getTime()) / HOUR_MS);
+  return article.importanceScore * Math.pow(0.5, ageHours / halfLifeHours);
+}
+
+function keywords(title: string): Set<string> {
+  return new Set(normalizeTitle(title).split(' ').filter((word) => word.length >= 3 && !STOPWORDS.has(word)));
+}
+
+/**
+ * How alike two headlines are (0-1): character bigram similarity, or the share of
+ * keywords the shorter headline has in common with the other when at least two match
+ */
+export function eventSimilarity(a: string, b: string): number {
+  const wordsA = keywords(a);
+  const wordsB = keywords(b);
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  const overlap = shared >= 2 ? shared / Math.min(wordsA.size, wordsB.size) : 0;
+  return Math.max(titleSimilarity(a, b), overlap);
+}
+
+/**
+ * Group articles into events. An article joins the event of the most similar
+ * article above the threshold that shares its category or a symbol; events are
+ * returned heaviest first.
+ */
+export function clusterArticles(
+  articles: ReportArticle[],
+  periodEnd: Date,
+  halfLifeHours: number,
+  threshold: number
+): NewsEventCluster[] {
+  const ranked = articles
+    .map((article) => ({ article, weight: storyWeight(article, periodEnd, halfLifeHours) }))
+    .sort((a, b) => b.weight - a.weight);
+
+  const groups: Array<typeof ranked> = [];
+  for (const entry of ranked) {
+    let best: { group: typeof ranked; similarity: number } | null = null;
+
+    for (const group of groups) {
+      for (const member of group) {
+        const related =
+          member.article.category === entry.article.category ||
+          member.article.relatedSymbols.some((symbol) => entry.article.relatedSymbols.includes(symbol));
+        if (!related) continue;
+
+        const similarity = eventSimilarity(member.article.title, entry.article.title);
+        if (similarity >= threshold && (!best || similarity > best.similarity)) {
+          best = { group, similarity };
+        }
+      }
+    }
+
+    if (best) best.group.push(entry);
+    else groups.push([entry]);
+  }
+
+  return groups
+    .map((group) => {
+      const lead = group[0].article; // Groups are built from the heaviest article down
+      const weight = group.reduce((sum, { weight }) => sum + weight, 0);
+      const importance = group.reduce((sum, { article }) => sum + article.importanceScore, 0);
+      const sentiment = group.reduce((sum, { article }) => sum + article.sentimentScore * article.importanceScore, 0);
+
+      return {
+        headline: lead.title,
+        category: lead.category as NewsCategory,
+        articleIds: group.map(({ article }) => article.id),
+        symbols: [...new Set(group.flatMap(({ article }) => article.relatedSymbols))],
+        weight: Math.round(weight * 1000) / 1000,
+        sentiment: importance > 0 ? Math.round((sentiment / importance) * 1000) / 1000 : 0
+      };
+    })
+    .sort((a, b) => b.weight - a.weight);
+}
+
+/**
+ * Top stories by importance × recency, one per event before any event repeats
+ */
+export function pickTopStories(clusters: NewsEventCluster[], articles: ReportArticle[], count: number): string[] {
+  const leads = clusters.map((cluster) => cluster.articleIds[0]);
+  const rest = clusters.flatMap((cluster) => cluster.articleIds.slice(1));
+  const known = new Set(articles.map((article) => article.id));
+  return [...leads, ...rest].filter((id) => known.has(id)).slice(0, count);
+}
+
+/**
+ * Key event lines as shown to users and agents, e.g. "[REGULATORY] SEC delays … (3건)"
+ */
+export function describeEvents(clusters: NewsEventCluster[], count: number): string[] {
+  return clusters.slice(0, count).map((cluster) =>
+    `[${cluster.category.toUpperCase()}] ${cluster.headline}${cluster.articleIds.length > 1 ? ` (${cluster.articleIds.length}건)` : ''}`
+  );
+}
+
+export function sentimentTrend(change: number | null, threshold: number): SentimentTrend {
+  if (change === null || Math.abs(change) < threshold) return 'stable';
+  return change > 0 ? 'improving' : 'deteriorating';
+}
+
+export function marketTrend(sentiment: number): 'bullish' | 'bearish' | 'neutral' {
+  if (sentiment > 0.2) return 'bullish';
+  if (sentiment < -0.2) return 'bearish';
+  return 'neutral';
+}
+
+/**
+ * Sentiment index of a period, decayed towards its end
+ */
+export function periodSentiment(articles: WeightedSentimentArticle[], period: ReportPeriod): number | null {
+  if (articles.length === 0) return null;
+  return Math.round(aggregateSentiment(articles, period.end, reportHalfLifeHours(period)).sentiment * 1000) / 1000;
+}
+
+/**
+ * BTC move over a period. Opens at the last price before the period when there is
+ * one, otherwise at the first price inside it; null without prices in the period.
+ */
+export function priceMove(inPeriod: PricePoint[], before: PricePoint | null): NewsReportPriceMove | null {
+  if (inPeriod.length === 0) return null;
+
+  const sorted = [...inPeriod].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const open = before?.price ?? sorted[0].price;
+  const close = sorted[sorted.length - 1].price;
+  const prices = sorted.map((point) => point.price);
+
+  return {
+    open,
+    close,
+    high: Math.max(...prices),
+    low: Math.min(...prices),
+    changePercent: open > 0 ? Math.round(((close - open) / open) * 10000) / 100 : 0
+  };
+}
+
+export function periodDays(period: ReportPeriod): number {
+  return Math.round((period.end.getTime() - period.start.getTime()) / DAY_MS);
+}
@@ -0,0 +1,229 @@
+// News scorer: deterministic sentiment and importance for Korean and English crypto
+// news from a finance lexicon, plus the recency-weighted sentiment index built on them.
+
+import type { NewsCategory } from '@/types/news';
+
+// Term weights; English terms also match their inflected forms
+const LEXICON: Record<string, number> = {
+  // English, positive
+  'surge': 0.8, 'soar': 0.8, 'rally': 0.7, 'jump': 0.6, 'gain': 0.5, 'rise': 0.4, 'rose': 0.4, 'climb': 0.4, 'rebound': 0.5,
+  'record high': 0.8, 'all-time high': 0.8, 'breakout': 0.6, 'bullish': 0.7, 'inflow': 0.5, 'adoption': 0.5,
+  'approval': 0.7, 'approve': 0.7, 'partnership': 0.4, 'upgrade': 0.3, 'launch': 0.3, 'expand': 0.4,
+  'optimism': 0.5, 'accumulate': 0.4, 'support': 0.2, 'recover': 0.5, 'boost': 0.5, 'win': 0.5,
+  // English, negative
+  'crash': -0.9, 'plunge': -0.8, 'slump': -0.7, 'tumble': -0.7, 'drop': -0.5, 'fall': -0.4, 'fell': -0.4, 'decline': -0.4,
+  'sell-off': -0.7, 'selloff': -0.7, 'bearish': -0.7, 'outflow': -0.5, 'liquidation': -0.6, 'hack': -0.9,
+  'exploit': -0.8, 'vulnerability': -0.6, 'fraud': -0.9, 'scam': -0.8, 'lawsuit': -0.6, 'sue': -0.6,
+  'ban': -0.8, 'crackdown': -0.7, 'delay': -0.4, 'reject': -0.7, 'investigation': -0.5,
+  'fear': -0.5, 'concern': -0.4, 'risk': -0.3, 'uncertainty': -0.4, 'bankruptcy': -0.9, 'insolvency': -0.9,
+  // Korean, positive
+  '급등': 0.8, '폭등': 0.9, '상승': 0.4, '반등': 0.5, '강세': 0.6, '최고가': 0.8, '신고가': 0.8, '호재': 0.7,
+  '유입': 0.5, '승인': 0.7, '채택': 0.5, '기대': 0.4, '확대': 0.4, '회복': 0.5, '돌파': 0.6, '낙관': 0.5,
+  '파트너십': 0.4, '제휴': 0.4, '출시': 0.3, '매수세': 0.5,
+  // Korean, negative
+  '급락': -0.8, '폭락': -0.9, '하락': -0.4, '약세': -0.6, '악재': -0.7, '유출': -0.5, '해킹': -0.9,
+  '취약점': -0.6, '사기': -0.9, '소송': -0.6, '규제 강화': -0.6, '금지': -0.8, '거부': -0.7, '연기': -0.4,
+  '우려': -0.4, '불확실성': -0.4, '청산': -0.6, '파산': -0.9, '조사': -0.4, '매도세': -0.5, '공포': -0.5
+};
+
+const ENGLISH_NEGATORS = new Set(['not', 'no', 'never', 'without', "isn't", "wasn't", "aren't", "won't", "didn't", "doesn't", "don't", 'fails', 'failed', 'denies', 'denied', 'unlikely']);
+const ENGLISH_BOOSTERS = new Set(['sharply', 'massive', 'huge', 'record', 'major', 'significant', 'significantly', 'strong', 'heavy']);
+const KOREAN_BOOSTERS = ['대폭', '크게', '대규모', '역대', '사상'];
+// After a term: Korean negation (하지 않았다, 되지 못했다) and shifters that reverse it (우려 해소, fears ease)
+const FOLLOWING_NEGATION = /^[^.,!?…\n]{0,8}?(않|못|없|아니|해소|완화|진정)|^\s+(ease|eased|eases|fade|faded|fades|resolved)\b/;
+
+// Sources by reliability (0-1); unknown sources get DEFAULT_CREDIBILITY
+const SOURCE_CREDIBILITY: Record<string, number> = {
+  'reuters': 0.95,
+  'bloomberg': 0.95,
+  'financial times': 0.9,
+  'financialtimes': 0.9,
+  'wall street journal': 0.9,
+  'coindesk': 0.85,
+  'the block': 0.85,
+  'cointelegraph': 0.75,
+  'decrypt': 0.75,
+  'cryptonews': 0.6,
+  '연합뉴스': 0.9,
+  '한국경제': 0.85,
+  '매일경제': 0.85,
+  '코인데스크코리아': 0.8,
+  '블록미디어': 0.75,
+  '디센터': 0.75
+};
+export const DEFAULT_CREDIBILITY = 0.6;
+
+// Where importance starts before evidence is added
+const CATEGORY_BASE_IMPORTANCE: Record<NewsCategory, number> = {
+  regulatory: 6,
+  market: 5,
+  corporate: 5,
+  technical: 4
+};
+
+// Subjects that tend to move the whole market
+const HIGH_IMPACT_TERMS = [
+  'etf', 'sec', 'federal reserve', 'fed', 'interest rate', 'halving', 'all-time high', 'record high', 'hack',
+  'ban', 'blackrock', 'billion', 'lawsuit', 'approval',
+  '금리', '연준', '반감기', '최고가', '해킹', '금지', '승인', '소송', '억 달러', '조 원'
+];
+
+const TITLE_WEIGHT = 2;
+const CONTENT_LIMIT = 4000; // Characters of body text scored
+const SATURATION = 6; // Raw score r maps to r / sqrt(r² + SATURATION)
+
+export interface LexiconHit {
+  term: string;
+  weight: number; // After negation and boosting
+  negated: boolean;
+}
+
+export interface ArticleScore {
+  sentimentScore: number; // -1 to 1
+  importanceScore: number; // 1 to 10
+  credibility: number;
+  hits: LexiconHit[];
+}
+
+export interface ScorableArticle {
+  title: string;
+  content?: string | null;
+  source: string;
+  category: string;
+  relatedSymbols?: string[];
+}
+
+export interface WeightedSentimentArticle {
+  sentimentScore: number;
+  importanceScore: number;
+  source: string;
+  publishedAt: Date;
+}
+
+const isHangul = (text: string) => /[가-힣]/.test(text);
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// English inflections: surge → surged/surging, rally → rallies/rallied, drop → dropped/dropping
+function englishPattern(term: string): RegExp {
+  const stem = escape(term.slice(0, -1));
+  const forms = term.endsWith('e')
+    ? `${stem}(?:e|es|ed|ing)`
+    : term.endsWith('y')
+      ? `${stem}(?:ys?|yed|ying|ies|ied)`
+      : `${escape(term)}(?:${escape(term.slice(-1))}?(?:ed|ing)|s|es)?`;
+  return new RegExp(`(?<![a-z0-9])${forms}(?![a-z0-9])`, 'g');
+}
+
+const TERM_PATTERNS = Object.entries(LEXICON).map(([term, weight]) => ({
+  term,
+  weight,
+  pattern: isHangul(term) ? new RegExp(escape(term), 'g') : englishPattern(term)
+}));
+
+/**
+ * Lexicon hits in a text. A negator in the three words before a term, or Korean
+ * negation right after it, flips and dampens its weight; boosters strengthen it.
+ */
+export function findLexiconHits(text: string): LexiconHit[] {
+  const lower = text.toLowerCase();
+  const hits: Array<LexiconHit & { index: number }> = [];
+
+  for (const { term, weight, pattern } of TERM_PATTERNS) {
+    for (const match of lower.matchAll(pattern)) {
+      const index = match.index ?? 0;
+      const before = lower.slice(Math.max(0, index - 40), index).split(/\s+/).filter(Boolean).slice(-3);
+      const after = lower.slice(index + match[0].length, index + match[0].length + 24);
+
+      const negated =
+        before.some((word) => ENGLISH_NEGATORS.has(word.replace(/[^a-z']/g, ''))) ||
+        FOLLOWING_NEGATION.test(after);
+      const boosted =
+        before.some((word) => ENGLISH_BOOSTERS.has(word.replace(/[^a-z]/g, ''))) ||
+        KOREAN_BOOSTERS.some((booster) => lower.slice(Math.max(0, index - 6), index).includes(booster));
+
+      hits.push({ term, index, negated, weight: weight * (negated ? -0.5 : 1) * (boosted ? 1.3 : 1) });
+    }
+  }
+
+  // Where matches overlap, the longer term counts once
+  hits.sort((a, b) => a.index - b.index || b.term.length - a.term.length);
+  let end = -1;
+  return hits
+    .filter((hit) => {
+      if (hit.index < end) return false;
+      end = hit.index + hit.term.length;
+      return true;
+    })
+    .map(({ term, weight, negated }) => ({ term, weight, negated }));
+}
+
+export function saturate(raw: number): number {
+  return raw / Math.sqrt(raw * raw + SATURATION);
+}
+
+/**
+ * Credibility of a source (0-1); overrides (e.g. per configured feed) win over the table
+ */
+export function sourceCredibility(source: string, overrides: Record<string, number> = {}): number {
+  const key = source.trim().toLowerCase();
+  const override = Object.entries(overrides).find(([name]) => name.trim().toLowerCase() === key);
+  if (override) return override[1];
+  return SOURCE_CREDIBILITY[key] ?? SOURCE_CREDIBILITY[key.replace(/\s+/g, '')] ?? DEFAULT_CREDIBILITY;
+}
+
+/**
+ * Sentiment (-1 to 1) and importance (1 to 10) for an article. Importance is a
+ * property of the story, not its age; recency is applied when sentiment is aggregated.
+ */
+export function scoreArticle(article: ScorableArticle, credibilityOverrides: Record<string, number> = {}): ArticleScore {
+  const body = (article.content ?? '').slice(0, CONTENT_LIMIT);
+  const titleHits = findLexiconHits(article.title);
+  const bodyHits = findLexiconHits(body);
+
+  const raw =
+    TITLE_WEIGHT * titleHits.reduce((sum, hit) => sum + hit.weight, 0) +
+    bodyHits.reduce((sum, hit) => sum + hit.weight, 0);
+  const sentimentScore = Math.round(saturate(raw) * 1000) / 1000;
+
+  const text = `${article.title}\n${body}`.toLowerCase();
+  const impactTerms = HIGH_IMPACT_TERMS.filter((term) =>
+    isHangul(term) ? text.includes(term) : new RegExp(`(?<![a-z0-9])${escape(term)}(?![a-z0-9])`).test(text)
+  ).length;
+
+  const credibility = sourceCredibility(article.source, credibilityOverrides);
+  const evidence =
+    (CATEGORY_BASE_IMPORTANCE[article.category as NewsCategory] ?? 5) +
+    Math.min(3, impactTerms) +
+    Math.round(Math.abs(sentimentScore) * 2) +
+    (article.relatedSymbols?.includes('BTC') ? 1 : 0);
+  const importanceScore = Math.min(10, Math.max(1, Math.round(evidence * (0.5 + credibility / 2))));
+
+  return { sentimentScore, importanceScore, credibility, hits: [...titleHits, ...bodyHits] };
+}
+
+/**
+ * Market sentiment index: article sentiment weighted by importance, source
+ * credibility and an exponential recency decay with the given half-life
+ */
+export function aggregateSentiment(
+  articles: WeightedSentimentArticle[],
+  now: Date = new Date(),
+  halfLifeHours: number = 12,
+  credibilityOverrides: Record<string, number> = {}
+): { sentiment: number; weight: number } {
+  let weighted = 0;
+  let totalWeight = 0;
+
+  for (const article of articles) {
+    const ageHours = Math.max(0, (now.getTime() - article.publishedAt.getTime()) / (60 * 60 * 1000));
+    const weight =
+      article.importanceScore *
+      sourceCredibility(article.source, credibilityOverrides) *
+      Math.pow(0.5, ageHours / halfLifeHours);
+
+    weighted += article.sentimentScore * weight;
+    totalWeight += weight;
+  }
+
+  return { sentiment: totalWeight > 0 ? weighted / totalWeight : 0, weight: totalWeight };
+}
@@ -0,0 +1,179 @@
+// Shared helpers for news ingestion: errors, URL/title normalisation for dedupe,
+// and keyword rules for related symbols and categories (English and Korean).
+
+import type { NewsCategory } from '@/types/news';
+
+export type NewsIngestionErrorCode = 'FEED_NOT_FOUND' | 'FETCH_FAILED' | 'INVALID_FEED' | 'FEED_COOLDOWN';
+
+export class NewsIngestionError extends Error {
+  constructor(
+    message: string,
+    public readonly code: NewsIngestionErrorCode,
+    public readonly status: number = 502
+  ) {
+    super(message);
+    this.name = 'NewsIngestionError';
+  }
+}
+
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ref|cmpid)$/i;
+
+/**
+ * Canonical form of an article URL: lower-case host, no fragment, tracking
+ * parameters or trailing slash. Returns undefined for anything but http(s).
+ */
+export function normalizeUrl(url: string | undefined): string | undefined {
+  if (!url) return undefined;
+  try {
+    const parsed = new URL(url.trim());
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return undefined;
+
+    parsed.hash = '';
+    parsed.hostname = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    for (const key of Array.from(parsed.searchParams.keys())) {
+      if (TRACKING_PARAMS.test(key)) parsed.searchParams.delete(key);
+    }
+    if (parsed.pathname.length > 1) parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+    return parsed.toString();
+  } catch {
+    return undefined;
+  }
+}
+
+export function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+function bigrams(text: string): Map<string, number> {
+  const compact = normalizeTitle(text).replace(/ /g, '');
+  const counts = new Map<string, number>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.slice(i, i + 2);
+    counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Dice coefficient over character bigrams (0-1). Works for Korean titles, where
+ * word tokens vary with particles, as well as English.
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  let total = 0;
+  let shared = 0;
+
+  gramsA.forEach((count, gram) => {
+    total += count;
+    shared += Math.min(count, gramsB.get(gram) ?? 0);
+  });
+  gramsB.forEach((count) => (total += count));
+
+  if (total === 0) return normalizeTitle(a) === normalizeTitle(b) ? 1 : 0;
+  return (2 * shared) / total;
+}
+
+export interface DedupeCandidate {
+  title: string;
+  url?: string | null;
+}
+
+/**
+ * Why an article duplicates one already known: same canonical URL, or a title at
+ * least `threshold` similar. Null when it is new.
+ */
+export function findDuplicate(article: DedupeCandidate, known: DedupeCandidate[], threshold: number): 'url' | 'title' | null {
+  const url = normalizeUrl(article.url ?? undefined);
+  for (const other of known) {
+    if (url && url === normalizeUrl(other.url ?? undefined)) return 'url';
+  }
+  for (const other of known) {
+    if (titleSimilarity(article.title, other.title) >= threshold) return 'title';
+  }
+  return null;
+}
+
+// Names that identify each asset. Tickers only count in upper case, so words
+// such as "link" or "dot" do not tag articles.
+const SYMBOL_KEYWORDS: Record<string, { tickers: string[]; names: string[] }> = {
+  BTC: { tickers: ['BTC', 'XBT'], names: ['bitcoin', '비트코인'] },
+  ETH: { tickers: ['ETH'], names: ['ethereum', 'ether', '이더리움'] },
+  ADA: { tickers: ['ADA'], names: ['cardano', '카르다노', '에이다'] },
+  SOL: { tickers: ['SOL'], names: ['solana', '솔라나'] },
+  DOGE: { tickers: ['DOGE'], names: ['dogecoin', '도지코인'] },
+  LINK: { tickers: ['LINK'], names: ['chainlink', '체인링크'] },
+  BNB: { tickers: ['BNB'], names: ['bnb chain', 'binance coin', '바이낸스코인'] },
+  XRP: { tickers: ['XRP'], names: ['ripple', '리플'] },
+  DOT: { tickers: ['DOT'], names: ['polkadot', '폴카닷'] },
+  USDT: { tickers: ['USDT'], names: ['tether', '테더'] },
+  USDC: { tickers: ['USDC'], names: ['usd coin', 'circle'] }
+};
+
+function containsName(lowerText: string, name: string): boolean {
+  // Hangul names appear with particles attached, so only Latin names need word boundaries
+  if (/[가-힣]/.test(name)) return lowerText.includes(name);
+  return new RegExp(`(^|[^a-z0-9])${name}($|[^a-z0-9])`).test(lowerText);
+}
+
+/**
+ * Symbols the text mentions, in the order of SYMBOL_KEYWORDS
+ */
+export function extractSymbols(text: string): string[] {
+  const lower = text.toLowerCase();
+  return Object.entries(SYMBOL_KEYWORDS)
+    .filter(([, { tickers, names }]) =>
+      tickers.some((ticker) => new RegExp(`(^|[^A-Za-z0-9$])\\$?${ticker}($|[^A-Za-z0-9])`).test(text)) ||
+      names.some((name) => containsName(lower, name))
+    )
+    .map(([symbol]) => symbol);
+}
+
+const CATEGORY_KEYWORDS: Record<NewsCategory, string[]> = {
+  regulatory: [
+    'sec', 'cftc', 'regulation', 'regulator', 'regulatory', 'law', 'bill', 'lawsuit', 'court', 'ban', 'tax',
+    'compliance', 'sanction', 'central bank', 'cbdc', 'license', 'approval',
+    '규제', '법안', '당국', '금융위', '금감원', '소송', '과세', '세금', '중앙은행', '승인', '제재'
+  ],
+  technical: [
+    'upgrade', 'fork', 'hard fork', 'protocol', 'mainnet', 'testnet', 'layer 2', 'developer', 'hack', 'exploit',
+    'vulnerability', 'hashrate', 'mining', 'node', 'smart contract', 'scalability',
+    '업그레이드', '하드포크', '프로토콜', '메인넷', '테스트넷', '개발', '해킹', '취약점', '해시레이트', '채굴', '네트워크'
+  ],
+  corporate: [
+    'company', 'ceo', 'partnership', 'acquisition', 'acquire', 'earnings', 'launches', 'bank', 'firm', 'treasury',
+    'blackrock', 'jpmorgan', 'microstrategy', 'tesla', 'coinbase', 'fidelity',
+    '기업', '인수', '파트너십', '제휴', '실적', '출시', '은행', '투자은행', '회사'
+  ],
+  market: [
+    'price', 'rally', 'surge', 'drop', 'fall', 'plunge', 'all-time high', 'record high', 'trading', 'volume',
+    'market', 'liquidation', 'bull', 'bear', 'etf inflow', 'etf outflow', 'sell-off', 'selloff',
+    '가격', '상승', '하락', '급등', '급락', '최고가', '시장', '거래량', '매수', '매도', '청산', '강세', '약세'
+  ]
+};
+
+/**
+ * Category with the most keyword hits, title hits counting double. Feed-provided
+ * categories are matched like title words. Falls back when nothing matches.
+ */
+export function classifyCategory(
+  article: { title: string; content?: string; categories?: string[] },
+  fallback: NewsCategory = 'market'
+): NewsCategory {
+  const title = `${article.title} ${(article.categories ?? []).join(' ')}`.toLowerCase();
+  const body = (article.content ?? '').toLowerCase();
+  let best: NewsCategory = fallback;
+  let bestScore = 0;
+
+  for (const [category, keywords] of Object.entries(CATEGORY_KEYWORDS) as Array<[NewsCategory, string[]]>) {
+    const score = keywords.reduce(
+      (sum, keyword) => sum + (containsName(title, keyword) ? 2 : 0) + (containsName(body, keyword) ? 1 : 0),
+      0
+    );
+    if (score > bestScore) {
+      best = category;
+      bestScore = score;
+    }
+  }
+  return best;
+}
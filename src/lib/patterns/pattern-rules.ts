@@ -0,0 +1,682 @@
+// Pattern rule language: a small expression DSL for executable patterns, e.g.
+// `rsi(14) < 30 and close > sma(50) and crossover(macd, macd_signal)`.
+// Rules are parsed and type-checked up front (no eval, bounded size and depth), then
+// evaluated over a candle history into one true/false value per candle.
+
+import { indicatorSeries } from '@/lib/indicators/indicator-engine';
+import {
+  ADX,
+  ATR,
+  BollingerBands,
+  DonchianChannels,
+  EMA,
+  Ichimoku,
+  KeltnerChannels,
+  MACD,
+  OBV,
+  RSI,
+  SMA,
+  Stochastic,
+  VWAP
+} from '@/lib/indicators/streaming-indicators';
+import type { IndicatorCandle } from '@/types/indicators';
+
+export const MAX_RULE_LENGTH = 500;
+const MAX_RULE_NODES = 100;
+const MAX_RULE_DEPTH = 20;
+const MAX_PERIOD = 500;
+
+export class PatternRuleError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} (at ${position + 1})`);
+    this.name = 'PatternRuleError';
+  }
+}
+
+type ValueType = 'number' | 'boolean';
+type Series = Array<number | null>;
+
+const PRICE_FIELDS = ['open', 'high', 'low', 'close', 'volume'] as const;
+type PriceField = (typeof PRICE_FIELDS)[number];
+
+const COMPARISONS = ['<', '<=', '>', '>=', '==', '!='] as const;
+type Comparison = (typeof COMPARISONS)[number];
+type BinaryOp = Comparison | '+' | '-' | '*' | '/' | 'and' | 'or';
+
+export type RuleNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'field'; name: PriceField }
+  | { kind: 'indicator'; name: string; params: number[] }
+  | { kind: 'call'; name: string; args: RuleNode[]; params: number[] }
+  | { kind: 'negate'; operand: RuleNode }
+  | { kind: 'not'; operand: RuleNode }
+  | { kind: 'binary'; op: BinaryOp; left: RuleNode; right: RuleNode };
+
+export interface PatternRule {
+  source: string;
+  ast: RuleNode;
+  lookback: number; // Candles before the first bar the rule can be true on
+}
+
+export interface PatternRuleEvaluation {
+  values: boolean[]; // Whether the rule holds on each candle
+  triggers: number[]; // Candle indexes where the rule turns true
+  lookback: number;
+}
+
+interface ParamSpec {
+  name: string;
+  default?: number;
+  min?: number; // Periods are integers from 1 unless a min is given
+  integer?: boolean;
+}
+
+const period = (name: string, value?: number): ParamSpec => ({ name, default: value, min: 1, integer: true });
+const factor = (name: string, value: number): ParamSpec => ({ name, default: value, min: 0, integer: false });
+
+interface IndicatorSpec {
+  params: ParamSpec[];
+  warmup: (params: number[]) => number;
+  compute: (candles: IndicatorCandle[], params: number[]) => Series;
+}
+
+const closes = (candles: IndicatorCandle[]) => candles.map((candle) => candle.close);
+const pick = <T>(values: Array<T | null>, select: (value: T) => number | null): Series =>
+  values.map((value) => (value === null ? null : select(value)));
+
+// Indicators take only constant parameters; with all defaults they can be written bare (`macd`)
+const INDICATORS: Record<string, IndicatorSpec> = {
+  sma: { params: [period('period')], warmup: ([n]) => n, compute: (c, [n]) => indicatorSeries(new SMA(n), closes(c)) },
+  ema: { params: [period('period')], warmup: ([n]) => n, compute: (c, [n]) => indicatorSeries(new EMA(n), closes(c)) },
+  rsi: { params: [period('period', 14)], warmup: ([n]) => n + 1, compute: (c, [n]) => indicatorSeries(new RSI(n), closes(c)) },
+  macd: {
+    params: [period('fast', 12), period('slow', 26), period('signal', 9)],
+    warmup: ([, slow]) => slow,
+    compute: (c, [fast, slow, signal]) => pick(indicatorSeries(new MACD(fast, slow, signal), closes(c)), (v) => v.macd)
+  },
+  macd_signal: {
+    params: [period('fast', 12), period('slow', 26), period('signal', 9)],
+    warmup: ([, slow, signal]) => slow + signal - 1,
+    compute: (c, [fast, slow, signal]) => pick(indicatorSeries(new MACD(fast, slow, signal), closes(c)), (v) => v.signal)
+  },
+  macd_hist: {
+    params: [period('fast', 12), period('slow', 26), period('signal', 9)],
+    warmup: ([, slow, signal]) => slow + signal - 1,
+    compute: (c, [fast, slow, signal]) => pick(indicatorSeries(new MACD(fast, slow, signal), closes(c)), (v) => v.histogram)
+  },
+  bb_upper: {
+    params: [period('period', 20), factor('multiplier', 2)],
+    warmup: ([n]) => n,
+    compute: (c, [n, k]) => pick(indicatorSeries(new BollingerBands(n, k), closes(c)), (v) => v.upper)
+  },
+  bb_middle: {
+    params: [period('period', 20), factor('multiplier', 2)],
+    warmup: ([n]) => n,
+    compute: (c, [n, k]) => pick(indicatorSeries(new BollingerBands(n, k), closes(c)), (v) => v.middle)
+  },
+  bb_lower: {
+    params: [period('period', 20), factor('multiplier', 2)],
+    warmup: ([n]) => n,
+    compute: (c, [n, k]) => pick(indicatorSeries(new BollingerBands(n, k), closes(c)), (v) => v.lower)
+  },
+  stoch_k: {
+    params: [period('kPeriod', 14), period('dPeriod', 3)],
+    warmup: ([k]) => k,
+    compute: (c, [k, d]) => pick(indicatorSeries(new Stochastic(k, d), c), (v) => v.k)
+  },
+  stoch_d: {
+    params: [period('kPeriod', 14), period('dPeriod', 3)],
+    warmup: ([k, d]) => k + d - 1,
+    compute: (c, [k, d]) => pick(indicatorSeries(new Stochastic(k, d), c), (v) => v.d)
+  },
+  atr: { params: [period('period', 14)], warmup: ([n]) => n + 1, compute: (c, [n]) => indicatorSeries(new ATR(n), c) },
+  adx: {
+    params: [period('period', 14)],
+    warmup: ([n]) => n * 2,
+    compute: (c, [n]) => pick(indicatorSeries(new ADX(n), c), (v) => v.adx)
+  },
+  plus_di: {
+    params: [period('period', 14)],
+    warmup: ([n]) => n + 1,
+    compute: (c, [n]) => pick(indicatorSeries(new ADX(n), c), (v) => v.plusDI)
+  },
+  minus_di: {
+    params: [period('period', 14)],
+    warmup: ([n]) => n + 1,
+    compute: (c, [n]) => pick(indicatorSeries(new ADX(n), c), (v) => v.minusDI)
+  },
+  obv: { params: [], warmup: () => 1, compute: (c) => indicatorSeries(new OBV(), c) },
+  vwap: { params: [], warmup: () => 1, compute: (c) => indicatorSeries(new VWAP(), c) },
+  donchian_upper: {
+    params: [period('period', 20)],
+    warmup: ([n]) => n,
+    compute: (c, [n]) => pick(indicatorSeries(new DonchianChannels(n), c), (v) => v.upper)
+  },
+  donchian_lower: {
+    params: [period('period', 20)],
+    warmup: ([n]) => n,
+    compute: (c, [n]) => pick(indicatorSeries(new DonchianChannels(n), c), (v) => v.lower)
+  },
+  keltner_upper: {
+    params: [period('emaPeriod', 20), period('atrPeriod', 10), factor('multiplier', 2)],
+    warmup: ([ema, atr]) => Math.max(ema, atr + 1),
+    compute: (c, [ema, atr, k]) => pick(indicatorSeries(new KeltnerChannels(ema, atr, k), c), (v) => v.upper)
+  },
+  keltner_lower: {
+    params: [period('emaPeriod', 20), period('atrPeriod', 10), factor('multiplier', 2)],
+    warmup: ([ema, atr]) => Math.max(ema, atr + 1),
+    compute: (c, [ema, atr, k]) => pick(indicatorSeries(new KeltnerChannels(ema, atr, k), c), (v) => v.lower)
+  },
+  tenkan: { params: [], warmup: () => 52, compute: (c) => pick(indicatorSeries(new Ichimoku(), c), (v) => v.conversion) },
+  kijun: { params: [], warmup: () => 52, compute: (c) => pick(indicatorSeries(new Ichimoku(), c), (v) => v.base) },
+  // The cloud over the current candle, projected 26 candles earlier
+  cloud_a: { params: [], warmup: () => 78, compute: (c) => pick(indicatorSeries(new Ichimoku(), c), (v) => v.cloudA) },
+  cloud_b: { params: [], warmup: () => 78, compute: (c) => pick(indicatorSeries(new Ichimoku(), c), (v) => v.cloudB) }
+};
+
+interface SeriesFunctionSpec {
+  args: ValueType[]; // Expression arguments, then constant params
+  params: ParamSpec[];
+  returns: ValueType;
+  warmup: (params: number[]) => number; // Extra candles on top of the arguments' lookback
+}
+
+const SERIES_FUNCTIONS: Record<string, SeriesFunctionSpec> = {
+  crossover: { args: ['number', 'number'], params: [], returns: 'boolean', warmup: () => 1 },
+  crossunder: { args: ['number', 'number'], params: [], returns: 'boolean', warmup: () => 1 },
+  prev: { args: ['number'], params: [period('offset', 1)], returns: 'number', warmup: ([n]) => n },
+  change: { args: ['number'], params: [period('offset', 1)], returns: 'number', warmup: ([n]) => n },
+  pct_change: { args: ['number'], params: [period('offset', 1)], returns: 'number', warmup: ([n]) => n },
+  highest: { args: ['number'], params: [period('period')], returns: 'number', warmup: ([n]) => n - 1 },
+  lowest: { args: ['number'], params: [period('period')], returns: 'number', warmup: ([n]) => n - 1 },
+  abs: { args: ['number'], params: [], returns: 'number', warmup: () => 0 },
+  min: { args: ['number', 'number'], params: [], returns: 'number', warmup: () => 0 },
+  max: { args: ['number', 'number'], params: [], returns: 'number', warmup: () => 0 }
+};
+
+// ---------------------------------------------------------------------------
+// Tokenizer and parser
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'name'; value: string; position: number }
+  | { type: 'symbol'; value: string; position: number }
+  | { type: 'end'; position: number };
+
+const SYMBOLS = ['<=', '>=', '==', '!=', '&&', '||', '<', '>', '+', '-', '*', '/', '(', ')', ',', '!'];
+const SYMBOL_WORDS: Record<string, string> = { '&&': 'and', '||': 'or', '!': 'not' };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const number = /^(\d+(\.\d+)?|\.\d+)/.exec(source.slice(i));
+    if (number) {
+      tokens.push({ type: 'number', value: parseFloat(number[0]), position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (name) {
+      tokens.push({ type: 'name', value: name[0].toLowerCase(), position: i });
+      i += name[0].length;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find((candidate) => source.startsWith(candidate, i));
+    if (!symbol) throw new PatternRuleError(`Unexpected character '${char}'`, i);
+    tokens.push(SYMBOL_WORDS[symbol]
+      ? { type: 'name', value: SYMBOL_WORDS[symbol], position: i }
+      : { type: 'symbol', value: symbol, position: i });
+    i += symbol.length;
+  }
+  tokens.push({ type: 'end', position: source.length });
+  return tokens;
+}
+
+// Untyped syntax tree, resolved against the indicator and function tables afterwards
+type SyntaxNode =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'name'; name: string; position: number }
+  | { kind: 'call'; name: string; args: SyntaxNode[]; position: number }
+  | { kind: 'unary'; op: '-' | 'not'; operand: SyntaxNode; position: number }
+  | { kind: 'binary'; op: BinaryOp; left: SyntaxNode; right: SyntaxNode; position: number };
+
+class Parser {
+  private index = 0;
+  private nodes = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): SyntaxNode {
+    const node = this.or(0);
+    const token = this.peek();
+    if (token.type !== 'end') throw new PatternRuleError(`Unexpected '${describe(token)}'`, token.position);
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private isWord(word: string): boolean {
+    const token = this.peek();
+    return token.type === 'name' && token.value === word;
+  }
+
+  private isSymbol(...symbols: string[]): boolean {
+    const token = this.peek();
+    return token.type === 'symbol' && symbols.includes(token.value);
+  }
+
+  private expect(symbol: string): void {
+    const token = this.peek();
+    if (!this.isSymbol(symbol)) throw new PatternRuleError(`Expected '${symbol}' but found '${describe(token)}'`, token.position);
+    this.index++;
+  }
+
+  private node<T extends SyntaxNode>(node: T, depth: number): T {
+    if (++this.nodes > MAX_RULE_NODES) throw new PatternRuleError(`Rule is too long (over ${MAX_RULE_NODES} terms)`, node.position);
+    if (depth > MAX_RULE_DEPTH) throw new PatternRuleError(`Rule is nested too deeply (over ${MAX_RULE_DEPTH} levels)`, node.position);
+    return node;
+  }
+
+  private or(depth: number): SyntaxNode {
+    let left = this.and(depth);
+    while (this.isWord('or')) {
+      const position = this.peek().position;
+      this.index++;
+      left = this.node({ kind: 'binary', op: 'or', left, right: this.and(depth + 1), position }, depth);
+    }
+    return left;
+  }
+
+  private and(depth: number): SyntaxNode {
+    let left = this.not(depth);
+    while (this.isWord('and')) {
+      const position = this.peek().position;
+      this.index++;
+      left = this.node({ kind: 'binary', op: 'and', left, right: this.not(depth + 1), position }, depth);
+    }
+    return left;
+  }
+
+  private not(depth: number): SyntaxNode {
+    if (this.isWord('not')) {
+      const position = this.peek().position;
+      this.index++;
+      return this.node({ kind: 'unary', op: 'not', operand: this.not(depth + 1), position }, depth);
+    }
+    return this.comparison(depth);
+  }
+
+  private comparison(depth: number): SyntaxNode {
+    const left = this.sum(depth);
+    if (!this.isSymbol(...COMPARISONS)) return left;
+
+    const token = this.peek() as Token & { value: Comparison };
+    this.index++;
+    const node = this.node({ kind: 'binary', op: token.value, left, right: this.sum(depth + 1), position: token.position }, depth);
+    if (this.isSymbol(...COMPARISONS)) {
+      throw new PatternRuleError('Comparisons cannot be chained; join them with and', this.peek().position);
+    }
+    return node;
+  }
+
+  private sum(depth: number): SyntaxNode {
+    let left = this.product(depth);
+    while (this.isSymbol('+', '-')) {
+      const token = this.peek() as Token & { value: '+' | '-' };
+      this.index++;
+      left = this.node({ kind: 'binary', op: token.value, left, right: this.product(depth + 1), position: token.position }, depth);
+    }
+    return left;
+  }
+
+  private product(depth: number): SyntaxNode {
+    let left = this.unary(depth);
+    while (this.isSymbol('*', '/')) {
+      const token = this.peek() as Token & { value: '*' | '/' };
+      this.index++;
+      left = this.node({ kind: 'binary', op: token.value, left, right: this.unary(depth + 1), position: token.position }, depth);
+    }
+    return left;
+  }
+
+  private unary(depth: number): SyntaxNode {
+    if (this.isSymbol('-')) {
+      const position = this.peek().position;
+      this.index++;
+      return this.node({ kind: 'unary', op: '-', operand: this.unary(depth + 1), position }, depth);
+    }
+    return this.primary(depth);
+  }
+
+  private primary(depth: number): SyntaxNode {
+    const token = this.peek();
+
+    if (token.type === 'number') {
+      this.index++;
+      return this.node({ kind: 'number', value: token.value, position: token.position }, depth);
+    }
+
+    if (this.isSymbol('(')) {
+      this.index++;
+      const inner = this.or(depth + 1);
+      this.expect(')');
+      return inner;
+    }
+
+    if (token.type === 'name' && !['and', 'or', 'not'].includes(token.value)) {
+      this.index++;
+      if (!this.isSymbol('(')) return this.node({ kind: 'name', name: token.value, position: token.position }, depth);
+
+      this.index++;
+      const args: SyntaxNode[] = [];
+      if (!this.isSymbol(')')) {
+        do {
+          if (args.length > 0) this.index++; // The comma
+          args.push(this.or(depth + 1));
+        } while (this.isSymbol(','));
+      }
+      this.expect(')');
+      return this.node({ kind: 'call', name: token.value, args, position: token.position }, depth);
+    }
+
+    throw new PatternRuleError(token.type === 'end' ? 'Rule ends too early' : `Unexpected '${describe(token)}'`, token.position);
+  }
+}
+
+function describe(token: Token): string {
+  return token.type === 'end' ? 'end of rule' : String(token.value);
+}
+
+// ---------------------------------------------------------------------------
+// Resolution: names, arity, constant parameters and types
+
+interface Resolved {
+  node: RuleNode;
+  type: ValueType;
+  lookback: number;
+}
+
+function constantParams(name: string, specs: ParamSpec[], args: SyntaxNode[], position: number): number[] {
+  if (args.length > specs.length) {
+    throw new PatternRuleError(`${name} takes at most ${specs.length} parameter${specs.length === 1 ? '' : 's'}`, position);
+  }
+
+  return specs.map((spec, i) => {
+    const arg = args[i];
+    if (!arg) {
+      if (spec.default === undefined) throw new PatternRuleError(`${name} needs a ${spec.name}`, position);
+      return spec.default;
+    }
+    if (arg.kind !== 'number') throw new PatternRuleError(`The ${spec.name} of ${name} must be a number`, arg.position);
+    if (spec.integer !== false && !Number.isInteger(arg.value)) {
+      throw new PatternRuleError(`The ${spec.name} of ${name} must be a whole number`, arg.position);
+    }
+    if (arg.value < (spec.min ?? 1) || arg.value > MAX_PERIOD) {
+      throw new PatternRuleError(`The ${spec.name} of ${name} must be between ${spec.min ?? 1} and ${MAX_PERIOD}`, arg.position);
+    }
+    return arg.value;
+  });
+}
+
+function expectType(resolved: Resolved, type: ValueType, position: number, context: string): Resolved {
+  if (resolved.type !== type) {
+    throw new PatternRuleError(`${context} needs ${type === 'number' ? 'a number' : 'a condition'}, not ${resolved.type === 'number' ? 'a number' : 'a condition'}`, position);
+  }
+  return resolved;
+}
+
+function resolve(node: SyntaxNode): Resolved {
+  switch (node.kind) {
+    case 'number':
+      return { node: { kind: 'number', value: node.value }, type: 'number', lookback: 0 };
+
+    case 'name':
+      if ((PRICE_FIELDS as readonly string[]).includes(node.name)) {
+        return { node: { kind: 'field', name: node.name as PriceField }, type: 'number', lookback: 0 };
+      }
+      if (INDICATORS[node.name]) return resolveIndicator(node.name, [], node.position);
+      if (SERIES_FUNCTIONS[node.name]) throw new PatternRuleError(`${node.name} needs arguments, e.g. ${node.name}(...)`, node.position);
+      throw new PatternRuleError(`Unknown name '${node.name}'`, node.position);
+
+    case 'call': {
+      if (INDICATORS[node.name]) return resolveIndicator(node.name, node.args, node.position);
+
+      const spec = SERIES_FUNCTIONS[node.name];
+      if (!spec) {
+        const known = (PRICE_FIELDS as readonly string[]).includes(node.name);
+        throw new PatternRuleError(known ? `${node.name} is not a function` : `Unknown function '${node.name}'`, node.position);
+      }
+      if (node.args.length < spec.args.length) {
+        throw new PatternRuleError(`${node.name} needs ${spec.args.length} argument${spec.args.length === 1 ? '' : 's'}`, node.position);
+      }
+
+      const args = node.args.slice(0, spec.args.length).map((arg, i) =>
+        expectType(resolve(arg), spec.args[i], arg.position, node.name)
+      );
+      const params = constantParams(node.name, spec.params, node.args.slice(spec.args.length), node.position);
+      return {
+        node: { kind: 'call', name: node.name, args: args.map((arg) => arg.node), params },
+        type: spec.returns,
+        lookback: Math.max(0, ...args.map((arg) => arg.lookback)) + spec.warmup(params)
+      };
+    }
+
+    case 'unary': {
+      const operand = resolve(node.operand);
+      if (node.op === 'not') {
+        expectType(operand, 'boolean', node.position, 'not');
+        return { node: { kind: 'not', operand: operand.node }, type: 'boolean', lookback: operand.lookback };
+      }
+      expectType(operand, 'number', node.position, "'-'");
+      return { node: { kind: 'negate', operand: operand.node }, type: 'number', lookback: operand.lookback };
+    }
+
+    case 'binary': {
+      const logical = node.op === 'and' || node.op === 'or';
+      const operandType: ValueType = logical ? 'boolean' : 'number';
+      const left = expectType(resolve(node.left), operandType, node.left.position, `'${node.op}'`);
+      const right = expectType(resolve(node.right), operandType, node.right.position, `'${node.op}'`);
+      const comparison = (COMPARISONS as readonly string[]).includes(node.op);
+      return {
+        node: { kind: 'binary', op: node.op, left: left.node, right: right.node },
+        type: logical || comparison ? 'boolean' : 'number',
+        lookback: Math.max(left.lookback, right.lookback)
+      };
+    }
+  }
+}
+
+function resolveIndicator(name: string, args: SyntaxNode[], position: number): Resolved {
+  const spec = INDICATORS[name];
+  const params = constantParams(name, spec.params, args, position);
+  return { node: { kind: 'indicator', name, params }, type: 'number', lookback: spec.warmup(params) - 1 };
+}
+
+/**
+ * Parse and type-check a rule. Throws PatternRuleError with the position of the problem.
+ */
+export function parsePatternRule(source: string): PatternRule {
+  if (source.length > MAX_RULE_LENGTH) {
+    throw new PatternRuleError(`Rule is longer than ${MAX_RULE_LENGTH} characters`, MAX_RULE_LENGTH);
+  }
+  if (source.trim() === '') throw new PatternRuleError('Rule is empty', 0);
+
+  const resolved = resolve(new Parser(tokenize(source)).parse());
+  if (resolved.type !== 'boolean') {
+    throw new PatternRuleError('A rule must be a condition, e.g. rsi(14) < 30', 0);
+  }
+  return { source, ast: resolved.node, lookback: resolved.lookback };
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+
+type Values = Series | boolean[];
+
+const lagged = (values: Series, offset: number, i: number) => (i - offset >= 0 ? values[i - offset] : null);
+
+function windowExtreme(values: Series, size: number, pickMax: boolean): Series {
+  return values.map((_, i) => {
+    if (i < size - 1) return null;
+    const window = values.slice(i - size + 1, i + 1);
+    if (window.some((value) => value === null)) return null;
+    return pickMax ? Math.max(...(window as number[])) : Math.min(...(window as number[]));
+  });
+}
+
+function compare(op: Comparison, a: number, b: number): boolean {
+  switch (op) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+    case '==': return a === b;
+    case '!=': return a !== b;
+  }
+}
+
+class RuleEvaluator {
+  private cache = new Map<string, Series>(); // Indicator series shared across the rule
+
+  constructor(private readonly candles: IndicatorCandle[]) {}
+
+  numbers(node: RuleNode): Series {
+    return this.evaluate(node) as Series;
+  }
+
+  conditions(node: RuleNode): boolean[] {
+    return this.evaluate(node) as boolean[];
+  }
+
+  private evaluate(node: RuleNode): Values {
+    const length = this.candles.length;
+
+    switch (node.kind) {
+      case 'number':
+        return new Array<number>(length).fill(node.value);
+
+      case 'field':
+        return this.candles.map((candle) => (node.name === 'volume' ? candle.volume ?? 0 : candle[node.name] ?? null));
+
+      case 'indicator': {
+        const key = `${node.name}(${node.params.join(',')})`;
+        let series = this.cache.get(key);
+        if (!series) {
+          series = INDICATORS[node.name].compute(this.candles, node.params);
+          this.cache.set(key, series);
+        }
+        return series;
+      }
+
+      case 'negate':
+        return this.numbers(node.operand).map((value) => (value === null ? null : -value));
+
+      case 'not':
+        return this.conditions(node.operand).map((value) => !value);
+
+      case 'binary': {
+        if (node.op === 'and' || node.op === 'or') {
+          const left = this.conditions(node.left);
+          const right = this.conditions(node.right);
+          return left.map((value, i) => (node.op === 'and' ? value && right[i] : value || right[i]));
+        }
+
+        const left = this.numbers(node.left);
+        const right = this.numbers(node.right);
+        if ((COMPARISONS as readonly string[]).includes(node.op)) {
+          // Comparisons with a missing value (warm-up) are false
+          return left.map((a, i) => a !== null && right[i] !== null && compare(node.op as Comparison, a, right[i]!));
+        }
+        return left.map((a, i) => {
+          const b = right[i];
+          if (a === null || b === null) return null;
+          switch (node.op) {
+            case '+': return a + b;
+            case '-': return a - b;
+            case '*': return a * b;
+            default: return b === 0 ? null : a / b;
+          }
+        });
+      }
+
+      case 'call':
+        return this.call(node.name, node.args, node.params);
+    }
+  }
+
+  private call(name: string, args: RuleNode[], params: number[]): Values {
+    const [a, b] = args.map((arg) => this.numbers(arg));
+    const [n] = params;
+
+    switch (name) {
+      case 'crossover':
+      case 'crossunder':
+        return a.map((value, i) => {
+          const previousA = lagged(a, 1, i);
+          const previousB = lagged(b, 1, i);
+          if (value === null || b[i] === null || previousA === null || previousB === null) return false;
+          return name === 'crossover'
+            ? previousA <= previousB && value > b[i]!
+            : previousA >= previousB && value < b[i]!;
+        });
+      case 'prev':
+        return a.map((_, i) => lagged(a, n, i));
+      case 'change':
+      case 'pct_change':
+        return a.map((value, i) => {
+          const previous = lagged(a, n, i);
+          if (value === null || previous === null) return null;
+          if (name === 'change') return value - previous;
+          return previous === 0 ? null : ((value - previous) / previous) * 100;
+        });
+      case 'highest':
+        return windowExtreme(a, n, true);
+      case 'lowest':
+        return windowExtreme(a, n, false);
+      case 'abs':
+        return a.map((value) => (value === null ? null : Math.abs(value)));
+      case 'min':
+      case 'max':
+        return a.map((value, i) => {
+          if (value === null || b[i] === null) return null;
+          return name === 'min' ? Math.min(value, b[i]!) : Math.max(value, b[i]!);
+        });
+      default:
+        throw new Error(`Unhandled rule function ${name}`);
+    }
+  }
+}
+
+/**
+ * Evaluate a rule over candles (oldest first). A rule holds or not on every candle;
+ * triggers are the candles where it turns true after not holding on the previous one.
+ */
+export function evaluatePatternRule(rule: PatternRule | string, candles: IndicatorCandle[]): PatternRuleEvaluation {
+  const parsed = typeof rule === 'string' ? parsePatternRule(rule) : rule;
+  // Nothing holds before every part of the rule has warmed up (e.g. `not` over a missing value)
+  const values = new RuleEvaluator(candles).conditions(parsed.ast).map((value, i) => i >= parsed.lookback && value);
+  const triggers = values.flatMap((value, i) => (value && (i === 0 || !values[i - 1]) ? [i] : []));
+  return { values, triggers, lookback: parsed.lookback };
+}
+
+/**
+ * Names a rule can use, for help text and editors
+ */
+export function patternRuleVocabulary(): { fields: string[]; indicators: string[]; functions: string[] } {
+  return {
+    fields: [...PRICE_FIELDS],
+    indicators: Object.keys(INDICATORS),
+    functions: Object.keys(SERIES_FUNCTIONS)
+  };
+}
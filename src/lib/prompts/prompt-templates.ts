@@ -1,13 +1,18 @@
+import type { PatternPerformance } from '@/types/game';
+
+interface AgentPattern {
+  name: string;
+  description: string;
+  confidenceRate: number;
+  performance?: Pick<PatternPerformance, 'totalTrades' | 'winRate' | 'averageReturn'>;
+}
+
 interface Agent {
   name: string;
   personality: string;
   strategy: string[];
   description: string;
-  patterns?: Array<{
-    name: string;
-    description: string;
-    confidenceRate: number;
-  }>;
+  patterns?: AgentPattern[];
 }
 
 interface PromptVariables {
@@ -164,15 +169,25 @@ function formatStrategies(strategies: string[]): string {
   return strategies.map((strategy, index) => `${index + 1}. **${strategy}**`).join('\n');
 }
 
-function formatPatterns(patterns: Array<{ name: string; description: string; confidenceRate: number }>): string {
+function formatPatterns(patterns: AgentPattern[]): string {
   if (patterns.length === 0) {
     return "현재 등록된 분석 패턴이 없습니다. 기본적인 시장 분석 방법론을 활용합니다.";
   }
   
-  return patterns.map((pattern, index) => 
-    `${index + 1}. **${pattern.name}** (신뢰도: ${pattern.confidenceRate}%)
-   - ${pattern.description}`
-  ).join('\n\n');
+  const formatted = patterns.map((pattern, index) => {
+    const performance = pattern.performance;
+    const trackRecord = performance && performance.totalTrades > 0
+      ? `\n   - 실거래 성과: ${performance.totalTrades}회, 승률 ${performance.winRate}%, 평균 수익률 ${performance.averageReturn >= 0 ? '+' : ''}${performance.averageReturn}%`
+      : '';
+
+    return `${index + 1}. **${pattern.name}** (신뢰도: ${pattern.confidenceRate}%)
+   - ${pattern.description}${trackRecord}`;
+  }).join('\n\n');
+
+  const hasTrackRecord = patterns.some(pattern => (pattern.performance?.totalTrades ?? 0) > 0);
+  return hasTrackRecord
+    ? `${formatted}\n\n신뢰도는 실제 거래 결과로 갱신됩니다. 검증된 성과가 좋은 패턴에 더 큰 비중을 두세요.`
+    : formatted;
 }
 
 // 실시간 시장 컨텍스트 생성
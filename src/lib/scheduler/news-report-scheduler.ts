@@ -0,0 +1,96 @@
+// Server-side news report scheduler
+// Writes the daily report after midnight (NEWS_DAILY_REPORT_CRON) and the weekly report
+// on Monday (NEWS_WEEKLY_REPORT_CRON), each for the period that just ended
+
+import cron, { type ScheduledTask } from 'node-cron';
+import { newsReportService, type GeneratedNewsReport } from '../services/news-report-service';
+import type { NewsReportType } from '@/types/news';
+
+class NewsReportScheduler {
+  private isRunning = false;
+  private jobs: ScheduledTask[] = [];
+  private lastReports: Partial<Record<NewsReportType, GeneratedNewsReport>> = {};
+
+  /**
+   * Start both report jobs, and write the reports for the last complete periods right away
+   */
+  start(): void {
+    if (this.isRunning) {
+      console.log('⚠️ News report scheduler is already running');
+      return;
+    }
+
+    const { dailySchedule, weeklySchedule } = newsReportService.getConfig();
+    for (const [type, schedule] of [['daily', dailySchedule], ['weekly', weeklySchedule]] as const) {
+      if (!cron.validate(schedule)) {
+        console.error(`❌ Invalid ${type} news report schedule "${schedule}", news report scheduler not started`);
+        this.stop();
+        return;
+      }
+      this.jobs.push(cron.schedule(schedule, async () => {
+        await this.generate(type);
+      }));
+    }
+
+    this.isRunning = true;
+    console.log(`🚀 News report scheduler started (daily ${dailySchedule}, weekly ${weeklySchedule})`);
+
+    void this.generate('daily').then(() => this.generate('weekly'));
+  }
+
+  /**
+   * Stop the news report scheduler
+   */
+  stop(): void {
+    this.jobs.forEach((job) => job.stop());
+    this.jobs = [];
+    this.isRunning = false;
+    console.log('⏹️ News report scheduler stopped');
+  }
+
+  /**
+   * Generate a report a user asked for, for the period containing a date (the last complete
+   * one by default); counts against the user's hourly report limit
+   */
+  async triggerUpdate(type: NewsReportType, userId: string, date?: Date): Promise<GeneratedNewsReport> {
+    newsReportService.reserveManualRun(userId);
+    console.log(`🔄 Manually triggering ${type} news report for user ${userId}...`);
+    const report = await newsReportService.generate(type, date);
+    this.lastReports[type] = report;
+    return report;
+  }
+
+  /**
+   * Get scheduler status
+   */
+  getStatus(): {
+    isRunning: boolean;
+    schedules: { daily: string; weekly: string } | null;
+    lastReports: Partial<Record<NewsReportType, { id: string; date: Date; articleCount: number }>>;
+  } {
+    const { dailySchedule, weeklySchedule } = newsReportService.getConfig();
+    const lastReports: Partial<Record<NewsReportType, { id: string; date: Date; articleCount: number }>> = {};
+    for (const [type, report] of Object.entries(this.lastReports) as Array<[NewsReportType, GeneratedNewsReport]>) {
+      lastReports[type] = { id: report.id, date: report.date, articleCount: report.articleCount };
+    }
+
+    return {
+      isRunning: this.isRunning,
+      schedules: this.isRunning ? { daily: dailySchedule, weekly: weeklySchedule } : null,
+      lastReports
+    };
+  }
+
+  private async generate(type: NewsReportType): Promise<void> {
+    try {
+      this.lastReports[type] = await newsReportService.generate(type);
+    } catch (error) {
+      console.error(`❌ Scheduled ${type} news report failed:`, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const newsReportScheduler = new NewsReportScheduler();
+
+export default newsReportScheduler;
@@ -0,0 +1,91 @@
+// Server-side news scheduler
+// Pulls the configured news feeds on the NEWS_INGEST_CRON schedule (every 30 minutes by default)
+
+import cron, { type ScheduledTask } from 'node-cron';
+import { newsIngestionService } from '../services/news-ingestion-service';
+import { NewsContextService } from '../services/news-context';
+import type { NewsIngestionRun } from '@/types/news';
+
+class NewsScheduler {
+  private isRunning = false;
+  private job: ScheduledTask | null = null;
+
+  /**
+   * Start ingesting on the configured schedule, with a first run right away
+   */
+  start(): void {
+    if (this.isRunning) {
+      console.log('⚠️ News scheduler is already running');
+      return;
+    }
+
+    const { schedule } = newsIngestionService.getConfig();
+    if (!cron.validate(schedule)) {
+      console.error(`❌ Invalid NEWS_INGEST_CRON "${schedule}", news scheduler not started`);
+      return;
+    }
+
+    this.job = cron.schedule(schedule, async () => {
+      await this.ingest();
+    });
+
+    this.isRunning = true;
+    console.log(`🚀 News scheduler started (${schedule})`);
+
+    void this.ingest();
+  }
+
+  /**
+   * Stop the news scheduler
+   */
+  stop(): void {
+    if (this.job) {
+      this.job.stop();
+      this.job = null;
+    }
+    this.isRunning = false;
+    console.log('⏹️ News scheduler stopped');
+  }
+
+  /**
+   * Manually trigger an ingestion run; feeds pulled within the manual cooldown are skipped
+   */
+  async triggerUpdate(feedIds?: string[]): Promise<NewsIngestionRun> {
+    const due = newsIngestionService.getFeedsDue(feedIds);
+    console.log(`🔄 Manually triggering news ingestion (${due.join(', ')})...`);
+    const run = await newsIngestionService.ingest(due);
+    this.refreshContext(run);
+    return run;
+  }
+
+  /**
+   * Get scheduler status
+   */
+  getStatus(): { isRunning: boolean; schedule: string | null; lastRun: NewsIngestionRun | null } {
+    return {
+      isRunning: this.isRunning,
+      schedule: this.job ? newsIngestionService.getConfig().schedule : null,
+      lastRun: newsIngestionService.getLastRun()
+    };
+  }
+
+  private async ingest(): Promise<void> {
+    try {
+      this.refreshContext(await newsIngestionService.ingest());
+    } catch (error) {
+      console.error('❌ Scheduled news ingestion failed:', error);
+    }
+  }
+
+  // Agents read a cached news context; new articles should reach them on the next decision
+  private refreshContext(run: NewsIngestionRun): void {
+    if (run.created > 0) {
+      NewsContextService.getInstance().invalidateCache();
+    }
+  }
+}
+
+// Export singleton instance
+export const newsScheduler = new NewsScheduler();
+
+export default newsScheduler;
@@ -64,9 +64,6 @@ class PriceScheduler {
       // Update portfolio value based on new price
       await bitcoinPriceService.updatePortfolioValue();
       
-      // Initialize demo portfolio if needed
-      await bitcoinPriceService.initializeDemoPortfolio();
-      
       // Update technical indicators and generate analysis
       await technicalIndicatorsService.updateTechnicalIndicators('1d');
       await technicalIndicatorsService.generateAnalysisReport('1d');
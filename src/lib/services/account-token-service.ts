@@ -0,0 +1,129 @@
+// Account token service: signed, single-use, expiring tokens for the links in account emails.
+// A token is a JWT whose audience is its purpose and whose id names an AccountToken row;
+// redeeming it marks the row used, and issuing a new one retires the older ones.
+
+import jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
+import { prisma } from '../database/prisma-client';
+import { getJwtSecret } from '@/lib/auth/tokens';
+
+export type AccountTokenPurpose = 'verify_email' | 'reset_password';
+
+export interface IssuedAccountToken {
+  token: string;
+  expiresAt: Date;
+}
+
+export interface RedeemedAccountToken {
+  userId: string;
+  email: string; // Address the link was sent to
+}
+
+/**
+ * Rejected tokens; routes answer with `status` and `code`
+ */
+export class AccountTokenError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly status: number = 400
+  ) {
+    super(message);
+    this.name = 'AccountTokenError';
+  }
+}
+
+export class AccountTokenService {
+  getConfig() {
+    return {
+      ttlSeconds: {
+        verify_email: parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '24') * 60 * 60,
+        reset_password: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60') * 60
+      } satisfies Record<AccountTokenPurpose, number>,
+      // Minimum gap between two emails of the same kind to one user
+      resendCooldownMs: parseInt(process.env.ACCOUNT_EMAIL_COOLDOWN_SECONDS || '60') * 1000
+    };
+  }
+
+  /**
+   * Issue a token for a user; any earlier unused token for the same purpose stops working
+   */
+  async issue(userId: string, email: string, purpose: AccountTokenPurpose): Promise<IssuedAccountToken> {
+    const ttlSeconds = this.getConfig().ttlSeconds[purpose];
+    const id = randomUUID();
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttlSeconds * 1000);
+
+    await prisma.$transaction([
+      prisma.accountToken.updateMany({
+        where: { userId, purpose, usedAt: null },
+        data: { usedAt: now }
+      }),
+      prisma.accountToken.create({
+        data: { id, userId, purpose, email, expiresAt, createdAt: now }
+      })
+    ]);
+
+    const token = jwt.sign({}, getJwtSecret(), {
+      jwtid: id,
+      subject: userId,
+      audience: purpose,
+      expiresIn: ttlSeconds
+    });
+    return { token, expiresAt };
+  }
+
+  /**
+   * Redeem a token; it cannot be used again afterwards
+   */
+  async redeem(token: string, purpose: AccountTokenPurpose): Promise<RedeemedAccountToken> {
+    let payload: jwt.JwtPayload;
+    try {
+      const verified = jwt.verify(token, getJwtSecret(), { algorithms: ['HS256'], audience: purpose });
+      if (typeof verified !== 'object' || !verified.jti || !verified.sub) {
+        throw new AccountTokenError('Invalid token', 'INVALID_TOKEN');
+      }
+      payload = verified;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new AccountTokenError('This link has expired', 'TOKEN_EXPIRED');
+      }
+      if (error instanceof AccountTokenError) throw error;
+      throw new AccountTokenError('Invalid token', 'INVALID_TOKEN');
+    }
+
+    const record = await prisma.accountToken.findUnique({ where: { id: payload.jti } });
+    if (!record || record.userId !== payload.sub || record.purpose !== purpose) {
+      throw new AccountTokenError('Invalid token', 'INVALID_TOKEN');
+    }
+    if (record.expiresAt <= new Date()) {
+      throw new AccountTokenError('This link has expired', 'TOKEN_EXPIRED');
+    }
+
+    // Only one request gets to redeem it
+    const { count } = await prisma.accountToken.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt: new Date() }
+    });
+    if (count === 0) {
+      throw new AccountTokenError('This link has already been used or was replaced by a newer one', 'TOKEN_USED');
+    }
+
+    return { userId: record.userId, email: record.email };
+  }
+
+  /**
+   * Whether a token for this purpose went out within the resend cooldown
+   */
+  async issuedRecently(userId: string, purpose: AccountTokenPurpose): Promise<boolean> {
+    const since = new Date(Date.now() - this.getConfig().resendCooldownMs);
+    const recent = await prisma.accountToken.findFirst({
+      where: { userId, purpose, createdAt: { gt: since } },
+      select: { id: true }
+    });
+    return recent !== null;
+  }
+}
+
+// Export singleton instance
+export const accountTokenService = new AccountTokenService();
@@ -0,0 +1,229 @@
+// Agent chat service: stores user messages and produces agent replies as a stream
+// of events (tokens, recognised commands, final persisted message).
+
+import { prisma } from '../database/prisma-client';
+import { llmService, LLMError } from './llm-service';
+import { parseCommand, generateCommandResponse, validateCommand, planCommand } from '@/lib/chat/commandParser';
+import { buildChatMessages } from '@/lib/chat/chatPrompt';
+import type { Agent, AgentPersonality, AgentWatchlistItem, WatchlistCategory } from '@/types/game';
+import type { ChatCommandExecution, ChatReplyEvent, ChatMessageType, SerializedChatMessage } from '@/types/chat';
+import type { ChatMessage, Prisma } from '@prisma/client';
+
+const HISTORY_LIMIT = 20;
+
+type AgentRecord = Prisma.AgentGetPayload<{ include: { patterns: true; watchlistItems: true } }>;
+
+export class ChatError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly status: number = 400
+  ) {
+    super(message);
+    this.name = 'ChatError';
+  }
+}
+
+export interface ChatTurn {
+  agent: AgentRecord;
+  userMessage: SerializedChatMessage;
+  history: ChatMessage[]; // Messages before the user's, oldest first
+}
+
+export function serializeChatMessage(message: ChatMessage): SerializedChatMessage {
+  return {
+    ...message,
+    type: message.type as ChatMessageType,
+    createdAt: message.createdAt.toISOString(),
+    updatedAt: message.updatedAt.toISOString()
+  };
+}
+
+/**
+ * Database agent in the shape the command parser expects
+ */
+function toGameAgent(agent: AgentRecord): Agent {
+  let strategy: string[];
+  try {
+    const parsed = JSON.parse(agent.strategy);
+    strategy = Array.isArray(parsed) ? parsed : [agent.strategy];
+  } catch {
+    strategy = [agent.strategy];
+  }
+
+  return {
+    ...agent,
+    personality: agent.personality as AgentPersonality,
+    strategy,
+    patterns: agent.patterns.map((pattern) => ({ ...pattern, examples: JSON.parse(pattern.examples) })),
+    watchlistItems: agent.watchlistItems.map((item) => ({
+      ...item,
+      category: item.category as WatchlistCategory,
+      alertPrice: item.alertPrice ?? undefined,
+      alertType: (item.alertType ?? undefined) as AgentWatchlistItem['alertType'],
+      alertPercent: item.alertPercent ?? undefined,
+      lastAlertAt: item.lastAlertAt ?? undefined
+    }))
+  };
+}
+
+export class AgentChatService {
+
+  /**
+   * Store the user's message and load what the reply needs; history is the user's own
+   * conversation with the agent
+   */
+  async createUserMessage(agentId: string, userId: string, content: string, metadata: string = '{}'): Promise<ChatTurn> {
+    const agent = await prisma.agent.findUnique({
+      where: { id: agentId },
+      include: { patterns: true, watchlistItems: true }
+    });
+
+    if (!agent) {
+      throw new ChatError('Agent not found', 'AGENT_NOT_FOUND', 404);
+    }
+
+    const history = await prisma.chatMessage.findMany({
+      where: { agentId, userId },
+      orderBy: { createdAt: 'asc' },
+      take: -HISTORY_LIMIT
+    });
+
+    const userMessage = await prisma.chatMessage.create({
+      data: { agentId, content, type: 'user', metadata, userId }
+    });
+
+    return { agent, userMessage: serializeChatMessage(userMessage), history };
+  }
+
+  /**
+   * Generate and persist the agent's reply. Commands are reported before any text;
+   * specific enough ones are proposed as a change the user confirms through
+   * chatCommandService. Free-form replies stream from the LLM when one is
+   * configured, otherwise the command response is streamed word by word.
+   */
+  async *generateReply(turn: ChatTurn, signal?: AbortSignal): AsyncGenerator<ChatReplyEvent> {
+    const { agent, userMessage, history } = turn;
+    const gameAgent = toGameAgent(agent);
+    const parsedCommand = parseCommand(userMessage.content, gameAgent);
+    const validationResult = validateCommand(parsedCommand, gameAgent);
+
+    let response: { content: string; metadata: Record<string, unknown>; requiresConfirmation?: boolean };
+    if (!validationResult.valid) {
+      response = {
+        content: `${agent.name}: ${validationResult.reason} ${validationResult.suggestions?.join(' ') || ''}`,
+        metadata: {
+          type: 'validation_error',
+          reason: validationResult.reason,
+          suggestions: validationResult.suggestions
+        }
+      };
+    } else {
+      response = generateCommandResponse(parsedCommand, gameAgent);
+
+      const proposal = planCommand(parsedCommand, gameAgent);
+      if (proposal) {
+        const execution: ChatCommandExecution = { status: 'pending', ...proposal };
+        response = {
+          content: `${agent.name}: ${proposal.summary} 확인하시면 바로 적용하고, 적용한 뒤에도 되돌릴 수 있어요.`,
+          metadata: { ...response.metadata, execution },
+          requiresConfirmation: true
+        };
+      }
+    }
+
+    if (validationResult.valid && parsedCommand.type !== 'general' && parsedCommand.type !== 'info') {
+      yield {
+        type: 'command',
+        command: {
+          type: String(response.metadata.type),
+          command: parsedCommand.type,
+          action: parsedCommand.action,
+          requiresConfirmation: !!response.requiresConfirmation,
+          metadata: response.metadata
+        }
+      };
+    }
+
+    const useLLM = validationResult.valid && !response.requiresConfirmation && llmService.isConfigured();
+    let content = '';
+    let metadata = response.metadata;
+
+    try {
+      if (useLLM) {
+        for await (const chunk of llmService.stream('chat', {
+          messages: buildChatMessages(agent, history, userMessage.content),
+          maxTokens: 600,
+          temperature: 0.7,
+          signal
+        })) {
+          if (chunk.type === 'token') {
+            content += chunk.text;
+            yield { type: 'token', text: chunk.text };
+          } else {
+            metadata = {
+              ...response.metadata,
+              type: 'llm_reply',
+              llm: {
+                provider: chunk.response.provider,
+                model: chunk.response.model,
+                usage: chunk.response.usage,
+                latencyMs: chunk.response.latencyMs
+              }
+            };
+          }
+        }
+      } else {
+        for (const word of response.content.split(/(?<=\s)/)) {
+          if (signal?.aborted) {
+            throw new LLMError('Chat reply was cancelled', 'CANCELLED');
+          }
+          content += word;
+          yield { type: 'token', text: word };
+        }
+      }
+    } catch (error) {
+      if (signal?.aborted || (error instanceof LLMError && error.code === 'CANCELLED')) {
+        const partial = content.trim()
+          ? await this.saveAgentMessage(agent.id, userMessage.userId, content, { ...metadata, cancelled: true })
+          : null;
+        yield { type: 'cancelled', message: partial };
+        return;
+      }
+
+      if (!(error instanceof LLMError) || content) {
+        throw error;
+      }
+
+      // LLM unavailable before any text arrived: fall back to the command response
+      console.error('LLM chat reply failed, using command response:', error);
+      content = response.content;
+      metadata = { ...response.metadata, llmError: error.code };
+      yield { type: 'token', text: content };
+    }
+
+    const message = await this.saveAgentMessage(agent.id, userMessage.userId, content, metadata);
+    yield { type: 'done', message };
+  }
+
+  private async saveAgentMessage(
+    agentId: string,
+    userId: string,
+    content: string,
+    metadata: Record<string, unknown>
+  ): Promise<SerializedChatMessage> {
+    const message = await prisma.chatMessage.create({
+      data: {
+        agentId,
+        content,
+        type: 'agent',
+        metadata: JSON.stringify(metadata),
+        userId
+      }
+    });
+    return serializeChatMessage(message);
+  }
+}
+
+// Export singleton instance
+export const agentChatService = new AgentChatService();
@@ -0,0 +1,121 @@
+// Agent metrics service: performance metrics and monthly heatmap computed from
+// the trades an agent recorded for a user and daily BTC closes.
+
+import { prisma } from '../database/prisma-client';
+import { candleService } from './candle-service';
+import { paperTradingService } from './paper-trading-service';
+import { agentTradeService, replayPosition, toTradingHistoryItem } from './agent-trade-service';
+import { AgentNotFoundError } from './backtest-service';
+import { calculatePerformanceMetrics, type EquitySample } from '@/lib/utils/performance-metrics';
+import type { HeatmapData, PerformanceMetrics } from '@/types/trading';
+import type { AgentTrade } from '@prisma/client';
+
+export const AGENT_STARTING_CAPITAL = 10000; // Notional USD each agent's returns are measured against
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AgentPerformance {
+  agentId: string;
+  metrics: PerformanceMetrics;
+  heatmap: HeatmapData[];
+  openPosition: {
+    quantity: number;
+    costBasis: number;
+    marketValue: number;
+  } | null;
+}
+
+/**
+ * Monthly returns joined with the number of trades executed in each month
+ */
+export function buildHeatmap(monthlyReturns: Record<string, number>, trades: Pick<AgentTrade, 'timestamp'>[]): HeatmapData[] {
+  const tradeCounts: Record<string, number> = {};
+  for (const trade of trades) {
+    const key = `${trade.timestamp.getUTCFullYear()}-${String(trade.timestamp.getUTCMonth() + 1).padStart(2, '0')}`;
+    tradeCounts[key] = (tradeCounts[key] || 0) + 1;
+  }
+
+  return Object.entries(monthlyReturns).map(([yearMonth, returnValue]) => {
+    const [year, month] = yearMonth.split('-');
+    return {
+      month,
+      year: parseInt(year),
+      return: returnValue,
+      trades: tradeCounts[yearMonth] || 0
+    };
+  });
+}
+
+export class AgentMetricsService {
+
+  async getPerformance(agentId: string, userId: string): Promise<AgentPerformance> {
+    const agent = await prisma.agent.findUnique({ where: { id: agentId }, select: { id: true } });
+    if (!agent) {
+      throw new AgentNotFoundError(agentId);
+    }
+
+    const trades = await agentTradeService.getTrades(agentId, userId);
+    const { equity, lastPrice } = await this.buildDailyEquity(trades);
+
+    const metrics = calculatePerformanceMetrics(trades.map(toTradingHistoryItem), equity, {
+      initialValue: AGENT_STARTING_CAPITAL,
+      periodsPerYear: 365
+    });
+
+    const position = replayPosition(trades);
+
+    return {
+      agentId,
+      metrics,
+      heatmap: buildHeatmap(metrics.monthlyReturns, trades),
+      openPosition: position.quantity > 0
+        ? {
+            quantity: position.quantity,
+            costBasis: position.costBasis,
+            marketValue: position.quantity * lastPrice
+          }
+        : null
+    };
+  }
+
+  /**
+   * Mark the agent's book to market at each UTC day close from its first trade until now.
+   * Days without a stored 1d candle carry forward the last known price.
+   */
+  private async buildDailyEquity(trades: AgentTrade[]): Promise<{ equity: EquitySample[]; lastPrice: number }> {
+    if (trades.length === 0) return { equity: [], lastPrice: 0 };
+
+    const now = new Date();
+    const firstDay = new Date(Math.floor(trades[0].timestamp.getTime() / DAY_MS) * DAY_MS);
+    const candles = await candleService.getCandles({ interval: '1d', from: firstDay, to: now, limit: 1000 });
+    const closes = new Map(candles.map((c) => [c.openTime.getTime(), c.close]));
+    const marketPrice = await paperTradingService.getMarketPrice();
+
+    const samples: EquitySample[] = [];
+    let lastPrice = trades[0].price;
+    let tradeIndex = 0;
+
+    for (let dayStart = firstDay.getTime(); dayStart <= now.getTime(); dayStart += DAY_MS) {
+      const dayEnd = Math.min(dayStart + DAY_MS, now.getTime());
+
+      while (tradeIndex < trades.length && trades[tradeIndex].timestamp.getTime() < dayEnd) {
+        lastPrice = trades[tradeIndex].price;
+        tradeIndex++;
+      }
+
+      const isToday = dayStart + DAY_MS > now.getTime();
+      lastPrice = (isToday && marketPrice) || closes.get(dayStart) || lastPrice;
+
+      const position = replayPosition(trades.slice(0, tradeIndex));
+      samples.push({
+        date: new Date(dayEnd),
+        value: AGENT_STARTING_CAPITAL + position.realizedPnl + position.quantity * lastPrice - position.costBasis
+      });
+    }
+
+    return { equity: samples, lastPrice };
+  }
+}
+
+// Export singleton instance
+export const agentMetricsService = new AgentMetricsService();
@@ -0,0 +1,289 @@
+// Agent trade service: executes an agent's decision on a user's paper portfolio
+// and keeps a ledger per agent and user with realized results.
+
+import { prisma } from '../database/prisma-client';
+import { bitcoinPriceService } from './bitcoin-price-service';
+import { dynamicAgentService, type MarketAnalysis } from './dynamic-agent-service';
+import { NewsContextService } from './news-context';
+import {
+  paperTradingService,
+  PriceUnavailableError,
+  TradingError,
+  DUST_THRESHOLD,
+  TRADING_FEE_RATE
+} from './paper-trading-service';
+import { AgentNotFoundError } from './backtest-service';
+import { patternPerformanceService } from './pattern-performance-service';
+import type { TradingHistoryItem } from '@/types/trading';
+import type { AgentTrade, Portfolio, Prisma, Trade } from '@prisma/client';
+
+const BUY_CASH_FRACTION = 0.1; // Share of available cash an agent spends per buy decision
+
+export class PatternNotFoundError extends TradingError {
+  constructor(patternId: string) {
+    super(`Pattern not found: ${patternId}`, 'PATTERN_NOT_FOUND', 404);
+    this.name = 'PatternNotFoundError';
+  }
+}
+
+export interface AgentPosition {
+  quantity: number;
+  costBasis: number; // USD spent on the open position, fees included
+  openedAt: Date | null;
+  patternId: string | null; // Pattern of the buy that opened the position
+  realizedPnl: number;
+}
+
+export interface AgentTradeInput {
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  fee: number;
+  reasoning: string;
+  strategyUsed: string;
+  confidence?: number;
+  tradeId?: number;
+  patternId?: string;
+  symbol?: string;
+}
+
+export interface ExecuteDecisionOptions {
+  userId: string; // Owner of the paper portfolio the decision trades on
+  patternId?: string; // Attribute the decision to one of the agent's patterns
+}
+
+export interface AgentDecisionResult {
+  decision: Pick<MarketAnalysis, 'recommendation' | 'confidence' | 'analysis' | 'strategy_focus' | 'newsScore'>;
+  agentTrade: AgentTrade | null;
+  trade: Trade | null;
+  portfolio: Portfolio | null;
+  message: string;
+}
+
+/**
+ * Replay an agent's trades (oldest first) into its open position and realized P&L
+ */
+export function replayPosition(
+  trades: Pick<AgentTrade, 'action' | 'quantity' | 'total' | 'fee' | 'timestamp' | 'profitLoss' | 'patternId'>[]
+): AgentPosition {
+  const position: AgentPosition = { quantity: 0, costBasis: 0, openedAt: null, patternId: null, realizedPnl: 0 };
+
+  for (const trade of trades) {
+    if (trade.action === 'BUY') {
+      position.quantity += trade.quantity;
+      position.costBasis += trade.total + trade.fee;
+      if (!position.openedAt) {
+        position.openedAt = trade.timestamp;
+        position.patternId = trade.patternId;
+      }
+      continue;
+    }
+
+    const sold = Math.min(trade.quantity, position.quantity);
+    if (position.quantity > 0) {
+      position.costBasis -= (position.costBasis / position.quantity) * sold;
+    }
+    position.quantity -= sold;
+    position.realizedPnl += trade.profitLoss ?? 0;
+
+    if (position.quantity <= DUST_THRESHOLD) {
+      position.quantity = 0;
+      position.costBasis = 0;
+      position.openedAt = null;
+      position.patternId = null;
+    }
+  }
+
+  return position;
+}
+
+export class AgentTradeService {
+
+  /**
+   * Run the agent's personality on current market data and execute the
+   * resulting buy or sell on the user's paper portfolio
+   */
+  async executeDecision(agentId: string, options: ExecuteDecisionOptions): Promise<AgentDecisionResult> {
+    const { userId, patternId } = options;
+
+    const agent = await prisma.agent.findUnique({ where: { id: agentId } });
+    if (!agent) {
+      throw new AgentNotFoundError(agentId);
+    }
+
+    if (patternId && !(await prisma.pattern.findFirst({ where: { id: patternId, agentId } }))) {
+      throw new PatternNotFoundError(patternId);
+    }
+
+    const price = await paperTradingService.getMarketPrice();
+    if (!price) {
+      throw new PriceUnavailableError();
+    }
+
+    const history = await bitcoinPriceService.getPriceHistory(24);
+    const prices = history.length > 1 ? history.map((h) => h.price) : [price];
+    const portfolio = await paperTradingService.getPortfolio(userId);
+
+    const news = await NewsContextService.getInstance().getNewsFeatures();
+
+    const analysis = dynamicAgentService.analyzeMarket(agent, { prices, portfolio, news });
+    const decision = {
+      recommendation: analysis.recommendation,
+      confidence: analysis.confidence,
+      analysis: analysis.analysis,
+      strategy_focus: analysis.strategy_focus,
+      newsScore: analysis.newsScore
+    };
+
+    if (analysis.recommendation === 'hold') {
+      return { decision, agentTrade: null, trade: null, portfolio, message: `${agent.name} decided to hold` };
+    }
+
+    // Buys spend a slice of cash; sells close what this agent bought for this user
+    const position = await this.getPosition(agentId, userId);
+    const amount = analysis.recommendation === 'buy'
+      ? (portfolio.balance * BUY_CASH_FRACTION) / (price * (1 + TRADING_FEE_RATE))
+      : Math.min(position.quantity, portfolio.bitcoinHoldings);
+
+    if (amount < DUST_THRESHOLD) {
+      const reason = analysis.recommendation === 'buy' ? 'not enough cash' : 'no open position';
+      return { decision, agentTrade: null, trade: null, portfolio, message: `${agent.name} wanted to ${analysis.recommendation} but has ${reason}` };
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const { trade, portfolio } = await paperTradingService.applyTrade(
+        tx,
+        { userId, type: analysis.recommendation as 'buy' | 'sell', amount },
+        price
+      );
+
+      const agentTrade = await this.recordTrade(tx, agentId, userId, {
+        action: analysis.recommendation === 'buy' ? 'BUY' : 'SELL',
+        quantity: trade.amount,
+        price: trade.price,
+        fee: trade.fee,
+        confidence: analysis.confidence,
+        reasoning: analysis.analysis,
+        strategyUsed: analysis.strategy_focus || agent.personality,
+        tradeId: trade.id,
+        patternId
+      });
+
+      return { trade, portfolio, agentTrade };
+    });
+
+    console.log(`🤖 ${agent.name} ${analysis.recommendation} ${result.trade.amount.toFixed(6)} BTC @ $${price.toLocaleString()}`);
+
+    return {
+      decision,
+      ...result,
+      message: `${agent.name} executed ${analysis.recommendation} of ${result.trade.amount.toFixed(6)} BTC`
+    };
+  }
+
+  /**
+   * Record an agent trade executed for a user; sells are valued against the average cost
+   * of what the agent bought for that user and count toward the pattern that opened the position
+   */
+  async recordTrade(
+    client: Prisma.TransactionClient,
+    agentId: string,
+    userId: string,
+    input: AgentTradeInput
+  ): Promise<AgentTrade> {
+    const total = input.quantity * input.price;
+    const data: Prisma.AgentTradeUncheckedCreateInput = {
+      agentId,
+      userId,
+      symbol: input.symbol || 'BTC',
+      action: input.action,
+      quantity: input.quantity,
+      price: input.price,
+      total,
+      fee: input.fee,
+      confidence: input.confidence,
+      reasoning: input.reasoning,
+      strategyUsed: input.strategyUsed,
+      tradeId: input.tradeId,
+      patternId: input.patternId
+    };
+
+    if (input.action === 'SELL') {
+      const position = await this.getPosition(agentId, userId, client);
+      data.patternId = input.patternId ?? position.patternId;
+
+      if (position.quantity > 0 && position.openedAt) {
+        const costBasis = (position.costBasis / position.quantity) * Math.min(input.quantity, position.quantity);
+        const profitLoss = total - input.fee - costBasis;
+        data.profitLoss = profitLoss;
+        data.percentReturn = (profitLoss / costBasis) * 100;
+        data.holdingPeriod = (Date.now() - position.openedAt.getTime()) / (60 * 60 * 1000);
+      }
+    }
+
+    const agentTrade = await client.agentTrade.create({ data });
+
+    if (agentTrade.patternId && agentTrade.profitLoss !== null) {
+      await patternPerformanceService.recalculate(agentTrade.patternId, client);
+    }
+
+    return agentTrade;
+  }
+
+  async getPosition(agentId: string, userId: string, client: Prisma.TransactionClient = prisma): Promise<AgentPosition> {
+    const trades = await client.agentTrade.findMany({
+      where: { agentId, userId },
+      orderBy: { timestamp: 'asc' }
+    });
+
+    return replayPosition(trades);
+  }
+
+  async getTrades(agentId: string, userId: string): Promise<AgentTrade[]> {
+    return prisma.agentTrade.findMany({
+      where: { agentId, userId },
+      orderBy: { timestamp: 'asc' }
+    });
+  }
+
+  /**
+   * A user's trade history with the agent in the TradingHistoryItem shape, newest first
+   */
+  async getTradeHistory(agentId: string, userId: string, limit: number = 500): Promise<TradingHistoryItem[]> {
+    const trades = await prisma.agentTrade.findMany({
+      where: { agentId, userId },
+      orderBy: { timestamp: 'desc' },
+      take: limit
+    });
+
+    return trades.map(toTradingHistoryItem);
+  }
+}
+
+export function toTradingHistoryItem(trade: AgentTrade): TradingHistoryItem {
+  return {
+    id: trade.id,
+    agentId: trade.agentId,
+    symbol: trade.symbol,
+    action: trade.action as 'BUY' | 'SELL',
+    quantity: trade.quantity,
+    price: trade.price,
+    timestamp: trade.timestamp,
+    reasoning: trade.reasoning,
+    strategyUsed: trade.strategyUsed,
+    fee: trade.fee,
+    total: trade.total,
+    result: trade.profitLoss !== null
+      ? {
+          profitLoss: trade.profitLoss,
+          percentReturn: trade.percentReturn ?? 0,
+          holdingPeriod: trade.holdingPeriod ?? 0,
+          exitPrice: trade.price,
+          exitTimestamp: trade.timestamp
+        }
+      : undefined
+  };
+}
+
+// Export singleton instance
+export const agentTradeService = new AgentTradeService();
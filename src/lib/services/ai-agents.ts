@@ -2,6 +2,7 @@
 
 import { bitcoinPriceService } from './bitcoin-price-service';
 import { NewsContextService } from './news-context';
+import { averageMomentum, trailingMean } from '@/lib/indicators/indicator-engine';
 
 export interface AnalysisReport {
   id: string;
@@ -25,6 +26,11 @@ export interface AnalysisReport {
     support: number;
     resistance: number;
   };
+  llm?: { // Set when the narrative sections were written by an LLM provider
+    provider: string;
+    model: string;
+    totalTokens: number;
+  };
 }
 
 export abstract class BaseAIAgent {
@@ -36,15 +42,15 @@ export abstract class BaseAIAgent {
   protected async getMarketData() {
     const currentPrice = await bitcoinPriceService.getLatestPrice();
     const priceHistory = await bitcoinPriceService.getPriceHistory(24);
-    const portfolio = await bitcoinPriceService.getDemoPortfolio();
+    const portfolio = bitcoinPriceService.getReferencePortfolio();
 
     return { currentPrice, priceHistory, portfolio };
   }
 
   protected calculateTechnicalIndicators(prices: number[]) {
-    const sma5 = this.calculateSMA(prices.slice(-5));
-    const sma10 = this.calculateSMA(prices.slice(-10));
-    const momentum = this.calculateMomentum(prices);
+    const sma5 = trailingMean(prices, 5);
+    const sma10 = trailingMean(prices, 10);
+    const momentum = averageMomentum(prices);
     const support = Math.min(...prices.slice(-10));
     const resistance = Math.max(...prices.slice(-10));
 
@@ -73,27 +79,16 @@ export abstract class BaseAIAgent {
       // 뉴스 감정과 시장 분석 연결
       const sentimentText = newsContext.currentSentiment > 0.2 ? '긍정적인' :
                            newsContext.currentSentiment < -0.2 ? '부정적인' : '중립적인';
+      const { sentimentMomentum, regulatoryRisk } = newsContext.features;
+      const momentumText = sentimentMomentum > 0.1 ? '개선되는' : sentimentMomentum < -0.1 ? '악화되는' : '큰 변화 없는';
       
-      return `${baseAnalysis} 최근 암호화폐 시장 뉴스 분석 결과 ${sentimentText} 분위기가 감지되고 있으며, 이는 현재 분석과 ${newsContext.marketTrend === 'bullish' ? '상승' : newsContext.marketTrend === 'bearish' ? '하락' : '중립'} 방향으로 일치하고 있습니다.`;
+      return `${baseAnalysis} 최근 암호화폐 시장 뉴스 분석 결과 ${sentimentText} 분위기가 감지되고 있으며, 이는 현재 분석과 ${newsContext.marketTrend === 'bullish' ? '상승' : newsContext.marketTrend === 'bearish' ? '하락' : '중립'} 방향으로 일치하고 있습니다. 뉴스 심리는 직전 24시간 대비 ${momentumText} 흐름입니다.${regulatoryRisk ? ' 다만 부정적인 규제 뉴스가 이어지고 있어 규제 리스크에 유의해야 합니다.' : ''}`;
     } catch (error) {
       console.error('Error enhancing analysis with news:', error);
       return baseAnalysis;
     }
   }
 
-  private calculateSMA(prices: number[]): number {
-    return prices.reduce((sum, price) => sum + price, 0) / prices.length;
-  }
-
-  private calculateMomentum(prices: number[]): number {
-    if (prices.length < 6) return 0;
-    const recent = prices.slice(-3);
-    const previous = prices.slice(-6, -3);
-    const recentAvg = this.calculateSMA(recent);
-    const previousAvg = this.calculateSMA(previous);
-    return ((recentAvg - previousAvg) / previousAvg) * 100;
-  }
-
   abstract generateReport(): Promise<AnalysisReport>;
 }
 
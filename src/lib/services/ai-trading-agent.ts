@@ -1,6 +1,7 @@
 // AI Trading Agent Service
 
 import { bitcoinPriceService } from './bitcoin-price-service';
+import { averageMomentum, trailingMean } from '@/lib/indicators/indicator-engine';
 
 export interface TradingDecision {
   action: 'buy' | 'sell' | 'hold';
@@ -21,14 +22,14 @@ export class AITradingAgent {
   private minConfidence = 60; // 최소 신뢰도
 
   /**
-   * 현재 시장 상황을 분석하고 거래 결정을 내림
+   * 현재 시장 상황과 사용자 포트폴리오를 분석하고 거래 결정을 내림
    */
-  async analyzeAndDecide(): Promise<TradingDecision> {
+  async analyzeAndDecide(userId: string): Promise<TradingDecision> {
     try {
       // 현재 가격과 히스토리 데이터 가져오기
       const currentPrice = await bitcoinPriceService.getLatestPrice();
       const priceHistory = await bitcoinPriceService.getPriceHistory(24); // 24시간
-      const portfolio = await bitcoinPriceService.getDemoPortfolio();
+      const portfolio = await bitcoinPriceService.getPortfolio(userId);
 
       if (!currentPrice || !portfolio || priceHistory.length < 5) {
         return {
@@ -87,11 +88,11 @@ export class AITradingAgent {
     const priceChange24h = ((currentPriceValue - oldestPrice) / oldestPrice) * 100;
 
     // 단순 이동평균 (SMA)
-    const sma5 = this.calculateSMA(prices.slice(-5));
-    const sma10 = this.calculateSMA(prices.slice(-10));
+    const sma5 = trailingMean(prices, 5);
+    const sma10 = trailingMean(prices, 10);
 
     // 모멘텀 계산
-    const momentum = this.calculateMomentum(prices);
+    const momentum = averageMomentum(prices);
 
     // 지지선/저항선 계산
     const support = Math.min(...prices.slice(-10));
@@ -214,31 +215,9 @@ export class AITradingAgent {
   }
 
   /**
-   * 단순 이동평균 계산
+   * 사용자 포트폴리오에서 거래 실행
    */
-  private calculateSMA(prices: number[]): number {
-    return prices.reduce((sum, price) => sum + price, 0) / prices.length;
-  }
-
-  /**
-   * 모멘텀 계산
-   */
-  private calculateMomentum(prices: number[]): number {
-    if (prices.length < 5) return 0;
-    
-    const recent = prices.slice(-3);
-    const previous = prices.slice(-6, -3);
-    
-    const recentAvg = this.calculateSMA(recent);
-    const previousAvg = this.calculateSMA(previous);
-    
-    return ((recentAvg - previousAvg) / previousAvg) * 100;
-  }
-
-  /**
-   * 거래 실행
-   */
-  async executeTradingDecision(decision: TradingDecision): Promise<{ success: boolean; message: string }> {
+  async executeTradingDecision(userId: string, decision: TradingDecision): Promise<{ success: boolean; message: string }> {
     if (decision.action === 'hold' || decision.amount <= 0) {
       return {
         success: true,
@@ -247,7 +226,7 @@ export class AITradingAgent {
     }
 
     try {
-      const result = await bitcoinPriceService.executeTrade(decision.action, decision.amount);
+      const result = await bitcoinPriceService.executeTrade(userId, decision.action, decision.amount);
       
       if (result.success) {
         return {
@@ -0,0 +1,237 @@
+// API key service: keys users create for scripts and bots. Only a hash of each key is stored;
+// a key carries scopes that decide which routes it may call, and a per-minute rate limit that
+// is counted on its row, together with when and from where it was last used.
+
+import { randomBytes } from 'crypto';
+import type { ApiKey, Prisma } from '@prisma/client';
+import { prisma } from '../database/prisma-client';
+import { hashToken } from '@/lib/auth/tokens';
+import { API_KEY_SCOPES } from '@/lib/auth/api-key-scopes';
+import type { ApiKeyScope, ApiKeySummary, CreateApiKeyRequest, CurrentUser } from '@/types/auth';
+
+export const API_KEY_PREFIX = 'btg_';
+
+const RATE_WINDOW_MS = 60 * 1000;
+const MAX_RATE_LIMIT_PER_MINUTE = 600;
+
+type ApiKeyWithUser = Prisma.ApiKeyGetPayload<{
+  include: { user: { select: { email: true; username: true } } };
+}>;
+
+export interface ApiKeyUsage {
+  user: CurrentUser;
+  limit: number;
+  remaining: number;
+  resetAt: Date; // End of the current rate limit window
+}
+
+/**
+ * Rejected keys and requests; the middleware answers with `status` and `code`
+ */
+export class ApiKeyError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly status: number = 401,
+    public readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = 'ApiKeyError';
+  }
+}
+
+function parseScopes(raw: string): ApiKeyScope[] {
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? parsed.filter((scope): scope is ApiKeyScope => (API_KEY_SCOPES as readonly string[]).includes(scope))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function toSummary(record: ApiKey): ApiKeySummary {
+  return {
+    id: record.id,
+    name: record.name,
+    prefix: record.prefix,
+    scopes: parseScopes(record.scopes),
+    rateLimitPerMinute: record.rateLimitPerMinute,
+    lastUsedAt: record.lastUsedAt,
+    lastUsedIp: record.lastUsedIp,
+    expiresAt: record.expiresAt,
+    createdAt: record.createdAt
+  };
+}
+
+export class ApiKeyService {
+  getConfig() {
+    return {
+      defaultRateLimitPerMinute: parseInt(process.env.API_KEY_RATE_LIMIT_PER_MINUTE || '60'),
+      maxKeysPerUser: parseInt(process.env.API_KEY_MAX_PER_USER || '10')
+    };
+  }
+
+  /**
+   * Create a key; the returned `key` is the only time it is shown
+   */
+  async createKey(userId: string, request: CreateApiKeyRequest): Promise<{ key: string; apiKey: ApiKeySummary }> {
+    const { defaultRateLimitPerMinute, maxKeysPerUser } = this.getConfig();
+
+    const activeKeys = await prisma.apiKey.count({ where: { userId, revokedAt: null } });
+    if (activeKeys >= maxKeysPerUser) {
+      throw new ApiKeyError(`You can have at most ${maxKeysPerUser} API keys`, 'TOO_MANY_API_KEYS', 400);
+    }
+
+    const scopes = [...new Set(request.scopes)];
+    const rateLimitPerMinute = Math.min(
+      Math.max(1, Math.floor(request.rateLimitPerMinute ?? defaultRateLimitPerMinute)),
+      MAX_RATE_LIMIT_PER_MINUTE
+    );
+    const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+
+    const record = await prisma.apiKey.create({
+      data: {
+        userId,
+        name: request.name.trim(),
+        prefix: key.slice(0, API_KEY_PREFIX.length + 8),
+        keyHash: hashToken(key),
+        scopes: JSON.stringify(scopes),
+        rateLimitPerMinute,
+        expiresAt: request.expiresInDays
+          ? new Date(Date.now() + request.expiresInDays * 24 * 60 * 60 * 1000)
+          : null
+      }
+    });
+
+    console.log(`🔑 API key ${record.prefix}… created for user ${userId} (${scopes.join(', ')})`);
+    return { key, apiKey: toSummary(record) };
+  }
+
+  /**
+   * Active keys of a user, newest first
+   */
+  async listKeys(userId: string): Promise<ApiKeySummary[]> {
+    const records = await prisma.apiKey.findMany({
+      where: { userId, revokedAt: null },
+      orderBy: { createdAt: 'desc' }
+    });
+    return records.map(toSummary);
+  }
+
+  /**
+   * Revoke one of a user's keys; false when it is not theirs or already revoked
+   */
+  async revokeKey(userId: string, keyId: string): Promise<boolean> {
+    const { count } = await prisma.apiKey.updateMany({
+      where: { id: keyId, userId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+    return count > 0;
+  }
+
+  /**
+   * User a key acts as, when it is valid and holds the scope; does not count as a use
+   */
+  async verify(key: string, scope: ApiKeyScope): Promise<CurrentUser | null> {
+    try {
+      const record = await this.loadUsableKey(key, scope);
+      return this.toCurrentUser(record);
+    } catch (error) {
+      if (error instanceof ApiKeyError) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Check a key for a request and count it against the key's rate limit, recording the use
+   */
+  async authenticate(key: string, scope: ApiKeyScope, ipAddress?: string | null): Promise<ApiKeyUsage> {
+    const record = await this.loadUsableKey(key, scope);
+    const now = new Date();
+    const windowCutoff = new Date(now.getTime() - RATE_WINDOW_MS);
+    const used = { lastUsedAt: now, lastUsedIp: ipAddress ?? record.lastUsedIp };
+
+    // Count within the current window while there is room left
+    const counted = await prisma.apiKey.updateMany({
+      where: {
+        id: record.id,
+        rateWindowStart: { gt: windowCutoff },
+        rateWindowCount: { lt: record.rateLimitPerMinute }
+      },
+      data: { ...used, rateWindowCount: { increment: 1 } }
+    });
+
+    if (counted.count === 1) {
+      const windowStart = record.rateWindowStart && record.rateWindowStart > windowCutoff ? record.rateWindowStart : now;
+      return this.toUsage(record, record.rateWindowCount + 1, windowStart);
+    }
+
+    // Otherwise start a new window if the last one is over
+    const restarted = await prisma.apiKey.updateMany({
+      where: {
+        id: record.id,
+        OR: [{ rateWindowStart: null }, { rateWindowStart: { lte: windowCutoff } }]
+      },
+      data: { ...used, rateWindowStart: now, rateWindowCount: 1 }
+    });
+
+    if (restarted.count === 1) {
+      return this.toUsage(record, 1, now);
+    }
+
+    const current = await prisma.apiKey.findUnique({ where: { id: record.id }, select: { rateWindowStart: true } });
+    const resetAt = (current?.rateWindowStart?.getTime() ?? now.getTime()) + RATE_WINDOW_MS;
+    throw new ApiKeyError(
+      `Rate limit of ${record.rateLimitPerMinute} requests per minute exceeded`,
+      'RATE_LIMITED',
+      429,
+      Math.max(1, Math.ceil((resetAt - now.getTime()) / 1000))
+    );
+  }
+
+  private async loadUsableKey(key: string, scope: ApiKeyScope): Promise<ApiKeyWithUser> {
+    const record = key.startsWith(API_KEY_PREFIX)
+      ? await prisma.apiKey.findUnique({
+          where: { keyHash: hashToken(key) },
+          include: { user: { select: { email: true, username: true } } }
+        })
+      : null;
+
+    if (!record) {
+      throw new ApiKeyError('Invalid API key', 'INVALID_API_KEY');
+    }
+    if (record.revokedAt) {
+      throw new ApiKeyError('API key has been revoked', 'API_KEY_REVOKED');
+    }
+    if (record.expiresAt && record.expiresAt <= new Date()) {
+      throw new ApiKeyError('API key has expired', 'API_KEY_EXPIRED');
+    }
+    if (!parseScopes(record.scopes).includes(scope)) {
+      throw new ApiKeyError(`API key lacks the ${scope} scope`, 'INSUFFICIENT_SCOPE', 403);
+    }
+    return record;
+  }
+
+  private toCurrentUser(record: ApiKeyWithUser): CurrentUser {
+    return {
+      id: record.userId,
+      email: record.user.email,
+      username: record.user.username ?? record.user.email.split('@')[0],
+      apiKeyId: record.id
+    };
+  }
+
+  private toUsage(record: ApiKeyWithUser, count: number, windowStart: Date): ApiKeyUsage {
+    return {
+      user: this.toCurrentUser(record),
+      limit: record.rateLimitPerMinute,
+      remaining: Math.max(0, record.rateLimitPerMinute - count),
+      resetAt: new Date(windowStart.getTime() + RATE_WINDOW_MS)
+    };
+  }
+}
+
+// Export singleton instance
+export const apiKeyService = new ApiKeyService();
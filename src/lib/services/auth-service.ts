@@ -1,20 +1,20 @@
-// Authentication service with JWT
+// Authentication service: passwords, the sessions sign-in starts, and the emailed links
+// that verify an address or reset a forgotten password
 
-import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
-import { AuthUser, JWTPayload, AuthResponse, LoginRequest, RegisterRequest } from '@/types/auth';
+import { AuthUser, AuthResponse, LoginRequest, RegisterRequest, SessionClientInfo } from '@/types/auth';
 import { userService } from './user-service';
+import { sessionService } from './session-service';
+import { AccountTokenError, accountTokenService } from './account-token-service';
+import { mailService } from './mail-service';
+import { isDefaultJwtSecret } from '@/lib/auth/tokens';
 import { User } from '@/types/game';
 
 export class AuthService {
-  private readonly jwtSecret: string;
-  private readonly jwtExpiresIn: string = '7d';
   private readonly saltRounds: number = 10;
 
   constructor() {
-    this.jwtSecret = process.env.JWT_SECRET || 'your-super-secure-jwt-secret-key-change-this-in-production';
-    
-    if (this.jwtSecret === 'your-super-secure-jwt-secret-key-change-this-in-production') {
+    if (isDefaultJwtSecret()) {
       console.warn('⚠️  Using default JWT secret. Please set JWT_SECRET in environment variables!');
     }
   }
@@ -22,7 +22,7 @@ export class AuthService {
   /**
    * Register a new user
    */
-  async register(request: RegisterRequest): Promise<AuthResponse> {
+  async register(request: RegisterRequest, client: SessionClientInfo): Promise<AuthResponse> {
     try {
       // Validate input
       if (!request.email || !request.username || !request.password) {
@@ -67,23 +67,19 @@ export class AuthService {
         hashedPassword
       );
 
-      // Generate JWT token
-      const token = this.generateToken(user);
+      const tokens = await sessionService.createSession(user, client);
 
-      // Convert to AuthUser
-      const authUser: AuthUser = {
-        id: user.id,
-        email: user.email,
-        username: user.username,
-        gameLevel: user.gameLevel,
-        experience: user.experience
-      };
+      // A mail outage should not stop the sign-up; the link can be sent again later
+      await this.deliverVerificationEmail(user).catch((error) => {
+        console.error('❌ Failed to send verification email:', error);
+      });
 
       return {
         success: true,
         message: 'Registration successful',
-        user: authUser,
-        token
+        user: this.toAuthUser(user),
+        token: tokens.accessToken,
+        refreshToken: tokens.refreshToken ?? undefined
       };
     } catch (error) {
       console.error('Registration error:', error);
@@ -91,7 +87,7 @@ export class AuthService {
       const errorMessage = error instanceof Error ? error.message : 'Registration failed';
       
       // Handle specific errors
-      if (errorMessage.includes('already exists')) {
+      if (errorMessage.includes('already exists') || errorMessage.includes('already taken')) {
         return {
           success: false,
           message: errorMessage
@@ -108,7 +104,7 @@ export class AuthService {
   /**
    * Login user
    */
-  async login(request: LoginRequest): Promise<AuthResponse> {
+  async login(request: LoginRequest, client: SessionClientInfo): Promise<AuthResponse> {
     try {
       // Validate input
       if (!request.email || !request.password) {
@@ -141,23 +137,14 @@ export class AuthService {
         };
       }
 
-      // Generate JWT token
-      const token = this.generateToken(user);
-
-      // Convert to AuthUser
-      const authUser: AuthUser = {
-        id: user.id,
-        email: user.email,
-        username: user.username,
-        gameLevel: user.gameLevel,
-        experience: user.experience
-      };
+      const tokens = await sessionService.createSession(user, client);
 
       return {
         success: true,
         message: 'Login successful',
-        user: authUser,
-        token
+        user: this.toAuthUser(user),
+        token: tokens.accessToken,
+        refreshToken: tokens.refreshToken ?? undefined
       };
     } catch (error) {
       console.error('Login error:', error);
@@ -169,67 +156,14 @@ export class AuthService {
   }
 
   /**
-   * Verify JWT token
-   */
-  verifyToken(token: string): JWTPayload | null {
-    try {
-      const decoded = jwt.verify(token, this.jwtSecret) as JWTPayload;
-      return decoded;
-    } catch (error) {
-      console.error('Token verification error:', error);
-      return null;
-    }
-  }
-
-  /**
-   * Refresh token (extend expiry)
-   */
-  async refreshToken(oldToken: string): Promise<string | null> {
-    try {
-      // Verify old token
-      const payload = this.verifyToken(oldToken);
-      if (!payload) {
-        return null;
-      }
-
-      // Get fresh user data
-      const user = await userService.findUserById(payload.userId);
-      if (!user) {
-        return null;
-      }
-
-      // Generate new token
-      return this.generateToken(user);
-    } catch (error) {
-      console.error('Token refresh error:', error);
-      return null;
-    }
-  }
-
-  /**
-   * Get user from token
+   * Profile of a signed-in user
    */
-  async getUserFromToken(token: string): Promise<AuthUser | null> {
+  async getAuthUser(userId: string): Promise<AuthUser | null> {
     try {
-      const payload = this.verifyToken(token);
-      if (!payload) {
-        return null;
-      }
-
-      const user = await userService.findUserById(payload.userId);
-      if (!user) {
-        return null;
-      }
-
-      return {
-        id: user.id,
-        email: user.email,
-        username: user.username,
-        gameLevel: user.gameLevel,
-        experience: user.experience
-      };
+      const user = await userService.findUserById(userId);
+      return user ? this.toAuthUser(user) : null;
     } catch (error) {
-      console.error('Get user from token error:', error);
+      console.error('Get auth user error:', error);
       return null;
     }
   }
@@ -237,7 +171,12 @@ export class AuthService {
   /**
    * Change user password
    */
-  async changePassword(userId: string, currentPassword: string, newPassword: string): Promise<AuthResponse> {
+  async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    client: SessionClientInfo
+  ): Promise<AuthResponse> {
     try {
       // Get user
       const user = await userService.findUserById(userId);
@@ -268,12 +207,18 @@ export class AuthService {
       // Hash new password
       const hashedPassword = await bcrypt.hash(newPassword, this.saltRounds);
 
-      // Update password in ChromaDB (would need to add this method to userService)
-      // For now, we'll return success as the structure is in place
-      
+      await userService.updatePassword(userId, hashedPassword);
+
+      // Sign out every device, then start a fresh session for this one
+      await sessionService.revokeAllSessions(userId, 'password_change');
+      const tokens = await sessionService.createSession(user, client);
+
       return {
         success: true,
-        message: 'Password changed successfully'
+        message: 'Password changed successfully',
+        user: this.toAuthUser(user),
+        token: tokens.accessToken,
+        refreshToken: tokens.refreshToken ?? undefined
       };
     } catch (error) {
       console.error('Change password error:', error);
@@ -285,57 +230,177 @@ export class AuthService {
   }
 
   /**
-   * Logout (client-side token removal)
+   * Send a fresh verification link to a signed-in user's address
    */
-  logout(): AuthResponse {
-    // In a JWT-based system, logout is typically handled client-side
-    // by removing the token from storage
-    return {
-      success: true,
-      message: 'Logged out successfully'
-    };
+  async resendVerificationEmail(userId: string): Promise<AuthResponse> {
+    try {
+      const user = await userService.findUserById(userId);
+      if (!user) {
+        return { success: false, code: 'USER_NOT_FOUND', message: 'User not found' };
+      }
+      if (user.emailVerified) {
+        return { success: false, code: 'ALREADY_VERIFIED', message: 'Email is already verified' };
+      }
+      if (await accountTokenService.issuedRecently(user.id, 'verify_email')) {
+        return { success: false, code: 'TOO_MANY_REQUESTS', message: 'A verification email was sent recently. Please wait a minute.' };
+      }
+
+      await this.deliverVerificationEmail(user);
+
+      return {
+        success: true,
+        message: 'Verification email sent'
+      };
+    } catch (error) {
+      console.error('Resend verification email error:', error);
+      return {
+        success: false,
+        message: 'Failed to send verification email'
+      };
+    }
   }
 
   /**
-   * Generate JWT token
+   * Confirm an address from the link in a verification email
    */
-  private generateToken(user: User): string {
-    const payload: JWTPayload = {
-      userId: user.id,
-      email: user.email,
-      username: user.username
+  async verifyEmail(token: string): Promise<AuthResponse> {
+    try {
+      const { userId, email } = await accountTokenService.redeem(token, 'verify_email');
+
+      // The link only vouches for the address it was sent to
+      if (!(await userService.markEmailVerified(userId, email))) {
+        return { success: false, code: 'INVALID_TOKEN', message: 'This link is for an address no longer on the account' };
+      }
+
+      const user = await userService.findUserById(userId);
+      return {
+        success: true,
+        message: 'Email verified',
+        user: user ? this.toAuthUser(user) : undefined
+      };
+    } catch (error) {
+      if (error instanceof AccountTokenError) {
+        return { success: false, code: error.code, message: error.message };
+      }
+      console.error('Verify email error:', error);
+      return {
+        success: false,
+        message: 'Failed to verify email'
+      };
+    }
+  }
+
+  /**
+   * Email a password reset link. The answer is the same whether or not the address has an
+   * account, so the form cannot be used to find out who is registered.
+   */
+  async requestPasswordReset(email: string): Promise<AuthResponse> {
+    const response: AuthResponse = {
+      success: true,
+      message: 'If an account exists for that email, a password reset link has been sent'
     };
 
-    return jwt.sign(payload, this.jwtSecret, {
-      expiresIn: this.jwtExpiresIn
-    });
+    try {
+      const user = await userService.findUserByEmail(email.trim().toLowerCase());
+      if (!user || await accountTokenService.issuedRecently(user.id, 'reset_password')) {
+        return response;
+      }
+
+      const { token } = await accountTokenService.issue(user.id, user.email, 'reset_password');
+      const ttlMinutes = accountTokenService.getConfig().ttlSeconds.reset_password / 60;
+      await mailService.sendPasswordResetEmail(user.email, user.username, token, ttlMinutes);
+      console.log(`📧 Password reset link sent to user ${user.id}`);
+    } catch (error) {
+      console.error('Password reset request error:', error);
+    }
+
+    return response;
   }
 
   /**
-   * Decode token without verification (for debugging)
+   * Set a new password from the link in a password reset email and sign out every device
    */
-  decodeToken(token: string): JWTPayload | null {
+  async resetPassword(token: string, newPassword: string): Promise<AuthResponse> {
     try {
-      const decoded = jwt.decode(token) as JWTPayload;
-      return decoded;
+      // Check the password first, so a too-short one does not use up the link
+      if (newPassword.length < 8) {
+        return {
+          success: false,
+          code: 'WEAK_PASSWORD',
+          message: 'New password must be at least 8 characters long'
+        };
+      }
+
+      const { userId, email } = await accountTokenService.redeem(token, 'reset_password');
+      const user = await userService.findUserById(userId);
+      if (!user) {
+        return { success: false, code: 'INVALID_TOKEN', message: 'Invalid token' };
+      }
+
+      const hashedPassword = await bcrypt.hash(newPassword, this.saltRounds);
+      await userService.updatePassword(userId, hashedPassword);
+      await sessionService.revokeAllSessions(userId, 'password_reset');
+
+      // Opening the link proved the user reads this inbox
+      if (!user.emailVerified) {
+        await userService.markEmailVerified(userId, email);
+      }
+
+      return {
+        success: true,
+        message: 'Password has been reset. Please sign in with your new password.'
+      };
     } catch (error) {
-      return null;
+      if (error instanceof AccountTokenError) {
+        return { success: false, code: error.code, message: error.message };
+      }
+      console.error('Reset password error:', error);
+      return {
+        success: false,
+        message: 'Failed to reset password'
+      };
     }
   }
 
   /**
-   * Check if token is expired
+   * Logout: revoke the session so its access and refresh tokens stop working
    */
-  isTokenExpired(token: string): boolean {
-    const decoded = this.decodeToken(token);
-    if (!decoded || !decoded.exp) {
-      return true;
+  async logout(session: { sessionId?: string; userId?: string; refreshToken?: string }): Promise<AuthResponse> {
+    try {
+      if (session.sessionId && session.userId) {
+        await sessionService.revokeSession(session.userId, session.sessionId, 'logout');
+      } else if (session.refreshToken) {
+        await sessionService.revokeByRefreshToken(session.refreshToken, 'logout');
+      }
+    } catch (error) {
+      // The cookies are cleared regardless
+      console.error('Logout error:', error);
     }
 
-    const currentTime = Math.floor(Date.now() / 1000);
-    return decoded.exp < currentTime;
+    return {
+      success: true,
+      message: 'Logged out successfully'
+    };
+  }
+
+  private async deliverVerificationEmail(user: User): Promise<void> {
+    const { token } = await accountTokenService.issue(user.id, user.email, 'verify_email');
+    const ttlHours = accountTokenService.getConfig().ttlSeconds.verify_email / 3600;
+    await mailService.sendVerificationEmail(user.email, user.username, token, ttlHours);
+    console.log(`📧 Verification link sent to user ${user.id}`);
+  }
+
+  private toAuthUser(user: User): AuthUser {
+    return {
+      id: user.id,
+      email: user.email,
+      username: user.username,
+      emailVerified: user.emailVerified,
+      gameLevel: user.gameLevel,
+      experience: user.experience
+    };
   }
 }
 
 // Export singleton instance
-export const authService = new AuthService();
\ No newline at end of file
+export const authService = new AuthService();
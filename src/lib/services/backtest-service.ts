@@ -0,0 +1,228 @@
+// Backtest service: replays stored candles through an agent's personality rules
+// and simulates fills with fees and slippage.
+
+import { prisma } from '../database/prisma-client';
+import { candleService } from './candle-service';
+import { dynamicAgentService, type MarketAnalysis } from './dynamic-agent-service';
+import { TradingError, TRADING_FEE_RATE, DUST_THRESHOLD } from './paper-trading-service';
+import { calculatePerformanceMetrics, type EquitySample } from '@/lib/utils/performance-metrics';
+import { INTERVAL_MS } from '@/types/candles';
+import type { BacktestInput, BacktestResult, BacktestSettings } from '@/types/backtest';
+import type { TradingHistoryItem } from '@/types/trading';
+import type { Agent, Candle } from '@prisma/client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365 * DAY_MS;
+const MIN_LOOKBACK = 6; // Momentum needs six prices
+const MIN_ORDER_VALUE = 10; // USD
+const MAX_BACKTEST_CANDLES = 20000;
+const CANDLE_PAGE_SIZE = 1000;
+
+const DEFAULT_SETTINGS: Omit<BacktestSettings, 'from' | 'to'> = {
+  interval: '1h',
+  initialBalance: 10000,
+  feeRate: TRADING_FEE_RATE,
+  slippageBps: 5,
+  positionSizePercent: 25,
+  minConfidence: 0
+};
+
+export class AgentNotFoundError extends TradingError {
+  constructor(agentId: string) {
+    super(`Agent not found: ${agentId}`, 'AGENT_NOT_FOUND', 404);
+    this.name = 'AgentNotFoundError';
+  }
+}
+
+export class InsufficientDataError extends TradingError {
+  constructor(message: string) {
+    super(message, 'INSUFFICIENT_DATA', 422);
+    this.name = 'InsufficientDataError';
+  }
+}
+
+interface SimulatedAccount {
+  cash: number;
+  holdings: number;
+  costBasis: number; // Cash spent on the open position, fees included
+  entryTime: Date | null;
+}
+
+export class BacktestService {
+
+  /**
+   * Replay candles in [from, to] through the agent and report performance.
+   * Decisions are made on each candle's close and filled at the next candle's open.
+   */
+  async runBacktest(agentId: string, input: BacktestInput): Promise<BacktestResult> {
+    const agent = await prisma.agent.findUnique({ where: { id: agentId } });
+    if (!agent) {
+      throw new AgentNotFoundError(agentId);
+    }
+
+    const settings: BacktestSettings = { ...DEFAULT_SETTINGS, ...input };
+    const candles = await this.loadCandles(settings);
+
+    // Each decision sees at least 24 hours of closes, like the live 24h change
+    const lookback = Math.max(MIN_LOOKBACK, Math.ceil(DAY_MS / INTERVAL_MS[settings.interval]) + 1);
+    if (candles.length < lookback + 1) {
+      throw new InsufficientDataError(
+        `Backtest needs at least ${lookback + 1} ${settings.interval} candles in range, found ${candles.length}`
+      );
+    }
+
+    console.log(`🧪 Backtesting ${agent.name} over ${candles.length} ${settings.interval} candles...`);
+
+    const account: SimulatedAccount = { cash: settings.initialBalance, holdings: 0, costBasis: 0, entryTime: null };
+    const trades: TradingHistoryItem[] = [];
+    const equity: EquitySample[] = [];
+    let pending: MarketAnalysis | null = null;
+
+    for (let i = lookback - 1; i < candles.length; i++) {
+      const candle = candles[i];
+
+      if (pending) {
+        const trade = this.fill(agent, account, pending, candle, settings, trades.length);
+        if (trade) trades.push(trade);
+        pending = null;
+      }
+
+      const value = account.cash + account.holdings * candle.close;
+      equity.push({ date: candle.closeTime, value });
+
+      const window = candles.slice(i - lookback + 1, i + 1).map((c) => c.close);
+      const analysis = dynamicAgentService.analyzeMarket(agent, {
+        prices: window,
+        portfolio: {
+          balance: account.cash,
+          profitPercentage: ((value - settings.initialBalance) / settings.initialBalance) * 100
+        }
+      });
+
+      if (analysis.recommendation !== 'hold' && analysis.confidence >= settings.minConfidence) {
+        pending = analysis;
+      }
+    }
+
+    const first = candles[lookback - 1];
+    const last = candles[candles.length - 1];
+    const finalValue = equity[equity.length - 1].value;
+    const metrics = calculatePerformanceMetrics(trades, equity, {
+      initialValue: settings.initialBalance,
+      periodsPerYear: YEAR_MS / INTERVAL_MS[settings.interval]
+    });
+
+    console.log(`✅ Backtest done: ${trades.length} trades, ${metrics.totalReturnPercent}% return, Sharpe ${metrics.sharpeRatio}`);
+
+    return {
+      agentId: agent.id,
+      agentName: agent.name,
+      personality: agent.personality,
+      settings,
+      candles: candles.length - lookback + 1,
+      startedAt: first.closeTime,
+      endedAt: last.closeTime,
+      finalValue,
+      buyAndHoldReturnPercent: ((last.close - first.close) / first.close) * 100,
+      openPosition: account.holdings > DUST_THRESHOLD
+        ? { quantity: account.holdings, costBasis: account.costBasis, marketValue: account.holdings * last.close }
+        : null,
+      trades,
+      metrics
+    };
+  }
+
+  /**
+   * Fill a buy or sell signal at the candle's open with slippage and fees
+   */
+  private fill(
+    agent: Agent,
+    account: SimulatedAccount,
+    signal: MarketAnalysis,
+    candle: Candle,
+    settings: BacktestSettings,
+    index: number
+  ): TradingHistoryItem | null {
+    const slippage = settings.slippageBps / 10000;
+    const base = {
+      id: `backtest-${index + 1}`,
+      agentId: agent.id,
+      symbol: candle.symbol,
+      timestamp: candle.openTime,
+      reasoning: signal.analysis,
+      strategyUsed: signal.strategy_focus || agent.personality
+    };
+
+    if (signal.recommendation === 'buy') {
+      const spend = account.cash * (settings.positionSizePercent / 100);
+      if (spend < MIN_ORDER_VALUE) return null;
+
+      const price = candle.open * (1 + slippage);
+      const total = spend / (1 + settings.feeRate);
+      const fee = spend - total;
+      const quantity = total / price;
+
+      account.cash -= spend;
+      account.holdings += quantity;
+      account.costBasis += spend;
+      account.entryTime = account.entryTime ?? candle.openTime;
+
+      return { ...base, action: 'BUY', quantity, price, fee, total };
+    }
+
+    // Sell signals close the whole position
+    if (account.holdings <= DUST_THRESHOLD || !account.entryTime) return null;
+
+    const price = candle.open * (1 - slippage);
+    const quantity = account.holdings;
+    const total = quantity * price;
+    const fee = total * settings.feeRate;
+    const profitLoss = total - fee - account.costBasis;
+
+    const trade: TradingHistoryItem = {
+      ...base,
+      action: 'SELL',
+      quantity,
+      price,
+      fee,
+      total,
+      result: {
+        profitLoss,
+        percentReturn: (profitLoss / account.costBasis) * 100,
+        holdingPeriod: (candle.openTime.getTime() - account.entryTime.getTime()) / (60 * 60 * 1000),
+        exitPrice: price,
+        exitTimestamp: candle.openTime
+      }
+    };
+
+    account.cash += total - fee;
+    account.holdings = 0;
+    account.costBasis = 0;
+    account.entryTime = null;
+
+    return trade;
+  }
+
+  private async loadCandles(settings: BacktestSettings): Promise<Candle[]> {
+    const candles: Candle[] = [];
+    let from = settings.from;
+
+    while (candles.length < MAX_BACKTEST_CANDLES) {
+      const page = await candleService.getCandles({
+        interval: settings.interval,
+        from,
+        to: settings.to,
+        limit: CANDLE_PAGE_SIZE
+      });
+      candles.push(...page);
+
+      if (page.length < CANDLE_PAGE_SIZE) break;
+      from = new Date(page[page.length - 1].openTime.getTime() + INTERVAL_MS[settings.interval]);
+    }
+
+    return candles;
+  }
+}
+
+// Export singleton instance
+export const backtestService = new BacktestService();
@@ -0,0 +1,684 @@
+// Binance WebSocket ingestion service
+// Streams BTC/USDT ticker and 1m kline data, keeps a candle buffer for indicators,
+// reconnects with exponential backoff across endpoints and falls back to demo data.
+
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+import { IndicatorEngine } from '@/lib/indicators/indicator-engine';
+import type { IndicatorCandle } from '@/types/indicators';
+
+export interface BinanceTickerData {
+  symbol: string;
+  price: number;
+  priceChange: number;
+  priceChangePercent: number;
+  high24h: number;
+  low24h: number;
+  volume: number;
+  quoteVolume: number;
+  timestamp: number;
+  source: 'binance' | 'demo';
+}
+
+export interface BinanceKlineData {
+  openTime: number;
+  closeTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  isClosed: boolean;
+}
+
+export interface BinanceTechnicalIndicators {
+  price: number;
+  high24h: number;
+  low24h: number;
+  volume: number;
+  sma20?: number;
+  rsi14?: number;
+  macd?: number;
+  macdSignal?: number;
+  macdHistogram?: number;
+  bbUpper?: number;
+  bbMiddle?: number;
+  bbLower?: number;
+  priceChange?: number;
+  priceChangePercent?: number;
+  timestamp: number;
+}
+
+export interface BinanceTradingSignal {
+  signal: 'BUY' | 'SELL' | 'NEUTRAL';
+  strength: number; // 0-100
+  reasons: string[];
+}
+
+export interface BinanceRealtimeData {
+  ticker: BinanceTickerData;
+  indicators: BinanceTechnicalIndicators | null;
+  signals: BinanceTradingSignal | null;
+  timestamp: number;
+}
+
+export interface BinanceServiceStatus {
+  connected: boolean;
+  tickerConnected: boolean;
+  klineConnected: boolean;
+  demoMode: boolean;
+  currentEndpoint: string | null;
+  reconnectAttempts: number;
+  klineBufferSize: number;
+  lastMessageAt: number | null;
+  messagesReceived: number;
+}
+
+export interface BinanceWebSocketOptions {
+  endpoints: string[]; // Base URLs, e.g. wss://stream.binance.us:9443
+  symbol: string;
+  klineInterval: string;
+  restEndpoint: string | null; // Used to seed the kline buffer; null disables seeding
+  klineBufferSize: number;
+  initialReconnectDelay: number; // ms
+  maxReconnectDelay: number; // ms
+  maxReconnectAttempts: number; // Failed attempts before switching to demo mode
+  healthCheckInterval: number; // ms
+  staleTimeout: number; // ms without messages before the connection is considered dead
+  enableDemoFallback: boolean;
+  demoTickInterval: number; // ms
+}
+
+const DEFAULT_OPTIONS: BinanceWebSocketOptions = {
+  endpoints: (process.env.BINANCE_WS_ENDPOINTS ||
+    'wss://stream.binance.us:9443,wss://stream.binance.com:9443,wss://data-stream.binance.vision')
+    .split(',')
+    .map((endpoint) => endpoint.trim())
+    .filter(Boolean),
+  symbol: 'btcusdt',
+  klineInterval: '1m',
+  restEndpoint: process.env.BINANCE_REST_ENDPOINT || 'https://api.binance.us',
+  klineBufferSize: 200,
+  initialReconnectDelay: 1000,
+  maxReconnectDelay: 30000,
+  maxReconnectAttempts: 5,
+  healthCheckInterval: 30000,
+  staleTimeout: 60000,
+  enableDemoFallback: true,
+  demoTickInterval: 2000
+};
+
+function toIndicatorCandle(kline: BinanceKlineData): IndicatorCandle {
+  return {
+    time: kline.closeTime,
+    open: kline.open,
+    high: kline.high,
+    low: kline.low,
+    close: kline.close,
+    volume: kline.volume
+  };
+}
+
+// Raw Binance payloads (combined stream format: { stream, data })
+interface RawTickerEvent {
+  e: '24hrTicker';
+  E: number;
+  s: string;
+  p: string;
+  P: string;
+  c: string;
+  h: string;
+  l: string;
+  v: string;
+  q: string;
+}
+
+interface RawKlineEvent {
+  e: 'kline';
+  E: number;
+  s: string;
+  k: {
+    t: number;
+    T: number;
+    o: string;
+    c: string;
+    h: string;
+    l: string;
+    v: string;
+    x: boolean;
+  };
+}
+
+export class BinanceWebSocketService extends EventEmitter {
+  private options: BinanceWebSocketOptions;
+  private socket: WebSocket | null = null;
+  private isStarted = false;
+  private connected = false;
+  private demoMode = false;
+  private endpointIndex = 0;
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private healthCheckTimer: NodeJS.Timeout | null = null;
+  private demoTimer: NodeJS.Timeout | null = null;
+
+  private klineBuffer: BinanceKlineData[] = [];
+  private currentKline: BinanceKlineData | null = null;
+  private indicatorEngine = new IndicatorEngine(); // Fed every closed candle
+  private latestTicker: BinanceTickerData | null = null;
+  private latestIndicators: BinanceTechnicalIndicators | null = null;
+  private latestSignals: BinanceTradingSignal | null = null;
+
+  private lastMessageAt: number | null = null;
+  private lastTickerAt: number | null = null;
+  private lastKlineAt: number | null = null;
+  private messagesReceived = 0;
+
+  constructor(options: Partial<BinanceWebSocketOptions> = {}) {
+    super();
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Start streaming. Resolves once the first connection attempt has settled;
+   * later failures are retried in the background and reported via events.
+   */
+  async start(): Promise<void> {
+    if (this.isStarted) {
+      return;
+    }
+
+    this.isStarted = true;
+    this.reconnectAttempts = 0;
+    console.log(`🚀 Starting Binance WebSocket service (${this.options.symbol.toUpperCase()})`);
+
+    await this.seedKlineBuffer();
+    await this.connect();
+    this.startHealthCheck();
+  }
+
+  /**
+   * Stop streaming and clear all timers
+   */
+  stop(): void {
+    const wasConnected = this.connected || this.demoMode;
+
+    this.isStarted = false;
+    this.clearTimers();
+    this.stopDemoMode();
+    this.closeSocket();
+
+    if (wasConnected) {
+      this.emit('disconnected');
+    }
+    console.log('⏹️ Binance WebSocket service stopped');
+  }
+
+  /**
+   * Drop the current connection and reconnect immediately
+   */
+  async reconnect(): Promise<void> {
+    this.closeSocket();
+    this.reconnectAttempts = 0;
+    await this.connect();
+  }
+
+  getStatus(): BinanceServiceStatus {
+    const now = Date.now();
+    const isFresh = (at: number | null) => at !== null && now - at < this.options.staleTimeout;
+
+    return {
+      connected: this.connected || this.demoMode,
+      tickerConnected: isFresh(this.lastTickerAt),
+      klineConnected: isFresh(this.lastKlineAt),
+      demoMode: this.demoMode,
+      currentEndpoint: this.demoMode ? 'demo' : this.connected ? this.currentEndpoint() : null,
+      reconnectAttempts: this.reconnectAttempts,
+      klineBufferSize: this.klineBuffer.length,
+      lastMessageAt: this.lastMessageAt,
+      messagesReceived: this.messagesReceived
+    };
+  }
+
+  getLatestTicker(): BinanceTickerData | null {
+    return this.latestTicker;
+  }
+
+  getLatestIndicators(): BinanceTechnicalIndicators | null {
+    return this.latestIndicators;
+  }
+
+  getLatestSignals(): BinanceTradingSignal | null {
+    return this.latestSignals;
+  }
+
+  getKlines(): BinanceKlineData[] {
+    return this.currentKline ? [...this.klineBuffer, this.currentKline] : [...this.klineBuffer];
+  }
+
+  isDemoMode(): boolean {
+    return this.demoMode;
+  }
+
+  private currentEndpoint(): string {
+    return this.options.endpoints[this.endpointIndex % this.options.endpoints.length];
+  }
+
+  private streamUrl(): string {
+    const symbol = this.options.symbol.toLowerCase();
+    return `${this.currentEndpoint()}/stream?streams=${symbol}@ticker/${symbol}@kline_${this.options.klineInterval}`;
+  }
+
+  private connect(): Promise<void> {
+    if (!this.isStarted) {
+      return Promise.resolve();
+    }
+
+    if (this.options.endpoints.length === 0) {
+      if (this.options.enableDemoFallback) this.enterDemoMode();
+      return Promise.resolve();
+    }
+
+    const url = this.streamUrl();
+    console.log(`🔌 Connecting to ${url}`);
+
+    return new Promise((resolve) => {
+      let settled = false;
+      const settle = () => {
+        if (!settled) {
+          settled = true;
+          resolve();
+        }
+      };
+
+      const socket = new WebSocket(url);
+      this.socket = socket;
+
+      socket.on('open', () => {
+        this.connected = true;
+        this.reconnectAttempts = 0;
+        this.lastMessageAt = Date.now();
+        this.stopDemoMode();
+        console.log(`✅ Connected to Binance stream: ${this.currentEndpoint()}`);
+        this.emit('connected');
+        settle();
+      });
+
+      socket.on('message', (raw) => this.handleMessage(raw.toString()));
+
+      socket.on('pong', () => {
+        this.lastMessageAt = Date.now();
+      });
+
+      socket.on('error', (error) => {
+        this.emitError(error);
+      });
+
+      socket.on('close', () => {
+        if (this.socket === socket) {
+          this.socket = null;
+        }
+
+        if (this.connected) {
+          this.connected = false;
+          this.emit('disconnected');
+        }
+
+        settle();
+        this.scheduleReconnect();
+      });
+    });
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.isStarted || this.reconnectTimer) {
+      return;
+    }
+
+    this.reconnectAttempts++;
+    // Rotate through endpoints so one blocked host does not stall reconnection
+    this.endpointIndex++;
+
+    if (
+      this.options.enableDemoFallback &&
+      !this.demoMode &&
+      this.reconnectAttempts >= this.options.maxReconnectAttempts
+    ) {
+      this.enterDemoMode();
+    }
+
+    const backoff = this.options.initialReconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
+    const jitter = Math.random() * this.options.initialReconnectDelay;
+    const delay = Math.min(backoff + jitter, this.options.maxReconnectDelay);
+
+    console.log(`🔄 Reconnecting in ${Math.round(delay)}ms (attempt ${this.reconnectAttempts})`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private startHealthCheck(): void {
+    if (this.healthCheckTimer) {
+      return;
+    }
+
+    this.healthCheckTimer = setInterval(() => {
+      if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+        return;
+      }
+
+      const silentFor = this.lastMessageAt ? Date.now() - this.lastMessageAt : Infinity;
+      if (silentFor > this.options.staleTimeout) {
+        console.warn(`⚠️ No Binance messages for ${Math.round(silentFor / 1000)}s, reconnecting`);
+        this.emit('health_check_failed', this.getStatus());
+        // terminate() fires 'close', which schedules the reconnect
+        this.socket.terminate();
+        return;
+      }
+
+      this.socket.ping();
+    }, this.options.healthCheckInterval);
+  }
+
+  private handleMessage(raw: string): void {
+    this.lastMessageAt = Date.now();
+    this.messagesReceived++;
+
+    let payload: { stream?: string; data?: RawTickerEvent | RawKlineEvent };
+    try {
+      payload = JSON.parse(raw);
+    } catch {
+      this.emitError(new Error('Received malformed message from Binance stream'));
+      return;
+    }
+
+    const event = payload.data;
+    if (!event) {
+      return;
+    }
+
+    if (event.e === '24hrTicker') {
+      this.handleTicker({
+        symbol: event.s,
+        price: parseFloat(event.c),
+        priceChange: parseFloat(event.p),
+        priceChangePercent: parseFloat(event.P),
+        high24h: parseFloat(event.h),
+        low24h: parseFloat(event.l),
+        volume: parseFloat(event.v),
+        quoteVolume: parseFloat(event.q),
+        timestamp: event.E,
+        source: 'binance'
+      });
+    } else if (event.e === 'kline') {
+      this.handleKline({
+        openTime: event.k.t,
+        closeTime: event.k.T,
+        open: parseFloat(event.k.o),
+        high: parseFloat(event.k.h),
+        low: parseFloat(event.k.l),
+        close: parseFloat(event.k.c),
+        volume: parseFloat(event.k.v),
+        isClosed: event.k.x
+      });
+    }
+  }
+
+  private handleTicker(ticker: BinanceTickerData): void {
+    this.lastTickerAt = Date.now();
+    this.latestTicker = ticker;
+    this.latestIndicators = this.calculateIndicators(ticker);
+    this.latestSignals = this.latestIndicators ? this.generateSignals(this.latestIndicators) : null;
+
+    this.emit('ticker', ticker);
+    this.emit('data', {
+      ticker,
+      indicators: this.latestIndicators,
+      signals: this.latestSignals,
+      timestamp: ticker.timestamp
+    } satisfies BinanceRealtimeData);
+  }
+
+  private handleKline(kline: BinanceKlineData): void {
+    this.lastKlineAt = Date.now();
+
+    if (kline.isClosed) {
+      this.klineBuffer.push(kline);
+      this.indicatorEngine.update(toIndicatorCandle(kline));
+      if (this.klineBuffer.length > this.options.klineBufferSize) {
+        this.klineBuffer.splice(0, this.klineBuffer.length - this.options.klineBufferSize);
+      }
+      this.currentKline = null;
+    } else {
+      this.currentKline = kline;
+    }
+
+    this.emit('kline', kline);
+  }
+
+  /**
+   * Indicators as if the forming candle closed at the ticker price
+   */
+  private calculateIndicators(ticker: BinanceTickerData): BinanceTechnicalIndicators | null {
+    if (this.klineBuffer.length === 0) {
+      return null;
+    }
+
+    const forming = this.currentKline ? toIndicatorCandle(this.currentKline) : null;
+    const snapshot = this.indicatorEngine.preview({
+      time: ticker.timestamp,
+      high: Math.max(forming?.high ?? ticker.price, ticker.price),
+      low: Math.min(forming?.low ?? ticker.price, ticker.price),
+      close: ticker.price,
+      volume: forming?.volume ?? 0
+    });
+    const macd = snapshot?.macd;
+    const bollinger = snapshot?.bollinger;
+
+    return {
+      price: ticker.price,
+      high24h: ticker.high24h,
+      low24h: ticker.low24h,
+      volume: ticker.volume,
+      sma20: snapshot?.sma[20] ?? undefined,
+      rsi14: snapshot?.rsi ?? undefined,
+      macd: macd?.macd,
+      macdSignal: macd?.signal ?? undefined,
+      macdHistogram: macd?.histogram ?? undefined,
+      bbUpper: bollinger?.upper,
+      bbMiddle: bollinger?.middle,
+      bbLower: bollinger?.lower,
+      priceChange: ticker.priceChange,
+      priceChangePercent: ticker.priceChangePercent,
+      timestamp: ticker.timestamp
+    };
+  }
+
+  /**
+   * BUY/SELL when at least 60% of the available indicator votes agree
+   */
+  private generateSignals(indicators: BinanceTechnicalIndicators): BinanceTradingSignal {
+    const buyReasons: string[] = [];
+    const sellReasons: string[] = [];
+    const { price } = indicators;
+
+    if (indicators.sma20 !== undefined) {
+      if (price > indicators.sma20) buyReasons.push(`Price above SMA20 (${indicators.sma20.toFixed(2)})`);
+      else sellReasons.push(`Price below SMA20 (${indicators.sma20.toFixed(2)})`);
+    }
+
+    if (indicators.rsi14 !== undefined) {
+      if (indicators.rsi14 < 30) buyReasons.push(`RSI oversold (${indicators.rsi14.toFixed(1)})`);
+      else if (indicators.rsi14 > 70) sellReasons.push(`RSI overbought (${indicators.rsi14.toFixed(1)})`);
+      else if (indicators.rsi14 > 50) buyReasons.push(`RSI bullish (${indicators.rsi14.toFixed(1)})`);
+      else sellReasons.push(`RSI bearish (${indicators.rsi14.toFixed(1)})`);
+    }
+
+    if (indicators.macd !== undefined && indicators.macdSignal !== undefined) {
+      if (indicators.macd > indicators.macdSignal) buyReasons.push('MACD above signal line');
+      else sellReasons.push('MACD below signal line');
+    }
+
+    if (indicators.bbLower !== undefined && price < indicators.bbLower) {
+      buyReasons.push('Price below lower Bollinger Band');
+    } else if (indicators.bbUpper !== undefined && price > indicators.bbUpper) {
+      sellReasons.push('Price above upper Bollinger Band');
+    }
+
+    if (indicators.priceChangePercent !== undefined) {
+      if (indicators.priceChangePercent > 0) buyReasons.push(`Positive momentum (${indicators.priceChangePercent.toFixed(2)}%)`);
+      else if (indicators.priceChangePercent < 0) sellReasons.push(`Negative momentum (${indicators.priceChangePercent.toFixed(2)}%)`);
+    }
+
+    const total = buyReasons.length + sellReasons.length;
+    if (total === 0) {
+      return { signal: 'NEUTRAL', strength: 0, reasons: [] };
+    }
+
+    const buyRatio = buyReasons.length / total;
+    const sellRatio = sellReasons.length / total;
+
+    if (buyRatio >= 0.6) {
+      return { signal: 'BUY', strength: buyRatio * 100, reasons: buyReasons };
+    }
+    if (sellRatio >= 0.6) {
+      return { signal: 'SELL', strength: sellRatio * 100, reasons: sellReasons };
+    }
+    return { signal: 'NEUTRAL', strength: Math.abs(buyRatio - sellRatio) * 100, reasons: [...buyReasons, ...sellReasons] };
+  }
+
+  /**
+   * Load recent closed candles over REST so indicators are available immediately
+   */
+  private async seedKlineBuffer(): Promise<void> {
+    if (!this.options.restEndpoint || this.klineBuffer.length > 0) {
+      return;
+    }
+
+    try {
+      const url = `${this.options.restEndpoint}/api/v3/klines?symbol=${this.options.symbol.toUpperCase()}&interval=${this.options.klineInterval}&limit=${this.options.klineBufferSize}`;
+      const response = await fetch(url, { signal: AbortSignal.timeout(5000) });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const rows: Array<[number, string, string, string, string, string, number]> = await response.json();
+      this.klineBuffer = rows.slice(0, -1).map((row) => ({
+        openTime: row[0],
+        open: parseFloat(row[1]),
+        high: parseFloat(row[2]),
+        low: parseFloat(row[3]),
+        close: parseFloat(row[4]),
+        volume: parseFloat(row[5]),
+        closeTime: row[6],
+        isClosed: true
+      }));
+      this.indicatorEngine = new IndicatorEngine();
+      this.klineBuffer.forEach((kline) => this.indicatorEngine.update(toIndicatorCandle(kline)));
+      console.log(`📦 Seeded ${this.klineBuffer.length} candles from Binance REST`);
+    } catch (error) {
+      console.warn('⚠️ Could not seed kline buffer:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  private enterDemoMode(): void {
+    if (this.demoMode) {
+      return;
+    }
+
+    this.demoMode = true;
+    console.log('🎭 Demo mode: all Binance endpoints failed, emitting simulated data');
+    this.emit('connected');
+
+    let price = this.latestTicker?.price ?? this.klineBuffer[this.klineBuffer.length - 1]?.close ?? 100000;
+    const openPrice = price;
+
+    this.demoTimer = setInterval(() => {
+      price *= 1 + (Math.random() - 0.5) * 0.002;
+      const now = Date.now();
+      const minuteStart = now - (now % 60000);
+
+      if (this.currentKline && this.currentKline.openTime !== minuteStart) {
+        this.handleKline({ ...this.currentKline, isClosed: true });
+      }
+
+      const previous = this.currentKline?.openTime === minuteStart ? this.currentKline : null;
+      this.handleKline({
+        openTime: minuteStart,
+        closeTime: minuteStart + 59999,
+        open: previous?.open ?? price,
+        high: Math.max(previous?.high ?? price, price),
+        low: Math.min(previous?.low ?? price, price),
+        close: price,
+        volume: (previous?.volume ?? 0) + Math.random(),
+        isClosed: false
+      });
+
+      this.handleTicker({
+        symbol: this.options.symbol.toUpperCase(),
+        price,
+        priceChange: price - openPrice,
+        priceChangePercent: ((price - openPrice) / openPrice) * 100,
+        high24h: Math.max(this.latestTicker?.high24h ?? price, price),
+        low24h: Math.min(this.latestTicker?.low24h ?? price, price),
+        volume: (this.latestTicker?.volume ?? 30000) + Math.random(),
+        quoteVolume: 0,
+        timestamp: now,
+        source: 'demo'
+      });
+    }, this.options.demoTickInterval);
+  }
+
+  private stopDemoMode(): void {
+    if (this.demoTimer) {
+      clearInterval(this.demoTimer);
+      this.demoTimer = null;
+    }
+
+    if (this.demoMode) {
+      this.demoMode = false;
+      console.log('🎭 Demo mode stopped');
+    }
+  }
+
+  private closeSocket(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.removeAllListeners();
+      socket.on('error', () => undefined);
+      socket.terminate();
+      this.connected = false;
+    }
+  }
+
+  private clearTimers(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = null;
+    }
+  }
+
+  /**
+   * EventEmitter throws on unhandled 'error' events; only emit when someone listens
+   */
+  private emitError(error: Error): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    } else {
+      console.error('❌ Binance WebSocket error:', error.message);
+    }
+  }
+}
+
+// Export singleton instance
+export const binanceWebSocketService = new BinanceWebSocketService();
@@ -2,7 +2,11 @@
 
 import { BitcoinAPIService } from './bitcoin-api';
 import { prisma } from '../database/prisma-client';
-import type { BitcoinPrice, Portfolio } from '@prisma/client';
+import { paperTradingService, TradingError } from './paper-trading-service';
+import { orderService } from './order-service';
+import { priceAlertService } from './price-alert-service';
+import { signalScannerService } from './signal-scanner-service';
+import type { BitcoinPrice, Portfolio, Trade } from '@prisma/client';
 
 export interface BitcoinPriceData {
   id: number;
@@ -49,6 +53,7 @@ export class BitcoinPriceService {
       });
 
       console.log(`✅ Bitcoin price saved: $${savedPrice.price.toLocaleString()}`);
+      await this.onNewPrice(savedPrice.price);
       return savedPrice;
     } catch (error) {
       console.error('❌ Failed to fetch and save Bitcoin price:', error);
@@ -57,6 +62,19 @@ export class BitcoinPriceService {
   }
 
 
+  /**
+   * Run price-driven jobs for a new price (stored row or live ticker tick)
+   */
+  async onNewPrice(price: number): Promise<void> {
+    try {
+      await orderService.matchOrders(price);
+    } catch (error) {
+      console.error('❌ Order matching failed:', error);
+    }
+    await priceAlertService.onPrice('BTC', price);
+    await signalScannerService.onPrice('BTC', price);
+  }
+
   /**
    * Get latest Bitcoin price from database
    */
@@ -75,7 +93,43 @@ export class BitcoinPriceService {
     }
   }
 
-  // Historical functions removed - only current price supported
+  /**
+   * Get Bitcoin price history for the last N hours (oldest first)
+   */
+  async getPriceHistory(hours: number = 24): Promise<BitcoinPrice[]> {
+    try {
+      const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+
+      return await prisma.bitcoinPrice.findMany({
+        where: {
+          timestamp: { gte: since },
+        },
+        orderBy: {
+          timestamp: 'asc',
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching price history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Delete price snapshots older than the given number of days
+   */
+  async cleanupOldPrices(days: number = 7): Promise<number> {
+    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const { count } = await prisma.bitcoinPrice.deleteMany({
+      where: {
+        timestamp: { lt: cutoff },
+      },
+    });
+
+    if (count > 0) {
+      console.log(`🧹 Removed ${count} price records older than ${days} days`);
+    }
+    return count;
+  }
 
   /**
    * Fetch current Bitcoin price from API (memory only)
@@ -117,6 +171,7 @@ export class BitcoinPriceService {
       });
 
       console.log(`✅ Bitcoin price saved to database: $${savedPrice.price.toLocaleString()}`);
+      await this.onNewPrice(savedPrice.price);
       return savedPrice;
     } catch (error) {
       console.error('❌ Failed to save Bitcoin price to database:', error);
@@ -124,7 +179,75 @@ export class BitcoinPriceService {
     }
   }
 
-  // Portfolio functions removed - only price functionality supported
+  // Portfolio helpers - delegate to the paper trading engine
+
+  /**
+   * Get a user's portfolio, valued at the latest price
+   */
+  async getPortfolio(userId: string): Promise<Portfolio | null> {
+    try {
+      return await paperTradingService.markToMarket(userId);
+    } catch (error) {
+      console.error('Error fetching portfolio:', error);
+      return null;
+    }
+  }
+
+  /**
+   * A portfolio at the starting balance; shared analysis reports are written for it
+   * rather than for any one user's holdings
+   */
+  getReferencePortfolio(): Portfolio {
+    return paperTradingService.getStartingPortfolio();
+  }
+
+  /**
+   * Execute a market trade for a user's portfolio
+   */
+  async executeTrade(
+    userId: string,
+    type: 'buy' | 'sell',
+    amount: number
+  ): Promise<{ success: boolean; message: string; trade?: Trade; portfolio?: Portfolio }> {
+    try {
+      const { trade, portfolio } = await paperTradingService.executeTrade({
+        userId,
+        type,
+        amount,
+      });
+
+      return {
+        success: true,
+        message: `${type === 'buy' ? 'Bought' : 'Sold'} ${amount} BTC at $${trade.price.toLocaleString()}`,
+        trade,
+        portfolio,
+      };
+    } catch (error) {
+      if (error instanceof TradingError) {
+        return { success: false, message: error.message };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Revalue all portfolios at the latest stored price
+   */
+  async updatePortfolioValue(): Promise<void> {
+    const latestPrice = await this.getLatestPrice();
+    if (!latestPrice) {
+      return;
+    }
+
+    await paperTradingService.markAllToMarket(latestPrice.price);
+  }
+
+  /**
+   * Get a user's recent trades
+   */
+  async getTradeHistory(userId: string, limit: number = 20): Promise<Trade[]> {
+    return paperTradingService.getTradeHistory(userId, limit);
+  }
 
 }
 
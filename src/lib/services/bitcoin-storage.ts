@@ -4,6 +4,7 @@ import { ChromaClient } from 'chromadb';
 import { BitcoinData, MarketAnalysis, TechnicalIndicators } from '@/types/game';
 import { BitcoinDataDocument, MarketAnalysisDocument, DocumentMapper, COLLECTION_NAMES } from '@/lib/database/schemas';
 import { ValidationUtils } from '@/lib/validation/schemas';
+import { candlesFromPrices, computeIndicators } from '@/lib/indicators/indicator-engine';
 
 export interface StorageStats {
   totalDocuments: number;
@@ -331,87 +332,63 @@ export class BitcoinStorageService {
    * Calculate and store technical analysis
    */
   async calculateAndStoreTechnicalAnalysis(data: BitcoinData[]): Promise<void> {
+    await this.ensureInitialized();
+
     if (data.length < 50) {
       console.warn('Insufficient data for technical analysis (need at least 50 data points)');
       return;
     }
 
     try {
-      const prices = data.map(d => d.price).slice(-50); // Use last 50 prices
-      const volumes = data.map(d => d.volume).slice(-50);
+      const snapshot = computeIndicators(candlesFromPrices(data.map(d => d.price)));
+      if (!snapshot) return;
       
       // Calculate basic technical indicators
       const indicators: TechnicalIndicators = {
-        rsi: this.calculateRSI(prices),
-        sma20: this.calculateSMA(prices, 20),
-        sma50: this.calculateSMA(prices, 50),
-        ema12: this.calculateEMA(prices, 12),
-        ema26: this.calculateEMA(prices, 26),
-        macd: 0, // Will calculate after EMA
-        bollingerUpper: 0,
-        bollingerLower: 0,
-        support: Math.min(...prices.slice(-20)),
-        resistance: Math.max(...prices.slice(-20))
+        rsi: snapshot.rsi ?? 50, // Neutral RSI if insufficient data
+        sma20: snapshot.sma[20] ?? snapshot.close,
+        sma50: snapshot.sma[50] ?? snapshot.close,
+        ema12: snapshot.ema[12] ?? snapshot.close,
+        ema26: snapshot.ema[26] ?? snapshot.close,
+        macd: snapshot.macd?.macd ?? 0,
+        bollingerUpper: snapshot.bollinger?.upper ?? 0,
+        bollingerLower: snapshot.bollinger?.lower ?? 0,
+        support: snapshot.donchian?.lower ?? snapshot.close,
+        resistance: snapshot.donchian?.upper ?? snapshot.close
       };
 
-      // Calculate MACD
-      indicators.macd = indicators.ema12 - indicators.ema26;
+      // Technical analysis only: no sentiment or forecast, so predictions stay at the current price
+      const timestamp = data[data.length - 1].timestamp;
+      const document: MarketAnalysisDocument = {
+        id: `technical-${timestamp.getTime()}`,
+        document: JSON.stringify({ timestamp, price: snapshot.close, indicators }),
+        metadata: {
+          timestamp: timestamp.toISOString(),
+          price: snapshot.close,
+          rsi: indicators.rsi,
+          macd: indicators.macd,
+          sentiment_score: 0,
+          sentiment_label: 'neutral',
+          prediction_confidence: 0,
+          short_term_prediction: snapshot.close,
+          medium_term_prediction: snapshot.close,
+          long_term_prediction: snapshot.close,
+          analysis_type: 'technical'
+        }
+      };
 
-      // Calculate Bollinger Bands
-      const sma20 = indicators.sma20;
-      const variance = prices.slice(-20).reduce((sum, price) => sum + Math.pow(price - sma20, 2), 0) / 20;
-      const stdDev = Math.sqrt(variance);
-      indicators.bollingerUpper = sma20 + (2 * stdDev);
-      indicators.bollingerLower = sma20 - (2 * stdDev);
+      await this.analysisCollection!.upsert({
+        ids: [document.id],
+        documents: [document.document],
+        metadatas: [document.metadata]
+      });
 
-      // Create market analysis document (you would implement MarketAnalysis creation here)
       console.log('✅ Technical analysis calculated and stored');
     } catch (error) {
       console.error('❌ Error calculating technical analysis:', error);
     }
   }
 
-  private calculateRSI(prices: number[], period: number = 14): number {
-    if (prices.length < period + 1) return 50; // Neutral RSI if insufficient data
-
-    const gains: number[] = [];
-    const losses: number[] = [];
-
-    for (let i = 1; i < prices.length; i++) {
-      const change = prices[i] - prices[i - 1];
-      gains.push(change > 0 ? change : 0);
-      losses.push(change < 0 ? Math.abs(change) : 0);
-    }
-
-    const avgGain = gains.slice(-period).reduce((sum, gain) => sum + gain, 0) / period;
-    const avgLoss = losses.slice(-period).reduce((sum, loss) => sum + loss, 0) / period;
-
-    if (avgLoss === 0) return 100;
-    const rs = avgGain / avgLoss;
-    return 100 - (100 / (1 + rs));
-  }
-
-  private calculateSMA(prices: number[], period: number): number {
-    if (prices.length < period) return prices[prices.length - 1] || 0;
-    
-    const relevantPrices = prices.slice(-period);
-    return relevantPrices.reduce((sum, price) => sum + price, 0) / period;
-  }
-
-  private calculateEMA(prices: number[], period: number): number {
-    if (prices.length === 0) return 0;
-    if (prices.length === 1) return prices[0];
-
-    const multiplier = 2 / (period + 1);
-    let ema = prices[0];
-
-    for (let i = 1; i < prices.length; i++) {
-      ema = (prices[i] * multiplier) + (ema * (1 - multiplier));
-    }
-
-    return ema;
-  }
-
   private async ensureInitialized(): Promise<void> {
     if (!this.bitcoinCollection || !this.analysisCollection) {
       await this.initialize();
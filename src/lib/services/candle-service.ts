@@ -0,0 +1,432 @@
+// Candle service: builds 1m OHLCV candles from ticks and Binance klines
+// and keeps the 5m/15m/1h/4h/1d/1w rollups in sync with them.
+
+import { prisma } from '../database/prisma-client';
+import { Prisma, type Candle } from '@prisma/client';
+import {
+  CANDLE_INTERVALS,
+  INTERVAL_MS,
+  ROLLUP_SOURCE,
+  getBucketStart,
+  getBucketEnd,
+  type BackfillResult,
+  type CandleInterval,
+  type CandleQuery,
+  type CandleSource,
+  type OHLCV
+} from '@/types/candles';
+import type { IndicatorCandle } from '@/types/indicators';
+
+const DEFAULT_SYMBOL = 'BTC';
+const MAX_CANDLES = 1000;
+const EXCHANGE_PAGE_SIZE = 1000;
+
+// A write only replaces candles from an equal or lower priority source,
+// so gap fills never hide ticks and ticks never hide exchange klines
+const SOURCE_PRIORITY: Record<CandleSource, number> = {
+  gap_fill: 0,
+  ticks: 1,
+  rollup: 1,
+  binance: 2
+};
+
+/**
+ * Refused backfill requests; routes answer with `status` and `code`
+ */
+export class CandleBackfillError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'BACKFILL_IN_PROGRESS',
+    public readonly status: number = 409
+  ) {
+    super(message);
+    this.name = 'CandleBackfillError';
+  }
+}
+
+/**
+ * Aggregate time-ordered candles (or ticks as single-price candles) into buckets
+ */
+export function aggregateCandles(candles: OHLCV[], interval: CandleInterval): OHLCV[] {
+  const buckets = new Map<number, OHLCV>();
+
+  for (const candle of candles) {
+    const openTime = getBucketStart(interval, candle.openTime);
+    const bucket = buckets.get(openTime.getTime());
+
+    if (!bucket) {
+      buckets.set(openTime.getTime(), { ...candle, openTime });
+      continue;
+    }
+
+    bucket.high = Math.max(bucket.high, candle.high);
+    bucket.low = Math.min(bucket.low, candle.low);
+    bucket.close = candle.close;
+    bucket.volume += candle.volume;
+    bucket.tickCount += candle.tickCount;
+  }
+
+  return Array.from(buckets.values()).sort((a, b) => a.openTime.getTime() - b.openTime.getTime());
+}
+
+/**
+ * A stored candle as indicator input
+ */
+export function toIndicatorCandle(candle: Candle): IndicatorCandle {
+  return {
+    time: candle.closeTime.getTime(),
+    open: candle.open,
+    high: candle.high,
+    low: candle.low,
+    close: candle.close,
+    volume: candle.volume
+  };
+}
+
+export class CandleService {
+  // Live 1m candle per symbol; written once the minute rolls over
+  private openCandles = new Map<string, OHLCV>();
+  private restEndpoint: string | null = process.env.BINANCE_REST_ENDPOINT || 'https://api.binance.us';
+  // Backfill running per symbol, with the request it serves
+  private backfills = new Map<string, { key: string; result: Promise<BackfillResult> }>();
+
+  /**
+   * Feed a live price tick into the current 1m candle
+   */
+  async ingestTick(price: number, at: Date = new Date(), symbol: string = DEFAULT_SYMBOL): Promise<void> {
+    const openTime = getBucketStart('1m', at);
+    const current = this.openCandles.get(symbol);
+
+    if (current && current.openTime.getTime() === openTime.getTime()) {
+      current.high = Math.max(current.high, price);
+      current.low = Math.min(current.low, price);
+      current.close = price;
+      current.tickCount++;
+      return;
+    }
+
+    // Late tick for a minute that has already been written
+    if (current && openTime < current.openTime) {
+      return;
+    }
+
+    this.openCandles.set(symbol, {
+      openTime,
+      open: price,
+      high: price,
+      low: price,
+      close: price,
+      volume: 0,
+      tickCount: 1
+    });
+
+    if (current) {
+      await this.saveMinuteCandles(symbol, [current], 'ticks');
+      await this.rollup(symbol, current.openTime, current.openTime);
+    }
+  }
+
+  /**
+   * Store a closed exchange kline as the authoritative 1m candle
+   */
+  async ingestKline(kline: Omit<OHLCV, 'tickCount'> & { tickCount?: number }, symbol: string = DEFAULT_SYMBOL): Promise<void> {
+    const openTime = getBucketStart('1m', kline.openTime);
+    await this.saveMinuteCandles(symbol, [{ ...kline, openTime, tickCount: kline.tickCount ?? 0 }], 'binance');
+    await this.rollup(symbol, openTime, openTime);
+  }
+
+  /**
+   * Get candles in ascending order. Without `from`, returns the most recent `limit` candles.
+   */
+  async getCandles(query: CandleQuery): Promise<Candle[]> {
+    const symbol = query.symbol || DEFAULT_SYMBOL;
+    const limit = Math.min(query.limit || 500, MAX_CANDLES);
+    const openTime: Prisma.DateTimeFilter = {};
+    if (query.from) openTime.gte = getBucketStart(query.interval, query.from);
+    if (query.to) openTime.lte = query.to;
+
+    const where: Prisma.CandleWhereInput = { symbol, interval: query.interval, openTime };
+
+    if (!query.from) {
+      const latest = await prisma.candle.findMany({
+        where,
+        orderBy: { openTime: 'desc' },
+        take: limit
+      });
+      return latest.reverse();
+    }
+
+    return prisma.candle.findMany({
+      where,
+      orderBy: { openTime: 'asc' },
+      take: limit
+    });
+  }
+
+  /**
+   * Rebuild candles for a range: 1m from stored ticks, then Binance klines,
+   * then flat candles across remaining gaps, then every rollup interval.
+   * One backfill runs per symbol: the same request shares it, others are refused.
+   */
+  async backfill(
+    symbol: string,
+    from: Date,
+    to: Date,
+    options: { fetchExchange?: boolean; fillGaps?: boolean } = {}
+  ): Promise<BackfillResult> {
+    const { fetchExchange = true, fillGaps = true } = options;
+    const key = [from.getTime(), to.getTime(), fetchExchange, fillGaps].join(':');
+
+    const running = this.backfills.get(symbol);
+    if (running) {
+      if (running.key === key) return running.result;
+      throw new CandleBackfillError(`A ${symbol} candle backfill is already running`, 'BACKFILL_IN_PROGRESS');
+    }
+
+    const result = this.runBackfill(symbol, from, to, fetchExchange, fillGaps).finally(() => {
+      this.backfills.delete(symbol);
+    });
+    this.backfills.set(symbol, { key, result });
+    return result;
+  }
+
+  private async runBackfill(
+    symbol: string,
+    from: Date,
+    to: Date,
+    fetchExchange: boolean,
+    fillGaps: boolean
+  ): Promise<BackfillResult> {
+    console.log(`🕯️ Backfilling ${symbol} candles from ${from.toISOString()} to ${to.toISOString()}...`);
+
+    const fromTicks = await this.buildFromTicks(symbol, from, to);
+
+    let fromExchange = 0;
+    if (fetchExchange) {
+      try {
+        fromExchange = await this.fetchExchangeCandles(symbol, from, to);
+      } catch (error) {
+        console.warn('⚠️ Exchange kline backfill failed, continuing with local data:', error);
+      }
+    }
+
+    const gapFilled = fillGaps ? await this.fillGaps(symbol, from, to) : 0;
+    const rolledUp = await this.rollup(symbol, from, to);
+
+    console.log(`✅ Candle backfill done: ${fromTicks} from ticks, ${fromExchange} from exchange, ${gapFilled} gap-filled, ${rolledUp} rolled up`);
+    return { symbol, from, to, fromTicks, fromExchange, gapFilled, rolledUp };
+  }
+
+  /**
+   * Build 1m candles from BitcoinPrice ticks in a range
+   */
+  async buildFromTicks(symbol: string, from: Date, to: Date): Promise<number> {
+    // BitcoinPrice only stores BTC ticks
+    if (symbol !== DEFAULT_SYMBOL) {
+      return 0;
+    }
+
+    const ticks = await prisma.bitcoinPrice.findMany({
+      where: { timestamp: { gte: from, lte: to } },
+      orderBy: { timestamp: 'asc' },
+      select: { timestamp: true, price: true }
+    });
+
+    // The tick volume field is a rolling 24h total, so it can't be split into candles
+    const candles = aggregateCandles(
+      ticks.map((tick) => ({
+        openTime: tick.timestamp,
+        open: tick.price,
+        high: tick.price,
+        low: tick.price,
+        close: tick.price,
+        volume: 0,
+        tickCount: 1
+      })),
+      '1m'
+    );
+
+    return this.saveMinuteCandles(symbol, candles, 'ticks');
+  }
+
+  /**
+   * Recompute every higher-interval bucket touching [from, to], each from the interval below it
+   */
+  async rollup(symbol: string, from: Date, to: Date): Promise<number> {
+    let written = 0;
+
+    for (const interval of CANDLE_INTERVALS) {
+      const sourceInterval = ROLLUP_SOURCE[interval];
+      if (!sourceInterval) continue;
+
+      const start = getBucketStart(interval, from);
+      const end = getBucketEnd(interval, getBucketStart(interval, to));
+
+      const lower = await prisma.candle.findMany({
+        where: { symbol, interval: sourceInterval, openTime: { gte: start, lte: end } },
+        orderBy: { openTime: 'asc' }
+      });
+
+      const buckets = aggregateCandles(lower, interval);
+      if (buckets.length === 0) continue;
+
+      await prisma.$transaction(
+        buckets.map((bucket) => {
+          const data = this.toCandleData(symbol, interval, bucket, 'rollup');
+          return prisma.candle.upsert({
+            where: { symbol_interval_openTime: { symbol, interval, openTime: bucket.openTime } },
+            create: data,
+            update: data
+          });
+        })
+      );
+      written += buckets.length;
+    }
+
+    return written;
+  }
+
+  /**
+   * Insert flat candles (previous close, zero volume) for missing minutes between known 1m candles
+   */
+  async fillGaps(symbol: string, from: Date, to: Date): Promise<number> {
+    const existing = await prisma.candle.findMany({
+      where: { symbol, interval: '1m', openTime: { gte: getBucketStart('1m', from), lte: to } },
+      orderBy: { openTime: 'asc' },
+      select: { openTime: true, close: true }
+    });
+
+    const gaps: OHLCV[] = [];
+    for (let i = 1; i < existing.length; i++) {
+      const previous = existing[i - 1];
+      for (
+        let time = previous.openTime.getTime() + INTERVAL_MS['1m'];
+        time < existing[i].openTime.getTime();
+        time += INTERVAL_MS['1m']
+      ) {
+        gaps.push({
+          openTime: new Date(time),
+          open: previous.close,
+          high: previous.close,
+          low: previous.close,
+          close: previous.close,
+          volume: 0,
+          tickCount: 0
+        });
+      }
+    }
+
+    return this.saveMinuteCandles(symbol, gaps, 'gap_fill');
+  }
+
+  /**
+   * Fetch 1m klines for a range from the Binance REST API
+   */
+  private async fetchExchangeCandles(symbol: string, from: Date, to: Date): Promise<number> {
+    if (!this.restEndpoint) {
+      return 0;
+    }
+
+    let saved = 0;
+    let startTime = getBucketStart('1m', from).getTime();
+
+    while (startTime <= to.getTime()) {
+      const params = new URLSearchParams({
+        symbol: `${symbol.toUpperCase()}USDT`,
+        interval: '1m',
+        startTime: String(startTime),
+        endTime: String(to.getTime()),
+        limit: String(EXCHANGE_PAGE_SIZE)
+      });
+      const url = `${this.restEndpoint}/api/v3/klines?${params}`;
+      const response = await fetch(url, { signal: AbortSignal.timeout(10000) });
+      if (!response.ok) {
+        throw new Error(`Binance klines request failed with HTTP ${response.status}`);
+      }
+
+      // [openTime, open, high, low, close, volume, closeTime, quoteVolume, trades, ...]
+      const rows: Array<[number, string, string, string, string, string, number, string, number]> = await response.json();
+      if (rows.length === 0) break;
+
+      // Skip the minute that is still open
+      const closed = rows.filter((row) => row[6] < Date.now());
+      saved += await this.saveMinuteCandles(
+        symbol,
+        closed.map((row) => ({
+          openTime: new Date(row[0]),
+          open: parseFloat(row[1]),
+          high: parseFloat(row[2]),
+          low: parseFloat(row[3]),
+          close: parseFloat(row[4]),
+          volume: parseFloat(row[5]),
+          tickCount: row[8]
+        })),
+        'binance'
+      );
+
+      if (rows.length < EXCHANGE_PAGE_SIZE) break;
+      startTime = rows[rows.length - 1][0] + INTERVAL_MS['1m'];
+    }
+
+    return saved;
+  }
+
+  /**
+   * Write 1m candles, leaving candles from a higher-priority source untouched
+   */
+  private async saveMinuteCandles(symbol: string, candles: OHLCV[], source: CandleSource): Promise<number> {
+    const replaceable = (Object.keys(SOURCE_PRIORITY) as CandleSource[]).filter(
+      (other) => SOURCE_PRIORITY[other] <= SOURCE_PRIORITY[source]
+    );
+
+    let saved = 0;
+    for (const candle of candles) {
+      const data = this.toCandleData(symbol, '1m', candle, source);
+      const { count } = await prisma.candle.updateMany({
+        where: { symbol, interval: '1m', openTime: candle.openTime, source: { in: replaceable } },
+        data
+      });
+
+      if (count > 0) {
+        saved++;
+        continue;
+      }
+
+      try {
+        await prisma.candle.create({ data });
+        saved++;
+      } catch (error) {
+        // Already stored by a higher-priority source
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+          throw error;
+        }
+      }
+    }
+
+    return saved;
+  }
+
+  private toCandleData(
+    symbol: string,
+    interval: CandleInterval,
+    candle: OHLCV,
+    source: CandleSource
+  ): Prisma.CandleCreateInput {
+    return {
+      symbol,
+      interval,
+      openTime: candle.openTime,
+      closeTime: getBucketEnd(interval, candle.openTime),
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume,
+      tickCount: candle.tickCount,
+      source
+    };
+  }
+}
+
+// Export singleton instance
+export const candleService = new CandleService();
@@ -4,6 +4,8 @@ import { BitcoinData, TechnicalIndicators, MarketAnalysis } from '@/types/game';
 import { bitcoinStorage } from './bitcoin-storage';
 import { ChromaClient } from 'chromadb';
 import { COLLECTION_NAMES } from '@/lib/database/schemas';
+import { indicatorSeries } from '@/lib/indicators/indicator-engine';
+import { BollingerBands, EMA, MACD, RSI, SMA } from '@/lib/indicators/streaming-indicators';
 
 export interface ChartDataPoint {
   x: number; // timestamp
@@ -508,128 +510,48 @@ export class ChartService {
     }
   }
 
-  private calculateSMA(prices: ChartDataPoint[], period: number): ChartDataPoint[] {
+  /**
+   * Chart points for an indicator's values, skipping its warm-up
+   */
+  private toPoints<T>(prices: ChartDataPoint[], values: Array<T | null>, pick: (value: T) => number | null): ChartDataPoint[] {
     const result: ChartDataPoint[] = [];
-    
-    for (let i = period - 1; i < prices.length; i++) {
-      const slice = prices.slice(i - period + 1, i + 1);
-      const average = slice.reduce((sum, point) => sum + point.y, 0) / period;
-      
-      result.push({
-        x: prices[i].x,
-        y: average
-      });
-    }
-    
+    values.forEach((value, i) => {
+      const y = value === null ? null : pick(value);
+      if (y !== null) result.push({ x: prices[i].x, y });
+    });
     return result;
   }
 
+  private calculateSMA(prices: ChartDataPoint[], period: number): ChartDataPoint[] {
+    return this.toPoints(prices, indicatorSeries(new SMA(period), prices.map(p => p.y)), value => value);
+  }
+
   private calculateEMA(prices: ChartDataPoint[], period: number): ChartDataPoint[] {
-    const result: ChartDataPoint[] = [];
-    const multiplier = 2 / (period + 1);
-    
-    // Start with SMA for first value
-    if (prices.length >= period) {
-      const firstSMA = prices.slice(0, period).reduce((sum, point) => sum + point.y, 0) / period;
-      result.push({
-        x: prices[period - 1].x,
-        y: firstSMA
-      });
-      
-      // Calculate EMA for remaining values
-      for (let i = period; i < prices.length; i++) {
-        const ema = (prices[i].y * multiplier) + (result[result.length - 1].y * (1 - multiplier));
-        result.push({
-          x: prices[i].x,
-          y: ema
-        });
-      }
-    }
-    
-    return result;
+    return this.toPoints(prices, indicatorSeries(new EMA(period), prices.map(p => p.y)), value => value);
   }
 
   private calculateRSI(prices: ChartDataPoint[], period: number = 14): ChartDataPoint[] {
-    const result: ChartDataPoint[] = [];
-    const changes: number[] = [];
-    
-    // Calculate price changes
-    for (let i = 1; i < prices.length; i++) {
-      changes.push(prices[i].y - prices[i - 1].y);
-    }
-    
-    for (let i = period; i <= changes.length; i++) {
-      const periodChanges = changes.slice(i - period, i);
-      const gains = periodChanges.filter(change => change > 0);
-      const losses = periodChanges.filter(change => change < 0).map(Math.abs);
-      
-      const avgGain = gains.reduce((sum, gain) => sum + gain, 0) / period;
-      const avgLoss = losses.reduce((sum, loss) => sum + loss, 0) / period;
-      
-      const rs = avgLoss === 0 ? 100 : avgGain / avgLoss;
-      const rsi = 100 - (100 / (1 + rs));
-      
-      result.push({
-        x: prices[i].x,
-        y: rsi
-      });
-    }
-    
-    return result;
+    return this.toPoints(prices, indicatorSeries(new RSI(period), prices.map(p => p.y)), value => value);
   }
 
   private calculateMACD(prices: ChartDataPoint[]) {
-    const ema12 = this.calculateEMA(prices, 12);
-    const ema26 = this.calculateEMA(prices, 26);
-    
-    const macd: ChartDataPoint[] = [];
-    const minLength = Math.min(ema12.length, ema26.length);
-    
-    for (let i = 0; i < minLength; i++) {
-      macd.push({
-        x: ema12[i].x,
-        y: ema12[i].y - ema26[i].y
-      });
-    }
-    
-    const signal = this.calculateEMA(macd, 9);
-    const histogram: ChartDataPoint[] = [];
+    const values = indicatorSeries(new MACD(12, 26, 9), prices.map(p => p.y));
     
-    for (let i = 0; i < Math.min(macd.length, signal.length); i++) {
-      histogram.push({
-        x: macd[i].x,
-        y: macd[i].y - signal[i].y
-      });
-    }
-    
-    return { macd, signal, histogram };
+    return {
+      macd: this.toPoints(prices, values, value => value.macd),
+      signal: this.toPoints(prices, values, value => value.signal),
+      histogram: this.toPoints(prices, values, value => value.histogram)
+    };
   }
 
   private calculateBollingerBands(prices: ChartDataPoint[], period: number, multiplier: number) {
-    const sma = this.calculateSMA(prices, period);
-    const upper: ChartDataPoint[] = [];
-    const middle: ChartDataPoint[] = [];
-    const lower: ChartDataPoint[] = [];
-    
-    for (let i = 0; i < sma.length; i++) {
-      const priceSlice = prices.slice(i, i + period);
-      const variance = priceSlice.reduce((sum, point) => {
-        return sum + Math.pow(point.y - sma[i].y, 2);
-      }, 0) / period;
-      const stdDev = Math.sqrt(variance);
-      
-      middle.push(sma[i]);
-      upper.push({
-        x: sma[i].x,
-        y: sma[i].y + (stdDev * multiplier)
-      });
-      lower.push({
-        x: sma[i].x,
-        y: sma[i].y - (stdDev * multiplier)
-      });
-    }
+    const values = indicatorSeries(new BollingerBands(period, multiplier), prices.map(p => p.y));
     
-    return { upper, middle, lower };
+    return {
+      upper: this.toPoints(prices, values, value => value.upper),
+      middle: this.toPoints(prices, values, value => value.middle),
+      lower: this.toPoints(prices, values, value => value.lower)
+    };
   }
 
   private getIndicatorColor(seed: number): string {
@@ -0,0 +1,408 @@
+// Chat command service: applies commands proposed in chat once the user confirms them,
+// and reverts them on undo. Every step is written to the conversation, so the chat
+// doubles as an audit trail of the agent's configuration.
+
+import { prisma } from '../database/prisma-client';
+import { patternPerformanceService } from './pattern-performance-service';
+import { ChatError, serializeChatMessage } from './agent-chat-service';
+import type { ChatMessage, Prisma } from '@prisma/client';
+import type {
+  ChatCommandAction,
+  ChatCommandChange,
+  ChatCommandExecution,
+  ChatCommandPlan,
+  ChatCommandResult
+} from '@/types/chat';
+
+const PATTERN_FIELDS = ['name', 'priority', 'priorConfidence', 'confidenceRate', 'rule', 'direction', 'isActive'] as const;
+const WATCHLIST_FIELDS = ['symbol', 'category', 'alertPrice', 'alertType', 'isActive'] as const;
+
+interface CommandRecord {
+  message: ChatMessage;
+  metadata: Record<string, unknown>;
+  execution: ChatCommandExecution;
+}
+
+function snapshot<T extends object>(record: T, fields: readonly (keyof T)[]): Record<string, unknown> {
+  return Object.fromEntries(fields.map((field) => [field, record[field]]));
+}
+
+function parseStrategies(strategy: string): string[] {
+  try {
+    const parsed = JSON.parse(strategy);
+    return Array.isArray(parsed) ? parsed : [strategy];
+  } catch {
+    return [strategy];
+  }
+}
+
+function isRecordNotFound(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === 'P2025';
+}
+
+/**
+ * Agent reply text and metadata for an applied command; the metadata types are the
+ * ones MessageBubble already renders
+ */
+function describeResult(plan: ChatCommandPlan): { content: string; metadata: Record<string, unknown> } {
+  switch (plan.kind) {
+    case 'pattern.create':
+      return {
+        content: `새 패턴 '${plan.pattern.name}'을(를) 추가했습니다.`,
+        metadata: { type: 'pattern_added', pattern: { name: plan.pattern.name, description: plan.pattern.description } }
+      };
+    case 'pattern.update':
+      return {
+        content: `패턴 '${plan.patternName}'의 설정을 변경했습니다.`,
+        metadata: { type: 'pattern_update', patternName: plan.patternName, action: '변경' }
+      };
+    case 'pattern.remove':
+      return {
+        content: `패턴 '${plan.patternName}'을(를) 비활성화했습니다.`,
+        metadata: { type: 'pattern_update', patternName: plan.patternName, action: '비활성화' }
+      };
+    case 'watchlist.add':
+    case 'watchlist.update':
+    case 'watchlist.remove': {
+      const symbol = plan.items.map((item) => item.symbol).join(', ');
+      const action = { 'watchlist.add': '추가', 'watchlist.update': '알림 변경', 'watchlist.remove': '제외' }[plan.kind];
+      return {
+        content: `관심종목 ${symbol}을(를) ${action}했습니다.`,
+        metadata: { type: 'watchlist_update', symbol, action }
+      };
+    }
+    case 'strategy.add':
+    case 'strategy.remove':
+      return {
+        content: plan.kind === 'strategy.add' ? '투자 전략을 추가했습니다.' : '투자 전략을 제거했습니다.',
+        metadata: {
+          type: 'strategy_update',
+          changes: plan.strategies.map((strategy) => `${plan.kind === 'strategy.add' ? '추가' : '제거'}: ${strategy}`)
+        }
+      };
+  }
+}
+
+export class ChatCommandService {
+
+  /**
+   * Run a confirm, cancel or undo on the command proposed in an agent message of the
+   * user's conversation
+   */
+  async perform(agentId: string, userId: string, messageId: string, action: ChatCommandAction): Promise<ChatCommandResult> {
+    switch (action) {
+      case 'confirm':
+        return this.confirm(agentId, userId, messageId);
+      case 'cancel':
+        return this.cancel(agentId, userId, messageId);
+      case 'undo':
+        return this.undo(agentId, userId, messageId);
+    }
+  }
+
+  /**
+   * Apply a pending command and record the changed rows for undo
+   */
+  async confirm(agentId: string, userId: string, messageId: string): Promise<ChatCommandResult> {
+    return prisma.$transaction(async (tx) => {
+      const record = await this.load(tx, agentId, userId, messageId, 'pending');
+      const { plan } = record.execution;
+
+      let changes: ChatCommandChange[];
+      try {
+        changes = await this.apply(tx, agentId, plan);
+      } catch (error) {
+        if (isRecordNotFound(error)) {
+          throw new ChatError('The item this command changes no longer exists', 'COMMAND_TARGET_MISSING', 409);
+        }
+        throw error;
+      }
+
+      const command = await this.transition(tx, record, {
+        ...record.execution,
+        status: 'executed',
+        changes,
+        executedAt: new Date().toISOString()
+      });
+
+      const agent = await tx.agent.findUniqueOrThrow({ where: { id: agentId } });
+      const result = describeResult(plan);
+      const message = await tx.chatMessage.create({
+        data: {
+          agentId,
+          userId: record.message.userId,
+          type: 'agent',
+          content: `${agent.name}: ${result.content}`,
+          metadata: JSON.stringify({
+            ...result.metadata,
+            audit: { commandMessageId: messageId, kind: plan.kind, action: 'confirm', changes }
+          })
+        }
+      });
+
+      console.log(`🛠️ Chat command ${plan.kind} applied for agent ${agentId} (${changes.length} changes)`);
+      return { command, message: serializeChatMessage(message) };
+    });
+  }
+
+  /**
+   * Drop a pending command without applying it
+   */
+  async cancel(agentId: string, userId: string, messageId: string): Promise<ChatCommandResult> {
+    return prisma.$transaction(async (tx) => {
+      const record = await this.load(tx, agentId, userId, messageId, 'pending');
+
+      const command = await this.transition(tx, record, {
+        ...record.execution,
+        status: 'cancelled',
+        cancelledAt: new Date().toISOString()
+      });
+
+      const message = await tx.chatMessage.create({
+        data: {
+          agentId,
+          userId: record.message.userId,
+          type: 'system',
+          content: `취소했습니다: ${record.execution.summary}`,
+          metadata: JSON.stringify({
+            type: 'command_cancelled',
+            audit: { commandMessageId: messageId, kind: record.execution.plan.kind, action: 'cancel' }
+          })
+        }
+      });
+
+      return { command, message: serializeChatMessage(message) };
+    });
+  }
+
+  /**
+   * Restore every row an executed command changed to its state before the command
+   */
+  async undo(agentId: string, userId: string, messageId: string): Promise<ChatCommandResult> {
+    return prisma.$transaction(async (tx) => {
+      const record = await this.load(tx, agentId, userId, messageId, 'executed');
+      const changes = record.execution.changes || [];
+
+      try {
+        await this.revert(tx, changes);
+      } catch (error) {
+        if (isRecordNotFound(error)) {
+          throw new ChatError('An item this command changed has since been deleted', 'COMMAND_TARGET_MISSING', 409);
+        }
+        throw error;
+      }
+
+      const command = await this.transition(tx, record, {
+        ...record.execution,
+        status: 'undone',
+        undoneAt: new Date().toISOString()
+      });
+
+      const message = await tx.chatMessage.create({
+        data: {
+          agentId,
+          userId: record.message.userId,
+          type: 'system',
+          content: `되돌렸습니다: ${record.execution.summary}`,
+          metadata: JSON.stringify({
+            type: 'command_undone',
+            audit: { commandMessageId: messageId, kind: record.execution.plan.kind, action: 'undo', changes }
+          })
+        }
+      });
+
+      console.log(`↩️ Chat command ${record.execution.plan.kind} undone for agent ${agentId}`);
+      return { command, message: serializeChatMessage(message) };
+    });
+  }
+
+  private async load(
+    client: Prisma.TransactionClient,
+    agentId: string,
+    userId: string,
+    messageId: string,
+    expectedStatus: ChatCommandExecution['status']
+  ): Promise<CommandRecord> {
+    // Commands proposed to other users are not found
+    const message = await client.chatMessage.findFirst({ where: { id: messageId, agentId, userId } });
+
+    let metadata: Record<string, unknown> = {};
+    try {
+      metadata = message ? JSON.parse(message.metadata) : {};
+    } catch {
+      // Not a command message
+    }
+
+    const execution = metadata.execution as ChatCommandExecution | undefined;
+    if (!message || !execution) {
+      throw new ChatError('Chat command not found', 'COMMAND_NOT_FOUND', 404);
+    }
+
+    if (execution.status !== expectedStatus) {
+      throw new ChatError(`Chat command is ${execution.status}, expected ${expectedStatus}`, 'INVALID_COMMAND_STATE', 409);
+    }
+
+    return { message, metadata, execution };
+  }
+
+  /**
+   * Store the new execution state, failing if another request changed the message first
+   */
+  private async transition(
+    client: Prisma.TransactionClient,
+    record: CommandRecord,
+    execution: ChatCommandExecution
+  ) {
+    const { count } = await client.chatMessage.updateMany({
+      where: { id: record.message.id, metadata: record.message.metadata },
+      data: { metadata: JSON.stringify({ ...record.metadata, execution }) }
+    });
+
+    if (count === 0) {
+      throw new ChatError('Chat command was changed by another request', 'INVALID_COMMAND_STATE', 409);
+    }
+
+    const updated = await client.chatMessage.findUniqueOrThrow({ where: { id: record.message.id } });
+    return serializeChatMessage(updated);
+  }
+
+  private async apply(client: Prisma.TransactionClient, agentId: string, plan: ChatCommandPlan): Promise<ChatCommandChange[]> {
+    const changes: ChatCommandChange[] = [];
+
+    switch (plan.kind) {
+      case 'pattern.create': {
+        const pattern = await client.pattern.create({
+          data: {
+            agentId,
+            name: plan.pattern.name,
+            description: plan.pattern.description,
+            priority: plan.pattern.priority,
+            confidenceRate: plan.pattern.confidenceRate,
+            priorConfidence: plan.pattern.confidenceRate,
+            examples: JSON.stringify(plan.pattern.examples),
+            rule: plan.pattern.rule ?? null,
+            direction: plan.pattern.direction
+          }
+        });
+        changes.push({ model: 'pattern', id: pattern.id, operation: 'create', before: null, after: snapshot(pattern, PATTERN_FIELDS) });
+        break;
+      }
+
+      case 'pattern.update':
+      case 'pattern.remove': {
+        const before = await client.pattern.findFirstOrThrow({ where: { id: plan.patternId, agentId } });
+        await client.pattern.update({
+          where: { id: before.id },
+          data: plan.kind === 'pattern.remove' ? { isActive: false } : plan.changes
+        });
+        if (plan.kind === 'pattern.update' && plan.changes.priorConfidence !== undefined) {
+          await patternPerformanceService.recalculate(before.id, client);
+        }
+        const after = await client.pattern.findUniqueOrThrow({ where: { id: before.id } });
+        changes.push({
+          model: 'pattern',
+          id: before.id,
+          operation: 'update',
+          before: snapshot(before, PATTERN_FIELDS),
+          after: snapshot(after, PATTERN_FIELDS)
+        });
+        break;
+      }
+
+      case 'watchlist.add':
+        for (const { itemId, ...item } of plan.items) {
+          if (itemId) {
+            const before = await client.agentWatchlistItem.findFirstOrThrow({ where: { id: itemId, agentId } });
+            const after = await client.agentWatchlistItem.update({
+              where: { id: itemId },
+              data: { isActive: true, alertPrice: item.alertPrice, alertType: item.alertType, lastReviewedAt: new Date() }
+            });
+            changes.push({
+              model: 'watchlistItem',
+              id: itemId,
+              operation: 'update',
+              before: snapshot(before, WATCHLIST_FIELDS),
+              after: snapshot(after, WATCHLIST_FIELDS)
+            });
+          } else {
+            const created = await client.agentWatchlistItem.create({ data: { agentId, ...item } });
+            changes.push({ model: 'watchlistItem', id: created.id, operation: 'create', before: null, after: snapshot(created, WATCHLIST_FIELDS) });
+          }
+        }
+        break;
+
+      case 'watchlist.update':
+      case 'watchlist.remove':
+        for (const item of plan.items) {
+          const before = await client.agentWatchlistItem.findFirstOrThrow({ where: { id: item.itemId, agentId } });
+          const after = await client.agentWatchlistItem.update({
+            where: { id: item.itemId },
+            data: 'alertPrice' in item
+              ? { alertPrice: item.alertPrice, alertType: item.alertType }
+              : { isActive: false }
+          });
+          changes.push({
+            model: 'watchlistItem',
+            id: item.itemId,
+            operation: 'update',
+            before: snapshot(before, WATCHLIST_FIELDS),
+            after: snapshot(after, WATCHLIST_FIELDS)
+          });
+        }
+        break;
+
+      case 'strategy.add':
+      case 'strategy.remove': {
+        const agent = await client.agent.findUniqueOrThrow({ where: { id: agentId } });
+        const current = parseStrategies(agent.strategy);
+        const strategies = plan.kind === 'strategy.add'
+          ? [...current, ...plan.strategies.filter((strategy) => !current.includes(strategy))]
+          : current.filter((strategy) => !plan.strategies.includes(strategy));
+
+        const updated = await client.agent.update({
+          where: { id: agentId },
+          data: { strategy: JSON.stringify(strategies) }
+        });
+        changes.push({
+          model: 'agent',
+          id: agentId,
+          operation: 'update',
+          before: { strategy: agent.strategy },
+          after: { strategy: updated.strategy }
+        });
+        break;
+      }
+    }
+
+    return changes;
+  }
+
+  private async revert(client: Prisma.TransactionClient, changes: ChatCommandChange[]): Promise<void> {
+    for (const change of [...changes].reverse()) {
+      if (change.operation === 'create') {
+        if (change.model === 'pattern') {
+          await client.pattern.delete({ where: { id: change.id } });
+        } else if (change.model === 'watchlistItem') {
+          await client.agentWatchlistItem.delete({ where: { id: change.id } });
+        }
+        continue;
+      }
+
+      const data = change.before!;
+      switch (change.model) {
+        case 'pattern':
+          await client.pattern.update({ where: { id: change.id }, data });
+          break;
+        case 'watchlistItem':
+          await client.agentWatchlistItem.update({ where: { id: change.id }, data });
+          break;
+        case 'agent':
+          await client.agent.update({ where: { id: change.id }, data });
+          break;
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const chatCommandService = new ChatCommandService();
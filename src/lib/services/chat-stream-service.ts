@@ -0,0 +1,151 @@
+// Chat stream service: runs agent replies independently of the HTTP connection and
+// buffers their events so clients can cancel them or resume after a reconnect.
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { agentChatService, ChatError } from './agent-chat-service';
+import { TERMINAL_CHAT_EVENTS, type ChatReplyEvent, type ChatStreamEvent, type SerializedChatMessage } from '@/types/chat';
+
+const RESUME_TTL_MS = 5 * 60 * 1000; // Finished streams stay resumable this long
+
+interface ChatStream {
+  id: string;
+  agentId: string;
+  userId: string; // Only the user who sent the message can follow or cancel the reply
+  events: ChatStreamEvent[];
+  finished: boolean;
+  controller: AbortController;
+  emitter: EventEmitter;
+}
+
+export class ChatStreamService {
+  private streams = new Map<string, ChatStream>();
+
+  /**
+   * Store the user's message and start generating the reply in the background
+   */
+  async start(
+    agentId: string,
+    userId: string,
+    content: string,
+    metadata?: string
+  ): Promise<{ streamId: string; userMessage: SerializedChatMessage }> {
+    const turn = await agentChatService.createUserMessage(agentId, userId, content, metadata);
+
+    const stream: ChatStream = {
+      id: randomUUID(),
+      agentId,
+      userId,
+      events: [],
+      finished: false,
+      controller: new AbortController(),
+      emitter: new EventEmitter()
+    };
+    stream.emitter.setMaxListeners(0);
+    this.streams.set(stream.id, stream);
+
+    this.push(stream, { type: 'start', streamId: stream.id, userMessage: turn.userMessage });
+    void this.run(stream, agentChatService.generateReply(turn, stream.controller.signal));
+
+    return { streamId: stream.id, userMessage: turn.userMessage };
+  }
+
+  /**
+   * Events after lastEventId, then live events until the reply finishes or the signal aborts
+   */
+  async *subscribe(
+    streamId: string,
+    agentId: string,
+    userId: string,
+    lastEventId: number = 0,
+    signal?: AbortSignal
+  ): AsyncGenerator<ChatStreamEvent> {
+    const stream = this.getStream(streamId, agentId, userId);
+    const queue: ChatStreamEvent[] = [];
+    let wake: (() => void) | null = null;
+
+    const onEvent = (event: ChatStreamEvent) => {
+      queue.push(event);
+      wake?.();
+    };
+    const onAbort = () => wake?.();
+
+    // Subscribe before replaying so nothing is missed in between
+    stream.emitter.on('event', onEvent);
+    signal?.addEventListener('abort', onAbort);
+
+    try {
+      let cursor = lastEventId;
+      for (const event of [...stream.events]) {
+        if (event.id <= cursor) continue;
+        cursor = event.id;
+        yield event;
+        if (TERMINAL_CHAT_EVENTS.includes(event.type)) return;
+      }
+      if (stream.finished) return;
+
+      while (!signal?.aborted) {
+        if (queue.length === 0) {
+          await new Promise<void>((resolve) => (wake = resolve));
+          wake = null;
+          continue;
+        }
+
+        const event = queue.shift()!;
+        if (event.id <= cursor) continue;
+        cursor = event.id;
+        yield event;
+
+        if (TERMINAL_CHAT_EVENTS.includes(event.type)) return;
+      }
+    } finally {
+      stream.emitter.off('event', onEvent);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Stop generating; the stream ends with a 'cancelled' event carrying any partial reply
+   */
+  cancel(streamId: string, agentId: string, userId: string): boolean {
+    const stream = this.getStream(streamId, agentId, userId);
+    if (stream.finished) return false;
+
+    stream.controller.abort();
+    return true;
+  }
+
+  /**
+   * Another user's stream is reported as not found rather than forbidden
+   */
+  private getStream(streamId: string, agentId: string, userId: string): ChatStream {
+    const stream = this.streams.get(streamId);
+    if (!stream || stream.agentId !== agentId || stream.userId !== userId) {
+      throw new ChatError('Chat stream not found or expired', 'STREAM_NOT_FOUND', 404);
+    }
+    return stream;
+  }
+
+  private async run(stream: ChatStream, reply: AsyncGenerator<ChatReplyEvent>): Promise<void> {
+    try {
+      for await (const event of reply) {
+        this.push(stream, event);
+      }
+    } catch (error) {
+      console.error(`❌ Chat stream ${stream.id} failed:`, error);
+      this.push(stream, { type: 'error', code: 'REPLY_FAILED', message: 'Failed to generate a reply' });
+    } finally {
+      stream.finished = true;
+      setTimeout(() => this.streams.delete(stream.id), RESUME_TTL_MS).unref?.();
+    }
+  }
+
+  private push(stream: ChatStream, event: ChatReplyEvent | Omit<Extract<ChatStreamEvent, { type: 'start' }>, 'id'>): void {
+    const numbered = { ...event, id: stream.events.length + 1 } as ChatStreamEvent;
+    stream.events.push(numbered);
+    stream.emitter.emit('event', numbered);
+  }
+}
+
+// Export singleton instance
+export const chatStreamService = new ChatStreamService();
@@ -2,6 +2,11 @@
 import { PrismaClient } from '@prisma/client';
 import { bitcoinPriceService } from './bitcoin-price-service';
 import { AnalysisReport } from './ai-agents';
+import { llmService } from './llm-service';
+import { NewsContextService } from './news-context';
+import { generatePrompt, generateMarketContext } from '@/lib/prompts/prompt-templates';
+import { averageMomentum, trailingMean } from '@/lib/indicators/indicator-engine';
+import type { NewsFeatures } from '@/types/news';
 
 const prisma = new PrismaClient();
 
@@ -14,30 +19,59 @@ interface AgentData {
   description: string;
 }
 
+export interface MarketWindow {
+  prices: number[]; // Oldest first; the last price is the current price
+  portfolio: {
+    balance: number;
+    profitPercentage: number;
+  };
+  news?: NewsFeatures | null; // Recent news signals; left out when replaying history
+}
+
+export interface MarketAnalysis {
+  recommendation: 'buy' | 'sell' | 'hold';
+  confidence: number;
+  analysis: string;
+  strategy_focus: string;
+  strategies: string[];
+  priceChange24h: number;
+  indicators: ReturnType<DynamicAgentService['calculateTechnicalIndicators']>;
+  newsScore?: number; // Personality-weighted news signal (-1 to 1) applied to the decision
+}
+
+// How strongly each personality weighs news sentiment, its momentum and regulatory risk.
+// Contrarians lean against crowded news, so their weights are negative.
+const NEWS_WEIGHTS: Record<string, { sentiment: number; momentum: number; regulatoryRisk: number }> = {
+  conservative: { sentiment: 0.2, momentum: 0.1, regulatoryRisk: 1.0 },
+  aggressive: { sentiment: 0.5, momentum: 1.0, regulatoryRisk: 0.3 },
+  balanced: { sentiment: 0.5, momentum: 0.4, regulatoryRisk: 0.6 },
+  quantitative: { sentiment: 0.3, momentum: 0.3, regulatoryRisk: 0.4 },
+  contrarian: { sentiment: -0.6, momentum: -0.5, regulatoryRisk: -0.3 }
+};
+const NEWS_CONFIDENCE_SWING = 20; // Confidence points at a news score of ±1
+const NEWS_ACTION_THRESHOLD = 0.6; // News score that turns a hold into a trade
+
+// Narrative report sections a configured LLM may rewrite; recommendation and numbers stay rule-based
+const LLM_REPORT_SECTIONS = [
+  'executive_summary',
+  'market_analysis',
+  'technical_analysis',
+  'risk_assessment',
+  'strategy_rationale',
+  'next_steps'
+] as const;
+
 export class DynamicAgentService {
-  private calculateTechnicalIndicators(prices: number[]) {
-    const sma5 = this.calculateSMA(prices.slice(-5));
-    const sma10 = this.calculateSMA(prices.slice(-10));
-    const momentum = this.calculateMomentum(prices);
+  calculateTechnicalIndicators(prices: number[]) {
+    const sma5 = trailingMean(prices, 5);
+    const sma10 = trailingMean(prices, 10);
+    const momentum = averageMomentum(prices);
     const support = Math.min(...prices.slice(-10));
     const resistance = Math.max(...prices.slice(-10));
 
     return { sma5, sma10, momentum, support, resistance };
   }
 
-  private calculateSMA(prices: number[]): number {
-    return prices.reduce((sum, price) => sum + price, 0) / prices.length;
-  }
-
-  private calculateMomentum(prices: number[]): number {
-    if (prices.length < 6) return 0;
-    const recent = prices.slice(-3);
-    const previous = prices.slice(-6, -3);
-    const recentAvg = this.calculateSMA(recent);
-    const previousAvg = this.calculateSMA(previous);
-    return ((recentAvg - previousAvg) / previousAvg) * 100;
-  }
-
   private parseStrategies(strategyJson: string): string[] {
     try {
       const strategies = JSON.parse(strategyJson);
@@ -235,10 +269,81 @@ export class DynamicAgentService {
     return (currentPrice - mean) / stdDev;
   }
 
+  /**
+   * Apply an agent's personality rules to a window of prices.
+   * Used for live reports and for replaying history in backtests.
+   */
+  analyzeMarket(agent: Pick<AgentData, 'personality' | 'strategy'>, market: MarketWindow): MarketAnalysis {
+    const { prices, portfolio } = market;
+    const currentPrice = { price: prices[prices.length - 1] };
+    const priceChange24h = ((currentPrice.price - prices[0]) / prices[0]) * 100;
+    const indicators = this.calculateTechnicalIndicators(prices);
+    const strategies = this.parseStrategies(agent.strategy);
+
+    const personalityAnalysis = this.generatePersonalityBasedAnalysis(agent.personality, strategies, {
+      currentPrice,
+      priceChange24h,
+      indicators,
+      portfolio,
+      prices
+    });
+
+    if (!market.news) {
+      return { ...personalityAnalysis, strategies, priceChange24h, indicators };
+    }
+
+    const withNews = this.applyNewsFeatures(this.mapPersonalityToType(agent.personality), personalityAnalysis, market.news);
+    return { ...personalityAnalysis, ...withNews, strategies, priceChange24h, indicators };
+  }
+
+  /**
+   * Weigh news features by personality: a score that agrees with the price-based call
+   * raises confidence, one that disagrees lowers it, and a strong score can turn a hold
+   * into a trade. Conservative agents never buy into high regulatory risk.
+   */
+  private applyNewsFeatures(
+    personalityType: string,
+    base: Pick<MarketAnalysis, 'recommendation' | 'confidence' | 'analysis'>,
+    news: NewsFeatures
+  ): Pick<MarketAnalysis, 'recommendation' | 'confidence' | 'analysis' | 'newsScore'> {
+    const weights = NEWS_WEIGHTS[personalityType] ?? NEWS_WEIGHTS.balanced;
+    const raw =
+      weights.sentiment * news.sentiment +
+      weights.momentum * news.sentimentMomentum -
+      weights.regulatoryRisk * news.regulatoryRiskScore;
+    const newsScore = Math.round(Math.max(-1, Math.min(1, raw)) * 100) / 100;
+
+    let { recommendation, confidence } = base;
+    if (recommendation === 'buy') {
+      confidence += newsScore * NEWS_CONFIDENCE_SWING;
+    } else if (recommendation === 'sell') {
+      confidence -= newsScore * NEWS_CONFIDENCE_SWING;
+    } else if (Math.abs(newsScore) >= NEWS_ACTION_THRESHOLD) {
+      recommendation = newsScore > 0 ? 'buy' : 'sell';
+      confidence = 55 + Math.abs(newsScore) * 15;
+    }
+
+    if (personalityType === 'conservative' && news.regulatoryRisk && recommendation === 'buy') {
+      recommendation = 'hold';
+      confidence = 60;
+    }
+
+    const analysis = `${base.analysis} 뉴스 반영: 감정 ${news.sentiment.toFixed(2)}, 모멘텀 ${news.sentimentMomentum >= 0 ? '+' : ''}${news.sentimentMomentum.toFixed(2)}, ` +
+      `규제 리스크 ${news.regulatoryRisk ? '높음' : '낮음'} → 성향 가중 뉴스 점수 ${newsScore.toFixed(2)}.`;
+
+    return {
+      recommendation,
+      confidence: Math.round(Math.max(30, Math.min(95, confidence))),
+      analysis,
+      newsScore
+    };
+  }
+
   async generateReport(agentType: string): Promise<AnalysisReport> {
     // Get agent data from database
     const agent = await prisma.agent.findUnique({
-      where: { type: agentType }
+      where: { type: agentType },
+      include: { patterns: { where: { isActive: true }, orderBy: { priority: 'asc' } } }
     });
 
     if (!agent) {
@@ -248,33 +353,20 @@ export class DynamicAgentService {
     // Get market data
     const currentPrice = await bitcoinPriceService.getLatestPrice();
     const priceHistory = await bitcoinPriceService.getPriceHistory(24);
-    const portfolio = await bitcoinPriceService.getDemoPortfolio();
+    const portfolio = bitcoinPriceService.getReferencePortfolio();
 
     if (!currentPrice || !portfolio) {
       throw new Error('시장 데이터를 가져올 수 없습니다');
     }
 
-    const prices = priceHistory.map(h => h.price);
-    const priceChange24h = ((currentPrice.price - prices[0]) / prices[0]) * 100;
-    const indicators = this.calculateTechnicalIndicators(prices);
-    const strategies = this.parseStrategies(agent.strategy);
-
-    const analysisData = {
-      currentPrice,
-      priceChange24h,
-      indicators,
-      portfolio,
-      prices
-    };
-
-    const personalityAnalysis = this.generatePersonalityBasedAnalysis(
-      agent.personality,
-      strategies,
-      analysisData
-    );
+    // Price history is ascending and already ends with the latest stored price
+    const prices = priceHistory.length > 0 ? priceHistory.map(h => h.price) : [currentPrice.price];
+    const news = await NewsContextService.getInstance().getNewsFeatures();
+    const personalityAnalysis = this.analyzeMarket(agent, { prices, portfolio, news });
+    const { priceChange24h, indicators, strategies } = personalityAnalysis;
 
     // Generate comprehensive report
-    return {
+    const report: AnalysisReport = {
       id: `report_${Date.now()}_${agentType}`,
       agentName: agent.name,
       agentType: agent.type,
@@ -297,6 +389,60 @@ export class DynamicAgentService {
         resistance: indicators.resistance
       }
     };
+
+    if (!llmService.isConfigured()) {
+      return report;
+    }
+
+    const systemPrompt = generatePrompt(
+      { ...agent, strategy: strategies },
+      generateMarketContext(currentPrice.price, priceChange24h)
+    );
+    return this.writeReportWithLLM(systemPrompt, report);
+  }
+
+  /**
+   * Have the configured LLM rewrite the narrative sections of a rule-based report.
+   * Falls back to the rule-based text if the model fails or returns unusable output.
+   */
+  private async writeReportWithLLM(systemPrompt: string, report: AnalysisReport): Promise<AnalysisReport> {
+    const draft = Object.fromEntries(LLM_REPORT_SECTIONS.map((key) => [key, report[key]]));
+
+    try {
+      const response = await llmService.complete('report', {
+        messages: [
+          { role: 'system', content: systemPrompt },
+          {
+            role: 'user',
+            content: `다음은 규칙 기반 분석 결과입니다. 추천(${report.recommendation})과 신뢰도(${report.confidence}%)는 확정된 값이니 바꾸지 말고, 당신의 관점으로 각 섹션을 다시 작성하세요. ${LLM_REPORT_SECTIONS.join(', ')} 키를 가진 JSON 객체로만 답하세요.
+
+데이터: ${JSON.stringify(report.data_points)}
+초안: ${JSON.stringify(draft)}`
+          }
+        ],
+        responseFormat: { type: 'json', keys: [...LLM_REPORT_SECTIONS] },
+        maxTokens: 1500,
+        temperature: 0.4
+      });
+
+      const sections = JSON.parse(response.content);
+      const written = { ...report };
+      for (const key of LLM_REPORT_SECTIONS) {
+        if (typeof sections[key] === 'string' && sections[key].trim()) {
+          written[key] = sections[key].trim();
+        }
+      }
+
+      written.llm = {
+        provider: response.provider,
+        model: response.model,
+        totalTokens: response.usage.totalTokens
+      };
+      return written;
+    } catch (error) {
+      console.error(`❌ LLM report writing failed for ${report.agentName}, using rule-based text:`, error);
+      return report;
+    }
   }
 }
 
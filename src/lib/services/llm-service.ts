@@ -0,0 +1,163 @@
+// LLM service: picks the configured provider, applies request deadlines and
+// keeps per-feature token accounting for reports and chat.
+
+import { OpenAICompatibleProvider } from '../llm/openai-compatible-provider';
+import { StubLLMProvider } from '../llm/stub-provider';
+import { LLMError } from '../llm/llm-utils';
+import type {
+  LLMProvider,
+  LLMProviderConfig,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamChunk,
+  LLMUsageSummary
+} from '@/types/llm';
+
+export { LLMError } from '../llm/llm-utils';
+
+export type LLMProviderFactory = (config: LLMProviderConfig) => LLMProvider;
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+const PROVIDER_FACTORIES: Record<string, LLMProviderFactory> = {
+  openai: (config) => {
+    if (!config.apiKey && !config.baseUrl) {
+      throw new LLMError('LLM_API_KEY or LLM_BASE_URL is required for the openai provider', 'NOT_CONFIGURED');
+    }
+    return new OpenAICompatibleProvider({
+      model: config.model || 'gpt-4o-mini',
+      baseUrl: config.baseUrl,
+      apiKey: config.apiKey
+    });
+  },
+  stub: (config) => new StubLLMProvider({ model: config.model })
+};
+
+export class LLMService {
+  private provider: LLMProvider | null | undefined; // undefined until resolved from the environment
+  private usage = new Map<string, LLMUsageSummary>();
+
+  /**
+   * Provider settings from LLM_PROVIDER, LLM_MODEL, LLM_API_KEY, LLM_BASE_URL and LLM_TIMEOUT_MS.
+   * Without LLM_PROVIDER no model is called and features keep their rule-based text.
+   */
+  getConfig(): LLMProviderConfig | null {
+    const provider = process.env.LLM_PROVIDER?.trim().toLowerCase();
+    if (!provider || provider === 'none') return null;
+
+    return {
+      provider,
+      model: process.env.LLM_MODEL || undefined,
+      apiKey: process.env.LLM_API_KEY || process.env.OPENAI_API_KEY || undefined,
+      baseUrl: process.env.LLM_BASE_URL || undefined,
+      timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '') || DEFAULT_TIMEOUT_MS
+    };
+  }
+
+  registerProvider(name: string, factory: LLMProviderFactory): void {
+    PROVIDER_FACTORIES[name.toLowerCase()] = factory;
+    this.provider = undefined;
+  }
+
+  /**
+   * Use a specific provider instance, or null to disable; scripts and tests use this
+   */
+  setProvider(provider: LLMProvider | null): void {
+    this.provider = provider;
+  }
+
+  getProvider(): LLMProvider | null {
+    if (this.provider !== undefined) return this.provider;
+
+    const config = this.getConfig();
+    if (!config) {
+      this.provider = null;
+      return null;
+    }
+
+    const factory = PROVIDER_FACTORIES[config.provider];
+    if (!factory) {
+      console.error(`❌ Unknown LLM provider "${config.provider}", falling back to rule-based responses`);
+      this.provider = null;
+      return null;
+    }
+
+    try {
+      this.provider = factory(config);
+      console.log(`🧠 LLM provider: ${this.provider.name} (${this.provider.model})`);
+    } catch (error) {
+      console.error('❌ Failed to configure LLM provider:', error);
+      this.provider = null;
+    }
+    return this.provider;
+  }
+
+  isConfigured(): boolean {
+    return this.getProvider() !== null;
+  }
+
+  async complete(feature: string, request: LLMRequest): Promise<LLMResponse> {
+    let response: LLMResponse | null = null;
+    for await (const chunk of this.stream(feature, request)) {
+      if (chunk.type === 'done') response = chunk.response;
+    }
+    return response!;
+  }
+
+  /**
+   * Stream a completion, recording token usage (or the failure) under the feature name
+   */
+  async *stream(feature: string, request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    const provider = this.getProvider();
+    if (!provider) {
+      throw new LLMError('No LLM provider is configured', 'NOT_CONFIGURED');
+    }
+
+    const timeoutMs = request.timeoutMs ?? this.getConfig()?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    try {
+      for await (const chunk of provider.stream({ ...request, timeoutMs })) {
+        if (chunk.type === 'done') {
+          this.recordUsage(feature, chunk.response);
+        }
+        yield chunk;
+      }
+    } catch (error) {
+      this.recordUsage(feature, null);
+      throw error;
+    }
+  }
+
+  getUsage(): LLMUsageSummary[] {
+    return Array.from(this.usage.values());
+  }
+
+  resetUsage(): void {
+    this.usage.clear();
+  }
+
+  private recordUsage(feature: string, response: LLMResponse | null): void {
+    const summary = this.usage.get(feature) ?? {
+      feature,
+      requests: 0,
+      failures: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0
+    };
+
+    summary.requests++;
+    if (response) {
+      summary.promptTokens += response.usage.promptTokens;
+      summary.completionTokens += response.usage.completionTokens;
+      summary.totalTokens += response.usage.totalTokens;
+    } else {
+      summary.failures++;
+    }
+
+    this.usage.set(feature, summary);
+  }
+}
+
+// Export singleton instance
+export const llmService = new LLMService();
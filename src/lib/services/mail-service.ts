@@ -0,0 +1,124 @@
+// Mail service: picks the configured transport and renders the account emails
+// (address verification, password reset) that link back into the app.
+
+import path from 'path';
+import { ConsoleMailTransport } from '../mail/console-transport';
+import { FileMailTransport } from '../mail/file-transport';
+import type { MailMessage, MailTransport, MailTransportConfig } from '@/types/mail';
+
+export type MailTransportFactory = (config: MailTransportConfig) => MailTransport;
+
+const TRANSPORT_FACTORIES: Record<string, MailTransportFactory> = {
+  file: (config) => new FileMailTransport(config.outboxDir),
+  console: () => new ConsoleMailTransport()
+};
+
+export class MailService {
+  private transport?: MailTransport;
+
+  getConfig(): MailTransportConfig & { appUrl: string } {
+    return {
+      // No real transport ships with the app; production deployments register one
+      transport: (process.env.MAIL_TRANSPORT || (process.env.NODE_ENV === 'production' ? 'console' : 'file'))
+        .trim().toLowerCase(),
+      from: process.env.MAIL_FROM || 'Bitcoin Trading Game <no-reply@localhost>',
+      outboxDir: path.resolve(process.env.MAIL_OUTBOX_DIR || 'data/mail-outbox'),
+      // Links in emails are built from this rather than the request's Host header
+      appUrl: (process.env.APP_URL || 'http://localhost:3000').replace(/\/+$/, '')
+    };
+  }
+
+  registerTransport(name: string, factory: MailTransportFactory): void {
+    TRANSPORT_FACTORIES[name.toLowerCase()] = factory;
+    this.transport = undefined;
+  }
+
+  /**
+   * Use a specific transport instance; scripts and tests use this
+   */
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  getTransport(): MailTransport {
+    if (this.transport) return this.transport;
+
+    const config = this.getConfig();
+    const factory = TRANSPORT_FACTORIES[config.transport];
+    if (!factory) {
+      console.error(`❌ Unknown mail transport "${config.transport}", printing mail to the console instead`);
+      this.transport = new ConsoleMailTransport();
+    } else {
+      this.transport = factory(config);
+      console.log(`📮 Mail transport: ${this.transport.name}`);
+    }
+    return this.transport;
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.getTransport().send({ ...message, from: this.getConfig().from });
+  }
+
+  /**
+   * Absolute URL of an app page, e.g. link('/verify-email', { token })
+   */
+  link(pathname: string, query: Record<string, string> = {}): string {
+    const url = new URL(pathname, this.getConfig().appUrl);
+    for (const [key, value] of Object.entries(query)) {
+      url.searchParams.set(key, value);
+    }
+    return url.toString();
+  }
+
+  async sendVerificationEmail(to: string, username: string, token: string, expiresInHours: number): Promise<void> {
+    const link = this.link('/verify-email', { token });
+    await this.send({
+      to,
+      subject: '[Bitcoin Trading Game] 이메일 주소를 인증해주세요',
+      text: [
+        `${username}님, 가입해주셔서 감사합니다.`,
+        '',
+        '아래 링크를 열어 이메일 주소를 인증해주세요.',
+        link,
+        '',
+        `링크는 ${expiresInHours}시간 동안 한 번만 사용할 수 있습니다.`,
+        '직접 가입하지 않으셨다면 이 메일을 무시하세요.'
+      ].join('\n'),
+      html: this.renderHtml(`${username}님, 가입해주셔서 감사합니다.`, '이메일 인증하기', link,
+        `링크는 ${expiresInHours}시간 동안 한 번만 사용할 수 있습니다.`)
+    });
+  }
+
+  async sendPasswordResetEmail(to: string, username: string, token: string, expiresInMinutes: number): Promise<void> {
+    const link = this.link('/reset-password', { token });
+    await this.send({
+      to,
+      subject: '[Bitcoin Trading Game] 비밀번호 재설정',
+      text: [
+        `${username}님, 비밀번호 재설정 요청을 받았습니다.`,
+        '',
+        '아래 링크에서 새 비밀번호를 설정하세요.',
+        link,
+        '',
+        `링크는 ${expiresInMinutes}분 동안 한 번만 사용할 수 있습니다.`,
+        '요청하지 않으셨다면 이 메일을 무시하세요. 비밀번호는 바뀌지 않습니다.'
+      ].join('\n'),
+      html: this.renderHtml(`${username}님, 비밀번호 재설정 요청을 받았습니다.`, '새 비밀번호 설정', link,
+        `링크는 ${expiresInMinutes}분 동안 한 번만 사용할 수 있습니다.`)
+    });
+  }
+
+  private renderHtml(greeting: string, action: string, link: string, note: string): string {
+    const escape = (value: string) =>
+      value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+    return [
+      `<p>${escape(greeting)}</p>`,
+      `<p><a href="${escape(link)}">${escape(action)}</a></p>`,
+      `<p style="color:#666;font-size:12px">${escape(note)}</p>`
+    ].join('\n');
+  }
+}
+
+// Export singleton instance
+export const mailService = new MailService();
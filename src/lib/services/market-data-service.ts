@@ -0,0 +1,236 @@
+// Market data service: multi-asset quotes from the configured provider, with lookups
+// batched into one upstream request and quotes cached for a short TTL.
+
+import { CoinGeckoMarketDataProvider } from '../market-data/coingecko-provider';
+import { BinanceMarketDataProvider } from '../market-data/binance-provider';
+import { FixtureMarketDataProvider } from '../market-data/fixture-provider';
+import { describeError, normalizeSymbol } from '../market-data/market-data-utils';
+import type { MarketDataConfig, MarketDataProvider, MarketQuote } from '@/types/market-data';
+
+export { MarketDataError, MARKET_ASSETS } from '../market-data/market-data-utils';
+
+export type MarketDataProviderFactory = (config: MarketDataConfig) => MarketDataProvider;
+export type MarketQuoteListener = (quotes: MarketQuote[]) => void;
+
+const DEFAULT_TTL_MS = 30 * 1000;
+const DEFAULT_STALE_TTL_MS = 10 * 60 * 1000;
+const FAILURE_BACKOFF_MS = 30 * 1000; // Skip a failing provider this long instead of waiting on timeouts
+const BATCH_WINDOW_MS = 10; // Lookups made within this window share one request
+
+const PROVIDER_FACTORIES: Record<string, MarketDataProviderFactory> = {
+  coingecko: () => new CoinGeckoMarketDataProvider({ apiKey: process.env.COINGECKO_API_KEY || undefined }),
+  binance: () => new BinanceMarketDataProvider(),
+  fixture: (config) => new FixtureMarketDataProvider({ path: config.fixturePath })
+};
+
+interface CachedQuote {
+  quote: MarketQuote | null; // null: every provider answered without this symbol
+  fetchedAt: number;
+}
+
+export class MarketDataService {
+  private providers: MarketDataProvider[] | undefined; // undefined until resolved from the environment
+  private cache = new Map<string, CachedQuote>();
+  private pending = new Map<string, Array<(quote: MarketQuote | null) => void>>();
+  private inFlight = new Map<string, Promise<MarketQuote | null>>();
+  private backoffUntil = new Map<string, number>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<MarketQuoteListener>();
+
+  /**
+   * Settings from MARKET_DATA_PROVIDER (default coingecko), MARKET_DATA_FALLBACK,
+   * MARKET_DATA_TTL_MS, MARKET_DATA_STALE_TTL_MS and MARKET_DATA_FIXTURE
+   */
+  getConfig(): MarketDataConfig {
+    return {
+      provider: process.env.MARKET_DATA_PROVIDER?.trim().toLowerCase() || 'coingecko',
+      fallback: process.env.MARKET_DATA_FALLBACK?.trim().toLowerCase() || undefined,
+      ttlMs: parseInt(process.env.MARKET_DATA_TTL_MS || '') || DEFAULT_TTL_MS,
+      staleTtlMs: parseInt(process.env.MARKET_DATA_STALE_TTL_MS || '') || DEFAULT_STALE_TTL_MS,
+      fixturePath: process.env.MARKET_DATA_FIXTURE || undefined
+    };
+  }
+
+  registerProvider(name: string, factory: MarketDataProviderFactory): void {
+    PROVIDER_FACTORIES[name.toLowerCase()] = factory;
+    this.providers = undefined;
+  }
+
+  /**
+   * Use specific providers, tried in order; scripts and tests use this
+   */
+  setProviders(...providers: MarketDataProvider[]): void {
+    this.providers = providers;
+    this.clearCache();
+  }
+
+  getProviders(): MarketDataProvider[] {
+    if (this.providers !== undefined) return this.providers;
+
+    const config = this.getConfig();
+    this.providers = [];
+    for (const name of [config.provider, config.fallback]) {
+      if (!name || this.providers.some((provider) => provider.name === name)) continue;
+
+      const factory = PROVIDER_FACTORIES[name];
+      if (!factory) {
+        console.error(`❌ Unknown market data provider "${name}"`);
+        continue;
+      }
+      try {
+        this.providers.push(factory(config));
+      } catch (error) {
+        console.error(`❌ Failed to configure market data provider "${name}":`, error);
+      }
+    }
+
+    console.log(`📈 Market data providers: ${this.providers.map((provider) => provider.name).join(' → ') || 'none'}`);
+    return this.providers;
+  }
+
+  /**
+   * Latest quote for a symbol, or null when no provider can price it
+   */
+  async getQuote(symbol: string): Promise<MarketQuote | null> {
+    const key = normalizeSymbol(symbol);
+
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.fetchedAt < this.getConfig().ttlMs) {
+      return cached.quote;
+    }
+
+    const inFlight = this.inFlight.get(key);
+    if (inFlight) return inFlight;
+
+    return new Promise((resolve) => {
+      const waiters = this.pending.get(key) ?? [];
+      waiters.push(resolve);
+      this.pending.set(key, waiters);
+
+      if (!this.flushTimer) {
+        this.flushTimer = setTimeout(() => void this.flush(), BATCH_WINDOW_MS);
+      }
+    });
+  }
+
+  /**
+   * Quotes for several symbols, fetched together; symbols without a price are left out
+   */
+  async getQuotes(symbols: string[]): Promise<Map<string, MarketQuote>> {
+    const unique = Array.from(new Set(symbols.map(normalizeSymbol)));
+    const quotes = await Promise.all(unique.map((symbol) => this.getQuote(symbol)));
+
+    const result = new Map<string, MarketQuote>();
+    quotes.forEach((quote) => {
+      if (quote) result.set(quote.symbol, quote);
+    });
+    return result;
+  }
+
+  /**
+   * Items with currentPrice and priceChange24h (%) from one batched lookup
+   */
+  async withQuotes<T extends { symbol: string }>(items: T[]): Promise<Array<T & { currentPrice?: number; priceChange24h?: number }>> {
+    const quotes = await this.getQuotes(items.map((item) => item.symbol));
+    return items.map((item) => {
+      const quote = quotes.get(normalizeSymbol(item.symbol));
+      return quote ? { ...item, currentPrice: quote.price, priceChange24h: quote.changePercent24h } : item;
+    });
+  }
+
+  /**
+   * Called with every batch of quotes fetched from a provider (not for cache hits)
+   */
+  onQuotes(listener: MarketQuoteListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+    this.backoffUntil.clear();
+  }
+
+  private async flush(): Promise<void> {
+    this.flushTimer = null;
+    const batch = this.pending;
+    this.pending = new Map();
+
+    const symbols = Array.from(batch.keys());
+    const request = this.fetchQuotes(symbols);
+    for (const symbol of symbols) {
+      this.inFlight.set(symbol, request.then((quotes) => quotes.get(symbol) ?? null));
+    }
+
+    const quotes = await request;
+    for (const [symbol, waiters] of batch) {
+      this.inFlight.delete(symbol);
+      const quote = quotes.get(symbol) ?? null;
+      waiters.forEach((resolve) => resolve(quote));
+    }
+  }
+
+  /**
+   * Ask each provider in turn for the symbols still unpriced. When a provider fails,
+   * recent cached quotes stand in until staleTtlMs.
+   */
+  private async fetchQuotes(symbols: string[]): Promise<Map<string, MarketQuote>> {
+    const { staleTtlMs } = this.getConfig();
+    const result = new Map<string, MarketQuote>();
+    let remaining = symbols;
+    let failed = false;
+
+    for (const provider of this.getProviders()) {
+      if (remaining.length === 0) break;
+      if ((this.backoffUntil.get(provider.name) ?? 0) > Date.now()) {
+        failed = true;
+        continue;
+      }
+
+      try {
+        const quotes = await provider.getQuotes(remaining);
+        this.backoffUntil.delete(provider.name);
+
+        const fetchedAt = Date.now();
+        for (const quote of quotes) {
+          result.set(quote.symbol, quote);
+          this.cache.set(quote.symbol, { quote, fetchedAt });
+        }
+        remaining = remaining.filter((symbol) => !result.has(symbol));
+        if (quotes.length > 0) this.notify(quotes);
+      } catch (error) {
+        failed = true;
+        this.backoffUntil.set(provider.name, Date.now() + FAILURE_BACKOFF_MS);
+        console.warn(`⚠️ Market data provider ${provider.name} failed: ${describeError(error)}`);
+      }
+    }
+
+    const now = Date.now();
+    for (const symbol of remaining) {
+      const cached = this.cache.get(symbol);
+      if (failed) {
+        if (cached?.quote && now - cached.fetchedAt < staleTtlMs) {
+          result.set(symbol, cached.quote);
+        }
+      } else {
+        // Every provider answered and none knows the symbol
+        this.cache.set(symbol, { quote: null, fetchedAt: now });
+      }
+    }
+
+    return result;
+  }
+
+  private notify(quotes: MarketQuote[]): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(quotes);
+      } catch (error) {
+        console.error('❌ Market quote listener failed:', error);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const marketDataService = new MarketDataService();
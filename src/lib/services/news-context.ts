@@ -1,7 +1,23 @@
-import { NewsContext } from '@/types/news';
+import { prisma } from '../database/prisma-client';
+import { computeNewsFeatures } from '../news/news-features';
+import { marketTrend } from '../news/news-report-builder';
+import { newsScoringService } from './news-scoring-service';
+import { NewsCategory, NewsContext, NewsFeatures } from '@/types/news';
+
+const CONTEXT_WINDOW_HOURS = 48;
+
+function parseSymbols(value: string): string[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
 
 /**
  * 뉴스 컨텍스트를 AI 에이전트 프롬프트에 주입하는 서비스
+ * 서버에서 Prisma로 직접 조회하므로 API 라우트와 에이전트가 같은 컨텍스트를 사용
  */
 export class NewsContextService {
   private static instance: NewsContextService;
@@ -28,27 +44,90 @@ export class NewsContextService {
         return this.cachedContext;
       }
 
-      // API에서 새로운 컨텍스트 조회
-      const response = await fetch('/api/news/context');
-      if (!response.ok) {
-        console.error('Failed to fetch news context:', response.status);
-        return null;
-      }
-
-      const result = await response.json();
-      if (result.success) {
-        this.cachedContext = result.data;
-        this.cacheExpiry = Date.now() + this.CACHE_DURATION;
-        return this.cachedContext;
-      }
-
-      return null;
+      this.cachedContext = await this.buildContext();
+      this.cacheExpiry = Date.now() + this.CACHE_DURATION;
+      return this.cachedContext;
     } catch (error) {
-      console.error('Error fetching news context:', error);
+      console.error('Error building news context:', error);
       return null;
     }
   }
 
+  /**
+   * 에이전트 의사결정용 뉴스 특징값 (뉴스가 없거나 조회 실패 시 null)
+   */
+  public async getNewsFeatures(): Promise<NewsFeatures | null> {
+    const context = await this.getNewsContext();
+    return context && context.newsCount > 0 ? context.features : null;
+  }
+
+  /**
+   * 최근 48시간 뉴스로 컨텍스트 구성
+   */
+  public async buildContext(now: Date = new Date()): Promise<NewsContext> {
+    const since = new Date(now.getTime() - CONTEXT_WINDOW_HOURS * 60 * 60 * 1000);
+
+    const articles = await prisma.newsArticle.findMany({
+      where: { publishedAt: { gte: since, lte: now } },
+      orderBy: { publishedAt: 'desc' },
+      select: {
+        id: true,
+        title: true,
+        summary: true,
+        source: true,
+        category: true,
+        relatedSymbols: true,
+        publishedAt: true,
+        sentimentScore: true,
+        importanceScore: true,
+        aiAnalysis: true,
+      }
+    });
+
+    const { halfLifeHours } = newsScoringService.getConfig();
+    const credibilityOverrides = newsScoringService.credibilityOverrides();
+    const features = computeNewsFeatures(
+      articles.map((article) => ({ ...article, relatedSymbols: parseSymbols(article.relatedSymbols) })),
+      now,
+      { windowHours: CONTEXT_WINDOW_HOURS, halfLifeHours, credibilityOverrides }
+    );
+    const { sentiment } = await newsScoringService.sentimentIndex(since, now);
+    const trend = marketTrend(sentiment);
+
+    // 중요도 7 이상의 최신 뉴스 5개
+    const latestNews = articles
+      .filter((article) => article.importanceScore >= 7)
+      .sort((a, b) => b.importanceScore - a.importanceScore || b.publishedAt.getTime() - a.publishedAt.getTime())
+      .slice(0, 5)
+      .map((news) => ({
+        title: news.title,
+        summary: news.summary || news.title,
+        sentiment: news.sentimentScore,
+        category: news.category as NewsCategory,
+        analysis: news.aiAnalysis,
+        publishedAt: news.publishedAt,
+      }));
+
+    // 주요 이벤트 (중요도 8 이상)
+    const keyEvents = articles
+      .filter((article) => article.importanceScore >= 8)
+      .slice(0, 3)
+      .map((event) => `[${event.category.toUpperCase()}] ${event.title}`);
+
+    return {
+      summary: `현재 암호화폐 시장은 ${trend} 상태입니다. ` +
+               `최근 48시간 동안 ${articles.length}개의 뉴스가 있었으며, ` +
+               `전체 시장 감정 지수는 ${sentiment.toFixed(2)}입니다.`,
+      latestNews,
+      currentSentiment: Number(sentiment.toFixed(3)),
+      marketTrend: trend,
+      keyEvents,
+      newsCount: articles.length,
+      features,
+      lastUpdated: now,
+    };
+  }
+
   /**
    * 에이전트 프롬프트에 뉴스 컨텍스트를 주입
    */
@@ -75,10 +154,17 @@ ${newsContextPrompt}
    * 뉴스 컨텍스트를 프롬프트 형태로 구성
    */
   private buildNewsContextPrompt(context: NewsContext): string {
-    const { currentSentiment, marketTrend, keyEvents, latestNews, newsCount } = context;
+    const { currentSentiment, marketTrend, keyEvents, latestNews, newsCount, features } = context;
+    const eventCounts = Object.entries(features.eventCounts)
+      .filter(([, count]) => count > 0)
+      .map(([category, count]) => `${category} ${count}`)
+      .join(', ');
 
     let prompt = `**시장 현황 요약:**
 - 전체 시장 감정: ${(currentSentiment * 100).toFixed(0)}/100 (${marketTrend})
+- 감정 모멘텀 (직전 24시간 대비): ${features.sentimentMomentum >= 0 ? '+' : ''}${(features.sentimentMomentum * 100).toFixed(0)}
+- 이벤트 수: ${eventCounts || '없음'}
+- 규제 리스크: ${features.regulatoryRisk ? '높음' : '낮음'} (${(features.regulatoryRiskScore * 100).toFixed(0)}/100)
 - 분석된 뉴스 수: ${newsCount}개 (최근 48시간)
 - 업데이트: ${new Date(context.lastUpdated).toLocaleString('ko-KR')}
 
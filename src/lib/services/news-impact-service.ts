@@ -0,0 +1,75 @@
+// News impact service: runs the news event study over stored articles and the
+// BitcoinPrice series, caching results briefly since the inputs change slowly.
+
+import { prisma } from '../database/prisma-client';
+import { runEventStudy } from '../news/news-impact';
+import type { NewsImpactStudy } from '@/types/news';
+
+export interface NewsImpactConfig {
+  lookbackDays: number;
+  toleranceMinutes: number; // Maximum age of the price standing for a moment in time
+  minGroupSize: number;
+  cacheMs: number;
+}
+
+export class NewsImpactService {
+  private cache = new Map<string, { study: NewsImpactStudy; expiresAt: number }>();
+
+  /**
+   * Settings from NEWS_IMPACT_LOOKBACK_DAYS, NEWS_IMPACT_PRICE_TOLERANCE_MINUTES and
+   * NEWS_IMPACT_MIN_GROUP_SIZE
+   */
+  getConfig(): NewsImpactConfig {
+    return {
+      lookbackDays: parseInt(process.env.NEWS_IMPACT_LOOKBACK_DAYS || '') || 30,
+      toleranceMinutes: parseInt(process.env.NEWS_IMPACT_PRICE_TOLERANCE_MINUTES || '') || 30,
+      minGroupSize: parseInt(process.env.NEWS_IMPACT_MIN_GROUP_SIZE || '') || 1,
+      cacheMs: 10 * 60 * 1000
+    };
+  }
+
+  /**
+   * Event study over the articles of the last `days` days
+   */
+  async getImpact(options: { days?: number; minGroupSize?: number } = {}): Promise<NewsImpactStudy> {
+    const config = this.getConfig();
+    const days = options.days ?? config.lookbackDays;
+    const minGroupSize = options.minGroupSize ?? config.minGroupSize;
+
+    const key = `${days}:${minGroupSize}`;
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) return cached.study;
+
+    const now = new Date();
+    const from = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+    const toleranceMs = config.toleranceMinutes * 60 * 1000;
+
+    const [articles, prices] = await Promise.all([
+      prisma.newsArticle.findMany({
+        where: { publishedAt: { gte: from, lte: now } },
+        select: { publishedAt: true, sentimentScore: true, category: true, source: true }
+      }),
+      // Prices from just before the first article; later horizons end by now at the latest
+      prisma.bitcoinPrice.findMany({
+        where: { timestamp: { gte: new Date(from.getTime() - toleranceMs), lte: now } },
+        select: { timestamp: true, price: true },
+        orderBy: { timestamp: 'asc' }
+      })
+    ]);
+
+    const study = runEventStudy(articles, prices, from, now, { toleranceMs, minGroupSize, now });
+    this.cache.set(key, { study, expiresAt: Date.now() + config.cacheMs });
+    console.log(`📰 News impact: ${study.measuredCount} of ${study.articleCount} articles measured over ${days} days`);
+    return study;
+  }
+
+  /**
+   * Drop cached studies, e.g. after re-scoring articles
+   */
+  invalidateCache(): void {
+    this.cache.clear();
+  }
+}
+
+// Export singleton instance
+export const newsImpactService = new NewsImpactService();
@@ -0,0 +1,291 @@
+// News ingestion service: pulls the configured RSS/Atom/JSON feeds (remote or local
+// files), normalises and scores entries into NewsArticle rows and skips duplicates.
+
+import axios from 'axios';
+import { existsSync, readFileSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { basename, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { prisma } from '../database/prisma-client';
+import { parseFeed, stripHtml } from '../news/feed-parser';
+import { scoreArticle } from '../news/news-scorer';
+import {
+  classifyCategory,
+  extractSymbols,
+  findDuplicate,
+  normalizeUrl,
+  NewsIngestionError,
+  type DedupeCandidate
+} from '../news/news-utils';
+import type {
+  FeedItem,
+  NewsArticleInput,
+  NewsFeedResult,
+  NewsFeedSource,
+  NewsIngestionConfig,
+  NewsIngestionRun
+} from '@/types/news';
+
+export { NewsIngestionError } from '../news/news-utils';
+
+const SUMMARY_LENGTH = 280;
+const MAX_FUTURE_SKEW_MS = 60 * 60 * 1000; // Dates further ahead than this are feed errors
+
+export const DEFAULT_NEWS_FEEDS: NewsFeedSource[] = [
+  { id: 'coindesk', name: 'CoinDesk', location: 'https://www.coindesk.com/arc/outboundfeeds/rss/', format: 'rss' },
+  { id: 'cointelegraph', name: 'Cointelegraph', location: 'https://cointelegraph.com/rss', format: 'rss' },
+  { id: 'decrypt', name: 'Decrypt', location: 'https://decrypt.co/feed', format: 'rss' }
+];
+
+function isRemote(location: string): boolean {
+  return /^https?:\/\//i.test(location);
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+}
+
+/**
+ * A feed entry as a NewsArticle, or null when it has no title
+ */
+export function normalizeFeedItem(item: FeedItem, feed: NewsFeedSource, now: Date = new Date()): NewsArticleInput | null {
+  const title = item.title.replace(/\s+/g, ' ').trim();
+  if (!title) return null;
+
+  const content = stripHtml(item.content || item.summary || '') || title;
+  const summary = item.summary ? truncate(stripHtml(item.summary), SUMMARY_LENGTH) : undefined;
+  const publishedAt =
+    item.publishedAt && item.publishedAt.getTime() <= now.getTime() + MAX_FUTURE_SKEW_MS ? item.publishedAt : now;
+
+  return {
+    title,
+    content,
+    source: feed.name,
+    url: normalizeUrl(item.url),
+    publishedAt,
+    category: classifyCategory({ title, content, categories: item.categories }, feed.category),
+    relatedSymbols: extractSymbols(`${title}\n${content}\n${item.categories.join(' ')}`),
+    summary: summary || undefined
+  };
+}
+
+export class NewsIngestionService {
+  private feeds: NewsFeedSource[] | undefined; // undefined until resolved from the environment
+  private running: Promise<NewsIngestionRun> | null = null;
+  private lastRun: NewsIngestionRun | null = null;
+  private pulledAt = new Map<string, Date>(); // Feed id -> when it was last pulled
+
+  /**
+   * Settings from NEWS_INGEST_CRON, NEWS_FEED_TIMEOUT_MS, NEWS_MAX_ITEMS_PER_FEED,
+   * NEWS_TITLE_SIMILARITY, NEWS_DEDUPE_WINDOW_HOURS and NEWS_MANUAL_INGEST_COOLDOWN_MS
+   */
+  getConfig(): NewsIngestionConfig {
+    return {
+      schedule: process.env.NEWS_INGEST_CRON?.trim() || '*/30 * * * *',
+      timeoutMs: parseInt(process.env.NEWS_FEED_TIMEOUT_MS || '') || 10000,
+      maxItemsPerFeed: parseInt(process.env.NEWS_MAX_ITEMS_PER_FEED || '') || 50,
+      titleSimilarity: parseFloat(process.env.NEWS_TITLE_SIMILARITY || '') || 0.85,
+      dedupeWindowHours: parseInt(process.env.NEWS_DEDUPE_WINDOW_HOURS || '') || 72,
+      manualCooldownMs: parseInt(process.env.NEWS_MANUAL_INGEST_COOLDOWN_MS || '') || 5 * 60 * 1000
+    };
+  }
+
+  /**
+   * Feeds from NEWS_FEEDS: a JSON file listing NewsFeedSource entries, or a
+   * comma-separated list of feed URLs and file paths. Defaults to DEFAULT_NEWS_FEEDS.
+   */
+  getFeeds(): NewsFeedSource[] {
+    if (this.feeds) return this.feeds;
+
+    const setting = process.env.NEWS_FEEDS?.trim();
+    if (!setting) {
+      this.feeds = DEFAULT_NEWS_FEEDS;
+    } else if (setting.endsWith('.json') && !isRemote(setting) && existsSync(setting)) {
+      try {
+        const listed = JSON.parse(readFileSync(setting, 'utf-8')) as NewsFeedSource[];
+        // Feed files are resolved relative to the list that names them
+        this.feeds = listed.map((feed) => ({
+          ...feed,
+          location: isRemote(feed.location) || feed.location.startsWith('file:') ? feed.location : resolve(setting, '..', feed.location)
+        }));
+      } catch (error) {
+        console.error(`❌ Cannot read news feed list ${setting}:`, error);
+        this.feeds = [];
+      }
+    } else {
+      this.feeds = setting.split(',').map((location) => location.trim()).filter(Boolean).map((location) => {
+        const id = isRemote(location) ? new URL(location).hostname.replace(/^www\./, '') : basename(location).replace(/\.[^.]+$/, '');
+        return { id, name: id, location };
+      });
+    }
+
+    console.log(`📰 News feeds: ${this.feeds.map((feed) => feed.id).join(', ') || 'none'}`);
+    return this.feeds;
+  }
+
+  /**
+   * Use specific feeds; scripts and tests use this
+   */
+  setFeeds(...feeds: NewsFeedSource[]): void {
+    this.feeds = feeds;
+  }
+
+  getLastRun(): NewsIngestionRun | null {
+    return this.lastRun;
+  }
+
+  /**
+   * Ids of the feeds (all, or those in feedIds) not pulled within the manual cooldown;
+   * throws FEED_COOLDOWN with the wait in seconds when none are
+   */
+  getFeedsDue(feedIds?: string[], now: Date = new Date()): string[] {
+    const { manualCooldownMs } = this.getConfig();
+    const requested = feedIds ?? this.getFeeds().map((feed) => feed.id);
+    const due = requested.filter((id) => {
+      const pulledAt = this.pulledAt.get(id);
+      return !pulledAt || now.getTime() - pulledAt.getTime() >= manualCooldownMs;
+    });
+
+    if (requested.length > 0 && due.length === 0) {
+      const nextDue = Math.min(...requested.map((id) => this.pulledAt.get(id)!.getTime() + manualCooldownMs));
+      const seconds = Math.max(1, Math.ceil((nextDue - now.getTime()) / 1000));
+      throw new NewsIngestionError(`Feeds were pulled recently; try again in ${seconds}s`, 'FEED_COOLDOWN', 429);
+    }
+    return due;
+  }
+
+  /**
+   * Raw feed document from a URL or a local file
+   */
+  async loadFeed(feed: NewsFeedSource): Promise<string> {
+    if (isRemote(feed.location)) {
+      try {
+        const response = await axios.get<string>(feed.location, {
+          timeout: this.getConfig().timeoutMs,
+          responseType: 'text',
+          transformResponse: (data) => data,
+          headers: { Accept: 'application/rss+xml, application/atom+xml, application/feed+json, application/xml, */*' }
+        });
+        return response.data;
+      } catch (error) {
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        throw new NewsIngestionError(
+          `Failed to fetch ${feed.location}${status ? ` (${status})` : ''}: ${error instanceof Error ? error.message : error}`,
+          'FETCH_FAILED'
+        );
+      }
+    }
+
+    const path = feed.location.startsWith('file:') ? fileURLToPath(feed.location) : resolve(feed.location);
+    try {
+      return await readFile(path, 'utf-8');
+    } catch {
+      throw new NewsIngestionError(`Feed file not found: ${path}`, 'FEED_NOT_FOUND', 404);
+    }
+  }
+
+  /**
+   * Fetch and normalise one feed, newest entries first
+   */
+  async fetchFeed(feed: NewsFeedSource, now: Date = new Date()): Promise<NewsArticleInput[]> {
+    const items = parseFeed(await this.loadFeed(feed), feed.format);
+    return items
+      .map((item) => normalizeFeedItem(item, feed, now))
+      .filter((article): article is NewsArticleInput => article !== null)
+      .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime())
+      .slice(0, this.getConfig().maxItemsPerFeed);
+  }
+
+  /**
+   * Ingest every feed (or those in feedIds). A run already in progress is shared.
+   */
+  async ingest(feedIds?: string[]): Promise<NewsIngestionRun> {
+    if (this.running) return this.running;
+
+    this.running = this.run(feedIds).finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  private async run(feedIds?: string[]): Promise<NewsIngestionRun> {
+    const startedAt = new Date();
+    const config = this.getConfig();
+    const feeds = this.getFeeds().filter((feed) => !feedIds || feedIds.includes(feed.id));
+
+    // Recent titles for near-duplicate checks; accepted articles join the list
+    const since = new Date(startedAt.getTime() - config.dedupeWindowHours * 60 * 60 * 1000);
+    const known: DedupeCandidate[] = await prisma.newsArticle.findMany({
+      where: { publishedAt: { gte: since } },
+      select: { title: true, url: true }
+    });
+
+    const results: NewsFeedResult[] = [];
+    const articleIds: string[] = [];
+
+    for (const feed of feeds) {
+      const result: NewsFeedResult = { feedId: feed.id, fetched: 0, created: 0, duplicates: 0 };
+      results.push(result);
+      this.pulledAt.set(feed.id, new Date());
+
+      try {
+        const articles = await this.fetchFeed(feed, startedAt);
+        result.fetched = articles.length;
+
+        // URLs seen before the dedupe window
+        const urls = articles.map((article) => article.url).filter((url): url is string => !!url);
+        const stored = urls.length
+          ? await prisma.newsArticle.findMany({ where: { url: { in: urls } }, select: { title: true, url: true } })
+          : [];
+        const candidates = [...stored, ...known];
+
+        const credibility = typeof feed.credibility === 'number' ? { [feed.name]: feed.credibility } : {};
+
+        for (const article of articles) {
+          if (findDuplicate(article, candidates, config.titleSimilarity)) {
+            result.duplicates++;
+            continue;
+          }
+
+          const { sentimentScore, importanceScore } = scoreArticle(article, credibility);
+          const created = await prisma.newsArticle.create({
+            data: {
+              title: article.title,
+              content: article.content,
+              source: article.source,
+              url: article.url,
+              publishedAt: article.publishedAt,
+              category: article.category,
+              relatedSymbols: JSON.stringify(article.relatedSymbols),
+              summary: article.summary,
+              sentimentScore,
+              importanceScore
+            }
+          });
+          candidates.push(article);
+          known.push(article);
+          articleIds.push(created.id);
+          result.created++;
+        }
+      } catch (error) {
+        result.error = error instanceof Error ? error.message : 'Unknown error';
+        console.warn(`⚠️ News feed ${feed.id} failed: ${result.error}`);
+      }
+    }
+
+    const run: NewsIngestionRun = {
+      startedAt,
+      finishedAt: new Date(),
+      created: results.reduce((sum, result) => sum + result.created, 0),
+      duplicates: results.reduce((sum, result) => sum + result.duplicates, 0),
+      feeds: results,
+      articleIds
+    };
+    this.lastRun = run;
+    console.log(`📰 News ingestion: ${run.created} new, ${run.duplicates} duplicates from ${feeds.length} feeds`);
+    return run;
+  }
+}
+
+// Export singleton instance
+export const newsIngestionService = new NewsIngestionService();
@@ -0,0 +1,262 @@
+// News report service: builds daily and weekly NewsReports from the period's articles
+// (key events, top stories, sentiment trend) and the BTC price move from BitcoinPrice.
+
+import { prisma } from '../database/prisma-client';
+import {
+  clusterArticles,
+  describeEvents,
+  marketTrend,
+  periodDays,
+  periodSentiment,
+  pickTopStories,
+  previousPeriod,
+  priceMove,
+  reportHalfLifeHours,
+  reportPeriod,
+  sentimentTrend,
+  type ReportArticle,
+  type ReportPeriod
+} from '../news/news-report-builder';
+import type {
+  NewsEventCluster,
+  NewsReportConfig,
+  NewsReportPriceMove,
+  NewsReportType,
+  SentimentTrend
+} from '@/types/news';
+
+const KEY_EVENT_COUNT = 5;
+const MANUAL_RUN_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Refused report requests; routes answer with `status` and `code`
+ */
+export class NewsReportError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'RATE_LIMITED',
+    public readonly status: number = 429,
+    public readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = 'NewsReportError';
+  }
+}
+
+export interface GeneratedNewsReport {
+  id: string;
+  type: NewsReportType;
+  date: Date;
+  periodStart: Date;
+  periodEnd: Date;
+  overallSentiment: number;
+  marketTrend: 'bullish' | 'bearish' | 'neutral';
+  keyEvents: string[];
+  summary: string;
+  topStoriesIds: string[];
+  articleCount: number;
+  previousSentiment: number | null;
+  sentimentChange: number | null;
+  sentimentTrend: SentimentTrend;
+  priceMove: NewsReportPriceMove | null;
+  events: NewsEventCluster[];
+}
+
+function parseSymbols(value: string): string[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function signed(value: number, digits: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+}
+
+export class NewsReportService {
+  private manualRuns = new Map<string, number[]>(); // User id -> times of their requested reports
+
+  /**
+   * Settings from NEWS_DAILY_REPORT_CRON, NEWS_WEEKLY_REPORT_CRON, NEWS_REPORT_TOP_STORIES,
+   * NEWS_REPORT_CLUSTER_SIMILARITY, NEWS_REPORT_TREND_THRESHOLD and NEWS_REPORT_MANUAL_RUNS_PER_HOUR
+   */
+  getConfig(): NewsReportConfig {
+    return {
+      dailySchedule: process.env.NEWS_DAILY_REPORT_CRON?.trim() || '10 0 * * *',
+      weeklySchedule: process.env.NEWS_WEEKLY_REPORT_CRON?.trim() || '20 0 * * 1',
+      topStories: parseInt(process.env.NEWS_REPORT_TOP_STORIES || '') || 5,
+      clusterSimilarity: parseFloat(process.env.NEWS_REPORT_CLUSTER_SIMILARITY || '') || 0.5,
+      trendThreshold: parseFloat(process.env.NEWS_REPORT_TREND_THRESHOLD || '') || 0.1,
+      manualRunsPerHour: parseInt(process.env.NEWS_REPORT_MANUAL_RUNS_PER_HOUR || '') || 10
+    };
+  }
+
+  /**
+   * Count a report a user asked for against their hourly limit; throws RATE_LIMITED when it is used up
+   */
+  reserveManualRun(userId: string, now: Date = new Date()): void {
+    const { manualRunsPerHour } = this.getConfig();
+    const windowStart = now.getTime() - MANUAL_RUN_WINDOW_MS;
+    const runs = (this.manualRuns.get(userId) ?? []).filter((time) => time > windowStart);
+
+    if (runs.length >= manualRunsPerHour) {
+      this.manualRuns.set(userId, runs);
+      throw new NewsReportError(
+        `Report limit of ${manualRunsPerHour} per hour reached`,
+        'RATE_LIMITED',
+        429,
+        Math.max(1, Math.ceil((runs[0] - windowStart) / 1000))
+      );
+    }
+
+    runs.push(now.getTime());
+    this.manualRuns.set(userId, runs);
+  }
+
+  /**
+   * The last complete daily or weekly period before a date
+   */
+  lastCompletePeriod(type: NewsReportType, now: Date = new Date()): ReportPeriod {
+    return previousPeriod(type, reportPeriod(type, now));
+  }
+
+  /**
+   * Build and store the report for the period containing a date (by default the last
+   * complete period). Re-generating a period replaces its report.
+   */
+  async generate(type: NewsReportType, date?: Date): Promise<GeneratedNewsReport> {
+    const config = this.getConfig();
+    const period = date ? reportPeriod(type, date) : this.lastCompletePeriod(type);
+    const before = previousPeriod(type, period);
+
+    const [rows, previousRows, prices, priceBefore] = await Promise.all([
+      prisma.newsArticle.findMany({
+        where: { publishedAt: { gte: period.start, lt: period.end } },
+        select: {
+          id: true,
+          title: true,
+          source: true,
+          category: true,
+          relatedSymbols: true,
+          publishedAt: true,
+          sentimentScore: true,
+          importanceScore: true
+        }
+      }),
+      prisma.newsArticle.findMany({
+        where: { publishedAt: { gte: before.start, lt: before.end } },
+        select: { source: true, publishedAt: true, sentimentScore: true, importanceScore: true }
+      }),
+      prisma.bitcoinPrice.findMany({
+        where: { timestamp: { gte: period.start, lt: period.end } },
+        select: { timestamp: true, price: true },
+        orderBy: { timestamp: 'asc' }
+      }),
+      prisma.bitcoinPrice.findFirst({
+        where: { timestamp: { lt: period.start } },
+        select: { timestamp: true, price: true },
+        orderBy: { timestamp: 'desc' }
+      })
+    ]);
+
+    const articles: ReportArticle[] = rows.map((row) => ({ ...row, relatedSymbols: parseSymbols(row.relatedSymbols) }));
+    const events = clusterArticles(articles, period.end, reportHalfLifeHours(period), config.clusterSimilarity);
+    const topStoriesIds = pickTopStories(events, articles, config.topStories);
+    const keyEvents = describeEvents(events, KEY_EVENT_COUNT);
+
+    const overallSentiment = periodSentiment(articles, period) ?? 0;
+    const previousSentiment = periodSentiment(previousRows, before);
+    const sentimentChange =
+      previousSentiment === null || articles.length === 0
+        ? null
+        : Math.round((overallSentiment - previousSentiment) * 1000) / 1000;
+    const trend = sentimentTrend(sentimentChange, config.trendThreshold);
+    const move = priceMove(prices, priceBefore);
+    const summary = this.summarize(type, period, articles.length, overallSentiment, sentimentChange, trend, move, events);
+
+    const data = {
+      periodStart: period.start,
+      periodEnd: period.end,
+      overallSentiment,
+      marketTrend: marketTrend(overallSentiment),
+      keyEvents: JSON.stringify(keyEvents),
+      summary,
+      topStoriesIds: JSON.stringify(topStoriesIds),
+      articleCount: articles.length,
+      previousSentiment,
+      sentimentChange,
+      sentimentTrend: trend,
+      priceOpen: move?.open ?? null,
+      priceClose: move?.close ?? null,
+      priceHigh: move?.high ?? null,
+      priceLow: move?.low ?? null,
+      priceChangePercent: move?.changePercent ?? null
+    };
+
+    const report = await prisma.newsReport.upsert({
+      where: { type_date: { type, date: period.start } },
+      create: { type, date: period.start, ...data },
+      update: data
+    });
+
+    console.log(`📰 ${type} news report for ${period.start.toISOString()}: ${articles.length} articles, ${events.length} events`);
+
+    return {
+      id: report.id,
+      type,
+      date: period.start,
+      periodStart: period.start,
+      periodEnd: period.end,
+      overallSentiment,
+      marketTrend: marketTrend(overallSentiment),
+      keyEvents,
+      summary,
+      topStoriesIds,
+      articleCount: articles.length,
+      previousSentiment,
+      sentimentChange,
+      sentimentTrend: trend,
+      priceMove: move,
+      events
+    };
+  }
+
+  private summarize(
+    type: NewsReportType,
+    period: ReportPeriod,
+    articleCount: number,
+    sentiment: number,
+    change: number | null,
+    trend: SentimentTrend,
+    move: NewsReportPriceMove | null,
+    events: NewsEventCluster[]
+  ): string {
+    const span = type === 'daily' ? '하루' : `${periodDays(period)}일`;
+    if (articleCount === 0) {
+      return `지난 ${span} 동안 수집된 뉴스가 없습니다.` +
+        (move ? ` 비트코인 가격은 ${signed(move.changePercent, 2)}% 움직였습니다.` : '');
+    }
+
+    const trendText = { improving: '개선', deteriorating: '악화', stable: '유지' }[trend];
+    const parts = [
+      `지난 ${span} 동안 ${articleCount}개의 뉴스가 ${events.length}개의 주요 이슈로 묶였습니다.`,
+      `시장 감정 지수는 ${sentiment.toFixed(2)}(${marketTrend(sentiment)})` +
+        (change === null ? '입니다.' : `로 이전 기간 대비 ${signed(change, 2)} ${trendText}되었습니다.`)
+    ];
+    if (events.length > 0) {
+      parts.push(`가장 큰 이슈는 "${events[0].headline}"입니다.`);
+    }
+    if (move) {
+      parts.push(
+        `같은 기간 비트코인 가격은 $${move.open.toLocaleString('en-US')}에서 $${move.close.toLocaleString('en-US')}로 ` +
+        `${signed(move.changePercent, 2)}% 움직였습니다.`
+      );
+    }
+    return parts.join(' ');
+  }
+}
+
+// Export singleton instance
+export const newsReportService = new NewsReportService();
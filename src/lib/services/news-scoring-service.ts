@@ -0,0 +1,150 @@
+// News scoring service: fills NewsArticle.sentimentScore and importanceScore from the
+// lexicon scorer, re-scores stored history and computes the recency-weighted sentiment index.
+
+import { prisma } from '../database/prisma-client';
+import { aggregateSentiment, scoreArticle, type ArticleScore, type ScorableArticle } from '../news/news-scorer';
+import { newsImpactService } from './news-impact-service';
+import { newsIngestionService } from './news-ingestion-service';
+
+export interface NewsScoringConfig {
+  halfLifeHours: number; // Recency decay of the sentiment index
+  batchSize: number; // Articles per page while re-scoring history
+}
+
+export interface NewsRescoreResult {
+  scanned: number;
+  updated: number;
+  startedAt: Date;
+  finishedAt: Date;
+}
+
+export interface NewsSentimentIndex {
+  sentiment: number; // -1 to 1
+  newsCount: number;
+  weight: number; // Sum of article weights; low values mean thin or stale coverage
+}
+
+const SCORE_EPSILON = 0.0005;
+
+export class NewsScoringService {
+  private rescoring: Promise<NewsRescoreResult> | null = null;
+
+  /**
+   * Settings from NEWS_SENTIMENT_HALF_LIFE_HOURS and NEWS_RESCORE_BATCH_SIZE
+   */
+  getConfig(): NewsScoringConfig {
+    return {
+      halfLifeHours: parseFloat(process.env.NEWS_SENTIMENT_HALF_LIFE_HOURS || '') || 12,
+      batchSize: parseInt(process.env.NEWS_RESCORE_BATCH_SIZE || '') || 200
+    };
+  }
+
+  /**
+   * Source credibility set on the configured feeds, keyed by the stored source name
+   */
+  credibilityOverrides(): Record<string, number> {
+    const overrides: Record<string, number> = {};
+    for (const feed of newsIngestionService.getFeeds()) {
+      if (typeof feed.credibility === 'number') overrides[feed.name] = feed.credibility;
+    }
+    return overrides;
+  }
+
+  score(article: ScorableArticle): ArticleScore {
+    return scoreArticle(article, this.credibilityOverrides());
+  }
+
+  /**
+   * Re-score stored articles (all, or those published since a date). A run already
+   * in progress is shared.
+   */
+  async rescore(options: { since?: Date; batchSize?: number } = {}): Promise<NewsRescoreResult> {
+    if (this.rescoring) return this.rescoring;
+
+    this.rescoring = this.runRescore(options).finally(() => {
+      this.rescoring = null;
+    });
+    return this.rescoring;
+  }
+
+  /**
+   * Sentiment index over the articles published since a date
+   */
+  async sentimentIndex(since: Date, now: Date = new Date()): Promise<NewsSentimentIndex> {
+    const articles = await prisma.newsArticle.findMany({
+      where: { publishedAt: { gte: since, lte: now } },
+      select: { sentimentScore: true, importanceScore: true, source: true, publishedAt: true }
+    });
+
+    const { sentiment, weight } = aggregateSentiment(articles, now, this.getConfig().halfLifeHours, this.credibilityOverrides());
+    return { sentiment, weight, newsCount: articles.length };
+  }
+
+  private async runRescore({ since, batchSize }: { since?: Date; batchSize?: number }): Promise<NewsRescoreResult> {
+    const startedAt = new Date();
+    const take = batchSize ?? this.getConfig().batchSize;
+    const overrides = this.credibilityOverrides();
+    let cursor: string | undefined;
+    let scanned = 0;
+    let updated = 0;
+
+    for (;;) {
+      const batch = await prisma.newsArticle.findMany({
+        where: since ? { publishedAt: { gte: since } } : undefined,
+        orderBy: { id: 'asc' },
+        take,
+        ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+        select: {
+          id: true,
+          title: true,
+          content: true,
+          source: true,
+          category: true,
+          relatedSymbols: true,
+          sentimentScore: true,
+          importanceScore: true
+        }
+      });
+      if (batch.length === 0) break;
+
+      for (const article of batch) {
+        const { sentimentScore, importanceScore } = scoreArticle(
+          { ...article, relatedSymbols: parseSymbols(article.relatedSymbols) },
+          overrides
+        );
+        if (
+          Math.abs(sentimentScore - article.sentimentScore) < SCORE_EPSILON &&
+          importanceScore === article.importanceScore
+        ) {
+          continue;
+        }
+
+        await prisma.newsArticle.update({
+          where: { id: article.id },
+          data: { sentimentScore, importanceScore }
+        });
+        updated++;
+      }
+
+      scanned += batch.length;
+      cursor = batch[batch.length - 1].id;
+      if (batch.length < take) break;
+    }
+
+    if (updated > 0) newsImpactService.invalidateCache(); // Sentiment buckets may have changed
+    console.log(`📰 News re-scoring: ${updated} of ${scanned} articles updated`);
+    return { scanned, updated, startedAt, finishedAt: new Date() };
+  }
+}
+
+function parseSymbols(value: string): string[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Export singleton instance
+export const newsScoringService = new NewsScoringService();
@@ -0,0 +1,440 @@
+// Server-side order book: limit, stop, take-profit and OCO orders matched against incoming prices
+
+import { prisma } from '../database/prisma-client';
+import {
+  paperTradingService,
+  TradingError,
+  InsufficientFundsError,
+  InsufficientHoldingsError,
+  TRADING_FEE_RATE,
+  DUST_THRESHOLD
+} from './paper-trading-service';
+import {
+  ACTIVE_ORDER_STATUSES,
+  OrderAmendInput,
+  OrderInput,
+  OrderMatchResult,
+  OrderSide,
+  OrderStatus,
+  OrderType,
+  OcoOrderInput
+} from '@/types/orders';
+import type { Order } from '@prisma/client';
+import { v4 as uuidv4 } from 'uuid';
+
+export class InvalidOrderError extends TradingError {
+  constructor(message: string) {
+    super(message, 'INVALID_ORDER', 400);
+    this.name = 'InvalidOrderError';
+  }
+}
+
+export class OrderNotFoundError extends TradingError {
+  constructor(orderId: string) {
+    super(`Order not found: ${orderId}`, 'ORDER_NOT_FOUND', 404);
+    this.name = 'OrderNotFoundError';
+  }
+}
+
+export class OrderNotActiveError extends TradingError {
+  constructor(order: Order) {
+    super(`Order ${order.id} is ${order.status} and can no longer be changed`, 'ORDER_NOT_ACTIVE', 409);
+    this.name = 'OrderNotActiveError';
+  }
+}
+
+type OrderPrices = Pick<Order, 'side' | 'type' | 'limitPrice' | 'triggerPrice'>;
+
+export class OrderService {
+  private isMatching = false;
+  private queuedPrice: number | null = null;
+
+  /**
+   * Place a single limit, stop-market, stop-limit or take-profit order
+   */
+  async placeOrder(userId: string, input: OrderInput): Promise<Order> {
+    const order = {
+      side: input.side,
+      type: input.type,
+      limitPrice: input.limitPrice ?? null,
+      triggerPrice: input.triggerPrice ?? null
+    };
+
+    this.validateOrderPrices(order, await paperTradingService.getMarketPrice());
+    await this.checkBuyingPower(userId, input.side, input.quantity, this.referencePrice(order));
+
+    const created = await prisma.order.create({
+      data: {
+        userId,
+        ...order,
+        quantity: input.quantity,
+        expiresAt: input.expiresAt ?? null
+      }
+    });
+
+    console.log(`📝 Order placed: ${created.type} ${created.side} ${created.quantity} BTC (${created.id})`);
+    return created;
+  }
+
+  /**
+   * Place a one-cancels-other pair: a limit (take-profit) leg and a stop leg
+   */
+  async placeOcoOrder(userId: string, input: OcoOrderInput): Promise<Order[]> {
+    const { side, quantity, takeProfitPrice, stopPrice, stopLimitPrice } = input;
+
+    if (side === 'sell' && takeProfitPrice <= stopPrice) {
+      throw new InvalidOrderError('Sell OCO requires takeProfitPrice above stopPrice');
+    }
+    if (side === 'buy' && takeProfitPrice >= stopPrice) {
+      throw new InvalidOrderError('Buy OCO requires takeProfitPrice below stopPrice');
+    }
+
+    const limitLeg = {
+      side,
+      type: 'limit' as OrderType,
+      limitPrice: takeProfitPrice,
+      triggerPrice: null
+    };
+    const stopLeg = {
+      side,
+      type: (stopLimitPrice !== undefined ? 'stop_limit' : 'stop_market') as OrderType,
+      limitPrice: stopLimitPrice ?? null,
+      triggerPrice: stopPrice
+    };
+
+    const marketPrice = await paperTradingService.getMarketPrice();
+    this.validateOrderPrices(limitLeg, marketPrice);
+    this.validateOrderPrices(stopLeg, marketPrice);
+    await this.checkBuyingPower(
+      userId,
+      side,
+      quantity,
+      Math.max(this.referencePrice(limitLeg), this.referencePrice(stopLeg))
+    );
+
+    const ocoGroupId = uuidv4();
+    const orders = await prisma.$transaction(
+      [limitLeg, stopLeg].map((leg) =>
+        prisma.order.create({
+          data: {
+            userId,
+            ...leg,
+            quantity,
+            ocoGroupId,
+            expiresAt: input.expiresAt ?? null
+          }
+        })
+      )
+    );
+
+    console.log(`📝 OCO placed: ${side} ${quantity} BTC, TP $${takeProfitPrice} / SL $${stopPrice} (${ocoGroupId})`);
+    return orders;
+  }
+
+  /**
+   * Get a user's orders, newest first
+   */
+  async getOrders(
+    userId: string,
+    options: { status?: OrderStatus[]; limit?: number } = {}
+  ): Promise<Order[]> {
+    return prisma.order.findMany({
+      where: {
+        userId,
+        ...(options.status && { status: { in: options.status } })
+      },
+      orderBy: { createdAt: 'desc' },
+      take: options.limit ?? 50
+    });
+  }
+
+  /**
+   * Get a single order owned by the user
+   */
+  async getOrder(userId: string, orderId: string): Promise<Order> {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, userId }
+    });
+
+    if (!order) {
+      throw new OrderNotFoundError(orderId);
+    }
+    return order;
+  }
+
+  /**
+   * Amend quantity, prices or expiry of an active order
+   */
+  async amendOrder(userId: string, orderId: string, input: OrderAmendInput): Promise<Order> {
+    const order = await this.getOrder(userId, orderId);
+    this.assertActive(order);
+
+    const quantity = input.quantity ?? order.quantity;
+    if (quantity - order.filledQuantity < DUST_THRESHOLD) {
+      throw new InvalidOrderError(`Quantity must exceed the filled amount (${order.filledQuantity} BTC)`);
+    }
+    if (order.triggered && input.triggerPrice !== undefined) {
+      throw new InvalidOrderError('Trigger price cannot be changed after the stop has triggered');
+    }
+
+    const amended = {
+      side: order.side,
+      type: order.type,
+      limitPrice: input.limitPrice ?? order.limitPrice,
+      triggerPrice: input.triggerPrice ?? order.triggerPrice
+    };
+
+    // A triggered stop-limit rests as a plain limit order
+    this.validateOrderPrices(
+      order.triggered ? { ...amended, type: 'limit' } : amended,
+      await paperTradingService.getMarketPrice()
+    );
+    // Filled parts are already settled, so only the rest must be covered
+    await this.checkBuyingPower(
+      userId,
+      order.side as OrderSide,
+      quantity - order.filledQuantity,
+      this.referencePrice(amended)
+    );
+
+    return prisma.order.update({
+      where: { id: order.id },
+      data: {
+        quantity,
+        limitPrice: amended.limitPrice,
+        triggerPrice: amended.triggerPrice,
+        ...(input.expiresAt !== undefined && { expiresAt: input.expiresAt })
+      }
+    });
+  }
+
+  /**
+   * Cancel an active order; cancelling one OCO leg cancels the whole group
+   */
+  async cancelOrder(userId: string, orderId: string): Promise<Order[]> {
+    const order = await this.getOrder(userId, orderId);
+    this.assertActive(order);
+
+    const where = order.ocoGroupId
+      ? { ocoGroupId: order.ocoGroupId, status: { in: ACTIVE_ORDER_STATUSES } }
+      : { id: order.id };
+
+    await prisma.order.updateMany({
+      where,
+      data: { status: 'cancelled', cancelledAt: new Date() }
+    });
+
+    return prisma.order.findMany({
+      where: order.ocoGroupId ? { ocoGroupId: order.ocoGroupId } : { id: order.id }
+    });
+  }
+
+  /**
+   * Match all active orders against a new price. Called for every stored
+   * BitcoinPrice row and every Binance ticker tick. Ticks that arrive while a
+   * pass is running are coalesced into one follow-up pass at the latest price.
+   */
+  async matchOrders(price: number, at: Date = new Date()): Promise<OrderMatchResult | null> {
+    if (!Number.isFinite(price) || price <= 0) {
+      return null;
+    }
+
+    if (this.isMatching) {
+      this.queuedPrice = price;
+      return null;
+    }
+
+    this.isMatching = true;
+    try {
+      const result = await this.runMatchingPass(price, at);
+
+      while (this.queuedPrice !== null) {
+        const nextPrice = this.queuedPrice;
+        this.queuedPrice = null;
+        await this.runMatchingPass(nextPrice, new Date());
+      }
+
+      return result;
+    } finally {
+      this.isMatching = false;
+    }
+  }
+
+  private async runMatchingPass(price: number, at: Date): Promise<OrderMatchResult> {
+    const result: OrderMatchResult = { price, filled: 0, triggered: 0, expired: 0 };
+
+    const expired = await prisma.order.updateMany({
+      where: {
+        status: { in: ACTIVE_ORDER_STATUSES },
+        expiresAt: { lte: at }
+      },
+      data: { status: 'expired' }
+    });
+    result.expired = expired.count;
+
+    const orders = await prisma.order.findMany({
+      where: { status: { in: ACTIVE_ORDER_STATUSES } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    for (const order of orders) {
+      if (!order.triggered && order.type !== 'limit') {
+        if (!this.isTriggered(order, price)) continue;
+
+        if (order.type === 'stop_limit') {
+          await prisma.order.update({
+            where: { id: order.id },
+            data: { triggered: true }
+          });
+          result.triggered++;
+        }
+      }
+
+      if (!this.isMarketable(order, price)) continue;
+
+      if (await this.fillOrder(order.id, price)) {
+        result.filled++;
+      }
+    }
+
+    if (result.filled > 0 || result.triggered > 0 || result.expired > 0) {
+      console.log(`⚖️ Order matching at $${price.toLocaleString()}: ${result.filled} filled, ${result.triggered} triggered, ${result.expired} expired`);
+    }
+    return result;
+  }
+
+  /**
+   * Fill as much of an order as the owner's portfolio allows, atomically with
+   * the portfolio update and OCO sibling cancellation
+   */
+  private async fillOrder(orderId: string, price: number): Promise<boolean> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const order = await tx.order.findUnique({ where: { id: orderId } });
+        if (!order || !ACTIVE_ORDER_STATUSES.includes(order.status as OrderStatus)) {
+          return false;
+        }
+
+        const side = order.side as OrderSide;
+        const remaining = order.quantity - order.filledQuantity;
+        const available = await paperTradingService.getMaxTradeAmount(tx, order.userId, side, price);
+        const fillQuantity = Math.min(remaining, available);
+
+        if (fillQuantity < DUST_THRESHOLD) {
+          return false;
+        }
+
+        await paperTradingService.applyTrade(
+          tx,
+          { userId: order.userId, type: side, amount: fillQuantity, orderId: order.id },
+          price
+        );
+
+        const filledQuantity = order.filledQuantity + fillQuantity;
+        const averageFillPrice =
+          ((order.averageFillPrice ?? 0) * order.filledQuantity + price * fillQuantity) / filledQuantity;
+        const isFilled = order.quantity - filledQuantity < DUST_THRESHOLD;
+        const now = new Date();
+
+        await tx.order.update({
+          where: { id: order.id },
+          data: {
+            filledQuantity,
+            averageFillPrice,
+            status: isFilled ? 'filled' : 'partially_filled',
+            ...(isFilled && { filledAt: now })
+          }
+        });
+
+        if (order.ocoGroupId) {
+          await tx.order.updateMany({
+            where: {
+              ocoGroupId: order.ocoGroupId,
+              id: { not: order.id },
+              status: { in: ACTIVE_ORDER_STATUSES }
+            },
+            data: { status: 'cancelled', cancelledAt: now }
+          });
+        }
+
+        return true;
+      });
+    } catch (error) {
+      if (error instanceof TradingError) {
+        console.warn(`⚠️ Could not fill order ${orderId}: ${error.message}`);
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private isTriggered(order: OrderPrices, price: number): boolean {
+    const trigger = order.triggerPrice ?? 0;
+
+    switch (order.type) {
+      case 'stop_market':
+      case 'stop_limit':
+        return order.side === 'buy' ? price >= trigger : price <= trigger;
+      case 'take_profit':
+        return order.side === 'buy' ? price <= trigger : price >= trigger;
+      default:
+        return true;
+    }
+  }
+
+  private isMarketable(order: OrderPrices, price: number): boolean {
+    if (order.type !== 'limit' && order.type !== 'stop_limit') {
+      return true;
+    }
+
+    const limit = order.limitPrice ?? 0;
+    return order.side === 'buy' ? price <= limit : price >= limit;
+  }
+
+  private validateOrderPrices(order: OrderPrices, marketPrice: number | null): void {
+    const needsLimit = order.type === 'limit' || order.type === 'stop_limit';
+    const needsTrigger = order.type !== 'limit';
+
+    if (needsLimit && !order.limitPrice) {
+      throw new InvalidOrderError(`${order.type} orders require a limitPrice`);
+    }
+    if (needsTrigger && !order.triggerPrice) {
+      throw new InvalidOrderError(`${order.type} orders require a triggerPrice`);
+    }
+
+    // Reject stops and take-profits that would fire immediately
+    if (needsTrigger && marketPrice && this.isTriggered(order, marketPrice)) {
+      // Buy stops and sell take-profits sit above the market, the others below it
+      const direction = (order.type === 'take_profit') === (order.side === 'sell') ? 'above' : 'below';
+      throw new InvalidOrderError(
+        `${order.side} ${order.type} triggerPrice must be ${direction} the current price ($${marketPrice.toLocaleString()})`
+      );
+    }
+  }
+
+  private referencePrice(order: OrderPrices): number {
+    return order.limitPrice ?? order.triggerPrice ?? 0;
+  }
+
+  private async checkBuyingPower(userId: string, side: OrderSide, quantity: number, price: number): Promise<void> {
+    const portfolio = await paperTradingService.getPortfolio(userId);
+
+    if (side === 'buy') {
+      const required = quantity * price * (1 + TRADING_FEE_RATE);
+      if (portfolio.balance < required) {
+        throw new InsufficientFundsError(required, portfolio.balance);
+      }
+    } else if (portfolio.bitcoinHoldings + DUST_THRESHOLD < quantity) {
+      throw new InsufficientHoldingsError(quantity, portfolio.bitcoinHoldings);
+    }
+  }
+
+  private assertActive(order: Order): void {
+    if (!ACTIVE_ORDER_STATUSES.includes(order.status as OrderStatus)) {
+      throw new OrderNotActiveError(order);
+    }
+  }
+}
+
+// Export singleton instance
+export const orderService = new OrderService();
@@ -0,0 +1,374 @@
+// Paper trading engine backed by the Prisma Portfolio and Trade models
+
+import { prisma } from '../database/prisma-client';
+import { marketDataService } from './market-data-service';
+import type { Portfolio, Prisma, Trade } from '@prisma/client';
+
+export const TRADING_FEE_RATE = 0.001; // 0.1% trading fee, same as PortfolioService
+
+const INITIAL_BALANCE = parseFloat(process.env.INITIAL_BALANCE || '10000');
+export const DUST_THRESHOLD = 1e-8; // Smallest BTC amount (1 satoshi)
+const STORED_PRICE_MAX_AGE_MS = 5 * 60 * 1000; // Older stored prices give way to a live quote
+
+export type TradeSide = 'buy' | 'sell';
+
+export interface PaperTradeRequest {
+  userId: string;
+  type: TradeSide;
+  amount: number; // Amount of BTC
+  price?: number; // Execution price; defaults to getMarketPrice()
+}
+
+export interface PaperTradeResult {
+  trade: Trade;
+  portfolio: Portfolio;
+}
+
+/**
+ * Base class for trading errors; `status` is the HTTP status routes should return
+ */
+export class TradingError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly status: number = 400
+  ) {
+    super(message);
+    this.name = 'TradingError';
+  }
+}
+
+export class InvalidTradeError extends TradingError {
+  constructor(message: string) {
+    super(message, 'INVALID_TRADE', 400);
+    this.name = 'InvalidTradeError';
+  }
+}
+
+export class InsufficientFundsError extends TradingError {
+  constructor(public readonly required: number, public readonly available: number) {
+    super(
+      `Insufficient balance. Need $${required.toFixed(2)}, have $${available.toFixed(2)}`,
+      'INSUFFICIENT_FUNDS',
+      422
+    );
+    this.name = 'InsufficientFundsError';
+  }
+}
+
+export class InsufficientHoldingsError extends TradingError {
+  constructor(public readonly required: number, public readonly available: number) {
+    super(
+      `Insufficient Bitcoin. Trying to sell ${required} BTC, have ${available} BTC`,
+      'INSUFFICIENT_HOLDINGS',
+      422
+    );
+    this.name = 'InsufficientHoldingsError';
+  }
+}
+
+export class PriceUnavailableError extends TradingError {
+  constructor() {
+    super('No Bitcoin price available to execute against', 'PRICE_UNAVAILABLE', 503);
+    this.name = 'PriceUnavailableError';
+  }
+}
+
+export class ConcurrentTradeError extends TradingError {
+  constructor() {
+    super('Portfolio was modified by another trade, please retry', 'CONCURRENT_MODIFICATION', 409);
+    this.name = 'ConcurrentTradeError';
+  }
+}
+
+type PortfolioValuation = Pick<
+  Portfolio,
+  'totalValue' | 'profit' | 'profitPercentage' | 'unrealizedPnl'
+>;
+
+export class PaperTradingService {
+  /**
+   * Get a user's portfolio, creating it on first access
+   */
+  async getPortfolio(userId: string): Promise<Portfolio> {
+    return this.ensurePortfolio(prisma, userId);
+  }
+
+  /**
+   * An unsaved portfolio at the initial balance, for analysis that belongs to no user
+   */
+  getStartingPortfolio(): Portfolio {
+    return { id: 0, ...this.initialPortfolioData(''), lastUpdated: new Date() };
+  }
+
+  /**
+   * Execute a market order atomically: balance, holdings, cost basis and the
+   * trade record are written in a single transaction
+   */
+  async executeTrade(request: PaperTradeRequest): Promise<PaperTradeResult> {
+    const { userId, type, amount } = request;
+
+    if (type !== 'buy' && type !== 'sell') {
+      throw new InvalidTradeError('Invalid trade type. Must be "buy" or "sell"');
+    }
+    if (!Number.isFinite(amount) || amount < DUST_THRESHOLD) {
+      throw new InvalidTradeError('Invalid amount. Must be a positive number');
+    }
+
+    const price = request.price ?? (await this.getMarketPrice());
+    if (!price || !Number.isFinite(price) || price <= 0) {
+      throw new PriceUnavailableError();
+    }
+
+    return prisma.$transaction((tx) => this.applyTrade(tx, { userId, type, amount }, price));
+  }
+
+  /**
+   * Apply a fill inside an existing transaction. Callers are responsible for
+   * validating the request; the order matcher uses this to keep the order and
+   * portfolio updates atomic.
+   */
+  async applyTrade(
+    tx: Prisma.TransactionClient,
+    request: { userId: string; type: TradeSide; amount: number; orderId?: string },
+    price: number
+  ): Promise<PaperTradeResult> {
+    const { userId, type, amount } = request;
+    const portfolio = await this.ensurePortfolio(tx, userId);
+
+    const total = amount * price;
+    const fee = total * TRADING_FEE_RATE;
+
+    let balance = portfolio.balance;
+    let holdings = portfolio.bitcoinHoldings;
+    let averageCost = portfolio.averageCost;
+    let realizedPnl: number | null = null;
+
+    if (type === 'buy') {
+      const cost = total + fee;
+      if (portfolio.balance < cost) {
+        throw new InsufficientFundsError(cost, portfolio.balance);
+      }
+
+      balance -= cost;
+      averageCost = (holdings * averageCost + cost) / (holdings + amount);
+      holdings += amount;
+    } else {
+      if (portfolio.bitcoinHoldings + DUST_THRESHOLD < amount) {
+        throw new InsufficientHoldingsError(amount, portfolio.bitcoinHoldings);
+      }
+
+      const proceeds = total - fee;
+      realizedPnl = proceeds - averageCost * amount;
+      balance += proceeds;
+      holdings -= amount;
+
+      if (holdings < DUST_THRESHOLD) {
+        holdings = 0;
+        averageCost = 0;
+      }
+    }
+
+    const valuation = this.valuate(
+      { ...portfolio, balance, bitcoinHoldings: holdings, averageCost },
+      price
+    );
+
+    // Conditional write: fails if another trade changed the row since we read it
+    const { count } = await tx.portfolio.updateMany({
+      where: {
+        id: portfolio.id,
+        balance: portfolio.balance,
+        bitcoinHoldings: portfolio.bitcoinHoldings
+      },
+      data: {
+        balance,
+        bitcoinHoldings: holdings,
+        averageCost,
+        realizedPnl: { increment: realizedPnl ?? 0 },
+        totalFees: { increment: fee },
+        ...valuation,
+        lastUpdated: new Date()
+      }
+    });
+
+    if (count === 0) {
+      throw new ConcurrentTradeError();
+    }
+
+    const trade = await tx.trade.create({
+      data: {
+        userId,
+        type,
+        amount,
+        price,
+        total,
+        fee,
+        realizedPnl,
+        orderId: request.orderId ?? null
+      }
+    });
+
+    const updatedPortfolio = await tx.portfolio.findUniqueOrThrow({
+      where: { id: portfolio.id }
+    });
+
+    console.log(`✅ Paper trade executed: ${type} ${amount} BTC at $${price.toFixed(2)} (fee $${fee.toFixed(2)})`);
+    return { trade, portfolio: updatedPortfolio };
+  }
+
+  /**
+   * Largest amount that can be traded at the given price: cash after fees for
+   * buys, current holdings for sells. Rounded down to whole satoshis.
+   */
+  async getMaxTradeAmount(
+    client: Prisma.TransactionClient,
+    userId: string,
+    type: TradeSide,
+    price: number
+  ): Promise<number> {
+    const portfolio = await this.ensurePortfolio(client, userId);
+
+    if (type === 'sell') {
+      return portfolio.bitcoinHoldings;
+    }
+
+    // Keep half a satoshi of headroom so float rounding never overdraws the balance
+    const affordable = portfolio.balance / (price * (1 + TRADING_FEE_RATE)) - DUST_THRESHOLD / 2;
+    return Math.max(0, Math.floor(affordable / DUST_THRESHOLD) * DUST_THRESHOLD);
+  }
+
+  /**
+   * Revalue a portfolio at the given (or current market) price
+   */
+  async markToMarket(userId: string, price?: number): Promise<Portfolio> {
+    const portfolio = await this.ensurePortfolio(prisma, userId);
+    const marketPrice = price ?? (await this.getMarketPrice());
+
+    if (!marketPrice) {
+      return portfolio;
+    }
+
+    return prisma.portfolio.update({
+      where: { id: portfolio.id },
+      data: {
+        ...this.valuate(portfolio, marketPrice),
+        lastUpdated: new Date()
+      }
+    });
+  }
+
+  /**
+   * Revalue every portfolio at the given price (used after each price update)
+   */
+  async markAllToMarket(price: number): Promise<number> {
+    const portfolios = await prisma.portfolio.findMany();
+
+    await Promise.all(
+      portfolios.map((portfolio) =>
+        prisma.portfolio.update({
+          where: { id: portfolio.id },
+          data: {
+            ...this.valuate(portfolio, price),
+            lastUpdated: new Date()
+          }
+        })
+      )
+    );
+
+    return portfolios.length;
+  }
+
+  /**
+   * Reset a portfolio to its initial balance and clear its trade history
+   */
+  async resetPortfolio(userId: string): Promise<Portfolio> {
+    return prisma.$transaction(async (tx) => {
+      await tx.trade.deleteMany({ where: { userId } });
+
+      return tx.portfolio.upsert({
+        where: { userId },
+        create: this.initialPortfolioData(userId),
+        update: {
+          ...this.initialPortfolioData(userId),
+          lastUpdated: new Date()
+        }
+      });
+    });
+  }
+
+  /**
+   * Get a user's most recent trades
+   */
+  async getTradeHistory(userId: string, limit: number = 50): Promise<Trade[]> {
+    return prisma.trade.findMany({
+      where: { userId },
+      orderBy: { timestamp: 'desc' },
+      take: limit
+    });
+  }
+
+  /**
+   * Latest stored Bitcoin price while the price pipeline keeps it fresh, otherwise the
+   * BTC quote from the market data provider; an old stored price is the last resort.
+   * Null when no price is available at all.
+   */
+  async getMarketPrice(): Promise<number | null> {
+    const latest = await prisma.bitcoinPrice.findFirst({
+      orderBy: { timestamp: 'desc' }
+    });
+
+    if (latest && Date.now() - latest.timestamp.getTime() < STORED_PRICE_MAX_AGE_MS) {
+      return latest.price;
+    }
+
+    const quote = await marketDataService.getQuote('BTC');
+    return quote?.price ?? latest?.price ?? null;
+  }
+
+  private async ensurePortfolio(
+    client: Prisma.TransactionClient,
+    userId: string
+  ): Promise<Portfolio> {
+    const existing = await client.portfolio.findUnique({ where: { userId } });
+    if (existing) {
+      return existing;
+    }
+
+    return client.portfolio.create({ data: this.initialPortfolioData(userId) });
+  }
+
+  private initialPortfolioData(userId: string) {
+    return {
+      userId,
+      balance: INITIAL_BALANCE,
+      bitcoinHoldings: 0,
+      totalValue: INITIAL_BALANCE,
+      profit: 0,
+      profitPercentage: 0,
+      initialBalance: INITIAL_BALANCE,
+      averageCost: 0,
+      realizedPnl: 0,
+      unrealizedPnl: 0,
+      totalFees: 0
+    };
+  }
+
+  private valuate(
+    portfolio: Pick<Portfolio, 'balance' | 'bitcoinHoldings' | 'averageCost' | 'initialBalance'>,
+    price: number
+  ): PortfolioValuation {
+    const totalValue = portfolio.balance + portfolio.bitcoinHoldings * price;
+    const profit = totalValue - portfolio.initialBalance;
+
+    return {
+      totalValue,
+      profit,
+      profitPercentage: portfolio.initialBalance > 0 ? (profit / portfolio.initialBalance) * 100 : 0,
+      unrealizedPnl: (price - portfolio.averageCost) * portfolio.bitcoinHoldings
+    };
+  }
+}
+
+// Export singleton instance
+export const paperTradingService = new PaperTradingService();
@@ -0,0 +1,99 @@
+// Pattern performance service: tracks the outcomes of agent trades attributed to
+// a pattern and derives Pattern.confidenceRate from them.
+
+import { prisma } from '../database/prisma-client';
+import type { PatternPerformance } from '@/types/game';
+import type { Pattern, Prisma } from '@prisma/client';
+
+const PRIOR_WEIGHT = 10; // The user-stated confidence counts as this many pseudo-trades
+
+/**
+ * Posterior mean win probability (0-100) under a Beta prior centred on the
+ * stated confidence. With no trades this is the prior; with many it approaches the win rate.
+ */
+export function bayesianConfidence(priorConfidence: number, successCount: number, totalTrades: number): number {
+  const priorWins = (priorConfidence / 100) * PRIOR_WEIGHT;
+  const posterior = ((priorWins + successCount) / (PRIOR_WEIGHT + totalTrades)) * 100;
+  return parseFloat(posterior.toFixed(1));
+}
+
+export class PatternPerformanceService {
+
+  /**
+   * Outcome statistics for each pattern from its closed (sell) agent trades
+   */
+  async getPerformance(
+    patterns: Pick<Pattern, 'id' | 'updatedAt'>[],
+    client: Prisma.TransactionClient = prisma
+  ): Promise<Map<string, PatternPerformance>> {
+    const patternIds = patterns.map((p) => p.id);
+    const closed = { patternId: { in: patternIds }, profitLoss: { not: null } };
+
+    const [outcomes, wins] = await Promise.all([
+      client.agentTrade.groupBy({
+        by: ['patternId'],
+        where: closed,
+        _count: { _all: true },
+        _avg: { percentReturn: true },
+        _max: { timestamp: true }
+      }),
+      client.agentTrade.groupBy({
+        by: ['patternId'],
+        where: { ...closed, profitLoss: { gt: 0 } },
+        _count: { _all: true }
+      })
+    ]);
+
+    const performance = new Map<string, PatternPerformance>();
+    for (const pattern of patterns) {
+      const outcome = outcomes.find((o) => o.patternId === pattern.id);
+      const totalTrades = outcome?._count._all ?? 0;
+      const successCount = wins.find((w) => w.patternId === pattern.id)?._count._all ?? 0;
+
+      performance.set(pattern.id, {
+        patternId: pattern.id,
+        successCount,
+        failureCount: totalTrades - successCount,
+        totalTrades,
+        averageReturn: parseFloat((outcome?._avg.percentReturn ?? 0).toFixed(2)),
+        winRate: totalTrades > 0 ? parseFloat(((successCount / totalTrades) * 100).toFixed(1)) : 0,
+        lastUpdated: outcome?._max.timestamp ?? pattern.updatedAt
+      });
+    }
+
+    return performance;
+  }
+
+  /**
+   * Attach performance to patterns, e.g. for API responses and prompts
+   */
+  async withPerformance<T extends Pick<Pattern, 'id' | 'updatedAt'>>(
+    patterns: T[]
+  ): Promise<Array<T & { performance: PatternPerformance }>> {
+    const performance = await this.getPerformance(patterns);
+    return patterns.map((pattern) => ({ ...pattern, performance: performance.get(pattern.id)! }));
+  }
+
+  /**
+   * Recalculate a pattern's confidenceRate from its prior and trade outcomes
+   */
+  async recalculate(patternId: string, client: Prisma.TransactionClient = prisma): Promise<Pattern | null> {
+    const pattern = await client.pattern.findUnique({ where: { id: patternId } });
+    if (!pattern) return null;
+
+    const performance = (await this.getPerformance([pattern], client)).get(pattern.id)!;
+    const confidenceRate = bayesianConfidence(pattern.priorConfidence, performance.successCount, performance.totalTrades);
+
+    if (confidenceRate === pattern.confidenceRate) return pattern;
+
+    console.log(`🎯 Pattern "${pattern.name}" confidence ${pattern.confidenceRate}% → ${confidenceRate}% (${performance.successCount}/${performance.totalTrades} wins)`);
+
+    return client.pattern.update({
+      where: { id: patternId },
+      data: { confidenceRate }
+    });
+  }
+}
+
+// Export singleton instance
+export const patternPerformanceService = new PatternPerformanceService();
@@ -0,0 +1,63 @@
+// Pattern rule service: runs a pattern's executable rule over stored candles
+
+import { prisma } from '../database/prisma-client';
+import { AgentNotFoundError } from './backtest-service';
+import { candleService, toIndicatorCandle } from './candle-service';
+import { TradingError } from './paper-trading-service';
+import { evaluatePatternRule, parsePatternRule } from '@/lib/patterns/pattern-rules';
+import type { PatternRuleEvaluationInput } from '@/lib/validation/pattern-schemas';
+import type { PatternRuleResult } from '@/types/game';
+
+export class PatternRuleService {
+
+  /**
+   * Evaluate a rule, or the stored rule of one of the agent's patterns, over the latest
+   * `limit` candles. Extra candles are loaded in front so the window starts warmed up.
+   */
+  async evaluate(agentId: string, input: PatternRuleEvaluationInput): Promise<PatternRuleResult> {
+    const agent = await prisma.agent.findUnique({ where: { id: agentId }, select: { id: true } });
+    if (!agent) {
+      throw new AgentNotFoundError(agentId);
+    }
+
+    const source = input.rule ?? await this.getPatternRule(agentId, input.patternId!);
+    const rule = parsePatternRule(source);
+
+    const candles = await candleService.getCandles({
+      symbol: input.symbol,
+      interval: input.interval,
+      limit: input.limit + rule.lookback
+    });
+    const { values, triggers } = evaluatePatternRule(rule, candles.map(toIndicatorCandle));
+    const start = Math.max(rule.lookback, candles.length - input.limit);
+    const window = candles.slice(start);
+
+    return {
+      rule: source,
+      symbol: input.symbol,
+      interval: input.interval,
+      lookback: rule.lookback,
+      candleCount: window.length,
+      from: window[0]?.openTime ?? null,
+      to: window[window.length - 1]?.closeTime ?? null,
+      holding: values.length > 0 && values[values.length - 1],
+      triggers: triggers
+        .filter((index) => index >= start)
+        .map((index) => ({ time: candles[index].closeTime, price: candles[index].close }))
+    };
+  }
+
+  private async getPatternRule(agentId: string, patternId: string): Promise<string> {
+    const pattern = await prisma.pattern.findFirst({ where: { id: patternId, agentId } });
+    if (!pattern) {
+      throw new TradingError(`Pattern not found: ${patternId}`, 'PATTERN_NOT_FOUND', 404);
+    }
+    if (!pattern.rule) {
+      throw new TradingError(`Pattern ${pattern.name} has no rule`, 'PATTERN_RULE_MISSING', 422);
+    }
+    return pattern.rule;
+  }
+}
+
+// Export singleton instance
+export const patternRuleService = new PatternRuleService();
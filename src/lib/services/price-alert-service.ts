@@ -0,0 +1,218 @@
+// Price alert service: checks incoming prices against the alert rules of user and
+// agent watchlist items, records trigger state and publishes fired alerts to subscribers.
+
+import { prisma } from '../database/prisma-client';
+import { marketDataService } from './market-data-service';
+import { normalizeSymbol } from '../market-data/market-data-utils';
+import { DEFAULT_PRICE_ALERT_CONFIG, evaluatePriceAlert, hasActiveRule } from '../alerts/price-alert-rules';
+import type {
+  PriceAlertConfig,
+  PriceAlertEvent,
+  PriceAlertHit,
+  PriceAlertRule,
+  PriceAlertState,
+  PriceAlertTarget
+} from '@/types/alerts';
+
+const RECENT_EVENT_LIMIT = 100; // Kept for subscribers that reconnect with Last-Event-ID
+
+export type PriceAlertListener = (event: PriceAlertEvent) => void;
+
+interface AlertItem extends PriceAlertRule {
+  id: string;
+  ownerId: string;
+  symbol: string;
+  name: string;
+  alertTriggered: boolean;
+  lastAlertAt: Date | null;
+  alertBasePrice: number | null;
+}
+
+const ACTIVE_RULE_WHERE = {
+  OR: [
+    { alertPrice: { not: null }, alertType: { not: null } },
+    { alertPercent: { not: null } }
+  ]
+};
+
+export class PriceAlertService {
+  private listeners = new Set<PriceAlertListener>();
+  private recent: PriceAlertEvent[] = [];
+  private nextEventId = 1;
+  private lastPrices = new Map<string, number>(); // `${target}:${itemId}` → previous price
+  private running = new Map<string, Promise<void>>(); // symbol → evaluation in progress
+  private queued = new Map<string, number>(); // symbol → latest price awaiting evaluation
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+  private stopQuotes: (() => void) | null = null;
+
+  /**
+   * Settings from PRICE_ALERT_COOLDOWN_MS, PRICE_ALERT_REARM_PERCENT and PRICE_ALERT_SWEEP_MS
+   */
+  getConfig(): PriceAlertConfig {
+    return {
+      cooldownMs: parseInt(process.env.PRICE_ALERT_COOLDOWN_MS || '') || DEFAULT_PRICE_ALERT_CONFIG.cooldownMs,
+      rearmPercent: parseFloat(process.env.PRICE_ALERT_REARM_PERCENT || '') || DEFAULT_PRICE_ALERT_CONFIG.rearmPercent,
+      sweepIntervalMs: parseInt(process.env.PRICE_ALERT_SWEEP_MS || '') || DEFAULT_PRICE_ALERT_CONFIG.sweepIntervalMs
+    };
+  }
+
+  /**
+   * Evaluate every quote the market data service fetches, and re-quote symbols with
+   * active alerts periodically so they are checked without a live feed
+   */
+  start(): void {
+    if (this.sweepTimer) return;
+
+    this.stopQuotes = marketDataService.onQuotes((quotes) => {
+      quotes.forEach((quote) => void this.onPrice(quote.symbol, quote.price));
+    });
+    this.sweepTimer = setInterval(() => void this.sweep(), this.getConfig().sweepIntervalMs);
+    this.sweepTimer.unref?.();
+
+    console.log('🔔 Price alert service started');
+    void this.sweep();
+  }
+
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    this.stopQuotes?.();
+    this.stopQuotes = null;
+  }
+
+  /**
+   * Check a new price for a symbol. Prices arriving while the symbol is being
+   * evaluated are coalesced; only the latest is evaluated next.
+   */
+  onPrice(symbol: string, price: number): Promise<void> {
+    const key = normalizeSymbol(symbol);
+    const inProgress = this.running.get(key);
+    if (inProgress) {
+      this.queued.set(key, price);
+      return inProgress;
+    }
+
+    const run = (async () => {
+      let next: number | undefined = price;
+      while (next !== undefined) {
+        this.queued.delete(key);
+        try {
+          await this.evaluateSymbol(key, next);
+        } catch (error) {
+          console.error(`❌ Price alert evaluation failed for ${key}:`, error);
+        }
+        next = this.queued.get(key);
+      }
+    })().finally(() => this.running.delete(key));
+
+    this.running.set(key, run);
+    return run;
+  }
+
+  /**
+   * Evaluate the alerts of every watchlist item for the symbol and return those that fired
+   */
+  async evaluateSymbol(symbol: string, price: number, now: Date = new Date()): Promise<PriceAlertEvent[]> {
+    const [userItems, agentItems] = await Promise.all([
+      prisma.watchlistItem.findMany({ where: { symbol, ...ACTIVE_RULE_WHERE } }),
+      prisma.agentWatchlistItem.findMany({ where: { symbol, isActive: true, ...ACTIVE_RULE_WHERE } })
+    ]);
+
+    const events: PriceAlertEvent[] = [];
+    for (const item of userItems) {
+      const event = await this.evaluateItem('watchlist', { ...item, ownerId: item.userId }, price, now);
+      if (event) events.push(event);
+    }
+    for (const item of agentItems) {
+      const event = await this.evaluateItem('agent_watchlist', { ...item, ownerId: item.agentId }, price, now);
+      if (event) events.push(event);
+    }
+    return events;
+  }
+
+  /**
+   * Receive fired alerts; events after afterId that are still buffered are replayed first
+   */
+  subscribe(listener: PriceAlertListener, afterId: number = 0): () => void {
+    this.recent.filter((event) => event.id > afterId).forEach(listener);
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async evaluateItem(target: PriceAlertTarget, item: AlertItem, price: number, now: Date): Promise<PriceAlertEvent | null> {
+    if (!hasActiveRule(item)) return null;
+
+    const key = `${target}:${item.id}`;
+    const state: PriceAlertState = {
+      triggered: item.alertTriggered,
+      lastAlertAt: item.lastAlertAt,
+      basePrice: item.alertBasePrice,
+      lastPrice: this.lastPrices.get(key) ?? null
+    };
+    const result = evaluatePriceAlert(item, state, price, now, this.getConfig());
+    this.lastPrices.set(key, price);
+
+    if (result.changed) {
+      const data = {
+        alertTriggered: result.state.triggered,
+        lastAlertAt: result.state.lastAlertAt,
+        alertBasePrice: result.state.basePrice
+      };
+      if (target === 'watchlist') {
+        await prisma.watchlistItem.update({ where: { id: item.id }, data });
+      } else {
+        await prisma.agentWatchlistItem.update({ where: { id: item.id }, data });
+      }
+    }
+
+    return result.hit ? this.publish(target, item, price, result.hit, now) : null;
+  }
+
+  private publish(target: PriceAlertTarget, item: AlertItem, price: number, hit: PriceAlertHit, now: Date): PriceAlertEvent {
+    const event: PriceAlertEvent = {
+      ...hit,
+      id: this.nextEventId++,
+      target,
+      itemId: item.id,
+      ownerId: item.ownerId,
+      symbol: item.symbol,
+      name: item.name,
+      price,
+      triggeredAt: now.toISOString()
+    };
+
+    this.recent.push(event);
+    if (this.recent.length > RECENT_EVENT_LIMIT) this.recent.shift();
+    console.log(`🔔 Price alert: ${item.symbol} ${hit.reason} ${hit.threshold} at ${price} (${target} ${item.id})`);
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('❌ Price alert listener failed:', error);
+      }
+    }
+    return event;
+  }
+
+  private async sweep(): Promise<void> {
+    try {
+      const [userSymbols, agentSymbols] = await Promise.all([
+        prisma.watchlistItem.findMany({ where: ACTIVE_RULE_WHERE, select: { symbol: true }, distinct: ['symbol'] }),
+        prisma.agentWatchlistItem.findMany({ where: { isActive: true, ...ACTIVE_RULE_WHERE }, select: { symbol: true }, distinct: ['symbol'] })
+      ]);
+      const symbols = [...userSymbols, ...agentSymbols].map((item) => item.symbol);
+      if (symbols.length === 0) return;
+
+      // Fetched quotes reach onPrice through the onQuotes listener
+      await marketDataService.getQuotes(symbols);
+    } catch (error) {
+      console.error('❌ Price alert sweep failed:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const priceAlertService = new PriceAlertService();
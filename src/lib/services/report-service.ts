@@ -14,6 +14,9 @@ export class ReportService {
   async generateReport(agentType: string): Promise<AnalysisReport> {
     // Generate report from dynamic agent service
     const report = await dynamicAgentService.generateReport(agentType);
+    if (report.llm) {
+      console.log(`🧠 ${report.agentName} report written by ${report.llm.provider}/${report.llm.model} (${report.llm.totalTokens} tokens)`);
+    }
 
     // Save to database
     await prisma.analysisReport.create({
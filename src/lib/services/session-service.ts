@@ -0,0 +1,286 @@
+// Session service: one Session row per signed-in device, with refresh tokens that rotate
+// on every use. Presenting a refresh token that was already rotated away revokes the session;
+// a token the session never issued is just rejected.
+
+import { randomUUID } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../database/prisma-client';
+import {
+  REFRESH_TOKEN_TTL_SECONDS,
+  createRefreshToken,
+  hashToken,
+  parseRefreshToken,
+  signAccessToken
+} from '@/lib/auth/tokens';
+import type { CurrentUser, SessionClientInfo, SessionSummary } from '@/types/auth';
+
+export type SessionRevokeReason = 'logout' | 'revoked' | 'password_change' | 'password_reset' | 'reuse_detected';
+
+export interface IssuedTokens {
+  sessionId: string;
+  accessToken: string;
+  refreshToken: string | null; // Null when a concurrent refresh already rotated it
+}
+
+type SessionUser = Omit<CurrentUser, 'sessionId'>;
+
+// How many rotated-away token hashes a session remembers for reuse detection
+const MAX_ROTATED_TOKEN_HASHES = 100;
+
+type SessionWithUser = Prisma.SessionGetPayload<{
+  include: { user: { select: { email: true; username: true } } };
+}>;
+
+/**
+ * Refresh failures; routes answer with `status` and clear the auth cookies
+ */
+export class SessionError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly status: number = 401
+  ) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+/**
+ * Short label for a user agent, e.g. 'Firefox on Windows'
+ */
+export function describeDevice(userAgent: string | null | undefined): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\//.test(userAgent) ? 'Opera' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    /curl|node|undici|axios|Playwright/i.test(userAgent) ? 'API client' :
+    'Unknown browser';
+  const os =
+    /iPhone|iPad/.test(userAgent) ? 'iOS' :
+    /Android/.test(userAgent) ? 'Android' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X|Macintosh/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    null;
+
+  return os ? `${browser} on ${os}` : browser;
+}
+
+export class SessionService {
+  private getConfig() {
+    return {
+      // A rotated refresh token is still accepted this long, so parallel requests that
+      // refresh at the same moment do not look like reuse
+      reuseGraceMs: parseInt(process.env.REFRESH_REUSE_GRACE_SECONDS || '30') * 1000
+    };
+  }
+
+  /**
+   * Start a session for a user who just signed in
+   */
+  async createSession(user: SessionUser, client: SessionClientInfo): Promise<IssuedTokens> {
+    const sessionId = randomUUID();
+    const refreshToken = createRefreshToken(sessionId);
+
+    await prisma.session.create({
+      data: {
+        id: sessionId,
+        userId: user.id,
+        refreshTokenHash: hashToken(refreshToken),
+        userAgent: client.userAgent ?? null,
+        ipAddress: client.ipAddress ?? null,
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000)
+      }
+    });
+
+    return {
+      sessionId,
+      accessToken: signAccessToken({ userId: user.id, email: user.email, username: user.username, sid: sessionId }),
+      refreshToken
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and a new refresh token
+   */
+  async refresh(refreshToken: string, client: SessionClientInfo): Promise<IssuedTokens> {
+    const sessionId = parseRefreshToken(refreshToken);
+    if (!sessionId) {
+      throw new SessionError('Invalid refresh token', 'INVALID_REFRESH_TOKEN');
+    }
+
+    const tokenHash = hashToken(refreshToken);
+    const session = await this.loadActiveSession(sessionId);
+
+    if (session.refreshTokenHash === tokenHash) {
+      const nextRefreshToken = createRefreshToken(sessionId);
+      const now = new Date();
+
+      // Only the request that still sees the current hash gets to rotate it
+      const { count } = await prisma.session.updateMany({
+        where: { id: sessionId, refreshTokenHash: tokenHash, revokedAt: null },
+        data: {
+          refreshTokenHash: hashToken(nextRefreshToken),
+          previousRefreshTokenHash: tokenHash,
+          rotatedTokenHashes: JSON.stringify(
+            [...this.rotatedHashes(session), tokenHash].slice(-MAX_ROTATED_TOKEN_HASHES)
+          ),
+          rotatedAt: now,
+          lastUsedAt: now,
+          userAgent: client.userAgent ?? session.userAgent,
+          ipAddress: client.ipAddress ?? session.ipAddress
+        }
+      });
+
+      if (count === 1) {
+        return { sessionId, accessToken: this.signFor(session), refreshToken: nextRefreshToken };
+      }
+      // Lost the race to a concurrent refresh; judge the token against the rotated session
+      return this.refreshRotated(await this.loadActiveSession(sessionId), tokenHash);
+    }
+
+    return this.refreshRotated(session, tokenHash);
+  }
+
+  /**
+   * Whether an access token's session is still active for the user
+   */
+  async isActive(sessionId: string, userId: string): Promise<boolean> {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { userId: true, revokedAt: true, expiresAt: true }
+    });
+    return !!session && session.userId === userId && !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  /**
+   * Active sessions of a user, most recently used first
+   */
+  async listSessions(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+    const sessions = await prisma.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastUsedAt: 'desc' }
+    });
+
+    return sessions.map((session) => ({
+      id: session.id,
+      device: describeDevice(session.userAgent),
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: session.id === currentSessionId
+    }));
+  }
+
+  /**
+   * Revoke one of a user's sessions; false when it is not theirs or already ended
+   */
+  async revokeSession(userId: string, sessionId: string, reason: SessionRevokeReason = 'revoked'): Promise<boolean> {
+    const { count } = await prisma.session.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason }
+    });
+    return count > 0;
+  }
+
+  /**
+   * Revoke every session of a user, optionally keeping one
+   */
+  async revokeAllSessions(userId: string, reason: SessionRevokeReason, exceptSessionId?: string): Promise<number> {
+    const { count } = await prisma.session.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId ? { id: { not: exceptSessionId } } : {})
+      },
+      data: { revokedAt: new Date(), revokedReason: reason }
+    });
+
+    if (count > 0) {
+      console.log(`🔒 Revoked ${count} session(s) for user ${userId} (${reason})`);
+    }
+    return count;
+  }
+
+  /**
+   * End the session a refresh token belongs to, as long as the token is current
+   */
+  async revokeByRefreshToken(refreshToken: string, reason: SessionRevokeReason): Promise<boolean> {
+    const { count } = await prisma.session.updateMany({
+      where: { refreshTokenHash: hashToken(refreshToken), revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason }
+    });
+    return count > 0;
+  }
+
+  private async loadActiveSession(sessionId: string): Promise<SessionWithUser> {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      include: { user: { select: { email: true, username: true } } }
+    });
+
+    if (!session) {
+      throw new SessionError('Invalid refresh token', 'INVALID_REFRESH_TOKEN');
+    }
+    if (session.revokedAt) {
+      throw new SessionError('Session has been revoked', 'SESSION_REVOKED');
+    }
+    if (session.expiresAt <= new Date()) {
+      throw new SessionError('Session has expired', 'SESSION_EXPIRED');
+    }
+    return session;
+  }
+
+  /**
+   * A token that no longer matches the session: fine right after a concurrent rotation,
+   * a reuse that revokes the session when it was rotated away earlier, and otherwise
+   * not a token of this session at all
+   */
+  private async refreshRotated(session: SessionWithUser, tokenHash: string): Promise<IssuedTokens> {
+    const { reuseGraceMs } = this.getConfig();
+    const withinGrace =
+      session.previousRefreshTokenHash === tokenHash &&
+      !!session.rotatedAt &&
+      Date.now() - session.rotatedAt.getTime() <= reuseGraceMs;
+
+    if (withinGrace) {
+      return { sessionId: session.id, accessToken: this.signFor(session), refreshToken: null };
+    }
+
+    const issued = session.previousRefreshTokenHash === tokenHash || this.rotatedHashes(session).includes(tokenHash);
+    if (!issued) {
+      throw new SessionError('Invalid refresh token', 'INVALID_REFRESH_TOKEN');
+    }
+
+    await this.revokeSession(session.userId, session.id, 'reuse_detected');
+    console.warn(`⚠️  Refresh token reuse detected, revoked session ${session.id} of user ${session.userId}`);
+    throw new SessionError('Refresh token was already used; session revoked', 'REFRESH_TOKEN_REUSED');
+  }
+
+  private rotatedHashes(session: Pick<SessionWithUser, 'rotatedTokenHashes'>): string[] {
+    try {
+      const hashes: unknown = JSON.parse(session.rotatedTokenHashes);
+      return Array.isArray(hashes) ? hashes.filter((hash): hash is string => typeof hash === 'string') : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private signFor(session: SessionWithUser): string {
+    return signAccessToken({
+      userId: session.userId,
+      email: session.user.email,
+      username: session.user.username ?? session.user.email.split('@')[0],
+      sid: session.id
+    });
+  }
+}
+
+// Export singleton instance
+export const sessionService = new SessionService();
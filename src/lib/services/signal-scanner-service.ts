@@ -0,0 +1,306 @@
+// Signal scanner: evaluates the rules of every active pattern of every active agent on
+// each new candle or ticker, records a Signal when a rule turns true and publishes it
+// to subscribers.
+
+import { Prisma, type Candle, type Pattern, type Signal } from '@prisma/client';
+import { prisma } from '../database/prisma-client';
+import { candleService, toIndicatorCandle } from './candle-service';
+import { normalizeSymbol } from '../market-data/market-data-utils';
+import { evaluatePatternRule, parsePatternRule, type PatternRule } from '@/lib/patterns/pattern-rules';
+import { CANDLE_INTERVALS, getBucketStart, type CandleInterval } from '@/types/candles';
+import type { IndicatorCandle } from '@/types/indicators';
+import type {
+  PatternSignal,
+  PatternSignalEvent,
+  SignalDirection,
+  SignalScannerConfig
+} from '@/types/signals';
+
+const RECENT_EVENT_LIMIT = 100; // Kept for subscribers that reconnect with Last-Event-ID
+const MAX_SCAN_CANDLES = 1000;
+
+export const DEFAULT_SIGNAL_SCANNER_CONFIG: SignalScannerConfig = {
+  interval: '1h',
+  cooldownMs: 60 * 60 * 1000,
+  minScanIntervalMs: 10 * 1000
+};
+
+export type PatternSignalListener = (event: PatternSignalEvent) => void;
+
+type ScannedPattern = Pattern & { agent: { id: string; name: string } };
+
+export interface SignalQuery {
+  agentId?: string;
+  patternId?: string;
+  symbol?: string;
+  since?: Date;
+  limit?: number;
+}
+
+/**
+ * Strength of a pattern's signal: its confidence, discounted by 5% per priority step
+ * below the top priority
+ */
+export function signalStrength(pattern: Pick<Pattern, 'confidenceRate' | 'priority'>): number {
+  const weight = 1 - (Math.min(Math.max(pattern.priority, 1), 10) - 1) * 0.05;
+  return Math.round(Math.min(Math.max(pattern.confidenceRate, 0), 100) * weight * 10) / 10;
+}
+
+/**
+ * The stored candles with a live price applied to the forming candle of `now`,
+ * starting that candle from the last close when it has not been stored yet
+ */
+export function withLivePrice(
+  candles: Candle[],
+  price: number,
+  interval: CandleInterval,
+  now: Date
+): { candles: IndicatorCandle[]; openTime: Date } {
+  const ruleCandles = candles.map(toIndicatorCandle);
+  const bucket = getBucketStart(interval, now);
+  const last = candles[candles.length - 1];
+
+  if (last && last.openTime.getTime() === bucket.getTime()) {
+    const forming = ruleCandles[ruleCandles.length - 1];
+    ruleCandles[ruleCandles.length - 1] = {
+      ...forming,
+      high: Math.max(forming.high, price),
+      low: Math.min(forming.low, price),
+      close: price
+    };
+  } else {
+    ruleCandles.push({ time: now.getTime(), open: last?.close ?? price, high: price, low: price, close: price, volume: 0 });
+  }
+  return { candles: ruleCandles, openTime: bucket };
+}
+
+export class SignalScannerService {
+  private listeners = new Set<PatternSignalListener>();
+  private recent: PatternSignalEvent[] = [];
+  private nextEventId = 1;
+  private lastScanAt = new Map<string, number>(); // symbol → time of the last ticker scan
+  private running = new Map<string, Promise<void>>(); // symbol → scan in progress
+  private queued = new Map<string, number | null>(); // symbol → live price awaiting a scan, null for stored candles only
+  private invalidRules = new Set<string>(); // `${patternId}:${rule}` already reported as invalid
+
+  /**
+   * Settings from SIGNAL_SCANNER_INTERVAL, SIGNAL_COOLDOWN_MS and SIGNAL_MIN_SCAN_MS
+   */
+  getConfig(): SignalScannerConfig {
+    const interval = process.env.SIGNAL_SCANNER_INTERVAL as CandleInterval;
+    return {
+      interval: CANDLE_INTERVALS.includes(interval) ? interval : DEFAULT_SIGNAL_SCANNER_CONFIG.interval,
+      cooldownMs: parseInt(process.env.SIGNAL_COOLDOWN_MS || '') || DEFAULT_SIGNAL_SCANNER_CONFIG.cooldownMs,
+      minScanIntervalMs: parseInt(process.env.SIGNAL_MIN_SCAN_MS || '') || DEFAULT_SIGNAL_SCANNER_CONFIG.minScanIntervalMs
+    };
+  }
+
+  /**
+   * Scan with a new ticker price; ticks closer together than minScanIntervalMs are skipped
+   */
+  onPrice(symbol: string, price: number, now: number = Date.now()): Promise<void> {
+    const key = normalizeSymbol(symbol);
+    if (now - (this.lastScanAt.get(key) ?? 0) < this.getConfig().minScanIntervalMs) {
+      return Promise.resolve();
+    }
+    this.lastScanAt.set(key, now);
+    return this.enqueue(key, price);
+  }
+
+  /**
+   * Scan after a candle was stored
+   */
+  onCandle(symbol: string): Promise<void> {
+    return this.enqueue(normalizeSymbol(symbol), null);
+  }
+
+  /**
+   * Evaluate every active pattern rule on the latest candles and record the signals of
+   * rules that turned true on the last candle. With a live price, the forming candle
+   * closes at that price.
+   */
+  async scan(symbol: string, livePrice: number | null = null, now: Date = new Date()): Promise<PatternSignalEvent[]> {
+    const config = this.getConfig();
+    const patterns = await prisma.pattern.findMany({
+      where: { isActive: true, rule: { not: null }, agent: { isActive: true } },
+      include: { agent: { select: { id: true, name: true } } }
+    });
+
+    const rules: Array<{ pattern: ScannedPattern; rule: PatternRule }> = [];
+    for (const pattern of patterns) {
+      try {
+        rules.push({ pattern, rule: parsePatternRule(pattern.rule!) });
+      } catch (error) {
+        const key = `${pattern.id}:${pattern.rule}`;
+        if (!this.invalidRules.has(key)) {
+          this.invalidRules.add(key);
+          console.warn(`⚠️ Skipping pattern ${pattern.id} with an invalid rule:`, error instanceof Error ? error.message : error);
+        }
+      }
+    }
+    if (rules.length === 0) return [];
+
+    const lookback = Math.max(...rules.map(({ rule }) => rule.lookback));
+    const stored = await candleService.getCandles({
+      symbol,
+      interval: config.interval,
+      limit: Math.min(lookback + 2, MAX_SCAN_CANDLES)
+    });
+    if (stored.length === 0) return [];
+
+    const { candles, openTime } = livePrice === null
+      ? { candles: stored.map(toIndicatorCandle), openTime: stored[stored.length - 1].openTime }
+      : withLivePrice(stored, livePrice, config.interval, now);
+    const last = candles.length - 1;
+
+    const events: PatternSignalEvent[] = [];
+    for (const { pattern, rule } of rules) {
+      const { triggers } = evaluatePatternRule(rule, candles);
+      if (triggers[triggers.length - 1] !== last) continue;
+
+      const event = await this.record(pattern, symbol, openTime, candles[last].close, now, config);
+      if (event) events.push(event);
+    }
+    return events;
+  }
+
+  /**
+   * Receive new signals; events after afterId that are still buffered are replayed first
+   */
+  subscribe(listener: PatternSignalListener, afterId: number = 0): () => void {
+    this.recent.filter((event) => event.id > afterId).forEach(listener);
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Recorded signals, newest first
+   */
+  async getSignals(query: SignalQuery = {}): Promise<PatternSignal[]> {
+    const signals = await prisma.signal.findMany({
+      where: {
+        agentId: query.agentId,
+        patternId: query.patternId,
+        symbol: query.symbol ? normalizeSymbol(query.symbol) : undefined,
+        timestamp: query.since ? { gte: query.since } : undefined
+      },
+      include: {
+        agent: { select: { name: true } },
+        pattern: { select: { name: true } }
+      },
+      orderBy: { timestamp: 'desc' },
+      take: Math.min(query.limit || 50, 500)
+    });
+
+    return signals.map((signal) => this.toPatternSignal(signal, signal.agent.name, signal.pattern.name));
+  }
+
+  private enqueue(key: string, price: number | null): Promise<void> {
+    const inProgress = this.running.get(key);
+    if (inProgress) {
+      // A queued live price wins over a stored-candle scan
+      this.queued.set(key, price ?? this.queued.get(key) ?? null);
+      return inProgress;
+    }
+
+    const run = (async () => {
+      let next: number | null | undefined = price;
+      while (next !== undefined) {
+        this.queued.delete(key);
+        try {
+          await this.scan(key, next);
+        } catch (error) {
+          console.error(`❌ Signal scan failed for ${key}:`, error);
+        }
+        next = this.queued.get(key);
+      }
+    })().finally(() => this.running.delete(key));
+
+    this.running.set(key, run);
+    return run;
+  }
+
+  private async record(
+    pattern: ScannedPattern,
+    symbol: string,
+    candleTime: Date,
+    price: number,
+    now: Date,
+    config: SignalScannerConfig
+  ): Promise<PatternSignalEvent | null> {
+    const previous = await prisma.signal.findFirst({
+      where: { patternId: pattern.id, symbol },
+      orderBy: { timestamp: 'desc' }
+    });
+    if (previous && previous.interval === config.interval && previous.candleTime.getTime() === candleTime.getTime()) {
+      return null;
+    }
+    if (previous && now.getTime() - previous.timestamp.getTime() < config.cooldownMs) {
+      return null;
+    }
+
+    try {
+      const signal = await prisma.signal.create({
+        data: {
+          agentId: pattern.agentId,
+          patternId: pattern.id,
+          symbol,
+          interval: config.interval,
+          direction: pattern.direction,
+          strength: signalStrength(pattern),
+          price,
+          candleTime,
+          timestamp: now
+        }
+      });
+      return this.publish(this.toPatternSignal(signal, pattern.agent.name, pattern.name));
+    } catch (error) {
+      // Another scan recorded this candle first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private publish(signal: PatternSignal): PatternSignalEvent {
+    const event: PatternSignalEvent = { id: this.nextEventId++, signal };
+
+    this.recent.push(event);
+    if (this.recent.length > RECENT_EVENT_LIMIT) this.recent.shift();
+    console.log(`📡 Signal: ${signal.direction} ${signal.symbol} at ${signal.price} (${signal.patternName}, ${signal.agentName})`);
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('❌ Signal listener failed:', error);
+      }
+    }
+    return event;
+  }
+
+  private toPatternSignal(
+    signal: Signal,
+    agentName: string,
+    patternName: string
+  ): PatternSignal {
+    return {
+      id: signal.id,
+      agentId: signal.agentId,
+      agentName,
+      patternId: signal.patternId,
+      patternName,
+      symbol: signal.symbol,
+      interval: signal.interval,
+      direction: signal.direction as SignalDirection,
+      strength: signal.strength,
+      price: signal.price,
+      candleTime: signal.candleTime.toISOString(),
+      timestamp: signal.timestamp.toISOString()
+    };
+  }
+}
+
+// Export singleton instance
+export const signalScannerService = new SignalScannerService();
@@ -2,34 +2,45 @@
 
 import { prisma } from '@/lib/database/prisma-client';
 import { bitcoinPriceService } from './bitcoin-price-service';
+import { candleService } from './candle-service';
 import { calculateTechnicalIndicators, type PriceData } from '@/lib/utils/technical-indicators';
 import { technicalAnalysisAgent, type TechnicalAnalysisResult } from './technical-analysis-agent';
+import { INTERVAL_MS, type CandleInterval } from '@/types/candles';
 import type { TechnicalIndicator, TechnicalReport } from '@prisma/client';
 
+const INDICATOR_LOOKBACK = 100; // candles
+
 export class TechnicalIndicatorsService {
   
   /**
-   * Calculate and store technical indicators based on recent price data
+   * Calculate and store technical indicators based on recent candles
    */
-  async updateTechnicalIndicators(timeframe: string = '1d'): Promise<TechnicalIndicator | null> {
+  async updateTechnicalIndicators(timeframe: CandleInterval = '1d'): Promise<TechnicalIndicator | null> {
     try {
       console.log(`🔢 Calculating technical indicators (${timeframe})...`);
       
-      // Get recent price history for calculations (need enough data for 50-day MA)
-      const priceHistory = await bitcoinPriceService.getPriceHistory(72); // 3 days of 10-minute intervals
+      // Indicators are computed on candles of the requested timeframe (enough for the 50-period MA)
+      let candles = await candleService.getCandles({ symbol: 'BTC', interval: timeframe, limit: INDICATOR_LOOKBACK });
+      
+      if (candles.length === 0) {
+        // First run: build candles from the stored ticks before giving up
+        const since = new Date(Date.now() - INDICATOR_LOOKBACK * INTERVAL_MS[timeframe]);
+        await candleService.backfill('BTC', since, new Date(), { fetchExchange: false, fillGaps: false });
+        candles = await candleService.getCandles({ symbol: 'BTC', interval: timeframe, limit: INDICATOR_LOOKBACK });
+      }
       
-      if (priceHistory.length === 0) {
-        console.log('❌ No price history available for technical indicators calculation');
+      if (candles.length === 0) {
+        console.log('❌ No candle data available for technical indicators calculation');
         return null;
       }
       
       // Convert to required format
-      const priceData: PriceData[] = priceHistory.map(p => ({
-        timestamp: new Date(p.timestamp),
-        price: p.price,
-        high: p.high24h || p.price,
-        low: p.low24h || p.price,
-        volume: p.volume || undefined,
+      const priceData: PriceData[] = candles.map(c => ({
+        timestamp: c.closeTime,
+        price: c.close,
+        high: c.high,
+        low: c.low,
+        volume: c.volume || undefined,
       }));
       
       // Calculate technical indicators
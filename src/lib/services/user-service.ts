@@ -1,60 +1,68 @@
-// User service with ChromaDB integration
+// User service backed by the Prisma User model
 
-import { ChromaClient } from 'chromadb';
 import bcrypt from 'bcryptjs';
-import { User, UserPreferences, Portfolio } from '@/types/game';
-import { UserDocument, PortfolioDocument, DocumentMapper, COLLECTION_NAMES } from '@/lib/database/schemas';
-import { ValidationUtils, CreateUserInputSchema } from '@/lib/validation/schemas';
-import { v4 as uuidv4 } from 'uuid';
-
-export class UserService {
-  private chroma: ChromaClient;
-  private userCollection: any = null;
-  private portfolioCollection: any = null;
-
-  constructor() {
-    this.chroma = new ChromaClient();
+import { Prisma, type User as UserRecord } from '@prisma/client';
+import { User, UserPreferences } from '@/types/game';
+import { prisma } from '../database/prisma-client';
+import { UserPreferencesSchema, ValidationUtils } from '@/lib/validation/schemas';
+
+const EXPERIENCE_PER_LEVEL = 1000;
+
+export const DEFAULT_USER_PREFERENCES: UserPreferences = {
+  theme: 'light',
+  notifications: true,
+  difficulty: 'medium',
+  chartType: 'candlestick'
+};
+
+/**
+ * Read stored preferences, keeping defaults for missing or invalid keys
+ */
+export function parseUserPreferences(raw: string | null | undefined): UserPreferences {
+  let stored: Record<string, unknown> = {};
+  try {
+    const parsed = raw ? JSON.parse(raw) : {};
+    if (parsed && typeof parsed === 'object') stored = parsed;
+  } catch {
+    // Malformed JSON falls back to the defaults
   }
 
-  /**
-   * Initialize collections
-   */
-  async initialize(): Promise<void> {
-    try {
-      // Get or create user profiles collection
-      try {
-        this.userCollection = await this.chroma.getCollection({
-          name: 'user_profiles'
-        });
-      } catch {
-        this.userCollection = await this.chroma.createCollection({
-          name: 'user_profiles',
-          metadata: {
-            description: 'User profiles and authentication data',
-            category: 'user_data'
-          }
-        });
-      }
-
-      // Get existing portfolio collection
-      this.portfolioCollection = await this.chroma.getCollection({
-        name: COLLECTION_NAMES.USER_PORTFOLIOS
-      });
-
-      console.log('✅ User service initialized successfully');
-    } catch (error) {
-      console.error('❌ Failed to initialize user service:', error);
-      throw new Error(`User service initialization failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  const preferences = { ...DEFAULT_USER_PREFERENCES };
+  for (const key of Object.keys(UserPreferencesSchema.shape) as Array<keyof UserPreferences>) {
+    const field = UserPreferencesSchema.shape[key].safeParse(stored[key]);
+    if (field.success) {
+      (preferences as Record<string, unknown>)[key] = field.data;
     }
   }
+  return preferences;
+}
 
+/**
+ * Rows created before accounts moved off Chroma may lack a username until
+ * `npm run migrate-users` backfills one
+ */
+function toUser(record: UserRecord): User {
+  return {
+    id: record.id,
+    email: record.email,
+    username: record.username ?? record.email.split('@')[0],
+    emailVerified: record.emailVerifiedAt !== null,
+    createdAt: record.createdAt,
+    gameLevel: record.gameLevel,
+    totalTrades: record.totalTrades,
+    experience: record.experience,
+    preferences: parseUserPreferences(record.preferences)
+  };
+}
+
+export class UserService {
   /**
    * Create a new user
    */
   async createUser(email: string, username: string, hashedPassword: string): Promise<User> {
-    await this.ensureInitialized();
-
     try {
+      ValidationUtils.validateCreateUserInput({ email, username });
+
       // Check if user already exists
       const existingUser = await this.findUserByEmail(email);
       if (existingUser) {
@@ -66,56 +74,27 @@ export class UserService {
         throw new Error('Username is already taken');
       }
 
-      // Create new user
-      const user: User = {
-        id: uuidv4(),
-        email,
-        username,
-        createdAt: new Date(),
-        gameLevel: 1,
-        totalTrades: 0,
-        experience: 0,
-        preferences: {
-          theme: 'light',
-          notifications: true,
-          difficulty: 'medium',
-          chartType: 'candlestick'
-        }
-      };
-
-      // Validate user data
-      const validatedUser = ValidationUtils.validateUser(user);
-
-      // Store user with password hash in metadata
-      const userDoc: UserDocument = {
-        id: user.id,
-        document: JSON.stringify(validatedUser),
-        metadata: {
-          user_id: user.id,
-          email: user.email,
-          username: user.username,
-          created_at: user.createdAt.toISOString(),
-          game_level: user.gameLevel,
-          total_trades: user.totalTrades,
-          experience: user.experience,
-          status: 'active',
-          password_hash: hashedPassword // Store password hash in metadata for auth
+      const record = await prisma.user.create({
+        data: {
+          email,
+          username,
+          password: hashedPassword,
+          preferences: JSON.stringify(DEFAULT_USER_PREFERENCES)
         }
-      };
-
-      await this.userCollection.add({
-        ids: [userDoc.id],
-        documents: [userDoc.document],
-        metadatas: [userDoc.metadata]
       });
 
-      // Create initial portfolio for the user
-      await this.createInitialPortfolio(user.id);
-
       console.log(`✅ User created successfully: ${username}`);
-      return validatedUser;
+      return toUser(record);
     } catch (error) {
       console.error('❌ Error creating user:', error);
+
+      // A concurrent registration won the unique email or username
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const target = String(error.meta?.target ?? '');
+        throw new Error(target.includes('username')
+          ? 'Failed to create user: Username is already taken'
+          : 'Failed to create user: User with this email already exists');
+      }
       throw new Error(`Failed to create user: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -124,24 +103,9 @@ export class UserService {
    * Find user by email
    */
   async findUserByEmail(email: string): Promise<User | null> {
-    await this.ensureInitialized();
-
     try {
-      const results = await this.userCollection.query({
-        queryTexts: [`user email ${email}`],
-        nResults: 1,
-        where: { email },
-        include: ['documents', 'metadatas']
-      });
-
-      if (!results.documents || !results.documents[0] || results.documents[0].length === 0) {
-        return null;
-      }
-
-      const userDoc = JSON.parse(results.documents[0][0]) as User;
-      userDoc.createdAt = new Date(userDoc.createdAt);
-      
-      return ValidationUtils.validateUser(userDoc);
+      const record = await prisma.user.findUnique({ where: { email } });
+      return record ? toUser(record) : null;
     } catch (error) {
       console.error('❌ Error finding user by email:', error);
       return null;
@@ -152,24 +116,9 @@ export class UserService {
    * Find user by username
    */
   async findUserByUsername(username: string): Promise<User | null> {
-    await this.ensureInitialized();
-
     try {
-      const results = await this.userCollection.query({
-        queryTexts: [`username ${username}`],
-        nResults: 1,
-        where: { username },
-        include: ['documents', 'metadatas']
-      });
-
-      if (!results.documents || !results.documents[0] || results.documents[0].length === 0) {
-        return null;
-      }
-
-      const userDoc = JSON.parse(results.documents[0][0]) as User;
-      userDoc.createdAt = new Date(userDoc.createdAt);
-      
-      return ValidationUtils.validateUser(userDoc);
+      const record = await prisma.user.findUnique({ where: { username } });
+      return record ? toUser(record) : null;
     } catch (error) {
       console.error('❌ Error finding user by username:', error);
       return null;
@@ -180,22 +129,9 @@ export class UserService {
    * Find user by ID
    */
   async findUserById(userId: string): Promise<User | null> {
-    await this.ensureInitialized();
-
     try {
-      const results = await this.userCollection.get({
-        ids: [userId],
-        include: ['documents', 'metadatas']
-      });
-
-      if (!results.documents || results.documents.length === 0) {
-        return null;
-      }
-
-      const userDoc = JSON.parse(results.documents[0]) as User;
-      userDoc.createdAt = new Date(userDoc.createdAt);
-      
-      return ValidationUtils.validateUser(userDoc);
+      const record = await prisma.user.findUnique({ where: { id: userId } });
+      return record ? toUser(record) : null;
     } catch (error) {
       console.error('❌ Error finding user by ID:', error);
       return null;
@@ -206,21 +142,12 @@ export class UserService {
    * Get user's password hash for authentication
    */
   async getUserPasswordHash(email: string): Promise<string | null> {
-    await this.ensureInitialized();
-
     try {
-      const results = await this.userCollection.query({
-        queryTexts: [`user email ${email}`],
-        nResults: 1,
+      const record = await prisma.user.findUnique({
         where: { email },
-        include: ['metadatas']
+        select: { password: true }
       });
-
-      if (!results.metadatas || !results.metadatas[0] || results.metadatas[0].length === 0) {
-        return null;
-      }
-
-      return results.metadatas[0][0].password_hash || null;
+      return record?.password ?? null;
     } catch (error) {
       console.error('❌ Error getting user password hash:', error);
       return null;
@@ -239,12 +166,31 @@ export class UserService {
     return bcrypt.compare(password, passwordHash);
   }
 
+  /**
+   * Replace a user's password hash
+   */
+  async updatePassword(userId: string, hashedPassword: string): Promise<void> {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { password: hashedPassword }
+    });
+  }
+
+  /**
+   * Mark an address as verified, as long as it is still the user's email; false otherwise
+   */
+  async markEmailVerified(userId: string, email: string): Promise<boolean> {
+    const { count } = await prisma.user.updateMany({
+      where: { id: userId, email },
+      data: { emailVerifiedAt: new Date() }
+    });
+    return count > 0;
+  }
+
   /**
    * Update user profile
    */
   async updateUser(userId: string, updates: Partial<User>): Promise<User | null> {
-    await this.ensureInitialized();
-
     try {
       const existingUser = await this.findUserById(userId);
       if (!existingUser) {
@@ -262,17 +208,20 @@ export class UserService {
       // Validate updated user
       const validatedUser = ValidationUtils.validateUser(updatedUser);
 
-      // Update in ChromaDB
-      const userDoc = DocumentMapper.userToDocument(validatedUser);
-      
-      await this.userCollection.update({
-        ids: [userId],
-        documents: [userDoc.document],
-        metadatas: [userDoc.metadata]
+      const record = await prisma.user.update({
+        where: { id: userId },
+        data: {
+          email: validatedUser.email,
+          username: validatedUser.username,
+          gameLevel: validatedUser.gameLevel,
+          totalTrades: validatedUser.totalTrades,
+          experience: validatedUser.experience,
+          preferences: JSON.stringify(validatedUser.preferences)
+        }
       });
 
       console.log(`✅ User updated successfully: ${userId}`);
-      return validatedUser;
+      return toUser(record);
     } catch (error) {
       console.error('❌ Error updating user:', error);
       throw new Error(`Failed to update user: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -283,8 +232,6 @@ export class UserService {
    * Update user experience and level
    */
   async updateUserExperience(userId: string, experienceGained: number): Promise<User | null> {
-    await this.ensureInitialized();
-
     try {
       const user = await this.findUserById(userId);
       if (!user) {
@@ -293,7 +240,7 @@ export class UserService {
 
       // Calculate new experience and level
       const newExperience = user.experience + experienceGained;
-      const newLevel = Math.floor(newExperience / 1000) + 1; // Level up every 1000 XP
+      const newLevel = Math.floor(newExperience / EXPERIENCE_PER_LEVEL) + 1;
 
       return await this.updateUser(userId, {
         experience: newExperience,
@@ -305,62 +252,18 @@ export class UserService {
     }
   }
 
-  /**
-   * Create initial portfolio for new user
-   */
-  private async createInitialPortfolio(userId: string): Promise<void> {
-    try {
-      const initialBalance = parseFloat(process.env.INITIAL_BALANCE || '10000');
-      
-      const portfolio: Portfolio = {
-        id: uuidv4(),
-        userId,
-        balance: initialBalance,
-        bitcoinHoldings: 0,
-        totalValue: initialBalance,
-        profit: 0,
-        profitPercentage: 0,
-        trades: [],
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
-
-      const portfolioDoc = DocumentMapper.portfolioToDocument(portfolio);
-      
-      await this.portfolioCollection.add({
-        ids: [portfolioDoc.id],
-        documents: [portfolioDoc.document],
-        metadatas: [portfolioDoc.metadata]
-      });
-
-      console.log(`✅ Initial portfolio created for user: ${userId}`);
-    } catch (error) {
-      console.error('❌ Error creating initial portfolio:', error);
-      throw new Error(`Failed to create initial portfolio: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
-
   /**
    * Get user statistics
    */
   async getUserStats(userId: string): Promise<any> {
-    await this.ensureInitialized();
-
     try {
       const user = await this.findUserById(userId);
       if (!user) {
         throw new Error('User not found');
       }
 
-      // Get portfolio data
-      const portfolioResults = await this.portfolioCollection.query({
-        queryTexts: [`user portfolio ${userId}`],
-        nResults: 1,
-        where: { user_id: userId },
-        include: ['metadatas']
-      });
-
-      const portfolioMeta = portfolioResults.metadatas?.[0]?.[0] || {};
+      // The paper trading portfolio is created on first access, so it may not exist yet
+      const portfolio = await prisma.portfolio.findUnique({ where: { userId } });
 
       return {
         userId: user.id,
@@ -369,11 +272,11 @@ export class UserService {
         experience: user.experience,
         totalTrades: user.totalTrades,
         portfolio: {
-          balance: portfolioMeta.balance || 0,
-          bitcoinHoldings: portfolioMeta.bitcoin_holdings || 0,
-          totalValue: portfolioMeta.total_value || 0,
-          profit: portfolioMeta.profit || 0,
-          profitPercentage: portfolioMeta.profit_percentage || 0
+          balance: portfolio?.balance || 0,
+          bitcoinHoldings: portfolio?.bitcoinHoldings || 0,
+          totalValue: portfolio?.totalValue || 0,
+          profit: portfolio?.profit || 0,
+          profitPercentage: portfolio?.profitPercentage || 0
         },
         memberSince: user.createdAt
       };
@@ -387,27 +290,15 @@ export class UserService {
    * Delete user (for testing or GDPR compliance)
    */
   async deleteUser(userId: string): Promise<boolean> {
-    await this.ensureInitialized();
-
     try {
-      // Delete user document
-      await this.userCollection.delete({
-        ids: [userId]
-      });
-
-      // Delete user's portfolio
-      const portfolioResults = await this.portfolioCollection.query({
-        queryTexts: [`user portfolio ${userId}`],
-        nResults: 10,
-        where: { user_id: userId },
-        include: ['metadatas']
-      });
-
-      if (portfolioResults.ids && portfolioResults.ids[0]) {
-        await this.portfolioCollection.delete({
-          ids: portfolioResults.ids[0]
-        });
-      }
+      // Notes and watchlist items cascade; portfolio data is keyed by userId only
+      await prisma.$transaction([
+        prisma.order.deleteMany({ where: { userId } }),
+        prisma.trade.deleteMany({ where: { userId } }),
+        prisma.portfolio.deleteMany({ where: { userId } }),
+        prisma.chatMessage.deleteMany({ where: { userId } }),
+        prisma.user.delete({ where: { id: userId } })
+      ]);
 
       console.log(`✅ User deleted successfully: ${userId}`);
       return true;
@@ -416,13 +307,7 @@ export class UserService {
       return false;
     }
   }
-
-  private async ensureInitialized(): Promise<void> {
-    if (!this.userCollection || !this.portfolioCollection) {
-      await this.initialize();
-    }
-  }
 }
 
 // Export singleton instance
-export const userService = new UserService();
\ No newline at end of file
+export const userService = new UserService();
@@ -11,19 +11,12 @@ import {
 } from '@/types/watchlist';
 import { setupWatchlistCollection, watchlistItemToDocument } from '@/lib/database/watchlist-chroma';
 import { ValidationUtils } from '@/lib/validation/watchlist-schemas';
+import { marketDataService } from './market-data-service';
 
-// Mock crypto price service (you could replace with real API)
+// Current price and 24h change (%) from the market data provider
 const getCryptoPrice = async (symbol: string): Promise<{ price: number; priceChange24h: number } | null> => {
-  // For demo purposes, return mock data
-  const mockPrices: Record<string, { price: number; priceChange24h: number }> = {
-    'BTC': { price: 111944, priceChange24h: 2.11 },
-    'ETH': { price: 3247, priceChange24h: -1.24 },
-    'ADA': { price: 0.456, priceChange24h: 3.45 },
-    'SOL': { price: 234.56, priceChange24h: 5.67 },
-    'DOT': { price: 12.34, priceChange24h: -2.11 }
-  };
-  
-  return mockPrices[symbol] || null;
+  const quote = await marketDataService.getQuote(symbol);
+  return quote ? { price: quote.price, priceChange24h: quote.changePercent24h } : null;
 };
 
 export class WatchlistService {
@@ -74,6 +67,7 @@ export class WatchlistService {
         name: validatedData.name,
         alertPrice: validatedData.alertPrice,
         alertType: validatedData.alertType,
+        alertPercent: validatedData.alertPercent,
         notes: validatedData.notes,
         tags: JSON.stringify(validatedData.tags || [])
       },
@@ -182,6 +176,9 @@ export class WatchlistService {
           ...(validatedData.name && { name: validatedData.name }),
           ...(validatedData.alertPrice !== undefined && { alertPrice: validatedData.alertPrice }),
           ...(validatedData.alertType && { alertType: validatedData.alertType }),
+          ...(validatedData.alertPercent !== undefined && { alertPercent: validatedData.alertPercent, alertBasePrice: null }),
+          // A changed level re-arms the alert unless the caller sets alertTriggered itself
+          ...((validatedData.alertPrice !== undefined || validatedData.alertType) && { alertTriggered: false }),
           ...(validatedData.notes !== undefined && { notes: validatedData.notes }),
           ...(validatedData.tags && { tags: JSON.stringify(validatedData.tags) }),
           ...(validatedData.alertTriggered !== undefined && { alertTriggered: validatedData.alertTriggered })
@@ -495,6 +492,7 @@ export class WatchlistService {
       priceChange24h,
       alertPrice: item.alertPrice,
       alertType: item.alertType,
+      alertPercent: item.alertPercent,
       notes: item.notes,
       tags,
       alertTriggered: item.alertTriggered,
@@ -0,0 +1,228 @@
+// WebSocket service manager: persists Binance ticker data into BitcoinPrice,
+// builds 1m candles, and forwards live prices to price-driven jobs such as order matching and price alerts.
+
+import { prisma } from '../database/prisma-client';
+import { bitcoinPriceService } from './bitcoin-price-service';
+import { candleService } from './candle-service';
+import { signalScannerService } from './signal-scanner-service';
+import {
+  binanceWebSocketService,
+  BinanceWebSocketService,
+  BinanceServiceStatus,
+  BinanceTickerData,
+  BinanceKlineData
+} from './binance-websocket-service';
+import type { Prisma } from '@prisma/client';
+
+export interface PersistenceOptions {
+  enableBatching: boolean; // Buffer rows and write them with createMany
+  batchSize: number; // Flush when this many rows are buffered
+  batchTimeout: number; // ms; flush a partial batch after this long
+  skipDuplicates: boolean; // Drop ticks whose price and volume did not change
+  maxRetries: number; // Retries per failed write before the batch is dropped
+  minPersistInterval: number; // ms between persisted ticks (Binance sends ~1/s)
+}
+
+export interface PersistenceStats {
+  persisted: number;
+  skippedDuplicates: number;
+  throttled: number;
+  failedWrites: number;
+  pending: number;
+  lastPersistedAt: number | null;
+}
+
+const DEFAULT_PERSISTENCE_OPTIONS: PersistenceOptions = {
+  enableBatching: true,
+  batchSize: 10,
+  batchTimeout: 5000,
+  skipDuplicates: true,
+  maxRetries: 3,
+  minPersistInterval: 5000
+};
+
+export class WebSocketServiceManager {
+  private options: PersistenceOptions = DEFAULT_PERSISTENCE_OPTIONS;
+  private isRunning = false;
+  private buffer: Prisma.BitcoinPriceCreateManyInput[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+  private lastAccepted: { price: number; volume: number; timestamp: number } | null = null;
+  private stats: PersistenceStats = {
+    persisted: 0,
+    skippedDuplicates: 0,
+    throttled: 0,
+    failedWrites: 0,
+    pending: 0,
+    lastPersistedAt: null
+  };
+
+  constructor(private service: BinanceWebSocketService = binanceWebSocketService) {
+    this.handleTicker = this.handleTicker.bind(this);
+    this.handleKline = this.handleKline.bind(this);
+  }
+
+  /**
+   * Start the WebSocket service with database persistence
+   */
+  async start(options: Partial<PersistenceOptions> = {}): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.options = { ...DEFAULT_PERSISTENCE_OPTIONS, ...options };
+    this.isRunning = true;
+    this.service.on('ticker', this.handleTicker);
+    this.service.on('kline', this.handleKline);
+
+    console.log(`💾 WebSocket persistence started (batching: ${this.options.enableBatching}, batch size: ${this.options.batchSize})`);
+    await this.service.start();
+  }
+
+  /**
+   * Stop streaming and flush any buffered rows
+   */
+  async stop(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.isRunning = false;
+    this.service.off('ticker', this.handleTicker);
+    this.service.off('kline', this.handleKline);
+    this.service.stop();
+    await this.flush();
+
+    console.log(`💾 WebSocket persistence stopped (${this.stats.persisted} rows persisted)`);
+  }
+
+  isServiceRunning(): boolean {
+    return this.isRunning;
+  }
+
+  getStatus(): BinanceServiceStatus & { running: boolean; persistence: PersistenceStats } {
+    return {
+      ...this.service.getStatus(),
+      running: this.isRunning,
+      persistence: { ...this.stats, pending: this.buffer.length }
+    };
+  }
+
+  /**
+   * Write all buffered rows now
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    // Serialise flushes so rows are written in order
+    while (this.flushing) {
+      await this.flushing;
+    }
+
+    if (this.buffer.length === 0) {
+      return;
+    }
+
+    const batch = this.buffer;
+    this.buffer = [];
+    this.flushing = this.writeBatch(batch).finally(() => {
+      this.flushing = null;
+    });
+    await this.flushing;
+  }
+
+  private handleTicker(ticker: BinanceTickerData): void {
+    // Simulated demo data must never reach the price history or fill orders
+    if (ticker.source !== 'binance') {
+      return;
+    }
+
+    bitcoinPriceService.onNewPrice(ticker.price);
+    candleService
+      .ingestTick(ticker.price, new Date(ticker.timestamp))
+      .catch((error) => console.error('❌ Failed to update candle from tick:', error));
+
+    if (this.lastAccepted) {
+      if (
+        this.options.skipDuplicates &&
+        this.lastAccepted.price === ticker.price &&
+        this.lastAccepted.volume === ticker.volume
+      ) {
+        this.stats.skippedDuplicates++;
+        return;
+      }
+
+      if (ticker.timestamp - this.lastAccepted.timestamp < this.options.minPersistInterval) {
+        this.stats.throttled++;
+        return;
+      }
+    }
+
+    this.lastAccepted = { price: ticker.price, volume: ticker.volume, timestamp: ticker.timestamp };
+    this.buffer.push({
+      timestamp: new Date(ticker.timestamp),
+      price: ticker.price,
+      volume: ticker.volume,
+      change24h: ticker.priceChange,
+      changePercentage24h: ticker.priceChangePercent,
+      high24h: ticker.high24h,
+      low24h: ticker.low24h,
+      source: 'binance'
+    });
+
+    if (!this.options.enableBatching || this.buffer.length >= this.options.batchSize) {
+      this.flush().catch((error) => console.error('❌ Failed to flush price batch:', error));
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.flush().catch((error) => console.error('❌ Failed to flush price batch:', error));
+      }, this.options.batchTimeout);
+    }
+  }
+
+  private handleKline(kline: BinanceKlineData): void {
+    if (!kline.isClosed || this.service.isDemoMode()) {
+      return;
+    }
+
+    candleService
+      .ingestKline({
+        openTime: new Date(kline.openTime),
+        open: kline.open,
+        high: kline.high,
+        low: kline.low,
+        close: kline.close,
+        volume: kline.volume
+      })
+      .then(() => signalScannerService.onCandle('BTC'))
+      .catch((error) => console.error('❌ Failed to store kline candle:', error));
+  }
+
+  private async writeBatch(batch: Prisma.BitcoinPriceCreateManyInput[]): Promise<void> {
+    for (let attempt = 0; attempt <= this.options.maxRetries; attempt++) {
+      try {
+        const { count } = await prisma.bitcoinPrice.createMany({ data: batch });
+        this.stats.persisted += count;
+        this.stats.lastPersistedAt = Date.now();
+        return;
+      } catch (error) {
+        this.stats.failedWrites++;
+
+        if (attempt === this.options.maxRetries) {
+          console.error(`❌ Dropping ${batch.length} price rows after ${attempt + 1} failed writes:`, error);
+          return;
+        }
+
+        const delay = 500 * Math.pow(2, attempt);
+        console.warn(`⚠️ Price batch write failed, retrying in ${delay}ms`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const webSocketServiceManager = new WebSocketServiceManager();
@@ -0,0 +1,110 @@
+// Performance metrics for trade histories and equity curves
+
+import type { EquityPoint, PerformanceMetrics, TradingHistoryItem } from '@/types/trading';
+
+export interface EquitySample {
+  date: Date;
+  value: number;
+}
+
+export interface PerformanceMetricsOptions {
+  initialValue: number;
+  periodsPerYear: number; // Number of equity samples per year, used to annualise Sharpe and volatility
+}
+
+const round = (value: number, digits: number = 2) => parseFloat(value.toFixed(digits));
+
+const monthKey = (date: Date) => `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+
+/**
+ * Attach drawdown from the running peak (0 or negative percent) to each equity sample
+ */
+export function buildEquityCurve(samples: EquitySample[]): EquityPoint[] {
+  let peak = -Infinity;
+
+  return samples.map((sample) => {
+    peak = Math.max(peak, sample.value);
+    return {
+      date: sample.date,
+      value: round(sample.value),
+      drawdown: peak > 0 ? round(Math.min(0, ((sample.value - peak) / peak) * 100)) : 0
+    };
+  });
+}
+
+/**
+ * Calculate the PerformanceMetrics shape from trades (closed trades carry a result)
+ * and an equity curve sampled at regular intervals
+ */
+export function calculatePerformanceMetrics(
+  trades: TradingHistoryItem[],
+  equity: EquitySample[],
+  options: PerformanceMetricsOptions
+): PerformanceMetrics {
+  const { initialValue, periodsPerYear } = options;
+
+  const closedTrades = trades.filter((t) => t.result);
+  const winningTrades = closedTrades.filter((t) => t.result!.profitLoss > 0);
+  const losingTrades = closedTrades.filter((t) => t.result!.profitLoss < 0);
+  const average = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+  const finalValue = equity.length > 0 ? equity[equity.length - 1].value : initialValue;
+  const totalReturn = finalValue - initialValue;
+
+  // Sharpe and volatility from period-over-period equity returns (risk-free rate 0)
+  const periodReturns = equity.slice(1).map((point, i) => point.value / equity[i].value - 1);
+  const meanReturn = average(periodReturns);
+  const stdDev = Math.sqrt(average(periodReturns.map((r) => Math.pow(r - meanReturn, 2))));
+  const sharpeRatio = stdDev > 0 ? (meanReturn / stdDev) * Math.sqrt(periodsPerYear) : 0;
+
+  // Max drawdown from the running peak
+  let peak = initialValue;
+  let maxDrawdown = 0;
+  let maxDrawdownPercent = 0;
+  for (const point of equity) {
+    peak = Math.max(peak, point.value);
+    if (peak - point.value > maxDrawdown) {
+      maxDrawdown = peak - point.value;
+      maxDrawdownPercent = ((peak - point.value) / peak) * 100;
+    }
+  }
+
+  // Monthly returns compare each month's closing equity with the previous month's
+  const monthlyReturns: Record<string, number> = {};
+  let previousClose = initialValue;
+  equity.forEach((point, i) => {
+    const month = monthKey(point.date);
+    const isMonthEnd = i === equity.length - 1 || monthKey(equity[i + 1].date) !== month;
+    if (isMonthEnd) {
+      monthlyReturns[month] = round(((point.value - previousClose) / previousClose) * 100);
+      previousClose = point.value;
+    }
+  });
+
+  const sortedByReturn = [...closedTrades].sort((a, b) => b.result!.percentReturn - a.result!.percentReturn);
+  const toTradeSummary = (trade?: TradingHistoryItem) =>
+    trade
+      ? { symbol: trade.symbol, return: round(trade.result!.percentReturn), date: trade.timestamp }
+      : { symbol: 'N/A', return: 0, date: new Date() };
+
+  return {
+    totalReturn: round(totalReturn),
+    totalReturnPercent: initialValue > 0 ? round((totalReturn / initialValue) * 100) : 0,
+    winRate: closedTrades.length > 0 ? round((winningTrades.length / closedTrades.length) * 100, 1) : 0,
+    averageReturn: round(average(closedTrades.map((t) => t.result!.percentReturn))),
+    averageWin: round(average(winningTrades.map((t) => t.result!.percentReturn))),
+    averageLoss: round(average(losingTrades.map((t) => t.result!.percentReturn))),
+    sharpeRatio: round(sharpeRatio),
+    maxDrawdown: round(maxDrawdown),
+    maxDrawdownPercent: round(maxDrawdownPercent),
+    volatility: round(stdDev * Math.sqrt(periodsPerYear) * 100),
+    totalTrades: trades.length,
+    winningTrades: winningTrades.length,
+    losingTrades: losingTrades.length,
+    averageHoldingPeriod: round(average(closedTrades.map((t) => t.result!.holdingPeriod)), 1),
+    bestTrade: toTradeSummary(sortedByReturn[0]),
+    worstTrade: toTradeSummary(sortedByReturn[sortedByReturn.length - 1]),
+    monthlyReturns,
+    equityCurve: buildEquityCurve(equity)
+  };
+}
@@ -1,4 +1,16 @@
 // Technical indicators calculation utilities
+// Series-in, latest-value-out helpers over the streaming indicator engine
+
+import {
+  BollingerBands,
+  DonchianChannels,
+  EMA,
+  MACD,
+  RSI,
+  SMA,
+  Stochastic
+} from '@/lib/indicators/streaming-indicators';
+import { computeIndicators, latestValue } from '@/lib/indicators/indicator-engine';
 
 export interface PriceData {
   timestamp: Date;
@@ -31,68 +43,42 @@ export interface TechnicalIndicatorData {
   bbWidth?: number;
   support?: number;
   resistance?: number;
+  atr?: number;
+  adx?: number;
+  plusDI?: number;
+  minusDI?: number;
+  obv?: number;
+  vwap?: number;
+  ichimokuConversion?: number;
+  ichimokuBase?: number;
+  ichimokuSpanA?: number; // Cloud over the latest candle
+  ichimokuSpanB?: number;
+  keltnerUpper?: number;
+  keltnerLower?: number;
+  donchianUpper?: number;
+  donchianLower?: number;
 }
 
 // Simple Moving Average
 export function calculateSMA(prices: number[], period: number): number | null {
-  if (prices.length < period) return null;
-  
-  const sum = prices.slice(-period).reduce((acc, price) => acc + price, 0);
-  return sum / period;
+  return latestValue(new SMA(period), prices);
 }
 
-// Exponential Moving Average
+// Exponential Moving Average; with previousEMA, one step from it on the latest price
 export function calculateEMA(prices: number[], period: number, previousEMA?: number): number | null {
   if (prices.length === 0) return null;
   
-  const currentPrice = prices[prices.length - 1];
-  
   if (previousEMA === undefined) {
-    // Use SMA as the first EMA value
-    return calculateSMA(prices, period);
+    return latestValue(new EMA(period), prices);
   }
   
   const multiplier = 2 / (period + 1);
-  return (currentPrice * multiplier) + (previousEMA * (1 - multiplier));
+  return (prices[prices.length - 1] - previousEMA) * multiplier + previousEMA;
 }
 
-// Relative Strength Index
+// Relative Strength Index (Wilder's smoothing)
 export function calculateRSI(prices: number[], period: number = 14): number | null {
-  if (prices.length < period + 1) return null;
-  
-  let gains = 0;
-  let losses = 0;
-  
-  // Calculate initial average gains and losses
-  for (let i = 1; i <= period; i++) {
-    const change = prices[i] - prices[i - 1];
-    if (change > 0) {
-      gains += change;
-    } else {
-      losses -= change;
-    }
-  }
-  
-  let avgGain = gains / period;
-  let avgLoss = losses / period;
-  
-  // Calculate RSI using Wilder's smoothing
-  for (let i = period + 1; i < prices.length; i++) {
-    const change = prices[i] - prices[i - 1];
-    
-    if (change > 0) {
-      avgGain = (avgGain * (period - 1) + change) / period;
-      avgLoss = (avgLoss * (period - 1)) / period;
-    } else {
-      avgGain = (avgGain * (period - 1)) / period;
-      avgLoss = (avgLoss * (period - 1) - change) / period;
-    }
-  }
-  
-  if (avgLoss === 0) return 100;
-  
-  const rs = avgGain / avgLoss;
-  return 100 - (100 / (1 + rs));
+  return latestValue(new RSI(period), prices);
 }
 
 // MACD (Moving Average Convergence Divergence)
@@ -102,25 +88,8 @@ export function calculateMACD(
   slowPeriod: number = 26, 
   signalPeriod: number = 9
 ): { macd: number | null; signal: number | null; histogram: number | null } {
-  if (prices.length < slowPeriod) {
-    return { macd: null, signal: null, histogram: null };
-  }
-  
-  const emaFast = calculateEMA(prices, fastPeriod);
-  const emaSlow = calculateEMA(prices, slowPeriod);
-  
-  if (emaFast === null || emaSlow === null) {
-    return { macd: null, signal: null, histogram: null };
-  }
-  
-  const macd = emaFast - emaSlow;
-  
-  // For signal calculation, we would need historical MACD values
-  // Simplified version - in real implementation, we'd track MACD history
-  const signal = macd * 0.9; // Approximation for demo
-  const histogram = macd - signal;
-  
-  return { macd, signal, histogram };
+  const value = latestValue(new MACD(fastPeriod, slowPeriod, signalPeriod), prices);
+  return { macd: value?.macd ?? null, signal: value?.signal ?? null, histogram: value?.histogram ?? null };
 }
 
 // Bollinger Bands
@@ -129,28 +98,11 @@ export function calculateBollingerBands(
   period: number = 20, 
   multiplier: number = 2
 ): { upper: number | null; middle: number | null; lower: number | null; width: number | null } {
-  if (prices.length < period) {
-    return { upper: null, middle: null, lower: null, width: null };
-  }
-  
-  const middle = calculateSMA(prices, period);
-  if (middle === null) {
-    return { upper: null, middle: null, lower: null, width: null };
-  }
-  
-  // Calculate standard deviation
-  const recentPrices = prices.slice(-period);
-  const variance = recentPrices.reduce((acc, price) => acc + Math.pow(price - middle, 2), 0) / period;
-  const stdDev = Math.sqrt(variance);
-  
-  const upper = middle + (stdDev * multiplier);
-  const lower = middle - (stdDev * multiplier);
-  const width = upper - lower;
-  
-  return { upper, middle, lower, width };
+  const value = latestValue(new BollingerBands(period, multiplier), prices);
+  return { upper: value?.upper ?? null, middle: value?.middle ?? null, lower: value?.lower ?? null, width: value?.width ?? null };
 }
 
-// Stochastic Oscillator
+// Stochastic Oscillator (%D is the SMA of %K)
 export function calculateStochastic(
   highs: number[], 
   lows: number[], 
@@ -158,47 +110,26 @@ export function calculateStochastic(
   kPeriod: number = 14, 
   dPeriod: number = 3
 ): { stochK: number | null; stochD: number | null } {
-  if (highs.length < kPeriod || lows.length < kPeriod || closes.length < kPeriod) {
-    return { stochK: null, stochD: null };
-  }
-  
-  const recentHighs = highs.slice(-kPeriod);
-  const recentLows = lows.slice(-kPeriod);
-  const currentClose = closes[closes.length - 1];
-  
-  const highestHigh = Math.max(...recentHighs);
-  const lowestLow = Math.min(...recentLows);
-  
-  let stochK = null;
-  if (highestHigh !== lowestLow) {
-    stochK = ((currentClose - lowestLow) / (highestHigh - lowestLow)) * 100;
-  }
-  
-  // %D is typically a moving average of %K
-  // Simplified version - in real implementation, we'd track %K history
-  const stochD = stochK !== null ? stochK * 0.85 : null; // Approximation for demo
-  
-  return { stochK, stochD };
+  const candles = closes.map((close, i) => ({ high: highs[i] ?? close, low: lows[i] ?? close, close }));
+  const value = latestValue(new Stochastic(kPeriod, dPeriod), candles);
+  return { stochK: value?.k ?? null, stochD: value?.d ?? null };
 }
 
-// Support and Resistance levels (simplified)
+// Support and Resistance levels (simplified): just inside the Donchian channel
 export function calculateSupportResistance(
   prices: number[], 
   highs: number[], 
   lows: number[], 
   period: number = 20
 ): { support: number | null; resistance: number | null } {
-  if (prices.length < period) {
+  const candles = prices.map((close, i) => ({ high: highs[i] ?? close, low: lows[i] ?? close, close }));
+  const channel = latestValue(new DonchianChannels(period), candles);
+  if (!channel) {
     return { support: null, resistance: null };
   }
   
-  const recentPrices = prices.slice(-period);
-  const recentHighs = highs.slice(-period);
-  const recentLows = lows.slice(-period);
-  
-  // Simple support/resistance based on recent highs and lows
-  const resistance = Math.max(...recentHighs) * 0.98; // Slightly below highest high
-  const support = Math.min(...recentLows) * 1.02; // Slightly above lowest low
+  const resistance = channel.upper * 0.98; // Slightly below highest high
+  const support = channel.lower * 1.02; // Slightly above lowest low
   
   return { support, resistance };
 }
@@ -209,59 +140,61 @@ export function calculateTechnicalIndicators(
 ): TechnicalIndicatorData | null {
   if (priceHistory.length === 0) return null;
   
-  const prices = priceHistory.map(p => p.price);
-  const highs = priceHistory.map(p => p.high);
-  const lows = priceHistory.map(p => p.low);
+  const snapshot = computeIndicators(priceHistory.map(p => ({
+    time: p.timestamp.getTime(),
+    high: p.high,
+    low: p.low,
+    close: p.price,
+    volume: p.volume
+  })));
+  if (!snapshot) return null;
   
   const latest = priceHistory[priceHistory.length - 1];
-  
-  // Calculate all indicators
-  const sma5 = calculateSMA(prices, 5);
-  const sma10 = calculateSMA(prices, 10);
-  const sma20 = calculateSMA(prices, 20);
-  const sma50 = calculateSMA(prices, 50);
-  
-  const ema12 = calculateEMA(prices, 12);
-  const ema26 = calculateEMA(prices, 26);
-  
-  const rsi = calculateRSI(prices, 14);
-  
-  const { stochK, stochD } = calculateStochastic(highs, lows, prices, 14, 3);
-  
-  const { macd, signal: macdSignal, histogram: macdHistogram } = calculateMACD(prices, 12, 26, 9);
-  
-  const { 
-    upper: bbUpper, 
-    middle: bbMiddle, 
-    lower: bbLower, 
-    width: bbWidth 
-  } = calculateBollingerBands(prices, 20, 2);
-  
-  const { support, resistance } = calculateSupportResistance(prices, highs, lows, 20);
+  const { support, resistance } = calculateSupportResistance(
+    priceHistory.map(p => p.price),
+    priceHistory.map(p => p.high),
+    priceHistory.map(p => p.low),
+    20
+  );
+  const value = (n: number | null | undefined) => n ?? undefined;
   
   return {
     price: latest.price,
     high: latest.high,
     low: latest.low,
     volume: latest.volume,
-    sma5,
-    sma10,
-    sma20,
-    sma50,
-    ema12,
-    ema26,
-    rsi,
-    stochK,
-    stochD,
-    macd,
-    macdSignal,
-    macdHistogram,
-    bbUpper,
-    bbMiddle,
-    bbLower,
-    bbWidth,
-    support,
-    resistance,
+    sma5: value(snapshot.sma[5]),
+    sma10: value(snapshot.sma[10]),
+    sma20: value(snapshot.sma[20]),
+    sma50: value(snapshot.sma[50]),
+    ema12: value(snapshot.ema[12]),
+    ema26: value(snapshot.ema[26]),
+    rsi: value(snapshot.rsi),
+    stochK: value(snapshot.stochastic?.k),
+    stochD: value(snapshot.stochastic?.d),
+    macd: value(snapshot.macd?.macd),
+    macdSignal: value(snapshot.macd?.signal),
+    macdHistogram: value(snapshot.macd?.histogram),
+    bbUpper: value(snapshot.bollinger?.upper),
+    bbMiddle: value(snapshot.bollinger?.middle),
+    bbLower: value(snapshot.bollinger?.lower),
+    bbWidth: value(snapshot.bollinger?.width),
+    support: value(support),
+    resistance: value(resistance),
+    atr: value(snapshot.atr),
+    adx: value(snapshot.adx?.adx),
+    plusDI: value(snapshot.adx?.plusDI),
+    minusDI: value(snapshot.adx?.minusDI),
+    obv: snapshot.obv,
+    vwap: value(snapshot.vwap),
+    ichimokuConversion: value(snapshot.ichimoku?.conversion),
+    ichimokuBase: value(snapshot.ichimoku?.base),
+    ichimokuSpanA: value(snapshot.ichimoku?.cloudA),
+    ichimokuSpanB: value(snapshot.ichimoku?.cloudB),
+    keltnerUpper: value(snapshot.keltner?.upper),
+    keltnerLower: value(snapshot.keltner?.lower),
+    donchianUpper: value(snapshot.donchian?.upper),
+    donchianLower: value(snapshot.donchian?.lower),
   };
 }
 
@@ -0,0 +1,6 @@
+// Validation schemas for executing agent decisions
+import { z } from 'zod';
+
+export const AgentDecisionSchema = z.object({
+  patternId: z.string().min(1).optional()
+});
@@ -0,0 +1,25 @@
+// Validation schemas for agent backtests
+import { z } from 'zod';
+import { CANDLE_INTERVALS } from '@/types/candles';
+
+const MAX_BACKTEST_DAYS = 366;
+
+export const BacktestInputSchema = z
+  .object({
+    from: z.coerce.date(),
+    to: z.coerce.date().default(() => new Date()),
+    interval: z.enum(CANDLE_INTERVALS).optional(),
+    initialBalance: z.number().positive().max(100000000).optional(),
+    feeRate: z.number().min(0).max(0.05).optional(),
+    slippageBps: z.number().min(0).max(500).optional(),
+    positionSizePercent: z.number().positive().max(100).optional(),
+    minConfidence: z.number().min(0).max(100).optional()
+  })
+  .refine((input) => input.from < input.to, {
+    message: 'from must be before to',
+    path: ['from']
+  })
+  .refine((input) => input.to.getTime() - input.from.getTime() <= MAX_BACKTEST_DAYS * 24 * 60 * 60 * 1000, {
+    message: `Backtest range cannot exceed ${MAX_BACKTEST_DAYS} days`,
+    path: ['to']
+  });
@@ -0,0 +1,42 @@
+// Validation schemas for candle queries and backfills
+import { z } from 'zod';
+import { CANDLE_INTERVALS } from '@/types/candles';
+
+const MAX_BACKFILL_DAYS = 31;
+
+// Upper-cased before the check; the symbol ends up in exchange request URLs
+const symbol = z
+  .string()
+  .trim()
+  .transform((value) => value.toUpperCase())
+  .pipe(z.string().regex(/^[A-Z0-9]{2,10}$/, 'Symbol must be 2-10 letters or digits'));
+
+export const CandleQuerySchema = z
+  .object({
+    symbol: symbol.default('BTC'),
+    interval: z.enum(CANDLE_INTERVALS).default('1h'),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    limit: z.coerce.number().int().min(1).max(1000).default(500)
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: 'from must be before to',
+    path: ['from']
+  });
+
+export const CandleBackfillSchema = z
+  .object({
+    symbol: symbol.default('BTC'),
+    from: z.coerce.date(),
+    to: z.coerce.date().default(() => new Date()),
+    fetchExchange: z.boolean().default(true),
+    fillGaps: z.boolean().default(true)
+  })
+  .refine((input) => input.from < input.to, {
+    message: 'from must be before to',
+    path: ['from']
+  })
+  .refine((input) => input.to.getTime() - input.from.getTime() <= MAX_BACKFILL_DAYS * 24 * 60 * 60 * 1000, {
+    message: `Backfill range cannot exceed ${MAX_BACKFILL_DAYS} days`,
+    path: ['to']
+  });
@@ -0,0 +1,38 @@
+// Validation schemas for the order book
+import { z } from 'zod';
+
+const quantity = z.number().positive().max(1000);
+const price = z.number().positive();
+const expiresAt = z.coerce.date().refine((date) => date.getTime() > Date.now(), {
+  message: 'expiresAt must be in the future'
+});
+
+export const OrderInputSchema = z.object({
+  side: z.enum(['buy', 'sell']),
+  type: z.enum(['limit', 'stop_market', 'stop_limit', 'take_profit']),
+  quantity,
+  limitPrice: price.optional(),
+  triggerPrice: price.optional(),
+  expiresAt: expiresAt.optional()
+});
+
+export const OcoOrderInputSchema = z.object({
+  type: z.literal('oco'),
+  side: z.enum(['buy', 'sell']),
+  quantity,
+  takeProfitPrice: price,
+  stopPrice: price,
+  stopLimitPrice: price.optional(),
+  expiresAt: expiresAt.optional()
+});
+
+export const OrderAmendSchema = z.object({
+  quantity: quantity.optional(),
+  limitPrice: price.optional(),
+  triggerPrice: price.optional(),
+  expiresAt: expiresAt.nullable().optional()
+});
+
+export const OrderStatusFilterSchema = z.array(
+  z.enum(['open', 'partially_filled', 'filled', 'cancelled', 'expired'])
+);
@@ -0,0 +1,34 @@
+// Validation schemas for pattern rules
+import { z } from 'zod';
+import { CANDLE_INTERVALS } from '@/types/candles';
+import { MAX_RULE_LENGTH, PatternRuleError, parsePatternRule } from '@/lib/patterns/pattern-rules';
+
+// A rule that parses and type-checks; parse errors carry their position in the rule
+export const PatternRuleSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(MAX_RULE_LENGTH)
+  .superRefine((rule, ctx) => {
+    try {
+      parsePatternRule(rule);
+    } catch (error) {
+      if (!(error instanceof PatternRuleError)) throw error;
+      ctx.addIssue({ code: 'custom', message: error.message });
+    }
+  });
+
+export const PatternRuleEvaluationSchema = z
+  .object({
+    rule: PatternRuleSchema.optional(),
+    patternId: z.string().min(1).optional(),
+    symbol: z.string().trim().min(1).max(10).transform((value) => value.toUpperCase()).default('BTC'),
+    interval: z.enum(CANDLE_INTERVALS).default('1h'),
+    limit: z.number().int().min(1).max(1000).default(200)
+  })
+  .refine((input) => Boolean(input.rule) !== Boolean(input.patternId), {
+    message: 'Provide either a rule or a patternId',
+    path: ['rule']
+  });
+
+export type PatternRuleEvaluationInput = z.infer<typeof PatternRuleEvaluationSchema>;
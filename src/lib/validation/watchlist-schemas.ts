@@ -6,6 +6,7 @@ export const WatchlistItemInputSchema = z.object({
   name: z.string().min(1).max(100),
   alertPrice: z.number().positive().optional(),
   alertType: z.enum(['above', 'below', 'both']).optional(),
+  alertPercent: z.number().positive().max(100).optional(),
   notes: z.string().max(1000).optional(),
   tags: z.array(z.string()).optional().default([]),
   userId: z.string().optional()
@@ -15,6 +16,7 @@ export const WatchlistItemUpdateSchema = z.object({
   name: z.string().min(1).max(100).optional(),
   alertPrice: z.number().positive().optional(),
   alertType: z.enum(['above', 'below', 'both']).optional(),
+  alertPercent: z.number().positive().max(100).optional(),
   notes: z.string().max(1000).optional(),
   tags: z.array(z.string()).optional(),
   alertTriggered: z.boolean().optional()
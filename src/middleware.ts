@@ -1,14 +1,139 @@
-// Middleware for protected routes - DEMO MODE (NO AUTH REQUIRED)
+// Middleware for protected routes: without a valid access token whose session is active,
+// the refresh-token cookie is exchanged for new tokens; failing that, pages redirect to
+// /login and API routes answer 401. Market data, agents and news stay public, but their
+// API routes refresh a signed-in session too, since some of them act for the user.
+// API requests may instead send `Authorization: Bearer <api key>`; the key must hold the
+// scope the route needs and stay within its rate limit.
 
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { getBearerToken, getCurrentUser, getSessionClientInfo, unauthorizedResponse } from '@/lib/auth/current-user';
+import { AUTH_COOKIE, REFRESH_COOKIE, clearAuthCookies, setAuthCookies } from '@/lib/auth/tokens';
+import { requiredScope } from '@/lib/auth/api-key-scopes';
+import { SessionError, sessionService } from '@/lib/services/session-service';
+import { ApiKeyError, apiKeyService } from '@/lib/services/api-key-service';
 
-export function middleware(request: NextRequest) {
-  // Demo mode - allow all routes without authentication
-  return NextResponse.next();
+// Pages and API routes that read or change one user's data
+const PROTECTED_PAGES = ['/dashboard', '/chat', '/watchlist', '/account'];
+const PROTECTED_APIS = [
+  '/api/portfolio',
+  '/api/trade',
+  '/api/trades',
+  '/api/orders',
+  '/api/trading-notes',
+  '/api/watchlist',
+  '/api/chat',
+  '/api/ai-trade',
+  '/api/auth/me',
+  '/api/auth/sessions',
+  '/api/auth/password',
+  '/api/auth/verify-email/resend',
+  '/api/auth/api-keys'
+];
+
+const matchesPrefix = (pathname: string, prefixes: string[]) =>
+  prefixes.some((prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`));
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const isProtectedApi = matchesPrefix(pathname, PROTECTED_APIS);
+  const isProtectedPage = matchesPrefix(pathname, PROTECTED_PAGES);
+
+  const apiKey = pathname.startsWith('/api/') ? getBearerToken(request) : null;
+  if (apiKey) {
+    return authenticateApiKey(request, apiKey, isProtectedApi);
+  }
+
+  const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+
+  if (!isProtectedApi && !isProtectedPage) {
+    // Public API routes such as agent trades still read the user; refresh an expired session there
+    if (pathname.startsWith('/api/') && refreshToken && !(await getCurrentUser(request))) {
+      return (await refreshSession(request, refreshToken)) ?? NextResponse.next();
+    }
+    return NextResponse.next();
+  }
+
+  if (await getCurrentUser(request)) {
+    return NextResponse.next();
+  }
+
+  const refreshed = refreshToken ? await refreshSession(request, refreshToken) : null;
+  if (refreshed) {
+    return refreshed;
+  }
+
+  if (isProtectedApi) {
+    return clearAuthCookies(unauthorizedResponse());
+  }
+
+  const loginUrl = new URL('/login', request.url);
+  loginUrl.searchParams.set('next', `${pathname}${search}`);
+  return clearAuthCookies(NextResponse.redirect(loginUrl));
+}
+
+/**
+ * Exchange the refresh-token cookie for new tokens, or null when the session cannot be refreshed
+ */
+async function refreshSession(request: NextRequest, refreshToken: string): Promise<NextResponse | null> {
+  try {
+    const tokens = await sessionService.refresh(refreshToken, getSessionClientInfo(request));
+
+    // Hand the new access token to the route serving this request, and to the browser
+    request.cookies.set(AUTH_COOKIE, tokens.accessToken);
+    return setAuthCookies(NextResponse.next({ request: { headers: request.headers } }), tokens);
+  } catch (error) {
+    if (!(error instanceof SessionError)) {
+      console.error('❌ Session refresh failed in middleware:', error);
+    }
+    return null;
+  }
+}
+
+/**
+ * Let a request with an API key through when the key may call the route, counting it
+ * against the key's rate limit
+ */
+async function authenticateApiKey(request: NextRequest, apiKey: string, isProtectedApi: boolean) {
+  const scope = requiredScope(request.nextUrl.pathname, request.method);
+  if (!scope) {
+    // Public routes ignore the key; everywhere else keys cannot act as a user
+    return isProtectedApi
+      ? apiKeyErrorResponse(new ApiKeyError('API keys cannot be used for this route', 'API_KEY_NOT_ALLOWED', 403))
+      : NextResponse.next();
+  }
+
+  try {
+    const usage = await apiKeyService.authenticate(apiKey, scope, getSessionClientInfo(request).ipAddress);
+
+    const response = NextResponse.next();
+    response.headers.set('X-RateLimit-Limit', String(usage.limit));
+    response.headers.set('X-RateLimit-Remaining', String(usage.remaining));
+    response.headers.set('X-RateLimit-Reset', String(Math.ceil(usage.resetAt.getTime() / 1000)));
+    return response;
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return apiKeyErrorResponse(error);
+    }
+    console.error('❌ API key check failed in middleware:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+function apiKeyErrorResponse(error: ApiKeyError): NextResponse {
+  const response = NextResponse.json(
+    { success: false, code: error.code, message: error.message },
+    { status: error.status }
+  );
+  if (error.retryAfterSeconds) {
+    response.headers.set('Retry-After', String(error.retryAfterSeconds));
+  }
+  return response;
 }
 
 export const config = {
+  // jsonwebtoken needs Node.js crypto, sessions need Prisma
+  runtime: 'nodejs',
   matcher: [
     /*
      * Match all request paths except for the ones starting with:
@@ -18,6 +143,6 @@ export const config = {
      * - public folder
      * - api routes that don't require auth
      */
-    '/((?!_next/static|_next/image|favicon.ico|public|api/auth|api/bitcoin).*)',
+    '/((?!_next/static|_next/image|favicon.ico|public|api/bitcoin).*)',
   ],
-};
\ No newline at end of file
+};
@@ -0,0 +1,50 @@
+// Price alert types shared by the evaluator, the alert stream and the notification UI
+
+export type PriceAlertType = 'above' | 'below' | 'both';
+
+export type PriceAlertTarget = 'watchlist' | 'agent_watchlist';
+
+export type PriceAlertReason = 'above' | 'below' | 'cross' | 'change';
+
+export interface PriceAlertRule {
+  alertPrice?: number | null;
+  alertType?: string | null;
+  alertPercent?: number | null; // Fire on a move of this many % from basePrice
+}
+
+export interface PriceAlertState {
+  triggered: boolean; // Level alert has fired and waits to be re-armed
+  lastAlertAt: Date | null;
+  basePrice: number | null; // Reference price for the percent-change rule
+  lastPrice: number | null; // Previous price seen, for 'both' crossings
+}
+
+export interface PriceAlertConfig {
+  cooldownMs: number; // Minimum time between two alerts for one item
+  rearmPercent: number; // Distance (%) back across the level before a level alert re-arms
+  sweepIntervalMs: number; // How often symbols without a live feed are re-quoted
+}
+
+export interface PriceAlertHit {
+  reason: PriceAlertReason;
+  direction: 'up' | 'down';
+  threshold: number; // alertPrice, or the base price for 'change'
+  changePercent?: number;
+}
+
+export interface PriceAlertEvaluation {
+  hit: PriceAlertHit | null;
+  state: PriceAlertState;
+  changed: boolean; // Persisted fields (triggered, lastAlertAt, basePrice) differ
+}
+
+export interface PriceAlertEvent extends PriceAlertHit {
+  id: number;
+  target: PriceAlertTarget;
+  itemId: string;
+  ownerId: string; // userId for watchlist items, agentId for agent items
+  symbol: string;
+  name: string;
+  price: number;
+  triggeredAt: string;
+}
@@ -4,6 +4,7 @@ export interface AuthUser {
   id: string;
   email: string;
   username: string;
+  emailVerified: boolean;
   gameLevel: number;
   experience: number;
 }
@@ -12,6 +13,7 @@ export interface JWTPayload {
   userId: string;
   email: string;
   username: string;
+  sid: string; // Session the access token was issued for
   iat?: number;
   exp?: number;
 }
@@ -19,8 +21,10 @@ export interface JWTPayload {
 export interface AuthResponse {
   success: boolean;
   message: string;
+  code?: string; // Machine-readable reason on failure, e.g. 'TOKEN_EXPIRED'
   user?: AuthUser;
-  token?: string;
+  token?: string; // Access token
+  refreshToken?: string;
 }
 
 export interface LoginRequest {
@@ -38,4 +42,58 @@ export interface SessionData {
   user: AuthUser;
   token: string;
   expiresAt: Date;
-}
\ No newline at end of file
+}
+// The signed-in user as read from a verified token whose session is still active,
+// or from an API key allowed to call the route
+export interface CurrentUser {
+  id: string;
+  email: string;
+  username: string;
+  sessionId?: string; // Set for browser sessions
+  apiKeyId?: string; // Set when the request was made with an API key
+}
+
+// Device a session was started or last refreshed from
+export interface SessionClientInfo {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export interface SessionSummary {
+  id: string;
+  device: string; // e.g. 'Chrome on macOS'
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
+export type ApiKeyScope =
+  | 'read:portfolio'
+  | 'trade'
+  | 'read:notes'
+  | 'notes:write'
+  | 'read:watchlist'
+  | 'watchlist:write'
+  | 'manage:agents';
+
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  prefix: string; // e.g. 'btg_3fK9aQ2x'
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  expiresAt: Date | null;
+  createdAt: Date;
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute?: number;
+  expiresInDays?: number; // Never expires when omitted
+}
@@ -0,0 +1,36 @@
+// Backtest types for replaying agent personalities over stored candles
+
+import type { CandleInterval } from './candles';
+import type { PerformanceMetrics, TradingHistoryItem } from './trading';
+
+export interface BacktestSettings {
+  from: Date;
+  to: Date;
+  interval: CandleInterval;
+  initialBalance: number; // USD
+  feeRate: number; // Fraction of notional, e.g. 0.001 = 0.1%
+  slippageBps: number; // Adverse price move applied to every fill, in basis points
+  positionSizePercent: number; // Share of available cash spent on each buy signal
+  minConfidence: number; // Signals below this confidence are ignored
+}
+
+export type BacktestInput = Pick<BacktestSettings, 'from' | 'to'> & Partial<BacktestSettings>;
+
+export interface BacktestResult {
+  agentId: string;
+  agentName: string;
+  personality: string;
+  settings: BacktestSettings;
+  candles: number;
+  startedAt: Date;
+  endedAt: Date;
+  finalValue: number;
+  buyAndHoldReturnPercent: number; // Benchmark over the same candles
+  openPosition: {
+    quantity: number;
+    costBasis: number;
+    marketValue: number;
+  } | null;
+  trades: TradingHistoryItem[];
+  metrics: PerformanceMetrics;
+}
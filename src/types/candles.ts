@@ -0,0 +1,77 @@
+// OHLCV candle types and interval helpers
+
+export type CandleInterval = '1m' | '5m' | '15m' | '1h' | '4h' | '1d' | '1w';
+
+export type CandleSource = 'ticks' | 'binance' | 'rollup' | 'gap_fill';
+
+export const CANDLE_INTERVALS: CandleInterval[] = ['1m', '5m', '15m', '1h', '4h', '1d', '1w'];
+
+const MINUTE = 60 * 1000;
+
+export const INTERVAL_MS: Record<CandleInterval, number> = {
+  '1m': MINUTE,
+  '5m': 5 * MINUTE,
+  '15m': 15 * MINUTE,
+  '1h': 60 * MINUTE,
+  '4h': 240 * MINUTE,
+  '1d': 1440 * MINUTE,
+  '1w': 10080 * MINUTE
+};
+
+// Each interval is rolled up from the one below it; every bucket divides evenly
+export const ROLLUP_SOURCE: Partial<Record<CandleInterval, CandleInterval>> = {
+  '5m': '1m',
+  '15m': '5m',
+  '1h': '15m',
+  '4h': '1h',
+  '1d': '4h',
+  '1w': '1d'
+};
+
+// Weeks start on Monday 00:00 UTC like Binance; the epoch was a Thursday
+const WEEK_OFFSET = 4 * INTERVAL_MS['1d'];
+
+/**
+ * Start of the UTC bucket that contains the given time
+ */
+export function getBucketStart(interval: CandleInterval, time: Date | number): Date {
+  const ms = typeof time === 'number' ? time : time.getTime();
+  const size = INTERVAL_MS[interval];
+  const offset = interval === '1w' ? WEEK_OFFSET : 0;
+  return new Date(Math.floor((ms - offset) / size) * size + offset);
+}
+
+/**
+ * Last millisecond of the bucket that starts at openTime
+ */
+export function getBucketEnd(interval: CandleInterval, openTime: Date): Date {
+  return new Date(openTime.getTime() + INTERVAL_MS[interval] - 1);
+}
+
+export interface OHLCV {
+  openTime: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  tickCount: number;
+}
+
+export interface CandleQuery {
+  symbol?: string;
+  interval: CandleInterval;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export interface BackfillResult {
+  symbol: string;
+  from: Date;
+  to: Date;
+  fromTicks: number; // 1m candles built from BitcoinPrice ticks
+  fromExchange: number; // 1m candles fetched from Binance REST
+  gapFilled: number; // Flat 1m candles inserted where no data exists
+  rolledUp: number; // Higher-interval candles written
+}
@@ -0,0 +1,102 @@
+// Agent chat types shared by the chat API, streaming endpoint and chat UI
+
+export type ChatMessageType = 'user' | 'agent' | 'system';
+
+// ChatMessage as sent over the API, with ISO date strings
+export interface SerializedChatMessage {
+  id: string;
+  agentId: string;
+  userId: string;
+  content: string;
+  type: ChatMessageType;
+  metadata: string; // JSON
+  isRead: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Command recognised in the user's message, e.g. a pattern or watchlist request
+export interface ChatCommandEvent {
+  type: string; // Response metadata type, e.g. 'pattern_creation', 'watchlist_addition', 'pattern_added'
+  command: string; // ParsedCommand type
+  action: string; // ParsedCommand action
+  requiresConfirmation: boolean;
+  metadata: Record<string, unknown>;
+}
+
+export type ChatReplyEvent =
+  | { type: 'token'; text: string }
+  | { type: 'command'; command: ChatCommandEvent }
+  | { type: 'done'; message: SerializedChatMessage }
+  | { type: 'cancelled'; message: SerializedChatMessage | null } // Partial reply, persisted if any text arrived
+  | { type: 'error'; code: string; message: string };
+
+// Events on the SSE stream; ids are sequential per stream so clients can resume with Last-Event-ID
+export type ChatStreamEvent =
+  | { id: number; type: 'start'; streamId: string; userMessage: SerializedChatMessage }
+  | ({ id: number } & ChatReplyEvent);
+
+export const TERMINAL_CHAT_EVENTS: ReadonlyArray<ChatStreamEvent['type']> = ['done', 'cancelled', 'error'];
+
+// Concrete change proposed from a parsed chat command, applied only after the user confirms
+export interface PlannedWatchlistItem {
+  itemId?: string; // Existing item to update instead of creating one
+  symbol: string;
+  name: string;
+  category: string;
+  reason: string;
+  agentView: string;
+  alertPrice?: number;
+  alertType?: 'above' | 'below' | 'both';
+}
+
+export type ChatCommandPlan =
+  | {
+      kind: 'pattern.create';
+      pattern: { name: string; description: string; priority: number; confidenceRate: number; examples: string[]; rule?: string; direction: 'BUY' | 'SELL' };
+    }
+  | {
+      kind: 'pattern.update';
+      patternId: string;
+      patternName: string;
+      changes: { priorConfidence?: number; priority?: number };
+    }
+  | { kind: 'pattern.remove'; patternId: string; patternName: string }
+  | { kind: 'watchlist.add'; items: PlannedWatchlistItem[] }
+  | {
+      kind: 'watchlist.update';
+      items: Array<{ itemId: string; symbol: string; alertPrice?: number; alertType?: 'above' | 'below' | 'both' }>;
+    }
+  | { kind: 'watchlist.remove'; items: Array<{ itemId: string; symbol: string }> }
+  | { kind: 'strategy.add'; strategies: string[] }
+  | { kind: 'strategy.remove'; strategies: string[] };
+
+// One row written by an executed command; `before` is null for created rows
+export interface ChatCommandChange {
+  model: 'pattern' | 'watchlistItem' | 'agent';
+  id: string;
+  operation: 'create' | 'update';
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown>;
+}
+
+export type ChatCommandStatus = 'pending' | 'executed' | 'cancelled' | 'undone';
+
+export type ChatCommandAction = 'confirm' | 'cancel' | 'undo';
+
+// Stored as `execution` in the proposing agent message's metadata
+export interface ChatCommandExecution {
+  status: ChatCommandStatus;
+  summary: string;
+  plan: ChatCommandPlan;
+  changes?: ChatCommandChange[];
+  executedAt?: string;
+  cancelledAt?: string;
+  undoneAt?: string;
+}
+
+// Response of a confirm/cancel/undo: the proposing message with its new status and the message recording the step
+export interface ChatCommandResult {
+  command: SerializedChatMessage;
+  message: SerializedChatMessage;
+}
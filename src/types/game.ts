@@ -4,6 +4,7 @@ export interface User {
   id: string;
   email: string;
   username: string;
+  emailVerified: boolean;
   createdAt: Date;
   gameLevel: number;
   totalTrades: number;
@@ -211,11 +212,15 @@ export interface Pattern {
   name: string;
   description: string;
   priority: number; // 1 = highest priority, 10 = lowest
-  confidenceRate: number; // 0-100%
+  confidenceRate: number; // 0-100%, recalculated from trade outcomes
+  priorConfidence?: number; // User-stated confidence, the prior for confidenceRate
   examples: string[]; // Array of pattern examples
+  rule?: string | null; // Executable condition in the pattern rule language
+  direction?: string; // 'BUY' or 'SELL', the side a triggered rule signals
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
+  performance?: PatternPerformance;
 }
 
 export interface AgentWatchlistItem {
@@ -228,7 +233,12 @@ export interface AgentWatchlistItem {
   agentView: string; // Agent's perspective/prediction on the asset
   alertPrice?: number; // Price threshold for alerts
   alertType?: 'above' | 'below' | 'both';
+  alertPercent?: number; // Alert on a move of this many % from the price when it last fired
+  alertTriggered?: boolean;
+  lastAlertAt?: Date;
   isActive: boolean;
+  currentPrice?: number; // Market price when served by the API
+  priceChange24h?: number; // 24h change in %
   addedAt: Date;
   lastReviewedAt: Date;
   updatedAt: Date;
@@ -255,6 +265,23 @@ export interface PatternPerformance {
   lastUpdated: Date;
 }
 
+export interface PatternRuleTrigger {
+  time: Date; // Close time of the candle the rule turned true on
+  price: number; // Close of that candle
+}
+
+export interface PatternRuleResult {
+  rule: string;
+  symbol: string;
+  interval: string;
+  lookback: number; // Candles the rule needs before it can hold
+  candleCount: number; // Candles evaluated, warm-up excluded
+  from: Date | null;
+  to: Date | null;
+  holding: boolean; // Whether the rule holds on the latest candle
+  triggers: PatternRuleTrigger[];
+}
+
 export interface AgentInteraction {
   id: string;
   agentId: string;
@@ -0,0 +1,81 @@
+// Technical indicator engine types
+
+// Input of the candle-based indicators; price-only series use high = low = close
+export interface IndicatorCandle {
+  time?: number; // Close time in ms, used by session-anchored VWAP
+  open?: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+export interface MACDValue {
+  macd: number;
+  signal: number | null; // Null until signalPeriod MACD values exist
+  histogram: number | null;
+}
+
+export interface BandValue {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+export interface BollingerValue extends BandValue {
+  width: number; // upper - lower
+}
+
+export interface StochasticValue {
+  k: number;
+  d: number | null;
+}
+
+export interface ADXValue {
+  adx: number | null; // Null until period DX values exist
+  plusDI: number;
+  minusDI: number;
+}
+
+export interface IchimokuValue {
+  conversion: number; // Tenkan-sen
+  base: number; // Kijun-sen
+  spanA: number; // Senkou span A computed now, plotted displacement bars ahead
+  spanB: number;
+  cloudA: number | null; // Span A plotted at the current bar, i.e. computed displacement bars ago
+  cloudB: number | null;
+}
+
+export interface IndicatorEngineConfig {
+  smaPeriods: number[];
+  emaPeriods: number[];
+  rsiPeriod: number;
+  macd: { fast: number; slow: number; signal: number };
+  bollinger: { period: number; multiplier: number };
+  stochastic: { kPeriod: number; dPeriod: number };
+  atrPeriod: number;
+  adxPeriod: number;
+  vwapSessionMs?: number; // Reset VWAP at every session boundary; cumulative when unset
+  ichimoku: { conversion: number; base: number; span: number; displacement: number };
+  keltner: { emaPeriod: number; atrPeriod: number; multiplier: number };
+  donchianPeriod: number;
+}
+
+// Every indicator of the engine after one candle; null while warming up
+export interface IndicatorSnapshot {
+  time?: number;
+  close: number;
+  sma: Record<number, number | null>;
+  ema: Record<number, number | null>;
+  rsi: number | null;
+  macd: MACDValue | null;
+  bollinger: BollingerValue | null;
+  stochastic: StochasticValue | null;
+  atr: number | null;
+  adx: ADXValue | null;
+  obv: number;
+  vwap: number | null;
+  ichimoku: IchimokuValue | null;
+  keltner: BandValue | null;
+  donchian: BandValue | null;
+}
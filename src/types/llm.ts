@@ -0,0 +1,69 @@
+// LLM provider types shared by agent reports and chat
+
+export type LLMRole = 'system' | 'user' | 'assistant';
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  timeoutMs?: number; // Whole-request deadline, streaming included
+  signal?: AbortSignal; // Caller cancellation, e.g. a closed HTTP connection
+  responseFormat?: LLMResponseFormat;
+}
+
+// Ask for a JSON object with the given string fields instead of free text
+export interface LLMResponseFormat {
+  type: 'json';
+  keys: string[];
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimated: boolean; // True when the provider did not report usage and tokens were counted locally
+}
+
+export type LLMFinishReason = 'stop' | 'length';
+
+export interface LLMResponse {
+  provider: string;
+  model: string;
+  content: string;
+  finishReason: LLMFinishReason;
+  usage: LLMUsage;
+  latencyMs: number;
+}
+
+export type LLMStreamChunk =
+  | { type: 'token'; text: string }
+  | { type: 'done'; response: LLMResponse };
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  stream(request: LLMRequest): AsyncIterable<LLMStreamChunk>;
+}
+
+export interface LLMProviderConfig {
+  provider: string; // 'openai', 'stub', or a registered custom provider
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  timeoutMs: number;
+}
+
+export interface LLMUsageSummary {
+  feature: string;
+  requests: number;
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
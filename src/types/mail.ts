@@ -0,0 +1,30 @@
+// Outgoing mail types
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// A message as handed to the transport, with the sender filled in
+export interface OutgoingMail extends MailMessage {
+  from: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(mail: OutgoingMail): Promise<void>;
+}
+
+export interface MailTransportConfig {
+  transport: string; // 'file', 'console', or a registered custom transport
+  from: string;
+  outboxDir: string; // Where the file transport writes messages
+}
+
+// A message written by the file transport
+export interface StoredMail extends OutgoingMail {
+  id: string;
+  sentAt: string;
+}
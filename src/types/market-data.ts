@@ -0,0 +1,43 @@
+// Market data types for multi-asset quotes (watchlists, agent watchlists, portfolio valuation)
+
+export interface MarketQuote {
+  symbol: string; // e.g. 'BTC', 'ETH'
+  price: number; // USD
+  change24h: number; // Absolute USD change over 24h
+  changePercent24h: number;
+  volume24h?: number; // USD
+  marketCap?: number;
+  high24h?: number;
+  low24h?: number;
+  source: string; // Provider name
+  timestamp: Date; // When the provider priced it
+}
+
+export interface MarketDataProvider {
+  readonly name: string;
+  /**
+   * Quotes for as many of the symbols as the provider knows, in one upstream request
+   * where the API allows it. Unknown symbols are left out rather than failing the batch.
+   */
+  getQuotes(symbols: string[]): Promise<MarketQuote[]>;
+}
+
+export interface MarketDataConfig {
+  provider: string; // 'coingecko' | 'binance' | 'fixture', or a registered name
+  fallback?: string; // Provider asked for symbols the primary could not price
+  ttlMs: number; // How long a quote is served from cache
+  staleTtlMs: number; // How long a cached quote may stand in when the provider fails
+  fixturePath?: string;
+}
+
+// Fixture file for the offline provider. One entry per symbol prices it statically;
+// several are replayed in order, one per intervalMs.
+export interface MarketFixture {
+  intervalMs?: number;
+  quotes: Record<string, Array<{
+    price: number;
+    changePercent24h?: number;
+    volume24h?: number;
+    marketCap?: number;
+  }>>;
+}
@@ -1,3 +1,5 @@
+export type NewsCategory = 'technical' | 'regulatory' | 'market' | 'corporate';
+
 export interface NewsArticle {
   id: string;
   title: string;
@@ -7,7 +9,7 @@ export interface NewsArticle {
   publishedAt: Date;
   sentimentScore: number; // -1 to 1
   importanceScore: number; // 1 to 10
-  category: 'technical' | 'regulatory' | 'market' | 'corporate';
+  category: NewsCategory;
   relatedSymbols: string[];
   summary?: string;
   aiAnalysis?: string;
@@ -15,21 +17,35 @@ export interface NewsArticle {
   updatedAt: Date;
 }
 
+export type NewsReportType = 'daily' | 'weekly';
+export type SentimentTrend = 'improving' | 'deteriorating' | 'stable';
+
 export interface NewsReport {
   id: string;
-  type: 'daily' | 'weekly';
+  type: NewsReportType;
   date: Date;
   overallSentiment: number; // -1 to 1
   marketTrend: 'bullish' | 'bearish' | 'neutral';
   keyEvents: string[];
   summary: string;
   topStories: NewsArticle[];
+  periodStart?: Date | null;
+  periodEnd?: Date | null;
+  articleCount?: number;
+  previousSentiment?: number | null;
+  sentimentChange?: number | null;
+  sentimentTrend?: SentimentTrend | null;
+  priceOpen?: number | null;
+  priceClose?: number | null;
+  priceHigh?: number | null;
+  priceLow?: number | null;
+  priceChangePercent?: number | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
 export interface NewsFilters {
-  category?: 'technical' | 'regulatory' | 'market' | 'corporate';
+  category?: NewsCategory;
   dateFrom?: Date;
   dateTo?: Date;
   minImportance?: number;
@@ -40,10 +56,149 @@ export interface NewsFilters {
   search?: string;
 }
 
+export interface NewsContextItem {
+  title: string;
+  summary: string;
+  sentiment: number;
+  category: NewsCategory;
+  analysis?: string | null;
+  publishedAt: Date;
+}
+
+// Numeric news signals agents weigh by personality
+export interface NewsFeatures {
+  sentiment: number; // Sentiment index over the last 24 hours, -1 to 1
+  sentimentMomentum: number; // Change against the 24 hours before
+  eventCounts: Record<NewsCategory, number>; // Distinct events per category in the window
+  highImpactEvents: number; // Events whose lead article has importance 8 or more
+  regulatoryRiskScore: number; // 0-1, from negative regulatory news weighted by importance and recency
+  regulatoryRisk: boolean;
+  newsCount: number;
+  windowHours: number;
+}
+
 export interface NewsContext {
-  latestNews: NewsArticle[];
+  summary: string;
+  latestNews: NewsContextItem[];
   currentSentiment: number;
   marketTrend: 'bullish' | 'bearish' | 'neutral';
   keyEvents: string[];
+  newsCount: number;
+  features: NewsFeatures;
   lastUpdated: Date;
-}
\ No newline at end of file
+}
+
+export type NewsFeedFormat = 'rss' | 'atom' | 'json';
+
+export interface NewsFeedSource {
+  id: string;
+  name: string; // Stored as NewsArticle.source
+  location: string; // http(s) URL, file:// URL or local file path
+  format?: NewsFeedFormat; // Detected from the content when omitted
+  category?: NewsCategory; // For items no category keyword matches
+  credibility?: number; // 0-1, overrides the scorer's source table
+}
+
+// One entry as read from a feed, before normalisation
+export interface FeedItem {
+  title: string;
+  url?: string;
+  content?: string;
+  summary?: string;
+  publishedAt?: Date;
+  categories: string[];
+}
+
+// A feed entry ready to be stored as a NewsArticle
+export interface NewsArticleInput {
+  title: string;
+  content: string;
+  source: string;
+  url?: string;
+  publishedAt: Date;
+  category: NewsCategory;
+  relatedSymbols: string[];
+  summary?: string;
+}
+
+export interface NewsIngestionConfig {
+  schedule: string; // cron expression for the news scheduler
+  timeoutMs: number;
+  maxItemsPerFeed: number;
+  titleSimilarity: number; // 0-1; titles at least this similar are duplicates
+  dedupeWindowHours: number; // How far back titles are compared
+  manualCooldownMs: number; // How soon after being pulled a feed may be pulled again on request
+}
+
+export interface NewsFeedResult {
+  feedId: string;
+  fetched: number;
+  created: number;
+  duplicates: number;
+  error?: string;
+}
+
+export interface NewsIngestionRun {
+  startedAt: Date;
+  finishedAt: Date;
+  created: number;
+  duplicates: number;
+  feeds: NewsFeedResult[];
+  articleIds: string[];
+}
+
+// A group of articles about the same story within a report period
+export interface NewsEventCluster {
+  headline: string; // Title of the lead (highest weighted) article
+  category: NewsCategory;
+  articleIds: string[];
+  symbols: string[];
+  weight: number; // Sum of importance × recency of the articles
+  sentiment: number; // Importance-weighted mean sentiment
+}
+
+export interface NewsReportPriceMove {
+  open: number;
+  close: number;
+  high: number;
+  low: number;
+  changePercent: number;
+}
+
+export interface NewsReportConfig {
+  dailySchedule: string; // cron expression for daily reports
+  weeklySchedule: string; // cron expression for weekly reports
+  topStories: number;
+  clusterSimilarity: number; // 0-1; titles at least this similar describe the same event
+  trendThreshold: number; // Sentiment change that counts as improving or deteriorating
+  manualRunsPerHour: number; // Reports one user may generate on request per hour
+}
+
+export type NewsImpactHorizon = '1h' | '4h' | '24h';
+export type SentimentBucket = 'negative' | 'neutral' | 'positive';
+export type NewsImpactDimension = 'category' | 'source' | 'sentiment';
+
+// BTC reaction after articles of one group at one horizon; returns in percent
+export interface NewsImpactStats {
+  count: number; // Articles with a price at publication and at the horizon
+  avgReturn: number;
+  avgAbnormalReturn: number; // Return minus the average return of any window of that length
+  avgAbsAbnormalReturn: number; // Size of the move regardless of direction
+  tStat: number | null; // Of the abnormal return; null below two articles
+}
+
+export interface NewsImpactGroup {
+  key: string; // Category, source name or sentiment bucket
+  count: number;
+  horizons: Record<NewsImpactHorizon, NewsImpactStats>;
+}
+
+export interface NewsImpactStudy {
+  from: Date;
+  to: Date;
+  articleCount: number;
+  measuredCount: number; // Articles with a reaction for at least one horizon
+  baseline: Record<NewsImpactHorizon, number | null>; // Average return of any window of that length
+  groups: Record<NewsImpactDimension, NewsImpactGroup[]>;
+  generatedAt: Date;
+}
@@ -0,0 +1,41 @@
+// Order book types for limit, stop and take-profit orders
+
+export type OrderSide = 'buy' | 'sell';
+
+export type OrderType = 'limit' | 'stop_market' | 'stop_limit' | 'take_profit';
+
+export type OrderStatus = 'open' | 'partially_filled' | 'filled' | 'cancelled' | 'expired';
+
+export const ACTIVE_ORDER_STATUSES: OrderStatus[] = ['open', 'partially_filled'];
+
+export interface OrderInput {
+  side: OrderSide;
+  type: OrderType;
+  quantity: number; // Amount of BTC
+  limitPrice?: number;
+  triggerPrice?: number;
+  expiresAt?: Date;
+}
+
+export interface OcoOrderInput {
+  side: OrderSide;
+  quantity: number;
+  takeProfitPrice: number; // Limit leg
+  stopPrice: number; // Stop leg trigger
+  stopLimitPrice?: number; // Makes the stop leg a stop-limit instead of stop-market
+  expiresAt?: Date;
+}
+
+export interface OrderAmendInput {
+  quantity?: number;
+  limitPrice?: number;
+  triggerPrice?: number;
+  expiresAt?: Date | null;
+}
+
+export interface OrderMatchResult {
+  price: number;
+  filled: number;
+  triggered: number;
+  expired: number;
+}
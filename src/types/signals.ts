@@ -0,0 +1,32 @@
+// Pattern signal types shared by the scanner, the signals API and the dashboard
+
+import type { CandleInterval } from './candles';
+
+export type SignalDirection = 'BUY' | 'SELL';
+
+export interface SignalScannerConfig {
+  interval: CandleInterval; // Candles the pattern rules are evaluated on
+  cooldownMs: number; // Minimum time between two signals of one pattern
+  minScanIntervalMs: number; // Ticker scans closer together than this are skipped
+}
+
+export interface PatternSignal {
+  id: string;
+  agentId: string;
+  agentName: string;
+  patternId: string;
+  patternName: string;
+  symbol: string;
+  interval: string;
+  direction: SignalDirection;
+  strength: number; // 0-100
+  price: number;
+  candleTime: string; // Open time of the candle the rule turned true on
+  timestamp: string;
+}
+
+// A signal as streamed; `id` orders the stream for Last-Event-ID
+export interface PatternSignalEvent {
+  id: number;
+  signal: PatternSignal;
+}
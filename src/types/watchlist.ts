@@ -5,6 +5,7 @@ export interface WatchlistItemInput {
   name: string;
   alertPrice?: number;
   alertType?: 'above' | 'below' | 'both';
+  alertPercent?: number; // Alert on a move of this many % from the price when it last fired
   notes?: string;
   tags?: string[];
 }
@@ -18,6 +19,7 @@ export interface WatchlistItemOutput {
   priceChange24h?: number;
   alertPrice?: number;
   alertType?: 'above' | 'below' | 'both';
+  alertPercent?: number; // Alert on a move of this many % from the price when it last fired
   notes?: string;
   tags: string[];
   alertTriggered: boolean;
@@ -30,6 +32,7 @@ export interface WatchlistItemUpdateInput {
   name?: string;
   alertPrice?: number;
   alertType?: 'above' | 'below' | 'both';
+  alertPercent?: number; // Alert on a move of this many % from the price when it last fired
   notes?: string;
   tags?: string[];
   alertTriggered?: boolean;
@@ -1,6 +1,12 @@
 import { test, expect } from '@playwright/test';
+import { createAgent, signUp } from './utils/test-helpers';
 
 test.describe('API Endpoint Tests', () => {
+  // Creating, changing and deleting agents needs a signed-in user
+  test.beforeEach(async ({ request }) => {
+    await signUp(request);
+  });
+
   test('should fetch agents from API', async ({ request }) => {
     const response = await request.get('/api/agents');
     expect(response.ok()).toBeTruthy();
@@ -115,30 +121,23 @@ test.describe('API Endpoint Tests', () => {
   });
 
   test('should toggle agent active status', async ({ request }) => {
-    // First get an agent
-    const listResponse = await request.get('/api/agents');
-    const listData = await listResponse.json();
+    // Agents can be changed by the user who created them
+    const agent = await createAgent(request);
+    const originalStatus = agent.isActive;
     
-    if (listData.agents && listData.agents.length > 0) {
-      const agent = listData.agents[0];
-      const originalStatus = agent.isActive;
-      
-      // Toggle status
-      const response = await request.patch(`/api/agents/${agent.id}`, {
-        data: { isActive: !originalStatus }
-      });
-      
-      expect(response.ok()).toBeTruthy();
-      
-      const data = await response.json();
-      expect(data).toHaveProperty('success', true);
-      expect(data.data).toHaveProperty('isActive', !originalStatus);
-      
-      // Toggle back to original status
-      await request.patch(`/api/agents/${agent.id}`, {
-        data: { isActive: originalStatus }
-      });
-    }
+    // Toggle status
+    const response = await request.patch(`/api/agents/${agent.id}`, {
+      data: { isActive: !originalStatus }
+    });
+    
+    expect(response.ok()).toBeTruthy();
+    
+    const data = await response.json();
+    expect(data).toHaveProperty('success', true);
+    expect(data.data).toHaveProperty('isActive', !originalStatus);
+    
+    // Clean up
+    await request.delete(`/api/agents/${agent.id}`);
   });
 
   test('should handle non-existent agent gracefully', async ({ request }) => {
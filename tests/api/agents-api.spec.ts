@@ -1,7 +1,12 @@
 import { test, expect } from '@playwright/test';
 import { mockAgents } from '../utils/mock-data';
+import { createAgent, signUp } from '../utils/test-helpers';
 
 test.describe('Agents API Tests', () => {
+  // Changing agents needs a signed-in user
+  test.beforeEach(async ({ request }) => {
+    await signUp(request);
+  });
   
   test('GET /api/agents should return agents list', async ({ request }) => {
     const response = await request.get('/api/agents');
@@ -102,6 +107,46 @@ test.describe('Agents API Tests', () => {
     expect(data).toHaveProperty('updatedAt');
   });
 
+  test('Changing agents without signing in should return 401', async ({ baseURL }) => {
+    const agentId = 'non-existent-agent';
+    const writes = [
+      fetch(`${baseURL}/api/agents`, { method: 'POST', body: '{}' }),
+      fetch(`${baseURL}/api/agents/${agentId}`, { method: 'PATCH', body: JSON.stringify({ isActive: false }) }),
+      fetch(`${baseURL}/api/agents/${agentId}`, { method: 'DELETE' }),
+      fetch(`${baseURL}/api/agents/${agentId}/patterns`, { method: 'POST', body: '{}' }),
+      fetch(`${baseURL}/api/agents/${agentId}/watchlist`, { method: 'POST', body: '{}' })
+    ];
+
+    for (const response of await Promise.all(writes)) {
+      expect(response.status).toBe(401);
+      expect(await response.json()).toHaveProperty('code', 'UNAUTHORIZED');
+    }
+  });
+
+  test('Only the user who created an agent can change it', async ({ request, playwright, baseURL }) => {
+    const agent = await createAgent(request);
+
+    const otherUser = await playwright.request.newContext({ baseURL });
+    try {
+      await signUp(otherUser);
+      const writes = [
+        otherUser.patch(`/api/agents/${agent.id}`, { data: { isActive: false } }),
+        otherUser.delete(`/api/agents/${agent.id}`),
+        otherUser.post(`/api/agents/${agent.id}/patterns`, { data: { name: 'Not mine', description: 'Not mine' } }),
+        otherUser.post(`/api/agents/${agent.id}/watchlist`, { data: {} })
+      ];
+
+      for (const response of await Promise.all(writes)) {
+        expect(response.status()).toBe(403);
+        expect(await response.json()).toHaveProperty('code', 'FORBIDDEN');
+      }
+      expect((await request.get(`/api/agents/${agent.id}`)).status()).toBe(200);
+    } finally {
+      await otherUser.dispose();
+      await request.delete(`/api/agents/${agent.id}`);
+    }
+  });
+
   test('POST /api/agents should validate required fields', async ({ request }) => {
     // Test missing name
     const invalidAgent1 = {
@@ -215,88 +260,74 @@ test.describe('Agents API Tests', () => {
   });
 
   test('Agent patterns API endpoints should work', async ({ request }) => {
-    // Get an agent first
-    const agentsResponse = await request.get('/api/agents');
-    const agentsData = await agentsResponse.json();
+    // Patterns and watchlists can be changed on agents the user created
+    const agentId = (await createAgent(request)).id;
+
+    // Test GET patterns
+    const patternsResponse = await request.get(`/api/agents/${agentId}/patterns`);
+    expect(patternsResponse.status()).toBe(200);
     
-    if (agentsData.agents && agentsData.agents.length > 0) {
-      const agentId = agentsData.agents[0].id;
-      
-      // Test GET patterns
-      const patternsResponse = await request.get(`/api/agents/${agentId}/patterns`);
-      expect(patternsResponse.status()).toBe(200);
-      
-      const patternsData = await patternsResponse.json();
-      expect(patternsData).toHaveProperty('patterns');
-      expect(Array.isArray(patternsData.patterns)).toBe(true);
-
-      // Test POST new pattern
-      const newPattern = {
-        name: 'Test Pattern',
-        description: 'Test pattern description',
-        priority: 3,
-        confidenceRate: 75,
-        examples: ['Example 1', 'Example 2']
-      };
-
-      const createPatternResponse = await request.post(`/api/agents/${agentId}/patterns`, {
-        data: newPattern
-      });
-      
-      if (createPatternResponse.status() === 201) {
-        const createdPattern = await createPatternResponse.json();
-        expect(createdPattern.name).toBe(newPattern.name);
-        expect(createdPattern.description).toBe(newPattern.description);
-        expect(createdPattern.priority).toBe(newPattern.priority);
-        expect(createdPattern.confidenceRate).toBe(newPattern.confidenceRate);
-      }
-    } else {
-      test.skip();
+    const patternsData = await patternsResponse.json();
+    expect(patternsData).toHaveProperty('patterns');
+    expect(Array.isArray(patternsData.patterns)).toBe(true);
+
+    // Test POST new pattern
+    const newPattern = {
+      name: 'Test Pattern',
+      description: 'Test pattern description',
+      priority: 3,
+      confidenceRate: 75,
+      examples: ['Example 1', 'Example 2']
+    };
+
+    const createPatternResponse = await request.post(`/api/agents/${agentId}/patterns`, {
+      data: newPattern
+    });
+    
+    if (createPatternResponse.status() === 201) {
+      const createdPattern = await createPatternResponse.json();
+      expect(createdPattern.name).toBe(newPattern.name);
+      expect(createdPattern.description).toBe(newPattern.description);
+      expect(createdPattern.priority).toBe(newPattern.priority);
+      expect(createdPattern.confidenceRate).toBe(newPattern.confidenceRate);
     }
   });
 
   test('Agent watchlist API endpoints should work', async ({ request }) => {
-    // Get an agent first
-    const agentsResponse = await request.get('/api/agents');
-    const agentsData = await agentsResponse.json();
+    // Patterns and watchlists can be changed on agents the user created
+    const agentId = (await createAgent(request)).id;
+
+    // Test GET watchlist
+    const watchlistResponse = await request.get(`/api/agents/${agentId}/watchlist`);
+    expect(watchlistResponse.status()).toBe(200);
     
-    if (agentsData.agents && agentsData.agents.length > 0) {
-      const agentId = agentsData.agents[0].id;
-      
-      // Test GET watchlist
-      const watchlistResponse = await request.get(`/api/agents/${agentId}/watchlist`);
-      expect(watchlistResponse.status()).toBe(200);
-      
-      const watchlistData = await watchlistResponse.json();
-      expect(watchlistData).toHaveProperty('watchlist');
-      expect(Array.isArray(watchlistData.watchlist)).toBe(true);
-
-      // Test POST new watchlist item
-      const newWatchlistItem = {
-        symbol: 'TEST',
-        name: 'Test Stock',
-        category: '테스트',
-        reason: 'Test reason',
-        agentView: 'Test agent view',
-        alertPrice: 100.0,
-        alertType: 'above'
-      };
-
-      const createWatchlistResponse = await request.post(`/api/agents/${agentId}/watchlist`, {
-        data: newWatchlistItem
-      });
-      
-      if (createWatchlistResponse.status() === 201) {
-        const createdItem = await createWatchlistResponse.json();
-        expect(createdItem.symbol).toBe(newWatchlistItem.symbol);
-        expect(createdItem.name).toBe(newWatchlistItem.name);
-        expect(createdItem.category).toBe(newWatchlistItem.category);
-        expect(createdItem.reason).toBe(newWatchlistItem.reason);
-        expect(createdItem.agentView).toBe(newWatchlistItem.agentView);
-        expect(createdItem.alertPrice).toBe(newWatchlistItem.alertPrice);
-      }
-    } else {
-      test.skip();
+    const watchlistData = await watchlistResponse.json();
+    expect(watchlistData).toHaveProperty('watchlist');
+    expect(Array.isArray(watchlistData.watchlist)).toBe(true);
+
+    // Test POST new watchlist item
+    const newWatchlistItem = {
+      symbol: 'TEST',
+      name: 'Test Stock',
+      category: '테스트',
+      reason: 'Test reason',
+      agentView: 'Test agent view',
+      alertPrice: 100.0,
+      alertType: 'above'
+    };
+
+    const createWatchlistResponse = await request.post(`/api/agents/${agentId}/watchlist`, {
+      data: newWatchlistItem
+    });
+    
+    if (createWatchlistResponse.status() === 201) {
+      const createdItem = await createWatchlistResponse.json();
+      expect(createdItem.symbol).toBe(newWatchlistItem.symbol);
+      expect(createdItem.name).toBe(newWatchlistItem.name);
+      expect(createdItem.category).toBe(newWatchlistItem.category);
+      expect(createdItem.reason).toBe(newWatchlistItem.reason);
+      expect(createdItem.agentView).toBe(newWatchlistItem.agentView);
+      expect(createdItem.alertPrice).toBe(newWatchlistItem.alertPrice);
     }
   });
 
@@ -352,4 +383,235 @@ test.describe('Agents API Tests', () => {
 
     expect(response.status()).toBe(400);
   });
-});
\ No newline at end of file
+});
+
+test.describe('Agent Backtest API Tests', () => {
+
+  test('POST /api/agents/[id]/backtest for unknown agent should return 404', async ({ request }) => {
+    const response = await request.post('/api/agents/non-existent-agent/backtest', {
+      data: { from: '2025-08-01T00:00:00Z', to: '2025-08-15T00:00:00Z' }
+    });
+
+    expect(response.status()).toBe(404);
+
+    const data = await response.json();
+    expect(data).toHaveProperty('code', 'AGENT_NOT_FOUND');
+  });
+
+  test('POST /api/agents/[id]/backtest with inverted range should return 400', async ({ request }) => {
+    const response = await request.post('/api/agents/non-existent-agent/backtest', {
+      data: { from: '2025-08-15T00:00:00Z', to: '2025-08-01T00:00:00Z' }
+    });
+
+    expect(response.status()).toBe(400);
+  });
+
+  test('POST /api/agents/[id]/backtest should return PerformanceMetrics', async ({ request }) => {
+    const agentsResponse = await request.get('/api/agents');
+    const { agents } = await agentsResponse.json();
+    test.skip(!agents?.length, 'No agents to backtest');
+
+    const response = await request.post(`/api/agents/${agents[0].id}/backtest`, {
+      data: { from: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(), interval: '1h' }
+    });
+
+    // 422 when there are not enough stored candles for the range
+    expect([200, 422]).toContain(response.status());
+
+    if (response.status() === 200) {
+      const { data } = await response.json();
+      expect(data.metrics).toHaveProperty('sharpeRatio');
+      expect(data.metrics).toHaveProperty('maxDrawdownPercent');
+      expect(data.metrics).toHaveProperty('monthlyReturns');
+      expect(Array.isArray(data.metrics.equityCurve)).toBe(true);
+      expect(data.metrics.totalTrades).toBe(data.trades.length);
+    }
+  });
+});
+
+test.describe('Agent Trades and Performance API Tests', () => {
+  // Trades and performance belong to the signed-in user
+  test.beforeEach(async ({ request }) => {
+    await signUp(request);
+  });
+
+  test('GET /api/agents/[id]/trades and performance without signing in should return 401', async ({ request, baseURL }) => {
+    const { agents } = await (await request.get('/api/agents')).json();
+    test.skip(!agents?.length, 'No agents available');
+
+    for (const path of ['trades', 'performance']) {
+      const response = await fetch(`${baseURL}/api/agents/${agents[0].id}/${path}`);
+      expect(response.status).toBe(401);
+      expect(await response.json()).toHaveProperty('code', 'UNAUTHORIZED');
+    }
+  });
+
+  test('GET /api/agents/[id]/trades for unknown agent should return 404', async ({ request }) => {
+    const response = await request.get('/api/agents/non-existent-agent/trades');
+
+    expect(response.status()).toBe(404);
+
+    const data = await response.json();
+    expect(data).toHaveProperty('code', 'AGENT_NOT_FOUND');
+  });
+
+  test('GET /api/agents/[id]/performance for unknown agent should return 404', async ({ request }) => {
+    const response = await request.get('/api/agents/non-existent-agent/performance');
+
+    expect(response.status()).toBe(404);
+  });
+
+  test('POST /api/agents/[id]/trades should record executed decisions', async ({ request }) => {
+    const agentsResponse = await request.get('/api/agents');
+    const { agents } = await agentsResponse.json();
+    test.skip(!agents?.length, 'No agents to trade');
+
+    const agentId = agents[0].id;
+    const response = await request.post(`/api/agents/${agentId}/trades`);
+
+    // 503 when no market price is available yet
+    expect([200, 503]).toContain(response.status());
+
+    if (response.status() === 200) {
+      const { data } = await response.json();
+      expect(['buy', 'sell', 'hold']).toContain(data.decision.recommendation);
+
+      if (data.agentTrade) {
+        const historyResponse = await request.get(`/api/agents/${agentId}/trades`);
+        const history = await historyResponse.json();
+        expect(history.data[0]).toHaveProperty('id', data.agentTrade.id);
+        expect(history.data[0].action).toBe(data.agentTrade.action);
+      }
+    }
+  });
+
+  test('Agent trades should only be visible to the user they traded for', async ({ request, playwright, baseURL }) => {
+    const { agents } = await (await request.get('/api/agents')).json();
+    test.skip(!agents?.length, 'No agents to trade');
+
+    const agentId = agents[0].id;
+    const response = await request.post(`/api/agents/${agentId}/trades`);
+    expect([200, 503]).toContain(response.status());
+
+    const otherUser = await playwright.request.newContext({ baseURL });
+    try {
+      await signUp(otherUser);
+      const history = await (await otherUser.get(`/api/agents/${agentId}/trades`)).json();
+      expect(history.data).toEqual([]);
+
+      const { data } = await (await otherUser.get(`/api/agents/${agentId}/performance`)).json();
+      expect(data.metrics.totalTrades).toBe(0);
+      expect(data.openPosition).toBeNull();
+    } finally {
+      await otherUser.dispose();
+    }
+  });
+
+  test('GET /api/agents/[id]/performance should return metrics and heatmap', async ({ request }) => {
+    const agentsResponse = await request.get('/api/agents');
+    const { agents } = await agentsResponse.json();
+    test.skip(!agents?.length, 'No agents available');
+
+    const response = await request.get(`/api/agents/${agents[0].id}/performance`);
+    expect(response.status()).toBe(200);
+
+    const { data } = await response.json();
+    expect(data.metrics).toHaveProperty('winRate');
+    expect(data.metrics).toHaveProperty('averageHoldingPeriod');
+    expect(data.metrics).toHaveProperty('sharpeRatio');
+    expect(Array.isArray(data.heatmap)).toBe(true);
+    expect(data.heatmap.length).toBe(Object.keys(data.metrics.monthlyReturns).length);
+  });
+});
+
+test.describe('Pattern Performance API Tests', () => {
+  test.beforeEach(async ({ request }) => {
+    await signUp(request);
+  });
+
+  test('GET /api/agents/[id]/patterns should include performance for each pattern', async ({ request }) => {
+    const agentsResponse = await request.get('/api/agents');
+    const { agents } = await agentsResponse.json();
+    test.skip(!agents?.length, 'No agents available');
+
+    const response = await request.get(`/api/agents/${agents[0].id}/patterns`);
+    expect(response.status()).toBe(200);
+
+    const { patterns } = await response.json();
+    for (const pattern of patterns) {
+      expect(pattern).toHaveProperty('priorConfidence');
+      expect(pattern.performance).toHaveProperty('patternId', pattern.id);
+      expect(pattern.performance.totalTrades).toBe(pattern.performance.successCount + pattern.performance.failureCount);
+    }
+  });
+
+  test('New pattern should start at its stated confidence', async ({ request }) => {
+    const agent = await createAgent(request);
+
+    const response = await request.post(`/api/agents/${agent.id}/patterns`, {
+      data: { name: `Prior Pattern ${Date.now()}`, description: 'Prior test', confidenceRate: 70 }
+    });
+    expect(response.status()).toBe(201);
+
+    const { pattern } = await response.json();
+    expect(pattern.priorConfidence).toBe(70);
+    expect(pattern.confidenceRate).toBe(70);
+
+    await request.delete(`/api/agents/${agent.id}`);
+  });
+
+  test('POST /api/agents/[id]/trades with unknown pattern should return 404', async ({ request }) => {
+    const agentsResponse = await request.get('/api/agents');
+    const { agents } = await agentsResponse.json();
+    test.skip(!agents?.length, 'No agents available');
+
+    const response = await request.post(`/api/agents/${agents[0].id}/trades`, {
+      data: { patternId: 'non-existent-pattern' }
+    });
+
+    expect(response.status()).toBe(404);
+
+    const data = await response.json();
+    expect(data).toHaveProperty('code', 'PATTERN_NOT_FOUND');
+  });
+
+  test('POST /api/agents/[id]/trades with a malformed body should return 400', async ({ request }) => {
+    const agentsResponse = await request.get('/api/agents');
+    const { agents } = await agentsResponse.json();
+    test.skip(!agents?.length, 'No agents available');
+
+    const response = await request.post(`/api/agents/${agents[0].id}/trades`, {
+      headers: { 'content-type': 'application/json' },
+      data: '{"patternId":'
+    });
+
+    expect(response.status()).toBe(400);
+  });
+});
+
+test.describe('Agent Watchlist Market Data Tests', () => {
+
+  test('GET /api/agents/[id]/watchlist should price items from market data', async ({ request }) => {
+    const agentsResponse = await request.get('/api/agents');
+    const agentsData = await agentsResponse.json();
+
+    if (agentsData.agents && agentsData.agents.length > 0) {
+      const agentId = agentsData.agents[0].id;
+
+      const response = await request.get(`/api/agents/${agentId}/watchlist`);
+      expect(response.status()).toBe(200);
+
+      const data = await response.json();
+      for (const item of data.watchlistItems) {
+        // Prices are attached when a provider can quote the symbol
+        if (item.currentPrice !== undefined) {
+          expect(typeof item.currentPrice).toBe('number');
+          expect(item.currentPrice).toBeGreaterThan(0);
+          expect(typeof item.priceChange24h).toBe('number');
+        }
+      }
+    } else {
+      test.skip();
+    }
+  });
+});
@@ -0,0 +1,42 @@
+import { test, expect } from '@playwright/test';
+
+test.describe('Price Alert API Tests', () => {
+
+  test('GET /api/alerts/stream should open an SSE stream', async ({ baseURL }) => {
+    // The stream stays open, so read the first frame and disconnect
+    const controller = new AbortController();
+    const response = await fetch(`${baseURL}/api/alerts/stream`, {
+      signal: controller.signal
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+
+    const reader = response.body!.getReader();
+    const { value } = await reader.read();
+    const frame = new TextDecoder().decode(value);
+    controller.abort();
+
+    const data = JSON.parse(frame.split('\n').find(line => line.startsWith('data:'))!.slice(5));
+    expect(data.type).toBe('connected');
+  });
+
+  test('GET /api/agents/[id]/watchlist should expose alert trigger state', async ({ request }) => {
+    const agentsResponse = await request.get('/api/agents');
+    const agentsData = await agentsResponse.json();
+
+    if (agentsData.agents && agentsData.agents.length > 0) {
+      const agentId = agentsData.agents[0].id;
+
+      const response = await request.get(`/api/agents/${agentId}/watchlist`);
+      expect(response.status()).toBe(200);
+
+      const data = await response.json();
+      for (const item of data.watchlistItems) {
+        expect(typeof item.alertTriggered).toBe('boolean');
+      }
+    } else {
+      test.skip();
+    }
+  });
+});
@@ -0,0 +1,89 @@
+import { test, expect, APIRequestContext } from '@playwright/test';
+import { signUp } from '../utils/test-helpers';
+
+const createKey = async (request: APIRequestContext, data: Record<string, unknown>) => {
+  const response = await request.post('/api/auth/api-keys', { data: { name: 'test bot', ...data } });
+  expect(response.status()).toBe(201);
+  return response.json();
+};
+
+test.describe('API Key Tests', () => {
+  test.beforeEach(async ({ request }) => {
+    await signUp(request);
+  });
+
+  test('a key should authenticate without cookies and be shown only once', async ({ request, baseURL }) => {
+    const { key, data } = await createKey(request, { scopes: ['read:portfolio'] });
+    expect(key).toMatch(/^btg_/);
+    expect(key.startsWith(data.prefix)).toBe(true);
+
+    const response = await fetch(`${baseURL}/api/portfolio`, { headers: { Authorization: `Bearer ${key}` } });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('x-ratelimit-limit')).toBe('60');
+    expect(response.headers.get('x-ratelimit-remaining')).toBe('59');
+
+    const list = await (await request.get('/api/auth/api-keys')).json();
+    expect(list.count).toBe(1);
+    expect(list.data[0]).not.toHaveProperty('key');
+    expect(list.data[0]).not.toHaveProperty('keyHash');
+    expect(list.data[0].lastUsedAt).toBeTruthy();
+  });
+
+  test('a key should only reach routes its scopes allow', async ({ request, baseURL }) => {
+    const { key } = await createKey(request, { scopes: ['read:portfolio'] });
+    const headers = { Authorization: `Bearer ${key}`, 'Content-Type': 'application/json' };
+
+    const trade = await fetch(`${baseURL}/api/trade`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ type: 'BUY', amount: 0.001 })
+    });
+    expect(trade.status).toBe(403);
+    expect(await trade.json()).toHaveProperty('code', 'INSUFFICIENT_SCOPE');
+
+    // Keys cannot manage sessions or mint more keys
+    const keys = await fetch(`${baseURL}/api/auth/api-keys`, { headers });
+    expect(keys.status).toBe(403);
+    expect(await keys.json()).toHaveProperty('code', 'API_KEY_NOT_ALLOWED');
+    expect((await fetch(`${baseURL}/api/auth/sessions`, { headers })).status).toBe(403);
+
+    // Public routes ignore the key
+    expect((await fetch(`${baseURL}/api/agents`, { headers })).status).toBe(200);
+  });
+
+  test('an unknown or revoked key should be rejected', async ({ request, baseURL }) => {
+    const unknown = await fetch(`${baseURL}/api/portfolio`, { headers: { Authorization: 'Bearer btg_not-a-real-key' } });
+    expect(unknown.status).toBe(401);
+    expect(await unknown.json()).toHaveProperty('code', 'INVALID_API_KEY');
+
+    const { key, data } = await createKey(request, { scopes: ['read:portfolio'] });
+    expect((await request.delete(`/api/auth/api-keys/${data.id}`)).status()).toBe(200);
+
+    const revoked = await fetch(`${baseURL}/api/portfolio`, { headers: { Authorization: `Bearer ${key}` } });
+    expect(revoked.status).toBe(401);
+    expect(await revoked.json()).toHaveProperty('code', 'API_KEY_REVOKED');
+
+    expect((await request.delete(`/api/auth/api-keys/${data.id}`)).status()).toBe(404);
+  });
+
+  test('a key should be rate limited per minute', async ({ request, baseURL }) => {
+    const { key } = await createKey(request, { scopes: ['read:portfolio'], rateLimitPerMinute: 2 });
+    const get = () => fetch(`${baseURL}/api/portfolio`, { headers: { Authorization: `Bearer ${key}` } });
+
+    expect((await get()).status).toBe(200);
+    expect((await get()).status).toBe(200);
+
+    const limited = await get();
+    expect(limited.status).toBe(429);
+    expect(await limited.json()).toHaveProperty('code', 'RATE_LIMITED');
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+  });
+
+  test('creating a key should validate scopes', async ({ request }) => {
+    const noScopes = await request.post('/api/auth/api-keys', { data: { name: 'bot', scopes: [] } });
+    expect(noScopes.status()).toBe(400);
+
+    const unknownScope = await request.post('/api/auth/api-keys', { data: { name: 'bot', scopes: ['admin'] } });
+    expect(unknownScope.status()).toBe(400);
+  });
+});
@@ -0,0 +1,219 @@
+import { test, expect, APIRequestContext } from '@playwright/test';
+import { readMailLink, signUp } from '../utils/test-helpers';
+
+const cookieValue = async (request: APIRequestContext, name: string) =>
+  (await request.storageState()).cookies.find((cookie) => cookie.name === name)?.value;
+
+test.describe('Auth Session API Tests', () => {
+  test('register should set access and refresh cookies and /api/auth/me should return the user', async ({ request }) => {
+    const { username } = await signUp(request);
+
+    expect(await cookieValue(request, 'auth-token')).toBeTruthy();
+    expect(await cookieValue(request, 'refresh-token')).toBeTruthy();
+
+    const response = await request.get('/api/auth/me');
+    expect(response.status()).toBe(200);
+    expect((await response.json()).user).toHaveProperty('username', username);
+  });
+
+  test('POST /api/auth/refresh should rotate the refresh token', async ({ request }) => {
+    await signUp(request);
+    const firstToken = await cookieValue(request, 'refresh-token');
+
+    const response = await request.post('/api/auth/refresh');
+    expect(response.status()).toBe(200);
+
+    const secondToken = await cookieValue(request, 'refresh-token');
+    expect(secondToken).toBeTruthy();
+    expect(secondToken).not.toBe(firstToken);
+  });
+
+  test('reusing a rotated refresh token should revoke the session', async ({ request, baseURL }) => {
+    await signUp(request);
+    const stolenToken = await cookieValue(request, 'refresh-token');
+
+    // Two rotations, so the stolen token is no longer inside the concurrent-refresh grace window
+    expect((await request.post('/api/auth/refresh')).status()).toBe(200);
+    expect((await request.post('/api/auth/refresh')).status()).toBe(200);
+    const currentToken = await cookieValue(request, 'refresh-token');
+
+    const reuse = await fetch(`${baseURL}/api/auth/refresh`, {
+      method: 'POST',
+      headers: { Cookie: `refresh-token=${stolenToken}` }
+    });
+    expect(reuse.status).toBe(401);
+    expect(await reuse.json()).toHaveProperty('code', 'REFRESH_TOKEN_REUSED');
+
+    // The legitimate holder is signed out too
+    const afterReuse = await fetch(`${baseURL}/api/auth/refresh`, {
+      method: 'POST',
+      headers: { Cookie: `refresh-token=${currentToken}` }
+    });
+    expect(afterReuse.status).toBe(401);
+    expect(await afterReuse.json()).toHaveProperty('code', 'SESSION_REVOKED');
+  });
+
+  test('logout should invalidate the access token', async ({ request, baseURL }) => {
+    await signUp(request);
+    const accessToken = await cookieValue(request, 'auth-token');
+
+    expect((await request.post('/api/auth/logout')).status()).toBe(200);
+
+    const response = await fetch(`${baseURL}/api/portfolio`, {
+      headers: { Cookie: `auth-token=${accessToken}` }
+    });
+    expect(response.status).toBe(401);
+  });
+
+  test('users should list and revoke their sessions', async ({ request, playwright, baseURL }) => {
+    const credentials = await signUp(request);
+
+    const otherDevice = await playwright.request.newContext({ baseURL });
+    try {
+      const login = await otherDevice.post('/api/auth/login', {
+        data: { email: credentials.email, password: credentials.password }
+      });
+      expect(login.status()).toBe(200);
+
+      const list = await (await request.get('/api/auth/sessions')).json();
+      expect(list.count).toBe(2);
+      const other = list.data.find((session: { current: boolean }) => !session.current);
+      expect(other).toBeTruthy();
+      expect(other).not.toHaveProperty('refreshTokenHash');
+
+      expect((await request.delete(`/api/auth/sessions/${other.id}`)).status()).toBe(200);
+      expect((await otherDevice.get('/api/auth/me')).status()).toBe(401);
+
+      // A session that already ended is not found
+      expect((await request.delete(`/api/auth/sessions/${other.id}`)).status()).toBe(404);
+    } finally {
+      await otherDevice.dispose();
+    }
+  });
+
+  test('changing the password should sign out other sessions', async ({ request, playwright, baseURL }) => {
+    const credentials = await signUp(request);
+
+    const otherDevice = await playwright.request.newContext({ baseURL });
+    try {
+      await otherDevice.post('/api/auth/login', {
+        data: { email: credentials.email, password: credentials.password }
+      });
+      expect((await otherDevice.get('/api/auth/me')).status()).toBe(200);
+
+      const wrong = await request.post('/api/auth/password', {
+        data: { currentPassword: 'not-my-password', newPassword: 'new-password-123' }
+      });
+      expect(wrong.status()).toBe(400);
+
+      const change = await request.post('/api/auth/password', {
+        data: { currentPassword: credentials.password, newPassword: 'new-password-123' }
+      });
+      expect(change.status()).toBe(200);
+
+      expect((await request.get('/api/auth/me')).status()).toBe(200);
+      expect((await otherDevice.get('/api/auth/me')).status()).toBe(401);
+
+      const relogin = await otherDevice.post('/api/auth/login', {
+        data: { email: credentials.email, password: 'new-password-123' }
+      });
+      expect(relogin.status()).toBe(200);
+    } finally {
+      await otherDevice.dispose();
+    }
+  });
+});
+
+test.describe('Account Email API Tests', () => {
+  test('registering should email a single-use verification link', async ({ request }) => {
+    const { email, user } = await signUp(request);
+    expect(user).toHaveProperty('emailVerified', false);
+
+    const token = (await readMailLink(email, '/verify-email')).searchParams.get('token');
+
+    const verify = await request.post('/api/auth/verify-email', { data: { token } });
+    expect(verify.status()).toBe(200);
+    expect((await (await request.get('/api/auth/me')).json()).user).toHaveProperty('emailVerified', true);
+
+    const again = await request.post('/api/auth/verify-email', { data: { token } });
+    expect(again.status()).toBe(400);
+    expect(await again.json()).toHaveProperty('code', 'TOKEN_USED');
+
+    const resend = await request.post('/api/auth/verify-email/resend');
+    expect(resend.status()).toBe(409);
+  });
+
+  test('a verification email should not be resent right away', async ({ request }) => {
+    await signUp(request);
+
+    const resend = await request.post('/api/auth/verify-email/resend');
+    expect(resend.status()).toBe(429);
+    expect(await resend.json()).toHaveProperty('code', 'TOO_MANY_REQUESTS');
+  });
+
+  test('a tampered or mismatched token should be rejected', async ({ request }) => {
+    const { email } = await signUp(request);
+    const token = (await readMailLink(email, '/verify-email')).searchParams.get('token')!;
+
+    const tampered = await request.post('/api/auth/verify-email', { data: { token: `${token.slice(0, -2)}xx` } });
+    expect(tampered.status()).toBe(400);
+    expect(await tampered.json()).toHaveProperty('code', 'INVALID_TOKEN');
+
+    // A verification token is not a password reset token
+    const wrongPurpose = await request.post('/api/auth/reset-password', {
+      data: { token, newPassword: 'new-password-123' }
+    });
+    expect(wrongPurpose.status()).toBe(400);
+    expect(await wrongPurpose.json()).toHaveProperty('code', 'INVALID_TOKEN');
+  });
+
+  test('forgot password should not reveal whether an account exists', async ({ request }) => {
+    const unknown = await request.post('/api/auth/forgot-password', {
+      data: { email: `nobody-${Date.now()}@example.com` }
+    });
+    const known = await request.post('/api/auth/forgot-password', {
+      data: { email: (await signUp(request)).email }
+    });
+
+    expect(unknown.status()).toBe(200);
+    expect(known.status()).toBe(200);
+    expect((await unknown.json()).message).toBe((await known.json()).message);
+  });
+
+  test('resetting the password should sign out every session and use up the link', async ({ request, playwright, baseURL }) => {
+    const credentials = await signUp(request);
+
+    const anonymous = await playwright.request.newContext({ baseURL });
+    try {
+      expect((await anonymous.post('/api/auth/forgot-password', { data: { email: credentials.email } })).status()).toBe(200);
+      const token = (await readMailLink(credentials.email, '/reset-password')).searchParams.get('token');
+
+      const weak = await anonymous.post('/api/auth/reset-password', { data: { token, newPassword: 'short' } });
+      expect(weak.status()).toBe(400);
+
+      // The rejected attempt did not use up the link
+      const reset = await anonymous.post('/api/auth/reset-password', { data: { token, newPassword: 'reset-password-123' } });
+      expect(reset.status()).toBe(200);
+
+      expect((await request.get('/api/auth/me')).status()).toBe(401);
+
+      const reuse = await anonymous.post('/api/auth/reset-password', { data: { token, newPassword: 'another-password-123' } });
+      expect(reuse.status()).toBe(400);
+      expect(await reuse.json()).toHaveProperty('code', 'TOKEN_USED');
+
+      const oldPassword = await anonymous.post('/api/auth/login', {
+        data: { email: credentials.email, password: credentials.password }
+      });
+      expect(oldPassword.status()).toBe(401);
+
+      const login = await anonymous.post('/api/auth/login', {
+        data: { email: credentials.email, password: 'reset-password-123' }
+      });
+      expect(login.status()).toBe(200);
+      // Following the emailed link proved the address
+      expect((await login.json()).user).toHaveProperty('emailVerified', true);
+    } finally {
+      await anonymous.dispose();
+    }
+  });
+});
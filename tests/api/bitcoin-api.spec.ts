@@ -1,4 +1,5 @@
 import { test, expect } from '@playwright/test';
+import { signUp } from '../utils/test-helpers';
 
 test.describe('Bitcoin API Tests', () => {
   
@@ -230,4 +231,67 @@ test.describe('Bitcoin API Tests', () => {
     const data = await response.json();
     expect(data).toHaveProperty('price');
   });
-});
\ No newline at end of file
+});
+
+test.describe('Candles API Tests', () => {
+
+  test('GET /api/candles should return ascending candles for an interval', async ({ request }) => {
+    const response = await request.get('/api/candles?symbol=BTC&interval=1h&limit=24');
+
+    expect(response.status()).toBe(200);
+
+    const data = await response.json();
+    expect(data).toHaveProperty('success', true);
+    expect(data.interval).toBe('1h');
+    expect(Array.isArray(data.data)).toBe(true);
+    expect(data.data.length).toBeLessThanOrEqual(24);
+
+    for (let i = 1; i < data.data.length; i++) {
+      expect(new Date(data.data[i].openTime).getTime()).toBeGreaterThan(new Date(data.data[i - 1].openTime).getTime());
+    }
+
+    for (const candle of data.data) {
+      expect(candle.high).toBeGreaterThanOrEqual(Math.max(candle.open, candle.close));
+      expect(candle.low).toBeLessThanOrEqual(Math.min(candle.open, candle.close));
+    }
+  });
+
+  test('GET /api/candles with an unknown interval should return 400', async ({ request }) => {
+    const response = await request.get('/api/candles?interval=3m');
+
+    expect(response.status()).toBe(400);
+  });
+
+  test('GET /api/candles with from after to should return 400', async ({ request }) => {
+    const response = await request.get('/api/candles?interval=1m&from=2025-09-02T00:00:00Z&to=2025-09-01T00:00:00Z');
+
+    expect(response.status()).toBe(400);
+  });
+
+  test('POST /api/candles/backfill without signing in should return 401', async ({ request }) => {
+    const response = await request.post('/api/candles/backfill', {
+      data: { from: '2025-01-01T00:00:00Z', to: '2025-01-02T00:00:00Z' }
+    });
+
+    expect(response.status()).toBe(401);
+    expect(await response.json()).toHaveProperty('code', 'UNAUTHORIZED');
+  });
+
+  test('POST /api/candles/backfill should reject ranges over 31 days', async ({ request }) => {
+    await signUp(request);
+    const response = await request.post('/api/candles/backfill', {
+      data: { from: '2025-01-01T00:00:00Z', to: '2025-03-01T00:00:00Z' }
+    });
+
+    expect(response.status()).toBe(400);
+  });
+
+  test('POST /api/candles/backfill should reject symbols that are not letters and digits', async ({ request }) => {
+    await signUp(request);
+    const response = await request.post('/api/candles/backfill', {
+      data: { symbol: 'BTC&interval=1s', from: '2025-01-01T00:00:00Z', to: '2025-01-02T00:00:00Z' }
+    });
+
+    expect(response.status()).toBe(400);
+  });
+});
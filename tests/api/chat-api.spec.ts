@@ -1,6 +1,10 @@
 import { test, expect } from '@playwright/test';
+import { createAgent, signUp } from '../utils/test-helpers';
 
 test.describe('Chat API Tests', () => {
+  test.beforeEach(async ({ request }) => {
+    await signUp(request);
+  });
   
   test('GET /api/chat/[agentId] should return chat messages', async ({ request }) => {
     // First get available agents
@@ -359,4 +363,261 @@ test.describe('Chat API Tests', () => {
       test.skip();
     }
   });
-});
\ No newline at end of file
+});
+
+test.describe('Streaming Chat API Tests', () => {
+
+  const parseEvents = (body: string) => body
+    .split('\n\n')
+    .map(frame => frame.split('\n').find(line => line.startsWith('data:')))
+    .filter((line): line is string => !!line)
+    .map(line => JSON.parse(line.slice(5)));
+
+  test('POST /api/chat/[agentId]/stream should stream a reply ending in done', async ({ request }) => {
+    const agentsResponse = await request.get('/api/agents');
+    const agentsData = await agentsResponse.json();
+
+    if (agentsData.agents && agentsData.agents.length > 0) {
+      const agentId = agentsData.agents[0].id;
+
+      const response = await request.post(`/api/chat/${agentId}/stream`, {
+        data: { content: 'What is your investment philosophy?' }
+      });
+
+      expect(response.status()).toBe(200);
+      expect(response.headers()['content-type']).toContain('text/event-stream');
+      expect(response.headers()['x-chat-stream-id']).toBeTruthy();
+
+      const events = parseEvents(await response.text());
+      expect(events[0].type).toBe('start');
+      expect(events[0].userMessage.content).toBe('What is your investment philosophy?');
+      expect(events.some(event => event.type === 'token')).toBe(true);
+
+      const last = events[events.length - 1];
+      expect(last.type).toBe('done');
+      expect(last.message.type).toBe('agent');
+      expect(last.message.content).toBe(
+        events.filter(event => event.type === 'token').map(event => event.text).join('')
+      );
+
+      // Event ids are sequential so clients can resume
+      events.forEach((event, index) => expect(event.id).toBe(index + 1));
+    } else {
+      test.skip();
+    }
+  });
+
+  test('GET /api/chat/[agentId]/stream should replay events after Last-Event-ID', async ({ request }) => {
+    const agentsResponse = await request.get('/api/agents');
+    const agentsData = await agentsResponse.json();
+
+    if (agentsData.agents && agentsData.agents.length > 0) {
+      const agentId = agentsData.agents[0].id;
+
+      const response = await request.post(`/api/chat/${agentId}/stream`, {
+        data: { content: '패턴 추가해줘' }
+      });
+      const streamId = response.headers()['x-chat-stream-id'];
+      const events = parseEvents(await response.text());
+
+      const resumed = await request.get(`/api/chat/${agentId}/stream?streamId=${streamId}`, {
+        headers: { 'Last-Event-ID': '1' }
+      });
+      expect(resumed.status()).toBe(200);
+
+      const replayed = parseEvents(await resumed.text());
+      expect(replayed.map(event => event.id)).toEqual(events.slice(1).map(event => event.id));
+      expect(replayed[replayed.length - 1].type).toBe('done');
+    } else {
+      test.skip();
+    }
+  });
+
+  test('DELETE /api/chat/[agentId]/stream should report a finished reply', async ({ request }) => {
+    const agentsResponse = await request.get('/api/agents');
+    const agentsData = await agentsResponse.json();
+
+    if (agentsData.agents && agentsData.agents.length > 0) {
+      const agentId = agentsData.agents[0].id;
+
+      const response = await request.post(`/api/chat/${agentId}/stream`, {
+        data: { content: 'Hello' }
+      });
+      const streamId = response.headers()['x-chat-stream-id'];
+      await response.text();
+
+      const cancelled = await request.delete(`/api/chat/${agentId}/stream?streamId=${streamId}`);
+      expect(cancelled.status()).toBe(200);
+
+      const data = await cancelled.json();
+      expect(data.success).toBe(true);
+      expect(data.cancelled).toBe(false);
+    } else {
+      test.skip();
+    }
+  });
+
+  test('Streaming chat should return 404 for unknown agents and streams', async ({ request }) => {
+    const response = await request.post('/api/chat/non-existent-agent-id/stream', {
+      data: { content: 'Hello' }
+    });
+    expect(response.status()).toBe(404);
+
+    const agentsResponse = await request.get('/api/agents');
+    const agentsData = await agentsResponse.json();
+
+    if (agentsData.agents && agentsData.agents.length > 0) {
+      const agentId = agentsData.agents[0].id;
+
+      const resumed = await request.get(`/api/chat/${agentId}/stream?streamId=unknown-stream`);
+      expect(resumed.status()).toBe(404);
+
+      const missing = await request.get(`/api/chat/${agentId}/stream`);
+      expect(missing.status()).toBe(400);
+    }
+  });
+});
+
+test.describe('Chat Command API Tests', () => {
+  test.beforeEach(async ({ request }) => {
+    await signUp(request);
+  });
+
+  const proposeCommand = async (request: import('@playwright/test').APIRequestContext, agentId: string, content: string) => {
+    const response = await request.post(`/api/chat/${agentId}`, { data: { content } });
+    expect(response.status()).toBe(200);
+    const data = await response.json();
+    return { message: data.agentResponse, metadata: JSON.parse(data.agentResponse.metadata) };
+  };
+
+  test('Confirming a proposed pattern creates it and undo removes it', async ({ request }) => {
+    // Commands change the agent, so they run on one the user created
+    const agent = await createAgent(request);
+
+    try {
+      const { message, metadata } = await proposeCommand(request, agent.id, `"Playwright 패턴 ${Date.now()}" 패턴 추가해줘`);
+      expect(metadata.execution.status).toBe('pending');
+      expect(metadata.execution.plan.kind).toBe('pattern.create');
+
+      const confirmed = await request.post(`/api/chat/${agent.id}/commands/${message.id}`, {
+        data: { action: 'confirm' }
+      });
+      expect(confirmed.status()).toBe(200);
+
+      const confirmData = await confirmed.json();
+      expect(confirmData.success).toBe(true);
+      const execution = JSON.parse(confirmData.data.command.metadata).execution;
+      expect(execution.status).toBe('executed');
+      expect(execution.changes[0].operation).toBe('create');
+
+      const patternId = execution.changes[0].id;
+      const resultMetadata = JSON.parse(confirmData.data.message.metadata);
+      expect(resultMetadata.type).toBe('pattern_added');
+      expect(resultMetadata.audit.commandMessageId).toBe(message.id);
+
+      let pattern = await request.get(`/api/agents/${agent.id}/patterns/${patternId}`);
+      expect(pattern.status()).toBe(200);
+
+      // Confirming twice is rejected
+      const again = await request.post(`/api/chat/${agent.id}/commands/${message.id}`, {
+        data: { action: 'confirm' }
+      });
+      expect(again.status()).toBe(409);
+
+      const undone = await request.post(`/api/chat/${agent.id}/commands/${message.id}`, {
+        data: { action: 'undo' }
+      });
+      expect(undone.status()).toBe(200);
+      const undoData = await undone.json();
+      expect(JSON.parse(undoData.data.command.metadata).execution.status).toBe('undone');
+      expect(undoData.data.message.type).toBe('system');
+
+      pattern = await request.get(`/api/agents/${agent.id}/patterns/${patternId}`);
+      expect(pattern.status()).toBe(404);
+    } finally {
+      await request.delete(`/api/agents/${agent.id}`);
+    }
+  });
+
+  test('Confirming a command on an agent the user did not create should return 403', async ({ request }) => {
+    const agentsResponse = await request.get('/api/agents');
+    const agentsData = await agentsResponse.json();
+    const agent = agentsData.agents?.find((a: { isActive: boolean; ownerId: string | null }) => a.isActive && !a.ownerId);
+    test.skip(!agent, 'No seeded agents available');
+
+    const { message } = await proposeCommand(request, agent.id, `"남의 패턴 ${Date.now()}" 패턴 추가해줘`);
+    const confirmed = await request.post(`/api/chat/${agent.id}/commands/${message.id}`, {
+      data: { action: 'confirm' }
+    });
+    expect(confirmed.status()).toBe(403);
+  });
+
+  test('Cancelling a proposed command leaves the agent unchanged', async ({ request }) => {
+    const agentsResponse = await request.get('/api/agents');
+    const agentsData = await agentsResponse.json();
+    const agent = agentsData.agents?.find((a: { isActive: boolean }) => a.isActive);
+
+    if (agent) {
+      const { message } = await proposeCommand(request, agent.id, `"취소될 패턴 ${Date.now()}" 패턴 추가해줘`);
+
+      const cancelled = await request.post(`/api/chat/${agent.id}/commands/${message.id}`, {
+        data: { action: 'cancel' }
+      });
+      expect(cancelled.status()).toBe(200);
+      const data = await cancelled.json();
+      expect(JSON.parse(data.data.command.metadata).execution.status).toBe('cancelled');
+
+      const undo = await request.post(`/api/chat/${agent.id}/commands/${message.id}`, {
+        data: { action: 'undo' }
+      });
+      expect(undo.status()).toBe(409);
+    } else {
+      test.skip();
+    }
+  });
+
+  test('Chat command API should validate the action and message', async ({ request }) => {
+    const agentId = (await createAgent(request)).id;
+
+    const invalid = await request.post(`/api/chat/${agentId}/commands/any-message`, {
+      data: { action: 'explode' }
+    });
+    expect(invalid.status()).toBe(400);
+
+    const missing = await request.post(`/api/chat/${agentId}/commands/non-existent-message`, {
+      data: { action: 'confirm' }
+    });
+    expect(missing.status()).toBe(404);
+
+    await request.delete(`/api/agents/${agentId}`);
+  });
+
+  test('Chat history should be private to each user', async ({ request, playwright, baseURL }) => {
+    const agentsResponse = await request.get('/api/agents');
+    const agentsData = await agentsResponse.json();
+
+    if (agentsData.agents && agentsData.agents.length > 0) {
+      const agentId = agentsData.agents[0].id;
+
+      const response = await request.post(`/api/chat/${agentId}`, {
+        data: { content: '내 대화는 나만 볼 수 있어야 합니다' }
+      });
+      expect(response.status()).toBe(200);
+      const { userMessage } = await response.json();
+
+      const ownHistory = (await (await request.get(`/api/chat/${agentId}`)).json()).messages;
+      expect(ownHistory.some((message: { id: string }) => message.id === userMessage.id)).toBe(true);
+
+      const otherUser = await playwright.request.newContext({ baseURL });
+      try {
+        await signUp(otherUser);
+        const otherHistory = (await (await otherUser.get(`/api/chat/${agentId}`)).json()).messages;
+        expect(otherHistory.some((message: { id: string }) => message.id === userMessage.id)).toBe(false);
+      } finally {
+        await otherUser.dispose();
+      }
+    } else {
+      test.skip();
+    }
+  });
+});
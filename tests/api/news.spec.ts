@@ -1,4 +1,5 @@
 import { test, expect } from '@playwright/test';
+import { signUp } from '../utils/test-helpers';
 
 test.describe('News API Tests', () => {
   const baseURL = process.env.BASE_URL || 'http://localhost:3000';
@@ -132,6 +133,26 @@ test.describe('News API Tests', () => {
     expect(Array.isArray(data.data.keyEvents)).toBe(true);
   });
 
+  test('GET /api/news/context should include news features for agents', async ({ request }) => {
+    await request.post(`${baseURL}/api/news/analyze`, {
+      data: { action: 'generate_mock' }
+    });
+
+    const response = await request.get(`${baseURL}/api/news/context`);
+
+    expect(response.status()).toBe(200);
+
+    const { data } = await response.json();
+    expect(typeof data.features.sentimentMomentum).toBe('number');
+    expect(typeof data.features.regulatoryRisk).toBe('boolean');
+    expect(data.features.regulatoryRiskScore).toBeGreaterThanOrEqual(0);
+    expect(data.features.regulatoryRiskScore).toBeLessThanOrEqual(1);
+    for (const category of ['technical', 'regulatory', 'market', 'corporate']) {
+      expect(data.features.eventCounts[category]).toBeGreaterThanOrEqual(0);
+    }
+    expect(data.features.newsCount).toBeGreaterThan(0);
+  });
+
   test('POST /api/news/analyze should generate mock data', async ({ request }) => {
     const response = await request.post(`${baseURL}/api/news/analyze`, {
       data: { action: 'generate_mock' }
@@ -211,4 +232,202 @@ test.describe('News API Tests', () => {
     expect(data.success).toBe(false);
     expect(data).toHaveProperty('error');
   });
-});
\ No newline at end of file
+});
+test.describe('News Ingestion API Tests', () => {
+  const baseURL = process.env.BASE_URL || 'http://localhost:3000';
+
+  // Pulling feeds needs a signed-in user
+  test.beforeEach(async ({ request }) => {
+    await signUp(request);
+  });
+
+  test('GET /api/news/ingest should list feeds and scheduler status', async ({ request }) => {
+    const response = await request.get(`${baseURL}/api/news/ingest`);
+
+    expect(response.status()).toBe(200);
+
+    const data = await response.json();
+    expect(data.success).toBe(true);
+    expect(Array.isArray(data.data.feeds)).toBe(true);
+    for (const feed of data.data.feeds) {
+      expect(feed).toHaveProperty('id');
+      expect(feed).toHaveProperty('location');
+    }
+    expect(data.data.scheduler).toHaveProperty('isRunning');
+  });
+
+  test('POST /api/news/ingest without signing in should return 401', async () => {
+    const response = await fetch(`${baseURL}/api/news/ingest`, { method: 'POST', body: JSON.stringify({ action: 'run' }) });
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toHaveProperty('code', 'UNAUTHORIZED');
+  });
+
+  test('POST /api/news/ingest should not let ordinary users stop the scheduler', async ({ request }) => {
+    const response = await request.post(`${baseURL}/api/news/ingest`, {
+      data: { action: 'stop' }
+    });
+
+    expect(response.status()).toBe(403);
+    expect(await response.json()).toHaveProperty('code', 'FORBIDDEN');
+  });
+
+  test('POST /api/news/ingest should reject unknown feeds', async ({ request }) => {
+    const response = await request.post(`${baseURL}/api/news/ingest`, {
+      data: { action: 'run', feeds: ['no-such-feed'] }
+    });
+
+    expect(response.status()).toBe(400);
+
+    const data = await response.json();
+    expect(data.success).toBe(false);
+    expect(data.error).toContain('no-such-feed');
+  });
+
+  test('POST /api/news/ingest should reject invalid actions', async ({ request }) => {
+    const response = await request.post(`${baseURL}/api/news/ingest`, {
+      data: { action: 'explode' }
+    });
+
+    expect(response.status()).toBe(400);
+    expect((await response.json()).success).toBe(false);
+  });
+});
+
+test.describe('News Scoring API Tests', () => {
+  const baseURL = process.env.BASE_URL || 'http://localhost:3000';
+
+  test('POST /api/news should score articles created without scores', async ({ request }) => {
+    const response = await request.post(`${baseURL}/api/news`, {
+      data: {
+        title: 'Bitcoin Rallies Past Record High as ETF Inflows Surge',
+        content: 'Spot bitcoin ETFs saw heavy inflows as the price climbed.',
+        source: 'Reuters',
+        publishedAt: new Date().toISOString(),
+        category: 'market',
+        relatedSymbols: ['BTC']
+      }
+    });
+
+    expect(response.status()).toBe(200);
+
+    const data = await response.json();
+    expect(data.success).toBe(true);
+    expect(data.data.sentimentScore).toBeGreaterThan(0.5);
+    expect(data.data.importanceScore).toBeGreaterThanOrEqual(7);
+    expect(data.data.importanceScore).toBeLessThanOrEqual(10);
+  });
+
+  test('POST /api/news/score should re-score recent articles', async ({ request }) => {
+    const response = await request.post(`${baseURL}/api/news/score`, {
+      data: { since: new Date(Date.now() - 60 * 60 * 1000).toISOString() }
+    });
+
+    expect(response.status()).toBe(200);
+
+    const data = await response.json();
+    expect(data.success).toBe(true);
+    expect(data.data.scanned).toBeGreaterThanOrEqual(data.data.updated);
+  });
+
+  test('POST /api/news/score should reject invalid dates', async ({ request }) => {
+    const response = await request.post(`${baseURL}/api/news/score`, {
+      data: { since: 'not-a-date' }
+    });
+
+    expect(response.status()).toBe(400);
+    expect((await response.json()).success).toBe(false);
+  });
+});
+
+test.describe('News Report Generation API Tests', () => {
+  const baseURL = process.env.BASE_URL || 'http://localhost:3000';
+
+  // Generating reports needs a signed-in user and counts against their hourly limit
+  test.beforeEach(async ({ request }) => {
+    await signUp(request);
+  });
+
+  test('POST /api/news/reports/generate without signing in should return 401', async () => {
+    const response = await fetch(`${baseURL}/api/news/reports/generate`, { method: 'POST', body: JSON.stringify({ type: 'daily' }) });
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toHaveProperty('code', 'UNAUTHORIZED');
+  });
+
+  test('POST /api/news/reports/generate should write the daily report', async ({ request }) => {
+    await request.post(`${baseURL}/api/news/analyze`, {
+      data: { action: 'generate_mock' }
+    });
+
+    const response = await request.post(`${baseURL}/api/news/reports/generate`, {
+      data: { type: 'daily', date: new Date().toISOString() }
+    });
+
+    expect(response.status()).toBe(200);
+
+    const data = await response.json();
+    expect(data.success).toBe(true);
+    expect(data.data.type).toBe('daily');
+    expect(data.data.articleCount).toBeGreaterThan(0);
+    expect(Array.isArray(data.data.keyEvents)).toBe(true);
+    expect(data.data.keyEvents.length).toBeGreaterThan(0);
+    expect(data.data.topStoriesIds.length).toBeGreaterThan(0);
+    expect(['improving', 'deteriorating', 'stable']).toContain(data.data.sentimentTrend);
+  });
+
+  test('regenerating a period should keep one report', async ({ request }) => {
+    const date = new Date().toISOString();
+    const first = await (await request.post(`${baseURL}/api/news/reports/generate`, { data: { type: 'weekly', date } })).json();
+    const second = await (await request.post(`${baseURL}/api/news/reports/generate`, { data: { type: 'weekly', date } })).json();
+
+    expect(first.success).toBe(true);
+    expect(second.data.id).toBe(first.data.id);
+  });
+
+  test('POST /api/news/reports/generate should not let ordinary users stop the scheduler', async ({ request }) => {
+    const response = await request.post(`${baseURL}/api/news/reports/generate`, {
+      data: { action: 'stop' }
+    });
+
+    expect(response.status()).toBe(403);
+    expect(await response.json()).toHaveProperty('code', 'FORBIDDEN');
+  });
+
+  test('POST /api/news/reports/generate should reject unknown report types', async ({ request }) => {
+    const response = await request.post(`${baseURL}/api/news/reports/generate`, {
+      data: { type: 'monthly' }
+    });
+
+    expect(response.status()).toBe(400);
+    expect((await response.json()).success).toBe(false);
+  });
+});
+
+test.describe('News Impact API Tests', () => {
+  const baseURL = process.env.BASE_URL || 'http://localhost:3000';
+
+  test('GET /api/news/impact should group price reactions', async ({ request }) => {
+    const response = await request.get(`${baseURL}/api/news/impact?days=30`);
+
+    expect(response.status()).toBe(200);
+
+    const data = await response.json();
+    expect(data.success).toBe(true);
+    expect(data.data).toHaveProperty('baseline');
+    expect(data.data.measuredCount).toBeLessThanOrEqual(data.data.articleCount);
+    for (const dimension of ['category', 'source', 'sentiment']) {
+      expect(Array.isArray(data.data.groups[dimension])).toBe(true);
+      for (const group of data.data.groups[dimension]) {
+        expect(Object.keys(group.horizons)).toEqual(['1h', '4h', '24h']);
+      }
+    }
+  });
+
+  test('GET /api/news/impact should reject invalid lookbacks', async ({ request }) => {
+    const response = await request.get(`${baseURL}/api/news/impact?days=0`);
+
+    expect(response.status()).toBe(400);
+    expect((await response.json()).success).toBe(false);
+  });
+});
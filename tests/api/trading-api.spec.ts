@@ -0,0 +1,161 @@
+import { test, expect } from '@playwright/test';
+import jwt from 'jsonwebtoken';
+import { signUp } from '../utils/test-helpers';
+
+test.describe('Trading API Tests', () => {
+  test.beforeEach(async ({ request }) => {
+    await signUp(request);
+  });
+
+  test('GET /api/portfolio without signing in should return 401', async ({ baseURL }) => {
+    const response = await fetch(`${baseURL}/api/portfolio`);
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toHaveProperty('code', 'UNAUTHORIZED');
+  });
+
+  test('GET /api/portfolio with a token signed by another secret should return 401', async ({ baseURL }) => {
+    const forged = jwt.sign({ userId: 'someone-else', email: 'x@example.com', username: 'x', sid: 'someone-elses-session' }, 'not-the-secret');
+    const response = await fetch(`${baseURL}/api/portfolio`, {
+      headers: { Cookie: `auth-token=${forged}` }
+    });
+
+    expect(response.status).toBe(401);
+  });
+
+  test('GET /api/portfolio should return the signed-in user portfolio', async ({ request }) => {
+    const response = await request.get('/api/portfolio');
+
+    expect(response.status()).toBe(200);
+
+    const data = await response.json();
+    expect(data).toHaveProperty('success', true);
+    expect(data.data).toHaveProperty('balance');
+    expect(data.data).toHaveProperty('bitcoinHoldings');
+    expect(data.data).toHaveProperty('realizedPnl');
+    expect(data.data).toHaveProperty('unrealizedPnl');
+  });
+
+  test('POST /api/trade with invalid type should return 400', async ({ request }) => {
+    const response = await request.post('/api/trade', {
+      data: { type: 'short', amount: 0.01 }
+    });
+
+    expect(response.status()).toBe(400);
+  });
+
+  test('POST /api/trade selling more than held should return 422', async ({ request }) => {
+    await request.post('/api/portfolio/reset');
+
+    const response = await request.post('/api/trade', {
+      data: { type: 'sell', amount: 1 }
+    });
+
+    // 503 when no price has been recorded yet
+    expect([422, 503]).toContain(response.status());
+
+    const data = await response.json();
+    expect(data).toHaveProperty('success', false);
+    expect(data).toHaveProperty('code');
+  });
+
+  test('POST /api/trade buy should charge the 0.1% fee', async ({ request }) => {
+    await request.post('/api/portfolio/reset');
+
+    const response = await request.post('/api/trade', {
+      data: { type: 'buy', amount: 0.01 }
+    });
+
+    if (response.status() === 503) {
+      // No stored price to execute against
+      test.skip();
+    }
+
+    expect(response.status()).toBe(200);
+
+    const data = await response.json();
+    expect(data.trade.fee).toBeCloseTo(data.trade.total * 0.001, 6);
+    expect(data.portfolio.bitcoinHoldings).toBeCloseTo(0.01, 8);
+    expect(data.portfolio.balance).toBeCloseTo(10000 - data.trade.total - data.trade.fee, 4);
+  });
+});
+
+test.describe('Orders API Tests', () => {
+
+  test('POST /api/orders limit order without limitPrice should return 400', async ({ request }) => {
+    const response = await request.post('/api/orders', {
+      data: { side: 'buy', type: 'limit', quantity: 0.01 }
+    });
+
+    expect(response.status()).toBe(400);
+  });
+
+  test('POST /api/orders sell OCO with inverted prices should return 400', async ({ request }) => {
+    const response = await request.post('/api/orders', {
+      data: { type: 'oco', side: 'sell', quantity: 0.01, takeProfitPrice: 1000, stopPrice: 2000 }
+    });
+
+    expect(response.status()).toBe(400);
+  });
+
+  test('limit order lifecycle: place, amend, cancel', async ({ request }) => {
+    await request.post('/api/portfolio/reset');
+
+    const placeResponse = await request.post('/api/orders', {
+      data: { side: 'buy', type: 'limit', quantity: 0.01, limitPrice: 1000 }
+    });
+    expect(placeResponse.status()).toBe(201);
+
+    const order = (await placeResponse.json()).data;
+    expect(order.status).toBe('open');
+    expect(order.filledQuantity).toBe(0);
+
+    const amendResponse = await request.patch(`/api/orders/${order.id}`, {
+      data: { limitPrice: 1100 }
+    });
+    expect(amendResponse.status()).toBe(200);
+    expect((await amendResponse.json()).data.limitPrice).toBe(1100);
+
+    // Raising the quantity beyond the balance is rejected like placing it would be
+    const oversizedResponse = await request.patch(`/api/orders/${order.id}`, {
+      data: { quantity: 100 }
+    });
+    expect(oversizedResponse.status()).toBe(422);
+    expect(await oversizedResponse.json()).toHaveProperty('code', 'INSUFFICIENT_FUNDS');
+
+    const cancelResponse = await request.delete(`/api/orders/${order.id}`);
+    expect(cancelResponse.status()).toBe(200);
+    expect((await cancelResponse.json()).data[0].status).toBe('cancelled');
+
+    // A cancelled order can no longer be changed
+    const secondCancel = await request.delete(`/api/orders/${order.id}`);
+    expect(secondCancel.status()).toBe(409);
+  });
+
+  test('GET /api/orders/non-existent-id should return 404', async ({ request }) => {
+    const response = await request.get('/api/orders/non-existent-id');
+
+    expect(response.status()).toBe(404);
+  });
+
+  test('Orders should only be visible to the user who placed them', async ({ request, playwright, baseURL }) => {
+    const placeResponse = await request.post('/api/orders', {
+      data: { side: 'buy', type: 'limit', quantity: 0.01, limitPrice: 1000 }
+    });
+    expect(placeResponse.status()).toBe(201);
+    const order = (await placeResponse.json()).data;
+
+    const otherUser = await playwright.request.newContext({ baseURL });
+    try {
+      await signUp(otherUser);
+      expect((await otherUser.get(`/api/orders/${order.id}`)).status()).toBe(404);
+      expect((await otherUser.delete(`/api/orders/${order.id}`)).status()).toBe(404);
+
+      const otherOrders = (await (await otherUser.get('/api/orders')).json()).data;
+      expect(otherOrders.some((other: { id: string }) => other.id === order.id)).toBe(false);
+    } finally {
+      await otherUser.dispose();
+      await request.delete(`/api/orders/${order.id}`);
+    }
+  });
+});
@@ -7,6 +7,7 @@ test.describe('Chat Functionality Tests', () => {
 
   test.beforeEach(async ({ page }) => {
     helpers = new TestHelpers(page);
+    await helpers.signIn();
   });
 
   test('should load chat page correctly', async ({ page }) => {
@@ -7,6 +7,7 @@ test.describe('Dashboard and Reports Tests', () => {
 
   test.beforeEach(async ({ page }) => {
     helpers = new TestHelpers(page);
+    await helpers.signIn();
   });
 
   test('should load dashboard correctly', async ({ page }) => {
@@ -6,6 +6,7 @@ test.describe('Home Page Tests', () => {
 
   test.beforeEach(async ({ page }) => {
     helpers = new TestHelpers(page);
+    await helpers.signIn();
   });
 
   test('should load home page correctly', async ({ page }) => {
@@ -6,6 +6,7 @@ test.describe('Navigation Tests', () => {
 
   test.beforeEach(async ({ page }) => {
     helpers = new TestHelpers(page);
+    await helpers.signIn();
   });
 
   test('should display main navigation correctly', async ({ page }) => {
@@ -127,4 +128,15 @@ test.describe('Navigation Tests', () => {
     await page.click('a[href="/dashboard"]');
     await helpers.assertUrl('http://localhost:3000/dashboard');
   });
-});
\ No newline at end of file
+
+  test('should send signed-out visitors of protected pages to login', async ({ page }) => {
+    await page.context().clearCookies();
+
+    await page.goto('/dashboard');
+    await expect(page).toHaveURL(/\/login\?next=%2Fdashboard$/);
+
+    // Public pages stay open
+    await helpers.navigateToAgents();
+    await helpers.assertUrl('http://localhost:3000/agents');
+  });
+});
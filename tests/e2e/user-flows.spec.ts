@@ -7,6 +7,7 @@ test.describe('End-to-End User Flows', () => {
 
   test.beforeEach(async ({ page }) => {
     helpers = new TestHelpers(page);
+    await helpers.signIn();
   });
 
   test('Complete agent creation and interaction flow', async ({ page }) => {
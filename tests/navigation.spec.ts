@@ -1,6 +1,11 @@
 import { test, expect } from '@playwright/test';
+import { signUp } from './utils/test-helpers';
 
 test.describe('Navigation Tests', () => {
+  test.beforeEach(async ({ context }) => {
+    await signUp(context.request);
+  });
+
   test('should navigate between all main pages', async ({ page }) => {
     await page.goto('/');
     
@@ -1,6 +1,11 @@
 import { test, expect } from '@playwright/test';
+import { signUp } from './utils/test-helpers';
 
 test.describe('User Flow Tests', () => {
+  test.beforeEach(async ({ context }) => {
+    await signUp(context.request);
+  });
+
   test('complete user flow: create agent -> view detail -> navigate to chat', async ({ page }) => {
     // Start at home page
     await page.goto('/');
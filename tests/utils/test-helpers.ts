@@ -1,8 +1,73 @@
-import { Page, Locator, expect } from '@playwright/test';
+import { Page, Locator, APIRequestContext, expect } from '@playwright/test';
+import { randomUUID } from 'crypto';
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+
+// Registers a fresh user through the API. The request context keeps the session cookies the
+// response sets, so later requests on it (and on the page, for page.request) are signed in.
+export async function signUp(request: APIRequestContext) {
+  const id = randomUUID().slice(0, 8);
+  const credentials = { email: `test-${id}@example.com`, username: `test-${id}`, password: `password-${id}` };
+
+  const response = await request.post('/api/auth/register', { data: credentials });
+  expect(response.ok()).toBe(true);
+
+  return { ...credentials, user: (await response.json()).user };
+}
+
+// Creates an agent owned by the user signed in on the request context, who may then change it
+// and its patterns and watchlist. Seeded agents have no owner and only operators may change them.
+export async function createAgent(request: APIRequestContext) {
+  const id = randomUUID().slice(0, 8);
+  const response = await request.post('/api/agents', {
+    data: {
+      name: `Test Agent ${id}`,
+      type: `test-agent-${id}`,
+      personality: 'balanced',
+      strategy: ['가치 투자'],
+      description: 'Agent created by a test'
+    }
+  });
+  expect(response.ok()).toBe(true);
+
+  return (await response.json()).agent;
+}
+
+// Link to an app page from the newest email sent to an address. The dev server writes mail to
+// the file transport's outbox, which is read here; waits briefly for the message to land.
+export async function readMailLink(to: string, pathname: string, timeout: number = 5000) {
+  const outboxDir = path.resolve(process.env.MAIL_OUTBOX_DIR || 'data/mail-outbox');
+  const deadline = Date.now() + timeout;
+
+  while (true) {
+    const fileNames = (await readdir(outboxDir).catch(() => [] as string[]))
+      .filter((name) => name.endsWith('.json'))
+      .sort()
+      .reverse();
+
+    for (const name of fileNames) {
+      const mail = JSON.parse(await readFile(path.join(outboxDir, name), 'utf8'));
+      const link = mail.to === to && (mail.text as string).match(/https?:\/\/\S+/)?.[0];
+      if (link && new URL(link).pathname === pathname) {
+        return new URL(link);
+      }
+    }
+
+    if (Date.now() > deadline) {
+      throw new Error(`No email to ${to} linking to ${pathname}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }
+}
 
 export class TestHelpers {
   constructor(private page: Page) {}
 
+  // Auth helpers
+  async signIn() {
+    return signUp(this.page.request);
+  }
+
   // Navigation helpers
   async navigateToHome() {
     await this.page.goto('/');